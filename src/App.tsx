@@ -2,18 +2,40 @@
  * Main Application Component
  * 
  * This is the root component of the BiteSpeed Chatbot Flow Builder application.
- * It provides the overall layout structure including the header with the save button
- * and the main canvas area where the flow builder operates.
+ * It provides the overall layout structure including the header with the toolbar
+ * (undo/redo and save buttons) and the main canvas area where the flow builder operates.
  * 
  * The component is wrapped in ReactFlowProvider to provide React Flow context
  * to all child components that need access to the flow state and methods.
+ * It also enables autosaving of the open flow to browser storage and the
+ * keyboard shortcut manager, and shows the state of the flow backend.
  */
 
 import FlowCanvas from './components/FlowBuilder/FlowCanvas';
 import SaveButton from './components/FlowBuilder/Toolbar/SaveButton';
+import HistoryButtons from './components/FlowBuilder/Toolbar/HistoryButtons';
+import FlowLibraryMenu from './components/FlowBuilder/Toolbar/FlowLibraryMenu';
+import SaveIndicator from './components/FlowBuilder/Toolbar/SaveIndicator';
+import ServerStatus from './components/FlowBuilder/Toolbar/ServerStatus';
+import ImportExportButtons from './components/FlowBuilder/Toolbar/ImportExportButtons';
+import DiagramExportMenu from './components/FlowBuilder/Toolbar/DiagramExportMenu';
+import PreviewButton from './components/FlowBuilder/Toolbar/PreviewButton';
+import AutoLayoutButton from './components/FlowBuilder/Toolbar/AutoLayoutButton';
+import GroupButton from './components/FlowBuilder/Toolbar/GroupButton';
+import ShortcutsOverlay from './components/FlowBuilder/Shortcuts/ShortcutsOverlay';
+import ConflictDialog from './components/FlowBuilder/Sync/ConflictDialog';
+import RevisionCompare from './components/FlowBuilder/Revisions/RevisionCompare';
+import { useAutosave } from './hooks/useAutosave';
+import { useShortcutManager } from './hooks/useShortcuts';
 import { ReactFlowProvider } from '@xyflow/react';
 
 export default function App() {
+  // Persist the open flow to browser storage as it is edited
+  useAutosave();
+
+  // Run keyboard shortcuts through the central shortcut manager
+  useShortcutManager();
+
   return (
     // ReactFlowProvider provides the necessary context for React Flow components
     // This enables features like drag and drop, node selection, and flow state management
@@ -22,10 +44,33 @@ export default function App() {
       <div className="min-h-screen bg-gray-100">
         {/* Application header containing title and save functionality */}
         <header className="px-6 py-4 border-b bg-white flex justify-between items-center">
-          {/* Application title */}
-          <h1 className="text-lg font-semibold text-gray-800">BiteSpeed — Chatbot Flow Builder</h1>
-          {/* Save button component for validating and saving the flow */}
-          <SaveButton />
+          <div className="flex items-center gap-4">
+            {/* Application title */}
+            <h1 className="text-lg font-semibold text-gray-800">BiteSpeed — Chatbot Flow Builder</h1>
+            {/* Open flow name and flow library dropdown */}
+            <FlowLibraryMenu />
+            {/* Autosave status */}
+            <SaveIndicator />
+            {/* Flow backend status (loading, saving, errors, conflicts) */}
+            <ServerStatus />
+          </div>
+          {/* Toolbar actions */}
+          <div className="flex items-center gap-3">
+            {/* Chat preview toggle */}
+            <PreviewButton />
+            {/* Automatic layout of the flow or the selection */}
+            <AutoLayoutButton />
+            {/* Grouping of the selected nodes */}
+            <GroupButton />
+            {/* Undo/redo buttons for the flow edit history */}
+            <HistoryButtons />
+            {/* JSON file export and import */}
+            <ImportExportButtons />
+            {/* PNG, SVG and Mermaid export of the flow or the selection */}
+            <DiagramExportMenu />
+            {/* Save button component for validating and saving the flow */}
+            <SaveButton />
+          </div>
         </header>
 
         {/* Main content area containing the flow builder canvas */}
@@ -34,6 +79,15 @@ export default function App() {
           {/* FlowCanvas component contains the main flow builder interface */}
           <FlowCanvas />
         </main>
+
+        {/* Keyboard shortcut cheat sheet (renders nothing while closed) */}
+        <ShortcutsOverlay />
+
+        {/* Server version conflict resolution (renders nothing while closed) */}
+        <ConflictDialog />
+
+        {/* Comparison of two revisions (renders nothing while closed) */}
+        <RevisionCompare />
       </div>
     </ReactFlowProvider>
   );
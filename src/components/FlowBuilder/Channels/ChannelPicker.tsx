@@ -0,0 +1,81 @@
+/**
+ * Channel Picker Component
+ *
+ * This component chooses the messaging channels the open flow targets (see
+ * channels.ts). The limits of the chosen channels are enforced by the
+ * validation rules and shown in the node settings panels.
+ *
+ * Features:
+ * - One checkbox per channel profile, with a summary of its limits
+ * - Choosing no channel leaves the flow to the limits of its node settings
+ * - Changes are undoable like any other edit
+ */
+
+import React from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import type { ChannelId } from '../../../types/flow';
+import { CHANNEL_PROFILES, type ChannelProfile } from '../../../utils/channels';
+
+/**
+ * Limits Summary Helper
+ *
+ * @param profile - A channel profile
+ * @returns The profile's main limits as short text
+ */
+const summarize = (profile: ChannelProfile) =>
+    `${profile.maxTextLength.toLocaleString()} characters · ${profile.maxButtons} buttons · files up to ${profile.maxFileSize} MB`;
+
+/**
+ * Channel Picker Component
+ *
+ * Renders the target channel checkboxes.
+ *
+ * @returns JSX element representing the channel picker
+ */
+const ChannelPicker: React.FC = () => {
+    const channels = useFlowStore((state) => state.channels);
+    const setChannels = useFlowStore((state) => state.setChannels);
+
+    /**
+     * Toggle Channel Handler
+     *
+     * Adds or removes a channel, keeping the channels in profile order.
+     *
+     * @param id - The channel to toggle
+     * @param checked - Whether the flow targets the channel
+     */
+    const onToggle = (id: ChannelId, checked: boolean) => {
+        setChannels(CHANNEL_PROFILES.map((p) => p.id).filter((c) => (c === id ? checked : channels.includes(c))));
+    };
+
+    return (
+        <div>
+            <div className="text-xs font-medium text-gray-600 mb-1">Target Channels</div>
+            <ul className="space-y-1">
+                {CHANNEL_PROFILES.map((profile) => (
+                    <li key={profile.id}>
+                        <label className="flex items-start gap-2 p-2 border border-gray-200 rounded text-sm cursor-pointer hover:bg-gray-50">
+                            <input
+                                type="checkbox"
+                                className="mt-0.5"
+                                checked={channels.includes(profile.id)}
+                                onChange={(e) => onToggle(profile.id, e.target.checked)}
+                            />
+                            <span>
+                                {profile.name}
+                                <span className="block text-xs text-gray-500">{summarize(profile)}</span>
+                            </span>
+                        </label>
+                    </li>
+                ))}
+            </ul>
+            <p className="text-xs text-gray-500 mt-1">
+                {channels.length === 0
+                    ? 'No channel chosen: messages are only limited by their node settings.'
+                    : 'Messages, buttons and uploads must fit every chosen channel before saving.'}
+            </p>
+        </div>
+    );
+};
+
+export default ChannelPicker;
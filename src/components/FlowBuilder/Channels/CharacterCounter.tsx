@@ -0,0 +1,43 @@
+/**
+ * Character Counter Component
+ *
+ * This component counts the characters of a message as it is typed and,
+ * when the flow targets channels, compares them with the strictest limit of
+ * those channels (see channels.ts).
+ */
+
+import React from 'react';
+import type { ChannelLimit } from '../../../utils/channels';
+
+/**
+ * Character Counter Props Interface
+ *
+ * @property value - The text being counted
+ * @property limit - The strictest channel limit for the text (null if the flow targets no channel)
+ */
+interface CharacterCounterProps {
+    value: string;
+    limit: ChannelLimit | null;
+}
+
+/**
+ * Character Counter Component
+ *
+ * @returns JSX element showing the length of the text, red once it is over the limit
+ */
+const CharacterCounter: React.FC<CharacterCounterProps> = ({ value, limit }) => {
+    const over = limit !== null && value.length > limit.value;
+
+    return (
+        <div
+            className={`mt-1 text-xs text-right ${over ? 'text-red-600 font-medium' : 'text-gray-400'}`}
+            title={limit ? `${limit.channel.name} allows ${limit.value.toLocaleString()} characters` : undefined}
+        >
+            {limit
+                ? `${value.length.toLocaleString()} / ${limit.value.toLocaleString()} · ${limit.channel.name}`
+                : `${value.length.toLocaleString()} characters`}
+        </div>
+    );
+};
+
+export default CharacterCounter;
@@ -6,41 +6,96 @@
  * core flow builder functionality including drag and drop, node connections,
  * keyboard shortcuts, and the overall layout of the application.
  * 
+ * Keyboard shortcuts (including Delete) go through the shortcut manager
+ * (see useShortcuts.ts), so React Flow's own delete key is turned off.
+ * 
+ * Connections are checked against the connection rules (see
+ * connectionRules.ts) while they are drawn and when existing edges are
+ * dragged to another node; rejected attempts show a short explanation.
+ * 
+ * Flows with several locales get a locale switcher over the canvas; the
+ * canvas shows the messages in the chosen locale and tags nodes that have
+ * no translation into it.
+ * 
  * The component integrates React Flow for the canvas functionality and manages
  * the three-panel layout: Nodes Panel (left), Flow Canvas (center), and
  * Settings Panel (right).
  */
 
-import { useCallback, useRef, useEffect } from "react";
+import { useCallback, useRef, useEffect, useMemo, useState } from "react";
 import {
     ReactFlow,
     Background,
     Controls,
     MiniMap,
+    ControlButton,
     applyNodeChanges,
     applyEdgeChanges,
     type Connection,
     type NodeChange,
+    type NodeDimensionChange,
     type EdgeChange,
+    type FinalConnectionState,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 import { useFlowStore } from "../../hooks/useFlowState";
+import { useFlowLibrary } from "../../hooks/useFlowLibrary";
+import { usePreviewStore, selectActiveNodeId } from "../../hooks/usePreviewStore";
+import { useFlowIssues } from "../../hooks/useFlowIssues";
+import { useFlowClipboard, type CanvasNoticeHandler } from "../../hooks/useFlowClipboard";
+import { useCanvasShortcuts } from "../../hooks/useCanvasShortcuts";
+import { useCanvasSearch, selectSearchHighlightId } from "../../hooks/useCanvasSearch";
+import { useShortcutHint, useShortcutStore } from "../../hooks/useShortcuts";
+import { useActiveLocale } from "../../hooks/useLocale";
+import { getMissingStrings, localizeNode } from "../../utils/localization";
+import { getHighestSeverities } from "../../utils/validateFlow";
+import { createNode, getNodeComponents, getNodeType, isAnnotationNode } from "../../utils/nodeRegistry";
+import { createEdge, uniqueEdgeId } from "../../utils/edges";
+import { checkConnection, type ConnectionCandidate } from "../../utils/connectionRules";
+import { COLLAPSED_GROUP_SIZE, getGroupOwners, isGroupNode, liftEdge } from "../../utils/groups";
+import { getCallerNodeId } from "../../utils/subflows";
 import type { AppNode, AppEdge } from "../../types/flow";
-import TextNode from "./NodeTypes/TextNode";
-import FileUploadNode from "./NodeTypes/FileUploadNode";
 import NodesPanel from "./Panels/NodesPanel";
-import SettingsPanel from "./NodeTypes/SettingsPanel";
-import FileUploadSettingsPanel from "./NodeTypes/FileUploadSettingsPanel";
+import FlowInfoPanel from "./Panels/FlowInfoPanel";
+import EdgeSettingsPanel from "./Panels/EdgeSettingsPanel";
+import ProblemsPanel from "./Panels/ProblemsPanel";
+import PreviewDrawer from "./Preview/PreviewDrawer";
+import CanvasSearch from "./Search/CanvasSearch";
+import LocaleSwitcher from "./Localization/LocaleSwitcher";
 
 /**
  * Node Types Configuration
  * 
- * Maps node type strings to their corresponding React components.
- * This configuration is passed to React Flow to render different node types.
+ * Maps node type strings to their corresponding React components, taken
+ * from the node registry. This configuration is passed to React Flow to
+ * render different node types; it is built once so that React Flow sees a
+ * stable object.
+ */
+const nodeTypes = getNodeComponents();
+
+/**
+ * Change types that only reflect UI state (selection, measured size).
+ * Changes made up entirely of these are applied without an undo step.
+ */
+const UNRECORDED_CHANGE_TYPES = new Set(['select', 'dimensions']);
+
+/** How long (ms) a canvas notice (e.g. why a connection was rejected) stays visible */
+const CANVAS_NOTICE_MS = 3000;
+
+/**
+ * Rejected Connection Helper
+ * 
+ * Turns the final state of a connection drag into the connection that was
+ * attempted, if it ended on a handle of the opposite kind and was rejected.
+ * 
+ * @param state - Final state of the connection drag
+ * @returns The attempted connection, or null if there is nothing to explain
  */
-const nodeTypes = {
-    text: TextNode,
-    fileUpload: FileUploadNode,
+const getRejectedConnection = (state: FinalConnectionState): ConnectionCandidate | null => {
+    const { isValid, fromHandle, toHandle } = state;
+    if (isValid !== false || !fromHandle || !toHandle || fromHandle.type === toHandle.type) return null;
+    const [source, target] = fromHandle.type === 'source' ? [fromHandle, toHandle] : [toHandle, fromHandle];
+    return { source: source.nodeId, sourceHandle: source.id, target: target.nodeId, targetHandle: target.id };
 };
 
 /**
@@ -51,60 +106,179 @@ const nodeTypes = {
  */
 const FlowCanvas = () => {
     // Get flow state and actions from Zustand store
-    const { nodes, edges, selectedNodeId, setNodes, setEdges, setSelectedNodeId } = useFlowStore();
+    const {
+        nodes,
+        edges,
+        localization,
+        selectedNodeId,
+        selectedEdgeId,
+        setNodes,
+        setEdges,
+        setSelectedNodeId,
+        setSelectedEdgeId,
+    } = useFlowStore();
+
+    // Opens the keyboard shortcut cheat sheet
+    const setHelpOpen = useShortcutStore((state) => state.setHelpOpen);
+
+    // Opens the canvas search box
+    const setSearchOpen = useCanvasSearch((state) => state.setOpen);
+    const findHint = useShortcutHint('find-node');
 
     // Reference to the React Flow wrapper div for drag and drop calculations
     const reactFlowWrapper = useRef<HTMLDivElement>(null);
 
+    // Counter identifying the current node drag, so each drag is one undo step
+    const dragSession = useRef(0);
+
+    // Edge being dragged to another node, which does not count against the connection limits
+    const reconnectingEdgeId = useRef<string | null>(null);
+
+    // Explanation of the last rejected connection or paste (or of a repaired flow), and the timer hiding it
+    const [canvasNotice, setCanvasNotice] = useState<{ message: string; level: 'error' | 'warning' } | null>(null);
+    const noticeTimer = useRef<number | undefined>(undefined);
+
     /**
-     * Drag Over Event Handler
+     * Show Notice Helper
      * 
-     * Prevents default browser behavior and sets the drop effect to 'move'
-     * to indicate that items can be dropped on the canvas.
+     * Shows a message over the canvas for a few seconds.
+     * 
+     * @param message - The message to show
+     * @param level - Whether the message reports an error or a warning
      */
-    const onDragOver = useCallback((event: React.DragEvent) => {
-        event.preventDefault();
-        event.dataTransfer.dropEffect = 'move';
+    const showNotice = useCallback<CanvasNoticeHandler>((message, level = 'error') => {
+        setCanvasNotice({ message, level });
+        window.clearTimeout(noticeTimer.current);
+        noticeTimer.current = window.setTimeout(() => setCanvasNotice(null), CANVAS_NOTICE_MS);
     }, []);
 
+    // Node currently executing in the chat preview (null when the preview is closed)
+    const activeNodeId = usePreviewStore(selectActiveNodeId);
+
+    // Current result of the canvas search (null when the search box is closed)
+    const searchHighlightId = useCanvasSearch(selectSearchHighlightId);
+
+    // Whether sticky notes are shown; hiding them declutters the canvas
+    const [notesVisible, setNotesVisible] = useState(true);
+
+    // Locale the canvas shows the messages in
+    const locale = useActiveLocale();
+
+    // Settings editor of the selected node's type (none while no node is selected)
+    const SelectedSettingsPanel = getNodeType(nodes.find((n) => n.id === selectedNodeId)?.type)?.SettingsPanel;
+
+    // Validation issues of the open flow, used to outline offending nodes and edges
+    const issues = useFlowIssues();
+
+    // Copy, cut and paste of the selected nodes
+    useFlowClipboard(showNotice);
+
+    // What had to be repaired in the flow that was opened last
+    const repairNotice = useFlowLibrary((state) => state.repairNotice);
+    const dismissRepairNotice = useFlowLibrary((state) => state.dismissRepairNotice);
+
     /**
-     * Node Creation Helper Function
+     * Repair Notice Effect
      * 
-     * Creates new nodes of different types with appropriate default data.
-     * This function centralizes node creation logic and ensures consistent
-     * node structure across the application.
+     * Shows once what had to be repaired in a flow opened from storage.
+     */
+    useEffect(() => {
+        if (!repairNotice) return;
+        showNotice(repairNotice, 'warning');
+        dismissRepairNotice();
+    }, [repairNotice, dismissRepairNotice, showNotice]);
+
+    // Handlers of the canvas keyboard shortcuts
+    useCanvasShortcuts(reactFlowWrapper);
+
+    // Group of every member of a collapsed group, keyed by member ID
+    const collapsedOwners = useMemo(() => getGroupOwners(nodes, true), [nodes]);
+
+    /**
+     * Display Nodes
      * 
-     * @param type - The type of node to create ('text' or 'fileUpload')
-     * @param position - The position where the node should be placed
-     * @returns The created node or null if type is not supported
+     * The nodes passed to React Flow, decorated with CSS classes for
+     * canvas-only highlighting (preview position, search result and
+     * validation issues).
+     * Members of collapsed groups are hidden and the groups shrink to a
+     * compact size; the preview highlights the call node of a running
+     * subflow, or the collapsed group around the running node.
+     * Notes are hidden while notes are turned off, unless the canvas search
+     * is showing one.
+     * Outside the default locale, messages are shown in the chosen locale and
+     * nodes missing a translation into it are tagged.
+     * The decoration never reaches the store.
      */
-    const createNode = useCallback((type: string, position: { x: number; y: number }): AppNode | null => {
-        const timestamp = Date.now();
-
-        switch (type) {
-            case 'text':
-                return {
-                    id: `${type}-${timestamp}`,
-                    type: 'text',
-                    position,
-                    data: { text: 'New message', type: 'text' },
-                };
-            case 'fileUpload':
-                return {
-                    id: `${type}-${timestamp}`,
-                    type: 'fileUpload',
-                    position,
-                    data: {
-                        label: 'Upload Files',
-                        allowedTypes: [],
-                        maxSize: 5,
-                        multiple: false,
-                        type: 'fileUpload'
-                    },
-                };
-            default:
-                return null;
+    const displayNodes = useMemo(() => {
+        const severities = getHighestSeverities(issues, 'nodeIds');
+        const callerId = activeNodeId && getCallerNodeId(activeNodeId);
+        const highlightedId = callerId && (collapsedOwners.get(callerId) ?? callerId);
+        const translated = locale !== localization.defaultLocale;
+        return nodes.map((n) => {
+            const severity = severities.get(n.id);
+            const classes = [
+                n.id === highlightedId ? 'is-preview-active' : '',
+                n.id === searchHighlightId ? 'is-search-hit' : '',
+                severity === 'error' || severity === 'warning' ? `has-${severity}` : '',
+                translated && getMissingStrings(n, locale).length > 0 ? 'is-untranslated' : '',
+            ].filter(Boolean);
+            let node = translated ? localizeNode(n, locale, localization) : n;
+            if (classes.length > 0) node = { ...node, className: classes.join(' ') };
+            if (collapsedOwners.has(n.id)) node = { ...node, hidden: true };
+            if (!notesVisible && isAnnotationNode(n) && n.id !== searchHighlightId) node = { ...node, hidden: true };
+            if (isGroupNode(n) && n.data.collapsed) node = { ...node, ...COLLAPSED_GROUP_SIZE };
+            return node;
+        });
+    }, [nodes, activeNodeId, searchHighlightId, issues, collapsedOwners, notesVisible, locale, localization]);
+
+    /**
+     * Toggle Notes Handler
+     * 
+     * Shows or hides the sticky notes. Notes being hidden are deselected, so
+     * that shortcuts such as Delete never act on notes out of sight.
+     */
+    const onToggleNotes = useCallback(() => {
+        if (notesVisible) {
+            const { nodes: current, selectedNodeId: selectedId, setNodes, setSelectedNodeId } = useFlowStore.getState();
+            if (current.some((n) => n.selected && isAnnotationNode(n))) {
+                setNodes(
+                    current.map((n) => (n.selected && isAnnotationNode(n) ? { ...n, selected: false } : n)),
+                    { record: false }
+                );
+            }
+            const selectedNode = current.find((n) => n.id === selectedId);
+            if (selectedNode && isAnnotationNode(selectedNode)) setSelectedNodeId(null);
         }
+        setNotesVisible(!notesVisible);
+    }, [notesVisible]);
+
+    /**
+     * Display Edges
+     * 
+     * The edges passed to React Flow, decorated like the display nodes.
+     * Edges crossing the border of a collapsed group are drawn from the
+     * group, and edges inside it are hidden.
+     */
+    const displayEdges = useMemo(() => {
+        const severities = getHighestSeverities(issues, 'edgeIds');
+        return edges.map((e) => {
+            const severity = severities.get(e.id);
+            const edge = severity === 'error' || severity === 'warning' ? { ...e, className: `has-${severity}` } : e;
+            const lifted = liftEdge(edge, collapsedOwners);
+            if (!lifted) return { ...edge, hidden: true };
+            return lifted === edge ? edge : { ...lifted, reconnectable: false };
+        });
+    }, [edges, issues, collapsedOwners]);
+
+    /**
+     * Drag Over Event Handler
+     * 
+     * Prevents default browser behavior and sets the drop effect to 'move'
+     * to indicate that items can be dropped on the canvas.
+     */
+    const onDragOver = useCallback((event: React.DragEvent) => {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
     }, []);
 
     /**
@@ -140,7 +314,7 @@ const FlowCanvas = () => {
                 setNodes([...nodes, newNode]);
             }
         },
-        [nodes, setNodes, createNode]
+        [nodes, setNodes]
     );
 
     /**
@@ -148,10 +322,27 @@ const FlowCanvas = () => {
      * 
      * Handles changes to nodes (position, selection, etc.) and updates
      * the flow state accordingly using React Flow's applyNodeChanges utility.
+     * 
+     * Selection and measuring changes are not recorded in history, position
+     * changes of one drag and size changes of one group resize are coalesced
+     * into a single undo step. Removals never arrive here: React Flow's
+     * own deletion is turned off, and deletions go through the store's
+     * deleteElements, which records each one as its own undo step.
      */
     const onNodesChange = useCallback(
         (changes: NodeChange[]) => {
-            setNodes(applyNodeChanges(changes, nodes) as AppNode[]);
+            const newNodes = applyNodeChanges(changes, nodes) as AppNode[];
+            const resize = changes.find((c): c is NodeDimensionChange => c.type === 'dimensions' && !!c.setAttributes);
+
+            if (resize) {
+                setNodes(newNodes, { coalesceKey: `resize:${resize.id}` });
+            } else if (changes.every((c) => UNRECORDED_CHANGE_TYPES.has(c.type))) {
+                setNodes(newNodes, { record: false });
+            } else if (changes.some((c) => c.type === 'position')) {
+                setNodes(newNodes, { coalesceKey: `drag:${dragSession.current}` });
+            } else {
+                setNodes(newNodes);
+            }
         },
         [nodes, setNodes]
     );
@@ -164,11 +355,68 @@ const FlowCanvas = () => {
      */
     const onEdgesChange = useCallback(
         (changes: EdgeChange[]) => {
-            setEdges(applyEdgeChanges(changes, edges) as AppEdge[]);
+            const newEdges = applyEdgeChanges(changes, edges) as AppEdge[];
+
+            if (changes.every((c) => UNRECORDED_CHANGE_TYPES.has(c.type))) {
+                setEdges(newEdges, { record: false });
+            } else {
+                setEdges(newEdges);
+            }
         },
         [edges, setEdges]
     );
 
+    /**
+     * Node Drag Start Handler
+     * 
+     * Starts a new drag session so that the position changes of this drag
+     * are coalesced into their own undo step.
+     */
+    const onNodeDragStart = useCallback(() => {
+        dragSession.current += 1;
+    }, []);
+
+    /**
+     * Connection Validity Check
+     * 
+     * Called by React Flow while a connection is dragged over a handle, so
+     * that only handles the connection rules allow are highlighted.
+     * 
+     * @param connection - The connection being drawn
+     * @returns True if the connection may be made
+     */
+    const isValidConnection = useCallback(
+        (connection: AppEdge | Connection) =>
+            checkConnection(connection, nodes, edges, reconnectingEdgeId.current).ok,
+        [nodes, edges]
+    );
+
+    /**
+     * Explain Rejection Helper
+     * 
+     * Shows why a connection that was dropped on a handle was not made.
+     * 
+     * @param state - Final state of the connection drag
+     */
+    const explainRejection = useCallback(
+        (state: FinalConnectionState) => {
+            const attempted = getRejectedConnection(state);
+            if (!attempted) return;
+            const result = checkConnection(attempted, nodes, edges, reconnectingEdgeId.current);
+            if (result.ok) return;
+
+            showNotice(result.reason);
+        },
+        [nodes, edges, showNotice]
+    );
+
+    /**
+     * Notice Timer Cleanup Effect
+     * 
+     * Stops the notice timer when the component unmounts.
+     */
+    useEffect(() => () => window.clearTimeout(noticeTimer.current), []);
+
     /**
      * Connection Handler
      * 
@@ -179,29 +427,87 @@ const FlowCanvas = () => {
      */
     const onConnect = useCallback(
         (connection: Connection) => {
-            if (connection.source && connection.target) {
-                // Create edge with proper arrow styling
-                const newEdge: AppEdge = {
-                    id: `edge-${connection.source}-${connection.target}`,
-                    source: connection.source,
-                    target: connection.target,
-                    sourceHandle: connection.sourceHandle || null,
-                    targetHandle: connection.targetHandle || null,
-                    type: 'default',
-                    style: { stroke: '#3B82F6', strokeWidth: 2 },
-                    markerEnd: {
-                        type: 'arrowclosed',
-                        color: '#3B82F6',
-                        width: 20,
-                        height: 20,
-                    } as any,
-                    animated: false,
-                };
-
-                setEdges([...edges, newEdge]);
-            }
+            if (!checkConnection(connection, nodes, edges).ok) return;
+            setEdges([...edges, createEdge(connection, edges)]);
         },
-        [edges, setEdges]
+        [nodes, edges, setEdges]
+    );
+
+    /**
+     * Connection End Handler
+     * 
+     * Explains connections that were dropped on a handle but rejected.
+     * 
+     * @param _ - Mouse or touch event (unused)
+     * @param state - Final state of the connection drag
+     */
+    const onConnectEnd = useCallback(
+        (_: MouseEvent | TouchEvent, state: FinalConnectionState) => explainRejection(state),
+        [explainRejection]
+    );
+
+    /**
+     * Reconnect Start Handler
+     * 
+     * Remembers the edge being dragged, so that it does not count against
+     * the limits of the handle it is moved to.
+     * 
+     * @param _ - Mouse event (unused)
+     * @param edge - The edge being dragged
+     */
+    const onReconnectStart = useCallback((_: React.MouseEvent, edge: AppEdge) => {
+        reconnectingEdgeId.current = edge.id;
+    }, []);
+
+    /**
+     * Reconnect Handler
+     * 
+     * Moves an existing edge to the handle it was dropped on. The edge
+     * keeps its label and style and gets an ID matching its new ends.
+     * 
+     * @param oldEdge - The edge being moved
+     * @param connection - The edge's new ends
+     */
+    const onReconnect = useCallback(
+        (oldEdge: AppEdge, connection: Connection) => {
+            if (!checkConnection(connection, nodes, edges, oldEdge.id).ok) return;
+
+            const id = uniqueEdgeId(connection, edges.filter((e) => e.id !== oldEdge.id));
+            setEdges(
+                edges.map((e) =>
+                    e.id === oldEdge.id
+                        ? {
+                              ...e,
+                              id,
+                              source: connection.source,
+                              target: connection.target,
+                              sourceHandle: connection.sourceHandle ?? null,
+                              targetHandle: connection.targetHandle ?? null,
+                          }
+                        : e
+                )
+            );
+            if (selectedEdgeId === oldEdge.id) setSelectedEdgeId(id);
+        },
+        [nodes, edges, selectedEdgeId, setEdges, setSelectedEdgeId]
+    );
+
+    /**
+     * Reconnect End Handler
+     * 
+     * Explains a rejected reconnection and forgets the dragged edge.
+     * 
+     * @param _ - Mouse or touch event (unused)
+     * @param _edge - The dragged edge (unused)
+     * @param _handleType - The dragged end of the edge (unused)
+     * @param state - Final state of the connection drag
+     */
+    const onReconnectEnd = useCallback(
+        (_: MouseEvent | TouchEvent, _edge: AppEdge, _handleType: unknown, state: FinalConnectionState) => {
+            explainRejection(state);
+            reconnectingEdgeId.current = null;
+        },
+        [explainRejection]
     );
 
     /**
@@ -217,42 +523,26 @@ const FlowCanvas = () => {
     }, [setSelectedNodeId]);
 
     /**
-     * Pane Click Handler
-     * 
-     * Handles clicks on the empty canvas area to deselect nodes.
-     */
-    const onPaneClick = useCallback(() => {
-        setSelectedNodeId(null);
-    }, [setSelectedNodeId]);
-
-    /**
-     * Keyboard Shortcut Handler
+     * Edge Click Handler
      * 
-     * Handles keyboard shortcuts for node operations.
-     * Currently supports Delete key to remove selected nodes.
+     * Handles clicks on edges to show their settings panel.
      * 
-     * @param event - The keyboard event
+     * @param _ - Mouse event (unused)
+     * @param edge - The clicked edge
      */
-    const onKeyDown = useCallback((event: KeyboardEvent) => {
-        if (event.key === 'Delete' && selectedNodeId) {
-            const newNodes = nodes.filter((n) => n.id !== selectedNodeId);
-            setNodes(newNodes);
-            setSelectedNodeId(null);
-        }
-    }, [selectedNodeId, nodes, setNodes, setSelectedNodeId]);
+    const onEdgeClick = useCallback((_: React.MouseEvent, edge: AppEdge) => {
+        setSelectedEdgeId(edge.id);
+    }, [setSelectedEdgeId]);
 
     /**
-     * Keyboard Event Listener Effect
+     * Pane Click Handler
      * 
-     * Sets up global keyboard event listeners for shortcuts.
-     * Cleans up listeners when component unmounts.
+     * Handles clicks on the empty canvas area to deselect nodes and edges.
      */
-    useEffect(() => {
-        document.addEventListener('keydown', onKeyDown);
-        return () => {
-            document.removeEventListener('keydown', onKeyDown);
-        };
-    }, [onKeyDown]);
+    const onPaneClick = useCallback(() => {
+        setSelectedNodeId(null);
+        setSelectedEdgeId(null);
+    }, [setSelectedNodeId, setSelectedEdgeId]);
 
     return (
         <div className="flex h-full w-full">
@@ -269,59 +559,83 @@ const FlowCanvas = () => {
             >
                 {/* React Flow Canvas */}
                 <ReactFlow
-                    nodes={nodes}
-                    edges={edges}
+                    nodes={displayNodes}
+                    edges={displayEdges}
                     onNodesChange={onNodesChange}
                     onEdgesChange={onEdgesChange}
                     onConnect={onConnect}
+                    onConnectEnd={onConnectEnd}
+                    isValidConnection={isValidConnection}
+                    onReconnectStart={onReconnectStart}
+                    onReconnect={onReconnect}
+                    onReconnectEnd={onReconnectEnd}
+                    onNodeDragStart={onNodeDragStart}
                     onNodeClick={onNodeClick}
+                    onEdgeClick={onEdgeClick}
                     onPaneClick={onPaneClick}
                     nodeTypes={nodeTypes}
                     fitView
-                    deleteKeyCode="Delete"
+                    deleteKeyCode={null}
                     style={{ width: '100%', height: '100%' }}
                     className="react-flow-canvas"
                 >
                     {/* Background grid pattern */}
                     <Background />
-                    {/* Zoom and pan controls */}
-                    <Controls />
+                    {/* Zoom and pan controls, plus the notes toggle, the canvas search and the shortcut cheat sheet */}
+                    <Controls>
+                        <ControlButton
+                            onClick={onToggleNotes}
+                            title={notesVisible ? 'Hide sticky notes' : 'Show sticky notes'}
+                            aria-pressed={!notesVisible}
+                            className={notesVisible ? '' : 'text-gray-400'}
+                        >
+                            ✎
+                        </ControlButton>
+                        <ControlButton onClick={() => setSearchOpen(true)} title={`Find nodes${findHint}`}>
+                            ⌕
+                        </ControlButton>
+                        <ControlButton onClick={() => setHelpOpen(true)} title="Keyboard shortcuts (?)">
+                            ?
+                        </ControlButton>
+                    </Controls>
                     {/* Mini map for navigation */}
-                    <MiniMap />
+                    <MiniMap nodeColor={(n) => getNodeType(n.type)?.palette.color ?? '#9CA3AF'} />
                 </ReactFlow>
+
+                {/* Explanation of a rejected connection or paste */}
+                {canvasNotice && (
+                    <div
+                        className={`absolute bottom-4 left-1/2 -translate-x-1/2 z-10 max-w-xl px-3 py-2 rounded bg-white shadow-lg border text-sm ${
+                            canvasNotice.level === 'error' ? 'border-red-200 text-red-600' : 'border-amber-200 text-amber-700'
+                        }`}
+                    >
+                        {canvasNotice.message}
+                    </div>
+                )}
+
+                {/* Locale the canvas previews (renders nothing for single-locale flows) */}
+                <LocaleSwitcher className="absolute top-3 right-3 z-10 p-1 bg-white rounded shadow-lg border border-gray-200" />
+
+                {/* Canvas search (renders nothing while closed) */}
+                <CanvasSearch />
+
+                {/* Validation problems of the open flow */}
+                <ProblemsPanel issues={issues} />
+
+                {/* Chat preview drawer (renders nothing while closed) */}
+                <PreviewDrawer />
             </div>
 
             {/* Right Panel - Settings or Info */}
-            {selectedNodeId ? (
-                // Render appropriate settings panel based on selected node type
-                (() => {
-                    const selectedNode = nodes.find(n => n.id === selectedNodeId);
-                    if (selectedNode?.type === 'fileUpload') {
-                        return <FileUploadSettingsPanel />;
-                    }
-                    return <SettingsPanel />;
-                })()
+            {SelectedSettingsPanel ? (
+                // Settings editor registered for the selected node's type
+                <SelectedSettingsPanel />
+            ) : edges.some((e) => e.id === selectedEdgeId) ? (
+                // Label and deletion of the selected edge
+                <EdgeSettingsPanel />
             ) : (
                 // Default info panel when no node is selected
-                <div className="w-80 bg-white border-l border-gray-200 p-4">
-                    <div className="flex flex-col h-full">
-                        <h4 className="font-semibold text-gray-700 mb-4">Flow Info</h4>
-                        <div className="flex-1">
-                            <p className="text-gray-500 text-sm mb-4">
-                                Select a node to edit its properties. Use the save button in the header to validate your flow.
-                            </p>
-                            <div className="text-sm text-gray-600">
-                                <p className="mb-2"><strong>Instructions:</strong></p>
-                                <ul className="list-disc list-inside space-y-1">
-                                    <li>Drag nodes from the left panel to the canvas</li>
-                                    <li>Connect nodes by dragging from source handles (right) to target handles (left)</li>
-                                    <li>Click on nodes to edit their text</li>
-                                    <li>Save to validate your flow structure</li>
-                                </ul>
-                            </div>
-                        </div>
-                    </div>
-                </div>
+                <FlowInfoPanel />
             )}
         </div>
     );
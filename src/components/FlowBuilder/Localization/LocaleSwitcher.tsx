@@ -0,0 +1,85 @@
+/**
+ * Locale Switcher Component
+ *
+ * This component picks the locale the editor works in (see useLocale.ts).
+ * The same switcher floats over the canvas, where it previews the flow in
+ * the chosen locale, and heads the settings panels of nodes with
+ * translatable strings, where it picks the locale being edited; both
+ * follow the same choice.
+ *
+ * Features:
+ * - One tab per locale of the flow, the default locale marked with "*"
+ * - A red dot on locales with missing translations (of the given node, or
+ *   of any node in the flow)
+ * - Renders nothing while the flow has a single locale
+ */
+
+import React, { useMemo } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useActiveLocale, useLocaleStore } from '../../../hooks/useLocale';
+import type { AppNode } from '../../../types/flow';
+import { findTranslationGaps, getLocaleName } from '../../../utils/localization';
+
+/**
+ * Locale Switcher Props Interface
+ *
+ * @property node - Node whose missing translations are marked (all nodes if omitted)
+ * @property className - Extra classes of the switcher's container
+ */
+interface LocaleSwitcherProps {
+    node?: AppNode;
+    className?: string;
+}
+
+/**
+ * Locale Switcher Component
+ *
+ * Renders the locale tabs.
+ *
+ * @returns JSX element representing the switcher, or null for single-locale flows
+ */
+const LocaleSwitcher: React.FC<LocaleSwitcherProps> = ({ node, className = '' }) => {
+    const nodes = useFlowStore((state) => state.nodes);
+    const localization = useFlowStore((state) => state.localization);
+    const setLocale = useLocaleStore((state) => state.setLocale);
+    const locale = useActiveLocale();
+
+    // Locales with at least one missing translation
+    const incomplete = useMemo(
+        () => new Set(findTranslationGaps(node ? [node] : nodes, localization).map((gap) => gap.locale)),
+        [node, nodes, localization]
+    );
+
+    if (localization.locales.length < 2) return null;
+
+    return (
+        <div role="tablist" aria-label="Locale" className={`flex flex-wrap items-center gap-1 ${className}`}>
+            {localization.locales.map(({ code }) => {
+                const isDefault = code === localization.defaultLocale;
+                const missing = incomplete.has(code);
+                return (
+                    <button
+                        key={code}
+                        role="tab"
+                        aria-selected={code === locale}
+                        onClick={() => setLocale(isDefault ? null : code)}
+                        title={`${getLocaleName(code)}${isDefault ? ' (default locale)' : ''}${
+                            missing ? ' – missing translations' : ''
+                        }`}
+                        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs ${
+                            code === locale
+                                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                                : 'border-gray-300 bg-white text-gray-600 hover:bg-gray-50'
+                        }`}
+                    >
+                        {code}
+                        {isDefault && '*'}
+                        {missing && <span className="w-1.5 h-1.5 rounded-full bg-red-500" />}
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
+
+export default LocaleSwitcher;
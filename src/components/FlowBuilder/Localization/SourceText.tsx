@@ -0,0 +1,30 @@
+/**
+ * Source Text Component
+ *
+ * This component shows the default-locale value of a string under the field
+ * where it is being translated, so translators always see what they are
+ * translating, even once the field has text of its own.
+ */
+
+import React from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { getLocaleName } from '../../../utils/localization';
+
+/**
+ * Source Text Component
+ *
+ * @param value - The string in the flow's default locale
+ * @returns JSX element showing the string and the name of its locale
+ */
+const SourceText: React.FC<{ value: string }> = ({ value }) => {
+    const defaultLocale = useFlowStore((state) => state.localization.defaultLocale);
+
+    return (
+        <div className="mt-1 text-xs text-gray-500 break-words">
+            <span className="font-medium">{getLocaleName(defaultLocale)}:</span>{' '}
+            {value.trim() ? value : <span className="italic">Empty</span>}
+        </div>
+    );
+};
+
+export default SourceText;
@@ -0,0 +1,87 @@
+/**
+ * Media Preview Component
+ *
+ * This component shows the media of a media node: a thumbnail of images and
+ * videos, and an icon card with the file name for audio clips and documents
+ * (and for media that cannot be loaded). The canvas shows still previews;
+ * the chat preview plays videos and audio like the chat apps do.
+ */
+
+import React, { useState } from 'react';
+import type { MediaNodeData } from '../../../types/flow';
+import { formatFileSize, getMediaFileName, getMediaKindInfo } from '../../../utils/media';
+
+/**
+ * Media Preview Props Interface
+ *
+ * @property data - The media node's data
+ * @property interactive - Whether videos and audio can be played (chat preview)
+ */
+interface MediaPreviewProps {
+    data: MediaNodeData;
+    interactive?: boolean;
+}
+
+/**
+ * Media Preview Component
+ *
+ * @returns JSX element representing the thumbnail, player or file card
+ */
+const MediaPreview: React.FC<MediaPreviewProps> = ({ data, interactive = false }) => {
+    const { mediaType, url, fileSize } = data;
+
+    // URL that failed to load, so the file card is shown instead
+    const [failedUrl, setFailedUrl] = useState<string | null>(null);
+    const loadable = url.trim() !== '' && failedUrl !== url;
+
+    if (loadable && mediaType === 'image') {
+        return (
+            <img
+                src={url}
+                alt={data.caption || getMediaFileName(data) || 'Image'}
+                onError={() => setFailedUrl(url)}
+                className="w-full max-h-40 object-cover rounded bg-gray-100"
+            />
+        );
+    }
+    if (loadable && mediaType === 'video') {
+        return (
+            <video
+                src={url}
+                controls={interactive}
+                muted={!interactive}
+                preload="metadata"
+                onError={() => setFailedUrl(url)}
+                className="w-full max-h-40 rounded bg-black"
+            />
+        );
+    }
+    if (loadable && mediaType === 'audio' && interactive) {
+        return <audio src={url} controls preload="metadata" onError={() => setFailedUrl(url)} className="w-full" />;
+    }
+
+    // Documents, audio on the canvas, and media without a usable URL
+    const info = getMediaKindInfo(mediaType);
+    const fileName = getMediaFileName(data);
+    return (
+        <div className="flex items-center gap-2 rounded border border-gray-200 bg-gray-50 p-2 text-left">
+            <div className="w-8 h-8 shrink-0 rounded bg-pink-100 flex items-center justify-center text-pink-600">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={info.iconPath} />
+                </svg>
+            </div>
+            <div className="min-w-0">
+                <div className="text-xs font-medium text-gray-700 truncate" title={fileName || undefined}>
+                    {fileName || (url.trim() ? `Untitled ${info.label.toLowerCase()}` : `No ${info.label.toLowerCase()} yet`)}
+                </div>
+                <div className="text-[10px] text-gray-400">
+                    {info.label}
+                    {fileSize !== undefined && ` · ${formatFileSize(fileSize)}`}
+                    {url.trim() && failedUrl === url && ' · Preview unavailable'}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MediaPreview;
@@ -0,0 +1,116 @@
+/**
+ * API Node Component
+ *
+ * This component represents an API request node in the flow builder. It
+ * calls an HTTP endpoint in the middle of the conversation and continues on
+ * its success or error handle.
+ *
+ * Features:
+ * - Visual representation with exchange icon and indigo theme
+ * - Target handle (left) for incoming connections
+ * - Method badge and URL template with highlighted placeholders
+ * - Summary of the variables filled in from the response
+ * - Source handles (right) for the success and the error outcome
+ *
+ * The component is memoized for performance optimization.
+ */
+
+import { memo } from 'react';
+import { Handle, Position, type NodeProps } from '@xyflow/react';
+import type { ApiNode as ApiNodeType } from '../../../types/flow';
+import { API_ERROR_HANDLE_ID, API_SUCCESS_HANDLE_ID } from '../../../utils/apiRequest';
+import { splitTemplate } from '../../../utils/templating';
+
+/**
+ * API Node Component
+ *
+ * Renders an API node with the request summary and one source handle per outcome.
+ *
+ * @param data - Node data containing the request and the response mappings
+ * @param isConnectable - Whether the node can be connected to other nodes
+ */
+const ApiNode = ({ data, isConnectable }: NodeProps<ApiNodeType>) => {
+    const { method, url, mappings } = data;
+    const targets = mappings.map((m) => m.variable).filter(Boolean);
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg border-2 border-indigo-300 p-3 w-64">
+            {/* Target Handle - Left side for incoming connections */}
+            <Handle
+                type="target"
+                position={Position.Left}
+                id="left"
+                style={{ background: '#9CA3AF' }}
+                isConnectable={isConnectable}
+            />
+
+            <div className="text-sm text-gray-800">
+                {/* Node Header with Icon and Title */}
+                <div className="flex items-center mb-2">
+                    {/* Exchange icon in indigo circle */}
+                    <div className="w-6 h-6 bg-indigo-100 rounded-full flex items-center justify-center mr-2">
+                        <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                        </svg>
+                    </div>
+                    {/* Node type label */}
+                    <div className="font-semibold text-indigo-700">API Request</div>
+                </div>
+
+                {/* Request: method badge and URL template */}
+                <div className="flex items-start gap-1 mb-2 text-xs">
+                    <span className="shrink-0 px-1 rounded bg-indigo-600 text-white font-mono text-[10px] leading-4">
+                        {method}
+                    </span>
+                    {url.trim() ? (
+                        <span className="font-mono text-gray-700 break-all">
+                            {splitTemplate(url.trim()).map((segment, index) =>
+                                segment.kind === 'placeholder' ? (
+                                    <span key={index} className="text-indigo-600">{`{{${segment.name}}}`}</span>
+                                ) : (
+                                    <span key={index}>{segment.text}</span>
+                                )
+                            )}
+                        </span>
+                    ) : (
+                        <span className="text-gray-400 italic">No URL yet</span>
+                    )}
+                </div>
+
+                {/* Variables filled in from the response */}
+                {targets.length > 0 && (
+                    <div className="mb-2 text-[11px] text-gray-500">
+                        Sets <span className="font-mono text-gray-700">{targets.join(', ')}</span>
+                    </div>
+                )}
+
+                {/* Outcomes, each with its own source handle */}
+                <div className="space-y-1">
+                    <div className="relative text-xs text-green-700 bg-green-50 border border-green-200 rounded px-2 py-1">
+                        <span className="font-medium">Success</span>
+                        <Handle
+                            type="source"
+                            position={Position.Right}
+                            id={API_SUCCESS_HANDLE_ID}
+                            style={{ background: '#22C55E', right: -14 }}
+                            isConnectable={isConnectable}
+                        />
+                    </div>
+                    <div className="relative text-xs text-red-700 bg-red-50 border border-red-200 rounded px-2 py-1">
+                        <span className="font-medium">Error</span> <span className="text-red-500">(failure or timeout)</span>
+                        <Handle
+                            type="source"
+                            position={Position.Right}
+                            id={API_ERROR_HANDLE_ID}
+                            style={{ background: '#EF4444', right: -14 }}
+                            isConnectable={isConnectable}
+                        />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Export memoized component for performance optimization
+export default memo(ApiNode);
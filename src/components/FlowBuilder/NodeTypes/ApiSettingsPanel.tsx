@@ -0,0 +1,389 @@
+/**
+ * API Settings Panel Component
+ *
+ * This component provides the settings interface for API nodes when they
+ * are selected. It configures the HTTP request, where the values of the
+ * response go, and the mock responder that answers the request in the
+ * editor.
+ *
+ * Features:
+ * - Method, URL, headers and body, with variable placeholders
+ * - Timeout after which the request takes the error handle
+ * - Response mappings from JSON paths into declared variables
+ * - Mock response (status, body and delay) used instead of the real API
+ * - Test request that runs against the mock responder with the variables'
+ *   default values, showing the request, the outcome and the mapped values
+ * - Problems that would block saving
+ * - Node deletion functionality
+ *
+ * The component automatically appears when an API node is selected.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { nanoid } from 'nanoid';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import type { ApiNodeData, HttpHeader, HttpMethod, ResponseMapping } from '../../../types/flow';
+import {
+    API_SUCCESS_HANDLE_ID,
+    findApiProblems,
+    HTTP_METHODS,
+    MAX_TIMEOUT,
+    methodHasBody,
+    runMockRequest,
+    type ApiCallResult,
+} from '../../../utils/apiRequest';
+import { getDefaultValues } from '../../../utils/variables';
+import type { HistoryOptions } from '../../../utils/history';
+import TemplateTextarea from './TemplateTextarea';
+
+/**
+ * API Settings Panel Component
+ *
+ * Renders a settings panel for editing API node properties.
+ *
+ * @returns JSX element representing the settings panel or null if no API node is selected
+ */
+const ApiSettingsPanel: React.FC = () => {
+    // Get flow state and actions from Zustand store
+    const { nodes, variables, selectedNodeId, updateNodeData, deleteElements } = useFlowStore();
+
+    // Outcome of the last test request (per node), and whether one is running
+    const [testResult, setTestResult] = useState<{ nodeId: string; result: ApiCallResult } | null>(null);
+    const [testing, setTesting] = useState(false);
+    const testTimer = useRef<number | undefined>(undefined);
+
+    // A pending test request must not finish after the panel is gone
+    useEffect(() => () => window.clearTimeout(testTimer.current), []);
+
+    // Find the currently selected API node (hooks below must run
+    // unconditionally, so the early return happens right before rendering)
+    const selected = nodes.find((n) => n.id === selectedNodeId);
+    const node = selected?.type === 'api' ? selected : undefined;
+
+    /**
+     * Update Data Helper
+     *
+     * @param patch - The fields to change
+     * @param options - History options for the update
+     */
+    const update = useCallback(
+        (patch: Partial<ApiNodeData>, options?: HistoryOptions) => {
+            if (!node) return;
+            updateNodeData(node.id, patch, options);
+        },
+        [node, updateNodeData]
+    );
+
+    /**
+     * Update Header Helper
+     *
+     * @param headerId - ID of the header to change
+     * @param patch - The header fields to change
+     */
+    const updateHeader = (headerId: string, patch: Partial<HttpHeader>) => {
+        if (!node) return;
+        const headers = node.data.headers.map((h) => (h.id === headerId ? { ...h, ...patch } : h));
+        update({ headers }, { coalesceKey: `header:${headerId}` });
+    };
+
+    /**
+     * Update Mapping Helper
+     *
+     * @param mappingId - ID of the mapping to change
+     * @param patch - The mapping fields to change
+     */
+    const updateMapping = (mappingId: string, patch: Partial<ResponseMapping>) => {
+        if (!node) return;
+        const mappings = node.data.mappings.map((m) => (m.id === mappingId ? { ...m, ...patch } : m));
+        update({ mappings }, 'path' in patch ? { coalesceKey: `mapping:${mappingId}` } : undefined);
+    };
+
+    /**
+     * Test Request Handler
+     *
+     * Sends the request to the mock responder with the variables' default
+     * values. The outcome appears after the mock delay (or the timeout).
+     */
+    const onTestRequest = () => {
+        if (!node) return;
+        const result = runMockRequest(node.data, getDefaultValues(variables));
+        const nodeId = node.id;
+        window.clearTimeout(testTimer.current);
+        setTesting(true);
+        setTestResult(null);
+        testTimer.current = window.setTimeout(() => {
+            setTesting(false);
+            setTestResult({ nodeId, result });
+        }, result.duration);
+    };
+
+    /**
+     * Delete Node Handler
+     *
+     * Removes the selected node and its connections from the flow and
+     * clears the selection.
+     */
+    const onDeleteNode = useCallback(() => {
+        if (!node) return;
+        deleteElements([node.id]);
+    }, [node, deleteElements]);
+
+    // Don't render anything if no API node is selected
+    if (!node) return null;
+
+    const { method, url, headers, body, timeout, mappings, mock } = node.data;
+    const problems = findApiProblems(node.data, variables);
+    const result = testResult?.nodeId === node.id ? testResult.result : null;
+
+    return (
+        <aside className="flex flex-col h-full w-80 bg-white border-l border-gray-200">
+            {/* Panel Header with Title and Delete Button */}
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                {/* Panel title */}
+                <h4 className="font-semibold text-gray-700">API Request</h4>
+                {/* Delete button with red styling for destructive action */}
+                <button
+                    onClick={onDeleteNode}
+                    className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+                >
+                    Delete
+                </button>
+            </div>
+
+            {/* Form Content Area with Scroll */}
+            <div className="flex-1 p-4 overflow-y-auto">
+                {/* Method and URL */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">Request</label>
+                    <select
+                        className="w-full p-2 mb-2 border rounded text-sm font-mono"
+                        value={method}
+                        onChange={(e) => update({ method: e.target.value as HttpMethod })}
+                    >
+                        {HTTP_METHODS.map((m) => (
+                            <option key={m} value={m}>{m}</option>
+                        ))}
+                    </select>
+                    <TemplateTextarea
+                        rows={2}
+                        value={url}
+                        onChange={(value) => update({ url: value }, { coalesceKey: `url:${node.id}` })}
+                        placeholder="https://api.example.com/orders/{{order_id}}"
+                    />
+                </div>
+
+                {/* Headers */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">Headers</label>
+                    {headers.map((header) => (
+                        <div key={header.id} className="flex gap-1 mb-1">
+                            <input
+                                type="text"
+                                className="w-28 p-1 border rounded text-xs font-mono"
+                                value={header.name}
+                                onChange={(e) => updateHeader(header.id, { name: e.target.value })}
+                                placeholder="Name"
+                            />
+                            <input
+                                type="text"
+                                className="flex-1 min-w-0 p-1 border rounded text-xs font-mono"
+                                value={header.value}
+                                onChange={(e) => updateHeader(header.id, { value: e.target.value })}
+                                placeholder="Value or {{variable}}"
+                            />
+                            <button
+                                onClick={() => update({ headers: headers.filter((h) => h.id !== header.id) })}
+                                className="px-1 text-red-500 hover:text-red-700"
+                                title="Remove header"
+                            >
+                                ×
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => update({ headers: [...headers, { id: `header-${nanoid(6)}`, name: '', value: '' }] })}
+                        className="text-xs text-indigo-700 hover:text-indigo-900"
+                    >
+                        + Add header
+                    </button>
+                </div>
+
+                {/* Body (only sent by methods that have one) */}
+                {methodHasBody(method) && (
+                    <div className="mb-4">
+                        <label className="block text-xs text-gray-600 mb-1">Body</label>
+                        <TemplateTextarea
+                            rows={4}
+                            value={body}
+                            onChange={(value) => update({ body: value }, { coalesceKey: `body:${node.id}` })}
+                            placeholder={'{\n  "order": "{{order_id}}"\n}'}
+                        />
+                    </div>
+                )}
+
+                {/* Timeout */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">Timeout (seconds)</label>
+                    <input
+                        type="number"
+                        min={1}
+                        max={MAX_TIMEOUT}
+                        className="w-full p-2 border rounded text-sm"
+                        value={timeout}
+                        onChange={(e) => {
+                            const value = Number(e.target.value);
+                            if (value > 0) update({ timeout: value }, { coalesceKey: `timeout:${node.id}` });
+                        }}
+                    />
+                    <div className="text-xs text-gray-500 mt-1">Without a response in time, the flow continues from the Error handle.</div>
+                </div>
+
+                {/* Response Mappings */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">Save from Response</label>
+                    {mappings.map((mapping) => (
+                        <div key={mapping.id} className="flex items-center gap-1 mb-1">
+                            <input
+                                type="text"
+                                className="flex-1 min-w-0 p-1 border rounded text-xs font-mono"
+                                value={mapping.path}
+                                onChange={(e) => updateMapping(mapping.id, { path: e.target.value })}
+                                placeholder="$.order.status"
+                            />
+                            <span className="text-xs text-gray-400">→</span>
+                            <select
+                                className="w-28 p-1 border rounded text-xs font-mono"
+                                value={mapping.variable}
+                                onChange={(e) => updateMapping(mapping.id, { variable: e.target.value })}
+                            >
+                                <option value="">variable</option>
+                                {/* Keep a variable that is no longer declared selectable, so it shows up as a problem */}
+                                {mapping.variable && !variables.some((v) => v.name === mapping.variable) && (
+                                    <option value={mapping.variable}>{mapping.variable}</option>
+                                )}
+                                {variables.map((v) => (
+                                    <option key={v.name} value={v.name}>{v.name}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => update({ mappings: mappings.filter((m) => m.id !== mapping.id) })}
+                                className="px-1 text-red-500 hover:text-red-700"
+                                title="Remove mapping"
+                            >
+                                ×
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => update({ mappings: [...mappings, { id: `mapping-${nanoid(6)}`, path: '', variable: '' }] })}
+                        className="text-xs text-indigo-700 hover:text-indigo-900"
+                    >
+                        + Add mapping
+                    </button>
+                    {variables.length === 0 && (
+                        <div className="text-xs text-gray-500 mt-1">Declare variables in the Variables panel to save response values.</div>
+                    )}
+                </div>
+
+                {/* Problems blocking the save */}
+                {problems.length > 0 && (
+                    <ul className="mb-4 space-y-0.5">
+                        {problems.map((problem) => (
+                            <li key={problem} className="text-xs text-red-600">
+                                {problem}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {/* Mock Responder and Test Request */}
+                <div className="mb-4 p-3 border border-indigo-200 rounded bg-indigo-50">
+                    <div className="text-xs font-medium text-indigo-700 mb-1">Mock Response</div>
+                    <div className="text-xs text-gray-500 mb-2">
+                        The editor never calls the real API; the test request and the chat preview get this response.
+                    </div>
+                    <div className="flex gap-2 mb-2">
+                        <label className="flex-1 text-xs text-gray-600">
+                            Status
+                            <input
+                                type="number"
+                                min={100}
+                                max={599}
+                                className="w-full p-1 border rounded text-xs bg-white"
+                                value={mock.status}
+                                onChange={(e) => {
+                                    const status = Number(e.target.value);
+                                    if (Number.isInteger(status) && status >= 100 && status <= 599) {
+                                        update({ mock: { ...mock, status } }, { coalesceKey: `mockStatus:${node.id}` });
+                                    }
+                                }}
+                            />
+                        </label>
+                        <label className="flex-1 text-xs text-gray-600">
+                            Delay (ms)
+                            <input
+                                type="number"
+                                min={0}
+                                step={100}
+                                className="w-full p-1 border rounded text-xs bg-white"
+                                value={mock.delay}
+                                onChange={(e) => {
+                                    const delay = Number(e.target.value);
+                                    if (delay >= 0) update({ mock: { ...mock, delay } }, { coalesceKey: `mockDelay:${node.id}` });
+                                }}
+                            />
+                        </label>
+                    </div>
+                    <textarea
+                        rows={4}
+                        className="w-full p-2 mb-2 border rounded text-xs font-mono bg-white"
+                        value={mock.body}
+                        onChange={(e) => update({ mock: { ...mock, body: e.target.value } }, { coalesceKey: `mockBody:${node.id}` })}
+                        placeholder='{ "status": "shipped" }'
+                    />
+                    <button
+                        onClick={onTestRequest}
+                        disabled={testing}
+                        className="w-full px-3 py-2 bg-indigo-500 text-white rounded text-sm hover:bg-indigo-600 disabled:opacity-60"
+                    >
+                        {testing ? 'Waiting for response…' : 'Test request'}
+                    </button>
+
+                    {/* Outcome of the last test request */}
+                    {result && (
+                        <div className="mt-2 text-xs space-y-1">
+                            <div className="font-mono text-gray-700 break-all">
+                                {result.request.method} {result.request.url || '(no URL)'}
+                            </div>
+                            {result.request.headers.map((h, index) => (
+                                <div key={index} className="font-mono text-gray-500 break-all">
+                                    {h.name}: {h.value}
+                                </div>
+                            ))}
+                            {result.request.body && (
+                                <pre className="font-mono text-gray-500 whitespace-pre-wrap break-all">{result.request.body}</pre>
+                            )}
+                            <div className={result.handleId === API_SUCCESS_HANDLE_ID ? 'text-green-700' : 'text-red-600'}>
+                                {result.status !== null && `${result.status} · `}
+                                {result.error ?? 'Success'} — continues from the {result.handleId === API_SUCCESS_HANDLE_ID ? 'Success' : 'Error'} handle
+                            </div>
+                            {Object.entries(result.values).map(([name, value]) => (
+                                <div key={name} className="font-mono text-gray-700 break-all">
+                                    {name} = {JSON.stringify(value)}
+                                </div>
+                            ))}
+                            {result.unresolved.map((path) => (
+                                <div key={path} className="text-amber-700">
+                                    The response has no value at {path}.
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    <div className="text-xs text-gray-500 mt-2">Placeholders are filled in with the variables' default values.</div>
+                </div>
+            </div>
+        </aside>
+    );
+};
+
+export default ApiSettingsPanel;
@@ -0,0 +1,100 @@
+/**
+ * Buttons Node Component
+ *
+ * This component represents a quick-reply buttons node in the flow builder.
+ * It displays a message followed by the buttons the user can pick from.
+ *
+ * Features:
+ * - Visual representation with cursor-click icon and purple theme
+ * - Target handle (left) for incoming connections
+ * - One source handle (right) per button, so every choice can lead to a
+ *   different next node
+ * - Message and button preview
+ *
+ * The component is memoized for performance optimization.
+ */
+
+import { memo, useEffect } from 'react';
+import { Handle, Position, useUpdateNodeInternals, type NodeProps } from '@xyflow/react';
+import type { ButtonsNode as ButtonsNodeType } from '../../../types/flow';
+
+/**
+ * Buttons Node Component
+ *
+ * Renders a quick-reply node with a source handle next to every button.
+ *
+ * @param id - ID of the node
+ * @param data - Node data containing the message and buttons
+ * @param isConnectable - Whether the node can be connected to other nodes
+ */
+const ButtonsNode = ({ id, data, isConnectable }: NodeProps<ButtonsNodeType>) => {
+    const { text, buttons } = data;
+
+    // React Flow caches handle positions; re-measure them when buttons change
+    const updateNodeInternals = useUpdateNodeInternals();
+    const handleIds = buttons.map((b) => b.id).join(',');
+    useEffect(() => {
+        updateNodeInternals(id);
+    }, [id, handleIds, updateNodeInternals]);
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg border-2 border-purple-300 p-3 w-64">
+            {/* Target Handle - Left side for incoming connections */}
+            <Handle
+                type="target"
+                position={Position.Left}
+                id="left"
+                style={{ background: '#9CA3AF' }}
+                isConnectable={isConnectable}
+            />
+
+            <div className="text-sm text-gray-800">
+                {/* Node Header with Icon and Title */}
+                <div className="flex items-center mb-2">
+                    {/* Cursor click icon in purple circle */}
+                    <div className="w-6 h-6 bg-purple-100 rounded-full flex items-center justify-center mr-2">
+                        <svg className="w-4 h-4 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122" />
+                        </svg>
+                    </div>
+                    {/* Node type label */}
+                    <div className="font-semibold text-purple-700">Quick Replies</div>
+                </div>
+
+                {/* Message Preview Box */}
+                <div className="p-2 bg-gray-50 rounded border border-gray-200">
+                    <div className="text-xs text-gray-700">
+                        {/* Display the actual message text or placeholder */}
+                        {text || 'Empty message'}
+                    </div>
+                </div>
+
+                {/* Buttons, each with its own source handle */}
+                <div className="mt-2 space-y-1">
+                    {buttons.length === 0 && (
+                        <div className="text-xs text-gray-500 italic">No buttons yet</div>
+                    )}
+                    {buttons.map((button) => (
+                        <div
+                            key={button.id}
+                            className="relative text-xs text-center text-purple-700 bg-purple-50 border border-purple-200 rounded py-1"
+                        >
+                            {button.label || 'Untitled button'}
+                            {/* Source Handle - Right side, one per button */}
+                            <Handle
+                                type="source"
+                                position={Position.Right}
+                                id={button.id}
+                                style={{ background: '#8B5CF6', right: -14 }}
+                                isConnectable={isConnectable}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Export memoized component for performance optimization
+export default memo(ButtonsNode);
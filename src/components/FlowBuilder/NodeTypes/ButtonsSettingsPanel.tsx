@@ -0,0 +1,365 @@
+/**
+ * Buttons Settings Panel Component
+ *
+ * This component provides the settings interface for quick-reply buttons
+ * nodes when they are selected. It allows users to edit the message, manage
+ * the list of buttons and configure how many buttons the node may have.
+ *
+ * Features:
+ * - Real-time message and button label editing with auto-save
+ * - `{{variable}}` placeholders in the message with autocompletion
+ * - Add, remove and reorder buttons
+ * - Configurable maximum number of buttons, capped by the targeted channels
+ * - Live character counter for the message, and highlighted labels that are
+ *   longer than the targeted channels allow
+ * - Removing a button also removes the edge leaving its handle and its
+ *   translations
+ * - Locale switcher for flows with several locales; other locales edit the
+ *   translations of the message and the labels, while the buttons themselves
+ *   are shared by all locales
+ * - Node deletion functionality
+ *
+ * The component automatically appears when a buttons node is selected.
+ */
+
+import React, { useCallback } from 'react';
+import { nanoid } from 'nanoid';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useNodeTranslation } from '../../../hooks/useLocale';
+import type { AppNode, ButtonsNodeData } from '../../../types/flow';
+import type { HistoryOptions } from '../../../utils/history';
+import { getChannelLimit } from '../../../utils/channels';
+import { removeTranslationKey } from '../../../utils/localization';
+import TemplateTextarea from './TemplateTextarea';
+import LocaleSwitcher from '../Localization/LocaleSwitcher';
+import SourceText from '../Localization/SourceText';
+import CharacterCounter from '../Channels/CharacterCounter';
+
+/** Upper bound for the configurable maximum number of buttons */
+export const BUTTONS_LIMIT = 10;
+
+/**
+ * Buttons Settings Panel Component
+ *
+ * Renders a settings panel for editing quick-reply node properties.
+ * This panel appears when a buttons node is selected in the flow canvas.
+ *
+ * @returns JSX element representing the settings panel or null if no buttons node is selected
+ */
+const ButtonsSettingsPanel: React.FC = () => {
+    // Get flow state and actions from Zustand store
+    const { nodes, edges, selectedNodeId, channels, setGraph, updateNodeData, deleteElements } = useFlowStore();
+
+    // Find the currently selected buttons node
+    const selected = nodes.find((n) => n.id === selectedNodeId);
+    const node = selected?.type === 'buttons' ? selected : undefined;
+    const nodeData = node?.data;
+
+    // Locale being edited, and the node's translations into it
+    const { isDefault, localeName, translated, setTranslated } = useNodeTranslation(node);
+
+    // Strictest limits of the channels the flow targets
+    const textLimit = getChannelLimit(channels, 'maxButtonsTextLength');
+    const labelLimit = getChannelLimit(channels, 'maxButtonLabelLength');
+    const buttonsLimit = getChannelLimit(channels, 'maxButtons');
+    const maxAllowed = Math.min(BUTTONS_LIMIT, buttonsLimit?.value ?? BUTTONS_LIMIT);
+
+    /**
+     * Update Data Helper
+     *
+     * Applies a partial update to the selected node's data.
+     *
+     * @param patch - The data fields to change
+     * @param options - History options for the update
+     */
+    const updateData = useCallback(
+        (patch: Partial<ButtonsNodeData>, options?: HistoryOptions) => {
+            if (!node) return;
+            updateNodeData(node.id, patch, options);
+        },
+        [node, updateNodeData]
+    );
+
+    /**
+     * Text Change Handler
+     *
+     * Updates the message shown above the buttons.
+     *
+     * @param text - The new message text
+     */
+    const onChangeText = useCallback(
+        (text: string) => {
+            if (!node) return;
+            updateData({ text }, { coalesceKey: `text:${node.id}` });
+        },
+        [node, updateData]
+    );
+
+    /**
+     * Button Label Change Handler
+     *
+     * @param buttonId - ID of the button being renamed
+     * @param label - The new label
+     */
+    const onChangeLabel = useCallback(
+        (buttonId: string, label: string) => {
+            if (!nodeData) return;
+            updateData(
+                { buttons: nodeData.buttons.map((b) => (b.id === buttonId ? { ...b, label } : b)) },
+                { coalesceKey: `button:${buttonId}` }
+            );
+        },
+        [nodeData, updateData]
+    );
+
+    /**
+     * Add Button Handler
+     *
+     * Appends a new button unless the maximum has been reached.
+     */
+    const addButton = useCallback(() => {
+        if (!nodeData || nodeData.buttons.length >= nodeData.maxButtons) return;
+        const label = `Option ${nodeData.buttons.length + 1}`;
+        updateData({ buttons: [...nodeData.buttons, { id: `btn-${nanoid(6)}`, label }] });
+    }, [nodeData, updateData]);
+
+    /**
+     * Move Button Handler
+     *
+     * Moves a button one position up or down in the list.
+     *
+     * @param index - Current index of the button
+     * @param offset - -1 to move up, 1 to move down
+     */
+    const moveButton = useCallback(
+        (index: number, offset: -1 | 1) => {
+            if (!nodeData) return;
+            const target = index + offset;
+            if (target < 0 || target >= nodeData.buttons.length) return;
+            const buttons = [...nodeData.buttons];
+            [buttons[index], buttons[target]] = [buttons[target], buttons[index]];
+            updateData({ buttons });
+        },
+        [nodeData, updateData]
+    );
+
+    /**
+     * Remove Button Handler
+     *
+     * Removes a button together with the edge leaving its handle and the
+     * translations of its label, as a single undo step.
+     *
+     * @param buttonId - ID of the button to remove
+     */
+    const removeButton = useCallback(
+        (buttonId: string) => {
+            if (!node || !nodeData) return;
+            const newNodes = nodes.map((n) =>
+                n.id === node.id
+                    ? ({
+                          ...n,
+                          data: {
+                              ...nodeData,
+                              buttons: nodeData.buttons.filter((b) => b.id !== buttonId),
+                              translations: removeTranslationKey(nodeData.translations, `button:${buttonId}`),
+                          },
+                      } as AppNode)
+                    : n
+            );
+            const newEdges = edges.filter((e) => !(e.source === node.id && e.sourceHandle === buttonId));
+            setGraph(newNodes, newEdges);
+        },
+        [node, nodeData, nodes, edges, setGraph]
+    );
+
+    /**
+     * Max Buttons Change Handler
+     *
+     * Updates the maximum number of buttons, clamped to 1..BUTTONS_LIMIT and
+     * to the number of buttons the targeted channels allow.
+     *
+     * @param e - The change event from the number input
+     */
+    const onChangeMaxButtons = useCallback(
+        (e: React.ChangeEvent<HTMLInputElement>) => {
+            if (!node) return;
+            const maxButtons = Math.min(maxAllowed, Math.max(1, parseInt(e.target.value) || 1));
+            updateData({ maxButtons }, { coalesceKey: `maxButtons:${node.id}` });
+        },
+        [node, maxAllowed, updateData]
+    );
+
+    /**
+     * Delete Node Handler
+     *
+     * Removes the selected node and its connections from the flow and
+     * clears the selection.
+     */
+    const onDeleteNode = useCallback(() => {
+        if (!node) return;
+        deleteElements([node.id]);
+    }, [node, deleteElements]);
+
+    // Don't render anything if no buttons node is selected
+    if (!node || !nodeData) return null;
+
+    const atLimit = nodeData.buttons.length >= nodeData.maxButtons;
+
+    /**
+     * Label Too Long Helper
+     *
+     * @param label - A button label
+     * @returns True if the label is longer than the targeted channels allow
+     */
+    const tooLong = (label: string) => labelLimit !== null && label.length > labelLimit.value;
+    const labelClass = (label: string) => (tooLong(label) ? 'border-red-400' : '');
+    const shownLabels = nodeData.buttons.map((b) => (isDefault ? b.label : translated[`button:${b.id}`] ?? ''));
+
+    return (
+        <aside className="flex flex-col h-full w-80 bg-white border-l border-gray-200">
+            {/* Panel Header with Title and Delete Button */}
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                {/* Panel title */}
+                <h4 className="font-semibold text-gray-700">Quick Replies</h4>
+                {/* Delete button with red styling for destructive action */}
+                <button
+                    onClick={onDeleteNode}
+                    className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+                >
+                    Delete
+                </button>
+            </div>
+
+            {/* Form Content Area with Scroll */}
+            <div className="flex-1 p-4 overflow-y-auto">
+                {/* Locale being edited (only for flows with several locales) */}
+                <LocaleSwitcher node={node} className="mb-3" />
+
+                {/* Message Configuration */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">Message{!isDefault && ` (${localeName})`}</label>
+                    {isDefault ? (
+                        <>
+                            <TemplateTextarea
+                                rows={3}
+                                value={nodeData.text}
+                                onChange={onChangeText}
+                                placeholder="Enter the message shown above the buttons..."
+                            />
+                            <CharacterCounter value={nodeData.text} limit={textLimit} />
+                        </>
+                    ) : (
+                        <>
+                            <TemplateTextarea
+                                rows={3}
+                                value={translated.text ?? ''}
+                                onChange={(text) => setTranslated('text', text)}
+                                placeholder={`Enter the ${localeName} message...`}
+                            />
+                            <CharacterCounter value={translated.text ?? ''} limit={textLimit} />
+                            <SourceText value={nodeData.text} />
+                        </>
+                    )}
+                </div>
+
+                {/* Maximum Buttons Configuration */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">Maximum Buttons</label>
+                    <input
+                        type="number"
+                        min="1"
+                        max={maxAllowed}
+                        className="w-full p-2 border rounded text-sm"
+                        value={nodeData.maxButtons}
+                        onChange={onChangeMaxButtons}
+                    />
+                    {nodeData.buttons.length > nodeData.maxButtons && (
+                        <div className="text-xs text-amber-600 mt-1">
+                            This node has more buttons than the maximum; remove some before saving.
+                        </div>
+                    )}
+                    {buttonsLimit && nodeData.maxButtons > buttonsLimit.value && (
+                        <div className="text-xs text-amber-600 mt-1">
+                            {buttonsLimit.channel.name} allows at most {buttonsLimit.value} buttons.
+                        </div>
+                    )}
+                </div>
+
+                {/* Buttons List */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">
+                        Buttons ({nodeData.buttons.length}/{nodeData.maxButtons})
+                    </label>
+                    <div className="space-y-2 mb-2">
+                        {nodeData.buttons.map((button, index) => (
+                            <div key={button.id} className="flex items-center gap-1">
+                                {isDefault ? (
+                                    <input
+                                        type="text"
+                                        className={`flex-1 p-2 border rounded text-sm ${labelClass(button.label)}`}
+                                        value={button.label}
+                                        onChange={(e) => onChangeLabel(button.id, e.target.value)}
+                                        placeholder="Button label..."
+                                    />
+                                ) : (
+                                    // The default label is the placeholder and the tooltip of the translation
+                                    <input
+                                        type="text"
+                                        className={`flex-1 p-2 border rounded text-sm ${labelClass(translated[`button:${button.id}`] ?? '')}`}
+                                        value={translated[`button:${button.id}`] ?? ''}
+                                        onChange={(e) => setTranslated(`button:${button.id}`, e.target.value)}
+                                        placeholder={button.label}
+                                        title={button.label}
+                                    />
+                                )}
+                                {/* Reorder and remove controls */}
+                                <button
+                                    onClick={() => moveButton(index, -1)}
+                                    disabled={index === 0}
+                                    className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                                    title="Move up"
+                                >
+                                    ↑
+                                </button>
+                                <button
+                                    onClick={() => moveButton(index, 1)}
+                                    disabled={index === nodeData.buttons.length - 1}
+                                    className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                                    title="Move down"
+                                >
+                                    ↓
+                                </button>
+                                <button
+                                    onClick={() => removeButton(button.id)}
+                                    className="px-1 text-red-500 hover:text-red-700"
+                                    title="Remove button"
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    {labelLimit && shownLabels.some(tooLong) && (
+                        <div className="text-xs text-red-600 mb-2">
+                            {labelLimit.channel.name} allows button labels of up to {labelLimit.value} characters.
+                        </div>
+                    )}
+                    <button
+                        onClick={addButton}
+                        disabled={atLimit}
+                        className="w-full px-3 py-2 bg-purple-500 text-white rounded text-sm hover:bg-purple-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        {atLimit ? 'Maximum reached' : 'Add button'}
+                    </button>
+                </div>
+
+                {/* Connection hint */}
+                <div className="text-xs text-gray-500">
+                    Connect each button's handle on the canvas to the node that should follow that choice.
+                </div>
+            </div>
+        </aside>
+    );
+};
+
+export default ButtonsSettingsPanel;
@@ -0,0 +1,103 @@
+/**
+ * Condition Node Component
+ *
+ * This component represents a conditional branch node in the flow builder.
+ * It routes the conversation based on conversation variables rather than
+ * on anything the user sees.
+ *
+ * Features:
+ * - Visual representation with branch icon and orange theme
+ * - Target handle (left) for incoming connections
+ * - One source handle (right) per rule group plus an "else" handle
+ * - Readable summary of each group's rules
+ *
+ * The component is memoized for performance optimization.
+ */
+
+import { memo, useEffect } from 'react';
+import { Handle, Position, useUpdateNodeInternals, type NodeProps } from '@xyflow/react';
+import type { ConditionNode as ConditionNodeType } from '../../../types/flow';
+import { ELSE_HANDLE_ID, summarizeGroup } from '../../../utils/conditions';
+
+/**
+ * Condition Node Component
+ *
+ * Renders a condition node with a source handle next to every branch.
+ *
+ * @param id - ID of the node
+ * @param data - Node data containing the rule groups
+ * @param isConnectable - Whether the node can be connected to other nodes
+ */
+const ConditionNode = ({ id, data, isConnectable }: NodeProps<ConditionNodeType>) => {
+    const { groups } = data;
+
+    // React Flow caches handle positions; re-measure them when groups change
+    const updateNodeInternals = useUpdateNodeInternals();
+    const handleIds = groups.map((g) => g.id).join(',');
+    useEffect(() => {
+        updateNodeInternals(id);
+    }, [id, handleIds, updateNodeInternals]);
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg border-2 border-orange-300 p-3 w-64">
+            {/* Target Handle - Left side for incoming connections */}
+            <Handle
+                type="target"
+                position={Position.Left}
+                id="left"
+                style={{ background: '#9CA3AF' }}
+                isConnectable={isConnectable}
+            />
+
+            <div className="text-sm text-gray-800">
+                {/* Node Header with Icon and Title */}
+                <div className="flex items-center mb-2">
+                    {/* Branch icon in orange circle */}
+                    <div className="w-6 h-6 bg-orange-100 rounded-full flex items-center justify-center mr-2">
+                        <svg className="w-4 h-4 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z" />
+                        </svg>
+                    </div>
+                    {/* Node type label */}
+                    <div className="font-semibold text-orange-700">Condition</div>
+                </div>
+
+                {/* Branches, each with its own source handle */}
+                <div className="space-y-1">
+                    {groups.map((group, index) => (
+                        <div
+                            key={group.id}
+                            className="relative text-xs text-gray-700 bg-orange-50 border border-orange-200 rounded px-2 py-1"
+                        >
+                            <span className="font-medium text-orange-700">{index === 0 ? 'If' : 'Else if'}</span>{' '}
+                            {summarizeGroup(group)}
+                            {/* Source Handle - Right side, one per group */}
+                            <Handle
+                                type="source"
+                                position={Position.Right}
+                                id={group.id}
+                                style={{ background: '#F97316', right: -14 }}
+                                isConnectable={isConnectable}
+                            />
+                        </div>
+                    ))}
+
+                    {/* Else branch */}
+                    <div className="relative text-xs text-gray-500 bg-gray-50 border border-gray-200 rounded px-2 py-1">
+                        <span className="font-medium">Else</span>
+                        <Handle
+                            type="source"
+                            position={Position.Right}
+                            id={ELSE_HANDLE_ID}
+                            style={{ background: '#9CA3AF', right: -14 }}
+                            isConnectable={isConnectable}
+                        />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Export memoized component for performance optimization
+export default memo(ConditionNode);
@@ -0,0 +1,268 @@
+/**
+ * Condition Settings Panel Component
+ *
+ * This component provides the settings interface for condition nodes when
+ * they are selected. It lets users build rule groups that decide which
+ * branch the conversation takes.
+ *
+ * Features:
+ * - Add and remove rule groups (each group is a branch with its own handle)
+ * - AND/OR combinator per group
+ * - Rules made of variable, operator and value, with variable suggestions
+ * - Removing a group also removes the edge leaving its handle
+ * - Node deletion functionality
+ *
+ * The component automatically appears when a condition node is selected.
+ */
+
+import React, { useCallback } from 'react';
+import { nanoid } from 'nanoid';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import type {
+    AppNode,
+    ConditionGroup,
+    ConditionOperator,
+    ConditionRule,
+} from '../../../types/flow';
+import type { HistoryOptions } from '../../../utils/history';
+import { CONDITION_OPERATORS } from '../../../utils/conditions';
+import { getKnownVariableNames } from '../../../utils/variables';
+
+/**
+ * New Rule Helper
+ *
+ * @returns A new rule with default values
+ */
+const createRule = (): ConditionRule => ({
+    id: `rule-${nanoid(6)}`,
+    variable: '',
+    operator: 'equals',
+    value: '',
+});
+
+/**
+ * Condition Settings Panel Component
+ *
+ * Renders a settings panel for editing condition node rules.
+ * This panel appears when a condition node is selected in the flow canvas.
+ *
+ * @returns JSX element representing the settings panel or null if no condition node is selected
+ */
+const ConditionSettingsPanel: React.FC = () => {
+    // Get flow state and actions from Zustand store
+    const { nodes, edges, variables, selectedNodeId, setGraph, updateNodeData, deleteElements } = useFlowStore();
+
+    // Find the currently selected condition node
+    const selected = nodes.find((n) => n.id === selectedNodeId);
+    const node = selected?.type === 'condition' ? selected : undefined;
+    const nodeData = node?.data;
+
+    /**
+     * Update Groups Helper
+     *
+     * Replaces the selected node's rule groups.
+     *
+     * @param groups - The new rule groups
+     * @param options - History options for the update
+     */
+    const updateGroups = useCallback(
+        (groups: ConditionGroup[], options?: HistoryOptions) => {
+            if (!node) return;
+            updateNodeData(node.id, { groups }, options);
+        },
+        [node, updateNodeData]
+    );
+
+    /**
+     * Update Group Helper
+     *
+     * @param groupId - ID of the group to change
+     * @param patch - The group fields to change
+     * @param options - History options for the update
+     */
+    const updateGroup = useCallback(
+        (groupId: string, patch: Partial<ConditionGroup>, options?: HistoryOptions) => {
+            if (!nodeData) return;
+            updateGroups(nodeData.groups.map((g) => (g.id === groupId ? { ...g, ...patch } : g)), options);
+        },
+        [nodeData, updateGroups]
+    );
+
+    /**
+     * Update Rule Helper
+     *
+     * Text fields coalesce per rule so a typing burst is one undo step.
+     *
+     * @param group - The group containing the rule
+     * @param ruleId - ID of the rule to change
+     * @param patch - The rule fields to change
+     */
+    const updateRule = useCallback(
+        (group: ConditionGroup, ruleId: string, patch: Partial<ConditionRule>) => {
+            const rules = group.rules.map((r) => (r.id === ruleId ? { ...r, ...patch } : r));
+            const typing = 'variable' in patch || 'value' in patch;
+            updateGroup(group.id, { rules }, typing ? { coalesceKey: `rule:${ruleId}` } : undefined);
+        },
+        [updateGroup]
+    );
+
+    /**
+     * Add Group Handler
+     *
+     * Appends a new branch with a single empty rule.
+     */
+    const addGroup = useCallback(() => {
+        if (!nodeData) return;
+        updateGroups([...nodeData.groups, { id: `group-${nanoid(6)}`, combinator: 'and', rules: [createRule()] }]);
+    }, [nodeData, updateGroups]);
+
+    /**
+     * Remove Group Handler
+     *
+     * Removes a branch together with the edge leaving its handle, as a
+     * single undo step.
+     *
+     * @param groupId - ID of the group to remove
+     */
+    const removeGroup = useCallback(
+        (groupId: string) => {
+            if (!node || !nodeData) return;
+            const newNodes = nodes.map((n) =>
+                n.id === node.id
+                    ? ({ ...n, data: { ...nodeData, groups: nodeData.groups.filter((g) => g.id !== groupId) } } as AppNode)
+                    : n
+            );
+            const newEdges = edges.filter((e) => !(e.source === node.id && e.sourceHandle === groupId));
+            setGraph(newNodes, newEdges);
+        },
+        [node, nodeData, nodes, edges, setGraph]
+    );
+
+    /**
+     * Delete Node Handler
+     *
+     * Removes the selected node and its connections from the flow and
+     * clears the selection.
+     */
+    const onDeleteNode = useCallback(() => {
+        if (!node) return;
+        deleteElements([node.id]);
+    }, [node, deleteElements]);
+
+    // Don't render anything if no condition node is selected
+    if (!node || !nodeData) return null;
+
+    return (
+        <aside className="flex flex-col h-full w-80 bg-white border-l border-gray-200">
+            {/* Panel Header with Title and Delete Button */}
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                {/* Panel title */}
+                <h4 className="font-semibold text-gray-700">Condition</h4>
+                {/* Delete button with red styling for destructive action */}
+                <button
+                    onClick={onDeleteNode}
+                    className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+                >
+                    Delete
+                </button>
+            </div>
+
+            {/* Form Content Area with Scroll */}
+            <div className="flex-1 p-4 overflow-y-auto">
+                {/* Variable suggestions shared by all rule inputs */}
+                <datalist id="condition-variables">
+                    {getKnownVariableNames(variables).map((name) => (
+                        <option key={name} value={name} />
+                    ))}
+                </datalist>
+
+                {nodeData.groups.map((group, groupIndex) => (
+                    <div key={group.id} className="mb-4 p-3 border border-orange-200 rounded bg-orange-50">
+                        {/* Group Header with combinator and remove button */}
+                        <div className="flex justify-between items-center mb-2">
+                            <span className="text-xs font-medium text-orange-700">
+                                {groupIndex === 0 ? 'If' : 'Else if'} — match
+                            </span>
+                            <select
+                                className="p-1 border rounded text-xs bg-white"
+                                value={group.combinator}
+                                onChange={(e) => updateGroup(group.id, { combinator: e.target.value as 'and' | 'or' })}
+                            >
+                                <option value="and">all rules (AND)</option>
+                                <option value="or">any rule (OR)</option>
+                            </select>
+                            <button
+                                onClick={() => removeGroup(group.id)}
+                                className="text-xs text-red-500 hover:text-red-700"
+                            >
+                                Remove
+                            </button>
+                        </div>
+
+                        {/* Rules */}
+                        {group.rules.map((rule) => (
+                            <div key={rule.id} className="mb-2 p-2 bg-white border rounded space-y-1">
+                                <div className="flex gap-1">
+                                    <input
+                                        type="text"
+                                        list="condition-variables"
+                                        className="flex-1 p-1 border rounded text-xs font-mono"
+                                        value={rule.variable}
+                                        onChange={(e) => updateRule(group, rule.id, { variable: e.target.value })}
+                                        placeholder="variable"
+                                    />
+                                    <button
+                                        onClick={() => updateGroup(group.id, { rules: group.rules.filter((r) => r.id !== rule.id) })}
+                                        className="px-1 text-red-500 hover:text-red-700"
+                                        title="Remove rule"
+                                    >
+                                        ×
+                                    </button>
+                                </div>
+                                <select
+                                    className="w-full p-1 border rounded text-xs"
+                                    value={rule.operator}
+                                    onChange={(e) => updateRule(group, rule.id, { operator: e.target.value as ConditionOperator })}
+                                >
+                                    {Object.entries(CONDITION_OPERATORS).map(([value, { label }]) => (
+                                        <option key={value} value={value}>{label}</option>
+                                    ))}
+                                </select>
+                                {CONDITION_OPERATORS[rule.operator].needsValue && (
+                                    <input
+                                        type="text"
+                                        className="w-full p-1 border rounded text-xs"
+                                        value={rule.value}
+                                        onChange={(e) => updateRule(group, rule.id, { value: e.target.value })}
+                                        placeholder={rule.operator === 'matchesRegex' ? 'e.g. ^ORD-\\d+$' : 'value'}
+                                    />
+                                )}
+                            </div>
+                        ))}
+
+                        <button
+                            onClick={() => updateGroup(group.id, { rules: [...group.rules, createRule()] })}
+                            className="text-xs text-orange-700 hover:text-orange-900"
+                        >
+                            + Add rule
+                        </button>
+                    </div>
+                ))}
+
+                <button
+                    onClick={addGroup}
+                    className="w-full px-3 py-2 bg-orange-500 text-white rounded text-sm hover:bg-orange-600"
+                >
+                    Add branch
+                </button>
+
+                {/* Connection hint */}
+                <div className="text-xs text-gray-500 mt-4">
+                    Branches are checked top to bottom. When none matches, the flow continues from the Else handle.
+                </div>
+            </div>
+        </aside>
+    );
+};
+
+export default ConditionSettingsPanel;
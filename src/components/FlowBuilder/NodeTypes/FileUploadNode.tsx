@@ -16,7 +16,7 @@
 
 import { memo } from 'react';
 import { Handle, Position, type NodeProps } from '@xyflow/react';
-import type { AppNode } from '../../../types/flow';
+import type { FileUploadNode as FileUploadNodeType } from '../../../types/flow';
 
 /**
  * File Upload Node Component
@@ -26,16 +26,9 @@ import type { AppNode } from '../../../types/flow';
  * @param data - Node data containing upload configuration
  * @param isConnectable - Whether the node can be connected to other nodes
  */
-const FileUploadNode = ({ data, isConnectable }: NodeProps<AppNode>) => {
-    // Extract upload configuration from node data with type casting for safety
-    // We cast to the specific type since we know this is a file upload node
-    const { label, allowedTypes, maxSize, multiple } = data as {
-        label: string;
-        allowedTypes: string[];
-        maxSize: number;
-        multiple: boolean;
-        type: 'fileUpload';
-    };
+const FileUploadNode = ({ data, isConnectable }: NodeProps<FileUploadNodeType>) => {
+    // Extract upload configuration from node data
+    const { label, allowedTypes, maxSize, multiple } = data;
 
     /**
      * Format Allowed File Types for Display
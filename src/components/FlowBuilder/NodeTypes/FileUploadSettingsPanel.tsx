@@ -7,10 +7,14 @@
  * 
  * Features:
  * - Real-time configuration editing with auto-save
- * - Dynamic file type management (add/remove)
- * - File size limit configuration
+ * - Dynamic file type management (add/remove), with the types every
+ *   targeted channel accepts offered as suggestions and unsupported types
+ *   highlighted
+ * - File size limit configuration, capped by the targeted channels
  * - Multiple file toggle
  * - Live preview of upload configuration
+ * - Locale switcher for flows with several locales; other locales edit the
+ *   translations of the label, while the other settings apply to all locales
  * - Node deletion functionality
  * - Comprehensive form validation
  * 
@@ -20,7 +24,18 @@
 
 import React, { useCallback, useState } from 'react';
 import { useFlowStore } from '../../../hooks/useFlowState';
-import type { AppNode } from '../../../types/flow';
+import { useNodeTranslation } from '../../../hooks/useLocale';
+import {
+    findUnsupportedFileTypes,
+    getChannelLimit,
+    getSupportedFileTypes,
+    normalizeFileType,
+} from '../../../utils/channels';
+import LocaleSwitcher from '../Localization/LocaleSwitcher';
+import SourceText from '../Localization/SourceText';
+
+/** Upper bound for the size limit of flows that target no channel (MB) */
+const MAX_SIZE_LIMIT = 100;
 
 /**
  * File Upload Settings Panel Component
@@ -32,27 +47,23 @@ import type { AppNode } from '../../../types/flow';
  */
 const FileUploadSettingsPanel: React.FC = () => {
     // Get flow state and actions from Zustand store
-    const { nodes, selectedNodeId, setNodes, setSelectedNodeId } = useFlowStore();
+    const { nodes, selectedNodeId, channels, updateNodeData, deleteElements } = useFlowStore();
 
     // Local state for managing new file type input
     const [newFileType, setNewFileType] = useState('');
 
-    // Find the currently selected node
-    const node = nodes.find((n) => n.id === selectedNodeId) as AppNode | undefined;
+    // Find the currently selected file upload node (hooks below must run
+    // unconditionally, so the early return happens right before rendering)
+    const selected = nodes.find((n) => n.id === selectedNodeId);
+    const node = selected?.type === 'fileUpload' ? selected : undefined;
+    const nodeData = node?.data;
 
-    // Early return if no node is selected or if it's not a file upload node
-    if (!node || node.type !== 'fileUpload') {
-        return null;
-    }
+    // Locale being edited, and the node's translations into it
+    const { isDefault, localeName, translated, setTranslated } = useNodeTranslation(node);
 
-    // Type-safe access to file upload node data
-    const nodeData = node.data as {
-        label: string;
-        allowedTypes: string[];
-        maxSize: number;
-        multiple: boolean;
-        type: 'fileUpload';
-    };
+    // Strictest size limit of the channels the flow targets
+    const sizeLimit = getChannelLimit(channels, 'maxFileSize');
+    const maxSizeAllowed = sizeLimit?.value ?? MAX_SIZE_LIMIT;
 
     /**
      * Label Change Handler
@@ -64,34 +75,28 @@ const FileUploadSettingsPanel: React.FC = () => {
     const onChangeLabel = useCallback(
         (e: React.ChangeEvent<HTMLInputElement>) => {
             if (!node) return;
-            const newNodes = nodes.map((n) =>
-                n.id === node.id
-                    ? { ...n, data: { ...(n.data as any), label: e.target.value } }
-                    : n
-            );
-            setNodes(newNodes);
+            // A typing burst in the label is coalesced into one undo step
+            updateNodeData(node.id, { label: e.target.value }, { coalesceKey: `label:${node.id}` });
         },
-        [node, nodes, setNodes]
+        [node, updateNodeData]
     );
 
     /**
      * Max Size Change Handler
      * 
-     * Updates the maximum file size limit. Ensures the value is a valid number.
+     * Updates the maximum file size limit. Ensures the value is a valid number
+     * no larger than the targeted channels accept.
      * 
      * @param e - The change event from the number input
      */
     const onChangeMaxSize = useCallback(
         (e: React.ChangeEvent<HTMLInputElement>) => {
             if (!node) return;
-            const newNodes = nodes.map((n) =>
-                n.id === node.id
-                    ? { ...n, data: { ...(n.data as any), maxSize: parseInt(e.target.value) || 1 } }
-                    : n
-            );
-            setNodes(newNodes);
+            // Typing or spinning the number input is coalesced into one undo step
+            const maxSize = Math.min(maxSizeAllowed, parseInt(e.target.value) || 1);
+            updateNodeData(node.id, { maxSize }, { coalesceKey: `maxSize:${node.id}` });
         },
-        [node, nodes, setNodes]
+        [node, maxSizeAllowed, updateNodeData]
     );
 
     /**
@@ -104,14 +109,9 @@ const FileUploadSettingsPanel: React.FC = () => {
     const onChangeMultiple = useCallback(
         (e: React.ChangeEvent<HTMLInputElement>) => {
             if (!node) return;
-            const newNodes = nodes.map((n) =>
-                n.id === node.id
-                    ? { ...n, data: { ...(n.data as any), multiple: e.target.checked } }
-                    : n
-            );
-            setNodes(newNodes);
+            updateNodeData(node.id, { multiple: e.target.checked });
         },
-        [node, nodes, setNodes]
+        [node, updateNodeData]
     );
 
     /**
@@ -121,21 +121,31 @@ const FileUploadSettingsPanel: React.FC = () => {
      * Prevents duplicates and validates input.
      */
     const addFileType = useCallback(() => {
-        if (!newFileType.trim() || !node) return;
+        if (!newFileType.trim() || !node || !nodeData) return;
 
-        const currentTypes = [...(nodeData.allowedTypes || [])];
+        const currentTypes = nodeData.allowedTypes;
         // Only add if the type doesn't already exist
         if (!currentTypes.includes(newFileType.trim())) {
-            const newNodes = nodes.map((n) =>
-                n.id === node.id
-                    ? { ...n, data: { ...(n.data as any), allowedTypes: [...currentTypes, newFileType.trim()] } }
-                    : n
-            );
-            setNodes(newNodes);
+            updateNodeData(node.id, { allowedTypes: [...currentTypes, newFileType.trim()] });
         }
         // Clear the input field after adding
         setNewFileType('');
-    }, [newFileType, node, nodeData.allowedTypes, nodes, setNodes]);
+    }, [newFileType, node, nodeData, updateNodeData]);
+
+    /**
+     * Add Suggested File Type Handler
+     * 
+     * Adds a file type the targeted channels accept to the allowed types list.
+     * 
+     * @param type - The suggested file type
+     */
+    const addSuggestedType = useCallback(
+        (type: string) => {
+            if (!node || !nodeData) return;
+            updateNodeData(node.id, { allowedTypes: [...nodeData.allowedTypes, type] });
+        },
+        [node, nodeData, updateNodeData]
+    );
 
     /**
      * Remove File Type Handler
@@ -146,28 +156,33 @@ const FileUploadSettingsPanel: React.FC = () => {
      */
     const removeFileType = useCallback(
         (typeToRemove: string) => {
-            if (!node) return;
-            const newNodes = nodes.map((n) =>
-                n.id === node.id
-                    ? { ...n, data: { ...(n.data as any), allowedTypes: (n.data as any).allowedTypes.filter((t: string) => t !== typeToRemove) } }
-                    : n
-            );
-            setNodes(newNodes);
+            if (!node || !nodeData) return;
+            updateNodeData(node.id, { allowedTypes: nodeData.allowedTypes.filter((t) => t !== typeToRemove) });
         },
-        [node, nodes, setNodes]
+        [node, nodeData, updateNodeData]
     );
 
     /**
      * Delete Node Handler
      * 
-     * Removes the selected node from the flow and clears the selection.
+     * Removes the selected node and its connections from the flow and
+     * clears the selection.
      */
     const onDeleteNode = useCallback(() => {
         if (!node) return;
-        const newNodes = nodes.filter((n) => n.id !== node.id);
-        setNodes(newNodes);
-        setSelectedNodeId(null);
-    }, [node, nodes, setNodes, setSelectedNodeId]);
+        deleteElements([node.id]);
+    }, [node, deleteElements]);
+
+    // Don't render anything if no file upload node is selected
+    if (!node || !nodeData) return null;
+
+    // File types the targeted channels reject, and the accepted types not added yet
+    const unsupported = new Map(
+        findUnsupportedFileTypes(nodeData.allowedTypes, channels).map((u) => [u.type, u.channels.map((c) => c.name)])
+    );
+    const added = new Set(nodeData.allowedTypes.map(normalizeFileType));
+    const supported = getSupportedFileTypes(channels);
+    const suggestions = supported?.filter((type) => !added.has(type)) ?? [];
 
     return (
         <aside className="flex flex-col h-full w-80 bg-white border-l border-gray-200">
@@ -186,16 +201,34 @@ const FileUploadSettingsPanel: React.FC = () => {
 
             {/* Form Content Area with Scroll */}
             <div className="flex-1 p-4 overflow-y-auto">
+                {/* Locale being edited (only for flows with several locales) */}
+                <LocaleSwitcher node={node} className="mb-3" />
+
                 {/* Upload Label Configuration */}
                 <div className="mb-4">
-                    <label className="block text-xs text-gray-600 mb-1">Upload Label</label>
-                    <input
-                        type="text"
-                        className="w-full p-2 border rounded text-sm"
-                        value={nodeData.label || ''}
-                        onChange={onChangeLabel}
-                        placeholder="Enter upload label..."
-                    />
+                    <label className="block text-xs text-gray-600 mb-1">
+                        Upload Label{!isDefault && ` (${localeName})`}
+                    </label>
+                    {isDefault ? (
+                        <input
+                            type="text"
+                            className="w-full p-2 border rounded text-sm"
+                            value={nodeData.label || ''}
+                            onChange={onChangeLabel}
+                            placeholder="Enter upload label..."
+                        />
+                    ) : (
+                        <>
+                            <input
+                                type="text"
+                                className="w-full p-2 border rounded text-sm"
+                                value={translated.label ?? ''}
+                                onChange={(e) => setTranslated('label', e.target.value)}
+                                placeholder={`Enter the ${localeName} label...`}
+                            />
+                            <SourceText value={nodeData.label} />
+                        </>
+                    )}
                 </div>
 
                 {/* Maximum File Size Configuration */}
@@ -204,11 +237,18 @@ const FileUploadSettingsPanel: React.FC = () => {
                     <input
                         type="number"
                         min="1"
-                        max="100"
-                        className="w-full p-2 border rounded text-sm"
+                        max={maxSizeAllowed}
+                        className={`w-full p-2 border rounded text-sm ${nodeData.maxSize > maxSizeAllowed ? 'border-red-400' : ''}`}
                         value={nodeData.maxSize || 1}
                         onChange={onChangeMaxSize}
                     />
+                    {sizeLimit && (
+                        <div
+                            className={`text-xs mt-1 ${nodeData.maxSize > sizeLimit.value ? 'text-red-600' : 'text-gray-500'}`}
+                        >
+                            {sizeLimit.channel.name} accepts files up to {sizeLimit.value} MB.
+                        </div>
+                    )}
                 </div>
 
                 {/* Multiple Files Toggle */}
@@ -232,10 +272,13 @@ const FileUploadSettingsPanel: React.FC = () => {
                     <div className="mb-2">
                         {nodeData.allowedTypes && nodeData.allowedTypes.length > 0 ? (
                             <div className="flex flex-wrap gap-1">
-                                {nodeData.allowedTypes.map((type: string, index: number) => (
+                                {nodeData.allowedTypes.map((type, index) => (
                                     <span
                                         key={index}
-                                        className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-green-100 text-green-800"
+                                        className={`inline-flex items-center px-2 py-1 rounded-full text-xs ${
+                                            unsupported.has(type) ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                                        }`}
+                                        title={unsupported.has(type) ? `Not accepted by ${unsupported.get(type)?.join(', ')}` : undefined}
                                     >
                                         {type}
                                         {/* Remove button for each file type */}
@@ -253,6 +296,28 @@ const FileUploadSettingsPanel: React.FC = () => {
                         )}
                     </div>
 
+                    {/* Types the targeted channels accept */}
+                    {suggestions.length > 0 && (
+                        <div className="mb-2">
+                            <div className="text-xs text-gray-500 mb-1">
+                                {nodeData.allowedTypes.length === 0
+                                    ? 'The targeted channels only accept these types:'
+                                    : 'Also accepted by the targeted channels:'}
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {suggestions.map((type) => (
+                                    <button
+                                        key={type}
+                                        onClick={() => addSuggestedType(type)}
+                                        className="px-2 py-0.5 rounded-full text-xs border border-dashed border-green-400 text-green-700 hover:bg-green-50"
+                                    >
+                                        + {type}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Add New File Type Input */}
                     <div className="flex gap-2">
                         <input
@@ -276,7 +341,7 @@ const FileUploadSettingsPanel: React.FC = () => {
                 <div className="mt-6 p-3 bg-gray-50 rounded border">
                     <h5 className="text-xs font-medium text-gray-700 mb-2">Preview</h5>
                     <div className="text-xs text-gray-600 space-y-1">
-                        <div><strong>Label:</strong> {nodeData.label || 'Upload Files'}</div>
+                        <div><strong>Label:</strong> {(!isDefault && translated.label) || nodeData.label || 'Upload Files'}</div>
                         <div><strong>Max Size:</strong> {nodeData.maxSize || 1}MB</div>
                         <div><strong>Multiple:</strong> {nodeData.multiple ? 'Yes' : 'No'}</div>
                         <div><strong>Types:</strong> {nodeData.allowedTypes && nodeData.allowedTypes.length > 0 ? nodeData.allowedTypes.join(', ') : 'All files'}</div>
@@ -0,0 +1,117 @@
+/**
+ * Group Node Component
+ *
+ * This component represents a group in the flow builder: a frame around a
+ * set of nodes that can be moved as one and collapsed into a compact node.
+ *
+ * Features:
+ * - Dashed frame with a title bar behind the group's members
+ * - Resize handles while the group is selected
+ * - Collapse toggle; a collapsed group shows its member count, and the
+ *   connections crossing its border are drawn from its handles
+ *
+ * The component is memoized for performance optimization.
+ */
+
+import { memo, useEffect } from 'react';
+import { Handle, NodeResizer, Position, useUpdateNodeInternals, type NodeProps } from '@xyflow/react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import type { GroupNode as GroupNodeType } from '../../../types/flow';
+import { GROUP_HEADER_HEIGHT, GROUP_SOURCE_HANDLE, GROUP_TARGET_HANDLE } from '../../../utils/groups';
+
+/** Smallest size (px) a group can be resized to */
+const MIN_GROUP_SIZE = { width: 160, height: 100 };
+
+/**
+ * Collapse Toggle Component
+ *
+ * @param collapsed - Whether the group is collapsed
+ * @param onToggle - Called when the toggle is clicked
+ */
+const CollapseToggle = ({ collapsed, onToggle }: { collapsed: boolean; onToggle: () => void }) => (
+    <button
+        onClick={(e) => {
+            // Keep the click from selecting the group
+            e.stopPropagation();
+            onToggle();
+        }}
+        className="nodrag px-1 text-slate-500 hover:text-slate-800"
+        title={collapsed ? 'Expand group' : 'Collapse group'}
+    >
+        {collapsed ? '▸' : '▾'}
+    </button>
+);
+
+/**
+ * Group Node Component
+ *
+ * Renders a group as a frame around its members, or as a compact node
+ * while it is collapsed.
+ *
+ * @param id - ID of the node
+ * @param data - Node data containing the title and collapsed state
+ * @param selected - Whether the group is selected
+ */
+const GroupNode = ({ id, data, selected }: NodeProps<GroupNodeType>) => {
+    const { label, collapsed } = data;
+    const updateNodeData = useFlowStore((state) => state.updateNodeData);
+    const memberCount = useFlowStore((state) => state.nodes.filter((n) => n.parentId === id).length);
+
+    // Handles only exist while collapsed; re-measure them when that changes
+    const updateNodeInternals = useUpdateNodeInternals();
+    useEffect(() => {
+        updateNodeInternals(id);
+    }, [id, collapsed, updateNodeInternals]);
+
+    const onToggle = () => updateNodeData(id, { collapsed: !collapsed });
+
+    if (collapsed) {
+        return (
+            <div className="h-full bg-slate-50 rounded-lg shadow-lg border-2 border-slate-400 p-3">
+                {/* Crossing connections end here; new ones go to the members */}
+                <Handle
+                    type="target"
+                    position={Position.Left}
+                    id={GROUP_TARGET_HANDLE}
+                    style={{ background: '#9CA3AF' }}
+                    isConnectable={false}
+                />
+                <div className="flex items-center gap-1 text-sm">
+                    <CollapseToggle collapsed onToggle={onToggle} />
+                    <div className="font-semibold text-slate-700 truncate">{label || 'Untitled group'}</div>
+                </div>
+                <div className="mt-1 pl-6 text-xs text-slate-500">
+                    {memberCount} {memberCount === 1 ? 'node' : 'nodes'} hidden
+                </div>
+                <Handle
+                    type="source"
+                    position={Position.Right}
+                    id={GROUP_SOURCE_HANDLE}
+                    style={{ background: '#64748B' }}
+                    isConnectable={false}
+                />
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <NodeResizer
+                isVisible={selected}
+                minWidth={MIN_GROUP_SIZE.width}
+                minHeight={MIN_GROUP_SIZE.height}
+                color="#64748B"
+            />
+            <div className="h-full rounded-lg border-2 border-dashed border-slate-400 bg-slate-100/40">
+                {/* Title bar */}
+                <div className="flex items-center gap-1 px-2 text-sm" style={{ height: GROUP_HEADER_HEIGHT }}>
+                    <CollapseToggle collapsed={false} onToggle={onToggle} />
+                    <div className="font-semibold text-slate-700 truncate">{label || 'Untitled group'}</div>
+                </div>
+            </div>
+        </>
+    );
+};
+
+// Export memoized component for performance optimization
+export default memo(GroupNode);
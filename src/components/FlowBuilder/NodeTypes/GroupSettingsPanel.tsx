@@ -0,0 +1,161 @@
+/**
+ * Group Settings Panel Component
+ *
+ * This component provides the settings interface for groups when they are
+ * selected. It allows users to rename, collapse and ungroup the group, and
+ * to move its members into a subflow of their own.
+ *
+ * Features:
+ * - Title editing with auto-save
+ * - Collapse toggle
+ * - Ungrouping (the members stay where they are)
+ * - Extraction into a new library flow, replaced by a call subflow node
+ * - Group deletion (deletes its members too)
+ *
+ * The component automatically appears when a group is selected.
+ */
+
+import React, { useCallback, useState } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useFlowLibrary } from '../../../hooks/useFlowLibrary';
+
+/**
+ * Group Settings Panel Component
+ *
+ * Renders a settings panel for editing group properties.
+ * This panel appears when a group is selected in the flow canvas.
+ *
+ * @returns JSX element representing the settings panel or null if no group is selected
+ */
+const GroupSettingsPanel: React.FC = () => {
+    // Get flow state and actions from Zustand store
+    const { nodes, selectedNodeId, updateNodeData, ungroup, deleteElements } = useFlowStore();
+    const extractSubflow = useFlowLibrary((state) => state.extractSubflow);
+
+    // Name of the subflow to extract, and why the last extraction failed
+    const [subflowName, setSubflowName] = useState('');
+    const [extractError, setExtractError] = useState<string | null>(null);
+
+    // Find the currently selected group
+    const selected = nodes.find((n) => n.id === selectedNodeId);
+    const node = selected?.type === 'nodeGroup' ? selected : undefined;
+    const memberCount = node ? nodes.filter((n) => n.parentId === node.id).length : 0;
+
+    /**
+     * Label Change Handler
+     *
+     * @param label - The new title of the group
+     */
+    const onChangeLabel = useCallback(
+        (label: string) => {
+            if (!node) return;
+            updateNodeData(node.id, { label }, { coalesceKey: `label:${node.id}` });
+        },
+        [node, updateNodeData]
+    );
+
+    /**
+     * Extract Handler
+     *
+     * Moves the members into a new subflow, or shows why they cannot be.
+     */
+    const onExtract = useCallback(() => {
+        if (!node) return;
+        const result = extractSubflow(node.id, subflowName || node.data.label);
+        setExtractError(result.ok ? null : result.reason);
+        if (result.ok) setSubflowName('');
+    }, [node, subflowName, extractSubflow]);
+
+    /**
+     * Delete Node Handler
+     *
+     * Removes the group, its members and their connections from the flow
+     * and clears the selection.
+     */
+    const onDeleteNode = useCallback(() => {
+        if (!node) return;
+        deleteElements([node.id]);
+    }, [node, deleteElements]);
+
+    // Don't render anything if no group is selected
+    if (!node) return null;
+
+    return (
+        <aside className="flex flex-col h-full w-80 bg-white border-l border-gray-200">
+            {/* Panel Header with Title and Delete Button */}
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                {/* Panel title */}
+                <h4 className="font-semibold text-gray-700">Group</h4>
+                {/* Delete button with red styling for destructive action */}
+                <button
+                    onClick={onDeleteNode}
+                    className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+                >
+                    Delete
+                </button>
+            </div>
+
+            {/* Form Content Area with Scroll */}
+            <div className="flex-1 p-4 overflow-y-auto space-y-4">
+                <div>
+                    <label className="block text-xs text-gray-600 mb-1">Title</label>
+                    <input
+                        type="text"
+                        className="w-full p-2 border rounded text-sm"
+                        value={node.data.label}
+                        onChange={(e) => onChangeLabel(e.target.value)}
+                        placeholder="Group title"
+                    />
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={node.data.collapsed}
+                        onChange={(e) => updateNodeData(node.id, { collapsed: e.target.checked })}
+                    />
+                    Collapsed
+                </label>
+
+                <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-500">
+                        {memberCount} {memberCount === 1 ? 'node' : 'nodes'}
+                    </span>
+                    <button
+                        onClick={() => ungroup([node.id])}
+                        className="px-2 py-1 rounded border border-gray-300 text-xs text-gray-700 hover:bg-gray-50"
+                    >
+                        Ungroup
+                    </button>
+                </div>
+
+                {/* Extraction into a subflow */}
+                <div className="pt-4 border-t border-gray-200">
+                    <label className="block text-xs text-gray-600 mb-1">Extract into subflow</label>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            className="flex-1 p-2 border rounded text-sm"
+                            value={subflowName}
+                            onChange={(e) => setSubflowName(e.target.value)}
+                            placeholder={node.data.label || 'Subflow name'}
+                        />
+                        <button
+                            onClick={onExtract}
+                            className="px-3 py-1 bg-teal-500 text-white rounded hover:bg-teal-600 text-sm"
+                        >
+                            Extract
+                        </button>
+                    </div>
+                    {extractError && <div className="text-xs text-red-600 mt-1">{extractError}</div>}
+                    <div className="text-xs text-gray-500 mt-2">
+                        Moves the grouped nodes into a new flow of the library and calls it from here. Edits to the
+                        subflow apply wherever it is called.
+                    </div>
+                </div>
+            </div>
+        </aside>
+    );
+};
+
+export default GroupSettingsPanel;
@@ -0,0 +1,84 @@
+/**
+ * Media Node Component
+ *
+ * This component represents a send-media node in the flow builder: an
+ * image, video, audio clip or document the chatbot sends to the user, such
+ * as a brochure, an invoice or a product photo.
+ *
+ * Features:
+ * - Visual representation with picture icon and pink theme
+ * - Connection handles for incoming (left) and outgoing (right) edges
+ * - Thumbnail of images and videos, or an icon card with the file name
+ * - Caption preview with formatting and links
+ * - Consistent styling with other node types
+ *
+ * The component is memoized for performance optimization.
+ */
+
+import { memo } from 'react';
+import { Handle, Position, type NodeProps } from '@xyflow/react';
+import type { MediaNode as MediaNodeType } from '../../../types/flow';
+import { getMediaKindInfo } from '../../../utils/media';
+import MediaPreview from '../Media/MediaPreview';
+import RichText from '../RichText/RichText';
+
+/**
+ * Media Node Component
+ *
+ * Renders a media node with connection handles, a media preview and the caption.
+ *
+ * @param data - Node data containing the media and its caption
+ * @param isConnectable - Whether the node can be connected to other nodes
+ */
+const MediaNode = ({ data, isConnectable }: NodeProps<MediaNodeType>) => {
+    const { mediaType, caption } = data;
+    const info = getMediaKindInfo(mediaType);
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg border-2 border-pink-300 p-3 w-64">
+            {/* Target Handle - Left side for incoming connections */}
+            <Handle
+                type="target"
+                position={Position.Left}
+                id="left"
+                style={{ background: '#9CA3AF' }}
+                isConnectable={isConnectable}
+            />
+
+            <div className="text-sm text-gray-800">
+                {/* Node Header with the icon of the media kind */}
+                <div className="flex items-center mb-2">
+                    <div className="w-6 h-6 bg-pink-100 rounded-full flex items-center justify-center mr-2">
+                        <svg className="w-4 h-4 text-pink-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={info.iconPath} />
+                        </svg>
+                    </div>
+                    {/* Node type label with the media kind */}
+                    <div className="font-semibold text-pink-700">Send {info.label}</div>
+                </div>
+
+                {/* Media Preview */}
+                <MediaPreview data={data} />
+
+                {/* Caption */}
+                {caption && (
+                    <div className="mt-2 text-xs text-gray-700 whitespace-pre-wrap break-words">
+                        <RichText text={caption} />
+                    </div>
+                )}
+            </div>
+
+            {/* Source Handle - Right side for outgoing connections */}
+            <Handle
+                type="source"
+                position={Position.Right}
+                id="right"
+                style={{ background: '#3B82F6' }}
+                isConnectable={isConnectable}
+            />
+        </div>
+    );
+};
+
+// Export memoized component for performance optimization
+export default memo(MediaNode);
@@ -0,0 +1,361 @@
+/**
+ * Media Settings Panel Component
+ *
+ * This component provides the settings interface for media nodes when they
+ * are selected. It configures the media the chatbot sends and its caption.
+ *
+ * Features:
+ * - Media kind picker (image, video, audio or document)
+ * - Media linked by URL or attached from the computer; attached files are
+ *   checked against the kind's file types and the attachment size limit,
+ *   and taken back if browser storage has no room for them
+ * - File name shown to the user, filled in from attached files
+ * - Live preview of the media, and the problems that would block saving
+ * - Caption with variable autocompletion and formatting toolbar
+ * - Locale switcher for flows with several locales; other locales edit the
+ *   translations of the caption, while the media applies to all locales
+ * - Node deletion functionality
+ *
+ * The component automatically appears when a media node is selected.
+ */
+
+import React, { useCallback, useState } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useFlowLibrary } from '../../../hooks/useFlowLibrary';
+import { useNodeTranslation } from '../../../hooks/useLocale';
+import type { MediaKind } from '../../../types/flow';
+import {
+    checkAttachment,
+    findMediaProblems,
+    formatFileSize,
+    getMediaKindInfo,
+    MAX_ATTACHMENT_SIZE,
+    MEDIA_KINDS,
+    readFileAsDataUrl,
+} from '../../../utils/media';
+import TemplateTextarea from './TemplateTextarea';
+import LocaleSwitcher from '../Localization/LocaleSwitcher';
+import SourceText from '../Localization/SourceText';
+import MediaPreview from '../Media/MediaPreview';
+
+/**
+ * Media Settings Panel Component
+ *
+ * Renders a settings panel for editing media node properties.
+ *
+ * @returns JSX element representing the media settings panel or null if no media node is selected
+ */
+const MediaSettingsPanel: React.FC = () => {
+    // Get flow state and actions from Zustand store
+    const { nodes, selectedNodeId, setNodes, updateNodeData, deleteElements } = useFlowStore();
+    const saveCurrent = useFlowLibrary((state) => state.saveCurrent);
+
+    // Feedback of the last attachment attempt
+    const [attachError, setAttachError] = useState<string | null>(null);
+
+    // Find the currently selected media node (hooks below must run
+    // unconditionally, so the early return happens right before rendering)
+    const selected = nodes.find((n) => n.id === selectedNodeId);
+    const node = selected?.type === 'media' ? selected : undefined;
+
+    // Locale being edited, and the node's translations into it
+    const { isDefault, localeName, translated, setTranslated } = useNodeTranslation(node);
+
+    /**
+     * Media Kind Change Handler
+     *
+     * @param mediaType - The kind of media the node sends
+     */
+    const onChangeKind = useCallback(
+        (mediaType: MediaKind) => {
+            if (!node) return;
+            updateNodeData(node.id, { mediaType });
+            setAttachError(null);
+        },
+        [node, updateNodeData]
+    );
+
+    /**
+     * Source Change Handler
+     *
+     * Switches between a linked URL and an attached file. The media of the
+     * other source is cleared, since it cannot be used by this one.
+     *
+     * @param source - Where the media comes from
+     */
+    const onChangeSource = useCallback(
+        (source: 'url' | 'file') => {
+            if (!node || node.data.source === source) return;
+            updateNodeData(node.id, { source, url: '', fileName: '', fileSize: undefined });
+            setAttachError(null);
+        },
+        [node, updateNodeData]
+    );
+
+    /**
+     * URL Change Handler
+     *
+     * @param e - The change event from the URL input
+     */
+    const onChangeUrl = useCallback(
+        (e: React.ChangeEvent<HTMLInputElement>) => {
+            if (!node) return;
+            // A typing burst in the URL is coalesced into one undo step
+            updateNodeData(node.id, { url: e.target.value }, { coalesceKey: `url:${node.id}` });
+        },
+        [node, updateNodeData]
+    );
+
+    /**
+     * File Name Change Handler
+     *
+     * @param e - The change event from the file name input
+     */
+    const onChangeFileName = useCallback(
+        (e: React.ChangeEvent<HTMLInputElement>) => {
+            if (!node) return;
+            updateNodeData(node.id, { fileName: e.target.value }, { coalesceKey: `fileName:${node.id}` });
+        },
+        [node, updateNodeData]
+    );
+
+    /**
+     * Attach File Handler
+     *
+     * Checks the picked file and stores it in the node as a data URL. The
+     * flow is saved right away; if browser storage has no room for the
+     * file, the node is left as it was and the undo history is untouched.
+     *
+     * @param e - The change event from the file input
+     */
+    const onAttachFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!node || !file) return;
+
+        const error = checkAttachment(file, node.data.mediaType);
+        if (error) {
+            setAttachError(error);
+            return;
+        }
+        let url: string;
+        try {
+            url = await readFileAsDataUrl(file);
+        } catch {
+            setAttachError(`"${file.name}" could not be read.`);
+            return;
+        }
+
+        // Only the file is to blame if the flow could be saved without it
+        if (!saveCurrent()) {
+            setAttachError(`"${file.name}" was not attached: the flow cannot be saved, browser storage is full.`);
+            return;
+        }
+
+        // Try the file without recording it, so a refused attachment leaves no undo or redo step
+        const before = useFlowStore.getState().nodes;
+        const patch = { url, fileName: file.name, fileSize: file.size };
+        const problems = updateNodeData(node.id, patch, { record: false });
+        if (problems.length > 0) {
+            setAttachError(`"${file.name}" could not be attached: ${problems[0]}`);
+            return;
+        }
+        const stored = saveCurrent();
+        setNodes(before, { record: false });
+        if (!stored) {
+            // Storage still holds the flow saved above; this clears the failed save
+            saveCurrent();
+            setAttachError(`"${file.name}" was not attached: browser storage is full. Link the file instead.`);
+            return;
+        }
+
+        // The file fits, so attach it again as its own undo step (autosave writes it)
+        updateNodeData(node.id, patch);
+        setAttachError(null);
+    };
+
+    /**
+     * Caption Change Handler
+     *
+     * @param caption - The new caption
+     */
+    const onChangeCaption = useCallback(
+        (caption: string) => {
+            if (!node) return;
+            // A typing burst in the same node is coalesced into one undo step
+            updateNodeData(node.id, { caption }, { coalesceKey: `caption:${node.id}` });
+        },
+        [node, updateNodeData]
+    );
+
+    /**
+     * Delete Node Handler
+     *
+     * Removes the selected node and its connections from the flow and
+     * clears the selection.
+     */
+    const onDeleteNode = useCallback(() => {
+        if (!node) return;
+        deleteElements([node.id]);
+    }, [node, deleteElements]);
+
+    // Don't render anything if no media node is selected
+    if (!node) return null;
+
+    const { mediaType, source, url, fileName } = node.data;
+    const info = getMediaKindInfo(mediaType);
+    const problems = findMediaProblems(node.data);
+
+    return (
+        <aside className="flex flex-col h-full w-80 bg-white border-l border-gray-200">
+            {/* Panel Header with Title and Delete Button */}
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                {/* Panel title */}
+                <h4 className="font-semibold text-gray-700">Media</h4>
+                {/* Delete button with red styling for destructive action */}
+                <button
+                    onClick={onDeleteNode}
+                    className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+                >
+                    Delete
+                </button>
+            </div>
+
+            {/* Form Content Area with Scroll */}
+            <div className="flex-1 p-4 overflow-y-auto">
+                {/* Locale being edited (only for flows with several locales) */}
+                <LocaleSwitcher node={node} className="mb-3" />
+
+                {/* Media Kind */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">Media Type</label>
+                    <div className="grid grid-cols-4 gap-1">
+                        {MEDIA_KINDS.map((kind) => (
+                            <button
+                                key={kind.kind}
+                                onClick={() => onChangeKind(kind.kind)}
+                                className={`flex flex-col items-center gap-0.5 py-1.5 rounded border text-[11px] ${
+                                    kind.kind === mediaType
+                                        ? 'border-pink-400 bg-pink-50 text-pink-700'
+                                        : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                                }`}
+                            >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={kind.iconPath} />
+                                </svg>
+                                {kind.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                        {info.extensions.join(', ')} · up to {info.maxSize} MB
+                    </div>
+                </div>
+
+                {/* Media Source */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">Source</label>
+                    <div className="flex gap-4 mb-2 text-xs text-gray-600">
+                        <label className="flex items-center">
+                            <input
+                                type="radio"
+                                className="mr-1"
+                                checked={source === 'url'}
+                                onChange={() => onChangeSource('url')}
+                            />
+                            Link
+                        </label>
+                        <label className="flex items-center">
+                            <input
+                                type="radio"
+                                className="mr-1"
+                                checked={source === 'file'}
+                                onChange={() => onChangeSource('file')}
+                            />
+                            Attach file
+                        </label>
+                    </div>
+                    {source === 'url' ? (
+                        <input
+                            type="url"
+                            className="w-full p-2 border rounded text-sm"
+                            value={url}
+                            onChange={onChangeUrl}
+                            placeholder="https://example.com/brochure.pdf"
+                        />
+                    ) : (
+                        <>
+                            <input
+                                type="file"
+                                className="w-full text-sm"
+                                accept={info.extensions.join(',')}
+                                onChange={onAttachFile}
+                            />
+                            <div className="text-xs text-gray-500 mt-1">
+                                Files up to {formatFileSize(MAX_ATTACHMENT_SIZE)} are stored in the flow; link larger files instead.
+                            </div>
+                        </>
+                    )}
+                    {attachError && <div className="text-xs text-red-600 mt-1">{attachError}</div>}
+                </div>
+
+                {/* File Name */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">File Name</label>
+                    <input
+                        type="text"
+                        className="w-full p-2 border rounded text-sm"
+                        value={fileName}
+                        onChange={onChangeFileName}
+                        placeholder={source === 'url' ? 'Taken from the link if empty' : 'e.g., brochure.pdf'}
+                    />
+                    {mediaType === 'document' && (
+                        <div className="text-xs text-gray-500 mt-1">Shown to the user with the document.</div>
+                    )}
+                </div>
+
+                {/* Media Preview and the problems blocking the save */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">Preview</label>
+                    <MediaPreview data={node.data} interactive />
+                    {problems.length > 0 && (
+                        <ul className="mt-1 space-y-0.5">
+                            {problems.map((problem) => (
+                                <li key={problem} className="text-xs text-red-600">
+                                    {problem}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Caption */}
+                <div className="mb-4">
+                    <label className="block text-xs text-gray-600 mb-1">Caption{!isDefault && ` (${localeName})`}</label>
+                    {isDefault ? (
+                        <TemplateTextarea
+                            rows={3}
+                            value={node.data.caption}
+                            onChange={onChangeCaption}
+                            placeholder="Optional text sent with the media..."
+                            formatting
+                        />
+                    ) : (
+                        <>
+                            <TemplateTextarea
+                                rows={3}
+                                value={translated.caption ?? ''}
+                                onChange={(caption) => setTranslated('caption', caption)}
+                                placeholder={`Enter the ${localeName} caption...`}
+                                formatting
+                            />
+                            <SourceText value={node.data.caption} />
+                        </>
+                    )}
+                </div>
+            </div>
+        </aside>
+    );
+};
+
+export default MediaSettingsPanel;
@@ -0,0 +1,140 @@
+/**
+ * Note Node Component
+ *
+ * This component represents a sticky note in the flow builder: a markdown
+ * annotation that documents the flow. Notes take no part in the
+ * conversation, so they have no connection handles.
+ *
+ * Features:
+ * - Markdown content (headings, lists, bold, italic, code and links),
+ *   rendered without injecting HTML
+ * - Background color chosen in the settings panel
+ * - Resize handles while the note is selected
+ *
+ * The component is memoized for performance optimization.
+ */
+
+import React, { memo, useMemo } from 'react';
+import { NodeResizer, type NodeProps } from '@xyflow/react';
+import type { NoteNode as NoteNodeType } from '../../../types/flow';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../../../utils/markdown';
+import { NOTE_COLOR_STYLES } from '../../../utils/noteColors';
+
+/** Smallest size (px) a note can be resized to */
+const MIN_NOTE_SIZE = { width: 160, height: 80 };
+
+/** Classes of the heading levels */
+const HEADING_CLASSES = ['text-base font-bold', 'text-sm font-bold', 'text-sm font-semibold'];
+
+/**
+ * Render Inline Helper
+ *
+ * @param runs - Runs of text of a block
+ * @returns The runs as React elements
+ */
+const renderInline = (runs: MarkdownInline[]): React.ReactNode =>
+    runs.map((run, index) => {
+        switch (run.kind) {
+            case 'text':
+                return <React.Fragment key={index}>{run.text}</React.Fragment>;
+            case 'code':
+                return (
+                    <code key={index} className="px-1 rounded bg-black/10 font-mono text-xs">
+                        {run.text}
+                    </code>
+                );
+            case 'bold':
+                return <strong key={index}>{renderInline(run.children)}</strong>;
+            case 'italic':
+                return <em key={index}>{renderInline(run.children)}</em>;
+            case 'link':
+                return (
+                    <a
+                        key={index}
+                        href={run.href}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="nodrag text-blue-700 underline"
+                    >
+                        {renderInline(run.children)}
+                    </a>
+                );
+        }
+    });
+
+/**
+ * Render Block Helper
+ *
+ * @param block - A block of the note
+ * @param index - Position of the block, used as its key
+ * @returns The block as a React element
+ */
+const renderBlock = (block: MarkdownBlock, index: number) => {
+    if (block.kind === 'heading') {
+        return (
+            <div key={index} className={HEADING_CLASSES[block.level - 1]}>
+                {renderInline(block.content)}
+            </div>
+        );
+    }
+    if (block.kind === 'list') {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+            <List key={index} className={`pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, i) => (
+                    <li key={i}>{renderInline(item)}</li>
+                ))}
+            </List>
+        );
+    }
+    return (
+        <p key={index} className="whitespace-pre-line">
+            {renderInline(block.content)}
+        </p>
+    );
+};
+
+/**
+ * Note Node Component
+ *
+ * Renders a sticky note with its markdown content.
+ *
+ * @param data - Node data containing the markdown text and color
+ * @param selected - Whether the note is selected
+ */
+const NoteNode = ({ data, selected }: NodeProps<NoteNodeType>) => {
+    const { text, color } = data;
+    const style = NOTE_COLOR_STYLES[color];
+
+    // Parse only when the text changes
+    const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+    return (
+        <>
+            <NodeResizer
+                isVisible={selected}
+                minWidth={MIN_NOTE_SIZE.width}
+                minHeight={MIN_NOTE_SIZE.height}
+                color={style.border}
+            />
+            <div
+                className="h-full overflow-hidden rounded shadow-md p-3 text-sm text-gray-800 space-y-1"
+                style={{
+                    background: style.background,
+                    borderTop: `4px solid ${style.border}`,
+                    minWidth: MIN_NOTE_SIZE.width,
+                    minHeight: MIN_NOTE_SIZE.height,
+                }}
+            >
+                {blocks.length > 0 ? (
+                    blocks.map(renderBlock)
+                ) : (
+                    <p className="italic text-gray-500">Empty note</p>
+                )}
+            </div>
+        </>
+    );
+};
+
+// Export memoized component for performance optimization
+export default memo(NoteNode);
@@ -0,0 +1,127 @@
+/**
+ * Note Settings Panel Component
+ *
+ * This component provides the settings interface for sticky notes when they
+ * are selected. It allows users to write the note in markdown and to pick
+ * its color.
+ *
+ * Features:
+ * - Markdown editing with auto-save
+ * - Color swatches
+ * - Note deletion
+ *
+ * The component automatically appears when a note is selected.
+ */
+
+import React, { useCallback } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import type { NoteColor } from '../../../types/flow';
+import { NOTE_COLOR_STYLES } from '../../../utils/noteColors';
+
+/**
+ * Note Settings Panel Component
+ *
+ * Renders a settings panel for editing note properties.
+ * This panel appears when a note is selected in the flow canvas.
+ *
+ * @returns JSX element representing the settings panel or null if no note is selected
+ */
+const NoteSettingsPanel: React.FC = () => {
+    // Get flow state and actions from Zustand store
+    const { nodes, selectedNodeId, updateNodeData, deleteElements } = useFlowStore();
+
+    // Find the currently selected note
+    const selected = nodes.find((n) => n.id === selectedNodeId);
+    const node = selected?.type === 'note' ? selected : undefined;
+
+    /**
+     * Text Change Handler
+     *
+     * @param text - The new markdown text of the note
+     */
+    const onChangeText = useCallback(
+        (text: string) => {
+            if (!node) return;
+
+            // A typing burst in the same note is coalesced into one undo step
+            updateNodeData(node.id, { text }, { coalesceKey: `text:${node.id}` });
+        },
+        [node, updateNodeData]
+    );
+
+    /**
+     * Delete Node Handler
+     *
+     * Removes the note from the flow and clears the selection.
+     */
+    const onDeleteNode = useCallback(() => {
+        if (!node) return;
+        deleteElements([node.id]);
+    }, [node, deleteElements]);
+
+    // Don't render anything if no note is selected
+    if (!node) return null;
+
+    return (
+        <aside className="flex flex-col h-full w-80 bg-white border-l border-gray-200">
+            {/* Panel Header with Title and Delete Button */}
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                {/* Panel title */}
+                <h4 className="font-semibold text-gray-700">Note</h4>
+                {/* Delete button with red styling for destructive action */}
+                <button
+                    onClick={onDeleteNode}
+                    className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+                >
+                    Delete
+                </button>
+            </div>
+
+            {/* Form Content Area with Scroll */}
+            <div className="flex-1 p-4 overflow-y-auto space-y-4">
+                <div>
+                    <label className="block text-xs text-gray-600 mb-1">Content</label>
+                    <textarea
+                        className="w-full p-2 border rounded text-sm font-mono"
+                        rows={10}
+                        value={node.data.text}
+                        onChange={(e) => onChangeText(e.target.value)}
+                        placeholder="Write a note…"
+                    />
+                    <div className="text-xs text-gray-500 mt-1">
+                        Markdown: # headings, - lists, **bold**, *italic*, `code` and [links](https://…)
+                    </div>
+                </div>
+
+                {/* Color swatches */}
+                <div>
+                    <label className="block text-xs text-gray-600 mb-1">Color</label>
+                    <div className="flex gap-2">
+                        {(Object.keys(NOTE_COLOR_STYLES) as NoteColor[]).map((color) => (
+                            <button
+                                key={color}
+                                onClick={() => updateNodeData(node.id, { color })}
+                                title={NOTE_COLOR_STYLES[color].label}
+                                aria-pressed={node.data.color === color}
+                                className={`w-7 h-7 rounded-full border-2 ${
+                                    node.data.color === color ? 'ring-2 ring-offset-1 ring-gray-400' : ''
+                                }`}
+                                style={{
+                                    background: NOTE_COLOR_STYLES[color].background,
+                                    borderColor: NOTE_COLOR_STYLES[color].border,
+                                }}
+                            />
+                        ))}
+                    </div>
+                </div>
+
+                <div className="text-xs text-gray-500">
+                    Notes document the flow for its editors. They are not part of the conversation, are skipped by
+                    validation and are left out when the flow runs.
+                </div>
+            </div>
+        </aside>
+    );
+};
+
+export default NoteSettingsPanel;
@@ -7,6 +7,12 @@
  * 
  * Features:
  * - Real-time text editing with auto-save
+ * - `{{variable}}` placeholders with variable name autocompletion
+ * - Formatting toolbar and emoji picker for WhatsApp-style formatting
+ * - Option to show a preview of the message's first link
+ * - Live character counter against the text limit of the targeted channels
+ * - Locale switcher for flows with several locales; other locales edit the
+ *   node's translations, next to the text in the default locale
  * - Node deletion functionality
  * - Clean, intuitive interface
  * - Responsive design that adapts to the selected node
@@ -17,7 +23,12 @@
 
 import React, { useCallback } from 'react';
 import { useFlowStore } from '../../../hooks/useFlowState';
-import type { AppNode } from '../../../types/flow';
+import { useNodeTranslation } from '../../../hooks/useLocale';
+import { getChannelLimit } from '../../../utils/channels';
+import TemplateTextarea from './TemplateTextarea';
+import LocaleSwitcher from '../Localization/LocaleSwitcher';
+import SourceText from '../Localization/SourceText';
+import CharacterCounter from '../Channels/CharacterCounter';
 
 /**
  * Settings Panel Component
@@ -29,10 +40,14 @@ import type { AppNode } from '../../../types/flow';
  */
 const SettingsPanel: React.FC = () => {
     // Get flow state and actions from Zustand store
-    const { nodes, selectedNodeId, setNodes, setSelectedNodeId } = useFlowStore();
+    const { nodes, selectedNodeId, channels, updateNodeData, deleteElements } = useFlowStore();
 
-    // Find the currently selected node
-    const node = nodes.find((n) => n.id === selectedNodeId) as AppNode | undefined;
+    // Find the currently selected text node
+    const selected = nodes.find((n) => n.id === selectedNodeId);
+    const node = selected?.type === 'text' ? selected : undefined;
+
+    // Locale being edited, and the node's translations into it
+    const { isDefault, localeName, translated, setTranslated } = useNodeTranslation(node);
 
     /**
      * Text Change Handler
@@ -40,42 +55,49 @@ const SettingsPanel: React.FC = () => {
      * Updates the text content of the selected node in real-time.
      * This provides immediate feedback as the user types.
      * 
-     * @param e - The change event from the textarea
+     * @param text - The new message text
      */
     const onChangeText = useCallback(
-        (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        (text: string) => {
             if (!node) return;
 
-            // Update the node's text data while preserving other properties
-            const newNodes = nodes.map((n) =>
-                n.id === node.id
-                    ? { ...n, data: { ...(n.data as any), text: e.target.value } }
-                    : n
-            );
-            setNodes(newNodes);
+            // A typing burst in the same node is coalesced into one undo step
+            updateNodeData(node.id, { text }, { coalesceKey: `text:${node.id}` });
+        },
+        [node, updateNodeData]
+    );
+
+    /**
+     * Link Preview Change Handler
+     *
+     * @param e - The change event from the link preview checkbox
+     */
+    const onChangeLinkPreview = useCallback(
+        (e: React.ChangeEvent<HTMLInputElement>) => {
+            if (!node) return;
+            updateNodeData(node.id, { linkPreview: e.target.checked });
         },
-        [node, nodes, setNodes]
+        [node, updateNodeData]
     );
 
     /**
      * Delete Node Handler
      * 
-     * Removes the selected node from the flow and clears the selection.
-     * This provides a way to delete nodes that are no longer needed.
+     * Removes the selected node and its connections from the flow and
+     * clears the selection. This provides a way to delete nodes that are
+     * no longer needed.
      */
     const onDeleteNode = useCallback(() => {
         if (!node) return;
-
-        // Filter out the selected node from the nodes array
-        const newNodes = nodes.filter((n) => n.id !== node.id);
-        setNodes(newNodes);
-        // Clear the selection since the node no longer exists
-        setSelectedNodeId(null);
-    }, [node, nodes, setNodes, setSelectedNodeId]);
+        deleteElements([node.id]);
+    }, [node, deleteElements]);
 
     // Don't render anything if no node is selected
     if (!node) return null;
 
+    // Strictest text limit of the channels the flow targets
+    const textLimit = getChannelLimit(channels, 'maxTextLength');
+
     return (
         <aside className="flex flex-col h-full w-80 bg-white border-l border-gray-200">
             {/* Panel Header with Title and Delete Button */}
@@ -93,16 +115,46 @@ const SettingsPanel: React.FC = () => {
 
             {/* Form Content Area */}
             <div className="flex-1 p-4">
+                {/* Locale being edited (only for flows with several locales) */}
+                <LocaleSwitcher node={node} className="mb-3" />
                 {/* Text input label */}
-                <label className="block text-xs text-gray-600 mb-1">Text</label>
-                {/* Textarea for editing node text */}
-                <textarea
-                    className="w-full p-2 border rounded text-sm resize-none"
-                    rows={4}
-                    value={(node.data as any).text || ''}
-                    onChange={onChangeText}
-                    placeholder="Enter node text..."
-                />
+                <label className="block text-xs text-gray-600 mb-1">Text{!isDefault && ` (${localeName})`}</label>
+                {/* Textarea for editing node text, with variable autocompletion */}
+                {isDefault ? (
+                    <>
+                        <TemplateTextarea
+                            rows={4}
+                            value={node.data.text}
+                            onChange={onChangeText}
+                            placeholder="Enter node text..."
+                            formatting
+                        />
+                        <CharacterCounter value={node.data.text} limit={textLimit} />
+                    </>
+                ) : (
+                    <>
+                        <TemplateTextarea
+                            rows={4}
+                            value={translated.text ?? ''}
+                            onChange={(text) => setTranslated('text', text)}
+                            placeholder={`Enter the ${localeName} text...`}
+                            formatting
+                        />
+                        <CharacterCounter value={translated.text ?? ''} limit={textLimit} />
+                        <SourceText value={node.data.text} />
+                    </>
+                )}
+
+                {/* Link preview, shown under the message when it contains a link */}
+                <label className="flex items-center text-xs text-gray-600 mt-4">
+                    <input
+                        type="checkbox"
+                        className="mr-2"
+                        checked={node.data.linkPreview ?? false}
+                        onChange={onChangeLinkPreview}
+                    />
+                    Show link preview
+                </label>
             </div>
         </aside>
     );
@@ -0,0 +1,107 @@
+/**
+ * Subflow Node Component
+ *
+ * This component represents a call subflow node in the flow builder. It runs
+ * another flow of the library, then continues from the exit the subflow
+ * ended at.
+ *
+ * Features:
+ * - Visual representation with arrows icon and teal theme
+ * - Target handle (left) for incoming connections
+ * - One source handle (right) per exit of the subflow
+ * - Name of the called subflow, kept up to date when it is edited
+ *
+ * The component is memoized for performance optimization.
+ */
+
+import { memo, useEffect } from 'react';
+import { Handle, Position, useUpdateNodeInternals, type NodeProps } from '@xyflow/react';
+import { useFlowLibrary } from '../../../hooks/useFlowLibrary';
+import type { SubflowNode as SubflowNodeType } from '../../../types/flow';
+import { SUBFLOW_ENTRY_HANDLE, getSubflowInterface } from '../../../utils/subflows';
+
+/**
+ * Subflow Node Component
+ *
+ * Renders a call subflow node with a source handle next to every exit.
+ *
+ * @param id - ID of the node
+ * @param data - Node data containing the ID of the called flow
+ * @param isConnectable - Whether the node can be connected to other nodes
+ */
+const SubflowNode = ({ id, data, isConnectable }: NodeProps<SubflowNodeType>) => {
+    // Re-render whenever the library changes, since the subflow may have been edited
+    useFlowLibrary((state) => state.flows);
+    const called = data.subflowId ? getSubflowInterface(data.subflowId) : null;
+    const exits = called?.exits ?? [];
+
+    // React Flow caches handle positions; re-measure them when exits change
+    const updateNodeInternals = useUpdateNodeInternals();
+    const handleIds = exits.map((e) => e.id).join(',');
+    useEffect(() => {
+        updateNodeInternals(id);
+    }, [id, handleIds, updateNodeInternals]);
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg border-2 border-teal-300 p-3 w-64">
+            {/* Target Handle - Left side for incoming connections */}
+            <Handle
+                type="target"
+                position={Position.Left}
+                id={SUBFLOW_ENTRY_HANDLE}
+                style={{ background: '#9CA3AF' }}
+                isConnectable={isConnectable}
+            />
+
+            <div className="text-sm text-gray-800">
+                {/* Node Header with Icon and Title */}
+                <div className="flex items-center mb-2">
+                    {/* Arrows icon in teal circle */}
+                    <div className="w-6 h-6 bg-teal-100 rounded-full flex items-center justify-center mr-2">
+                        <svg className="w-4 h-4 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                        </svg>
+                    </div>
+                    {/* Node type label */}
+                    <div className="font-semibold text-teal-700">Call Subflow</div>
+                </div>
+
+                {/* Called flow */}
+                <div className="p-2 bg-gray-50 rounded border border-gray-200">
+                    <div className="text-xs text-gray-700 truncate">
+                        {!data.subflowId ? 'No subflow selected' : called ? called.flow.name : 'Subflow not found'}
+                    </div>
+                </div>
+
+                {/* Exits, each with its own source handle */}
+                {called && (
+                    <div className="mt-2 space-y-1">
+                        {exits.length === 0 && (
+                            <div className="text-xs text-gray-500 italic">The subflow never ends here</div>
+                        )}
+                        {exits.map((exit) => (
+                            <div
+                                key={exit.id}
+                                className="relative text-xs text-teal-700 bg-teal-50 border border-teal-200 rounded px-2 py-1 truncate"
+                                title={exit.label}
+                            >
+                                {exit.label}
+                                {/* Source Handle - Right side, one per exit */}
+                                <Handle
+                                    type="source"
+                                    position={Position.Right}
+                                    id={exit.id}
+                                    style={{ background: '#14B8A6', right: -14 }}
+                                    isConnectable={isConnectable}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// Export memoized component for performance optimization
+export default memo(SubflowNode);
@@ -0,0 +1,135 @@
+/**
+ * Subflow Settings Panel Component
+ *
+ * This component provides the settings interface for call subflow nodes
+ * when they are selected. It allows users to pick the flow to call and to
+ * open it for editing.
+ *
+ * Features:
+ * - Choice of any other flow of the library
+ * - Entry and exits of the called flow
+ * - Opening the called flow
+ * - Node deletion functionality
+ *
+ * The component automatically appears when a call subflow node is selected.
+ */
+
+import React, { useCallback } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useFlowLibrary } from '../../../hooks/useFlowLibrary';
+import { getNodeType } from '../../../utils/nodeRegistry';
+import { getSubflowInterface } from '../../../utils/subflows';
+
+/**
+ * Subflow Settings Panel Component
+ *
+ * Renders a settings panel for editing call subflow node properties.
+ * This panel appears when a call subflow node is selected in the flow canvas.
+ *
+ * @returns JSX element representing the settings panel or null if no call subflow node is selected
+ */
+const SubflowSettingsPanel: React.FC = () => {
+    // Get flow state and actions from Zustand store
+    const { flowId, nodes, selectedNodeId, updateNodeData, deleteElements } = useFlowStore();
+    const { flows, openFlow } = useFlowLibrary();
+
+    // Find the currently selected call subflow node
+    const selected = nodes.find((n) => n.id === selectedNodeId);
+    const node = selected?.type === 'subflow' ? selected : undefined;
+    const called = node?.data.subflowId ? getSubflowInterface(node.data.subflowId) : null;
+    const entry = called?.flow.nodes.find((n) => n.id === called.entryId);
+
+    /**
+     * Delete Node Handler
+     *
+     * Removes the selected node and its connections from the flow and
+     * clears the selection.
+     */
+    const onDeleteNode = useCallback(() => {
+        if (!node) return;
+        deleteElements([node.id]);
+    }, [node, deleteElements]);
+
+    // Don't render anything if no call subflow node is selected
+    if (!node) return null;
+
+    return (
+        <aside className="flex flex-col h-full w-80 bg-white border-l border-gray-200">
+            {/* Panel Header with Title and Delete Button */}
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                {/* Panel title */}
+                <h4 className="font-semibold text-gray-700">Call Subflow</h4>
+                {/* Delete button with red styling for destructive action */}
+                <button
+                    onClick={onDeleteNode}
+                    className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+                >
+                    Delete
+                </button>
+            </div>
+
+            {/* Form Content Area with Scroll */}
+            <div className="flex-1 p-4 overflow-y-auto space-y-4">
+                <div>
+                    <label className="block text-xs text-gray-600 mb-1">Subflow</label>
+                    <select
+                        className="w-full p-2 border rounded text-sm"
+                        value={node.data.subflowId}
+                        onChange={(e) => updateNodeData(node.id, { subflowId: e.target.value })}
+                    >
+                        <option value="">Choose a flow…</option>
+                        {flows
+                            .filter((f) => f.id !== flowId)
+                            .map((f) => (
+                                <option key={f.id} value={f.id}>
+                                    {f.name}
+                                </option>
+                            ))}
+                        {node.data.subflowId && !called && <option value={node.data.subflowId}>Missing flow</option>}
+                    </select>
+                </div>
+
+                {called && (
+                    <>
+                        <button
+                            onClick={() => openFlow(called.flow.id)}
+                            className="w-full px-3 py-2 bg-teal-500 text-white rounded text-sm hover:bg-teal-600"
+                        >
+                            Open subflow
+                        </button>
+
+                        {/* Interface of the called flow */}
+                        <div className="text-sm">
+                            <div className="text-xs text-gray-600 mb-1">Starts at</div>
+                            <div className="text-gray-800">
+                                {entry ? getNodeType(entry.type)?.palette.label ?? entry.type : 'The subflow is empty'}
+                            </div>
+                        </div>
+                        <div className="text-sm">
+                            <div className="text-xs text-gray-600 mb-1">Exits</div>
+                            {called.exits.length === 0 ? (
+                                <div className="text-gray-500 italic">None</div>
+                            ) : (
+                                <ul className="space-y-1">
+                                    {called.exits.map((exit) => (
+                                        <li key={exit.id} className="text-xs text-gray-700 break-words">
+                                            {exit.label}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    </>
+                )}
+
+                {/* Connection hint */}
+                <div className="text-xs text-gray-500">
+                    Every connection point the subflow leaves unconnected becomes an exit of this node, so you
+                    decide here where the conversation continues.
+                </div>
+            </div>
+        </aside>
+    );
+};
+
+export default SubflowSettingsPanel;
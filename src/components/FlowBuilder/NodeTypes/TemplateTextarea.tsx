@@ -0,0 +1,227 @@
+/**
+ * Template Textarea Component
+ *
+ * This component is the message textarea used by the settings panels of
+ * nodes that send text. It supports `{{variable}}` placeholders and offers
+ * autocompletion of variable names while a placeholder is being typed.
+ *
+ * Features:
+ * - Suggestions appear after typing `{{` and narrow down as the name is typed
+ * - Arrow keys move through suggestions, Enter or Tab inserts, Escape closes
+ * - Suggestions include system variables and the flow's declared variables
+ * - Hint listing the variables that can be used
+ * - Optional formatting toolbar and emoji picker for WhatsApp-style
+ *   formatting, with Ctrl/Cmd+B and Ctrl/Cmd+I shortcuts
+ */
+
+import React, { useRef, useState } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { getOpenPlaceholder } from '../../../utils/templating';
+import { SYSTEM_VARIABLES, type VariableDefinition } from '../../../utils/variables';
+import { insertText, toggleFormat, type TextEdit, type TextFormat } from '../../../utils/richText';
+import FormattingToolbar from '../RichText/FormattingToolbar';
+
+/** Keys that toggle a style together with Ctrl (Cmd on macOS) */
+const FORMAT_SHORTCUTS: Record<string, TextFormat> = { b: 'bold', i: 'italic' };
+
+/**
+ * Template Textarea Props Interface
+ *
+ * @property value - Current message text
+ * @property onChange - Called with the new message text
+ * @property rows - Visible number of text lines
+ * @property placeholder - Placeholder shown while the message is empty
+ * @property formatting - Whether to show the formatting toolbar
+ */
+interface TemplateTextareaProps {
+    value: string;
+    onChange: (value: string) => void;
+    rows?: number;
+    placeholder?: string;
+    formatting?: boolean;
+}
+
+/**
+ * Template Textarea Component
+ *
+ * Renders a textarea with variable name autocompletion.
+ *
+ * @returns JSX element representing the textarea and its suggestion list
+ */
+const TemplateTextarea: React.FC<TemplateTextareaProps> = ({ value, onChange, rows = 4, placeholder, formatting = false }) => {
+    // Declared variables come from the open flow's registry
+    const variables = useFlowStore((state) => state.variables);
+
+    // The placeholder being typed at the caret and the highlighted suggestion
+    const [open, setOpen] = useState<{ start: number; partial: string } | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+
+    // Reference to the textarea for reading and moving the caret
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    // Variables matching what has been typed so far
+    const available: VariableDefinition[] = [...SYSTEM_VARIABLES, ...variables];
+    const suggestions = open
+        ? available.filter((v) => v.name.toLowerCase().startsWith(open.partial.toLowerCase()))
+        : [];
+
+    /**
+     * Update Suggestions Helper
+     *
+     * Re-checks whether the caret is inside an unfinished placeholder.
+     *
+     * @param text - Current message text
+     * @param caret - Caret position in the text
+     */
+    const updateSuggestions = (text: string, caret: number) => {
+        setOpen(getOpenPlaceholder(text, caret));
+        setActiveIndex(0);
+    };
+
+    /**
+     * Insert Variable Helper
+     *
+     * Replaces the unfinished placeholder with the complete one and moves
+     * the caret behind it.
+     *
+     * @param name - Name of the variable to insert
+     */
+    const insertVariable = (name: string) => {
+        const textarea = textareaRef.current;
+        if (!open || !textarea) return;
+
+        const placeholderText = `{{${name}}}`;
+        const caret = open.start + placeholderText.length;
+        onChange(value.slice(0, open.start) + placeholderText + value.slice(textarea.selectionStart));
+        setOpen(null);
+
+        // Move the caret once React has rendered the new value
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(caret, caret);
+        });
+    };
+
+    /**
+     * Apply Edit Helper
+     *
+     * Applies an edit of the formatting toolbar at the current selection and
+     * restores the selection it returns.
+     *
+     * @param edit - Computes the edit from the text and the selection
+     */
+    const applyEdit = (edit: (text: string, start: number, end: number) => TextEdit) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+
+        const { text, selectionStart, selectionEnd } = edit(value, textarea.selectionStart, textarea.selectionEnd);
+        onChange(text);
+        setOpen(null);
+
+        // Restore the selection once React has rendered the new value
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(selectionStart, selectionEnd);
+        });
+    };
+
+    /**
+     * Format Helper
+     *
+     * @param format - The style to toggle on the selection
+     */
+    const applyFormat = (format: TextFormat) => applyEdit((text, start, end) => toggleFormat(text, start, end, format));
+
+    /**
+     * Key Down Handler
+     *
+     * Applies the formatting shortcuts, and navigates and picks suggestions
+     * while the list is open.
+     *
+     * @param e - The keyboard event from the textarea
+     */
+    const onKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (formatting && (e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey) {
+            const format = FORMAT_SHORTCUTS[e.key.toLowerCase()];
+            if (format) {
+                e.preventDefault();
+                applyFormat(format);
+                return;
+            }
+        }
+        if (suggestions.length === 0) return;
+
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex((i) => (i + step + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            insertVariable(suggestions[activeIndex]?.name ?? suggestions[0].name);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            setOpen(null);
+        }
+    };
+
+    return (
+        <div className="relative">
+            {/* Formatting Toolbar */}
+            {formatting && (
+                <FormattingToolbar
+                    onFormat={applyFormat}
+                    onInsert={(emoji) => applyEdit((text, start, end) => insertText(text, start, end, emoji))}
+                />
+            )}
+
+            <textarea
+                ref={textareaRef}
+                className="w-full p-2 border rounded text-sm resize-none"
+                rows={rows}
+                value={value}
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    updateSuggestions(e.target.value, e.target.selectionStart);
+                }}
+                onKeyDown={onKeyDown}
+                onClick={(e) => updateSuggestions(value, e.currentTarget.selectionStart)}
+                onBlur={() => setOpen(null)}
+                placeholder={placeholder}
+            />
+
+            {/* Variable Suggestions */}
+            {suggestions.length > 0 && (
+                <ul className="absolute z-10 left-0 right-0 mt-1 max-h-40 overflow-y-auto bg-white border border-gray-200 rounded shadow-lg text-xs">
+                    {suggestions.map((v, index) => (
+                        <li
+                            key={v.name}
+                            // Prevent the textarea from losing focus before the click registers
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                insertVariable(v.name);
+                            }}
+                            className={`px-2 py-1 cursor-pointer ${index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                        >
+                            <span className="font-mono text-blue-700">{v.name}</span>
+                            {v.description && <span className="text-gray-500"> — {v.description}</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {/* Placeholder hint */}
+            <div className="text-xs text-gray-500 mt-1">
+                Type <span className="font-mono">{'{{'}</span> to insert a variable.
+                {formatting && (
+                    <>
+                        {' '}
+                        Format with <span className="font-mono">*bold*</span>, <span className="font-mono">_italic_</span>,{' '}
+                        <span className="font-mono">~strike~</span> and <span className="font-mono">```mono```</span>.
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TemplateTextarea;
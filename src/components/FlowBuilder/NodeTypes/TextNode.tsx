@@ -7,15 +7,23 @@
  * Features:
  * - Visual representation with chat bubble icon and blue theme
  * - Connection handles for incoming (left) and outgoing (right) edges
- * - Message preview display
+ * - Message preview display with `{{placeholders}}` highlighted
+ *   (unknown variables are marked in red)
+ * - WhatsApp-style formatting and links rendered as the chat apps show them
+ * - Link preview placeholder when the node has link previews turned on
  * - Consistent styling with other node types
  * 
  * The component is memoized for performance optimization.
  */
 
-import { memo } from 'react';
+import { memo, useMemo } from 'react';
 import { Handle, Position, type NodeProps } from '@xyflow/react';
-import type { AppNode } from '../../../types/flow';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import type { TextNode as TextNodeType } from '../../../types/flow';
+import { findLinks } from '../../../utils/richText';
+import { getKnownVariableNames } from '../../../utils/variables';
+import RichText from '../RichText/RichText';
+import LinkPreviewCard from '../RichText/LinkPreviewCard';
 
 /**
  * Text Node Component
@@ -25,10 +33,16 @@ import type { AppNode } from '../../../types/flow';
  * @param data - Node data containing the text message
  * @param isConnectable - Whether the node can be connected to other nodes
  */
-const TextNode = ({ data, isConnectable }: NodeProps<AppNode>) => {
-    // Extract text from node data with type casting for safety
-    // We cast to the specific type since we know this is a text node
-    const { text } = data as { text: string; type: 'text' };
+const TextNode = ({ data, isConnectable }: NodeProps<TextNodeType>) => {
+    // Extract text from node data
+    const { text, linkPreview } = data;
+
+    // Placeholders are highlighted against the flow's declared variables
+    const variables = useFlowStore((state) => state.variables);
+    const known = useMemo(() => new Set(getKnownVariableNames(variables)), [variables]);
+
+    // The link previewed under the message, if link previews are turned on
+    const previewUrl = linkPreview ? findLinks(text)[0] : undefined;
 
     return (
         <div className="bg-white rounded-lg shadow-lg border-2 border-blue-300 p-3 w-64">
@@ -63,10 +77,27 @@ const TextNode = ({ data, isConnectable }: NodeProps<AppNode>) => {
 
                 {/* Message Preview Box */}
                 <div className="mt-2 p-2 bg-gray-50 rounded border border-gray-200">
-                    <div className="text-xs text-gray-700">
+                    <div className="text-xs text-gray-700 whitespace-pre-wrap break-words">
                         {/* Display the actual message text or placeholder */}
-                        {text || 'Empty message'}
+                        {text ? (
+                            <RichText
+                                text={text}
+                                renderPlaceholder={(name, placeholder) => (
+                                    <span
+                                        className={`font-mono rounded px-0.5 ${
+                                            known.has(name) ? 'bg-blue-100 text-blue-700' : 'bg-red-100 text-red-700'
+                                        }`}
+                                        title={known.has(name) ? undefined : 'Undefined variable'}
+                                    >
+                                        {placeholder}
+                                    </span>
+                                )}
+                            />
+                        ) : (
+                            'Empty message'
+                        )}
                     </div>
+                    {previewUrl && <LinkPreviewCard url={previewUrl} />}
                 </div>
             </div>
 
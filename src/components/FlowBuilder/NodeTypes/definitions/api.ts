@@ -0,0 +1,40 @@
+/**
+ * API Node Type Definition
+ *
+ * Registers the API node: calls an HTTP endpoint, stores parts of the
+ * response in flow variables, and continues on a success or an error handle.
+ */
+
+import type { NodeTypeDefinition } from '../../../../utils/nodeRegistry';
+import { API_ERROR_HANDLE_ID, API_SUCCESS_HANDLE_ID } from '../../../../utils/apiRequest';
+import { apiNodeDataSchema } from '../../../../types/schemas';
+import ApiNode from '../ApiNode';
+import ApiSettingsPanel from '../ApiSettingsPanel';
+
+export const apiNodeType: NodeTypeDefinition<'api'> = {
+    type: 'api',
+    component: ApiNode,
+    SettingsPanel: ApiSettingsPanel,
+    palette: {
+        label: 'API Request',
+        category: 'Logic',
+        iconPath: 'M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4',
+        iconClassName: 'bg-indigo-100 text-indigo-600',
+        color: '#6366F1',
+    },
+    targetHandles: ['left'],
+    schema: apiNodeDataSchema,
+    createData: () => ({
+        method: 'GET',
+        url: '',
+        headers: [],
+        body: '',
+        timeout: 10,
+        mappings: [],
+        mock: { status: 200, body: '{\n  "status": "shipped"\n}', delay: 300 },
+        type: 'api',
+    }),
+    sourceHandles: () => [API_SUCCESS_HANDLE_ID, API_ERROR_HANDLE_ID],
+    sourceHandleLabel: (_data, handle) =>
+        handle === API_SUCCESS_HANDLE_ID ? 'Success' : handle === API_ERROR_HANDLE_ID ? 'Error' : undefined,
+};
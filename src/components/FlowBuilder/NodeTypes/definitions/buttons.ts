@@ -0,0 +1,48 @@
+/**
+ * Quick Replies Node Type Definition
+ *
+ * Registers the quick-reply buttons node: a message with buttons, where
+ * every button has its own source handle so the flow can branch on the
+ * user's choice.
+ */
+
+import { nanoid } from 'nanoid';
+import type { NodeTypeDefinition } from '../../../../utils/nodeRegistry';
+import { buttonsNodeDataSchema } from '../../../../types/schemas';
+import ButtonsNode from '../ButtonsNode';
+import ButtonsSettingsPanel from '../ButtonsSettingsPanel';
+
+export const buttonsNodeType: NodeTypeDefinition<'buttons'> = {
+    type: 'buttons',
+    component: ButtonsNode,
+    SettingsPanel: ButtonsSettingsPanel,
+    palette: {
+        label: 'Quick Replies',
+        category: 'Messages',
+        iconPath: 'M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122',
+        iconClassName: 'bg-purple-100 text-purple-600',
+        color: '#8B5CF6',
+    },
+    targetHandles: ['left'],
+    schema: buttonsNodeDataSchema,
+    createData: () => ({
+        text: 'Choose an option',
+        buttons: [
+            { id: `btn-${nanoid(6)}`, label: 'Yes' },
+            { id: `btn-${nanoid(6)}`, label: 'No' },
+        ],
+        maxButtons: 3,
+        type: 'buttons',
+    }),
+    sourceHandles: (data) => data.buttons.map((b) => b.id),
+    sourceHandleLabel: (data, handle) => data.buttons.find((b) => b.id === handle)?.label,
+    localizedStrings: (data) => [
+        { key: 'text', label: 'Message', value: data.text },
+        ...data.buttons.map((b, i) => ({ key: `button:${b.id}`, label: `Button ${i + 1}`, value: b.label })),
+    ],
+    applyLocalizedStrings: (data, values) => ({
+        ...data,
+        text: values.text ?? data.text,
+        buttons: data.buttons.map((b) => ({ ...b, label: values[`button:${b.id}`] ?? b.label })),
+    }),
+};
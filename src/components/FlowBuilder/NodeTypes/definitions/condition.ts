@@ -0,0 +1,44 @@
+/**
+ * Condition Node Type Definition
+ *
+ * Registers the condition node: routes the conversation on conversation
+ * variables, with one source handle per rule group plus an "else" handle.
+ */
+
+import { nanoid } from 'nanoid';
+import type { NodeTypeDefinition } from '../../../../utils/nodeRegistry';
+import { ELSE_HANDLE_ID, summarizeGroup } from '../../../../utils/conditions';
+import { conditionNodeDataSchema } from '../../../../types/schemas';
+import ConditionNode from '../ConditionNode';
+import ConditionSettingsPanel from '../ConditionSettingsPanel';
+
+export const conditionNodeType: NodeTypeDefinition<'condition'> = {
+    type: 'condition',
+    component: ConditionNode,
+    SettingsPanel: ConditionSettingsPanel,
+    palette: {
+        label: 'Condition',
+        category: 'Logic',
+        iconPath: 'M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z',
+        iconClassName: 'bg-orange-100 text-orange-600',
+        color: '#F97316',
+    },
+    targetHandles: ['left'],
+    schema: conditionNodeDataSchema,
+    createData: () => ({
+        groups: [
+            {
+                id: `group-${nanoid(6)}`,
+                combinator: 'and',
+                rules: [{ id: `rule-${nanoid(6)}`, variable: 'selected_button', operator: 'equals', value: '' }],
+            },
+        ],
+        type: 'condition',
+    }),
+    sourceHandles: (data) => [...data.groups.map((g) => g.id), ELSE_HANDLE_ID],
+    sourceHandleLabel: (data, handle) => {
+        if (handle === ELSE_HANDLE_ID) return 'Else';
+        const group = data.groups.find((g) => g.id === handle);
+        return group && `If ${summarizeGroup(group)}`;
+    },
+};
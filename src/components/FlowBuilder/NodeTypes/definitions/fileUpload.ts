@@ -0,0 +1,36 @@
+/**
+ * File Upload Node Type Definition
+ *
+ * Registers the file upload node: asks the user for one or more files that
+ * match the node's allowed types and size limit.
+ */
+
+import type { NodeTypeDefinition } from '../../../../utils/nodeRegistry';
+import { fileUploadNodeDataSchema } from '../../../../types/schemas';
+import FileUploadNode from '../FileUploadNode';
+import FileUploadSettingsPanel from '../FileUploadSettingsPanel';
+
+export const fileUploadNodeType: NodeTypeDefinition<'fileUpload'> = {
+    type: 'fileUpload',
+    component: FileUploadNode,
+    SettingsPanel: FileUploadSettingsPanel,
+    palette: {
+        label: 'File Upload',
+        category: 'Input',
+        iconPath: 'M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12',
+        iconClassName: 'bg-green-100 text-green-600',
+        color: '#10B981',
+    },
+    targetHandles: ['left'],
+    schema: fileUploadNodeDataSchema,
+    createData: () => ({
+        label: 'Upload Files',
+        allowedTypes: [],
+        maxSize: 5,
+        multiple: false,
+        type: 'fileUpload',
+    }),
+    sourceHandles: () => ['right'],
+    localizedStrings: (data) => [{ key: 'label', label: 'Upload label', value: data.label }],
+    applyLocalizedStrings: (data, values) => ({ ...data, label: values.label ?? data.label }),
+};
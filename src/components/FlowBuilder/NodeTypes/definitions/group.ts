@@ -0,0 +1,32 @@
+/**
+ * Group Node Type Definition
+ *
+ * Registers the group container: a frame around a set of nodes that moves
+ * them as one and can be collapsed into a single compact node. Groups are
+ * created from a selection (see groups.ts), so they are not in the palette,
+ * and they are no step of the conversation.
+ */
+
+import type { NodeTypeDefinition } from '../../../../utils/nodeRegistry';
+import { groupNodeDataSchema } from '../../../../types/schemas';
+import GroupNode from '../GroupNode';
+import GroupSettingsPanel from '../GroupSettingsPanel';
+
+export const groupNodeType: NodeTypeDefinition<'nodeGroup'> = {
+    type: 'nodeGroup',
+    component: GroupNode,
+    SettingsPanel: GroupSettingsPanel,
+    palette: {
+        label: 'Group',
+        category: 'Logic',
+        iconPath: 'M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10',
+        iconClassName: 'bg-slate-100 text-slate-600',
+        color: '#64748B',
+    },
+    targetHandles: [],
+    schema: groupNodeDataSchema,
+    createData: () => ({ label: 'Group', collapsed: false, type: 'nodeGroup' }),
+    sourceHandles: () => [],
+    connections: { acceptsIncoming: false },
+    container: true,
+};
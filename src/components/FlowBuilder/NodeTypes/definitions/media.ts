@@ -0,0 +1,38 @@
+/**
+ * Media Node Type Definition
+ *
+ * Registers the send-media node: an image, video, audio clip or document
+ * sent to the user with an optional caption, followed by a single outgoing
+ * connection.
+ */
+
+import type { NodeTypeDefinition } from '../../../../utils/nodeRegistry';
+import { mediaNodeDataSchema } from '../../../../types/schemas';
+import MediaNode from '../MediaNode';
+import MediaSettingsPanel from '../MediaSettingsPanel';
+
+export const mediaNodeType: NodeTypeDefinition<'media'> = {
+    type: 'media',
+    component: MediaNode,
+    SettingsPanel: MediaSettingsPanel,
+    palette: {
+        label: 'Send Media',
+        category: 'Messages',
+        iconPath: 'M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z',
+        iconClassName: 'bg-pink-100 text-pink-600',
+        color: '#EC4899',
+    },
+    targetHandles: ['left'],
+    schema: mediaNodeDataSchema,
+    createData: () => ({
+        mediaType: 'image',
+        source: 'url',
+        url: '',
+        fileName: '',
+        caption: '',
+        type: 'media',
+    }),
+    sourceHandles: () => ['right'],
+    localizedStrings: (data) => [{ key: 'caption', label: 'Caption', value: data.caption }],
+    applyLocalizedStrings: (data, values) => ({ ...data, caption: values.caption ?? data.caption }),
+};
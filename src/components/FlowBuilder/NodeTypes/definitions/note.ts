@@ -0,0 +1,32 @@
+/**
+ * Note Node Type Definition
+ *
+ * Registers the sticky note: a markdown annotation that documents the flow
+ * on the canvas. Notes have no handles and are no step of the conversation,
+ * so validation ignores them and runtime flows leave them out (see
+ * runtimeFlow.ts).
+ */
+
+import type { NodeTypeDefinition } from '../../../../utils/nodeRegistry';
+import { noteNodeDataSchema } from '../../../../types/schemas';
+import NoteNode from '../NoteNode';
+import NoteSettingsPanel from '../NoteSettingsPanel';
+
+export const noteNodeType: NodeTypeDefinition<'note'> = {
+    type: 'note',
+    component: NoteNode,
+    SettingsPanel: NoteSettingsPanel,
+    palette: {
+        label: 'Sticky Note',
+        category: 'Annotations',
+        iconPath: 'M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z',
+        iconClassName: 'bg-yellow-100 text-yellow-600',
+        color: '#EAB308',
+    },
+    targetHandles: [],
+    schema: noteNodeDataSchema,
+    createData: () => ({ text: 'New note', color: 'yellow', type: 'note' }),
+    sourceHandles: () => [],
+    connections: { acceptsIncoming: false },
+    annotation: true,
+};
@@ -0,0 +1,32 @@
+/**
+ * Call Subflow Node Type Definition
+ *
+ * Registers the call subflow node: runs another flow of the library and
+ * continues from one source handle per way that flow can end (see
+ * subflows.ts).
+ */
+
+import type { NodeTypeDefinition } from '../../../../utils/nodeRegistry';
+import { SUBFLOW_ENTRY_HANDLE, getSubflowInterface } from '../../../../utils/subflows';
+import { subflowNodeDataSchema } from '../../../../types/schemas';
+import SubflowNode from '../SubflowNode';
+import SubflowSettingsPanel from '../SubflowSettingsPanel';
+
+export const subflowNodeType: NodeTypeDefinition<'subflow'> = {
+    type: 'subflow',
+    component: SubflowNode,
+    SettingsPanel: SubflowSettingsPanel,
+    palette: {
+        label: 'Call Subflow',
+        category: 'Logic',
+        iconPath: 'M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4',
+        iconClassName: 'bg-teal-100 text-teal-600',
+        color: '#14B8A6',
+    },
+    targetHandles: [SUBFLOW_ENTRY_HANDLE],
+    schema: subflowNodeDataSchema,
+    createData: () => ({ subflowId: '', type: 'subflow' }),
+    sourceHandles: (data) => getSubflowInterface(data.subflowId)?.exits.map((e) => e.id) ?? [],
+    sourceHandleLabel: (data, handle) =>
+        getSubflowInterface(data.subflowId)?.exits.find((e) => e.id === handle)?.label,
+};
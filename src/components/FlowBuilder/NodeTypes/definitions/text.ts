@@ -0,0 +1,30 @@
+/**
+ * Text Node Type Definition
+ *
+ * Registers the text message node: a message sent to the user, followed by
+ * a single outgoing connection.
+ */
+
+import type { NodeTypeDefinition } from '../../../../utils/nodeRegistry';
+import { textNodeDataSchema } from '../../../../types/schemas';
+import TextNode from '../TextNode';
+import SettingsPanel from '../SettingsPanel';
+
+export const textNodeType: NodeTypeDefinition<'text'> = {
+    type: 'text',
+    component: TextNode,
+    SettingsPanel,
+    palette: {
+        label: 'Text Message',
+        category: 'Messages',
+        iconPath: 'M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z',
+        iconClassName: 'bg-blue-100 text-blue-600',
+        color: '#3B82F6',
+    },
+    targetHandles: ['left'],
+    schema: textNodeDataSchema,
+    createData: () => ({ text: 'New message', type: 'text' }),
+    sourceHandles: () => ['right'],
+    localizedStrings: (data) => [{ key: 'text', label: 'Message', value: data.text }],
+    applyLocalizedStrings: (data, values) => ({ ...data, text: values.text ?? data.text }),
+};
@@ -0,0 +1,31 @@
+/**
+ * Built-in Node Types
+ *
+ * Registers the node types that ship with the flow builder. Importing this
+ * module (done once in main.tsx) fills the node registry; the order of
+ * registration is the order of the nodes palette within each category.
+ *
+ * To add a node type, create a definition module in ./definitions and
+ * register it here.
+ */
+
+import { registerNodeType } from '../../../utils/nodeRegistry';
+import { textNodeType } from './definitions/text';
+import { buttonsNodeType } from './definitions/buttons';
+import { mediaNodeType } from './definitions/media';
+import { fileUploadNodeType } from './definitions/fileUpload';
+import { conditionNodeType } from './definitions/condition';
+import { apiNodeType } from './definitions/api';
+import { subflowNodeType } from './definitions/subflow';
+import { groupNodeType } from './definitions/group';
+import { noteNodeType } from './definitions/note';
+
+registerNodeType(textNodeType);
+registerNodeType(buttonsNodeType);
+registerNodeType(mediaNodeType);
+registerNodeType(fileUploadNodeType);
+registerNodeType(conditionNodeType);
+registerNodeType(apiNodeType);
+registerNodeType(subflowNodeType);
+registerNodeType(groupNodeType);
+registerNodeType(noteNodeType);
@@ -0,0 +1,145 @@
+/**
+ * Edge Settings Panel Component
+ *
+ * This component provides the settings interface for a connection when it
+ * is clicked on the canvas. It shows which nodes (and which button or
+ * branch) the connection joins and lets the user label or delete it.
+ *
+ * Features:
+ * - Source and target summary, including the source handle's name
+ * - Label editing with the label shown on the canvas
+ * - Connection deletion
+ */
+
+import React, { useCallback } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { getNodeType, getSourceHandleLabel } from '../../../utils/nodeRegistry';
+import { resolveSourceHandle } from '../../../utils/connectionRules';
+import type { AppNode } from '../../../types/flow';
+
+/** Number of message characters shown in a node summary */
+const SNIPPET_LENGTH = 40;
+
+/**
+ * Describe Node Helper
+ *
+ * @param node - A node
+ * @returns The node type's name and the start of the node's message, if any
+ */
+const describeNode = (node: AppNode): { type: string; snippet: string | null } => {
+    const type = getNodeType(node.type)?.palette.label ?? node.type;
+    const text = 'text' in node.data && typeof node.data.text === 'string' ? node.data.text.trim() : '';
+    if (!text) return { type, snippet: null };
+    return { type, snippet: text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text };
+};
+
+/**
+ * Edge Settings Panel Component
+ *
+ * Renders the settings of the selected edge. This panel appears when an
+ * edge is clicked in the flow canvas.
+ *
+ * @returns JSX element representing the edge settings panel or null if no edge is selected
+ */
+const EdgeSettingsPanel: React.FC = () => {
+    // Get flow state and actions from Zustand store
+    const { nodes, edges, selectedEdgeId, updateEdge, deleteElements } = useFlowStore();
+
+    // Find the selected edge and the nodes it joins
+    const edge = edges.find((e) => e.id === selectedEdgeId);
+    const source = nodes.find((n) => n.id === edge?.source);
+    const target = nodes.find((n) => n.id === edge?.target);
+
+    /**
+     * Label Change Handler
+     *
+     * Updates the label of the selected edge; an empty label removes it.
+     *
+     * @param e - The change event from the label input
+     */
+    const onChangeLabel = useCallback(
+        (e: React.ChangeEvent<HTMLInputElement>) => {
+            if (!edge) return;
+            // A typing burst in the same label is coalesced into one undo step
+            updateEdge(edge.id, { label: e.target.value || undefined }, { coalesceKey: `label:${edge.id}` });
+        },
+        [edge, updateEdge]
+    );
+
+    /**
+     * Delete Edge Handler
+     *
+     * Removes the selected edge from the flow and clears the selection.
+     */
+    const onDeleteEdge = useCallback(() => {
+        if (!edge) return;
+        deleteElements([], [edge.id]);
+    }, [edge, deleteElements]);
+
+    // Don't render anything if no edge is selected
+    if (!edge) return null;
+
+    const handle = source && resolveSourceHandle(source, edge.sourceHandle);
+    const handleLabel = source && handle ? getSourceHandleLabel(source, handle) : undefined;
+    const ends = [
+        { title: 'From', node: source, detail: handleLabel },
+        { title: 'To', node: target, detail: undefined },
+    ];
+
+    return (
+        <aside className="flex flex-col h-full w-80 bg-white border-l border-gray-200">
+            {/* Panel Header with Title and Delete Button */}
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                {/* Panel title */}
+                <h4 className="font-semibold text-gray-700">Connection</h4>
+                {/* Delete button with red styling for destructive action */}
+                <button
+                    onClick={onDeleteEdge}
+                    className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+                >
+                    Delete
+                </button>
+            </div>
+
+            {/* Form Content Area */}
+            <div className="flex-1 p-4 space-y-4">
+                {/* Source and target summary */}
+                {ends.map(({ title, node, detail }) => {
+                    const description = node && describeNode(node);
+                    return (
+                        <div key={title}>
+                            <div className="text-xs text-gray-600 mb-1">{title}</div>
+                            {description ? (
+                                <div className="p-2 rounded border border-gray-200 bg-gray-50 text-sm">
+                                    <div className="font-medium text-gray-800">
+                                        {description.type}
+                                        {detail && <span className="font-normal text-gray-500"> · {detail}</span>}
+                                    </div>
+                                    {description.snippet && (
+                                        <div className="text-xs text-gray-500 truncate">{description.snippet}</div>
+                                    )}
+                                </div>
+                            ) : (
+                                <div className="text-sm text-red-600">Deleted node</div>
+                            )}
+                        </div>
+                    );
+                })}
+
+                {/* Label input */}
+                <div>
+                    <label className="block text-xs text-gray-600 mb-1">Label</label>
+                    <input
+                        type="text"
+                        value={typeof edge.label === 'string' ? edge.label : ''}
+                        onChange={onChangeLabel}
+                        placeholder="Shown on the connection"
+                        className="w-full p-2 border rounded text-sm"
+                    />
+                </div>
+            </div>
+        </aside>
+    );
+};
+
+export default EdgeSettingsPanel;
@@ -0,0 +1,90 @@
+/**
+ * Flow Info Panel Component
+ *
+ * This component is the right-hand panel shown while no node is selected.
+ * It has four tabs: the channels the flow targets and usage instructions
+ * for the flow builder, the editor
+ * for the flow's variable registry, the flow's languages and translation
+ * coverage, and the flow's revision history.
+ */
+
+import React, { useState } from 'react';
+import VariablesPanel from './VariablesPanel';
+import TranslationsPanel from './TranslationsPanel';
+import ChannelPicker from '../Channels/ChannelPicker';
+import RevisionsPanel from './RevisionsPanel';
+
+/**
+ * Flow Info Panel Component
+ *
+ * Renders the default right-hand panel.
+ *
+ * @returns JSX element representing the flow info panel
+ */
+const FlowInfoPanel: React.FC = () => {
+    // Currently visible tab
+    const [tab, setTab] = useState<'info' | 'variables' | 'translations' | 'history'>('info');
+
+    /**
+     * Tab Class Helper
+     *
+     * @param name - The tab to style
+     * @returns Class names highlighting the active tab
+     */
+    const tabClass = (name: typeof tab) =>
+        `flex-1 py-2 text-sm ${
+            tab === name ? 'border-b-2 border-blue-600 text-blue-700 font-medium' : 'text-gray-500 hover:text-gray-700'
+        }`;
+
+    return (
+        <aside className="flex flex-col h-full w-80 bg-white border-l border-gray-200">
+            {/* Tabs */}
+            <div className="flex border-b border-gray-200">
+                <button className={tabClass('info')} onClick={() => setTab('info')}>
+                    Flow Info
+                </button>
+                <button className={tabClass('variables')} onClick={() => setTab('variables')}>
+                    Variables
+                </button>
+                <button className={tabClass('translations')} onClick={() => setTab('translations')}>
+                    Languages
+                </button>
+                <button className={tabClass('history')} onClick={() => setTab('history')}>
+                    History
+                </button>
+            </div>
+
+            <div className="flex-1 p-4 overflow-y-auto">
+                {tab === 'info' ? (
+                    <>
+                        <div className="mb-4">
+                            <ChannelPicker />
+                        </div>
+                        <p className="text-gray-500 text-sm mb-4">
+                            Select a node to edit its properties. Use the save button in the header to validate your flow.
+                        </p>
+                        <div className="text-sm text-gray-600">
+                            <p className="mb-2"><strong>Instructions:</strong></p>
+                            <ul className="list-disc list-inside space-y-1">
+                                <li>Drag nodes from the left panel to the canvas</li>
+                                <li>Connect nodes by dragging from source handles (right) to target handles (left)</li>
+                                <li>Click on nodes to edit their text</li>
+                                <li>Declare variables in the Variables tab and use them as {'{{name}}'} in messages</li>
+                                <li>Add languages in the Languages tab and translate messages with the locale tabs</li>
+                                <li>Save to validate your flow structure</li>
+                            </ul>
+                        </div>
+                    </>
+                ) : tab === 'variables' ? (
+                    <VariablesPanel />
+                ) : tab === 'translations' ? (
+                    <TranslationsPanel />
+                ) : (
+                    <RevisionsPanel />
+                )}
+            </div>
+        </aside>
+    );
+};
+
+export default FlowInfoPanel;
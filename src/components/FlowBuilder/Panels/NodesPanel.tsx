@@ -8,14 +8,17 @@
  * Features:
  * - Draggable node cards with visual icons
  * - Hover effects for better user experience
- * - Extensible design for adding new node types
+ * - Cards generated from the node registry, grouped by category
+ * - Search field filtering the cards (focused with the palette search shortcut)
  * - Consistent styling with the overall application theme
  * 
  * The component follows React Flow's drag and drop conventions for seamless
  * integration with the canvas.
  */
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
+import { NODE_CATEGORIES, getPaletteNodeTypes } from '../../../utils/nodeRegistry';
+import { useShortcutHandlers } from '../../../hooks/useShortcuts';
 
 /**
  * Nodes Panel Component
@@ -26,6 +29,18 @@ import React from 'react';
  * @returns JSX element representing the nodes panel
  */
 const NodesPanel: React.FC = () => {
+    // Search text filtering the node cards
+    const [query, setQuery] = useState('');
+    const searchRef = useRef<HTMLInputElement>(null);
+
+    // The palette search shortcut focuses the search field
+    useShortcutHandlers({
+        'focus-search': () => {
+            searchRef.current?.focus();
+            searchRef.current?.select();
+        },
+    });
+
     /**
      * Drag Start Event Handler
      * 
@@ -33,7 +48,7 @@ const NodesPanel: React.FC = () => {
      * This follows React Flow's drag and drop conventions.
      * 
      * @param event - The drag start event
-     * @param nodeType - The type of node being dragged ('text', 'fileUpload', etc.)
+     * @param nodeType - The type of node being dragged ('text', 'fileUpload', 'buttons', etc.)
      */
     const onDragStart = (event: React.DragEvent, nodeType: string) => {
         // Set the drag data to the node type for React Flow to recognize
@@ -47,59 +62,57 @@ const NodesPanel: React.FC = () => {
             {/* Panel Header */}
             <h4 className="font-semibold text-gray-700 mb-3">Nodes</h4>
 
-            {/* Text Message Node Card */}
-            <div
-                className="mb-2 p-2 rounded border border-dashed border-gray-300 bg-white cursor-grab text-gray-700 hover:bg-gray-50 transition-colors"
-                draggable
-                onDragStart={(e) => onDragStart(e, 'text')}
-            >
-                <div className="flex items-center">
-                    {/* Chat bubble icon for text messages */}
-                    <div className="w-4 h-4 bg-blue-100 rounded-full flex items-center justify-center mr-2">
-                        <svg className="w-3 h-3 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-                        </svg>
-                    </div>
-                    {/* Node type label */}
-                    Text Message
-                </div>
-            </div>
+            {/* Search field; Escape clears it and returns to the canvas */}
+            <input
+                ref={searchRef}
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key !== 'Escape') return;
+                    setQuery('');
+                    e.currentTarget.blur();
+                }}
+                placeholder="Search nodes..."
+                className="w-full p-2 mb-4 border rounded text-sm bg-white"
+            />
 
-            {/* File Upload Node Card */}
-            <div
-                className="mb-2 p-2 rounded border border-dashed border-gray-300 bg-white cursor-grab text-gray-700 hover:bg-gray-50 transition-colors"
-                draggable
-                onDragStart={(e) => onDragStart(e, 'fileUpload')}
-            >
-                <div className="flex items-center">
-                    {/* Cloud upload icon for file uploads */}
-                    <div className="w-4 h-4 bg-green-100 rounded-full flex items-center justify-center mr-2">
-                        <svg className="w-3 h-3 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                        </svg>
-                    </div>
-                    {/* Node type label */}
-                    File Upload
-                </div>
-            </div>
+            {/* Node cards, grouped by category, taken from the node registry */}
+            {NODE_CATEGORIES.map((category) => {
+                const definitions = getPaletteNodeTypes().filter(
+                    (d) =>
+                        d.palette.category === category &&
+                        d.palette.label.toLowerCase().includes(query.trim().toLowerCase())
+                );
+                if (definitions.length === 0) return null;
+
+                return (
+                    <div key={category} className="mb-4">
+                        {/* Category heading */}
+                        <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">{category}</div>
 
-            {/* Future node types will be added here */}
-            {/* Example structure for new node types:
-            <div
-                className="mb-2 p-2 rounded border border-dashed border-gray-300 bg-white cursor-grab text-gray-700 hover:bg-gray-50 transition-colors"
-                draggable
-                onDragStart={(e) => onDragStart(e, 'newNodeType')}
-            >
-                <div className="flex items-center">
-                    <div className="w-4 h-4 bg-[color]-100 rounded-full flex items-center justify-center mr-2">
-                        <svg className="w-3 h-3 text-[color]-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="[path]" />
-                        </svg>
+                        {definitions.map(({ type, palette }) => (
+                            <div
+                                key={type}
+                                className="mb-2 p-2 rounded border border-dashed border-gray-300 bg-white cursor-grab text-gray-700 hover:bg-gray-50 transition-colors"
+                                draggable
+                                onDragStart={(e) => onDragStart(e, type)}
+                            >
+                                <div className="flex items-center">
+                                    {/* Node type icon */}
+                                    <div className={`w-4 h-4 rounded-full flex items-center justify-center mr-2 ${palette.iconClassName}`}>
+                                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={palette.iconPath} />
+                                        </svg>
+                                    </div>
+                                    {/* Node type label */}
+                                    {palette.label}
+                                </div>
+                            </div>
+                        ))}
                     </div>
-                    New Node Type
-                </div>
-            </div>
-            */}
+                );
+            })}
         </aside>
     );
 };
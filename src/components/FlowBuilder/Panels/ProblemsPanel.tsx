@@ -0,0 +1,140 @@
+/**
+ * Problems Panel Component
+ *
+ * This component lists the validation issues of the open flow. It floats
+ * over the top-left corner of the canvas as a summary of error, warning and
+ * info counts and expands into the full list of issues.
+ *
+ * Features:
+ * - Counts per severity, always visible
+ * - Clicking an issue selects the affected node and zooms to it
+ * - Connections that are invisible on the canvas (pointing at deleted
+ *   nodes) or drawn twice can be removed from the list
+ */
+
+import React, { useState } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import type { ValidationIssue, ValidationSeverity } from '../../../utils/validateFlow';
+
+/** Rules whose issues can be fixed by removing the affected edges */
+const REMOVABLE_EDGE_RULES = new Set(['dangling-edge', 'duplicate-edge']);
+
+/** Icon and color per severity */
+const SEVERITY_STYLES: Record<ValidationSeverity, { icon: string; className: string }> = {
+    error: { icon: '✖', className: 'text-red-600' },
+    warning: { icon: '▲', className: 'text-amber-600' },
+    info: { icon: 'ℹ', className: 'text-blue-600' },
+};
+
+/**
+ * Problems Panel Props Interface
+ *
+ * @property issues - Issues found in the open flow
+ */
+interface ProblemsPanelProps {
+    issues: ValidationIssue[];
+}
+
+/**
+ * Problems Panel Component
+ *
+ * Renders the issue summary and, when expanded, the list of issues.
+ *
+ * @returns JSX element representing the problems panel
+ */
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ issues }) => {
+    // Get flow state and actions from Zustand store
+    const { edges, setEdges, setSelectedNodeId } = useFlowStore();
+    const { fitView } = useReactFlow();
+
+    // Whether the issue list is expanded
+    const [expanded, setExpanded] = useState(false);
+
+    // Number of issues per severity for the summary
+    const counts = { error: 0, warning: 0, info: 0 };
+    issues.forEach((issue) => counts[issue.severity]++);
+
+    /**
+     * Issue Click Handler
+     *
+     * Selects the first affected node and zooms to all affected nodes.
+     *
+     * @param issue - The clicked issue
+     */
+    const onIssueClick = (issue: ValidationIssue) => {
+        if (issue.nodeIds.length === 0) return;
+        setSelectedNodeId(issue.nodeIds[0]);
+        fitView({ nodes: issue.nodeIds.map((id) => ({ id })), duration: 400, maxZoom: 1.5, padding: 0.5 });
+    };
+
+    /**
+     * Remove Edges Handler
+     *
+     * Removes the edges an issue is about.
+     *
+     * @param issue - The issue to fix
+     */
+    const onRemoveEdges = (issue: ValidationIssue) => {
+        const ids = new Set(issue.edgeIds);
+        setEdges(edges.filter((e) => !ids.has(e.id)));
+    };
+
+    return (
+        <div className="absolute top-3 left-3 z-10 w-96 max-w-[calc(100%-1.5rem)] bg-white rounded shadow-lg border border-gray-200">
+            {/* Summary and expand toggle */}
+            <button
+                onClick={() => setExpanded((e) => !e)}
+                className="w-full flex items-center justify-between px-3 py-2 text-sm"
+            >
+                <span className="font-semibold text-gray-700">Problems</span>
+                <span className="flex items-center gap-3">
+                    {issues.length === 0 ? (
+                        <span className="text-green-600">No problems</span>
+                    ) : (
+                        (Object.keys(counts) as ValidationSeverity[])
+                            .filter((severity) => counts[severity] > 0)
+                            .map((severity) => (
+                                <span key={severity} className={SEVERITY_STYLES[severity].className}>
+                                    {SEVERITY_STYLES[severity].icon} {counts[severity]}
+                                </span>
+                            ))
+                    )}
+                    <span className="text-gray-400">{expanded ? '▴' : '▾'}</span>
+                </span>
+            </button>
+
+            {/* Issue list */}
+            {expanded && issues.length > 0 && (
+                <ul className="max-h-64 overflow-y-auto border-t border-gray-200 divide-y divide-gray-100">
+                    {issues.map((issue) => (
+                        <li key={issue.id} className="flex items-start gap-2 px-3 py-2 text-xs">
+                            <span className={SEVERITY_STYLES[issue.severity].className}>
+                                {SEVERITY_STYLES[issue.severity].icon}
+                            </span>
+                            <button
+                                onClick={() => onIssueClick(issue)}
+                                disabled={issue.nodeIds.length === 0}
+                                className="flex-1 text-left text-gray-700 hover:text-gray-900 disabled:cursor-default"
+                                title={issue.nodeIds.length > 0 ? 'Show on canvas' : undefined}
+                            >
+                                {issue.message}
+                                <span className="block text-gray-400 font-mono">{issue.ruleId}</span>
+                            </button>
+                            {REMOVABLE_EDGE_RULES.has(issue.ruleId) && (
+                                <button
+                                    onClick={() => onRemoveEdges(issue)}
+                                    className="text-red-500 hover:text-red-700"
+                                >
+                                    Remove
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ProblemsPanel;
@@ -0,0 +1,93 @@
+/**
+ * Revisions Panel Component
+ *
+ * This component lists the revision history of the open flow in the flow
+ * info panel. A revision is recorded every time the flow is saved with the
+ * Save button.
+ *
+ * Features:
+ * - Save time, note and size of every revision
+ * - Picking two revisions to compare them on a color-coded canvas
+ * - One-click restore of any revision (undoable)
+ */
+
+import React from 'react';
+import { useRevisions } from '../../../hooks/useRevisions';
+
+/**
+ * Revisions Panel Component
+ *
+ * Renders the revision list of the open flow.
+ *
+ * @returns JSX element representing the revisions panel
+ */
+const RevisionsPanel: React.FC = () => {
+    // Get the revisions and actions from the revisions store
+    const { revisions, selectedIds, toggleSelected, setComparing, restore } = useRevisions();
+
+    if (revisions.length === 0) {
+        return (
+            <p className="text-gray-500 text-sm">
+                No revisions yet. Every time you save the flow with the Save button, a revision is recorded here.
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {/* Comparison of the picked revisions */}
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-gray-500">
+                    {selectedIds.length === 2 ? '2 revisions picked' : 'Pick two revisions to compare'}
+                </span>
+                <button
+                    onClick={() => setComparing(true)}
+                    disabled={selectedIds.length !== 2}
+                    className="px-2 py-1 rounded bg-blue-600 text-white text-xs hover:bg-blue-700 disabled:opacity-40"
+                >
+                    Compare
+                </button>
+            </div>
+
+            {/* Revision list, newest first */}
+            <ul className="space-y-2">
+                {revisions.map((revision) => (
+                    <li
+                        key={revision.id}
+                        className={`p-2 rounded border text-sm ${
+                            selectedIds.includes(revision.id) ? 'border-blue-400 bg-blue-50' : 'border-gray-200'
+                        }`}
+                    >
+                        <label className="flex items-start gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={selectedIds.includes(revision.id)}
+                                onChange={() => toggleSelected(revision.id)}
+                                className="mt-1"
+                            />
+                            <span className="flex-1 min-w-0">
+                                <span className="block font-medium text-gray-800">
+                                    {new Date(revision.createdAt).toLocaleString()}
+                                </span>
+                                {revision.note && <span className="block text-gray-700 break-words">{revision.note}</span>}
+                                <span className="block text-xs text-gray-500">
+                                    {revision.nodes.length} nodes · {revision.edges.length} connections
+                                </span>
+                            </span>
+                        </label>
+                        <div className="flex justify-end">
+                            <button
+                                onClick={() => restore(revision.id)}
+                                className="text-xs text-blue-600 hover:text-blue-800"
+                            >
+                                Restore
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default RevisionsPanel;
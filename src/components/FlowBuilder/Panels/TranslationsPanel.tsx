@@ -0,0 +1,283 @@
+/**
+ * Translations Panel Component
+ *
+ * This component configures the languages of the open flow and shows how
+ * much of the flow is translated into each of them (see localization.ts).
+ *
+ * Features:
+ * - Add and remove locales (removing a locale deletes its translations)
+ * - Choose the default locale, which the node fields are written in;
+ *   translations into the new default move into the fields
+ * - Mark locales as required: saving fails while a required locale is
+ *   missing translations, optional locales are only reported
+ * - Coverage bar per locale
+ * - List of the nodes missing translations and the locales they miss;
+ *   clicking a locale selects the node, switches the editor to the locale
+ *   and zooms the canvas to the node
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useLocaleStore } from '../../../hooks/useLocale';
+import type { AppNode, FlowLocalization } from '../../../types/flow';
+import {
+    changeDefaultLocale,
+    findTranslationGaps,
+    getLocaleName,
+    getTranslationCoverage,
+    getTranslations,
+    removeLocale,
+    validateLocaleCode,
+    type TranslationGap,
+} from '../../../utils/localization';
+import { getLocalizedStrings, getNodeType } from '../../../utils/nodeRegistry';
+
+/** Number of characters shown of a node's text */
+const TITLE_LENGTH = 32;
+
+/**
+ * Node Title Helper
+ *
+ * @param node - A node with translatable strings
+ * @returns The node's type and the start of its first string
+ */
+const nodeTitle = (node: AppNode) => {
+    const type = getNodeType(node.type)?.palette.label ?? node.type;
+    const text = getLocalizedStrings(node)[0]?.value.trim() ?? '';
+    if (!text) return type;
+    return `${type}: ${text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text}`;
+};
+
+/**
+ * Translations Panel Component
+ *
+ * Renders the locale settings and translation coverage of the open flow.
+ *
+ * @returns JSX element representing the translations panel
+ */
+const TranslationsPanel: React.FC = () => {
+    // Get flow state and actions from Zustand store
+    const { nodes, localization, setLocalization, setContent, setSelectedNodeId } = useFlowStore();
+    const setLocale = useLocaleStore((state) => state.setLocale);
+    const { fitView } = useReactFlow();
+
+    // Draft of the locale being added
+    const [codeDraft, setCodeDraft] = useState('');
+    const code = codeDraft.trim();
+    const codeError = code ? validateLocaleCode(code, localization) : null;
+
+    const coverage = useMemo(() => getTranslationCoverage(nodes, localization), [nodes, localization]);
+    const gaps = useMemo(() => findTranslationGaps(nodes, localization), [nodes, localization]);
+
+    // Missing locales grouped by node, in the order of the nodes
+    const gapsByNode = useMemo(() => {
+        const grouped = new Map<string, TranslationGap[]>();
+        gaps.forEach((gap) => grouped.set(gap.nodeId, [...(grouped.get(gap.nodeId) ?? []), gap]));
+        return [...grouped].flatMap(([nodeId, nodeGaps]) => {
+            const node = nodes.find((n) => n.id === nodeId);
+            return node ? [{ node, gaps: nodeGaps }] : [];
+        });
+    }, [gaps, nodes]);
+
+    /**
+     * Add Locale Handler
+     *
+     * Adds the drafted locale as a required locale.
+     */
+    const addLocale = () => {
+        if (!code || codeError) return;
+        setLocalization({ ...localization, locales: [...localization.locales, { code, required: true }] });
+        setCodeDraft('');
+    };
+
+    /**
+     * Remove Locale Handler
+     *
+     * Removes a locale and its translations as a single undo step, after
+     * the user confirms if the flow has translations into it.
+     *
+     * @param localeCode - Code of the locale to remove
+     */
+    const onRemoveLocale = (localeCode: string) => {
+        const translated = nodes.some((n) => localeCode in getTranslations(n));
+        const message = `Remove ${getLocaleName(localeCode)}? Its translations will be deleted.`;
+        if (translated && !window.confirm(message)) return;
+
+        const { edges, variables, channels } = useFlowStore.getState();
+        setContent({ edges, variables, channels, ...removeLocale(nodes, localization, localeCode) });
+    };
+
+    /**
+     * Default Locale Change Handler
+     *
+     * Makes another locale the default as a single undo step.
+     *
+     * @param localeCode - Code of the new default locale
+     */
+    const onChangeDefault = (localeCode: string) => {
+        const { edges, variables, channels } = useFlowStore.getState();
+        setContent({ edges, variables, channels, ...changeDefaultLocale(nodes, localization, localeCode) });
+    };
+
+    /**
+     * Required Toggle Handler
+     *
+     * @param localeCode - Code of a locale
+     * @param required - Whether saving requires the locale to be complete
+     */
+    const onChangeRequired = (localeCode: string, required: boolean) => {
+        const locales = localization.locales.map((l) => (l.code === localeCode ? { ...l, required } : l));
+        setLocalization({ ...localization, locales } satisfies FlowLocalization);
+    };
+
+    /**
+     * Show Gap Handler
+     *
+     * Selects a node, switches the editor to the locale it is missing and
+     * zooms the canvas to it.
+     *
+     * @param gap - A missing translation
+     */
+    const onShowGap = (gap: TranslationGap) => {
+        setLocale(gap.locale);
+        setSelectedNodeId(gap.nodeId);
+        fitView({ nodes: [{ id: gap.nodeId }], duration: 400, maxZoom: 1.25, padding: 0.5 });
+    };
+
+    return (
+        <div>
+            {/* Locales */}
+            <div className="text-xs font-medium text-gray-600 mb-1">Locales</div>
+            <ul className="space-y-1 mb-2">
+                {localization.locales.map(({ code: localeCode, required }) => {
+                    const isDefault = localeCode === localization.defaultLocale;
+                    return (
+                        <li key={localeCode} className="flex items-center gap-2 p-2 border border-gray-200 rounded text-sm">
+                            <span className="flex-1 min-w-0 truncate">
+                                {getLocaleName(localeCode)} <span className="text-xs text-gray-400 font-mono">{localeCode}</span>
+                            </span>
+                            <label className="flex items-center gap-1 text-xs text-gray-600" title="Node fields are written in the default locale">
+                                <input
+                                    type="radio"
+                                    name="default-locale"
+                                    checked={isDefault}
+                                    onChange={() => onChangeDefault(localeCode)}
+                                />
+                                Default
+                            </label>
+                            <label
+                                className={`flex items-center gap-1 text-xs text-gray-600 ${isDefault ? 'opacity-40' : ''}`}
+                                title="Saving fails while a required locale is missing translations"
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={isDefault || required}
+                                    disabled={isDefault}
+                                    onChange={(e) => onChangeRequired(localeCode, e.target.checked)}
+                                />
+                                Required
+                            </label>
+                            <button
+                                onClick={() => onRemoveLocale(localeCode)}
+                                disabled={isDefault}
+                                className="px-1 text-red-500 hover:text-red-700 disabled:opacity-30"
+                                title={isDefault ? 'The default locale cannot be removed' : 'Remove locale'}
+                            >
+                                ×
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            {/* Add a locale */}
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    className={`flex-1 min-w-0 p-2 border rounded text-sm font-mono ${codeError ? 'border-red-400' : ''}`}
+                    value={codeDraft}
+                    onChange={(e) => setCodeDraft(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addLocale()}
+                    placeholder="e.g. hi, es, pt-BR"
+                />
+                <button
+                    onClick={addLocale}
+                    disabled={!code || !!codeError}
+                    className="px-3 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-40"
+                >
+                    Add
+                </button>
+            </div>
+            {codeError ? (
+                <div className="text-xs text-red-600 mt-1">{codeError}</div>
+            ) : (
+                code && <div className="text-xs text-gray-500 mt-1">{getLocaleName(code)}</div>
+            )}
+
+            {/* Coverage per locale */}
+            {localization.locales.length > 1 && (
+                <div className="mt-6">
+                    <div className="text-xs font-medium text-gray-600 mb-1">Coverage</div>
+                    <ul className="space-y-2">
+                        {coverage.map(({ locale, translated, total }) => {
+                            const percent = total === 0 ? 100 : Math.floor((translated / total) * 100);
+                            return (
+                                <li key={locale} className="text-xs text-gray-600">
+                                    <div className="flex justify-between mb-0.5">
+                                        <span>{getLocaleName(locale)}</span>
+                                        <span>
+                                            {translated}/{total} strings · {percent}%
+                                        </span>
+                                    </div>
+                                    <div className="h-1.5 rounded bg-gray-200 overflow-hidden">
+                                        <div
+                                            className={`h-full ${percent === 100 ? 'bg-green-500' : 'bg-orange-400'}`}
+                                            style={{ width: `${percent}%` }}
+                                        />
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+
+            {/* Nodes missing translations */}
+            {localization.locales.length > 1 && (
+                <div className="mt-6">
+                    <div className="text-xs font-medium text-gray-600 mb-1">Missing translations</div>
+                    {gapsByNode.length === 0 ? (
+                        <p className="text-sm text-gray-500">Every message is translated into every locale.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {gapsByNode.map(({ node, gaps: nodeGaps }) => (
+                                <li key={node.id} className="p-2 border border-gray-200 rounded">
+                                    <div className="text-sm text-gray-800 truncate">{nodeTitle(node)}</div>
+                                    <div className="flex flex-wrap gap-1 mt-1">
+                                        {nodeGaps.map((gap) => (
+                                            <button
+                                                key={gap.locale}
+                                                onClick={() => onShowGap(gap)}
+                                                title={`Missing: ${gap.strings.map((s) => s.label).join(', ')}`}
+                                                className={`px-2 py-0.5 rounded-full text-xs ${
+                                                    gap.required
+                                                        ? 'bg-red-100 text-red-700 hover:bg-red-200'
+                                                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                                }`}
+                                            >
+                                                {gap.locale}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TranslationsPanel;
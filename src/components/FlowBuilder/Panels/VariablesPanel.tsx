@@ -0,0 +1,243 @@
+/**
+ * Variables Panel Component
+ *
+ * This component edits the flow's variable registry: the variables that
+ * messages can reference with `{{name}}` placeholders and that conditions
+ * can route on, in addition to the built-in system variables.
+ *
+ * Features:
+ * - Add and remove variables
+ * - Edit name, type, default value and description
+ * - Name validation (format, clashes with system or other variables)
+ * - Renaming a variable updates every placeholder and condition using it
+ * - Read-only list of system variables
+ */
+
+import React, { useCallback, useState } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import type { FlowVariable, FlowVariableType } from '../../../types/flow';
+import {
+    SYSTEM_VARIABLES,
+    renameVariableReferences,
+    validateVariableName,
+} from '../../../utils/variables';
+
+/** Default value given to a variable when its type changes */
+const TYPE_DEFAULTS: Record<FlowVariableType, string> = {
+    string: '',
+    number: '0',
+    boolean: 'false',
+};
+
+/**
+ * Variable Row Props Interface
+ *
+ * @property variable - The variable being edited
+ * @property index - Position of the variable in the registry
+ * @property variables - The whole registry, for name validation
+ * @property onRename - Called with a new, valid name
+ * @property onChange - Called with the variable fields to change
+ * @property onRemove - Called when the variable is removed
+ */
+interface VariableRowProps {
+    variable: FlowVariable;
+    index: number;
+    variables: FlowVariable[];
+    onRename: (name: string) => void;
+    onChange: (patch: Partial<FlowVariable>) => void;
+    onRemove: () => void;
+}
+
+/**
+ * Variable Row Component
+ *
+ * Renders the editor for a single variable. The name is edited as a draft
+ * and only applied once it is valid, so references are never pointed at an
+ * invalid name.
+ */
+const VariableRow: React.FC<VariableRowProps> = ({ variable, index, variables, onRename, onChange, onRemove }) => {
+    // Local draft of the name while it is being edited
+    const [nameDraft, setNameDraft] = useState(variable.name);
+    const nameError = nameDraft === variable.name ? null : validateVariableName(nameDraft, variables, index);
+
+    /**
+     * Commit Name Helper
+     *
+     * Applies the draft name if it is valid, otherwise restores the current name.
+     */
+    const commitName = () => {
+        if (nameDraft !== variable.name && !nameError) {
+            onRename(nameDraft);
+        } else {
+            setNameDraft(variable.name);
+        }
+    };
+
+    return (
+        <div className="mb-3 p-2 border border-gray-200 rounded space-y-1">
+            {/* Name and remove button */}
+            <div className="flex gap-1">
+                <input
+                    type="text"
+                    className={`flex-1 p-1 border rounded text-xs font-mono ${nameError ? 'border-red-400' : ''}`}
+                    value={nameDraft}
+                    onChange={(e) => setNameDraft(e.target.value)}
+                    onBlur={commitName}
+                    onKeyDown={(e) => e.key === 'Enter' && commitName()}
+                    placeholder="variable_name"
+                />
+                <button onClick={onRemove} className="px-1 text-red-500 hover:text-red-700" title="Remove variable">
+                    ×
+                </button>
+            </div>
+            {nameError && <div className="text-xs text-red-600">{nameError}</div>}
+
+            {/* Type and default value */}
+            <div className="flex gap-1">
+                <select
+                    className="p-1 border rounded text-xs"
+                    value={variable.type}
+                    onChange={(e) => {
+                        const type = e.target.value as FlowVariableType;
+                        onChange({ type, defaultValue: TYPE_DEFAULTS[type] });
+                    }}
+                >
+                    <option value="string">Text</option>
+                    <option value="number">Number</option>
+                    <option value="boolean">Yes/No</option>
+                </select>
+                {variable.type === 'boolean' ? (
+                    <select
+                        className="flex-1 p-1 border rounded text-xs"
+                        value={variable.defaultValue}
+                        onChange={(e) => onChange({ defaultValue: e.target.value })}
+                    >
+                        <option value="true">true</option>
+                        <option value="false">false</option>
+                    </select>
+                ) : (
+                    <input
+                        type={variable.type === 'number' ? 'number' : 'text'}
+                        className="flex-1 min-w-0 p-1 border rounded text-xs"
+                        value={variable.defaultValue}
+                        onChange={(e) => onChange({ defaultValue: e.target.value })}
+                        placeholder="Default value"
+                    />
+                )}
+            </div>
+
+            {/* Description */}
+            <input
+                type="text"
+                className="w-full p-1 border rounded text-xs"
+                value={variable.description}
+                onChange={(e) => onChange({ description: e.target.value })}
+                placeholder="Description"
+            />
+        </div>
+    );
+};
+
+/**
+ * Variables Panel Component
+ *
+ * Renders the variable registry editor of the open flow.
+ *
+ * @returns JSX element representing the variables panel
+ */
+const VariablesPanel: React.FC = () => {
+    // Get flow state and actions from Zustand store
+    const { nodes, variables, setNodes, setVariables } = useFlowStore();
+
+    /**
+     * Add Variable Handler
+     *
+     * Appends a text variable with the first free `variable_N` name.
+     */
+    const addVariable = useCallback(() => {
+        let n = variables.length + 1;
+        while (validateVariableName(`variable_${n}`, variables, -1)) n++;
+        setVariables([...variables, { name: `variable_${n}`, type: 'string', defaultValue: '', description: '' }]);
+    }, [variables, setVariables]);
+
+    /**
+     * Update Variable Helper
+     *
+     * Text fields coalesce per variable so a typing burst is one undo step.
+     *
+     * @param index - Position of the variable in the registry
+     * @param patch - The variable fields to change
+     */
+    const updateVariable = useCallback(
+        (index: number, patch: Partial<FlowVariable>) => {
+            const typing = 'description' in patch || ('defaultValue' in patch && !('type' in patch));
+            setVariables(
+                variables.map((v, i) => (i === index ? { ...v, ...patch } : v)),
+                typing ? { coalesceKey: `variable:${index}` } : undefined
+            );
+        },
+        [variables, setVariables]
+    );
+
+    /**
+     * Rename Variable Handler
+     *
+     * Renames a variable and updates all references to it. Both updates
+     * share a coalesce key so they form a single undo step.
+     *
+     * @param index - Position of the variable in the registry
+     * @param name - The new name
+     */
+    const renameVariable = useCallback(
+        (index: number, name: string) => {
+            const from = variables[index].name;
+            const coalesceKey = `rename:${from}:${name}`;
+            setVariables(variables.map((v, i) => (i === index ? { ...v, name } : v)), { coalesceKey });
+            setNodes(renameVariableReferences(nodes, from, name), { coalesceKey });
+        },
+        [nodes, variables, setNodes, setVariables]
+    );
+
+    return (
+        <div>
+            {/* Declared Variables */}
+            {variables.length === 0 && (
+                <p className="text-gray-500 text-sm mb-3">
+                    No variables yet. Add one to use it as <span className="font-mono">{'{{name}}'}</span> in messages.
+                </p>
+            )}
+            {variables.map((variable, index) => (
+                <VariableRow
+                    // Re-mount on rename so the name draft starts from the new name
+                    key={`${index}:${variable.name}`}
+                    variable={variable}
+                    index={index}
+                    variables={variables}
+                    onRename={(name) => renameVariable(index, name)}
+                    onChange={(patch) => updateVariable(index, patch)}
+                    onRemove={() => setVariables(variables.filter((_, i) => i !== index))}
+                />
+            ))}
+            <button
+                onClick={addVariable}
+                className="w-full px-3 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+            >
+                Add variable
+            </button>
+
+            {/* System Variables */}
+            <div className="mt-6">
+                <div className="text-xs font-medium text-gray-600 mb-1">System variables</div>
+                <ul className="space-y-1">
+                    {SYSTEM_VARIABLES.map((v) => (
+                        <li key={v.name} className="text-xs text-gray-500">
+                            <span className="font-mono text-gray-700">{v.name}</span> — {v.description}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+export default VariablesPanel;
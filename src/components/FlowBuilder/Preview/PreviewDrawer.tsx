@@ -0,0 +1,344 @@
+/**
+ * Preview Drawer Component
+ *
+ * This component runs the current flow as a chat conversation so that the
+ * end-user experience can be checked without deploying. It slides in over
+ * the right side of the canvas while the canvas highlights the node that is
+ * currently executing.
+ *
+ * Features:
+ * - Starts at the flow's entry node and follows outgoing edges
+ * - Text nodes render as bot chat bubbles, with `{{placeholders}}` filled in
+ *   from the variables collected so far, their WhatsApp-style formatting
+ *   applied and, if turned on, a preview of their first link
+ * - Media nodes render the image, video, audio player or document card they
+ *   send, with their caption
+ * - File upload nodes render a real file picker that enforces the node's
+ *   allowed types, maximum size and multiple-files settings
+ * - Quick-reply nodes render their buttons and branch on the one picked
+ * - Condition nodes are evaluated automatically and show the branch taken
+ * - API nodes are answered by their mock responder and show the request,
+ *   its outcome and the variables set from the response
+ * - Call subflow nodes run the called flow in place, then continue from
+ *   the exit it ended at
+ * - Restart and step back controls
+ * - Runs in the locale picked on the canvas; messages without a translation
+ *   into it are shown in the default locale
+ *
+ * The simulation itself lives in the preview store; this component only
+ * renders the transcript and collects user responses.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { usePreviewStore } from '../../../hooks/usePreviewStore';
+import { useActiveLocale } from '../../../hooks/useLocale';
+import type { AppNode } from '../../../types/flow';
+import {
+    collectVariables,
+    describeBranch,
+    getAcceptAttribute,
+    getNextNodeId,
+    validateFiles,
+    type SimulationStep,
+} from '../../../utils/flowRunner';
+import { buildRequest } from '../../../utils/apiRequest';
+import { toRuntimeFlow } from '../../../utils/runtimeFlow';
+import { getLocaleName } from '../../../utils/localization';
+import { interpolate } from '../../../utils/templating';
+import { findLinks } from '../../../utils/richText';
+import type { VariableValues } from '../../../utils/variables';
+import RichText from '../RichText/RichText';
+import MediaPreview from '../Media/MediaPreview';
+import LinkPreviewCard from '../RichText/LinkPreviewCard';
+
+/**
+ * Bubble Component
+ *
+ * Renders a single chat bubble.
+ *
+ * @param from - Whether the bot or the user sent the message
+ * @param children - Bubble content
+ */
+const Bubble = ({ from, children }: { from: 'bot' | 'user'; children: React.ReactNode }) => (
+    <div className={`flex ${from === 'user' ? 'justify-end' : 'justify-start'}`}>
+        <div
+            className={`max-w-[80%] px-3 py-2 rounded-lg text-sm whitespace-pre-wrap break-words ${
+                from === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-gray-100 text-gray-800 rounded-bl-none'
+            }`}
+        >
+            {children}
+        </div>
+    </div>
+);
+
+/**
+ * Step Messages Helper
+ *
+ * Renders the bot message for a visited node and the user's response to it.
+ *
+ * @param step - The simulation step
+ * @param node - The node visited in this step (undefined if it was deleted)
+ * @param values - Variable values at the time the node was reached
+ * @returns The chat bubbles for the step
+ */
+const renderStep = (step: SimulationStep, node: AppNode | undefined, values: VariableValues) => {
+    if (!node) {
+        return <div className="text-xs text-gray-400 italic text-center">This node was removed from the flow.</div>;
+    }
+
+    if (node.type === 'fileUpload') {
+        const { label, allowedTypes, maxSize } = node.data;
+        return (
+            <>
+                <Bubble from="bot">
+                    {label || 'Upload Files'}
+                    <div className="text-xs text-gray-500 mt-1">
+                        {allowedTypes.length > 0 ? allowedTypes.join(', ') : 'Any file type'} · up to {maxSize}MB
+                    </div>
+                </Bubble>
+                {step.response?.kind === 'files' && (
+                    <Bubble from="user">📎 {step.response.files.map((f) => f.name).join(', ')}</Bubble>
+                )}
+            </>
+        );
+    }
+
+    if (node.type === 'condition') {
+        return (
+            <div className="text-xs text-orange-600 text-center">
+                ⑂ Condition took {step.response?.kind === 'branch' ? describeBranch(node, step.response.handleId) : '…'}
+            </div>
+        );
+    }
+
+    if (node.type === 'api') {
+        const request = buildRequest(node.data, values);
+        const response = step.response?.kind === 'request' ? step.response : undefined;
+        return (
+            <div className="text-xs text-indigo-600 text-center break-all">
+                ⇄ {request.method} {request.url || '(no URL)'} →{' '}
+                {response ? (
+                    <span className={response.error ? 'text-red-600' : undefined}>
+                        {response.error ?? `${response.status} · success`}
+                    </span>
+                ) : (
+                    '…'
+                )}
+                {response &&
+                    Object.entries(response.values).map(([name, value]) => (
+                        <div key={name} className="font-mono text-gray-500">
+                            {name} = {JSON.stringify(value)}
+                        </div>
+                    ))}
+            </div>
+        );
+    }
+
+    if (node.type === 'subflow' || node.type === 'nodeGroup') {
+        // Only call nodes of missing or self-calling subflows are left after inlining
+        return <div className="text-xs text-red-600 text-center">This subflow could not be run.</div>;
+    }
+
+    if (node.type === 'media') {
+        const caption = interpolate(node.data.caption, values);
+        return (
+            <Bubble from="bot">
+                <div className="w-56">
+                    <MediaPreview data={node.data} interactive />
+                </div>
+                {caption && (
+                    <div className="mt-1">
+                        <RichText text={caption} />
+                    </div>
+                )}
+            </Bubble>
+        );
+    }
+
+    if (node.type === 'buttons') {
+        return (
+            <>
+                <Bubble from="bot">
+                    <RichText text={interpolate(node.data.text, values) || 'Empty message'} />
+                </Bubble>
+                {step.response?.kind === 'button' && <Bubble from="user">{step.response.label}</Bubble>}
+            </>
+        );
+    }
+
+    // Links are detected after interpolation, so links built from variables are previewed too
+    const text = interpolate(node.data.text, values);
+    const previewUrl = node.type === 'text' && node.data.linkPreview ? findLinks(text)[0] : undefined;
+    return (
+        <Bubble from="bot">
+            <RichText text={text || 'Empty message'} />
+            {previewUrl && <LinkPreviewCard url={previewUrl} />}
+        </Bubble>
+    );
+};
+
+/**
+ * Preview Drawer Component
+ *
+ * Renders the chat preview drawer when it is open.
+ *
+ * @returns JSX element representing the preview drawer or null when closed
+ */
+const PreviewDrawer: React.FC = () => {
+    // Get flow data and the running simulation from the stores
+    const { flowId, nodes: flowNodes, edges: flowEdges, variables: flowVariables, localization, channels } = useFlowStore();
+    const locale = useActiveLocale();
+    const { open, steps, closePreview, next, back, restart } = usePreviewStore();
+
+    // Local state for file picker validation feedback
+    const [fileError, setFileError] = useState<string | null>(null);
+
+    // Reference to the end of the transcript for auto-scrolling
+    const endRef = useRef<HTMLDivElement>(null);
+
+    // The flow as the simulation runs it, with its subflows inlined, no groups
+    // or notes, and its messages in the active locale
+    const { nodes, edges, variables } = useMemo(
+        () =>
+            toRuntimeFlow(
+                { nodes: flowNodes, edges: flowEdges, variables: flowVariables, localization, channels },
+                flowId,
+                locale
+            ),
+        [flowId, flowNodes, flowEdges, flowVariables, localization, channels, locale]
+    );
+
+    /**
+     * Auto-scroll Effect
+     *
+     * Keeps the newest message in view as the conversation advances.
+     */
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ behavior: 'smooth' });
+        setFileError(null);
+    }, [steps]);
+
+    if (!open) return null;
+
+    // Resolve the currently executing node and whether the conversation can continue
+    const current = steps[steps.length - 1];
+    const currentNode = current ? nodes.find((n) => n.id === current.nodeId) : undefined;
+    const hasNext = current ? getNextNodeId(current.nodeId, edges) !== null : false;
+    const awaitingFiles = currentNode?.type === 'fileUpload' && !current?.response;
+    const awaitingButton = currentNode?.type === 'buttons' && !current?.response;
+
+    /**
+     * File Picker Handler
+     *
+     * Validates the picked files against the node's settings and, if they
+     * are accepted, answers the node with them.
+     *
+     * @param e - The change event from the file input
+     */
+    const onFilesPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []).map((f) => ({ name: f.name, size: f.size }));
+        e.target.value = '';
+        if (!currentNode || currentNode.type !== 'fileUpload') return;
+
+        const error = validateFiles(files, currentNode.data);
+        if (error) {
+            setFileError(error);
+            return;
+        }
+        next({ kind: 'files', files });
+    };
+
+    return (
+        <aside className="absolute top-0 right-0 h-full w-96 bg-white border-l border-gray-200 shadow-xl flex flex-col z-40">
+            {/* Drawer Header with simulation controls */}
+            <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                <h4 className="font-semibold text-gray-700">
+                    Preview
+                    {localization.locales.length > 1 && (
+                        <span className="ml-1 text-xs font-normal text-gray-500">· {getLocaleName(locale)}</span>
+                    )}
+                </h4>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={back}
+                        disabled={steps.length <= 1}
+                        className="px-2 py-1 rounded border border-gray-300 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                    >
+                        Back
+                    </button>
+                    <button
+                        onClick={restart}
+                        className="px-2 py-1 rounded border border-gray-300 text-xs text-gray-700 hover:bg-gray-50"
+                    >
+                        Restart
+                    </button>
+                    <button onClick={closePreview} className="text-gray-400 hover:text-gray-700 text-lg leading-none">
+                        ×
+                    </button>
+                </div>
+            </div>
+
+            {/* Conversation Transcript */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                {steps.length === 0 && (
+                    <div className="text-sm text-gray-500 text-center">Add a node to the flow to preview it.</div>
+                )}
+                {steps.map((step, index) => (
+                    <React.Fragment key={index}>
+                        {renderStep(
+                            step,
+                            nodes.find((n) => n.id === step.nodeId),
+                            collectVariables(steps.slice(0, index), variables)
+                        )}
+                    </React.Fragment>
+                ))}
+                <div ref={endRef} />
+            </div>
+
+            {/* Input Area for the current node */}
+            {current && (
+                <div className="border-t border-gray-200 p-3">
+                    {awaitingFiles && currentNode?.type === 'fileUpload' ? (
+                        // File picker enforcing the node's upload settings
+                        <div>
+                            <input
+                                type="file"
+                                className="w-full text-sm"
+                                accept={getAcceptAttribute(currentNode.data.allowedTypes)}
+                                multiple={currentNode.data.multiple}
+                                onChange={onFilesPicked}
+                            />
+                            {fileError && <div className="text-xs text-red-600 mt-1">{fileError}</div>}
+                        </div>
+                    ) : awaitingButton && currentNode?.type === 'buttons' ? (
+                        // Quick replies; each button follows its own edge
+                        <div className="flex flex-wrap gap-2 justify-center">
+                            {currentNode.data.buttons.map((button) => (
+                                <button
+                                    key={button.id}
+                                    onClick={() => next({ kind: 'button', buttonId: button.id, label: button.label })}
+                                    className="px-3 py-1 rounded-full border border-purple-300 text-sm text-purple-700 hover:bg-purple-50"
+                                >
+                                    {button.label || 'Untitled button'}
+                                </button>
+                            ))}
+                        </div>
+                    ) : hasNext && (currentNode?.type === 'text' || currentNode?.type === 'media') ? (
+                        // Text and media messages continue to the next node on request
+                        <button
+                            onClick={() => next()}
+                            className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-sm"
+                        >
+                            Continue
+                        </button>
+                    ) : (
+                        <div className="text-xs text-gray-500 text-center">End of conversation</div>
+                    )}
+                </div>
+            )}
+        </aside>
+    );
+};
+
+export default PreviewDrawer;
@@ -0,0 +1,177 @@
+/**
+ * Revision Compare Component
+ *
+ * This component compares the two revisions picked in the history panel.
+ * Both revisions are merged into one read-only canvas on which every
+ * difference is color-coded, next to a list of the differences down to the
+ * changed fields of every node.
+ *
+ * Features:
+ * - Read-only canvas: added nodes and connections green, removed ones red
+ *   (faded, at their old position), changed nodes amber
+ * - Field-level changes (message text, file types, size limits, ...)
+ * - One-click restore of either revision
+ */
+
+import React, { useEffect, useMemo } from 'react';
+import { Background, Controls, ReactFlow, ReactFlowProvider } from '@xyflow/react';
+import { useRevisions } from '../../../hooks/useRevisions';
+import { overlayDiff } from '../../../utils/flowDiff';
+import { getNodeComponents } from '../../../utils/nodeRegistry';
+import type { FlowRevision } from '../../../types/flow';
+import FlowDiffList from '../Sync/FlowDiffList';
+
+/** Colors of the legend, matching the canvas highlights in index.css */
+const LEGEND = [
+    { label: 'Added', className: 'bg-green-500' },
+    { label: 'Removed', className: 'bg-red-500' },
+    { label: 'Changed', className: 'bg-amber-500' },
+];
+
+/**
+ * Revision Title Helper
+ *
+ * @param revision - A revision
+ * @returns Its save time, with its note if it has one
+ */
+const revisionTitle = (revision: FlowRevision) => {
+    const time = new Date(revision.createdAt).toLocaleString();
+    return revision.note ? `${time} — ${revision.note}` : time;
+};
+
+/**
+ * Diff Canvas Component
+ *
+ * @param before - The older revision
+ * @param after - The newer revision
+ * @returns JSX element with both revisions merged on a read-only canvas
+ */
+const DiffCanvas: React.FC<{ before: FlowRevision; after: FlowRevision }> = ({ before, after }) => {
+    // Node components are registered before the app renders
+    const nodeTypes = useMemo(() => getNodeComponents(), []);
+
+    const { nodes, edges } = useMemo(() => {
+        const overlay = overlayDiff(before, after);
+        return {
+            nodes: overlay.nodes.map((n) => {
+                const kind = overlay.nodeChanges.get(n.id);
+                return { ...n, selected: false, className: kind ? `diff-${kind}` : undefined };
+            }),
+            edges: overlay.edges.map((e) => {
+                const kind = overlay.edgeChanges.get(e.id);
+                return { ...e, selected: false, className: kind ? `diff-${kind}` : undefined };
+            }),
+        };
+    }, [before, after]);
+
+    return (
+        <ReactFlowProvider>
+            <ReactFlow
+                nodes={nodes}
+                edges={edges}
+                nodeTypes={nodeTypes}
+                nodesDraggable={false}
+                nodesConnectable={false}
+                elementsSelectable={false}
+                edgesReconnectable={false}
+                deleteKeyCode={null}
+                fitView
+                className="react-flow-canvas"
+            >
+                <Background />
+                <Controls showInteractive={false} />
+            </ReactFlow>
+        </ReactFlowProvider>
+    );
+};
+
+/**
+ * Revision Compare Component
+ *
+ * Renders the comparison while it is open.
+ *
+ * @returns JSX element representing the comparison, or null while closed
+ */
+const RevisionCompare: React.FC = () => {
+    // Get the picked revisions and actions from the revisions store
+    const { revisions, selectedIds, comparing, setComparing, restore } = useRevisions();
+
+    /**
+     * Keyboard Effect
+     *
+     * Closes the comparison when Escape is pressed, and keeps keys from
+     * reaching the shortcut manager and the canvas behind it.
+     */
+    useEffect(() => {
+        if (!comparing) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            e.stopPropagation();
+            if (e.key !== 'Escape') return;
+            e.preventDefault();
+            setComparing(false);
+        };
+        // Capture, so the listener runs before any other
+        document.addEventListener('keydown', onKeyDown, true);
+        return () => document.removeEventListener('keydown', onKeyDown, true);
+    }, [comparing, setComparing]);
+
+    const picked = revisions.filter((r) => selectedIds.includes(r.id));
+    if (!comparing || picked.length !== 2) return null;
+
+    // Revisions are listed newest first
+    const [after, before] = picked;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onMouseDown={() => setComparing(false)}>
+            <div
+                className="w-[90vw] h-[85vh] flex flex-col bg-white rounded shadow-lg"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex justify-between items-center gap-4 px-4 py-3 border-b border-gray-200">
+                    <div className="min-w-0">
+                        <h4 className="font-semibold text-gray-700">Compare revisions</h4>
+                        <div className="text-xs text-gray-500 truncate">
+                            {revisionTitle(before)} → {revisionTitle(after)}
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                        {LEGEND.map(({ label, className }) => (
+                            <span key={label} className="flex items-center gap-1 text-xs text-gray-600">
+                                <span className={`inline-block w-3 h-3 rounded-sm ${className}`} />
+                                {label}
+                            </span>
+                        ))}
+                        <button
+                            onClick={() => restore(before.id)}
+                            className="px-2 py-1 rounded border border-gray-300 text-xs text-gray-700 hover:bg-gray-50"
+                        >
+                            Restore older
+                        </button>
+                        <button
+                            onClick={() => restore(after.id)}
+                            className="px-2 py-1 rounded border border-gray-300 text-xs text-gray-700 hover:bg-gray-50"
+                        >
+                            Restore newer
+                        </button>
+                        <button onClick={() => setComparing(false)} className="text-gray-400 hover:text-gray-700">
+                            ×
+                        </button>
+                    </div>
+                </div>
+
+                {/* Canvas and list of differences */}
+                <div className="flex flex-1 min-h-0">
+                    <div className="flex-1 bg-gray-800">
+                        <DiffCanvas before={before} after={after} />
+                    </div>
+                    <div className="w-80 p-4 overflow-y-auto border-l border-gray-200">
+                        <FlowDiffList before={before} after={after} />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RevisionCompare;
@@ -0,0 +1,95 @@
+/**
+ * Emoji Picker Component
+ *
+ * This component is the emoji button of the formatting toolbar. It opens a
+ * small grid of emoji commonly used in chatbot messages, grouped by topic;
+ * any other emoji can still be typed or pasted into the message.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+
+/** Emoji offered by the picker, by group */
+const EMOJI_GROUPS: { name: string; emoji: string[] }[] = [
+    { name: 'Smileys', emoji: ['😀', '😃', '😄', '😁', '😊', '🙂', '😉', '😍', '🤩', '😎', '🤔', '😅', '😂', '🥳', '😢', '😮'] },
+    { name: 'Gestures', emoji: ['👋', '👍', '👎', '👏', '🙌', '🙏', '👉', '👇', '✌️', '🤝', '💪', '👀'] },
+    { name: 'Symbols', emoji: ['✅', '❌', '⚠️', 'ℹ️', '❓', '❗', '⭐', '🔥', '✨', '🎉', '❤️', '💬', '📌', '🔗', '⏰', '💡'] },
+    { name: 'Objects', emoji: ['📎', '📄', '📷', '📦', '🛒', '💳', '💰', '🎁', '📅', '📞', '📧', '🏠', '🚚', '🔒', '🔑', '🕒'] },
+];
+
+/**
+ * Emoji Picker Props Interface
+ *
+ * @property onPick - Called with the picked emoji
+ */
+interface EmojiPickerProps {
+    onPick: (emoji: string) => void;
+}
+
+/**
+ * Emoji Picker Component
+ *
+ * @returns JSX element representing the emoji button and its grid
+ */
+const EmojiPicker: React.FC<EmojiPickerProps> = ({ onPick }) => {
+    const [open, setOpen] = useState(false);
+
+    // Reference to the picker container for outside-click detection
+    const pickerRef = useRef<HTMLDivElement>(null);
+
+    /**
+     * Outside Click Effect
+     *
+     * Closes the grid when the user clicks anywhere outside of it.
+     */
+    useEffect(() => {
+        if (!open) return;
+        const onMouseDown = (event: MouseEvent) => {
+            if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) setOpen(false);
+        };
+        document.addEventListener('mousedown', onMouseDown);
+        return () => document.removeEventListener('mousedown', onMouseDown);
+    }, [open]);
+
+    return (
+        <div className="relative" ref={pickerRef}>
+            <button
+                type="button"
+                // Keep the focus (and the selection) in the textarea
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => setOpen((o) => !o)}
+                className={`w-7 h-7 rounded text-sm hover:bg-gray-100 ${open ? 'bg-gray-100' : ''}`}
+                title="Insert emoji"
+            >
+                🙂
+            </button>
+
+            {open && (
+                <div className="absolute z-20 right-0 mt-1 w-64 max-h-56 overflow-y-auto bg-white border border-gray-200 rounded shadow-lg p-2">
+                    {EMOJI_GROUPS.map((group) => (
+                        <div key={group.name} className="mb-2 last:mb-0">
+                            <div className="text-[10px] uppercase tracking-wide text-gray-400 mb-1">{group.name}</div>
+                            <div className="grid grid-cols-8 gap-0.5">
+                                {group.emoji.map((emoji) => (
+                                    <button
+                                        key={emoji}
+                                        type="button"
+                                        onMouseDown={(e) => e.preventDefault()}
+                                        onClick={() => {
+                                            onPick(emoji);
+                                            setOpen(false);
+                                        }}
+                                        className="h-7 rounded text-base hover:bg-gray-100"
+                                    >
+                                        {emoji}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default EmojiPicker;
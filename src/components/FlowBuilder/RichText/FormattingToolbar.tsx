@@ -0,0 +1,59 @@
+/**
+ * Formatting Toolbar Component
+ *
+ * This component is the toolbar above message textareas. Its buttons wrap
+ * the selected text in WhatsApp-style formatting markers, or remove them if
+ * the selection is already formatted (see toggleFormat in richText.ts), and
+ * its emoji picker inserts emoji at the caret.
+ *
+ * The buttons do not take the focus, so the textarea keeps its selection.
+ */
+
+import React from 'react';
+import type { TextFormat } from '../../../utils/richText';
+import EmojiPicker from './EmojiPicker';
+
+/** Toolbar buttons, in display order */
+const FORMAT_BUTTONS: { format: TextFormat; label: string; title: string; className: string }[] = [
+    { format: 'bold', label: 'B', title: 'Bold (Ctrl+B)', className: 'font-bold' },
+    { format: 'italic', label: 'I', title: 'Italic (Ctrl+I)', className: 'italic' },
+    { format: 'strike', label: 'S', title: 'Strikethrough', className: 'line-through' },
+    { format: 'monospace', label: '</>', title: 'Monospace', className: 'font-mono text-xs' },
+];
+
+/**
+ * Formatting Toolbar Props Interface
+ *
+ * @property onFormat - Called with the style to toggle on the selection
+ * @property onInsert - Called with text to insert at the caret
+ */
+interface FormattingToolbarProps {
+    onFormat: (format: TextFormat) => void;
+    onInsert: (text: string) => void;
+}
+
+/**
+ * Formatting Toolbar Component
+ *
+ * @returns JSX element representing the formatting buttons and the emoji picker
+ */
+const FormattingToolbar: React.FC<FormattingToolbarProps> = ({ onFormat, onInsert }) => (
+    <div className="flex items-center gap-0.5 mb-1">
+        {FORMAT_BUTTONS.map(({ format, label, title, className }) => (
+            <button
+                key={format}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => onFormat(format)}
+                className={`w-7 h-7 rounded text-sm text-gray-700 hover:bg-gray-100 ${className}`}
+                title={title}
+            >
+                {label}
+            </button>
+        ))}
+        <div className="flex-1" />
+        <EmojiPicker onPick={onInsert} />
+    </div>
+);
+
+export default FormattingToolbar;
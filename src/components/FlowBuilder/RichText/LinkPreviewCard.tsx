@@ -0,0 +1,47 @@
+/**
+ * Link Preview Card Component
+ *
+ * This component stands in for the preview card chat apps show under a
+ * message with a link. The editor does not fetch the linked page, so the
+ * card only shows the link's site; the channel fills in the title and image
+ * when the message is sent.
+ */
+
+import React from 'react';
+import { getLinkHost } from '../../../utils/richText';
+
+/**
+ * Link Preview Card Props Interface
+ *
+ * @property url - The link being previewed
+ */
+interface LinkPreviewCardProps {
+    url: string;
+}
+
+/**
+ * Link Preview Card Component
+ *
+ * @returns JSX element representing the preview placeholder
+ */
+const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({ url }) => (
+    <div className="mt-2 flex items-center gap-2 rounded border border-gray-200 bg-white p-2 text-left" title={url}>
+        {/* Image placeholder */}
+        <div className="w-8 h-8 shrink-0 rounded bg-gray-100 flex items-center justify-center text-gray-400">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"
+                />
+            </svg>
+        </div>
+        <div className="min-w-0">
+            <div className="text-xs font-medium text-gray-700 truncate">{getLinkHost(url)}</div>
+            <div className="text-[10px] text-gray-400">Link preview</div>
+        </div>
+    </div>
+);
+
+export default LinkPreviewCard;
@@ -0,0 +1,79 @@
+/**
+ * Rich Text Component
+ *
+ * This component renders message text with its WhatsApp-style formatting
+ * the way the chat apps display it: bold, italic, strikethrough, monospace
+ * and clickable links (see richText.ts). It is used by the canvas nodes and
+ * the chat preview, so both show messages as the user will see them.
+ */
+
+import React from 'react';
+import { parseRichText, type RichTextRun } from '../../../utils/richText';
+
+/**
+ * Rich Text Props Interface
+ *
+ * @property text - Message text
+ * @property renderPlaceholder - Renders a `{{placeholder}}` (defaults to its text)
+ */
+interface RichTextProps {
+    text: string;
+    renderPlaceholder?: (name: string, text: string) => React.ReactNode;
+}
+
+/**
+ * Render Runs Helper
+ *
+ * @param runs - Parsed runs of the text
+ * @param renderPlaceholder - Renders a placeholder run
+ * @returns The runs as React elements
+ */
+const renderRuns = (runs: RichTextRun[], renderPlaceholder: RichTextProps['renderPlaceholder']): React.ReactNode =>
+    runs.map((run, index) => {
+        switch (run.kind) {
+            case 'text':
+                return <React.Fragment key={index}>{run.text}</React.Fragment>;
+            case 'monospace':
+                return (
+                    <code key={index} className="font-mono">
+                        {run.text}
+                    </code>
+                );
+            case 'placeholder':
+                return (
+                    <React.Fragment key={index}>
+                        {renderPlaceholder ? renderPlaceholder(run.name, run.text) : run.text}
+                    </React.Fragment>
+                );
+            case 'link':
+                return (
+                    // nodrag keeps a click on the link from starting a node drag on the canvas
+                    <a
+                        key={index}
+                        href={run.href}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="nodrag text-blue-600 underline break-all"
+                    >
+                        {run.text}
+                    </a>
+                );
+            case 'bold':
+                return <strong key={index}>{renderRuns(run.children, renderPlaceholder)}</strong>;
+            case 'italic':
+                return <em key={index}>{renderRuns(run.children, renderPlaceholder)}</em>;
+            case 'strike':
+                return <s key={index}>{renderRuns(run.children, renderPlaceholder)}</s>;
+        }
+    });
+
+/**
+ * Rich Text Component
+ *
+ * @returns The formatted text (line breaks are kept by the container's whitespace-pre-wrap)
+ */
+const RichText: React.FC<RichTextProps> = ({ text, renderPlaceholder }) => (
+    <>{renderRuns(parseRichText(text), renderPlaceholder)}</>
+);
+
+export default RichText;
@@ -0,0 +1,236 @@
+/**
+ * Canvas Search Component
+ *
+ * This component finds nodes on the canvas. It floats over the top of the
+ * canvas while it is open and lists the nodes whose message, label, file
+ * types or ID match the search text.
+ *
+ * Features:
+ * - Opened with the find shortcut (Ctrl/Cmd+F) or the canvas control
+ * - Results with the icon of their node type and the matching text
+ * - Filter by node type
+ * - Moving through the results (Enter, Shift+Enter, arrow keys or the
+ *   buttons) centers and zooms the canvas on each node, highlights it and
+ *   selects it; nodes inside collapsed groups are revealed
+ * - "No matches" state
+ */
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useCanvasSearch } from '../../../hooks/useCanvasSearch';
+import { useShortcutHandlers } from '../../../hooks/useShortcuts';
+import { isGroupNode } from '../../../utils/groups';
+import { getNodeType, getNodeTypes } from '../../../utils/nodeRegistry';
+import { NODE_SEARCH_FIELD_LABELS, searchNodes } from '../../../utils/nodeSearch';
+
+/** Duration (ms) of the viewport move to a result */
+const JUMP_ANIMATION_MS = 400;
+
+/**
+ * Canvas Search Component
+ *
+ * Renders the search box while it is open.
+ *
+ * @returns JSX element representing the search box, or null while closed
+ */
+const CanvasSearch: React.FC = () => {
+    const nodes = useFlowStore((state) => state.nodes);
+    const { open, query, type, activeId, setOpen, setQuery, setType, setActiveId } = useCanvasSearch();
+    const { fitView } = useReactFlow();
+
+    // References to the search field and the result list
+    const inputRef = useRef<HTMLInputElement>(null);
+    const listRef = useRef<HTMLUListElement>(null);
+
+    const results = useMemo(() => (open ? searchNodes(nodes, query, type || undefined) : []), [open, nodes, query, type]);
+    const activeIndex = results.findIndex((r) => r.nodeId === activeId);
+
+    // The find shortcut opens the box, or focuses it again
+    useShortcutHandlers({
+        'find-node': () => {
+            setOpen(true);
+            requestAnimationFrame(() => {
+                inputRef.current?.focus();
+                inputRef.current?.select();
+            });
+        },
+    });
+
+    /**
+     * Active Result Scroll Effect
+     *
+     * Keeps the current result visible in the list.
+     */
+    useEffect(() => {
+        listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+    }, [activeId]);
+
+    /**
+     * Jump Helper
+     *
+     * Shows a result: reveals it if its group is collapsed, selects it and
+     * centers the canvas on it.
+     *
+     * @param index - Index of the result, wrapping around at both ends
+     */
+    const jumpTo = (index: number) => {
+        if (results.length === 0) return;
+        const { nodeId } = results[(index + results.length) % results.length];
+        const { nodes: current, updateNodeData } = useFlowStore.getState();
+
+        const group = current.find((n) => n.id === current.find((m) => m.id === nodeId)?.parentId);
+        if (isGroupNode(group) && group.data.collapsed) updateNodeData(group.id, { collapsed: false });
+
+        const { nodes: latest, setNodes, setSelectedNodeId } = useFlowStore.getState();
+        setNodes(
+            latest.map((n) => (!!n.selected === (n.id === nodeId) ? n : { ...n, selected: n.id === nodeId })),
+            { record: false }
+        );
+        setSelectedNodeId(nodeId);
+        setActiveId(nodeId);
+
+        // Wait a frame so a revealed node is on the canvas before fitting it
+        requestAnimationFrame(() =>
+            fitView({ nodes: [{ id: nodeId }], duration: JUMP_ANIMATION_MS, maxZoom: 1.25, padding: 0.5 })
+        );
+    };
+
+    /**
+     * Step Helper
+     *
+     * Moves to the next or previous result; the first move goes to the
+     * first (or last) result.
+     *
+     * @param back - Whether to move to the previous result
+     */
+    const step = (back: boolean) => {
+        if (activeIndex < 0) jumpTo(back ? -1 : 0);
+        else jumpTo(activeIndex + (back ? -1 : 1));
+    };
+
+    /**
+     * Key Down Handler
+     *
+     * Moves through the results from the search field and closes the box on
+     * Escape.
+     *
+     * @param e - The keyboard event
+     */
+    const onKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            setOpen(false);
+        } else if (e.key === 'Enter' || e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            step(e.key === 'ArrowUp' || (e.key === 'Enter' && e.shiftKey));
+        }
+    };
+
+    if (!open) return null;
+
+    const searching = query.trim() !== '' || type !== '';
+
+    return (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 w-96 bg-white rounded shadow-lg border border-gray-200">
+            {/* Search field, result position and close button */}
+            <div className="flex items-center gap-2 p-2 border-b border-gray-200">
+                <input
+                    ref={inputRef}
+                    type="text"
+                    autoFocus
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={onKeyDown}
+                    placeholder="Find nodes by text, label, file type or ID"
+                    className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {results.length > 0 ? `${activeIndex + 1 || '–'} / ${results.length}` : ''}
+                </span>
+                <button
+                    onClick={() => step(true)}
+                    disabled={results.length === 0}
+                    title="Previous match (Shift+Enter)"
+                    className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-40"
+                >
+                    ↑
+                </button>
+                <button
+                    onClick={() => step(false)}
+                    disabled={results.length === 0}
+                    title="Next match (Enter)"
+                    className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-40"
+                >
+                    ↓
+                </button>
+                <button onClick={() => setOpen(false)} title="Close (Esc)" className="text-gray-400 hover:text-gray-700">
+                    ×
+                </button>
+            </div>
+
+            {/* Node type filter */}
+            <div className="px-2 pt-2">
+                <select
+                    value={type}
+                    onChange={(e) => setType(e.target.value)}
+                    className="w-full p-1 border border-gray-300 rounded text-xs text-gray-700"
+                >
+                    <option value="">All node types</option>
+                    {getNodeTypes().map((d) => (
+                        <option key={d.type} value={d.type}>
+                            {d.palette.label}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Results */}
+            {!searching ? (
+                <div className="p-3 text-xs text-gray-500">Type to search, or pick a node type to list its nodes.</div>
+            ) : results.length === 0 ? (
+                <div className="p-3 text-sm text-gray-500 text-center">No matches</div>
+            ) : (
+                <ul ref={listRef} className="max-h-72 overflow-y-auto p-2 space-y-1">
+                    {results.map((result, index) => {
+                        const palette = getNodeType(result.type)?.palette;
+                        return (
+                            <li key={result.nodeId}>
+                                <button
+                                    onClick={() => jumpTo(index)}
+                                    aria-selected={index === activeIndex}
+                                    className={`w-full flex items-start gap-2 p-2 rounded text-left hover:bg-gray-50 ${
+                                        index === activeIndex ? 'bg-blue-50' : ''
+                                    }`}
+                                >
+                                    {/* Icon of the node type */}
+                                    <div
+                                        className={`w-5 h-5 shrink-0 rounded-full flex items-center justify-center ${
+                                            palette?.iconClassName ?? 'bg-gray-100 text-gray-600'
+                                        }`}
+                                    >
+                                        {palette && (
+                                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={palette.iconPath} />
+                                            </svg>
+                                        )}
+                                    </div>
+                                    <span className="flex-1 min-w-0">
+                                        <span className="block text-xs text-gray-500">
+                                            {palette?.label ?? result.type} · {NODE_SEARCH_FIELD_LABELS[result.field]}
+                                        </span>
+                                        <span className="block text-sm text-gray-800 truncate">
+                                            {result.snippet || <span className="italic text-gray-400">Empty</span>}
+                                        </span>
+                                    </span>
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default CanvasSearch;
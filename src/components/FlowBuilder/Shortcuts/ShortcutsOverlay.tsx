@@ -0,0 +1,228 @@
+/**
+ * Shortcuts Overlay Component
+ *
+ * This component shows the keyboard shortcut cheat sheet, opened with `?`
+ * or the `?` button in the canvas controls. Every remappable action can be
+ * given a new key combination right in the list; the bindings are saved in
+ * browser storage.
+ *
+ * Features:
+ * - All shortcuts, grouped like the cheat sheet sections
+ * - Recording a new key combination for an action
+ * - Taking a combination from the action that used it, with a notice
+ * - Removing an action's keys, and resetting one or all actions
+ * - A warning when browser storage refuses the new bindings
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useShortcutStore } from '../../../hooks/useShortcuts';
+import {
+    FIXED_SHORTCUTS,
+    SHORTCUT_GROUPS,
+    eventToBinding,
+    formatBinding,
+    getBindings,
+    getShortcutActions,
+} from '../../../utils/shortcuts';
+
+/**
+ * Key Caps Component
+ *
+ * @param binding - The binding to show
+ * @returns JSX element with one key cap per key of the binding
+ */
+const KeyCaps: React.FC<{ binding: string }> = ({ binding }) => (
+    <span className="inline-flex items-center gap-0.5">
+        {formatBinding(binding).map((cap, i) => (
+            <kbd key={i} className="px-1.5 py-0.5 rounded border border-gray-300 bg-gray-50 text-xs font-mono text-gray-700">
+                {cap}
+            </kbd>
+        ))}
+    </span>
+);
+
+/**
+ * Shortcuts Overlay Component
+ *
+ * Renders the cheat sheet while it is open.
+ *
+ * @returns JSX element representing the cheat sheet, or null while closed
+ */
+const ShortcutsOverlay: React.FC = () => {
+    // Get the bindings and actions from the shortcut store
+    const { overrides, saveError, helpOpen, setHelpOpen, setRecording, assign, clear, reset, resetAll } = useShortcutStore();
+
+    // Action whose new binding is being recorded, and feedback about the last change
+    const [recordingId, setRecordingId] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    /**
+     * Keyboard Effect
+     *
+     * While recording, the next key combination becomes the action's
+     * binding (Escape cancels). Otherwise Escape closes the cheat sheet.
+     */
+    useEffect(() => {
+        if (!helpOpen) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                if (recordingId) {
+                    setRecordingId(null);
+                    setRecording(false);
+                } else {
+                    setHelpOpen(false);
+                }
+                return;
+            }
+            if (!recordingId) return;
+
+            const binding = eventToBinding(e);
+            // Wait for a key other than a modifier
+            if (!binding) return;
+            e.preventDefault();
+
+            const result = assign(recordingId, binding);
+            if ('error' in result) {
+                setNotice(result.error);
+            } else {
+                const labels = result.displaced.map((a) => `"${a.label}"`).join(', ');
+                setNotice(labels ? `The keys were taken from ${labels}.` : null);
+            }
+            setRecordingId(null);
+            setRecording(false);
+        };
+        // Capture, so the keys never reach the shortcut manager or the canvas
+        document.addEventListener('keydown', onKeyDown, true);
+        return () => document.removeEventListener('keydown', onKeyDown, true);
+    }, [helpOpen, recordingId, assign, setHelpOpen, setRecording]);
+
+    /**
+     * Start Recording Handler
+     *
+     * @param id - ID of the action to record a binding for
+     */
+    const startRecording = (id: string) => {
+        setNotice(null);
+        setRecordingId(id);
+        setRecording(true);
+    };
+
+    /**
+     * Close Handler
+     *
+     * Closes the cheat sheet and forgets any unfinished recording.
+     */
+    const onClose = () => {
+        setRecordingId(null);
+        setNotice(null);
+        setHelpOpen(false);
+    };
+
+    if (!helpOpen) return null;
+
+    const actions = getShortcutActions();
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onMouseDown={onClose}>
+            <div
+                className="w-[36rem] max-h-[80vh] flex flex-col bg-white rounded shadow-lg"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                    <h4 className="font-semibold text-gray-700">Keyboard shortcuts</h4>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700">
+                        ×
+                    </button>
+                </div>
+
+                {/* Feedback about the last change */}
+                {notice && <div className="px-4 py-2 text-xs text-amber-700 bg-amber-50">{notice}</div>}
+                {saveError && <div className="px-4 py-2 text-xs text-red-700 bg-red-50">{saveError}</div>}
+
+                {/* Shortcut list, by section */}
+                <div className="flex-1 overflow-y-auto px-4 py-2">
+                    {SHORTCUT_GROUPS.map((group) => {
+                        const groupActions = actions.filter((a) => a.group === group);
+                        const fixed = FIXED_SHORTCUTS.filter((s) => s.group === group);
+                        if (groupActions.length === 0 && fixed.length === 0) return null;
+
+                        return (
+                            <div key={group} className="mb-3">
+                                {/* Section heading */}
+                                <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">{group}</div>
+
+                                {/* Remappable actions */}
+                                {groupActions.map((action) => {
+                                    const bindings = getBindings(action, overrides);
+                                    return (
+                                        <div key={action.id} className="flex items-center gap-2 py-1 text-sm">
+                                            <span className="flex-1 text-gray-800">{action.label}</span>
+                                            {recordingId === action.id ? (
+                                                <span className="text-xs text-blue-600">Press keys… (Esc to cancel)</span>
+                                            ) : (
+                                                <span className="flex items-center gap-2">
+                                                    {bindings.length === 0 && <span className="text-xs text-gray-400">No keys</span>}
+                                                    {bindings.map((binding) => (
+                                                        <KeyCaps key={binding} binding={binding} />
+                                                    ))}
+                                                </span>
+                                            )}
+                                            <button
+                                                onClick={() => startRecording(action.id)}
+                                                className="text-xs text-blue-600 hover:text-blue-800"
+                                            >
+                                                Change
+                                            </button>
+                                            <button
+                                                onClick={() => clear(action.id)}
+                                                disabled={bindings.length === 0}
+                                                className="text-xs text-gray-500 hover:text-gray-800 disabled:opacity-40"
+                                            >
+                                                Remove
+                                            </button>
+                                            <button
+                                                onClick={() => reset(action.id)}
+                                                disabled={!(action.id in overrides)}
+                                                className="text-xs text-gray-500 hover:text-gray-800 disabled:opacity-40"
+                                            >
+                                                Reset
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+
+                                {/* Browser shortcuts that cannot be remapped */}
+                                {fixed.map((shortcut) => (
+                                    <div key={shortcut.label} className="flex items-center gap-2 py-1 text-sm">
+                                        <span className="flex-1 text-gray-800">{shortcut.label}</span>
+                                        <KeyCaps binding={shortcut.binding} />
+                                        <span className="text-xs text-gray-400">Fixed</span>
+                                    </div>
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-between items-center px-4 py-3 border-t border-gray-200">
+                    <span className="text-xs text-gray-500">Only undo and redo work while typing in a text field.</span>
+                    <button
+                        onClick={() => {
+                            resetAll();
+                            setNotice(null);
+                        }}
+                        disabled={Object.keys(overrides).length === 0}
+                        className="px-3 py-1 rounded border border-gray-300 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                    >
+                        Reset all
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShortcutsOverlay;
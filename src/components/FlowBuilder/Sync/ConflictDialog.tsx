@@ -0,0 +1,136 @@
+/**
+ * Conflict Dialog Component
+ *
+ * This component asks the user how to resolve a version conflict with the
+ * flow backend: the open flow was saved on the server by someone else since
+ * the user's copy was last synced, so the user's copy cannot be saved
+ * without replacing that version.
+ *
+ * Features:
+ * - Keep mine: overwrite the server copy with the local copy
+ * - Take theirs: replace the local copy with the server copy (reported
+ *   here if browser storage has no room for it)
+ * - View the differences between the two copies
+ * - Closing keeps the conflict; the header's Resolve button reopens it
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useFlowSync } from '../../../hooks/useFlowSync';
+import FlowDiffList, { type DiffLabels } from './FlowDiffList';
+
+/** Wording of the differences: neither copy is known to be the newer one */
+const CONFLICT_LABELS: DiffLabels = {
+    added: 'only in your copy',
+    removed: 'only on the server',
+    modified: 'different',
+};
+
+/**
+ * Conflict Dialog Component
+ *
+ * Renders the resolution dialog while a conflict is open.
+ *
+ * @returns JSX element representing the dialog, or null while closed
+ */
+const ConflictDialog: React.FC = () => {
+    // Get the conflict from the sync store and the open flow from the flow store
+    const { conflict, conflictOpen, keepMine, takeTheirs, setConflictOpen } = useFlowSync();
+    const { flowId, flowName, nodes, edges, variables, localization, channels } = useFlowStore();
+
+    // Whether the differences are shown
+    const [showDiff, setShowDiff] = useState(false);
+    // Why the server copy could not be taken
+    const [takeError, setTakeError] = useState<string | null>(null);
+
+    /**
+     * Keyboard Effect
+     *
+     * Closes the dialog when Escape is pressed, and keeps keys from reaching
+     * the shortcut manager and the canvas behind the dialog.
+     */
+    useEffect(() => {
+        if (!conflictOpen) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            e.stopPropagation();
+            if (e.key !== 'Escape') return;
+            e.preventDefault();
+            setConflictOpen(false);
+        };
+        // Capture, so the listener runs before any other
+        document.addEventListener('keydown', onKeyDown, true);
+        return () => document.removeEventListener('keydown', onKeyDown, true);
+    }, [conflictOpen, setConflictOpen]);
+
+    if (!conflict || !conflictOpen) return null;
+
+    const { remote } = conflict;
+    // Compare against the open flow as it is now, which is what "Keep mine" sends
+    const mine = conflict.local.id === flowId ? { name: flowName, nodes, edges, variables, localization, channels } : conflict.local;
+
+    /**
+     * Take Theirs Handler
+     *
+     * Replaces the local copy after the user confirms, since the local
+     * changes are lost.
+     */
+    const onTakeTheirs = () => {
+        if (!window.confirm('Replace your copy with the server copy? Your changes will be lost.')) return;
+        setTakeError(takeTheirs() ? null : 'The server copy could not be stored: browser storage is full.');
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+            onMouseDown={() => setConflictOpen(false)}
+        >
+            <div
+                className="w-[36rem] max-h-[80vh] flex flex-col bg-white rounded shadow-lg"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                    <h4 className="font-semibold text-gray-700">This flow was changed on the server</h4>
+                    <button onClick={() => setConflictOpen(false)} className="text-gray-400 hover:text-gray-700">
+                        ×
+                    </button>
+                </div>
+
+                {/* Explanation and differences */}
+                <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+                    <p className="text-sm text-gray-700">
+                        "{remote.name}" was saved on the server at {new Date(remote.updatedAt).toLocaleString()} (version{' '}
+                        {remote.version}) after your copy was last synced. Choose which copy to keep.
+                    </p>
+                    <button onClick={() => setShowDiff(!showDiff)} className="text-xs text-blue-600 hover:text-blue-800">
+                        {showDiff ? 'Hide differences' : 'View differences'}
+                    </button>
+                    {showDiff && (
+                        <div className="p-3 rounded border border-gray-200 bg-gray-50">
+                            <FlowDiffList before={remote} after={mine} labels={CONFLICT_LABELS} />
+                        </div>
+                    )}
+                    {takeError && <p className="text-xs text-red-600">{takeError}</p>}
+                </div>
+
+                {/* Resolution actions */}
+                <div className="flex justify-end items-center gap-2 px-4 py-3 border-t border-gray-200">
+                    <button
+                        onClick={onTakeTheirs}
+                        className="px-3 py-1 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                        Take theirs
+                    </button>
+                    <button
+                        onClick={() => void keepMine()}
+                        className="px-3 py-1 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
+                    >
+                        Keep mine
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ConflictDialog;
@@ -0,0 +1,222 @@
+/**
+ * Flow Diff List Component
+ *
+ * This component lists the differences between two versions of a flow (see
+ * flowDiff.ts): the name, default locale and target channels, and the nodes,
+ * connections, variables and locales that were added, removed or changed,
+ * with the changed fields of every changed item.
+ *
+ * Features:
+ * - Color-coded entries (green added, red removed, amber changed)
+ * - Readable node and connection summaries instead of IDs
+ * - Old and new value of every changed field; moves are summarized
+ * - Caller-provided wording, for comparisons without an obvious direction
+ */
+
+import React from 'react';
+import { countChanges, diffFlows, type CollectionDiff, type DiffableFlow, type FieldChange } from '../../../utils/flowDiff';
+import { getNodeType } from '../../../utils/nodeRegistry';
+import { getLocaleName } from '../../../utils/localization';
+import { describeChannels } from '../../../utils/channels';
+import type { AppEdge, AppNode, FlowLocale, FlowVariable } from '../../../types/flow';
+
+/** Number of characters shown of a field value or message */
+const VALUE_LENGTH = 40;
+
+/**
+ * Diff Labels Interface
+ *
+ * Headings of the three kinds of differences.
+ */
+export interface DiffLabels {
+    added: string;
+    removed: string;
+    modified: string;
+}
+
+/** Default wording: `after` is the newer version */
+const DEFAULT_LABELS: DiffLabels = { added: 'Added', removed: 'Removed', modified: 'Changed' };
+
+/** Text and marker colors of the three kinds of differences */
+const KIND_STYLES = {
+    added: { marker: '+', className: 'text-green-700' },
+    removed: { marker: '−', className: 'text-red-700' },
+    modified: { marker: '~', className: 'text-amber-700' },
+};
+
+/**
+ * Truncate Helper
+ *
+ * @param text - Text to shorten
+ * @returns The text, cut to VALUE_LENGTH characters
+ */
+const truncate = (text: string) => (text.length > VALUE_LENGTH ? `${text.slice(0, VALUE_LENGTH)}…` : text);
+
+/**
+ * Format Value Helper
+ *
+ * @param value - A field value
+ * @returns The value as short text ("—" if absent)
+ */
+const formatValue = (value: unknown) => {
+    if (value === undefined) return '—';
+    return truncate(typeof value === 'string' ? `"${value}"` : JSON.stringify(value));
+};
+
+/**
+ * Node Title Helper
+ *
+ * @param node - A node
+ * @returns The node type's name and the start of its message, if any
+ */
+const nodeTitle = (node: AppNode) => {
+    const type = getNodeType(node.type)?.palette.label ?? node.type;
+    const text = 'text' in node.data && typeof node.data.text === 'string' ? node.data.text.trim() : '';
+    return text ? `${type}: ${truncate(text)}` : type;
+};
+
+/**
+ * Field Changes Component
+ *
+ * @param changes - The changed fields of an item
+ * @returns JSX element listing the fields with their old and new values
+ */
+const FieldChanges: React.FC<{ changes: FieldChange[] }> = ({ changes }) => {
+    // Position changes are a move, not a list of coordinates
+    const moved = changes.some((c) => c.path.startsWith('position.'));
+    const fields = changes.filter((c) => !c.path.startsWith('position.'));
+
+    return (
+        <ul className="ml-4 text-xs text-gray-600">
+            {moved && <li>Moved on the canvas</li>}
+            {fields.map((change) => (
+                <li key={change.path} className="truncate">
+                    <span className="font-mono">{change.path.replace(/^data\./, '')}</span>: {formatValue(change.before)} →{' '}
+                    {formatValue(change.after)}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+/**
+ * Collection Section Component
+ *
+ * @param title - Heading of the section
+ * @param diff - Differences of one kind of item
+ * @param describe - Summary of an item
+ * @param labels - Headings of the kinds of differences
+ * @returns JSX element listing the differences, or null if there are none
+ */
+function CollectionSection<T>({
+    title,
+    diff,
+    describe,
+    labels,
+}: {
+    title: string;
+    diff: CollectionDiff<T>;
+    describe: (item: T) => string;
+    labels: DiffLabels;
+}) {
+    const entries = [
+        ...diff.added.map((item) => ({ kind: 'added' as const, item, changes: [] as FieldChange[] })),
+        ...diff.removed.map((item) => ({ kind: 'removed' as const, item, changes: [] as FieldChange[] })),
+        ...diff.modified.map(({ after, changes }) => ({ kind: 'modified' as const, item: after, changes })),
+    ];
+    if (entries.length === 0) return null;
+
+    return (
+        <div className="mb-3">
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">{title}</div>
+            <ul className="space-y-1">
+                {entries.map(({ kind, item, changes }, i) => (
+                    <li key={i} className="text-sm">
+                        <div className={`truncate ${KIND_STYLES[kind].className}`}>
+                            <span className="font-mono mr-1">{KIND_STYLES[kind].marker}</span>
+                            {describe(item)}
+                            <span className="text-xs text-gray-400"> · {labels[kind]}</span>
+                        </div>
+                        {changes.length > 0 && <FieldChanges changes={changes} />}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+/**
+ * Flow Diff List Component
+ *
+ * @param before - The version compared against
+ * @param after - The version whose differences are listed
+ * @param labels - Headings of the kinds of differences
+ * @returns JSX element listing the differences
+ */
+const FlowDiffList: React.FC<{ before: DiffableFlow; after: DiffableFlow; labels?: DiffLabels }> = ({
+    before,
+    after,
+    labels = DEFAULT_LABELS,
+}) => {
+    const diff = diffFlows(before, after);
+    if (countChanges(diff) === 0) {
+        return <div className="text-sm text-gray-500">Both versions are the same.</div>;
+    }
+
+    // Connections are described by the nodes they join, in either version
+    const nodes = new Map([...before.nodes, ...after.nodes].map((n) => [n.id, n]));
+    const describeEnd = (id: string) => {
+        const node = nodes.get(id);
+        return node ? nodeTitle(node) : id;
+    };
+
+    return (
+        <div>
+            {diff.name && (
+                <div className="mb-3 text-sm">
+                    <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Name</div>
+                    <span className="text-amber-700">
+                        {formatValue(diff.name.before)} → {formatValue(diff.name.after)}
+                    </span>
+                </div>
+            )}
+            {diff.defaultLocale && (
+                <div className="mb-3 text-sm">
+                    <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Default locale</div>
+                    <span className="text-amber-700">
+                        {getLocaleName(diff.defaultLocale.before)} → {getLocaleName(diff.defaultLocale.after)}
+                    </span>
+                </div>
+            )}
+            {diff.channels && (
+                <div className="mb-3 text-sm">
+                    <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Channels</div>
+                    <span className="text-amber-700">
+                        {describeChannels(diff.channels.before)} → {describeChannels(diff.channels.after)}
+                    </span>
+                </div>
+            )}
+            <CollectionSection<AppNode> title="Nodes" diff={diff.nodes} describe={nodeTitle} labels={labels} />
+            <CollectionSection<AppEdge>
+                title="Connections"
+                diff={diff.edges}
+                describe={(e) => `${describeEnd(e.source)} → ${describeEnd(e.target)}`}
+                labels={labels}
+            />
+            <CollectionSection<FlowVariable>
+                title="Variables"
+                diff={diff.variables}
+                describe={(v) => `{{${v.name}}}`}
+                labels={labels}
+            />
+            <CollectionSection<FlowLocale>
+                title="Locales"
+                diff={diff.locales}
+                describe={(l) => `${getLocaleName(l.code)} (${l.code})`}
+                labels={labels}
+            />
+        </div>
+    );
+};
+
+export default FlowDiffList;
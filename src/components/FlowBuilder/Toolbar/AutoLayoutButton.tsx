@@ -0,0 +1,112 @@
+/**
+ * Auto Layout Button Component
+ *
+ * This component provides the Auto layout action in the header. The main
+ * button arranges the whole flow in layers from left to right; the menu
+ * next to it can arrange only the selected nodes, leaving the rest of the
+ * flow where it is.
+ *
+ * Features:
+ * - Layered layout that follows the edges, with few edge crossings
+ * - Animated move of the nodes to their new positions
+ * - Layout of only the current selection
+ * - A single undo step for the whole layout
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useAutoLayout } from '../../../hooks/useAutoLayout';
+
+/**
+ * Auto Layout Button Component
+ *
+ * Renders the auto layout button and its menu.
+ *
+ * @returns JSX element representing the auto layout action
+ */
+const AutoLayoutButton: React.FC = () => {
+    // Number of selected nodes, for the selection-only option
+    const selectedCount = useFlowStore((state) => state.nodes.filter((n) => n.selected).length);
+    const hasNodes = useFlowStore((state) => state.nodes.length > 0);
+    const runLayout = useAutoLayout();
+
+    // Local UI state for the menu
+    const [open, setOpen] = useState(false);
+
+    // Reference to the menu container for outside-click detection
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    /**
+     * Outside Click Effect
+     *
+     * Closes the menu when the user clicks anywhere outside of it.
+     */
+    useEffect(() => {
+        if (!open) return;
+        const onMouseDown = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) setOpen(false);
+        };
+        document.addEventListener('mousedown', onMouseDown);
+        return () => document.removeEventListener('mousedown', onMouseDown);
+    }, [open]);
+
+    /**
+     * Layout Handler
+     *
+     * Closes the menu and runs the layout.
+     *
+     * @param selectionOnly - Whether to lay out only the selected nodes
+     */
+    const onLayout = (selectionOnly: boolean) => {
+        setOpen(false);
+        runLayout(selectionOnly);
+    };
+
+    return (
+        <div className="relative flex items-center" ref={menuRef}>
+            {/* Whole flow layout button */}
+            <button
+                onClick={() => onLayout(false)}
+                disabled={!hasNodes}
+                title="Arrange the flow from left to right"
+                className="px-3 py-2 rounded-l border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+                Auto layout
+            </button>
+
+            {/* Menu toggle */}
+            <button
+                onClick={() => setOpen(!open)}
+                disabled={!hasNodes}
+                title="More layout options"
+                className="px-2 py-2 rounded-r border border-l-0 border-gray-300 text-sm text-gray-400 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+                ▾
+            </button>
+
+            {/* Layout options menu */}
+            {open && (
+                <div className="absolute right-0 top-full mt-2 w-56 bg-white border border-gray-200 rounded shadow-lg z-50 py-1">
+                    <button
+                        onClick={() => onLayout(false)}
+                        className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                        Whole flow
+                    </button>
+                    <button
+                        onClick={() => onLayout(true)}
+                        disabled={selectedCount < 2}
+                        className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        Selection only
+                        <span className="text-xs text-gray-500 ml-1">
+                            ({selectedCount} {selectedCount === 1 ? 'node' : 'nodes'})
+                        </span>
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AutoLayoutButton;
@@ -0,0 +1,297 @@
+/**
+ * Diagram Export Menu Component
+ *
+ * This component provides the Diagram action in the header. It exports the
+ * open flow, or only the selected nodes, as a picture or as a Mermaid
+ * diagram, for pasting flows into design docs, PR descriptions and markdown
+ * files.
+ *
+ * Features:
+ * - PNG and SVG images at 1×, 2× or 3× the canvas size (see flowImage.ts)
+ * - Images with or without the background grid and the sticky notes
+ * - Mermaid `flowchart LR` text, downloaded or copied to the clipboard
+ *   (see mermaid.ts)
+ * - Export of the whole flow or only the selection (selected groups bring
+ *   their members along)
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { getSelectionWithMembers } from '../../../utils/groups';
+import { renderFlowPng, renderFlowSvg, type ImageHandle } from '../../../utils/flowImage';
+import { toMermaid } from '../../../utils/mermaid';
+
+/** Image sizes offered, relative to the canvas at 100% zoom */
+const SCALES = [1, 2, 3];
+
+/**
+ * File Name Helper
+ *
+ * @param name - Name of the flow
+ * @param extension - Extension of the file, e.g. "png"
+ * @returns A file-system friendly file name for the export
+ */
+const toFileName = (name: string, extension: string) =>
+    `${name.trim().replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'flow'}.${extension}`;
+
+/**
+ * Download Helper
+ *
+ * @param blob - Contents of the file
+ * @param fileName - Name of the file
+ */
+const download = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Diagram Export Menu Component
+ *
+ * Renders the diagram button and its export options.
+ *
+ * @returns JSX element representing the diagram export action
+ */
+const DiagramExportMenu: React.FC = () => {
+    const flowName = useFlowStore((state) => state.flowName);
+    const hasNodes = useFlowStore((state) => state.nodes.length > 0);
+    const selectedCount = useFlowStore((state) => state.nodes.filter((n) => n.selected).length);
+    const { getInternalNode } = useReactFlow();
+
+    // Local UI state for the menu and its options
+    const [open, setOpen] = useState(false);
+    const [selectionOnly, setSelectionOnly] = useState(false);
+    const [scale, setScale] = useState(2);
+    const [background, setBackground] = useState(true);
+    const [notes, setNotes] = useState(true);
+
+    // Feedback of the last export
+    const [message, setMessage] = useState<{ kind: 'success' | 'error'; text: string } | null>(null);
+
+    // Reference to the menu container for outside-click detection
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    /**
+     * Outside Click Effect
+     *
+     * Closes the menu when the user clicks anywhere outside of it.
+     */
+    useEffect(() => {
+        if (!open) return;
+        const onMouseDown = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) setOpen(false);
+        };
+        document.addEventListener('mousedown', onMouseDown);
+        return () => document.removeEventListener('mousedown', onMouseDown);
+    }, [open]);
+
+    /**
+     * Feedback Helper
+     *
+     * Shows the outcome of an export; success messages clear themselves.
+     *
+     * @param kind - Whether the export worked
+     * @param text - The message
+     */
+    const report = (kind: 'success' | 'error', text: string) => {
+        setMessage({ kind, text });
+        if (kind === 'success') setTimeout(() => setMessage(null), 3000);
+    };
+
+    /**
+     * Scope Helper
+     *
+     * @returns The flow's nodes and edges, and the IDs of the nodes to export
+     * (undefined for the whole flow)
+     */
+    const scope = () => {
+        const { nodes, edges } = useFlowStore.getState();
+        const nodeIds = selectionOnly && selectedCount > 0 ? new Set(getSelectionWithMembers(nodes).map((n) => n.id)) : undefined;
+        return { nodes, edges, nodeIds };
+    };
+
+    /**
+     * Handles Helper
+     *
+     * @param nodeId - ID of a node
+     * @returns The node's handles where the canvas measured them, if it did
+     */
+    const getHandles = (nodeId: string): ImageHandle[] | undefined => {
+        const bounds = getInternalNode(nodeId)?.internals.handleBounds;
+        if (!bounds) return undefined;
+        return [...(bounds.target ?? []), ...(bounds.source ?? [])].map((h) => ({
+            type: h.type,
+            id: h.id ?? null,
+            x: h.x + h.width / 2,
+            y: h.y + h.height / 2,
+        }));
+    };
+
+    /**
+     * Image Export Handler
+     *
+     * Draws the flow and downloads it as an SVG or PNG file.
+     *
+     * @param format - The image format
+     */
+    const onExportImage = async (format: 'svg' | 'png') => {
+        const { nodes, edges, nodeIds } = scope();
+        const image = renderFlowSvg(nodes, edges, { nodeIds, scale, background, notes, getHandles });
+        if (!image) {
+            report('error', 'Nothing to export.');
+            return;
+        }
+
+        if (format === 'svg') {
+            download(new Blob([image.svg], { type: 'image/svg+xml' }), toFileName(flowName, 'svg'));
+        } else {
+            const png = await renderFlowPng(image);
+            if (!png) {
+                report('error', 'The image is too large for this browser. Try a smaller scale.');
+                return;
+            }
+            download(png, toFileName(flowName, 'png'));
+        }
+        setOpen(false);
+        report('success', `${format.toUpperCase()} exported.`);
+    };
+
+    /**
+     * Mermaid Export Handler
+     *
+     * Writes the flow as a Mermaid diagram and downloads it or copies it to
+     * the clipboard.
+     *
+     * @param copy - Whether to copy the diagram instead of downloading it
+     */
+    const onExportMermaid = async (copy: boolean) => {
+        const { nodes, edges, nodeIds } = scope();
+        const diagram = toMermaid(nodes, edges, nodeIds);
+        setOpen(false);
+
+        if (!copy) {
+            download(new Blob([diagram], { type: 'text/plain' }), toFileName(flowName, 'mmd'));
+            report('success', 'Mermaid diagram exported.');
+            return;
+        }
+        try {
+            await navigator.clipboard.writeText(diagram);
+            report('success', 'Mermaid diagram copied.');
+        } catch {
+            report('error', 'The clipboard is not available.');
+        }
+    };
+
+    return (
+        <div className="relative flex items-center" ref={menuRef}>
+            {/* Menu toggle */}
+            <button
+                onClick={() => setOpen(!open)}
+                disabled={!hasNodes}
+                title="Export the flow as an image or a Mermaid diagram"
+                className="px-3 py-2 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+                Diagram ▾
+            </button>
+
+            {/* Export feedback */}
+            {message && (
+                <div className={`text-sm ml-2 ${message.kind === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {/* Export options */}
+            {open && (
+                <div className="absolute right-0 top-full mt-2 w-72 bg-white border border-gray-200 rounded shadow-lg z-50 p-3 space-y-3 text-sm text-gray-700">
+                    {/* Scope */}
+                    <div className="space-y-1">
+                        <label className="flex items-center gap-2">
+                            <input type="radio" checked={!selectionOnly} onChange={() => setSelectionOnly(false)} />
+                            Whole flow
+                        </label>
+                        <label className={`flex items-center gap-2 ${selectedCount === 0 ? 'opacity-40' : ''}`}>
+                            <input
+                                type="radio"
+                                checked={selectionOnly && selectedCount > 0}
+                                disabled={selectedCount === 0}
+                                onChange={() => setSelectionOnly(true)}
+                            />
+                            Selection only
+                            <span className="text-xs text-gray-500">
+                                ({selectedCount} {selectedCount === 1 ? 'node' : 'nodes'})
+                            </span>
+                        </label>
+                    </div>
+
+                    {/* Image options */}
+                    <div className="pt-3 border-t border-gray-200 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs text-gray-600">Scale</span>
+                            {SCALES.map((s) => (
+                                <button
+                                    key={s}
+                                    onClick={() => setScale(s)}
+                                    aria-pressed={scale === s}
+                                    className={`px-2 py-0.5 rounded border text-xs ${
+                                        scale === s ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300'
+                                    }`}
+                                >
+                                    {s}×
+                                </button>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={background} onChange={(e) => setBackground(e.target.checked)} />
+                            Background grid
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={notes} onChange={(e) => setNotes(e.target.checked)} />
+                            Sticky notes
+                        </label>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => onExportImage('png')}
+                                className="flex-1 px-3 py-1 rounded bg-blue-500 text-white text-xs hover:bg-blue-600"
+                            >
+                                PNG
+                            </button>
+                            <button
+                                onClick={() => onExportImage('svg')}
+                                className="flex-1 px-3 py-1 rounded bg-blue-500 text-white text-xs hover:bg-blue-600"
+                            >
+                                SVG
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Mermaid options */}
+                    <div className="pt-3 border-t border-gray-200 space-y-2">
+                        <div className="text-xs text-gray-600">Mermaid flowchart (sticky notes are left out)</div>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => onExportMermaid(false)}
+                                className="flex-1 px-3 py-1 rounded border border-gray-300 text-xs hover:bg-gray-50"
+                            >
+                                Download .mmd
+                            </button>
+                            <button
+                                onClick={() => onExportMermaid(true)}
+                                className="flex-1 px-3 py-1 rounded border border-gray-300 text-xs hover:bg-gray-50"
+                            >
+                                Copy
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DiagramExportMenu;
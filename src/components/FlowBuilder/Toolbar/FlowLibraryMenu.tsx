@@ -0,0 +1,190 @@
+/**
+ * Flow Library Menu Component
+ *
+ * This component shows the name of the open flow in the header and opens a
+ * dropdown with the library of named flows saved in browser storage.
+ *
+ * Features:
+ * - Create a new flow
+ * - Open any saved flow (the current one is saved first)
+ * - Inline renaming of flows
+ * - Duplicate and delete flows (deleting also removes the server copy)
+ * - Last-updated time for every flow
+ *
+ * The component delegates all persistence to the flow library store.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useFlowLibrary } from '../../../hooks/useFlowLibrary';
+import { useFlowSync } from '../../../hooks/useFlowSync';
+
+/**
+ * Flow Library Menu Component
+ *
+ * Renders the flow name button and the flow library dropdown.
+ *
+ * @returns JSX element representing the flow library menu
+ */
+const FlowLibraryMenu: React.FC = () => {
+    // Get the open flow from the flow store and the library from its store
+    const { flowId, flowName } = useFlowStore();
+    const { flows, createFlow, openFlow, renameFlow, duplicateFlow, deleteFlow } = useFlowLibrary();
+    const removeFromServer = useFlowSync((state) => state.remove);
+
+    // Local UI state for the dropdown and inline renaming
+    const [open, setOpen] = useState(false);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    // Reference to the menu container for outside-click detection
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    /**
+     * Outside Click Effect
+     *
+     * Closes the dropdown when the user clicks anywhere outside of it.
+     */
+    useEffect(() => {
+        if (!open) return;
+        const onMouseDown = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setOpen(false);
+                setRenamingId(null);
+            }
+        };
+        document.addEventListener('mousedown', onMouseDown);
+        return () => document.removeEventListener('mousedown', onMouseDown);
+    }, [open]);
+
+    /**
+     * Start Rename Handler
+     *
+     * Switches a flow row into inline editing mode.
+     *
+     * @param id - ID of the flow to rename
+     * @param name - Current name of the flow
+     */
+    const startRename = (id: string, name: string) => {
+        setRenamingId(id);
+        setDraftName(name);
+    };
+
+    /**
+     * Commit Rename Handler
+     *
+     * Applies the inline name edit and leaves editing mode.
+     */
+    const commitRename = () => {
+        if (renamingId) renameFlow(renamingId, draftName);
+        setRenamingId(null);
+    };
+
+    /**
+     * Delete Handler
+     *
+     * Deletes a flow after the user confirms, also from the server.
+     *
+     * @param id - ID of the flow to delete
+     * @param name - Name of the flow, shown in the confirmation
+     */
+    const onDelete = (id: string, name: string) => {
+        if (window.confirm(`Delete "${name}"? This cannot be undone.`)) {
+            deleteFlow(id);
+            void removeFromServer(id);
+        }
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            {/* Open flow name / dropdown toggle */}
+            <button
+                onClick={() => setOpen(!open)}
+                className="flex items-center gap-1 px-2 py-1 rounded text-sm text-gray-700 hover:bg-gray-100"
+                title="Open flow library"
+            >
+                <span className="font-medium max-w-48 truncate">{flowName}</span>
+                <span className="text-gray-400">▾</span>
+            </button>
+
+            {/* Flow Library Dropdown */}
+            {open && (
+                <div className="absolute left-0 mt-2 w-96 bg-white border border-gray-200 rounded shadow-lg z-50">
+                    {/* Dropdown Header */}
+                    <div className="flex justify-between items-center px-3 py-2 border-b border-gray-200">
+                        <h4 className="font-semibold text-gray-700 text-sm">Flows</h4>
+                        <button
+                            onClick={() => createFlow()}
+                            className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
+                        >
+                            New flow
+                        </button>
+                    </div>
+
+                    {/* Saved Flows List */}
+                    <ul className="max-h-80 overflow-y-auto">
+                        {flows.map((flow) => (
+                            <li
+                                key={flow.id}
+                                className={`flex items-center gap-2 px-3 py-2 text-sm border-b border-gray-100 ${
+                                    flow.id === flowId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                                }`}
+                            >
+                                {renamingId === flow.id ? (
+                                    // Inline rename input
+                                    <input
+                                        autoFocus
+                                        className="flex-1 p-1 border rounded text-sm"
+                                        value={draftName}
+                                        onChange={(e) => setDraftName(e.target.value)}
+                                        onBlur={commitRename}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitRename();
+                                            if (e.key === 'Escape') setRenamingId(null);
+                                        }}
+                                    />
+                                ) : (
+                                    // Flow name and last update time; click to open
+                                    <button
+                                        onClick={() => {
+                                            openFlow(flow.id);
+                                            setOpen(false);
+                                        }}
+                                        className="flex-1 text-left min-w-0"
+                                    >
+                                        <div className="truncate text-gray-800">{flow.name}</div>
+                                        <div className="text-xs text-gray-500">
+                                            Updated {new Date(flow.updatedAt).toLocaleString()}
+                                        </div>
+                                    </button>
+                                )}
+
+                                {/* Row actions */}
+                                <button
+                                    onClick={() => startRename(flow.id, flow.name)}
+                                    className="text-xs text-gray-500 hover:text-gray-800"
+                                >
+                                    Rename
+                                </button>
+                                <button
+                                    onClick={() => duplicateFlow(flow.id)}
+                                    className="text-xs text-gray-500 hover:text-gray-800"
+                                >
+                                    Duplicate
+                                </button>
+                                <button
+                                    onClick={() => onDelete(flow.id, flow.name)}
+                                    className="text-xs text-red-500 hover:text-red-700"
+                                >
+                                    Delete
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FlowLibraryMenu;
@@ -0,0 +1,64 @@
+/**
+ * Group Button Component
+ *
+ * This component provides the Group action in the header. It wraps the
+ * selected nodes in a group, or removes the group when a group is the
+ * only selected node.
+ *
+ * Features:
+ * - Grouping of the selection as a single undo step
+ * - Ungrouping of a selected group (its members stay where they are)
+ * - The reason the selection cannot be grouped in the button tooltip
+ * - Keyboard shortcut hints in the button tooltip, following remapped keys
+ */
+
+import React from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { groupSelection, ungroupSelection } from '../../../hooks/useCanvasShortcuts';
+import { useShortcutHint } from '../../../hooks/useShortcuts';
+import { groupNodes, isGroupNode } from '../../../utils/groups';
+
+/**
+ * Group Button Component
+ *
+ * Renders the group/ungroup button for the flow builder header.
+ *
+ * @returns JSX element representing the group action
+ */
+const GroupButton: React.FC = () => {
+    const nodes = useFlowStore((state) => state.nodes);
+
+    // Current keys of the group and ungroup shortcuts
+    const groupHint = useShortcutHint('group');
+    const ungroupHint = useShortcutHint('ungroup');
+
+    const selected = nodes.filter((n) => n.selected);
+
+    if (selected.length === 1 && isGroupNode(selected[0])) {
+        return (
+            <button
+                onClick={ungroupSelection}
+                title={`Remove the group, keeping its nodes${ungroupHint}`}
+                className="px-3 py-2 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+            >
+                Ungroup
+            </button>
+        );
+    }
+
+    // Dry run, so the button explains why the selection cannot be grouped
+    const check = groupNodes(nodes, selected.map((n) => n.id));
+
+    return (
+        <button
+            onClick={groupSelection}
+            disabled={!check.ok}
+            title={check.ok ? `Group the selected nodes${groupHint}` : check.reason}
+            className="px-3 py-2 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+            Group
+        </button>
+    );
+};
+
+export default GroupButton;
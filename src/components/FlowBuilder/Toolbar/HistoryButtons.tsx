@@ -0,0 +1,58 @@
+/**
+ * History Buttons Component
+ *
+ * This component provides the undo and redo buttons shown in the header
+ * next to the save button. It reads the history stacks from the flow store
+ * and disables each button when there is nothing to undo or redo.
+ *
+ * Features:
+ * - Undo/redo of every canvas and settings panel edit
+ * - Disabled state when the corresponding history stack is empty
+ * - Keyboard shortcut hints in the button tooltips, following remapped keys
+ */
+
+import React from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useShortcutHint } from '../../../hooks/useShortcuts';
+
+/**
+ * History Buttons Component
+ *
+ * Renders the undo and redo buttons for the flow builder header.
+ *
+ * @returns JSX element representing the undo/redo button group
+ */
+const HistoryButtons: React.FC = () => {
+    // Get history state and actions from Zustand store
+    const { past, future, undo, redo } = useFlowStore();
+
+    // Current keys of the undo and redo shortcuts
+    const undoHint = useShortcutHint('undo');
+    const redoHint = useShortcutHint('redo');
+
+    return (
+        <div className="flex items-center gap-1">
+            {/* Undo Button */}
+            <button
+                onClick={undo}
+                disabled={past.length === 0}
+                title={`Undo${undoHint}`}
+                className="px-3 py-2 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+                Undo
+            </button>
+
+            {/* Redo Button */}
+            <button
+                onClick={redo}
+                disabled={future.length === 0}
+                title={`Redo${redoHint}`}
+                className="px-3 py-2 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+                Redo
+            </button>
+        </div>
+    );
+};
+
+export default HistoryButtons;
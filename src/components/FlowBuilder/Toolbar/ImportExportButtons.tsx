@@ -0,0 +1,183 @@
+/**
+ * Import/Export Buttons Component
+ *
+ * This component provides the Export and Import actions in the header.
+ * Export downloads the open flow as a versioned JSON file; Import reads such
+ * a file, migrates it to the current schema and opens it as a new flow.
+ *
+ * Features:
+ * - Pretty-printed `.flow.json` files that diff well in git
+ * - Migration of files written by older versions of the app
+ * - Readable error report for malformed files (the store is left untouched)
+ * - One-click repair of files whose only problems are missing fields
+ * - Auto-clearing success feedback
+ */
+
+import React, { useRef, useState } from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useFlowLibrary } from '../../../hooks/useFlowLibrary';
+import { parseFlowFile, serializeFlow } from '../../../utils/flowFile';
+
+/**
+ * File Name Helper
+ *
+ * @param name - Name of the flow
+ * @returns A file-system friendly file name for the export
+ */
+const toFileName = (name: string) =>
+    `${name.trim().replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'flow'}.flow.json`;
+
+/**
+ * Import/Export Buttons Component
+ *
+ * Renders the export and import buttons and the import error report.
+ *
+ * @returns JSX element representing the import/export actions
+ */
+const ImportExportButtons: React.FC = () => {
+    // Get the open flow from the flow store and the import action from the library
+    const { flowName, nodes, edges, variables, localization, channels } = useFlowStore();
+    const { importFlow } = useFlowLibrary();
+
+    // Local state for the import error report and success feedback
+    const [errors, setErrors] = useState<string[] | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+
+    // Contents of a failed file that can be imported by repairing it
+    const [repairableText, setRepairableText] = useState<string | null>(null);
+
+    // Reference to the hidden file input used for imports
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    /**
+     * Export Handler
+     *
+     * Serializes the open flow and triggers a download of the JSON file.
+     */
+    const onExport = () => {
+        const blob = new Blob([serializeFlow(flowName, nodes, edges, variables, localization, channels)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = toFileName(flowName);
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    /**
+     * Import Text Helper
+     *
+     * Parses file contents and either opens them as a new flow or shows
+     * the list of problems found in them.
+     *
+     * @param text - The file contents
+     * @param repair - Whether to fill in missing fields with defaults
+     */
+    const importText = (text: string, repair: boolean) => {
+        setErrors(null);
+        setSuccess(null);
+        setRepairableText(null);
+
+        const result = parseFlowFile(text, { repair });
+        if (!result.ok) {
+            setErrors(result.errors);
+            setRepairableText(result.repairable ? text : null);
+            return;
+        }
+
+        importFlow(result.file);
+        setSuccess(['Flow imported.', ...result.warnings].join(' '));
+        setTimeout(() => setSuccess(null), 3000);
+    };
+
+    /**
+     * Import File Handler
+     *
+     * Reads the chosen file and imports it.
+     *
+     * @param e - The change event from the file input
+     */
+    const onFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Reset the input so choosing the same file again still fires a change
+        e.target.value = '';
+        if (!file) return;
+
+        importText(await file.text(), false);
+    };
+
+    /**
+     * Close Report Handler
+     *
+     * Dismisses the import error report.
+     */
+    const onCloseReport = () => {
+        setErrors(null);
+        setRepairableText(null);
+    };
+
+    return (
+        <div className="relative flex items-center gap-1">
+            {/* Export Button */}
+            <button
+                onClick={onExport}
+                title="Download the open flow as JSON"
+                className="px-3 py-2 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+            >
+                Export
+            </button>
+
+            {/* Import Button and hidden file input */}
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                title="Open a flow from a JSON file"
+                className="px-3 py-2 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+            >
+                Import
+            </button>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={onFileChosen}
+            />
+
+            {/* Success Message Display */}
+            {success && <div className="text-sm text-green-600 ml-2">{success}</div>}
+
+            {/* Import Error Report */}
+            {errors && (
+                <div className="absolute right-0 top-full mt-2 w-96 bg-white border border-red-200 rounded shadow-lg z-50">
+                    <div className="flex justify-between items-center px-3 py-2 border-b border-red-100">
+                        <h4 className="font-semibold text-red-700 text-sm">
+                            Import failed ({errors.length} {errors.length === 1 ? 'problem' : 'problems'})
+                        </h4>
+                        <button onClick={onCloseReport} className="text-gray-400 hover:text-gray-700">
+                            ×
+                        </button>
+                    </div>
+                    <ul className="max-h-64 overflow-y-auto px-3 py-2 space-y-1 text-xs text-gray-700 font-mono">
+                        {errors.map((message, index) => (
+                            <li key={index}>{message}</li>
+                        ))}
+                    </ul>
+                    {/* Repair option when every problem is a missing field */}
+                    {repairableText !== null && (
+                        <div className="flex justify-between items-center gap-2 px-3 py-2 border-t border-red-100">
+                            <span className="text-xs text-gray-600">Missing fields can be filled in with defaults.</span>
+                            <button
+                                onClick={() => importText(repairableText, true)}
+                                className="px-3 py-1 rounded bg-blue-500 text-white text-xs hover:bg-blue-600"
+                            >
+                                Repair and import
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ImportExportButtons;
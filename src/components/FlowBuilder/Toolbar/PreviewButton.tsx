@@ -0,0 +1,34 @@
+/**
+ * Preview Button Component
+ *
+ * This component toggles the chat preview drawer, which runs the current
+ * flow as a conversation.
+ */
+
+import React from 'react';
+import { usePreviewStore } from '../../../hooks/usePreviewStore';
+
+/**
+ * Preview Button Component
+ *
+ * Renders the header button that opens and closes the chat preview.
+ *
+ * @returns JSX element representing the preview toggle button
+ */
+const PreviewButton: React.FC = () => {
+    // Get the drawer state and actions from the preview store
+    const { open, openPreview, closePreview } = usePreviewStore();
+
+    return (
+        <button
+            onClick={open ? closePreview : openPreview}
+            className={`px-3 py-2 rounded border text-sm ${
+                open ? 'border-amber-400 bg-amber-50 text-amber-800' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+        >
+            {open ? 'Close preview' : 'Preview'}
+        </button>
+    );
+};
+
+export default PreviewButton;
@@ -2,14 +2,20 @@
  * Save Button Component
  * 
  * This component provides the save functionality for the flow builder.
- * It validates the current flow structure before saving and provides
- * user feedback through success and error messages.
+ * It validates the current flow structure before saving, saves it to the
+ * flow backend and provides user feedback through success and error messages.
  * 
  * Features:
- * - Flow validation before saving
+ * - Flow validation before saving (only errors block saving; warnings
+ *   and info are listed in the problems panel)
  * - Real-time error and success feedback
  * - Auto-clearing success messages
- * - Console logging for demo purposes
+ * - Immediate persistence to browser storage (in addition to autosave)
+ * - Saving to the flow backend, with version conflicts handed to the
+ *   conflict dialog and server errors shown in the header
+ * - A revision recorded for every save, with an optional note, before the
+ *   flow is sent to the server (nothing is sent when browser storage has no
+ *   room for it; pruned old revisions are reported)
  * - Clean, accessible button design
  * 
  * The component integrates with the flow validation utility to ensure
@@ -18,6 +24,10 @@
 
 import React, { useState } from 'react';
 import { useFlowStore } from '../../../hooks/useFlowState';
+import { useFlowLibrary } from '../../../hooks/useFlowLibrary';
+import { useFlowSync } from '../../../hooks/useFlowSync';
+import { useRevisions } from '../../../hooks/useRevisions';
+import { MAX_REVISIONS } from '../../../utils/revisions';
 import { validateBeforeSave } from '../../../utils/validateFlow';
 
 /**
@@ -30,40 +40,65 @@ import { validateBeforeSave } from '../../../utils/validateFlow';
  */
 const SaveButton: React.FC = () => {
     // Get current flow state from Zustand store
-    const { nodes, edges } = useFlowStore();
+    const { flowId, nodes, edges, variables, localization, channels } = useFlowStore();
+    const { saveCurrent } = useFlowLibrary();
+    const { status, push } = useFlowSync();
+    const record = useRevisions((state) => state.record);
 
     // Local state for managing user feedback
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState<string | null>(null);
 
+    // Note stored with the revision of the next save
+    const [note, setNote] = useState('');
+
     /**
      * Save Flow Handler
      * 
      * Validates the current flow and saves it if valid.
      * Provides user feedback through error and success messages.
      * 
-     * For demo purposes, the flow is logged to console instead of
-     * being sent to a backend API.
+     * The flow is written to browser storage right away instead of
+     * waiting for the next autosave and recorded as a revision with the
+     * entered note, then sent to the server. Both local writes come first:
+     * if browser storage refuses either of them, nothing is sent. Failed and
+     * conflicting server saves are reported by the header's server status.
      */
-    const onSave = () => {
+    const onSave = async () => {
         // Clear any previous feedback messages
         setError(null);
         setSuccess(null);
 
         // Validate the current flow structure
-        const result = validateBeforeSave(nodes, edges);
+        const result = validateBeforeSave(nodes, edges, variables, flowId, localization, channels);
 
-        // If validation fails, show error message and return early
+        // If validation fails, show the first error and return early
+        // (the full list of issues is shown in the problems panel)
         if (!result.ok) {
             setError(result.message || 'Validation failed.');
             return;
         }
 
-        // If validation passes, proceed with saving
-        // In a real application, this would POST to a backend API
-        const payload = { nodes, edges };
-        console.log('Saving flow:', payload);
-        setSuccess('Flow saved successfully.');
+        // If validation passes, persist the flow and its revision immediately
+        if (!saveCurrent()) {
+            setError('Flow not saved: browser storage is full. Delete flows you no longer need.');
+            return;
+        }
+        const pruned = record(note);
+        // The note is kept for another try if its revision could not be recorded
+        if (pruned === null) {
+            setError('Flow saved in the browser, but not sent: its revision could not be recorded because browser storage is full.');
+            return;
+        }
+        setNote('');
+
+        // Then send it to the server
+        if (!(await push())) return;
+        setSuccess(
+            pruned > 0
+                ? `Flow saved successfully. The ${pruned === 1 ? 'oldest revision was' : `${pruned} oldest revisions were`} removed; ${MAX_REVISIONS} are kept.`
+                : 'Flow saved successfully.'
+        );
 
         // Auto-clear success message after 3 seconds for better UX
         setTimeout(() => setSuccess(null), 3000);
@@ -71,12 +106,26 @@ const SaveButton: React.FC = () => {
 
     return (
         <div className="flex items-center gap-3">
+            {/* Revision note */}
+            <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                onKeyDown={(e) => {
+                    // Like the button, Enter does nothing while a save is running
+                    if (e.key === 'Enter' && status !== 'saving') void onSave();
+                }}
+                placeholder="Revision note (optional)"
+                className="w-48 p-2 border rounded text-sm"
+            />
+
             {/* Save Button */}
             <button
                 onClick={onSave}
-                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded shadow"
+                disabled={status === 'saving'}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded shadow disabled:opacity-60"
             >
-                Save
+                {status === 'saving' ? 'Saving…' : 'Save'}
             </button>
 
             {/* Error Message Display */}
@@ -0,0 +1,40 @@
+/**
+ * Save Indicator Component
+ *
+ * This component shows whether the open flow is persisted in browser storage.
+ * It displays "Unsaved changes" while an autosave is pending and the time of
+ * the last save otherwise, or why the last save failed (e.g. storage full).
+ */
+
+import React from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useFlowLibrary } from '../../../hooks/useFlowLibrary';
+
+/**
+ * Save Indicator Component
+ *
+ * Renders the autosave status text shown in the header.
+ *
+ * @returns JSX element representing the save status
+ */
+const SaveIndicator: React.FC = () => {
+    // Get persistence state from Zustand store
+    const { dirty, lastSavedAt } = useFlowStore();
+    const saveError = useFlowLibrary((state) => state.saveError);
+
+    if (saveError) {
+        return <span className="text-xs text-red-600">{saveError}</span>;
+    }
+
+    if (dirty) {
+        return <span className="text-xs text-amber-600">Unsaved changes</span>;
+    }
+
+    return (
+        <span className="text-xs text-gray-500">
+            {lastSavedAt ? `Last saved ${new Date(lastSavedAt).toLocaleTimeString()}` : 'Not saved yet'}
+        </span>
+    );
+};
+
+export default SaveIndicator;
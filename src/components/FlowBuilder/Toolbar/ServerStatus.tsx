@@ -0,0 +1,95 @@
+/**
+ * Server Status Component
+ *
+ * This component shows how the open flow stands with the flow backend, next
+ * to the autosave status in the header: whether a request is running,
+ * whether the server copy is up to date, and what went wrong.
+ *
+ * Features:
+ * - Loading and saving progress
+ * - Server version of the open flow, or a hint that it has unsaved changes
+ * - Error message with a Retry button
+ * - Conflict notice with a button that reopens the resolution dialog
+ * - Notice of flows from the server that had to be repaired to match this
+ *   version, until dismissed
+ */
+
+import React from 'react';
+import { useFlowStore } from '../../../hooks/useFlowState';
+import { useFlowSync } from '../../../hooks/useFlowSync';
+
+/**
+ * Server Status Component
+ *
+ * Renders the server sync status text shown in the header.
+ *
+ * @returns JSX element representing the server status
+ */
+const ServerStatus: React.FC = () => {
+    // Get the open flow from the flow store and the sync state from its store
+    const { flowId, dirty, lastSavedAt } = useFlowStore();
+    const { status, message, failed, records, repairNotice, retry, setConflictOpen, dismissRepairNotice } = useFlowSync();
+
+    if (status === 'loading') {
+        return <span className="text-xs text-gray-500">Checking the server…</span>;
+    }
+
+    if (status === 'saving') {
+        return <span className="text-xs text-gray-500">Saving to the server…</span>;
+    }
+
+    if (status === 'conflict') {
+        return (
+            <span className="flex items-center gap-2 text-xs text-amber-700">
+                Changed on the server
+                <button onClick={() => setConflictOpen(true)} className="underline hover:text-amber-900">
+                    Resolve
+                </button>
+            </span>
+        );
+    }
+
+    if (status === 'error') {
+        return (
+            <span className="flex items-center gap-2 text-xs text-red-600" title={message ?? undefined}>
+                <span className="max-w-64 truncate">{message ?? 'Server error'}</span>
+                {failed && (
+                    <button onClick={retry} className="underline hover:text-red-800">
+                        Retry
+                    </button>
+                )}
+            </span>
+        );
+    }
+
+    // Flows from the server that had to be repaired, shown next to the status
+    const notice = repairNotice && (
+        <span className="flex items-center gap-1 text-amber-700" title={repairNotice}>
+            <span className="max-w-64 truncate">{repairNotice}</span>
+            <button onClick={dismissRepairNotice} className="hover:text-amber-900" aria-label="Dismiss">
+                ×
+            </button>
+        </span>
+    );
+
+    const record = records[flowId];
+    if (!record) {
+        return (
+            <span className="flex items-center gap-2 text-xs text-gray-400">
+                Not on the server yet
+                {notice}
+            </span>
+        );
+    }
+
+    // Edits autosaved after the last server save only exist in this browser
+    const behind = dirty || (lastSavedAt ?? 0) > record.updatedAt;
+    return (
+        <span className="flex items-center gap-2 text-xs text-gray-500">
+            {behind ? 'Server copy is out of date' : `On the server (version ${record.version})`}
+            {notice}
+        </span>
+    );
+};
+
+export default ServerStatus;
@@ -0,0 +1,123 @@
+/**
+ * Auto Layout Hook
+ *
+ * This hook runs the automatic layout (see autoLayout.ts) on the open flow
+ * and animates the nodes from their current positions to the new ones.
+ *
+ * The animation frames are not recorded in the undo history; the finished
+ * layout is recorded as a single step, so one undo puts every node back
+ * where it was. Users who prefer reduced motion get the layout without the
+ * animation.
+ *
+ * Groups are laid out as single nodes; their members keep their place
+ * inside them. Notes are not laid out: they stay where they were put.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import type { AppNode } from '../types/flow';
+import { useFlowStore } from './useFlowState';
+import { computeLayout } from '../utils/autoLayout';
+import { getGroupOwners, liftEdge } from '../utils/groups';
+import { isAnnotationNode } from '../utils/nodeRegistry';
+
+/** Duration (ms) of the layout animation and the following viewport move */
+export const LAYOUT_ANIMATION_MS = 400;
+
+/**
+ * Ease In Out Helper
+ *
+ * @param t - Progress of the animation, from 0 to 1
+ * @returns Eased progress (cubic)
+ */
+const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+/**
+ * Auto Layout Hook
+ *
+ * @returns A function that lays out the whole flow, or only the selected
+ * nodes if `selectionOnly` is true
+ */
+export function useAutoLayout() {
+  const { fitView } = useReactFlow();
+
+  // Frame of the running animation, null when no animation is running
+  const frame = useRef<number | null>(null);
+
+  // Stop a running animation when the component unmounts
+  useEffect(
+    () => () => {
+      if (frame.current !== null) cancelAnimationFrame(frame.current);
+    },
+    []
+  );
+
+  return useCallback(
+    (selectionOnly = false) => {
+      if (frame.current !== null) return;
+      const { nodes, edges } = useFlowStore.getState();
+      const topLevel = nodes.filter((n) => !n.parentId && !isAnnotationNode(n));
+      const targets = selectionOnly ? topLevel.filter((n) => n.selected) : topLevel;
+      if (targets.length === 0) return;
+
+      // Edges of group members count as edges of their group
+      const owners = getGroupOwners(nodes);
+      const lifted = edges.flatMap((e) => liftEdge(e, owners) ?? []);
+
+      const from = new Map(targets.map((n) => [n.id, n.position]));
+      const to = computeLayout(targets, lifted);
+
+      /**
+       * Move Helper
+       *
+       * @param current - The flow's nodes
+       * @param t - Progress from the old (0) to the new (1) positions
+       * @returns The nodes with the laid out ones moved
+       */
+      const move = (current: AppNode[], t: number) =>
+        current.map((n) => {
+          const a = from.get(n.id);
+          const b = to.get(n.id);
+          if (!a || !b) return n;
+          return { ...n, position: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t } };
+        });
+
+      /**
+       * Finish Helper
+       *
+       * Records the layout as one undo step. The nodes are put back at their
+       * old positions first (without recording), so that undo restores those
+       * rather than the last animation frame.
+       */
+      const finish = () => {
+        frame.current = null;
+        const { setNodes } = useFlowStore.getState();
+        setNodes(move(useFlowStore.getState().nodes, 0), { record: false });
+        setNodes(move(useFlowStore.getState().nodes, 1));
+        if (!selectionOnly) {
+          // Wait a frame so the viewport fits the new positions
+          requestAnimationFrame(() => fitView({ duration: LAYOUT_ANIMATION_MS, padding: 0.2 }));
+        }
+      };
+
+      if (window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+        finish();
+        return;
+      }
+
+      const start = performance.now();
+      const step = (now: number) => {
+        const t = Math.min(1, (now - start) / LAYOUT_ANIMATION_MS);
+        if (t === 1) {
+          finish();
+          return;
+        }
+        const { nodes: current, setNodes } = useFlowStore.getState();
+        setNodes(move(current, easeInOut(t)), { record: false });
+        frame.current = requestAnimationFrame(step);
+      };
+      frame.current = requestAnimationFrame(step);
+    },
+    [fitView]
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * Autosave Hook
+ *
+ * This hook keeps the open flow persisted in browser storage without any
+ * user action. It subscribes to the flow store and, whenever the open flow
+ * has unsaved edits, schedules a debounced save through the flow library.
+ *
+ * Pending saves are flushed when the page is about to unload and when the
+ * hook unmounts, and they are dropped when a different flow is opened
+ * (the library saves the previous flow itself before switching).
+ */
+
+import { useEffect } from 'react';
+import { useFlowStore } from './useFlowState';
+import { useFlowLibrary } from './useFlowLibrary';
+
+/** Delay (ms) after the last edit before the flow is written to storage */
+export const AUTOSAVE_DELAY_MS = 800;
+
+/**
+ * Autosave Hook
+ *
+ * Call once near the root of the application.
+ *
+ * @param delay - Debounce delay in milliseconds
+ */
+export function useAutosave(delay = AUTOSAVE_DELAY_MS) {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const save = () => {
+      timer = null;
+      useFlowLibrary.getState().saveCurrent();
+    };
+
+    const unsubscribe = useFlowStore.subscribe((state, prev) => {
+      // Switching flows is not an edit; forget any pending save
+      if (state.flowId !== prev.flowId) {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        return;
+      }
+
+      const changed =
+        state.nodes !== prev.nodes ||
+        state.edges !== prev.edges ||
+        state.variables !== prev.variables ||
+        state.localization !== prev.localization ||
+        state.channels !== prev.channels ||
+        state.flowName !== prev.flowName;
+      if (!state.dirty || !changed) return;
+
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(save, delay);
+    });
+
+    // Flush a pending save so the last edits survive a refresh
+    const flush = () => {
+      if (!timer) return;
+      clearTimeout(timer);
+      save();
+    };
+    window.addEventListener('beforeunload', flush);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('beforeunload', flush);
+      flush();
+    };
+  }, [delay]);
+}
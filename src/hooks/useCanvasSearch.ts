@@ -0,0 +1,61 @@
+/**
+ * Canvas Search Hook
+ *
+ * This module provides a Zustand store for the canvas search box (see
+ * nodeSearch.ts). It holds whether the box is open, the query, the node
+ * type filter and the result the canvas is showing.
+ *
+ * The canvas reads the current result from this store to highlight it.
+ */
+
+import { create } from 'zustand';
+
+/**
+ * Canvas Search State Interface
+ *
+ * Defines the structure of the canvas search store.
+ */
+type CanvasSearchState = {
+  /** Whether the search box is open */
+  open: boolean;
+  /** The search text */
+  query: string;
+  /** Node type the results are limited to (empty for all types) */
+  type: string;
+  /** ID of the node of the current result, null before the first jump */
+  activeId: string | null;
+  /** Opens or closes the search box; closing clears the current result */
+  setOpen: (open: boolean) => void;
+  /** Changes the search text */
+  setQuery: (query: string) => void;
+  /** Changes the node type filter */
+  setType: (type: string) => void;
+  /** Marks a node as the current result */
+  setActiveId: (id: string | null) => void;
+};
+
+/**
+ * Zustand Store Instance
+ *
+ * Creates and exports the canvas search store.
+ */
+export const useCanvasSearch = create<CanvasSearchState>((set) => ({
+  open: false,
+  query: '',
+  type: '',
+  activeId: null,
+
+  setOpen: (open) => set(open ? { open } : { open, activeId: null }),
+  setQuery: (query) => set({ query, activeId: null }),
+  setType: (type) => set({ type, activeId: null }),
+  setActiveId: (activeId) => set({ activeId }),
+}));
+
+/**
+ * Highlighted Node Selector
+ *
+ * @param state - Canvas search store state
+ * @returns ID of the node to highlight on the canvas, or null when the search box is closed
+ */
+export const selectSearchHighlightId = (state: CanvasSearchState): string | null =>
+  state.open ? state.activeId : null;
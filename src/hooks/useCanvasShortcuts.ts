@@ -0,0 +1,152 @@
+/**
+ * Canvas Shortcuts Hook
+ *
+ * This hook registers the handlers of the canvas shortcut actions (see
+ * shortcuts.ts) with the shortcut manager: history, deletion, selection,
+ * grouping, moving the selection, zooming, adding nodes and the cheat sheet.
+ *
+ * Every handler reads the latest flow from the store when it runs.
+ */
+
+import { useReactFlow } from '@xyflow/react';
+import type { RefObject } from 'react';
+import type { AppNode } from '../types/flow';
+import { useFlowStore } from './useFlowState';
+import { duplicateSelection } from './useFlowClipboard';
+import { useShortcutHandlers, useShortcutStore } from './useShortcuts';
+import { DEFAULT_NODE_SIZE } from '../utils/autoLayout';
+import { isGroupNode } from '../utils/groups';
+import { createNode, getPaletteNodeTypes } from '../utils/nodeRegistry';
+import { addNodeActionId, NUDGE_STEP, NUDGE_STEP_LARGE } from '../utils/shortcuts';
+
+/** Duration (ms) of the viewport animations */
+const VIEWPORT_ANIMATION_MS = 200;
+
+/**
+ * Nudge Helper
+ *
+ * Moves the selected nodes. Repeated presses are one undo step. Selected
+ * members of selected groups already move with their group.
+ *
+ * @param dx - Horizontal distance (px)
+ * @param dy - Vertical distance (px)
+ */
+const nudge = (dx: number, dy: number) => {
+  const { nodes, setNodes } = useFlowStore.getState();
+  const selectedIds = new Set(nodes.filter((n) => n.selected).map((n) => n.id));
+  if (selectedIds.size === 0) return;
+  const moves = (n: AppNode) => selectedIds.has(n.id) && !(n.parentId && selectedIds.has(n.parentId));
+  setNodes(
+    nodes.map((n) => (moves(n) ? { ...n, position: { x: n.position.x + dx, y: n.position.y + dy } } : n)),
+    { coalesceKey: 'nudge' }
+  );
+};
+
+/**
+ * Group Selection Helper
+ *
+ * Wraps the selected nodes in a new group.
+ *
+ * @returns The reason the selection cannot be grouped, or null if it was
+ */
+export const groupSelection = (): string | null => {
+  const { nodes, createGroup } = useFlowStore.getState();
+  return createGroup(nodes.filter((n) => n.selected).map((n) => n.id));
+};
+
+/**
+ * Ungroup Selection Helper
+ *
+ * Removes the selected groups, and the groups of the selected members.
+ */
+export const ungroupSelection = () => {
+  const { nodes, ungroup } = useFlowStore.getState();
+  const selected = nodes.filter((n) => n.selected);
+  const groupIds = selected.map((n) => (isGroupNode(n) ? n.id : n.parentId)).filter((id) => id !== undefined);
+  ungroup([...new Set(groupIds)]);
+};
+
+/**
+ * Set Selection Helper
+ *
+ * @param selected - Whether to select or deselect every node and edge
+ */
+const setSelection = (selected: boolean) => {
+  const { nodes, edges, setNodes, setEdges, setSelectedNodeId, setSelectedEdgeId } = useFlowStore.getState();
+  setNodes(nodes.map((n) => ({ ...n, selected })), { record: false });
+  setEdges(edges.map((e) => ({ ...e, selected })), { record: false });
+  setSelectedNodeId(null);
+  setSelectedEdgeId(null);
+};
+
+/**
+ * Delete Selection Helper
+ *
+ * Deletes the selected nodes (with their edges) and the selected edges as
+ * a single undo step.
+ */
+const deleteSelection = () => {
+  const { nodes, edges, selectedEdgeId, deleteElements } = useFlowStore.getState();
+  const edgeIds = edges.filter((e) => e.selected || e.id === selectedEdgeId).map((e) => e.id);
+  deleteElements(nodes.filter((n) => n.selected).map((n) => n.id), edgeIds);
+};
+
+/**
+ * Canvas Shortcuts Hook
+ *
+ * Call once in the flow canvas.
+ *
+ * @param wrapper - The canvas element, whose center new nodes are added at
+ */
+export function useCanvasShortcuts(wrapper: RefObject<HTMLDivElement | null>) {
+  const { fitView, zoomIn, zoomOut, screenToFlowPosition } = useReactFlow();
+
+  /**
+   * Add Node Helper
+   *
+   * Adds a node at the center of the visible canvas and selects it.
+   *
+   * @param type - Type of the node to add
+   */
+  const addNode = (type: string) => {
+    const bounds = wrapper.current?.getBoundingClientRect();
+    if (!bounds) return;
+    const center = screenToFlowPosition({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 });
+    const node = createNode(type, {
+      x: center.x - DEFAULT_NODE_SIZE.width / 2,
+      y: center.y - DEFAULT_NODE_SIZE.height / 2,
+    });
+    if (!node) return;
+
+    const { nodes, setNodes, setSelectedNodeId } = useFlowStore.getState();
+    setNodes([...nodes.map((n) => (n.selected ? { ...n, selected: false } : n)), { ...node, selected: true }]);
+    setSelectedNodeId(node.id);
+  };
+
+  useShortcutHandlers({
+    undo: () => useFlowStore.getState().undo(),
+    redo: () => useFlowStore.getState().redo(),
+    duplicate: duplicateSelection,
+    delete: deleteSelection,
+    group: groupSelection,
+    ungroup: ungroupSelection,
+    'select-all': () => setSelection(true),
+    deselect: () => setSelection(false),
+    'nudge-up': () => nudge(0, -NUDGE_STEP),
+    'nudge-down': () => nudge(0, NUDGE_STEP),
+    'nudge-left': () => nudge(-NUDGE_STEP, 0),
+    'nudge-right': () => nudge(NUDGE_STEP, 0),
+    'nudge-up-far': () => nudge(0, -NUDGE_STEP_LARGE),
+    'nudge-down-far': () => nudge(0, NUDGE_STEP_LARGE),
+    'nudge-left-far': () => nudge(-NUDGE_STEP_LARGE, 0),
+    'nudge-right-far': () => nudge(NUDGE_STEP_LARGE, 0),
+    'fit-view': () => fitView({ duration: VIEWPORT_ANIMATION_MS, padding: 0.2 }),
+    'zoom-in': () => zoomIn({ duration: VIEWPORT_ANIMATION_MS }),
+    'zoom-out': () => zoomOut({ duration: VIEWPORT_ANIMATION_MS }),
+    help: () => {
+      const { helpOpen, setHelpOpen } = useShortcutStore.getState();
+      setHelpOpen(!helpOpen);
+    },
+    ...Object.fromEntries(getPaletteNodeTypes().map((d) => [addNodeActionId(d.type), () => addNode(d.type)])),
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * Flow Clipboard Hook
+ *
+ * This hook adds copy, cut, paste and duplicate of the selected nodes to the
+ * canvas. Copy, cut and paste go through the browser's clipboard events, so
+ * Ctrl/Cmd+C, X and V (and the browser's Edit menu) work across flows and
+ * browser tabs. Duplicate (Ctrl/Cmd+D by default, run by the shortcut
+ * manager) pastes a copy right away without touching the clipboard.
+ *
+ * Clipboard events that start in a text field, or while text is selected on
+ * the page, are left to the browser so ordinary text editing keeps working.
+ * Pastes that are rejected or had to be repaired are explained through the
+ * canvas notice.
+ */
+
+import { useEffect } from 'react';
+import { useFlowStore } from './useFlowState';
+import {
+  copySelection,
+  parseClipboard,
+  preparePaste,
+  serializeClipboard,
+  PASTE_OFFSET,
+  type ClipboardPayload,
+} from '../utils/clipboard';
+import { summarizeProblems } from '../utils/schemaChecks';
+import { isTextInput } from '../utils/shortcuts';
+
+/**
+ * Is Text Target Helper
+ *
+ * @param target - The target of a keyboard or clipboard event
+ * @returns True if the event belongs to text editing rather than the canvas
+ */
+const isTextTarget = (target: EventTarget | null): boolean => {
+  if (isTextInput(target)) return true;
+  const selection = window.getSelection();
+  return !!selection && !selection.isCollapsed;
+};
+
+/**
+ * Canvas Notice Callback Type
+ *
+ * Shows a short message over the canvas.
+ */
+export type CanvasNoticeHandler = (message: string, level?: 'error' | 'warning') => void;
+
+/**
+ * Insert Payload Helper
+ *
+ * Adds a copy of the payload to the open flow as a single undo step and
+ * selects the inserted nodes instead of the previous selection.
+ *
+ * @param payload - The nodes and edges to insert
+ * @param offset - Distance to move the inserted nodes by
+ */
+const insertPayload = (payload: ClipboardPayload, offset: number) => {
+  const { nodes, edges, setGraph, setSelectedNodeId } = useFlowStore.getState();
+  const pasted = preparePaste(payload, nodes, edges, offset);
+
+  const deselected = nodes.map((n) => (n.selected ? { ...n, selected: false } : n));
+  setGraph([...deselected, ...pasted.nodes], [...edges, ...pasted.edges]);
+  setSelectedNodeId(pasted.nodes.length === 1 ? pasted.nodes[0].id : null);
+};
+
+/**
+ * Remove Selection Helper
+ *
+ * Removes the selected nodes and their edges as a single undo step.
+ */
+const removeSelection = () => {
+  const { nodes, deleteElements } = useFlowStore.getState();
+  deleteElements(nodes.filter((n) => n.selected).map((n) => n.id));
+};
+
+/**
+ * Duplicate Selection
+ *
+ * Inserts a copy of the selected nodes next to them.
+ */
+export const duplicateSelection = () => {
+  const { nodes, edges } = useFlowStore.getState();
+  const payload = copySelection(nodes, edges);
+  if (payload) insertPayload(payload, PASTE_OFFSET);
+};
+
+/**
+ * Flow Clipboard Hook
+ *
+ * Call once in the flow canvas.
+ *
+ * @param onNotice - Shows why a paste was rejected or repaired (must be stable)
+ */
+export function useFlowClipboard(onNotice: CanvasNoticeHandler) {
+  useEffect(() => {
+    // Last clipboard text copied or pasted, and how often it was pasted, so
+    // that repeated pastes do not stack exactly on top of each other
+    let last = { text: '', pastes: 0 };
+
+    /**
+     * Copy Handler
+     *
+     * Writes the selected nodes to the clipboard.
+     *
+     * @param e - The copy (or cut) event
+     * @returns True if there was a selection to copy
+     */
+    const onCopy = (e: ClipboardEvent): boolean => {
+      if (isTextTarget(e.target) || !e.clipboardData) return false;
+      const { nodes, edges } = useFlowStore.getState();
+      const payload = copySelection(nodes, edges);
+      if (!payload) return false;
+
+      const text = serializeClipboard(payload);
+      e.clipboardData.setData('text/plain', text);
+      e.preventDefault();
+      last = { text, pastes: 0 };
+      return true;
+    };
+
+    /**
+     * Cut Handler
+     *
+     * Copies the selected nodes, then removes them from the flow.
+     *
+     * @param e - The cut event
+     */
+    const onCut = (e: ClipboardEvent) => {
+      if (onCopy(e)) removeSelection();
+    };
+
+    /**
+     * Paste Handler
+     *
+     * Inserts nodes copied from a flow, in this tab or another one.
+     *
+     * @param e - The paste event
+     */
+    const onPaste = (e: ClipboardEvent) => {
+      if (isTextTarget(e.target) || !e.clipboardData) return;
+      const text = e.clipboardData.getData('text/plain');
+      const result = parseClipboard(text);
+      // Ignore text that was not copied from a flow
+      if (!result) return;
+
+      e.preventDefault();
+      if (!result.ok) {
+        onNotice(`Could not paste nodes: ${summarizeProblems(result.errors)}.`);
+        return;
+      }
+      if (result.warnings.length > 0) {
+        onNotice(`Pasted nodes were repaired to match this version: ${summarizeProblems(result.warnings)}.`, 'warning');
+      }
+
+      last = { text, pastes: text === last.text ? last.pastes + 1 : 1 };
+      insertPayload(result.payload, PASTE_OFFSET * last.pastes);
+    };
+
+    document.addEventListener('copy', onCopy);
+    document.addEventListener('cut', onCut);
+    document.addEventListener('paste', onPaste);
+    return () => {
+      document.removeEventListener('copy', onCopy);
+      document.removeEventListener('cut', onCut);
+      document.removeEventListener('paste', onPaste);
+    };
+  }, [onNotice]);
+}
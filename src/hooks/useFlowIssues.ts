@@ -0,0 +1,34 @@
+/**
+ * Flow Issues Hook
+ *
+ * This hook runs the validation engine against the open flow and returns
+ * the issues it finds. The result is recomputed whenever nodes, edges or
+ * variables change, so the canvas outlines and the problems panel always
+ * reflect the current flow. It is also recomputed whenever the library
+ * changes, since call subflow nodes are checked against the flows they call.
+ */
+
+import { useMemo } from 'react';
+import { useFlowStore } from './useFlowState';
+import { useFlowLibrary } from './useFlowLibrary';
+import { validateFlow, type ValidationIssue } from '../utils/validateFlow';
+
+/**
+ * Flow Issues Hook
+ *
+ * @returns All issues found in the open flow, errors first
+ */
+export function useFlowIssues(): ValidationIssue[] {
+  const nodes = useFlowStore((state) => state.nodes);
+  const edges = useFlowStore((state) => state.edges);
+  const variables = useFlowStore((state) => state.variables);
+  const localization = useFlowStore((state) => state.localization);
+  const channels = useFlowStore((state) => state.channels);
+  const flowId = useFlowStore((state) => state.flowId);
+  const flows = useFlowLibrary((state) => state.flows);
+
+  return useMemo(
+    () => validateFlow({ nodes, edges, variables, localization, channels, flowId, flows }),
+    [nodes, edges, variables, localization, channels, flowId, flows]
+  );
+}
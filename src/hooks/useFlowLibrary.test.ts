@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppNode } from '../types/flow';
+import { installMemoryStorage, type MemoryStorage } from '../test/memoryStorage';
+import { createFlowRecord, loadFlow, saveFlow } from '../utils/flowStorage';
+import { useFlowLibrary } from './useFlowLibrary';
+import { useFlowStore } from './useFlowState';
+
+const textNode = (id: string, text = id): AppNode => ({
+  id,
+  type: 'text',
+  position: { x: 0, y: 0 },
+  data: { text, type: 'text' },
+});
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = installMemoryStorage();
+  useFlowLibrary.getState().restoreFlow();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+/** Makes the open flow too large for the storage left */
+const overflow = () => {
+  storage.quota = storage.used;
+  useFlowStore.getState().setNodes([textNode('big', 'x'.repeat(100))]);
+};
+
+describe('saveCurrent', () => {
+  it('stores the open flow and keeps its creation time', () => {
+    const { flowId } = useFlowStore.getState();
+    const createdAt = loadFlow(flowId)?.flow.createdAt;
+    useFlowStore.getState().setNodes([textNode('a')]);
+
+    expect(useFlowLibrary.getState().saveCurrent()).toBe(true);
+    expect(loadFlow(flowId)?.flow.nodes.map((n) => n.id)).toEqual(['a']);
+    expect(loadFlow(flowId)?.flow.createdAt).toBe(createdAt);
+    expect(useFlowStore.getState().dirty).toBe(false);
+  });
+
+  it('reports a full storage and keeps the flow dirty', () => {
+    overflow();
+    expect(useFlowLibrary.getState().saveCurrent()).toBe(false);
+    expect(useFlowLibrary.getState().saveError).not.toBeNull();
+    expect(useFlowStore.getState().dirty).toBe(true);
+  });
+});
+
+describe('switching flows', () => {
+  it('opens another flow after saving the open one', () => {
+    const other = createFlowRecord('Other', [], []);
+    saveFlow(other);
+    useFlowStore.getState().setNodes([textNode('a')]);
+    const { flowId } = useFlowStore.getState();
+
+    useFlowLibrary.getState().openFlow(other.id);
+    expect(useFlowStore.getState().flowId).toBe(other.id);
+    expect(loadFlow(flowId)?.flow.nodes.map((n) => n.id)).toEqual(['a']);
+  });
+
+  it('keeps the open flow open when its edits cannot be saved', () => {
+    const other = createFlowRecord('Other', [], []);
+    saveFlow(other);
+    const { flowId } = useFlowStore.getState();
+    overflow();
+
+    useFlowLibrary.getState().openFlow(other.id);
+    expect(useFlowStore.getState().flowId).toBe(flowId);
+    expect(useFlowStore.getState().nodes.map((n) => n.id)).toEqual(['big']);
+    expect(useFlowLibrary.getState().saveError).not.toBeNull();
+  });
+
+  it('creates no flow when the open one cannot be saved', () => {
+    const { flowId } = useFlowStore.getState();
+    overflow();
+
+    useFlowLibrary.getState().createFlow('New');
+    expect(useFlowStore.getState().flowId).toBe(flowId);
+    expect(useFlowLibrary.getState().flows).toHaveLength(1);
+  });
+});
+
+describe('restoreFlow', () => {
+  it('reports what was repaired in the restored flow', () => {
+    const broken = createFlowRecord('Broken', [textNode('a')], []);
+    saveFlow({ ...broken, edges: [{ id: 'e', source: 'a', target: 'gone' }] });
+    storage.setItem('bitespeed.flows.lastOpen', broken.id);
+
+    useFlowLibrary.getState().restoreFlow();
+    expect(useFlowLibrary.getState().repairNotice).toContain('edges[0]: node "gone" does not exist');
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Flow Library Hook
+ *
+ * This module provides a Zustand store for the library of named flows kept
+ * in browser storage. It lists the saved flows and implements the library
+ * actions (create, open, rename, duplicate, delete, import) on top of the flow
+ * storage utility, keeping the flow store's open flow in sync.
+ *
+ * The flow store only ever holds the open flow; this store is responsible
+ * for moving flows between it and storage.
+ */
+
+import { create } from 'zustand';
+import type { FlowFile, FlowSummary, SavedFlow } from '../types/flow';
+import { useFlowStore } from './useFlowState';
+import {
+  createFlowRecord,
+  createStarterFlow,
+  deleteFlow as removeStoredFlow,
+  listFlows,
+  loadFlow,
+  loadInitialFlow,
+  saveFlow,
+  setLastOpenFlowId,
+  type LoadedFlow,
+} from '../utils/flowStorage';
+import { deleteRevisions } from '../utils/revisions';
+import { summarizeProblems } from '../utils/schemaChecks';
+import { extractSubflow } from '../utils/subflows';
+
+/** Shown when browser storage refuses the open flow */
+const STORAGE_FULL_MESSAGE = 'Not saved: browser storage is full. Delete flows you no longer need.';
+
+/**
+ * Storage Full Helper
+ *
+ * @param action - What could not be done, e.g. "The flow could not be created"
+ * @returns The message shown when browser storage refuses a library action
+ */
+const storageFull = (action: string) => `${action}: browser storage is full. Delete flows you no longer need.`;
+
+/**
+ * Describe Repairs Helper
+ *
+ * @param loaded - A flow loaded from storage
+ * @returns What had to change for the flow to match this version, or null if nothing did
+ */
+const describeRepairs = ({ flow, dropped, repairs }: LoadedFlow): string | null => {
+  const problems = [...dropped, ...repairs];
+  return problems.length > 0 ? `"${flow.name}" was repaired to match this version: ${summarizeProblems(problems)}` : null;
+};
+
+/**
+ * Flow Library State Interface
+ *
+ * Defines the structure of the flow library store.
+ */
+type FlowLibraryState = {
+  /** Summaries of all saved flows, most recently updated first */
+  flows: FlowSummary[];
+  /**
+   * Why the open flow could not be written to storage the last time, or why
+   * the last library action was refused by storage; null if nothing failed
+   */
+  saveError: string | null;
+  /** What had to be repaired in the flow that was opened last, until the canvas shows it */
+  repairNotice: string | null;
+  /** Clears the repair notice once it has been shown */
+  dismissRepairNotice: () => void;
+  /** Opens the last open flow (or a new starter flow) on startup */
+  restoreFlow: () => void;
+  /** Persists the open flow immediately; returns false if storage refused it */
+  saveCurrent: () => boolean;
+  /** Creates, saves and opens a new starter flow */
+  createFlow: (name?: string) => void;
+  /** Saves the open flow and opens another one (the open flow stays open if it cannot be saved) */
+  openFlow: (id: string) => void;
+  /** Renames a saved flow */
+  renameFlow: (id: string, name: string) => void;
+  /** Saves a copy of a flow under a new name and opens it */
+  duplicateFlow: (id: string) => void;
+  /** Deletes a flow and its revision history, opening another one if it was open */
+  deleteFlow: (id: string) => void;
+  /** Saves an imported flow file as a new flow and opens it */
+  importFlow: (file: FlowFile) => void;
+  /**
+   * Stores a flow loaded from the server, replacing the local copy (and the
+   * open flow, if it is open); returns false if storage refused it
+   */
+  receiveFlow: (flow: SavedFlow) => boolean;
+  /**
+   * Moves the members of a group of the open flow into a new flow and
+   * replaces the group with a call subflow node, as one undo step
+   */
+  extractSubflow: (groupId: string, name: string) => { ok: true } | { ok: false; reason: string };
+};
+
+/**
+ * Zustand Store Instance
+ *
+ * Creates and exports the flow library store.
+ */
+export const useFlowLibrary = create<FlowLibraryState>((set, get) => {
+  /** Re-reads the flow summaries from storage */
+  const refresh = () => set({ flows: listFlows() });
+
+  /**
+   * Open New Flow Helper
+   *
+   * Stores a flow that is not in the library yet and opens it. Nothing is
+   * opened if storage refuses the flow.
+   *
+   * @param flow - The new flow
+   * @param action - What failed, for the message shown if the flow cannot be stored
+   */
+  const openNewFlow = (flow: SavedFlow, action: string) => {
+    if (!saveFlow(flow)) {
+      set({ saveError: storageFull(action) });
+      return;
+    }
+    setLastOpenFlowId(flow.id);
+    useFlowStore.getState().openFlow(flow);
+    refresh();
+  };
+
+  return {
+    flows: listFlows(),
+    saveError: null,
+    repairNotice: null,
+
+    dismissRepairNotice: () => set({ repairNotice: null }),
+
+    restoreFlow: () => {
+      // Restore the last open flow (or a starter flow for first-time users)
+      const initial = loadInitialFlow();
+      useFlowStore.getState().openFlow(initial.flow);
+      set({ saveError: initial.stored ? null : STORAGE_FULL_MESSAGE, repairNotice: describeRepairs(initial) });
+      refresh();
+    },
+
+    saveCurrent: () => {
+      const { flowId, flowName, nodes, edges, variables, localization, channels, markSaved } = useFlowStore.getState();
+      // The summary keeps the creation time, so the stored flow is not parsed again
+      const existing = get().flows.find((f) => f.id === flowId);
+      const now = Date.now();
+
+      const saved = saveFlow({
+        id: flowId,
+        name: flowName,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        nodes,
+        edges,
+        variables,
+        localization,
+        channels,
+      });
+      // The flow stays dirty when the write fails, so the next edit retries it
+      if (saved) markSaved(now);
+      set({ saveError: saved ? null : STORAGE_FULL_MESSAGE });
+      refresh();
+      return saved;
+    },
+
+    createFlow: (name) => {
+      // Unsaved edits of the open flow would be lost by switching
+      if (!get().saveCurrent()) return;
+      openNewFlow(createStarterFlow(name), 'The flow could not be created');
+    },
+
+    openFlow: (id) => {
+      if (id === useFlowStore.getState().flowId) return;
+      const loaded = loadFlow(id);
+      if (!loaded) return;
+
+      if (!get().saveCurrent()) return;
+      setLastOpenFlowId(id);
+      useFlowStore.getState().openFlow(loaded.flow);
+      set({ repairNotice: describeRepairs(loaded) });
+      refresh();
+    },
+
+    renameFlow: (id, name) => {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+
+      if (id === useFlowStore.getState().flowId) {
+        // Renaming the open flow goes through the store so the header updates
+        useFlowStore.getState().setFlowName(trimmed);
+        get().saveCurrent();
+        return;
+      }
+
+      const flow = loadFlow(id)?.flow;
+      if (!flow) return;
+      if (!saveFlow({ ...flow, name: trimmed, updatedAt: Date.now() })) {
+        set({ saveError: storageFull('The flow could not be renamed') });
+        return;
+      }
+      refresh();
+    },
+
+    duplicateFlow: (id) => {
+      if (!get().saveCurrent()) return;
+      const flow = loadFlow(id)?.flow;
+      if (!flow) return;
+
+      const copy = createFlowRecord(
+        `${flow.name} (copy)`,
+        flow.nodes,
+        flow.edges,
+        flow.variables,
+        flow.localization,
+        flow.channels
+      );
+      openNewFlow(copy, 'The flow could not be duplicated');
+    },
+
+    deleteFlow: (id) => {
+      removeStoredFlow(id);
+      deleteRevisions(id);
+
+      if (id === useFlowStore.getState().flowId) {
+        // Open the most recent remaining flow, or start over with a new one
+        const next = listFlows()[0];
+        const stored = next ? loadFlow(next.id) : null;
+        const flow = stored?.flow ?? createStarterFlow();
+        // A new starter flow is opened either way, since the deleted flow cannot stay open
+        const saved = stored !== null || saveFlow(flow);
+        setLastOpenFlowId(flow.id);
+        useFlowStore.getState().openFlow(flow);
+        set({ saveError: saved ? null : STORAGE_FULL_MESSAGE, repairNotice: stored && describeRepairs(stored) });
+      }
+      refresh();
+    },
+
+    importFlow: (file) => {
+      // Imports never overwrite the open flow; they become a new library entry
+      if (!get().saveCurrent()) return;
+      const flow = createFlowRecord(
+        file.meta.name,
+        file.nodes,
+        file.edges,
+        file.variables,
+        file.localization,
+        file.channels
+      );
+      openNewFlow(flow, 'The flow could not be imported');
+    },
+
+    receiveFlow: (flow) => {
+      if (!saveFlow(flow)) return false;
+      if (flow.id === useFlowStore.getState().flowId) {
+        useFlowStore.getState().openFlow(flow);
+      }
+      refresh();
+      return true;
+    },
+
+    extractSubflow: (groupId, name) => {
+      const trimmed = name.trim();
+      if (!trimmed) return { ok: false, reason: 'Enter a name for the subflow.' };
+
+      const { nodes, edges, variables, localization, channels, setGraph, setSelectedNodeId } = useFlowStore.getState();
+      const record = createFlowRecord(trimmed, [], [], variables, localization, channels);
+      const result = extractSubflow(nodes, edges, groupId, record.id);
+      if (!result.ok) return result;
+
+      // The subflow shares the open flow's variables, locales and channels, so its messages keep working
+      if (!saveFlow({ ...record, nodes: result.subflow.nodes, edges: result.subflow.edges })) {
+        return { ok: false, reason: storageFull('The subflow could not be saved') };
+      }
+      setGraph(result.nodes, result.edges);
+      setSelectedNodeId(result.callNodeId);
+      refresh();
+      return { ok: true };
+    },
+  };
+});
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppEdge, AppNode } from '../types/flow';
+import { createFlowRecord } from '../utils/flowStorage';
+import { useFlowStore } from './useFlowState';
+
+const textNode = (id: string, text = id): AppNode => ({
+  id,
+  type: 'text',
+  position: { x: 0, y: 0 },
+  data: { text, type: 'text' },
+});
+
+const edge = (source: string, target: string): AppEdge => ({ id: `${source}-${target}`, source, target });
+
+const ids = (items: { id: string }[]) => items.map((item) => item.id);
+
+beforeEach(() => {
+  const flow = createFlowRecord('Test', [textNode('a'), textNode('b'), textNode('c')], [edge('a', 'b'), edge('b', 'c')]);
+  useFlowStore.getState().openFlow(flow);
+});
+
+describe('undo and redo', () => {
+  it('restores the previous and the undone flow', () => {
+    const { setNodes } = useFlowStore.getState();
+    setNodes([textNode('a')]);
+
+    useFlowStore.getState().undo();
+    expect(ids(useFlowStore.getState().nodes)).toEqual(['a', 'b', 'c']);
+
+    useFlowStore.getState().redo();
+    expect(ids(useFlowStore.getState().nodes)).toEqual(['a']);
+  });
+
+  it('drops the redo steps when a new change is recorded', () => {
+    const { setNodes, undo } = useFlowStore.getState();
+    setNodes([textNode('a')]);
+    undo();
+    useFlowStore.getState().setNodes([textNode('b')]);
+    expect(useFlowStore.getState().future).toHaveLength(0);
+  });
+
+  it('does not record changes made with record: false', () => {
+    useFlowStore.getState().setNodes([textNode('a')], { record: false });
+    expect(useFlowStore.getState().past).toHaveLength(0);
+    expect(useFlowStore.getState().dirty).toBe(false);
+  });
+
+  it('coalesces a typing burst into one step', () => {
+    const { updateNodeData } = useFlowStore.getState();
+    updateNodeData('a', { text: 'H' }, { coalesceKey: 'text:a' });
+    updateNodeData('a', { text: 'Hi' }, { coalesceKey: 'text:a' });
+    expect(useFlowStore.getState().past).toHaveLength(1);
+
+    useFlowStore.getState().undo();
+    expect(useFlowStore.getState().nodes[0].data).toMatchObject({ text: 'a' });
+  });
+});
+
+describe('updateNodeData', () => {
+  it('rejects data that does not match the node type and changes nothing', () => {
+    const problems = useFlowStore.getState().updateNodeData('a', { text: 42 } as never);
+    expect(problems).not.toHaveLength(0);
+    expect(useFlowStore.getState().nodes[0].data).toMatchObject({ text: 'a' });
+    expect(useFlowStore.getState().past).toHaveLength(0);
+  });
+});
+
+describe('deleteElements', () => {
+  it('deletes the edges of deleted nodes with them', () => {
+    useFlowStore.getState().deleteElements(['b']);
+    expect(ids(useFlowStore.getState().nodes)).toEqual(['a', 'c']);
+    expect(useFlowStore.getState().edges).toHaveLength(0);
+  });
+
+  it('records every deletion as its own undo step', () => {
+    useFlowStore.getState().deleteElements(['a']);
+    useFlowStore.getState().deleteElements(['c']);
+    expect(useFlowStore.getState().past).toHaveLength(2);
+
+    useFlowStore.getState().undo();
+    expect(ids(useFlowStore.getState().nodes)).toEqual(['b', 'c']);
+  });
+
+  it('clears the selection of deleted elements', () => {
+    useFlowStore.getState().setSelectedNodeId('a');
+    useFlowStore.getState().deleteElements(['a']);
+    expect(useFlowStore.getState().selectedNodeId).toBeNull();
+  });
+});
@@ -1,64 +1,358 @@
 /**
  * Flow State Management Hook
- * 
+ *
  * This module provides a centralized state management solution using Zustand
  * for the BiteSpeed Chatbot Flow Builder application. It manages the core
- * flow data including nodes, edges, and selected node state.
- * 
- * The store is designed to be minimal and efficient, providing only the
- * essential state and actions needed for the flow builder functionality.
+ * flow data including nodes, edges, and the selected node or edge.
+ *
+ * The store also owns the undo/redo history. Every recorded change to nodes
+ * or edges pushes a snapshot of the previous flow onto the past stack, with
+ * related changes (typing bursts, node drags) coalesced into a single step.
+ * Selection changes are never recorded.
+ *
+ * The store always holds exactly one open flow from the flow library. On
+ * startup the flow library restores the last open flow from browser storage;
+ * persisting changes back is handled by the autosave hook and the flow
+ * library store.
+ *
+ * Node data edits made through updateNodeData are checked against the
+ * node type's runtime schema, so the store never holds malformed data.
  */
 
 import {create} from 'zustand';
-import type { AppNode, AppEdge } from '../types/flow';
+import type { AppNode, AppEdge, ChannelId, FlowLocalization, FlowVariable, SavedFlow } from '../types/flow';
+import { createFlowRecord, DEFAULT_FLOW_NAME } from '../utils/flowStorage';
+import { checkNodeData } from '../utils/schemaChecks';
+import { groupNodes, ungroupNodes } from '../utils/groups';
+import {
+  pushCapped,
+  shouldCoalesce,
+  type FlowSnapshot,
+  type HistoryOptions,
+  type LastCommit,
+} from '../utils/history';
 
 /**
  * Flow State Interface
- * 
+ *
  * Defines the structure of the global flow state managed by Zustand.
- * This includes the core data (nodes, edges) and the UI state (selected node).
+ * This includes the core data (nodes, edges), the identity of the open flow,
+ * the UI state (selected node or edge) and the undo/redo history stacks.
  */
 type FlowState = {
+  /** ID of the open flow in the flow library */
+  flowId: string;
+  /** Name of the open flow */
+  flowName: string;
+  /** Time the open flow was last persisted (ms since epoch) */
+  lastSavedAt: number | null;
+  /** Whether the open flow has edits that are not persisted yet */
+  dirty: boolean;
   /** Array of all nodes in the flow */
   nodes: AppNode[];
   /** Array of all edges connecting nodes in the flow */
   edges: AppEdge[];
+  /** The flow's variable registry */
+  variables: FlowVariable[];
+  /** The flow's languages */
+  localization: FlowLocalization;
+  /** The channels the flow targets */
+  channels: ChannelId[];
   /** ID of the currently selected node, null if no node is selected */
   selectedNodeId: string | null;
+  /** ID of the edge whose settings are shown, null if none (never set together with selectedNodeId) */
+  selectedEdgeId: string | null;
+  /** Snapshots that can be restored with undo (oldest first) */
+  past: FlowSnapshot[];
+  /** Snapshots that can be restored with redo (most recent undo last) */
+  future: FlowSnapshot[];
+  /** Marker of the last recorded change, used for coalescing */
+  lastCommit: LastCommit | null;
   /** Action to update the nodes array */
-  setNodes: (n: AppNode[]) => void;
+  setNodes: (n: AppNode[], options?: HistoryOptions) => void;
   /** Action to update the edges array */
-  setEdges: (e: AppEdge[]) => void;
-  /** Action to update the selected node ID */
+  setEdges: (e: AppEdge[], options?: HistoryOptions) => void;
+  /** Action to update nodes and edges together as a single undo step */
+  setGraph: (n: AppNode[], e: AppEdge[], options?: HistoryOptions) => void;
+  /** Action to update the variable registry */
+  setVariables: (v: FlowVariable[], options?: HistoryOptions) => void;
+  /** Action to update the flow's languages */
+  setLocalization: (l: FlowLocalization, options?: HistoryOptions) => void;
+  /** Action to update the channels the flow targets */
+  setChannels: (c: ChannelId[], options?: HistoryOptions) => void;
+  /** Action to replace the whole flow content as a single undo step (e.g. restoring a revision) */
+  setContent: (content: FlowSnapshot, options?: HistoryOptions) => void;
+  /**
+   * Action to update some fields of a node's data. The merged data is
+   * checked against the node type's schema and only applied if valid.
+   * Returns the problems found (empty if the update was applied).
+   */
+  updateNodeData: (id: string, patch: Partial<AppNode['data']>, options?: HistoryOptions) => string[];
+  /** Action to update some fields of an edge (e.g. its label) */
+  updateEdge: (id: string, patch: Partial<AppEdge>, options?: HistoryOptions) => void;
+  /**
+   * Action to delete nodes and edges as a single undo step. The edges of
+   * deleted nodes, and the members of deleted groups, are deleted with them.
+   * Deletions are never coalesced, so each one is undone separately.
+   */
+  deleteElements: (nodeIds: string[], edgeIds?: string[]) => void;
+  /**
+   * Action to wrap nodes in a new, selected group as a single undo step.
+   * Returns the reason the nodes cannot be grouped, or null if they were.
+   */
+  createGroup: (nodeIds: string[]) => string | null;
+  /** Action to remove groups as a single undo step, keeping their members where they are */
+  ungroup: (groupIds: string[]) => void;
+  /** Action to update the selected node ID (clears the selected edge) */
   setSelectedNodeId: (id: string | null) => void;
+  /** Action to update the selected edge ID (clears the selected node) */
+  setSelectedEdgeId: (id: string | null) => void;
+  /** Restores the previous snapshot, if any */
+  undo: () => void;
+  /** Re-applies the most recently undone snapshot, if any */
+  redo: () => void;
+  /** Drops all undo/redo steps (e.g. after loading a different flow) */
+  clearHistory: () => void;
+  /** Replaces the open flow with a saved flow and resets history */
+  openFlow: (flow: SavedFlow) => void;
+  /** Updates the name of the open flow */
+  setFlowName: (name: string) => void;
+  /** Records that the open flow was persisted at the given time */
+  markSaved: (at: number) => void;
 };
 
+/**
+ * Restore Snapshot Helper
+ *
+ * Builds the state update for undo/redo. The current selection is carried
+ * over to the restored nodes so that undo never changes what is selected,
+ * and the selected node or edge ID is cleared if it no longer exists.
+ *
+ * @param state - Current store state
+ * @param snapshot - Snapshot being restored
+ * @returns Partial state to apply
+ */
+const restoreSnapshot = (state: FlowState, snapshot: FlowSnapshot): Partial<FlowState> => {
+  const selected = new Set(state.nodes.filter((n) => n.selected).map((n) => n.id));
+  const nodes = snapshot.nodes.map((n) => ({ ...n, selected: selected.has(n.id) }));
+  const selectedNodeId = nodes.some((n) => n.id === state.selectedNodeId) ? state.selectedNodeId : null;
+  const selectedEdgeId = snapshot.edges.some((e) => e.id === state.selectedEdgeId) ? state.selectedEdgeId : null;
+
+  return {
+    nodes,
+    edges: snapshot.edges,
+    variables: snapshot.variables,
+    localization: snapshot.localization,
+    channels: snapshot.channels,
+    selectedNodeId,
+    selectedEdgeId,
+    lastCommit: null,
+  };
+};
+
+/**
+ * Take Snapshot Helper
+ *
+ * @param state - Current store state
+ * @returns The part of the state captured by undo/redo
+ */
+const takeSnapshot = (state: FlowState): FlowSnapshot => ({
+  nodes: state.nodes,
+  edges: state.edges,
+  variables: state.variables,
+  localization: state.localization,
+  channels: state.channels,
+});
+
 /**
  * Zustand Store Instance
- * 
+ *
  * Creates and exports the global flow state store with initial data.
  * The store provides a simple API for managing flow state across the application.
  */
-export const useFlowStore = create<FlowState>((set) => ({
-  // Initial nodes array with a default text node for demonstration
-  nodes: [
-    {
-      id: 'text-1',
-      type: 'text',
-      position: { x: 400, y: 200 }, // Centered position on canvas
-      data: { text: 'Hello World', type: 'text' },
+export const useFlowStore = create<FlowState>((set, get) => {
+  /**
+   * Commit Helper
+   *
+   * Applies a change to the flow data and records the previous flow in the
+   * undo history unless recording is disabled or the change coalesces with
+   * the previous one.
+   *
+   * @param partial - The parts of the flow content being updated
+   * @param options - History options supplied by the caller
+   */
+  const commit = (partial: Partial<FlowSnapshot>, options: HistoryOptions = {}) => {
+    if (options.record === false) {
+      set(partial);
+      return;
+    }
+
+    const state = get();
+    const now = Date.now();
+    const coalesce = shouldCoalesce(state.lastCommit, options.coalesceKey, now);
+
+    set({
+      ...partial,
+      past: coalesce ? state.past : pushCapped(state.past, takeSnapshot(state)),
+      future: [],
+      lastCommit: options.coalesceKey ? { key: options.coalesceKey, at: now } : null,
+      dirty: true,
+    });
+  };
+
+  // Start with an empty flow. The last open flow is restored by the flow
+  // library once the node types are registered, since loading a flow checks
+  // its nodes against their schemas (see main.tsx).
+  const initialFlow = createFlowRecord(DEFAULT_FLOW_NAME, [], []);
+
+  return {
+    // Identity of the open flow
+    flowId: initialFlow.id,
+    flowName: initialFlow.name,
+    lastSavedAt: initialFlow.updatedAt,
+    dirty: false,
+    // Initial nodes and edges from the restored flow
+    nodes: initialFlow.nodes,
+    edges: initialFlow.edges,
+    variables: initialFlow.variables,
+    localization: initialFlow.localization,
+    channels: initialFlow.channels,
+    // Initial selection state (no node or edge selected)
+    selectedNodeId: null,
+    selectedEdgeId: null,
+    // Empty history on startup
+    past: [],
+    future: [],
+    lastCommit: null,
+
+    // State update actions
+    /** Updates the nodes array with new nodes */
+    setNodes: (nodes, options) => commit({ nodes }, options),
+    /** Updates the edges array with new edges */
+    setEdges: (edges, options) => commit({ edges }, options),
+    /** Updates nodes and edges at once (e.g. removing a button and its edge) */
+    setGraph: (nodes, edges, options) => commit({ nodes, edges }, options),
+    /** Updates the variable registry */
+    setVariables: (variables, options) => commit({ variables }, options),
+    /** Updates the flow's languages */
+    setLocalization: (localization, options) => commit({ localization }, options),
+    /** Updates the channels the flow targets */
+    setChannels: (channels, options) => commit({ channels }, options),
+    /** Replaces the whole flow content */
+    setContent: ({ nodes, edges, variables, localization, channels }, options) =>
+      commit({ nodes, edges, variables, localization, channels }, options),
+    /** Updates a node's data after checking it against the node type's schema */
+    updateNodeData: (id, patch, options) => {
+      const { nodes } = get();
+      const node = nodes.find((n) => n.id === id);
+      if (!node) return [`Node "${id}" does not exist`];
+
+      const checked = checkNodeData(node.type, { ...node.data, ...patch });
+      if (!checked.ok) return checked.errors;
+
+      // The data was checked against the schema of the node's own type
+      const newNodes = nodes.map((n) => (n.id === id ? ({ ...n, data: checked.value } as AppNode) : n));
+      commit({ nodes: newNodes }, options);
+      return [];
+    },
+    /** Updates an edge */
+    updateEdge: (id, patch, options) =>
+      commit({ edges: get().edges.map((e) => (e.id === id ? { ...e, ...patch } : e)) }, options),
+    /** Deletes nodes with their edges, plus the given edges */
+    deleteElements: (nodeIds, edgeIds = []) => {
+      const { nodes, edges, selectedNodeId, selectedEdgeId } = get();
+      const removedNodes = new Set(nodeIds);
+      const removedEdges = new Set(edgeIds);
+      nodes.forEach((n) => {
+        if (n.parentId && removedNodes.has(n.parentId)) removedNodes.add(n.id);
+      });
+      edges.forEach((e) => {
+        if (removedNodes.has(e.source) || removedNodes.has(e.target)) removedEdges.add(e.id);
+      });
+      if (removedNodes.size === 0 && removedEdges.size === 0) return;
+
+      commit({
+        nodes: nodes.filter((n) => !removedNodes.has(n.id)),
+        edges: edges.filter((e) => !removedEdges.has(e.id)),
+      });
+      set({
+        selectedNodeId: selectedNodeId && removedNodes.has(selectedNodeId) ? null : selectedNodeId,
+        selectedEdgeId: selectedEdgeId && removedEdges.has(selectedEdgeId) ? null : selectedEdgeId,
+      });
+    },
+    /** Groups nodes and selects the new group */
+    createGroup: (nodeIds) => {
+      const result = groupNodes(get().nodes, nodeIds);
+      if (!result.ok) return result.reason;
+      commit({ nodes: result.nodes });
+      set({ selectedNodeId: result.groupId, selectedEdgeId: null });
+      return null;
     },
-  ],
-  // Initial edges array (empty on startup)
-  edges: [],
-  // Initial selected node state (no node selected)
-  selectedNodeId: null,
-  
-  // State update actions
-  /** Updates the nodes array with new nodes */
-  setNodes: (nodes) => set({ nodes }),
-  /** Updates the edges array with new edges */
-  setEdges: (edges) => set({ edges }),
-  /** Updates the selected node ID */
-  setSelectedNodeId: (selectedNodeId) => set({ selectedNodeId }),
-}));
+    /** Removes groups */
+    ungroup: (groupIds) => {
+      const { nodes, selectedNodeId } = get();
+      const newNodes = groupIds.reduce(ungroupNodes, nodes);
+      if (newNodes === nodes) return;
+      commit({ nodes: newNodes });
+      if (selectedNodeId && groupIds.includes(selectedNodeId)) set({ selectedNodeId: null });
+    },
+    /** Updates the selected node ID (never recorded in history) */
+    setSelectedNodeId: (selectedNodeId) =>
+      set(selectedNodeId ? { selectedNodeId, selectedEdgeId: null } : { selectedNodeId }),
+    /** Updates the selected edge ID (never recorded in history) */
+    setSelectedEdgeId: (selectedEdgeId) =>
+      set(selectedEdgeId ? { selectedEdgeId, selectedNodeId: null } : { selectedEdgeId }),
+
+    // History actions
+    /** Moves one step back in history */
+    undo: () => {
+      const state = get();
+      const previous = state.past[state.past.length - 1];
+      if (!previous) return;
+      set({
+        ...restoreSnapshot(state, previous),
+        past: state.past.slice(0, -1),
+        future: [...state.future, takeSnapshot(state)],
+        dirty: true,
+      });
+    },
+    /** Moves one step forward in history */
+    redo: () => {
+      const state = get();
+      const next = state.future[state.future.length - 1];
+      if (!next) return;
+      set({
+        ...restoreSnapshot(state, next),
+        past: pushCapped(state.past, takeSnapshot(state)),
+        future: state.future.slice(0, -1),
+        dirty: true,
+      });
+    },
+    /** Clears both history stacks */
+    clearHistory: () => set({ past: [], future: [], lastCommit: null }),
+
+    // Flow library actions
+    /** Loads a saved flow; history does not carry over between flows */
+    openFlow: (flow) =>
+      set({
+        flowId: flow.id,
+        flowName: flow.name,
+        lastSavedAt: flow.updatedAt,
+        dirty: false,
+        nodes: flow.nodes,
+        edges: flow.edges,
+        variables: flow.variables,
+        localization: flow.localization,
+        channels: flow.channels,
+        selectedNodeId: null,
+        selectedEdgeId: null,
+        past: [],
+        future: [],
+        lastCommit: null,
+      }),
+    /** Renames the open flow */
+    setFlowName: (flowName) => set({ flowName }),
+    /** Marks the open flow as persisted */
+    markSaved: (lastSavedAt) => set({ lastSavedAt, dirty: false }),
+  };
+});
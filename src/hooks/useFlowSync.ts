@@ -0,0 +1,384 @@
+/**
+ * Flow Sync Hook
+ *
+ * This module provides a Zustand store that keeps the flow library in sync
+ * with the flow backend (see flowApi.ts). Browser storage stays the working
+ * copy that autosave writes to; the server receives a flow when the user
+ * saves it and is asked for newer versions on startup.
+ *
+ * Every flow remembers the server version its local copy is based on (see
+ * FlowSyncRecord). Saving sends that version along, so a save based on an
+ * outdated copy is rejected by the server instead of overwriting someone
+ * else's work. The store then holds the conflict until the user keeps their
+ * copy, takes the server's copy or looks at the differences.
+ *
+ * Without `VITE_FLOW_API_URL` the client talks to the in-browser mock
+ * server, so all of this works offline.
+ */
+
+import { create } from 'zustand';
+import type { SavedFlow } from '../types/flow';
+import { useFlowStore } from './useFlowState';
+import { useFlowLibrary } from './useFlowLibrary';
+import { createFlowApi, type ApiError, type ApiResult, type RemoteFlow } from '../utils/flowApi';
+import { countChanges, diffFlows } from '../utils/flowDiff';
+import { loadFlow, loadSyncRecords, saveSyncRecords, type FlowSyncRecord } from '../utils/flowStorage';
+import { summarizeProblems } from '../utils/schemaChecks';
+import { createMockFlowServer, MOCK_API_BASE_URL, type MockFlowServer } from '../utils/mockFlowServer';
+
+declare global {
+  interface Window {
+    /** The mock flow server, for simulating failures and remote edits in development */
+    mockFlowServer?: MockFlowServer;
+  }
+}
+
+/** URL of the real flow backend; the mock server is used when it is not set */
+const API_URL = import.meta.env.VITE_FLOW_API_URL;
+
+/** The in-browser server answering requests while no backend is configured */
+const mockServer = API_URL ? null : createMockFlowServer();
+if (mockServer && import.meta.env.DEV) window.mockFlowServer = mockServer;
+
+/** Client used by the store */
+const api = createFlowApi(API_URL ? { baseUrl: API_URL } : { baseUrl: MOCK_API_BASE_URL, fetch: mockServer?.fetch });
+
+/**
+ * Sync Status Type
+ *
+ * - `idle` - nothing has been synced yet
+ * - `loading` - looking for newer versions on the server
+ * - `saving` - sending the open flow to the server
+ * - `synced` - the last operation succeeded
+ * - `error` - the last operation failed (see `message`)
+ * - `conflict` - the server has a newer version of the open flow (see `conflict`)
+ */
+export type SyncStatus = 'idle' | 'loading' | 'saving' | 'synced' | 'error' | 'conflict';
+
+/**
+ * Flow Conflict Interface
+ *
+ * @property local - The local copy that could not be saved
+ * @property remote - The newer copy on the server
+ * @property warnings - What had to be dropped or repaired in the server copy
+ */
+export interface FlowConflict {
+  local: SavedFlow;
+  remote: RemoteFlow;
+  warnings: string[];
+}
+
+/**
+ * Flow Sync State Interface
+ *
+ * Defines the structure of the flow sync store.
+ */
+type FlowSyncState = {
+  /** What the store is doing, or how the last operation ended */
+  status: SyncStatus;
+  /** Why the last operation failed */
+  message: string | null;
+  /** Time of the last successful operation */
+  lastSyncedAt: number | null;
+  /** What had to be repaired in the flows last taken from the server, until dismissed */
+  repairNotice: string | null;
+  /** Server version and local save time each flow was last synced at */
+  records: Record<string, FlowSyncRecord>;
+  /** The unresolved conflict of the open flow */
+  conflict: FlowConflict | null;
+  /** Whether the conflict resolution dialog is open */
+  conflictOpen: boolean;
+  /** The operation that failed, repeated by `retry` */
+  failed: 'pull' | 'push' | null;
+  /** Loads newer server versions of flows without local changes */
+  pull: () => Promise<void>;
+  /** Saves the open flow (as stored in the library) to the server; resolves to whether it worked */
+  push: () => Promise<boolean>;
+  /** Deletes a flow from the server, if it was ever saved there */
+  remove: (id: string) => Promise<void>;
+  /** Repeats the operation that failed */
+  retry: () => void;
+  /** Resolves the conflict by overwriting the server copy with the local one */
+  keepMine: () => Promise<boolean>;
+  /** Resolves the conflict by replacing the local copy with the server copy; returns false if storage refused it */
+  takeTheirs: () => boolean;
+  /** Opens or closes the conflict resolution dialog */
+  setConflictOpen: (open: boolean) => void;
+  /** Hides the repair notice */
+  dismissRepairNotice: () => void;
+};
+
+/**
+ * To Local Flow Helper
+ *
+ * @param remote - A flow from the server
+ * @returns The flow as kept in the library, without the server version
+ */
+const toLocal = ({
+  id,
+  name,
+  createdAt,
+  updatedAt,
+  nodes,
+  edges,
+  variables,
+  localization,
+  channels,
+}: RemoteFlow): SavedFlow => ({
+  id,
+  name,
+  createdAt,
+  updatedAt,
+  nodes,
+  edges,
+  variables,
+  localization,
+  channels,
+});
+
+/**
+ * Same Content Helper
+ *
+ * @param a - A flow
+ * @param b - Another copy of the flow
+ * @returns True if both copies have the same name, nodes, edges, variables, localization and channels
+ */
+const sameContent = (a: SavedFlow, b: SavedFlow) => countChanges(diffFlows(a, b)) === 0;
+
+/**
+ * Describe Repairs Helper
+ *
+ * @param repaired - Flows taken from the server that had to be repaired, with what was repaired
+ * @returns The notice telling the user, or null if nothing was repaired
+ */
+const describeRepairs = (repaired: { name: string; warnings: string[] }[]): string | null => {
+  if (repaired.length === 0) return null;
+  if (repaired.length === 1) {
+    return `"${repaired[0].name}" from the server was repaired to match this version: ${summarizeProblems(repaired[0].warnings)}`;
+  }
+  return `${repaired.length} flows from the server were repaired to match this version: ${repaired.map((r) => `"${r.name}"`).join(', ')}`;
+};
+
+/**
+ * Is Edited Helper
+ *
+ * @param local - The local copy of a flow, if there is one
+ * @param record - What the flow was last synced at, if it ever was
+ * @returns True if the local copy has changes the server does not have
+ */
+const isEdited = (local: SavedFlow | null, record: FlowSyncRecord | undefined): local is SavedFlow =>
+  local !== null && (!record || local.updatedAt > record.updatedAt);
+
+/**
+ * Zustand Store Instance
+ *
+ * Creates and exports the flow sync store with the stored sync records.
+ */
+export const useFlowSync = create<FlowSyncState>((set, get) => {
+  /**
+   * Set Record Helper
+   *
+   * @param id - ID of a flow
+   * @param record - What the flow was synced at, or null to forget it
+   */
+  const setRecord = (id: string, record: FlowSyncRecord | null) => {
+    const records = { ...get().records };
+    if (record) records[id] = record;
+    else delete records[id];
+    saveSyncRecords(records);
+    set({ records });
+  };
+
+  /**
+   * Fail Helper
+   *
+   * @param error - Why the operation failed
+   * @param failed - The operation, so it can be retried
+   */
+  const fail = (error: ApiError, failed: 'pull' | 'push') => set({ status: 'error', message: error.message, failed });
+
+  /**
+   * Settle Save Helper
+   *
+   * Records the outcome of saving a flow. A conflict with a server copy that
+   * has the same content (e.g. a retried save whose first attempt landed) is
+   * not a real conflict and counts as a successful save.
+   *
+   * @param flow - The flow that was sent
+   * @param result - The server's answer
+   * @returns Whether the flow is now saved on the server
+   */
+  const settle = (flow: SavedFlow, result: ApiResult<RemoteFlow>): boolean => {
+    /** Records the server copy the flow was saved as */
+    const succeed = (saved: RemoteFlow) => {
+      setRecord(flow.id, { version: saved.version, updatedAt: flow.updatedAt });
+      set({ status: 'synced', message: null, failed: null, lastSyncedAt: Date.now() });
+      return true;
+    };
+    if (result.ok) return succeed(result.value);
+
+    const { error } = result;
+    if (error.kind !== 'conflict') {
+      fail(error, 'push');
+      return false;
+    }
+    if (sameContent(flow, error.current)) return succeed(error.current);
+    set({
+      status: 'conflict',
+      message: error.message,
+      failed: null,
+      conflict: { local: flow, remote: error.current, warnings: error.warnings },
+      conflictOpen: true,
+    });
+    return false;
+  };
+
+  /**
+   * Accept Helper
+   *
+   * Makes a server copy the local copy of its flow. The flow stays unsynced
+   * if browser storage refuses the copy, so the next pull tries again.
+   *
+   * @param remote - A flow from the server
+   * @returns True if the server copy was stored
+   */
+  const accept = (remote: RemoteFlow): boolean => {
+    if (!useFlowLibrary.getState().receiveFlow(toLocal(remote))) return false;
+    setRecord(remote.id, { version: remote.version, updatedAt: remote.updatedAt });
+    return true;
+  };
+
+  return {
+    status: 'idle',
+    message: null,
+    lastSyncedAt: null,
+    repairNotice: null,
+    records: loadSyncRecords(),
+    conflict: null,
+    conflictOpen: false,
+    failed: null,
+
+    pull: async () => {
+      set({ status: 'loading', message: null, failed: null });
+      const list = await api.listFlows();
+      if (!list.ok) return fail(list.error, 'pull');
+
+      // Server copies that browser storage had no room for, and the stored ones that had to be repaired
+      let refused = 0;
+      const repaired: { name: string; warnings: string[] }[] = [];
+      for (const summary of list.value) {
+        const record = get().records[summary.id];
+        if (record && record.version >= summary.version) continue;
+
+        // Local changes of other flows are kept; saving them reports the conflict
+        if (summary.id !== useFlowStore.getState().flowId && isEdited(loadFlow(summary.id)?.flow ?? null, record)) continue;
+
+        const result = await api.getFlow(summary.id);
+        if (!result.ok) {
+          // Deleted since it was listed
+          if (result.error.kind === 'not-found') continue;
+          return fail(result.error, 'pull');
+        }
+
+        // Edits of the open flow that autosave has not written yet (including
+        // those made while the request ran) are written first, so they count
+        // as local changes; if they cannot be written, the open flow is kept
+        const open = useFlowStore.getState();
+        if (open.flowId === summary.id && open.dirty && !useFlowLibrary.getState().saveCurrent()) continue;
+        const local = loadFlow(summary.id)?.flow ?? null;
+        const edited = isEdited(local, record);
+
+        const { value: remote, warnings } = result;
+        if (!edited) {
+          if (!accept(remote)) refused += 1;
+          else if (warnings.length > 0) repaired.push({ name: remote.name, warnings });
+        } else if (sameContent(local, remote)) {
+          setRecord(remote.id, { version: remote.version, updatedAt: local.updatedAt });
+        } else {
+          set({ conflict: { local, remote, warnings }, conflictOpen: true });
+        }
+      }
+
+      if (repaired.length > 0) set({ repairNotice: describeRepairs(repaired) });
+      const { conflict } = get();
+      if (conflict) {
+        set({ status: 'conflict', message: 'The flow was changed on the server since it was last synced.' });
+      } else if (refused > 0) {
+        set({
+          status: 'error',
+          message: `${refused} flow${refused === 1 ? '' : 's'} from the server could not be stored: browser storage is full.`,
+          failed: 'pull',
+        });
+        return;
+      } else {
+        set({ status: 'synced', message: null });
+      }
+      set({ lastSyncedAt: Date.now() });
+    },
+
+    push: async () => {
+      const flow = loadFlow(useFlowStore.getState().flowId)?.flow;
+      if (!flow || get().status === 'saving') return false;
+
+      set({ status: 'saving', message: null, failed: null });
+      const record = get().records[flow.id];
+      let result = record ? await api.updateFlow(flow, record.version) : await api.createFlow(flow);
+      // The flow was deleted on the server; store it again
+      if (!result.ok && result.error.kind === 'not-found') result = await api.createFlow(flow);
+      return settle(flow, result);
+    },
+
+    remove: async (id) => {
+      const record = get().records[id];
+      if (!record) return;
+
+      const result = await api.deleteFlow(id, record.version);
+      if (result.ok || result.error.kind === 'not-found') {
+        setRecord(id, null);
+      } else if (result.error.kind === 'conflict') {
+        set({ status: 'error', message: 'The flow was changed on the server by someone else, so it was not deleted there.' });
+      } else {
+        set({ status: 'error', message: result.error.message });
+      }
+    },
+
+    retry: () => {
+      const { failed, pull, push } = get();
+      if (failed === 'pull') void pull();
+      if (failed === 'push') void push();
+    },
+
+    keepMine: async () => {
+      const { conflict } = get();
+      if (!conflict) return false;
+
+      // Send the latest local copy, including edits made since the conflict
+      if (conflict.local.id === useFlowStore.getState().flowId) useFlowLibrary.getState().saveCurrent();
+      const flow = loadFlow(conflict.local.id)?.flow ?? conflict.local;
+
+      set({ status: 'saving', message: null, conflict: null, conflictOpen: false });
+      return settle(flow, await api.updateFlow(flow, conflict.remote.version));
+    },
+
+    takeTheirs: () => {
+      const { conflict } = get();
+      if (!conflict) return false;
+
+      // The conflict stays open, so the user can still keep their copy
+      if (!accept(conflict.remote)) return false;
+      set({
+        status: 'synced',
+        message: null,
+        conflict: null,
+        conflictOpen: false,
+        lastSyncedAt: Date.now(),
+        repairNotice: describeRepairs(conflict.warnings.length > 0 ? [{ name: conflict.remote.name, warnings: conflict.warnings }] : []),
+      });
+      return true;
+    },
+
+    setConflictOpen: (conflictOpen) => set({ conflictOpen }),
+
+    dismissRepairNotice: () => set({ repairNotice: null }),
+  };
+});
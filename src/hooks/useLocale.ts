@@ -0,0 +1,114 @@
+/**
+ * Locale Hook
+ *
+ * This module provides a Zustand store for the locale the editor works in.
+ * The canvas shows the messages in this locale, the settings panels edit
+ * them in this locale and the chat preview runs the flow in it.
+ *
+ * The store only remembers the chosen locale; it is resolved against the
+ * open flow's locales, so switching to a flow without that locale shows
+ * the flow's default locale instead.
+ */
+
+import { useCallback } from 'react';
+import { create } from 'zustand';
+import type { AppNode, FlowLocalization } from '../types/flow';
+import { getLocaleName, getTranslations, setTranslation } from '../utils/localization';
+import { useFlowStore } from './useFlowState';
+
+/**
+ * Locale State Interface
+ *
+ * Defines the structure of the locale store.
+ */
+type LocaleState = {
+  /** Code of the chosen locale, null for the flow's default locale */
+  locale: string | null;
+  /** Chooses a locale (null for the default locale) */
+  setLocale: (locale: string | null) => void;
+};
+
+/**
+ * Zustand Store Instance
+ *
+ * Creates and exports the locale store.
+ */
+export const useLocaleStore = create<LocaleState>((set) => ({
+  locale: null,
+  setLocale: (locale) => set({ locale }),
+}));
+
+/**
+ * Resolve Locale
+ *
+ * @param locale - The chosen locale, if any
+ * @param localization - The open flow's localization
+ * @returns The chosen locale if the flow has it, otherwise the flow's default locale
+ */
+export const resolveLocale = (locale: string | null, localization: FlowLocalization): string =>
+  locale && localization.locales.some((l) => l.code === locale) ? locale : localization.defaultLocale;
+
+/**
+ * Use Active Locale Hook
+ *
+ * @returns The locale the editor shows and edits the open flow in
+ */
+export function useActiveLocale(): string {
+  const locale = useLocaleStore((state) => state.locale);
+  const localization = useFlowStore((state) => state.localization);
+  return resolveLocale(locale, localization);
+}
+
+/**
+ * Node Translation Interface
+ *
+ * @property locale - The locale being edited
+ * @property localeName - Readable name of the locale
+ * @property isDefault - Whether the locale is the flow's default locale, which is edited in the node fields
+ * @property translated - The node's translations into the locale, keyed by string key
+ * @property setTranslated - Sets the translation of one of the node's strings (empty to remove it)
+ */
+export interface NodeTranslation {
+  locale: string;
+  localeName: string;
+  isDefault: boolean;
+  translated: Record<string, string>;
+  setTranslated: (key: string, value: string) => void;
+}
+
+/**
+ * Use Node Translation Hook
+ *
+ * Lets a settings panel edit a node's strings in the active locale. The
+ * default locale is edited in the node fields as usual; the other locales
+ * are edited through `setTranslated`, with each typing burst coalesced into
+ * one undo step.
+ *
+ * @param node - The node being edited, if any
+ * @returns The active locale and the node's translations into it
+ */
+export function useNodeTranslation(node: AppNode | undefined): NodeTranslation {
+  const locale = useActiveLocale();
+  const defaultLocale = useFlowStore((state) => state.localization.defaultLocale);
+  const updateNodeData = useFlowStore((state) => state.updateNodeData);
+
+  const setTranslated = useCallback(
+    (key: string, value: string) => {
+      if (!node) return;
+      updateNodeData(
+        node.id,
+        { translations: setTranslation(getTranslations(node), locale, key, value) },
+        { coalesceKey: `${key}:${locale}:${node.id}` }
+      );
+    },
+    [node, locale, updateNodeData]
+  );
+
+  return {
+    locale,
+    localeName: getLocaleName(locale),
+    isDefault: locale === defaultLocale,
+    translated: (node && getTranslations(node)[locale]) ?? {},
+    setTranslated,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Preview State Management Hook
+ *
+ * This module provides a Zustand store for the chat preview drawer. It holds
+ * whether the drawer is open and the steps of the running simulation, and
+ * exposes actions that drive the flow runner against the current flow.
+ *
+ * The canvas reads the current step from this store to highlight the node
+ * that is executing.
+ *
+ * The simulation runs the flow as the chatbot would (see runtimeFlow.ts):
+ * subflows are inlined, so step node IDs of subflow nodes start with the ID
+ * of their call node, and groups and notes are left out. It runs in the
+ * editor's active locale (see useLocale.ts).
+ */
+
+import { create } from 'zustand';
+import { useFlowStore } from './useFlowState';
+import { resolveLocale, useLocaleStore } from './useLocale';
+import {
+  advanceSimulation,
+  startSimulation,
+  stepBackSimulation,
+  type SimulationResponse,
+  type SimulationStep,
+} from '../utils/flowRunner';
+import { toRuntimeFlow } from '../utils/runtimeFlow';
+
+/**
+ * Preview State Interface
+ *
+ * Defines the structure of the chat preview store.
+ */
+type PreviewState = {
+  /** Whether the preview drawer is open */
+  open: boolean;
+  /** Steps of the running simulation; the last one is executing */
+  steps: SimulationStep[];
+  /** Opens the drawer and starts a fresh simulation */
+  openPreview: () => void;
+  /** Closes the drawer */
+  closePreview: () => void;
+  /** Answers the current node (if needed) and moves to the next one */
+  next: (response?: SimulationResponse) => void;
+  /** Returns to the previous node */
+  back: () => void;
+  /** Starts over from the entry node */
+  restart: () => void;
+};
+
+/**
+ * Zustand Store Instance
+ *
+ * Creates and exports the chat preview store.
+ */
+export const usePreviewStore = create<PreviewState>((set, get) => {
+  /** Reads the current flow as the chatbot runs it */
+  const runnableFlow = () => {
+    const { flowId, nodes, edges, variables, localization, channels } = useFlowStore.getState();
+    const locale = resolveLocale(useLocaleStore.getState().locale, localization);
+    return toRuntimeFlow({ nodes, edges, variables, localization, channels }, flowId, locale);
+  };
+
+  /** Starts a new simulation of the current flow */
+  const start = () => {
+    const { nodes, edges, variables } = runnableFlow();
+    set({ steps: startSimulation(nodes, edges, variables) });
+  };
+
+  return {
+    open: false,
+    steps: [],
+
+    openPreview: () => {
+      set({ open: true });
+      start();
+    },
+    closePreview: () => set({ open: false, steps: [] }),
+    next: (response) => {
+      const { nodes, edges, variables } = runnableFlow();
+      set({ steps: advanceSimulation(get().steps, nodes, edges, response, variables) });
+    },
+    back: () => set({ steps: stepBackSimulation(get().steps) }),
+    restart: start,
+  };
+});
+
+/**
+ * Active Node Selector
+ *
+ * @param state - Preview store state
+ * @returns ID of the node executing in the preview, or null when the preview is closed
+ */
+export const selectActiveNodeId = (state: PreviewState): string | null =>
+  state.open ? state.steps[state.steps.length - 1]?.nodeId ?? null : null;
@@ -0,0 +1,99 @@
+/**
+ * Revisions Hook
+ *
+ * This module provides a Zustand store for the revision history of the open
+ * flow (see revisions.ts). It lists the revisions, records a new one after
+ * every save with the Save button, keeps track of the two revisions picked
+ * for comparison and restores revisions into the open flow.
+ *
+ * The list follows the open flow: it is re-read whenever another flow is
+ * opened.
+ */
+
+import { create } from 'zustand';
+import type { FlowRevision } from '../types/flow';
+import { useFlowStore } from './useFlowState';
+import { loadFlow } from '../utils/flowStorage';
+import { addRevision, listRevisions } from '../utils/revisions';
+
+/**
+ * Revisions State Interface
+ *
+ * Defines the structure of the revisions store.
+ */
+type RevisionsState = {
+  /** Revisions of the open flow, newest first */
+  revisions: FlowRevision[];
+  /** IDs of the revisions picked for comparison (at most two) */
+  selectedIds: string[];
+  /** Whether the comparison of the picked revisions is shown */
+  comparing: boolean;
+  /**
+   * Records the open flow, as stored in the library, as a new revision;
+   * returns how many old revisions were pruned to make room, or null if it
+   * was not recorded
+   */
+  record: (note?: string) => number | null;
+  /** Picks a revision for comparison, or unpicks it; picking a third drops the oldest pick */
+  toggleSelected: (id: string) => void;
+  /** Shows or hides the comparison */
+  setComparing: (comparing: boolean) => void;
+  /** Replaces the content of the open flow with a revision, as one undo step */
+  restore: (id: string) => void;
+};
+
+/**
+ * Zustand Store Instance
+ *
+ * Creates and exports the revisions store.
+ */
+export const useRevisions = create<RevisionsState>((set, get) => {
+  // Follow the open flow; picks do not carry over between flows
+  useFlowStore.subscribe((state, prev) => {
+    if (state.flowId === prev.flowId) return;
+    set({ revisions: listRevisions(state.flowId), selectedIds: [], comparing: false });
+  });
+
+  return {
+    revisions: listRevisions(useFlowStore.getState().flowId),
+    selectedIds: [],
+    comparing: false,
+
+    record: (note) => {
+      const flow = loadFlow(useFlowStore.getState().flowId)?.flow;
+      const added = flow ? addRevision(flow, note) : null;
+      if (!flow || !added) return null;
+      set({ revisions: listRevisions(flow.id) });
+      return added.pruned;
+    },
+
+    toggleSelected: (id) => {
+      const { selectedIds } = get();
+      if (selectedIds.includes(id)) {
+        set({ selectedIds: selectedIds.filter((s) => s !== id) });
+      } else {
+        set({ selectedIds: [...selectedIds, id].slice(-2) });
+      }
+    },
+
+    setComparing: (comparing) => set({ comparing }),
+
+    restore: (id) => {
+      const revision = get().revisions.find((r) => r.id === id);
+      if (!revision) return;
+
+      const { setContent, setSelectedNodeId, setSelectedEdgeId } = useFlowStore.getState();
+      setSelectedNodeId(null);
+      setSelectedEdgeId(null);
+      // The flow keeps its current name; restoring is undoable like any edit
+      setContent({
+        nodes: revision.nodes,
+        edges: revision.edges,
+        variables: revision.variables,
+        localization: revision.localization,
+        channels: revision.channels,
+      });
+      set({ comparing: false });
+    },
+  };
+});
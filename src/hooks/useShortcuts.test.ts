@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import { installMemoryStorage, type MemoryStorage } from '../test/memoryStorage';
+import { loadShortcutOverrides } from '../utils/shortcuts';
+import { useShortcutStore } from './useShortcuts';
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = installMemoryStorage();
+  useShortcutStore.setState({ overrides: {}, saveError: null });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('shortcut store', () => {
+  it('applies and stores new bindings', () => {
+    expect(useShortcutStore.getState().assign('fit-view', 'Mod+Z')).toMatchObject({ displaced: [{ id: 'undo' }] });
+    expect(loadShortcutOverrides()).toMatchObject({ 'fit-view': ['Mod+Z'], undo: [] });
+    expect(useShortcutStore.getState().saveError).toBeNull();
+  });
+
+  it('keeps bindings that storage refuses for the session and reports them', () => {
+    storage.quota = 0;
+    useShortcutStore.getState().clear('undo');
+    expect(useShortcutStore.getState().overrides).toEqual({ undo: [] });
+    expect(useShortcutStore.getState().saveError).toContain('browser storage is full');
+
+    storage.quota = Infinity;
+    useShortcutStore.getState().resetAll();
+    expect(useShortcutStore.getState().saveError).toBeNull();
+  });
+});
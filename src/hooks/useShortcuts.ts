@@ -0,0 +1,182 @@
+/**
+ * Keyboard Shortcuts Hook
+ *
+ * This module is the central shortcut manager. A single document keydown
+ * listener turns key presses into bindings, looks up the action bound to
+ * them and runs the handler a component registered for that action.
+ *
+ * Focus Rules:
+ * - Keys pressed in text fields are left to the field, except for actions
+ *   marked `allowInInputs` (undo and redo)
+ * - Keys another handler already handled (e.g. React Flow moving a focused
+ *   node) are ignored
+ * - While the cheat sheet is open, only the key that toggles it is handled,
+ *   and no key is handled while it records a new binding
+ *
+ * The store also holds the user's bindings, which are persisted to browser
+ * storage whenever they change, and whether the cheat sheet is open. Bindings
+ * that storage refuses still apply until the page is reloaded.
+ */
+
+import { useEffect, useRef } from 'react';
+import { create } from 'zustand';
+import {
+  assignBinding,
+  describeBinding,
+  eventToBinding,
+  findAction,
+  getBindings,
+  getShortcutActions,
+  isTextInput,
+  loadShortcutOverrides,
+  saveShortcutOverrides,
+  type ShortcutAction,
+  type ShortcutOverrides,
+} from '../utils/shortcuts';
+
+/**
+ * Shortcut State Interface
+ *
+ * Defines the structure of the shortcut store.
+ */
+type ShortcutState = {
+  /** Bindings the user has changed, by action ID */
+  overrides: ShortcutOverrides;
+  /** Why the bindings could not be written to storage the last time they changed; null if they were */
+  saveError: string | null;
+  /** Whether the cheat sheet is open */
+  helpOpen: boolean;
+  /** Whether the cheat sheet is recording a new binding */
+  recording: boolean;
+  /** Opens or closes the cheat sheet */
+  setHelpOpen: (open: boolean) => void;
+  /** Starts or stops recording a new binding */
+  setRecording: (recording: boolean) => void;
+  /**
+   * Makes a binding the only binding of an action, taking it from other
+   * actions. Returns the actions it was taken from, or the reason it cannot
+   * be used.
+   */
+  assign: (actionId: string, binding: string) => { displaced: ShortcutAction[] } | { error: string };
+  /** Removes all bindings of an action */
+  clear: (actionId: string) => void;
+  /** Restores the default bindings of an action */
+  reset: (actionId: string) => void;
+  /** Restores the default bindings of every action */
+  resetAll: () => void;
+};
+
+/**
+ * Zustand Store Instance
+ *
+ * Creates and exports the shortcut store with the stored bindings.
+ */
+export const useShortcutStore = create<ShortcutState>((set, get) => {
+  /** Applies and persists new bindings */
+  const update = (overrides: ShortcutOverrides) => {
+    const saved = saveShortcutOverrides(overrides);
+    set({
+      overrides,
+      saveError: saved ? null : 'The keys are not saved: browser storage is full. They only work until the page is reloaded.',
+    });
+  };
+
+  return {
+    overrides: loadShortcutOverrides(),
+    saveError: null,
+    helpOpen: false,
+    recording: false,
+
+    setHelpOpen: (helpOpen) => set({ helpOpen, recording: false }),
+    setRecording: (recording) => set({ recording }),
+    assign: (actionId, binding) => {
+      const result = assignBinding(get().overrides, actionId, binding);
+      if (!result.ok) return { error: result.reason };
+      update(result.overrides);
+      return { displaced: result.displaced };
+    },
+    clear: (actionId) => update({ ...get().overrides, [actionId]: [] }),
+    reset: (actionId) => {
+      const overrides = { ...get().overrides };
+      delete overrides[actionId];
+      update(overrides);
+    },
+    resetAll: () => update({}),
+  };
+});
+
+/** Handlers of the actions, registered by the components that own them */
+const handlers = new Map<string, () => void>();
+
+/**
+ * Shortcut Handlers Hook
+ *
+ * Registers handlers for shortcut actions while the calling component is
+ * mounted. The latest handlers are always called, so they may close over
+ * render state.
+ *
+ * @param actionHandlers - Handler per action ID
+ */
+export function useShortcutHandlers(actionHandlers: Record<string, () => void>) {
+  const latest = useRef(actionHandlers);
+  useEffect(() => {
+    latest.current = actionHandlers;
+  });
+
+  const ids = Object.keys(actionHandlers).join(' ');
+  useEffect(() => {
+    const registered = ids.split(' ').filter(Boolean);
+    registered.forEach((id) => handlers.set(id, () => latest.current[id]?.()));
+    return () => registered.forEach((id) => handlers.delete(id));
+  }, [ids]);
+}
+
+/**
+ * Shortcut Hint Hook
+ *
+ * @param actionId - ID of a shortcut action
+ * @returns The action's first binding for tooltips, e.g. " (Ctrl+Z)", or
+ * an empty string if the action has no keys
+ */
+export function useShortcutHint(actionId: string): string {
+  const overrides = useShortcutStore((state) => state.overrides);
+  const action = getShortcutActions().find((a) => a.id === actionId);
+  const binding = action ? getBindings(action, overrides)[0] : undefined;
+  return binding ? ` (${describeBinding(binding)})` : '';
+}
+
+/**
+ * Shortcut Manager Hook
+ *
+ * Call once in the app; installs the keydown listener.
+ */
+export function useShortcutManager() {
+  useEffect(() => {
+    /**
+     * Key Down Handler
+     *
+     * Runs the action bound to the pressed keys, if any.
+     *
+     * @param e - The keyboard event
+     */
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.isComposing) return;
+      const { overrides, helpOpen, recording } = useShortcutStore.getState();
+      if (recording) return;
+
+      const binding = eventToBinding(e);
+      const action = binding ? findAction(binding, overrides) : undefined;
+      if (!action || (helpOpen && action.id !== 'help')) return;
+      if (isTextInput(e.target) && !action.allowInInputs) return;
+
+      const handler = handlers.get(action.id);
+      if (!handler) return;
+      // Stop the browser's own use of the keys (e.g. bookmarking, find)
+      e.preventDefault();
+      handler();
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
+}
@@ -12,8 +12,19 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
+// Register the built-in node types before anything reads the node registry
+import './components/FlowBuilder/NodeTypes'
+import { useFlowLibrary } from './hooks/useFlowLibrary'
+import { useFlowSync } from './hooks/useFlowSync'
 import App from './App.tsx'
 
+// Open the last open flow. Loading checks the stored nodes against the
+// schemas of their types, so this runs after the node types are registered.
+useFlowLibrary.getState().restoreFlow()
+
+// Load flows saved on the server since this browser last synced
+void useFlowSync.getState().pull()
+
 // Create the root container and render the application
 // Using React 18's createRoot API for better performance and concurrent features
 createRoot(document.getElementById('root')!).render(
@@ -0,0 +1,65 @@
+/**
+ * Memory Storage Test Helper
+ *
+ * An in-memory stand-in for the browser's localStorage, for tests of the
+ * modules that persist data. Like a real browser it can run out of room:
+ * writes that would take the stored text past `quota` characters throw, so
+ * tests can check how a full storage is handled.
+ */
+
+import { vi } from 'vitest';
+
+export class MemoryStorage implements Storage {
+  /** Maximum number of characters (keys and values) the storage holds */
+  quota = Infinity;
+
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  /** Number of characters stored, counting keys and values */
+  get used() {
+    let used = 0;
+    this.items.forEach((value, key) => (used += key.length + value.length));
+    return used;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    const current = this.items.get(key);
+    const next = this.used - (current === undefined ? 0 : key.length + current.length) + key.length + value.length;
+    if (next > this.quota) throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    this.items.set(key, String(value));
+  }
+}
+
+/**
+ * Install Memory Storage
+ *
+ * Replaces localStorage with an empty memory storage until the globals are
+ * unstubbed (vi.unstubAllGlobals).
+ *
+ * @returns The installed storage
+ */
+export function installMemoryStorage(): MemoryStorage {
+  const storage = new MemoryStorage();
+  vi.stubGlobal('localStorage', storage);
+  return storage;
+}
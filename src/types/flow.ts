@@ -7,58 +7,236 @@
  * 
  * The types are designed to be extensible, allowing easy addition of
  * new node types in the future while maintaining type safety.
+ * 
+ * Node data types are inferred from the runtime schemas in schemas.ts, which
+ * check flow data when it enters the store.
  */
 
 // Import React Flow's base types to extend them for our application
 import { type Node, type Edge } from '@xyflow/react';
+import type { z } from 'zod';
+import type {
+  apiNodeDataSchema,
+  buttonsNodeDataSchema,
+  conditionGroupSchema,
+  conditionNodeDataSchema,
+  conditionOperatorSchema,
+  conditionRuleSchema,
+  fileUploadNodeDataSchema,
+  groupNodeDataSchema,
+  httpHeaderSchema,
+  httpMethodSchema,
+  mediaKindSchema,
+  mediaNodeDataSchema,
+  noteColorSchema,
+  noteNodeDataSchema,
+  quickReplyButtonSchema,
+  responseMappingSchema,
+  subflowNodeDataSchema,
+  textNodeDataSchema,
+  translationsSchema,
+} from './schemas';
 
 /**
- * Node Type Union
- * 
- * Defines all available node types in the application.
- * This union type is used to ensure only valid node types can be created.
+ * Translations Type
  * 
- * @example
- * - 'text': Text message nodes for displaying messages
- * - 'fileUpload': File upload nodes for collecting files
- * 
- * Future additions: 'api', 'choice', 'condition', 'webhook', etc.
+ * Per-locale values of a node's user-facing strings:
+ * `translations[locale][key]`. See translationsSchema.
  */
-export type NodeType = 'text' | 'fileUpload';
+export type Translations = z.infer<typeof translationsSchema>;
 
 /**
- * Text Node Data Interface
+ * Text Node Data Type
  * 
  * Defines the data structure for text message nodes.
  * These nodes represent text messages that will be displayed in the chatbot.
- * 
- * @property text - The message content to be displayed
- * @property type - Discriminant field to identify this as a text node
+ * See textNodeDataSchema for the fields.
  */
-export type TextNodeData = {
-  text: string;
-  type: 'text'; // Discriminant field - must be a type, not interface
-};
+export type TextNodeData = z.infer<typeof textNodeDataSchema>;
 
 /**
- * File Upload Node Data Interface
+ * File Upload Node Data Type
  * 
  * Defines the data structure for file upload nodes.
  * These nodes represent file upload functionality in the chatbot flow.
+ * See fileUploadNodeDataSchema for the fields.
+ */
+export type FileUploadNodeData = z.infer<typeof fileUploadNodeDataSchema>;
+
+/**
+ * Media Kind Type
  * 
- * @property label - Display label for the file upload component
- * @property allowedTypes - Array of allowed file extensions (e.g., ['pdf', 'docx'])
- * @property maxSize - Maximum file size in megabytes
- * @property multiple - Whether multiple files can be uploaded
- * @property type - Discriminant field to identify this as a file upload node
- */
-export type FileUploadNodeData = {
-  label: string;
-  allowedTypes: string[];
-  maxSize: number; // in MB
-  multiple: boolean;
-  type: 'fileUpload';
-};
+ * The kinds of media a media node can send (image, video, audio, document).
+ */
+export type MediaKind = z.infer<typeof mediaKindSchema>;
+
+/**
+ * Media Node Data Type
+ * 
+ * Defines the data structure for media nodes, which send an image, video,
+ * audio clip or document to the user. See mediaNodeDataSchema for the fields.
+ */
+export type MediaNodeData = z.infer<typeof mediaNodeDataSchema>;
+
+/**
+ * Quick Reply Button Type
+ * 
+ * A single button offered by a quick-reply node.
+ */
+export type QuickReplyButton = z.infer<typeof quickReplyButtonSchema>;
+
+/**
+ * Buttons Node Data Type
+ * 
+ * Defines the data structure for quick-reply button nodes.
+ * These nodes send a message with a set of buttons; each button has its own
+ * source handle so the flow can branch on the user's choice.
+ */
+export type ButtonsNodeData = z.infer<typeof buttonsNodeDataSchema>;
+
+/**
+ * Condition Operator Type
+ * 
+ * Comparison applied by a condition rule to a conversation variable.
+ */
+export type ConditionOperator = z.infer<typeof conditionOperatorSchema>;
+
+/**
+ * Condition Rule Type
+ * 
+ * A single comparison, e.g. `selected_button equals "Yes"`.
+ */
+export type ConditionRule = z.infer<typeof conditionRuleSchema>;
+
+/**
+ * Condition Group Type
+ * 
+ * A set of rules combined with AND or OR. Each group is a branch of the
+ * condition node with its own source handle.
+ */
+export type ConditionGroup = z.infer<typeof conditionGroupSchema>;
+
+/**
+ * Condition Node Data Type
+ * 
+ * Defines the data structure for condition nodes. Groups are evaluated in
+ * order; the flow continues from the first matching group's handle, or from
+ * the "else" handle if no group matches.
+ */
+export type ConditionNodeData = z.infer<typeof conditionNodeDataSchema>;
+
+/**
+ * HTTP Method Type
+ * 
+ * The HTTP methods an API node can use.
+ */
+export type HttpMethod = z.infer<typeof httpMethodSchema>;
+
+/**
+ * HTTP Header Type
+ * 
+ * A header sent with an API node's request. See httpHeaderSchema.
+ */
+export type HttpHeader = z.infer<typeof httpHeaderSchema>;
+
+/**
+ * Response Mapping Type
+ * 
+ * Copies a value of an API response into a flow variable. See
+ * responseMappingSchema.
+ */
+export type ResponseMapping = z.infer<typeof responseMappingSchema>;
+
+/**
+ * API Node Data Type
+ * 
+ * Defines the data structure for API nodes, which call an HTTP endpoint
+ * (e.g. to look up an order) and continue on their success or error
+ * handle. See apiNodeDataSchema for the fields.
+ */
+export type ApiNodeData = z.infer<typeof apiNodeDataSchema>;
+
+/**
+ * Group Node Data Type
+ * 
+ * Defines the data structure for group nodes. A group is a frame around
+ * other nodes (its members, which have the group as their `parentId`) and
+ * can be collapsed into a single compact node. Groups take no part in the
+ * conversation itself.
+ */
+export type GroupNodeData = z.infer<typeof groupNodeDataSchema>;
+
+/**
+ * Subflow Node Data Type
+ * 
+ * Defines the data structure for call subflow nodes. The conversation
+ * continues in the referenced flow and comes back through one of the
+ * node's exit handles, one per open end of the subflow.
+ */
+export type SubflowNodeData = z.infer<typeof subflowNodeDataSchema>;
+
+/**
+ * Note Color Type
+ * 
+ * Background colors of sticky notes.
+ */
+export type NoteColor = z.infer<typeof noteColorSchema>;
+
+/**
+ * Note Node Data Type
+ * 
+ * Defines the data structure for sticky notes: markdown annotations that
+ * document the flow on the canvas. Notes have no handles and take no part
+ * in the conversation; they are ignored by validation and left out of
+ * runtime exports.
+ */
+export type NoteNodeData = z.infer<typeof noteNodeDataSchema>;
+
+/**
+ * Node Data Map Interface
+ * 
+ * Maps every node type to the shape of its data. This is the single place
+ * the node type unions below are derived from.
+ * 
+ * Node types defined in their own module add themselves with declaration
+ * merging instead of editing this file:
+ * ```ts
+ * declare module '../../../types/flow' {
+ *   interface NodeDataMap {
+ *     location: LocationNodeData;
+ *   }
+ * }
+ * ```
+ * 
+ * @property text - Text message nodes for displaying messages
+ * @property fileUpload - File upload nodes for collecting files
+ * @property media - Media nodes for sending images, videos, audio and documents
+ * @property buttons - Quick-reply nodes that branch on the button the user picks
+ * @property condition - Branch nodes that route on conversation variables
+ * @property api - Nodes that call an HTTP API and store parts of the response
+ * @property nodeGroup - Collapsible frames around other nodes
+ * @property subflow - Nodes that call another flow of the library
+ * @property note - Sticky notes documenting the flow
+ */
+export interface NodeDataMap {
+  text: TextNodeData;
+  fileUpload: FileUploadNodeData;
+  media: MediaNodeData;
+  buttons: ButtonsNodeData;
+  condition: ConditionNodeData;
+  api: ApiNodeData;
+  nodeGroup: GroupNodeData;
+  subflow: SubflowNodeData;
+  note: NoteNodeData;
+}
+
+/**
+ * Node Type Union
+ * 
+ * Defines all available node types in the application.
+ * This union type is used to ensure only valid node types can be created.
+ */
+export type NodeType = keyof NodeDataMap;
 
 /**
  * Specific Node Type Definitions
@@ -69,17 +247,22 @@ export type FileUploadNodeData = {
  */
 export type TextNode = Node<TextNodeData, 'text'>;
 export type FileUploadNode = Node<FileUploadNodeData, 'fileUpload'>;
+export type MediaNode = Node<MediaNodeData, 'media'>;
+export type ButtonsNode = Node<ButtonsNodeData, 'buttons'>;
+export type ConditionNode = Node<ConditionNodeData, 'condition'>;
+export type ApiNode = Node<ApiNodeData, 'api'>;
+export type GroupNode = Node<GroupNodeData, 'nodeGroup'>;
+export type SubflowNode = Node<SubflowNodeData, 'subflow'>;
+export type NoteNode = Node<NoteNodeData, 'note'>;
 
 /**
  * Application Node Union Type
  * 
- * Union of all node types available in the application.
- * This type is used throughout the application to handle any type of node.
- * 
- * When adding new node types, simply extend this union:
- * export type AppNode = TextNode | FileUploadNode | ChoiceNode | ApiNode;
+ * Union of all node types available in the application, derived from
+ * NodeDataMap. This type is used throughout the application to handle any
+ * type of node.
  */
-export type AppNode = TextNode | FileUploadNode;
+export type AppNode = { [K in NodeType]: Node<NodeDataMap[K], K> }[NodeType];
 
 /**
  * Application Edge Type
@@ -89,6 +272,66 @@ export type AppNode = TextNode | FileUploadNode;
  */
 export type AppEdge = Edge;
 
+/**
+ * Flow Variable Type Union
+ * 
+ * The kinds of values a flow variable can hold.
+ */
+export type FlowVariableType = 'string' | 'number' | 'boolean';
+
+/**
+ * Flow Variable Interface
+ * 
+ * A variable declared in the flow's variable registry. Declared variables
+ * can be referenced as `{{name}}` in message text and in conditions.
+ * 
+ * @property name - Identifier used in placeholders (letters, digits, underscores)
+ * @property type - Kind of value the variable holds
+ * @property defaultValue - Value used until the conversation sets one
+ * @property description - What the variable is for
+ */
+export type FlowVariable = {
+  name: string;
+  type: FlowVariableType;
+  defaultValue: string;
+  description: string;
+};
+
+/**
+ * Flow Locale Interface
+ * 
+ * A language the flow's messages are written in.
+ * 
+ * @property code - BCP 47 language tag, e.g. "en", "hi" or "es-MX"
+ * @property required - Whether saving requires every message to be translated into this locale
+ */
+export type FlowLocale = {
+  code: string;
+  required: boolean;
+};
+
+/**
+ * Flow Localization Interface
+ * 
+ * The languages of a flow. Node fields hold the values in the default
+ * locale; the other locales are stored in the nodes' `translations`.
+ * 
+ * @property defaultLocale - Code of the locale the node fields are written in
+ * @property locales - All locales of the flow, including the default one
+ */
+export type FlowLocalization = {
+  defaultLocale: string;
+  locales: FlowLocale[];
+};
+
+/**
+ * Channel ID Type
+ * 
+ * A messaging channel a flow can be deployed to. The limits of each
+ * channel are described by its profile in utils/channels.ts.
+ */
+export type ChannelId = 'whatsapp' | 'messenger' | 'web';
+
 /**
  * Flow State Interface
  * 
@@ -97,8 +340,92 @@ export type AppEdge = Edge;
  * 
  * @property nodes - Array of all nodes in the flow
  * @property edges - Array of all edges connecting the nodes
+ * @property variables - The flow's variable registry
+ * @property localization - The flow's languages
+ * @property channels - The channels the flow targets (empty if it targets none in particular)
  */
 export interface FlowState {
   nodes: AppNode[];
   edges: AppEdge[];
+  variables: FlowVariable[];
+  localization: FlowLocalization;
+  channels: ChannelId[];
+}
+
+/**
+ * Flow Summary Interface
+ * 
+ * Lightweight description of a saved flow, used by the flow library to
+ * list flows without loading their nodes and edges.
+ * 
+ * @property id - Unique identifier of the saved flow
+ * @property name - User-facing name of the flow
+ * @property createdAt - Creation time (ms since epoch)
+ * @property updatedAt - Time of the last save (ms since epoch)
+ */
+export interface FlowSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Saved Flow Interface
+ * 
+ * A complete flow as persisted in browser storage: its summary metadata
+ * plus the flow state itself.
+ */
+export interface SavedFlow extends FlowSummary, FlowState {}
+
+/**
+ * Flow Revision Interface
+ * 
+ * An immutable snapshot of a flow, recorded every time the flow is saved
+ * with the Save button.
+ * 
+ * @property id - Unique identifier of the revision
+ * @property flowId - ID of the flow the revision belongs to
+ * @property name - Name of the flow at the time of the save
+ * @property createdAt - Time of the save (ms since epoch)
+ * @property note - Optional note describing the change
+ */
+export interface FlowRevision extends FlowState {
+  id: string;
+  flowId: string;
+  name: string;
+  createdAt: number;
+  note: string;
+}
+
+/**
+ * Flow File Metadata Interface
+ * 
+ * Descriptive information stored alongside an exported flow.
+ * 
+ * @property name - Name of the flow when it was exported
+ * @property exportedAt - Export time as an ISO 8601 string
+ * @property generator - Application that wrote the file
+ */
+export interface FlowFileMeta {
+  name: string;
+  exportedAt: string;
+  generator: string;
+}
+
+/**
+ * Flow File Interface
+ * 
+ * The versioned JSON envelope used to export and import flows.
+ * The schema version identifies the shape of `nodes` and `edges`; files with
+ * an older version are migrated to the current version when imported.
+ * 
+ * @property schemaVersion - Version of the flow file schema
+ * @property meta - Descriptive metadata
+ * @property nodes - Array of all nodes in the flow
+ * @property edges - Array of all edges connecting the nodes
+ */
+export interface FlowFile extends FlowState {
+  schemaVersion: number;
+  meta: FlowFileMeta;
 }
@@ -0,0 +1,307 @@
+/**
+ * Flow Schemas
+ *
+ * This module contains the runtime schemas (zod) of the data that makes up
+ * a flow. They are the source of truth for the node data types: the types in
+ * flow.ts are inferred from these schemas, so the checks performed at runtime
+ * and the types used at compile time can never drift apart.
+ *
+ * The schemas are used wherever flow data enters the store from outside the
+ * editor's own UI (loading from storage, importing a file, pasting) and when
+ * node data is edited; see utils/schemaChecks.ts.
+ */
+
+import { z } from 'zod';
+
+/** A non-empty string, used for IDs and node references */
+const idSchema = z.string().min(1, 'expected a non-empty string');
+
+/**
+ * Translations Schema
+ *
+ * Per-locale values of a node's user-facing strings, keyed by locale code
+ * and then by string key (see localizedStrings in the node registry). The
+ * node's own fields hold the values in the flow's default locale.
+ */
+export const translationsSchema = z.record(z.string(), z.record(z.string(), z.string()));
+
+/**
+ * Text Node Data Schema
+ *
+ * @property text - The message content to be displayed (may use WhatsApp-style formatting)
+ * @property linkPreview - Whether the message shows a preview of its first link
+ * @property translations - The text in the flow's other locales
+ * @property type - Discriminant field to identify this as a text node
+ */
+export const textNodeDataSchema = z.object({
+  text: z.string(),
+  linkPreview: z.boolean().optional(),
+  translations: translationsSchema.optional(),
+  type: z.literal('text'),
+});
+
+/**
+ * File Upload Node Data Schema
+ *
+ * @property label - Display label for the file upload component
+ * @property allowedTypes - Array of allowed file extensions (e.g., ['pdf', 'docx'])
+ * @property maxSize - Maximum file size in megabytes
+ * @property multiple - Whether multiple files can be uploaded
+ * @property translations - The label in the flow's other locales
+ * @property type - Discriminant field to identify this as a file upload node
+ */
+export const fileUploadNodeDataSchema = z.object({
+  label: z.string(),
+  allowedTypes: z.array(z.string()),
+  maxSize: z.number().positive(), // in MB
+  multiple: z.boolean(),
+  translations: translationsSchema.optional(),
+  type: z.literal('fileUpload'),
+});
+
+/** Kinds of media a media node can send */
+export const mediaKindSchema = z.enum(['image', 'video', 'audio', 'document']);
+
+/**
+ * Media Node Data Schema
+ *
+ * @property mediaType - Kind of media sent
+ * @property source - Whether the media is linked by URL or a file attached to the flow
+ * @property url - The media's URL, or the data URL of the attached file
+ * @property fileName - File name shown to the user (documents) and used to check the file type
+ * @property fileSize - Size of the attached file in bytes (attached files only)
+ * @property caption - Text sent with the media (may use placeholders and formatting)
+ * @property translations - The caption in the flow's other locales
+ * @property type - Discriminant field to identify this as a media node
+ */
+export const mediaNodeDataSchema = z.object({
+  mediaType: mediaKindSchema,
+  source: z.enum(['url', 'file']),
+  url: z.string(),
+  fileName: z.string(),
+  fileSize: z.number().nonnegative().optional(),
+  caption: z.string(),
+  translations: translationsSchema.optional(),
+  type: z.literal('media'),
+});
+
+/**
+ * Quick Reply Button Schema
+ *
+ * @property id - Stable identifier, also used as the ID of the button's source handle
+ * @property label - Text shown on the button
+ */
+export const quickReplyButtonSchema = z.object({
+  id: idSchema,
+  label: z.string(),
+});
+
+/**
+ * Buttons Node Data Schema
+ *
+ * @property text - The message content shown above the buttons
+ * @property buttons - The buttons offered to the user, in display order
+ * @property maxButtons - Maximum number of buttons that can be added
+ * @property translations - The message and button labels in the flow's other locales
+ * @property type - Discriminant field to identify this as a buttons node
+ */
+export const buttonsNodeDataSchema = z.object({
+  text: z.string(),
+  buttons: z.array(quickReplyButtonSchema),
+  maxButtons: z.number().int().positive(),
+  translations: translationsSchema.optional(),
+  type: z.literal('buttons'),
+});
+
+/**
+ * Condition Operator Schema
+ *
+ * Comparison applied by a condition rule to a conversation variable.
+ */
+export const conditionOperatorSchema = z.enum([
+  'equals',
+  'notEquals',
+  'contains',
+  'greaterThan',
+  'lessThan',
+  'isEmpty',
+  'isNotEmpty',
+  'matchesRegex',
+]);
+
+/**
+ * Condition Rule Schema
+ *
+ * @property id - Stable identifier of the rule
+ * @property variable - Name of the conversation variable to test
+ * @property operator - The comparison to apply
+ * @property value - Value to compare against (ignored by isEmpty/isNotEmpty)
+ */
+export const conditionRuleSchema = z.object({
+  id: idSchema,
+  variable: z.string(),
+  operator: conditionOperatorSchema,
+  value: z.string(),
+});
+
+/**
+ * Condition Group Schema
+ *
+ * @property id - Stable identifier, also used as the ID of the group's source handle
+ * @property combinator - How the group's rules are combined
+ * @property rules - The rules in the group
+ */
+export const conditionGroupSchema = z.object({
+  id: idSchema,
+  combinator: z.enum(['and', 'or']),
+  rules: z.array(conditionRuleSchema),
+});
+
+/**
+ * Condition Node Data Schema
+ *
+ * @property groups - The rule groups, in evaluation order
+ * @property type - Discriminant field to identify this as a condition node
+ */
+export const conditionNodeDataSchema = z.object({
+  groups: z.array(conditionGroupSchema),
+  type: z.literal('condition'),
+});
+
+/** HTTP methods an API node can use */
+export const httpMethodSchema = z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']);
+
+/**
+ * HTTP Header Schema
+ *
+ * @property id - Stable identifier of the header row
+ * @property name - Header name, e.g. "Authorization"
+ * @property value - Header value (may use placeholders)
+ */
+export const httpHeaderSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  value: z.string(),
+});
+
+/**
+ * Response Mapping Schema
+ *
+ * @property id - Stable identifier of the mapping
+ * @property path - JSON path of the value in the response, e.g. "$.order.status"
+ * @property variable - Name of the flow variable the value is stored in
+ */
+export const responseMappingSchema = z.object({
+  id: idSchema,
+  path: z.string(),
+  variable: z.string(),
+});
+
+/**
+ * Mock Response Schema
+ *
+ * The response the editor's mock responder gives for an API node, used by
+ * the test request and the chat preview instead of calling the real API.
+ *
+ * @property status - HTTP status code
+ * @property body - Response body (JSON for mappings to apply)
+ * @property delay - Time before the response arrives, in milliseconds
+ */
+export const mockResponseSchema = z.object({
+  status: z.number().int().min(100).max(599),
+  body: z.string(),
+  delay: z.number().nonnegative(),
+});
+
+/**
+ * API Node Data Schema
+ *
+ * @property method - HTTP method of the request
+ * @property url - URL template (may use placeholders)
+ * @property headers - Request headers, in order
+ * @property body - Body template, sent with POST, PUT and PATCH requests
+ * @property timeout - Time to wait for the response, in seconds
+ * @property mappings - Values copied from the response into flow variables
+ * @property mock - Response of the mock responder
+ * @property type - Discriminant field to identify this as an API node
+ */
+export const apiNodeDataSchema = z.object({
+  method: httpMethodSchema,
+  url: z.string(),
+  headers: z.array(httpHeaderSchema),
+  body: z.string(),
+  timeout: z.number().positive(),
+  mappings: z.array(responseMappingSchema),
+  mock: mockResponseSchema,
+  type: z.literal('api'),
+});
+
+/**
+ * Group Node Data Schema
+ *
+ * @property label - Title shown in the group's header
+ * @property collapsed - Whether the group is folded into a single compact node
+ * @property type - Discriminant field to identify this as a group node
+ */
+export const groupNodeDataSchema = z.object({
+  label: z.string(),
+  collapsed: z.boolean(),
+  type: z.literal('nodeGroup'),
+});
+
+/**
+ * Subflow Node Data Schema
+ *
+ * @property subflowId - ID of the library flow that is called (empty until one is picked)
+ * @property type - Discriminant field to identify this as a call subflow node
+ */
+export const subflowNodeDataSchema = z.object({
+  subflowId: z.string(),
+  type: z.literal('subflow'),
+});
+
+/** Background colors sticky notes can have */
+export const noteColorSchema = z.enum(['yellow', 'pink', 'blue', 'green', 'purple']);
+
+/**
+ * Note Node Data Schema
+ *
+ * @property text - Markdown content of the note
+ * @property color - Background color of the note
+ * @property type - Discriminant field to identify this as a note node
+ */
+export const noteNodeDataSchema = z.object({
+  text: z.string(),
+  color: noteColorSchema,
+  type: z.literal('note'),
+});
+
+/**
+ * Node Schema
+ *
+ * The part of a node shared by all node types. The data is only checked to
+ * be an object here; its shape is checked with the schema of the node's
+ * type from the node registry. Other React Flow properties are kept as is.
+ */
+export const nodeSchema = z.looseObject({
+  id: idSchema,
+  type: idSchema,
+  position: z.object({ x: z.number(), y: z.number() }),
+  data: z.record(z.string(), z.unknown()),
+});
+
+/**
+ * Edge Schema
+ *
+ * A connection between two nodes. Handle IDs are optional for nodes with a
+ * single handle on that side, and the label is shown on the canvas. Other
+ * React Flow properties (style, marker) are kept as is.
+ */
+export const edgeSchema = z.looseObject({
+  id: idSchema,
+  source: idSchema,
+  target: idSchema,
+  sourceHandle: z.string().nullish(),
+  targetHandle: z.string().nullish(),
+  label: z.string().optional(),
+});
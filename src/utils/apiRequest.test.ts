@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import type { ApiNodeData, FlowVariable } from '../types/flow';
+import {
+  API_ERROR_HANDLE_ID,
+  API_SUCCESS_HANDLE_ID,
+  buildRequest,
+  checkUrlTemplate,
+  findApiProblems,
+  getJsonPathValue,
+  parseJsonPath,
+  runMockRequest,
+} from './apiRequest';
+
+const request = (fields: Partial<ApiNodeData> = {}): ApiNodeData => ({
+  method: 'GET',
+  url: 'https://api.example.com/orders/{{order_id}}',
+  headers: [],
+  body: '',
+  timeout: 5,
+  mappings: [{ id: 'm1', path: '$.order.status', variable: 'status' }],
+  mock: { status: 200, body: '{"order": {"status": "shipped"}}', delay: 100 },
+  type: 'api',
+  ...fields,
+});
+
+const variables: FlowVariable[] = [{ name: 'status', type: 'string', defaultValue: '', description: '' }];
+
+describe('JSON paths', () => {
+  it('parse dotted, indexed and quoted steps', () => {
+    expect(parseJsonPath('$.order.items[0].name')).toEqual(['order', 'items', 0, 'name']);
+    expect(parseJsonPath("items[1]['order-id']")).toEqual(['items', 1, 'order-id']);
+    expect(parseJsonPath('$')).toEqual([]);
+    expect(parseJsonPath('$.order.')).toBeNull();
+    expect(parseJsonPath('  ')).toBeNull();
+  });
+
+  it('select a value only if the whole path exists', () => {
+    const json = { items: [{ name: 'Tea' }], empty: null };
+    expect(getJsonPathValue(json, ['items', 0, 'name'])).toEqual({ found: true, value: 'Tea' });
+    expect(getJsonPathValue(json, ['empty'])).toEqual({ found: true, value: null });
+    expect(getJsonPathValue(json, ['items', 1])).toEqual({ found: false });
+    expect(getJsonPathValue(json, ['items', 'length'])).toEqual({ found: false });
+    expect(getJsonPathValue(json, ['toString'])).toEqual({ found: false });
+  });
+});
+
+describe('checkUrlTemplate', () => {
+  it('accepts web addresses, with a placeholder base URL at the start', () => {
+    expect(checkUrlTemplate('https://api.example.com/orders/{{order_id}}')).toBeNull();
+    expect(checkUrlTemplate('{{api_base}}/orders')).toBeNull();
+  });
+
+  it('reports what is wrong with the URL', () => {
+    expect(checkUrlTemplate(' ')).toBe('API request has no URL.');
+    expect(checkUrlTemplate('https://example.com/{{id')).toBe('URL has an unfinished or invalid {{placeholder}}.');
+    expect(checkUrlTemplate('https://example.com/a b')).toBe('URL must not contain spaces.');
+    expect(checkUrlTemplate('example.com/orders')).toBe('URL must start with http:// or https://.');
+    expect(checkUrlTemplate('ftp://example.com')).toBe('URL must start with http:// or https://.');
+    expect(checkUrlTemplate('/orders/{{id}}')).toBe('URL must start with http:// or https://.');
+  });
+});
+
+describe('findApiProblems', () => {
+  it('finds nothing wrong with a valid request', () => {
+    expect(findApiProblems(request(), variables)).toEqual([]);
+  });
+
+  it('reports headers, timeouts and mappings that cannot work', () => {
+    const data = request({
+      headers: [
+        { id: 'h1', name: '', value: 'x' },
+        { id: 'h2', name: 'Bad Header', value: 'x' },
+        { id: 'h3', name: '', value: '' },
+      ],
+      timeout: 90,
+      mappings: [
+        { id: 'm1', path: '', variable: 'status' },
+        { id: 'm2', path: '$.a', variable: 'selected_button' },
+        { id: 'm3', path: '$.b', variable: 'missing' },
+        { id: 'm4', path: '$.', variable: '' },
+      ],
+    });
+    expect(findApiProblems(data, variables)).toEqual([
+      'A header has no name.',
+      '"Bad Header" is not a valid header name.',
+      'Timeout must be between 1 and 60 seconds.',
+      'A response mapping has no JSON path.',
+      'Response mapping "$.a" cannot store into the system variable "selected_button".',
+      'Response mapping "$.b" stores into undefined variable "missing". Declare it in the Variables panel.',
+      '"$." is not a valid JSON path.',
+      'Response mapping "$." has no variable.',
+    ]);
+  });
+});
+
+describe('buildRequest', () => {
+  it('fills in the templates, encoding values in the URL but not a leading base URL', () => {
+    const data = request({
+      method: 'POST',
+      url: '{{base}}/orders/{{order_id}}',
+      headers: [
+        { id: 'h1', name: ' Authorization ', value: 'Bearer {{token}}' },
+        { id: 'h2', name: '', value: 'dropped' },
+      ],
+      body: '{"id": "{{order_id}}"}',
+    });
+    expect(buildRequest(data, { base: 'https://api.example.com', order_id: 'a/b', token: 't' })).toEqual({
+      method: 'POST',
+      url: 'https://api.example.com/orders/a%2Fb',
+      headers: [{ name: 'Authorization', value: 'Bearer t' }],
+      body: '{"id": "a/b"}',
+    });
+  });
+
+  it('sends no body for methods without one', () => {
+    expect(buildRequest(request({ body: 'ignored' }), {}).body).toBeNull();
+  });
+});
+
+describe('runMockRequest', () => {
+  it('continues on the success handle and maps the response into variables', () => {
+    const data = request({
+      mappings: [
+        { id: 'm1', path: '$.order.status', variable: 'status' },
+        { id: 'm2', path: '$.order', variable: 'order' },
+        { id: 'm3', path: '$.order.eta', variable: 'eta' },
+      ],
+    });
+    expect(runMockRequest(data, { order_id: '7' })).toMatchObject({
+      request: { url: 'https://api.example.com/orders/7' },
+      handleId: API_SUCCESS_HANDLE_ID,
+      status: 200,
+      error: null,
+      values: { status: 'shipped', order: '{"status":"shipped"}' },
+      unresolved: ['$.order.eta'],
+      duration: 100,
+    });
+  });
+
+  it('leaves mappings unresolved for responses that are not JSON', () => {
+    expect(runMockRequest(request({ mock: { status: 200, body: 'OK', delay: 0 } }), {})).toMatchObject({
+      values: {},
+      unresolved: ['$.order.status'],
+    });
+  });
+
+  it('continues on the error handle for error statuses and timeouts', () => {
+    expect(runMockRequest(request({ mock: { status: 404, body: '{}', delay: 0 } }), {})).toMatchObject({
+      handleId: API_ERROR_HANDLE_ID,
+      status: 404,
+      error: 'The API answered with status 404.',
+      values: {},
+    });
+    expect(runMockRequest(request({ timeout: 1, mock: { status: 200, body: '{}', delay: 1500 } }), {})).toMatchObject({
+      handleId: API_ERROR_HANDLE_ID,
+      status: null,
+      error: 'No response within 1 seconds.',
+      duration: 1000,
+    });
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * API Request Utility
+ *
+ * This module contains the logic behind API nodes, which call an HTTP
+ * endpoint in the middle of a conversation (e.g. to look up an order or
+ * create a ticket) and store parts of the JSON response in flow variables.
+ *
+ * The URL, header values and body are templates: `{{placeholders}}` are
+ * filled in from the conversation variables when the request is built.
+ * Values filled into the URL are URL-encoded, except for a placeholder at
+ * the very start of the URL, which may hold a base URL (`{{api_base}}/orders`).
+ *
+ * The editor never calls the real API. The test request of the settings
+ * panel and the chat preview are answered by a mock responder configured on
+ * each node, so flows can be tried offline. A request succeeds when the
+ * response arrives within the node's timeout with a 2xx status; the
+ * conversation then continues on the success handle, otherwise on the error
+ * handle.
+ *
+ * JSON paths select a value of the response: `$.order.status`,
+ * `items[0].name` and `$['order-id']` are supported (the leading `$` is
+ * optional, and `$` alone is the whole response).
+ */
+
+import type { ApiNodeData, FlowVariable, HttpMethod } from '../types/flow';
+import { interpolate, PLACEHOLDER_PATTERN } from './templating';
+import { SYSTEM_VARIABLES, type VariableValues } from './variables';
+
+/** ID of the source handle taken when the request succeeds */
+export const API_SUCCESS_HANDLE_ID = 'success';
+
+/** ID of the source handle taken when the request fails or times out */
+export const API_ERROR_HANDLE_ID = 'error';
+
+/** HTTP methods offered by the settings panel */
+export const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/** Longest timeout an API node may wait for, in seconds */
+export const MAX_TIMEOUT = 60;
+
+/** Header names allowed by HTTP (tokens) */
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/** One step of a JSON path: `.name`, `[0]` or `['name']` */
+const PATH_STEP_PATTERN = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(['"])((?:(?!\3).)*)\3\]/y;
+
+/**
+ * Method Has Body
+ *
+ * @param method - An HTTP method
+ * @returns True if requests with the method send the body template
+ */
+export const methodHasBody = (method: HttpMethod): boolean => method === 'POST' || method === 'PUT' || method === 'PATCH';
+
+/**
+ * Parse JSON Path
+ *
+ * @param path - A JSON path, e.g. "$.order.items[0].name"
+ * @returns The path's steps (property names and array indexes), or null if
+ * the path is not valid
+ */
+export function parseJsonPath(path: string): (string | number)[] | null {
+  let rest = path.trim();
+  if (!rest) return null;
+  if (rest.startsWith('$')) rest = rest.slice(1);
+  else if (!rest.startsWith('[')) rest = `.${rest}`;
+
+  const steps: (string | number)[] = [];
+  const pattern = new RegExp(PATH_STEP_PATTERN.source, 'y');
+  while (pattern.lastIndex < rest.length) {
+    const match = pattern.exec(rest);
+    if (!match) return null;
+    steps.push(match[1] ?? (match[2] !== undefined ? Number(match[2]) : match[4]));
+  }
+  return steps;
+}
+
+/**
+ * Get JSON Path Value
+ *
+ * @param value - A parsed JSON value
+ * @param steps - Steps of a JSON path (see parseJsonPath)
+ * @returns Whether the path exists in the value, and the value it selects
+ */
+export function getJsonPathValue(value: unknown, steps: (string | number)[]): { found: boolean; value?: unknown } {
+  let current = value;
+  for (const step of steps) {
+    if (typeof step === 'number') {
+      if (!Array.isArray(current) || step >= current.length) return { found: false };
+      current = current[step];
+    } else {
+      if (typeof current !== 'object' || current === null || Array.isArray(current) || !Object.hasOwn(current, step)) {
+        return { found: false };
+      }
+      current = (current as Record<string, unknown>)[step];
+    }
+  }
+  return { found: true, value: current };
+}
+
+/**
+ * To Variable Value Helper
+ *
+ * @param value - A value selected from a response
+ * @returns The value as stored in a variable: strings as they are, other
+ * values as JSON (null as an empty string)
+ */
+const toVariableValue = (value: unknown): string =>
+  typeof value === 'string' ? value : value === null || value === undefined ? '' : JSON.stringify(value);
+
+/**
+ * Check URL Template
+ *
+ * @param url - The URL template of an API node
+ * @returns Error message, or null if the URL is a valid web address once
+ * its placeholders are filled in
+ */
+export function checkUrlTemplate(url: string): string | null {
+  const template = url.trim();
+  if (!template) return 'API request has no URL.';
+  if (/\{\{|\}\}/.test(template.replace(PLACEHOLDER_PATTERN, ''))) {
+    return 'URL has an unfinished or invalid {{placeholder}}.';
+  }
+
+  // A placeholder at the start stands for a base URL, any other for a path or query value
+  const sample = template.replace(PLACEHOLDER_PATTERN, (_match, _name, offset: number) =>
+    offset === 0 ? 'https://example.com' : 'x'
+  );
+  if (/\s/.test(sample)) return 'URL must not contain spaces.';
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(sample)) return 'URL must start with http:// or https://.';
+  try {
+    const { protocol, hostname } = new URL(sample);
+    if (protocol !== 'http:' && protocol !== 'https:') return 'URL must start with http:// or https://.';
+    if (!hostname) return 'URL has no host.';
+  } catch {
+    return 'URL is not a valid web address.';
+  }
+  return null;
+}
+
+/**
+ * Find API Problems
+ *
+ * @param data - An API node's data
+ * @param variables - The flow's variable registry
+ * @returns Readable problems with the node's request and mappings (empty if there are none)
+ */
+export function findApiProblems(data: ApiNodeData, variables: FlowVariable[]): string[] {
+  const problems: string[] = [];
+  const urlError = checkUrlTemplate(data.url);
+  if (urlError) problems.push(urlError);
+
+  data.headers.forEach(({ name, value }) => {
+    if (!name.trim()) {
+      if (value.trim()) problems.push('A header has no name.');
+    } else if (!HEADER_NAME_PATTERN.test(name.trim())) {
+      problems.push(`"${name}" is not a valid header name.`);
+    }
+  });
+
+  if (!Number.isFinite(data.timeout) || data.timeout < 1 || data.timeout > MAX_TIMEOUT) {
+    problems.push(`Timeout must be between 1 and ${MAX_TIMEOUT} seconds.`);
+  }
+
+  const declared = new Set(variables.map((v) => v.name));
+  data.mappings.forEach(({ path, variable }) => {
+    if (!path.trim()) {
+      problems.push('A response mapping has no JSON path.');
+      return;
+    }
+    if (!parseJsonPath(path)) problems.push(`"${path}" is not a valid JSON path.`);
+    if (!variable) {
+      problems.push(`Response mapping "${path}" has no variable.`);
+    } else if (SYSTEM_VARIABLES.some((v) => v.name === variable)) {
+      problems.push(`Response mapping "${path}" cannot store into the system variable "${variable}".`);
+    } else if (!declared.has(variable)) {
+      problems.push(`Response mapping "${path}" stores into undefined variable "${variable}". Declare it in the Variables panel.`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * API Request Interface
+ *
+ * A request with its templates filled in.
+ *
+ * @property method - HTTP method
+ * @property url - The URL
+ * @property headers - Headers with a name, in order
+ * @property body - The body (null for methods without one)
+ */
+export interface ApiRequest {
+  method: HttpMethod;
+  url: string;
+  headers: { name: string; value: string }[];
+  body: string | null;
+}
+
+/**
+ * Build Request
+ *
+ * @param data - An API node's data
+ * @param values - Current variable values
+ * @returns The request the node sends with these values
+ */
+export function buildRequest(data: ApiNodeData, values: VariableValues): ApiRequest {
+  return {
+    method: data.method,
+    url: data.url.trim().replace(PLACEHOLDER_PATTERN, (_match, name: string, offset: number) =>
+      offset === 0 ? (values[name] ?? '') : encodeURIComponent(values[name] ?? '')
+    ),
+    headers: data.headers
+      .filter((h) => h.name.trim())
+      .map((h) => ({ name: h.name.trim(), value: interpolate(h.value, values) })),
+    body: methodHasBody(data.method) ? interpolate(data.body, values) : null,
+  };
+}
+
+/**
+ * API Call Result Interface
+ *
+ * @property request - The request that was sent
+ * @property handleId - The source handle the conversation continues on
+ * @property status - HTTP status of the response (null if it timed out)
+ * @property body - Body of the response
+ * @property error - Why the request failed (null if it succeeded)
+ * @property values - Variable values copied from the response
+ * @property unresolved - JSON paths of mappings the response has no value for
+ * @property duration - Time until the response (or the timeout), in milliseconds
+ */
+export interface ApiCallResult {
+  request: ApiRequest;
+  handleId: string;
+  status: number | null;
+  body: string;
+  error: string | null;
+  values: VariableValues;
+  unresolved: string[];
+  duration: number;
+}
+
+/**
+ * Run Mock Request
+ *
+ * Answers an API node's request with the node's mock response, the way the
+ * real API would be called at runtime.
+ *
+ * @param data - An API node's data
+ * @param values - Current variable values
+ * @returns The outcome of the request
+ */
+export function runMockRequest(data: ApiNodeData, values: VariableValues): ApiCallResult {
+  const request = buildRequest(data, values);
+  const { status, body, delay } = data.mock;
+  const timeoutMs = data.timeout * 1000;
+
+  if (delay > timeoutMs) {
+    return {
+      request,
+      handleId: API_ERROR_HANDLE_ID,
+      status: null,
+      body: '',
+      error: `No response within ${data.timeout} seconds.`,
+      values: {},
+      unresolved: [],
+      duration: timeoutMs,
+    };
+  }
+  if (status < 200 || status > 299) {
+    return {
+      request,
+      handleId: API_ERROR_HANDLE_ID,
+      status,
+      body,
+      error: `The API answered with status ${status}.`,
+      values: {},
+      unresolved: [],
+      duration: delay,
+    };
+  }
+
+  // Mappings only apply to JSON responses; a response that is not JSON has no values
+  let json: unknown;
+  let parsed = true;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    parsed = false;
+  }
+
+  const mapped: VariableValues = {};
+  const unresolved: string[] = [];
+  data.mappings.forEach(({ path, variable }) => {
+    const steps = parseJsonPath(path);
+    if (!steps || !variable) return;
+    const result = parsed ? getJsonPathValue(json, steps) : { found: false };
+    if (result.found) mapped[variable] = toVariableValue(result.value);
+    else unresolved.push(path);
+  });
+
+  return { request, handleId: API_SUCCESS_HANDLE_ID, status, body, error: null, values: mapped, unresolved, duration: delay };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppEdge, AppNode } from '../types/flow';
+import { computeLayout, DEFAULT_NODE_SIZE, LAYOUT_DEFAULTS } from './autoLayout';
+
+const textNode = (id: string, x = 0, y = 0): AppNode => ({
+  id,
+  type: 'text',
+  position: { x, y },
+  data: { text: id, type: 'text' },
+});
+
+const edge = (source: string, target: string): AppEdge => ({ id: `${source}-${target}`, source, target });
+
+/** Checks that no two laid out nodes overlap, assuming the default node size */
+const overlaps = (positions: Map<string, { x: number; y: number }>) => {
+  const boxes = [...positions.values()];
+  return boxes.some((a, i) =>
+    boxes.some(
+      (b, j) =>
+        i < j &&
+        Math.abs(a.x - b.x) < DEFAULT_NODE_SIZE.width &&
+        Math.abs(a.y - b.y) < DEFAULT_NODE_SIZE.height
+    )
+  );
+};
+
+describe('computeLayout', () => {
+  it('places each node in a column to the right of the nodes leading to it', () => {
+    const positions = computeLayout(
+      [textNode('c', 500, 500), textNode('a', 100, 100), textNode('b', 0, 300)],
+      [edge('a', 'b'), edge('b', 'c')]
+    );
+    const columnWidth = DEFAULT_NODE_SIZE.width + LAYOUT_DEFAULTS.layerGap;
+    expect(positions.get('a')?.x).toBe(0);
+    expect(positions.get('b')?.x).toBe(columnWidth);
+    expect(positions.get('c')?.x).toBe(2 * columnWidth);
+  });
+
+  it('keeps the top left corner of the arranged nodes', () => {
+    const positions = computeLayout([textNode('a', 100, 200), textNode('b', 400, 50)], [edge('a', 'b')]);
+    const xs = [...positions.values()].map((p) => p.x);
+    const ys = [...positions.values()].map((p) => p.y);
+    expect(Math.min(...xs)).toBe(100);
+    expect(Math.min(...ys)).toBe(50);
+  });
+
+  it('stacks branches and islands without overlaps', () => {
+    const nodes = ['a', 'b', 'c', 'd', 'e'].map((id) => textNode(id));
+    const positions = computeLayout(nodes, [edge('a', 'b'), edge('a', 'c'), edge('d', 'e')]);
+    expect(positions.size).toBe(5);
+    expect(overlaps(positions)).toBe(false);
+  });
+
+  it('lays out cycles and ignores edges to nodes that are not given', () => {
+    const positions = computeLayout([textNode('a'), textNode('b')], [edge('a', 'b'), edge('b', 'a'), edge('b', 'x')]);
+    expect(positions.get('a')?.x).toBeLessThan(positions.get('b')!.x);
+  });
+
+  it('returns nothing for no nodes', () => {
+    expect(computeLayout([], []).size).toBe(0);
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * Auto Layout Utility
+ *
+ * This module computes a layered left-to-right layout of a flow graph, in
+ * the style of a Sugiyama layout. Every node has its target handle on the
+ * left and its source handles on the right, so edges should run from left
+ * to right and the layout places each node in a column (layer) to the
+ * right of the nodes that lead to it.
+ *
+ * Steps, for each disconnected island of the graph:
+ * 1. Break cycles by reversing the edges that close them (depth-first search)
+ * 2. Assign every node to a layer (longest path from the island's entry nodes)
+ * 3. Split edges that span several layers with invisible dummy vertices
+ * 4. Order the vertices in each layer to reduce edge crossings (barycenter
+ *    sweeps, keeping the best order found). Edges leave their source at the
+ *    height of their source handle, so quick replies and condition branches
+ *    stay in handle order.
+ * 5. Assign coordinates: layers are columns as wide as their widest node,
+ *    and vertices are moved vertically towards their neighbours without
+ *    overlapping or changing order
+ *
+ * Islands are stacked below each other, and the whole layout keeps the top
+ * left corner of the nodes it arranges, so laying out a selection does not
+ * move it across the canvas.
+ */
+
+import type { AppNode, AppEdge } from '../types/flow';
+import { getSourceHandleIds } from './nodeRegistry';
+
+/** Size (px) assumed for nodes that have not been measured yet */
+export const DEFAULT_NODE_SIZE = { width: 256, height: 120 };
+
+/** Height (px) reserved for an edge passing through a layer */
+const DUMMY_HEIGHT = 16;
+
+/** Number of barycenter sweeps used to reduce edge crossings */
+const ORDERING_SWEEPS = 24;
+
+/** Number of down-and-up passes used to align vertices with their neighbours */
+const ALIGNMENT_PASSES = 4;
+
+/**
+ * Layout Options Interface
+ *
+ * @property layerGap - Horizontal space (px) between layers
+ * @property nodeGap - Vertical space (px) between nodes in a layer
+ * @property islandGap - Vertical space (px) between disconnected islands
+ */
+export interface LayoutOptions {
+  layerGap?: number;
+  nodeGap?: number;
+  islandGap?: number;
+}
+
+/** Default layout spacing */
+export const LAYOUT_DEFAULTS: Required<LayoutOptions> = {
+  layerGap: 120,
+  nodeGap: 48,
+  islandGap: 96,
+};
+
+/** Top left position of a node */
+type Position = { x: number; y: number };
+
+/**
+ * Vertex Type
+ *
+ * A node, or a dummy vertex on an edge that spans several layers.
+ */
+type Vertex = {
+  id: string;
+  width: number;
+  height: number;
+  dummy: boolean;
+};
+
+/**
+ * Link Type
+ *
+ * A directed edge between two vertices. `port` is where the edge leaves its
+ * source, relative to the source's center and height (-0.5 top, 0.5 bottom).
+ */
+type Link = {
+  from: string;
+  to: string;
+  port: number;
+};
+
+/**
+ * Node Size Helper
+ *
+ * @param node - A node
+ * @returns The measured size of the node, or the default size
+ */
+const nodeSize = (node: AppNode) => ({
+  width: node.measured?.width ?? node.width ?? DEFAULT_NODE_SIZE.width,
+  height: node.measured?.height ?? node.height ?? DEFAULT_NODE_SIZE.height,
+});
+
+/**
+ * Port Offset Helper
+ *
+ * Source handles are spread evenly down the right side of a node, in the
+ * order returned by the node type's `sourceHandles`.
+ *
+ * @param node - Source node of an edge
+ * @param handle - Source handle of the edge
+ * @returns Vertical offset of the handle, relative to the node's height
+ */
+const portOffset = (node: AppNode, handle: string | null | undefined): number => {
+  const handles = getSourceHandleIds(node);
+  const index = handles && handle ? handles.indexOf(handle) : -1;
+  if (!handles || handles.length < 2 || index < 0) return 0;
+  return (index + 0.5) / handles.length - 0.5;
+};
+
+/**
+ * Find Islands Helper
+ *
+ * @param nodes - Nodes to lay out
+ * @param links - Links between the nodes
+ * @returns Groups of nodes connected by links, topmost group first
+ */
+function findIslands(nodes: AppNode[], links: Link[]): AppNode[][] {
+  const parent = new Map(nodes.map((n) => [n.id, n.id]));
+  const find = (id: string): string => {
+    const p = parent.get(id)!;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  links.forEach((link) => parent.set(find(link.from), find(link.to)));
+
+  const islands = new Map<string, AppNode[]>();
+  nodes.forEach((node) => {
+    const root = find(node.id);
+    islands.set(root, [...(islands.get(root) ?? []), node]);
+  });
+
+  const top = (island: AppNode[]) => Math.min(...island.map((n) => n.position.y));
+  const left = (island: AppNode[]) => Math.min(...island.map((n) => n.position.x));
+  return [...islands.values()].sort((a, b) => top(a) - top(b) || left(a) - left(b));
+}
+
+/**
+ * Break Cycles Helper
+ *
+ * Runs a depth-first search from the entry nodes (nodes without incoming
+ * links) and reverses every link that points back at a node on the search
+ * path, which leaves an acyclic graph.
+ *
+ * @param ids - Vertex IDs, in their preferred order
+ * @param links - Links between the vertices
+ * @returns The acyclic links and the vertex IDs in search order
+ */
+function breakCycles(ids: string[], links: Link[]): { links: Link[]; order: string[] } {
+  const outgoing = new Map<string, Link[]>(ids.map((id) => [id, []]));
+  links.forEach((link) => outgoing.get(link.from)!.push(link));
+  const hasIncoming = new Set(links.map((link) => link.to));
+
+  // 1 while a vertex is on the search path, 2 once it is finished
+  const state = new Map<string, 1 | 2>();
+  const order: string[] = [];
+  const acyclic: Link[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 1);
+    order.push(id);
+    outgoing.get(id)!.forEach((link) => {
+      const target = state.get(link.to);
+      if (target === 1) {
+        acyclic.push({ from: link.to, to: link.from, port: 0 });
+        return;
+      }
+      acyclic.push(link);
+      if (target === undefined) visit(link.to);
+    });
+    state.set(id, 2);
+  };
+
+  ids.filter((id) => !hasIncoming.has(id)).forEach((id) => state.has(id) || visit(id));
+  ids.forEach((id) => state.has(id) || visit(id));
+  return { links: acyclic, order };
+}
+
+/**
+ * Assign Layers Helper
+ *
+ * Puts every vertex one layer right of its furthest predecessor. Entry
+ * vertices are then moved right up to their nearest successor, so that
+ * their edges do not span more layers than necessary.
+ *
+ * @param ids - Vertex IDs
+ * @param links - Acyclic links between the vertices
+ * @returns The layer of every vertex
+ */
+function assignLayers(ids: string[], links: Link[]): Map<string, number> {
+  const incoming = new Map<string, number>(ids.map((id) => [id, 0]));
+  const successors = new Map<string, string[]>(ids.map((id) => [id, []]));
+  links.forEach((link) => {
+    incoming.set(link.to, incoming.get(link.to)! + 1);
+    successors.get(link.from)!.push(link.to);
+  });
+
+  // Topological order (Kahn's algorithm)
+  const layer = new Map<string, number>();
+  const queue = ids.filter((id) => incoming.get(id) === 0);
+  const entries = new Set(queue);
+  const topological: string[] = [];
+  queue.forEach((id) => layer.set(id, 0));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    topological.push(id);
+    successors.get(id)!.forEach((next) => {
+      layer.set(next, Math.max(layer.get(next) ?? 0, layer.get(id)! + 1));
+      incoming.set(next, incoming.get(next)! - 1);
+      if (incoming.get(next) === 0) queue.push(next);
+    });
+  }
+
+  topological.reverse().forEach((id) => {
+    const next = successors.get(id)!;
+    if (entries.has(id) && next.length > 0) {
+      layer.set(id, Math.min(...next.map((n) => layer.get(n)!)) - 1);
+    }
+  });
+  return layer;
+}
+
+/**
+ * Count Crossings Helper
+ *
+ * @param layers - Vertex IDs of every layer, in order
+ * @param outgoing - Links leaving every vertex
+ * @returns Number of crossings between links of adjacent layers
+ */
+function countCrossings(layers: string[][], outgoing: Map<string, Link[]>): number {
+  let crossings = 0;
+  for (let i = 0; i < layers.length - 1; i++) {
+    const rank = new Map(layers[i + 1].map((id, index) => [id, index]));
+    const segments = layers[i].flatMap((id, index) =>
+      outgoing.get(id)!.map((link) => ({ from: index + link.port, to: rank.get(link.to)! }))
+    );
+    segments.forEach((a, j) => {
+      segments.slice(j + 1).forEach((b) => {
+        if ((a.from - b.from) * (a.to - b.to) < 0) crossings++;
+      });
+    });
+  }
+  return crossings;
+}
+
+/**
+ * Order Layers Helper
+ *
+ * Sorts each layer by the average position of its neighbours in the layer
+ * before it (sweeping right) or after it (sweeping left), and keeps the
+ * order with the fewest crossings.
+ *
+ * @param initial - Vertex IDs of every layer, in their starting order
+ * @param incoming - Links entering every vertex
+ * @param outgoing - Links leaving every vertex
+ * @returns Vertex IDs of every layer, in their final order
+ */
+function orderLayers(
+  initial: string[][],
+  incoming: Map<string, Link[]>,
+  outgoing: Map<string, Link[]>
+): string[][] {
+  let layers = initial.map((layer) => [...layer]);
+  let best = { layers, crossings: countCrossings(layers, outgoing) };
+  const rank = new Map<string, number>();
+  layers.forEach((layer) => layer.forEach((id, index) => rank.set(id, index)));
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && best.crossings > 0; sweep++) {
+    const rightward = sweep % 2 === 0;
+    layers = layers.map((layer) => [...layer]);
+    const indices = layers.map((_, i) => i);
+    (rightward ? indices.slice(1) : indices.slice(0, -1).reverse()).forEach((i) => {
+      const barycenter = new Map(
+        layers[i].map((id) => {
+          const positions = rightward
+            ? incoming.get(id)!.map((link) => rank.get(link.from)! + link.port)
+            : outgoing.get(id)!.map((link) => rank.get(link.to)! - link.port);
+          const sum = positions.reduce((total, p) => total + p, 0);
+          return [id, positions.length > 0 ? sum / positions.length : rank.get(id)!];
+        })
+      );
+      layers[i].sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+      layers[i].forEach((id, index) => rank.set(id, index));
+    });
+
+    const crossings = countCrossings(layers, outgoing);
+    if (crossings < best.crossings) best = { layers, crossings };
+  }
+  return best.layers;
+}
+
+/**
+ * Place Layer Helper
+ *
+ * Moves the vertices of a layer as close as possible to their desired
+ * centers (least squares) while keeping their order and at least `gap`
+ * between them, using pool-adjacent-violators isotonic regression.
+ *
+ * @param layer - The layer's vertices, in order
+ * @param desired - Desired center of every vertex
+ * @param gap - Minimum space between vertices
+ * @returns Top position of every vertex
+ */
+function placeLayer(layer: Vertex[], desired: number[], gap: number): number[] {
+  // Shifting every vertex up by the space taken by the vertices above it
+  // turns "no overlaps" into "positions do not decrease"
+  const offsets: number[] = [];
+  layer.reduce((offset, vertex) => {
+    offsets.push(offset);
+    return offset + vertex.height + gap;
+  }, 0);
+  const goals = layer.map((vertex, i) => desired[i] - vertex.height / 2 - offsets[i]);
+
+  // Merge neighbouring blocks whose goals are out of order into their mean
+  const blocks: { value: number; count: number }[] = [];
+  goals.forEach((goal) => {
+    blocks.push({ value: goal, count: 1 });
+    while (blocks.length > 1 && blocks[blocks.length - 2].value > blocks[blocks.length - 1].value) {
+      const last = blocks.pop()!;
+      const previous = blocks[blocks.length - 1];
+      previous.value = (previous.value * previous.count + last.value * last.count) / (previous.count + last.count);
+      previous.count += last.count;
+    }
+  });
+
+  const tops: number[] = [];
+  blocks.forEach((block) => {
+    for (let i = 0; i < block.count; i++) tops.push(block.value + offsets[tops.length]);
+  });
+  return tops;
+}
+
+/**
+ * Layout Island Helper
+ *
+ * @param nodes - Nodes of one island
+ * @param links - Links between the nodes
+ * @param options - Layout spacing
+ * @returns Positions of the nodes relative to the island's top left corner, and the island's height
+ */
+function layoutIsland(
+  nodes: AppNode[],
+  links: Link[],
+  options: Required<LayoutOptions>
+): { positions: Map<string, Position>; height: number } {
+  const vertices = new Map<string, Vertex>(nodes.map((n) => [n.id, { id: n.id, ...nodeSize(n), dummy: false }]));
+
+  // Prefer the current reading order for ties, so the layout is stable
+  const sorted = [...nodes].sort((a, b) => a.position.x - b.position.x || a.position.y - b.position.y);
+  const { links: acyclic, order } = breakCycles(sorted.map((n) => n.id), links);
+  const layer = assignLayers(order, acyclic);
+
+  // Split links that span several layers into one segment per layer
+  const segments: Link[] = [];
+  acyclic.forEach((link, index) => {
+    let from = link.from;
+    let port = link.port;
+    for (let l = layer.get(link.from)! + 1; l < layer.get(link.to)!; l++) {
+      const id = `#dummy-${index}-${l}`;
+      vertices.set(id, { id, width: 0, height: DUMMY_HEIGHT, dummy: true });
+      layer.set(id, l);
+      order.push(id);
+      segments.push({ from, to: id, port });
+      from = id;
+      port = 0;
+    }
+    segments.push({ from, to: link.to, port });
+  });
+
+  const incoming = new Map<string, Link[]>([...vertices.keys()].map((id) => [id, []]));
+  const outgoing = new Map<string, Link[]>([...vertices.keys()].map((id) => [id, []]));
+  segments.forEach((segment) => {
+    incoming.get(segment.to)!.push(segment);
+    outgoing.get(segment.from)!.push(segment);
+  });
+
+  const layerCount = Math.max(...layer.values()) + 1;
+  const initial: string[][] = Array.from({ length: layerCount }, () => []);
+  order.forEach((id) => initial[layer.get(id)!].push(id));
+  const layers = orderLayers(initial, incoming, outgoing).map((ids) => ids.map((id) => vertices.get(id)!));
+
+  // Columns are as wide as their widest node
+  const x: number[] = [];
+  layers.reduce((left, column) => {
+    x.push(left);
+    return left + Math.max(0, ...column.map((v) => v.width)) + options.layerGap;
+  }, 0);
+
+  // Start with every layer stacked from the top, then move vertices towards
+  // the handles they connect to, alternating right and left passes
+  const top = new Map<string, number>();
+  const place = (column: Vertex[], desired: number[]) =>
+    placeLayer(column, desired, options.nodeGap).forEach((t, i) => top.set(column[i].id, t));
+  const height = (id: string) => vertices.get(id)!.height;
+  const center = (id: string) => top.get(id)! + height(id) / 2;
+  const align = (column: Vertex[], rightward: boolean) =>
+    place(
+      column,
+      column.map((vertex) => {
+        const targets = rightward
+          ? incoming.get(vertex.id)!.map((link) => center(link.from) + link.port * height(link.from))
+          : outgoing.get(vertex.id)!.map((link) => center(link.to) - link.port * vertex.height);
+        return targets.length > 0 ? targets.reduce((sum, t) => sum + t, 0) / targets.length : center(vertex.id);
+      })
+    );
+
+  layers.forEach((column) => place(column, column.map(() => 0)));
+  for (let pass = 0; pass < ALIGNMENT_PASSES; pass++) {
+    layers.slice(1).forEach((column) => align(column, true));
+    layers.slice(0, -1).reverse().forEach((column) => align(column, false));
+  }
+
+  // Move the island to the origin and drop the dummy vertices
+  const real = [...vertices.values()].filter((v) => !v.dummy);
+  const minTop = Math.min(...real.map((v) => top.get(v.id)!));
+  const positions = new Map<string, Position>();
+  layers.forEach((column, l) =>
+    column.forEach((v) => v.dummy || positions.set(v.id, { x: x[l], y: top.get(v.id)! - minTop }))
+  );
+  return { positions, height: Math.max(...real.map((v) => top.get(v.id)! - minTop + v.height)) };
+}
+
+/**
+ * Compute Layout
+ *
+ * Arranges the given nodes in layers from left to right, following the
+ * edges between them. Edges to nodes that are not given are ignored, so a
+ * selection can be laid out on its own. The layout keeps the top left
+ * corner of the nodes' current bounding box.
+ *
+ * @param nodes - Nodes to lay out
+ * @param edges - Edges of the flow
+ * @param options - Layout spacing
+ * @returns The new position of every given node
+ */
+export function computeLayout(
+  nodes: AppNode[],
+  edges: AppEdge[],
+  options: LayoutOptions = {}
+): Map<string, Position> {
+  const spacing = { ...LAYOUT_DEFAULTS, ...options };
+  const positions = new Map<string, Position>();
+  if (nodes.length === 0) return positions;
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const links: Link[] = edges
+    .filter((e) => e.source !== e.target && byId.has(e.source) && byId.has(e.target))
+    .map((e) => ({ from: e.source, to: e.target, port: portOffset(byId.get(e.source)!, e.sourceHandle) }));
+
+  const origin = {
+    x: Math.min(...nodes.map((n) => n.position.x)),
+    y: Math.min(...nodes.map((n) => n.position.y)),
+  };
+
+  findIslands(nodes, links).reduce((y, island) => {
+    const ids = new Set(island.map((n) => n.id));
+    const laid = layoutIsland(island, links.filter((link) => ids.has(link.from)), spacing);
+    laid.positions.forEach((p, id) => positions.set(id, { x: origin.x + p.x, y: y + p.y }));
+    return y + laid.height + spacing.islandGap;
+  }, origin.y);
+
+  return positions;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppNode, ChannelId, FlowLocalization } from '../types/flow';
+import {
+  checkChannels,
+  describeChannels,
+  findUnsupportedFileTypes,
+  getChannelLimit,
+  getSupportedFileTypes,
+  normalizeFileType,
+  parseChannels,
+} from './channels';
+import { DEFAULT_LOCALIZATION } from './localization';
+import { validateFlow } from './validateFlow';
+
+const buttons = (count: number, label = 'Option'): AppNode => ({
+  id: 'menu',
+  type: 'buttons',
+  position: { x: 0, y: 0 },
+  data: {
+    text: 'Pick one',
+    buttons: Array.from({ length: count }, (_, i) => ({ id: `b${i}`, label: `${label} ${i}` })),
+    maxButtons: 20,
+    type: 'buttons',
+  },
+});
+
+/** Messages of the channel-limits rule for a single node */
+const channelProblems = (node: AppNode, channels: ChannelId[], localization: FlowLocalization = DEFAULT_LOCALIZATION) =>
+  validateFlow({ nodes: [node], edges: [], variables: [], localization, channels, flows: [] })
+    .filter((issue) => issue.ruleId === 'channel-limits')
+    .map((issue) => issue.message);
+
+describe('getChannelLimit', () => {
+  it('returns the strictest limit and the channel that sets it', () => {
+    expect(getChannelLimit(['web', 'messenger'], 'maxTextLength')).toMatchObject({
+      value: 2000,
+      channel: { name: 'Messenger' },
+    });
+    expect(getChannelLimit([], 'maxTextLength')).toBeNull();
+  });
+});
+
+describe('file types', () => {
+  it('are normalized to lowercase extensions', () => {
+    expect(normalizeFileType(' PDF ')).toBe('.pdf');
+    expect(normalizeFileType('.Png')).toBe('.png');
+  });
+
+  it('are limited by the channels that restrict them', () => {
+    expect(getSupportedFileTypes(['web', 'messenger'])).toBeNull();
+    expect(getSupportedFileTypes(['web', 'whatsapp'])).toContain('.pdf');
+    expect(findUnsupportedFileTypes(['pdf', '.zip'], ['whatsapp', 'web'])).toEqual([
+      { type: '.zip', channels: [expect.objectContaining({ id: 'whatsapp' })] },
+    ]);
+  });
+});
+
+describe('channel-limits rule', () => {
+  it('holds flows without channels to the node limits only', () => {
+    expect(channelProblems(buttons(5), [])).toEqual([]);
+  });
+
+  it('reports buttons over the limits of the strictest channel', () => {
+    expect(channelProblems(buttons(4, 'A rather long label'), ['web', 'whatsapp'])).toEqual([
+      'Quick-reply node has 4 buttons; WhatsApp allows 3.',
+      'Button labels over the 20 characters WhatsApp allows: "A rather long label 0", "A rather long label 1", "A rather long label 2", "A rather long label 3".',
+    ]);
+  });
+
+  it('checks every locale of the message', () => {
+    const localization: FlowLocalization = {
+      defaultLocale: 'en',
+      locales: [...DEFAULT_LOCALIZATION.locales, { code: 'hi', required: false }],
+    };
+    const node = { ...buttons(1), data: { ...buttons(1).data, translations: { hi: { text: 'x'.repeat(1100) } } } } as AppNode;
+    expect(channelProblems(node, ['whatsapp'], localization)).toEqual([
+      'Message is 1100 characters long; WhatsApp allows 1024 with quick replies.',
+    ]);
+  });
+});
+
+describe('checkChannels', () => {
+  it('reports unknown and duplicate channels', () => {
+    expect(checkChannels(['web', 'sms', 'web'])).toEqual([
+      'channels[1]: expected one of "whatsapp", "messenger", "web", got string "sms"',
+      'channels[2]: duplicate channel "web"',
+    ]);
+    expect(parseChannels(['web', 'sms'])).toEqual([]);
+    expect(parseChannels(['whatsapp'])).toEqual(['whatsapp']);
+  });
+
+  it('names the channels for display', () => {
+    expect(describeChannels(['whatsapp', 'web'])).toBe('WhatsApp, Web widget');
+    expect(describeChannels([])).toBe('None');
+  });
+});
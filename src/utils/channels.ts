@@ -0,0 +1,223 @@
+/**
+ * Channel Profile Utility
+ *
+ * This module describes the messaging channels a flow can target and the
+ * hard limits each of them puts on messages: text length, number and length
+ * of quick-reply buttons, and the size and types of files users can send.
+ * A flow lists the channels it targets (FlowState.channels); the validation
+ * rules and the settings panels enforce the strictest limit of those
+ * channels, naming the channel that sets it.
+ *
+ * Flows that target no channel in particular are only held to the limits
+ * of the node types themselves.
+ *
+ * Features:
+ * - Channel profiles for WhatsApp, Messenger and the web widget
+ * - The strictest limits of a set of channels
+ * - File types supported by every targeted channel
+ * - Checking the channels of stored and imported flows
+ */
+
+import type { ChannelId } from '../types/flow';
+import { describe } from './valueChecks';
+
+/**
+ * Channel Profile Interface
+ *
+ * @property id - Identifier of the channel
+ * @property name - User-facing name of the channel
+ * @property maxTextLength - Maximum length of a text message, in characters
+ * @property maxButtonsTextLength - Maximum length of a message sent with quick-reply buttons
+ * @property maxButtons - Maximum number of quick-reply buttons on a message
+ * @property maxButtonLabelLength - Maximum length of a button label, in characters
+ * @property maxFileSize - Maximum size of a file users can send, in MB
+ * @property fileTypes - File extensions users can send (empty if any file is accepted)
+ */
+export interface ChannelProfile {
+  id: ChannelId;
+  name: string;
+  maxTextLength: number;
+  maxButtonsTextLength: number;
+  maxButtons: number;
+  maxButtonLabelLength: number;
+  maxFileSize: number;
+  fileTypes: string[];
+}
+
+/**
+ * Channel Profiles
+ *
+ * WhatsApp sends quick replies as interactive reply-button messages, whose
+ * body is limited to 1,024 characters. Messenger sends them as quick
+ * replies on a regular text message.
+ */
+export const CHANNEL_PROFILES: ChannelProfile[] = [
+  {
+    id: 'whatsapp',
+    name: 'WhatsApp',
+    maxTextLength: 4096,
+    maxButtonsTextLength: 1024,
+    maxButtons: 3,
+    maxButtonLabelLength: 20,
+    maxFileSize: 16,
+    fileTypes: [
+      '.jpg', '.jpeg', '.png', '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.txt',
+      '.mp3', '.ogg', '.aac', '.amr', '.mp4', '.3gp',
+    ],
+  },
+  {
+    id: 'messenger',
+    name: 'Messenger',
+    maxTextLength: 2000,
+    maxButtonsTextLength: 2000,
+    maxButtons: 13,
+    maxButtonLabelLength: 20,
+    maxFileSize: 25,
+    fileTypes: [],
+  },
+  {
+    id: 'web',
+    name: 'Web widget',
+    maxTextLength: 5000,
+    maxButtonsTextLength: 5000,
+    maxButtons: 10,
+    maxButtonLabelLength: 40,
+    maxFileSize: 50,
+    fileTypes: [],
+  },
+];
+
+/**
+ * Get Channel Profile
+ *
+ * @param id - A channel ID
+ * @returns The channel's profile, or undefined for unknown channels
+ */
+export function getChannelProfile(id: string): ChannelProfile | undefined {
+  return CHANNEL_PROFILES.find((p) => p.id === id);
+}
+
+/**
+ * Describe Channels
+ *
+ * @param channels - Channel IDs
+ * @returns The channels' names, comma separated ("None" for no channels)
+ */
+export const describeChannels = (channels: ChannelId[]): string =>
+  channels.map((id) => getChannelProfile(id)?.name ?? id).join(', ') || 'None';
+
+/** Limits of a channel profile that are a number */
+export type NumericChannelLimit = Exclude<keyof ChannelProfile, 'id' | 'name' | 'fileTypes'>;
+
+/**
+ * Channel Limit Interface
+ *
+ * @property value - The limit
+ * @property channel - The channel that sets it
+ */
+export interface ChannelLimit {
+  value: number;
+  channel: ChannelProfile;
+}
+
+/**
+ * Get Channel Limit
+ *
+ * @param channels - The channels a flow targets
+ * @param limit - The limit to look up
+ * @returns The strictest value of the limit among the channels, or null if
+ * the flow targets no channel
+ */
+export function getChannelLimit(channels: ChannelId[], limit: NumericChannelLimit): ChannelLimit | null {
+  return channels
+    .flatMap((id) => getChannelProfile(id) ?? [])
+    .reduce<ChannelLimit | null>(
+      (strictest, channel) =>
+        strictest && strictest.value <= channel[limit] ? strictest : { value: channel[limit], channel },
+      null
+    );
+}
+
+/**
+ * Normalize File Type
+ *
+ * @param type - A file type as entered in a file upload node ("pdf", ".PDF")
+ * @returns The lowercase extension with a leading dot (".pdf")
+ */
+export const normalizeFileType = (type: string): string => {
+  const trimmed = type.trim().toLowerCase();
+  return trimmed.startsWith('.') ? trimmed : `.${trimmed}`;
+};
+
+/**
+ * Get Supported File Types
+ *
+ * @param channels - The channels a flow targets
+ * @returns The file extensions every channel accepts, or null if the
+ * channels accept any file
+ */
+export function getSupportedFileTypes(channels: ChannelId[]): string[] | null {
+  return channels
+    .flatMap((id) => getChannelProfile(id) ?? [])
+    .filter((channel) => channel.fileTypes.length > 0)
+    .reduce<string[] | null>(
+      (supported, channel) => (supported ? supported.filter((t) => channel.fileTypes.includes(t)) : channel.fileTypes),
+      null
+    );
+}
+
+/**
+ * Unsupported File Type Interface
+ *
+ * @property type - The file type as entered in the node
+ * @property channels - The targeted channels that do not accept it
+ */
+export interface UnsupportedFileType {
+  type: string;
+  channels: ChannelProfile[];
+}
+
+/**
+ * Find Unsupported File Types
+ *
+ * @param types - File types allowed by a file upload node
+ * @param channels - The channels a flow targets
+ * @returns The types some targeted channel does not accept
+ */
+export function findUnsupportedFileTypes(types: string[], channels: ChannelId[]): UnsupportedFileType[] {
+  const restricted = channels.flatMap((id) => getChannelProfile(id) ?? []).filter((c) => c.fileTypes.length > 0);
+  return types.flatMap((type) => {
+    const rejecting = restricted.filter((c) => !c.fileTypes.includes(normalizeFileType(type)));
+    return rejecting.length > 0 ? [{ type, channels: rejecting }] : [];
+  });
+}
+
+/**
+ * Check Channels
+ *
+ * Checks the channels of a stored or imported flow.
+ *
+ * @param value - The untrusted channel list
+ * @param path - Path of the value, used as the prefix of error messages
+ * @returns Readable, path-based problems (empty if the channels are valid)
+ */
+export function checkChannels(value: unknown, path = 'channels'): string[] {
+  if (!Array.isArray(value)) return [`${path}: expected an array, got ${describe(value)}`];
+  const ids = CHANNEL_PROFILES.map((p) => `"${p.id}"`).join(', ');
+  return value.flatMap((id, i) => {
+    if (typeof id !== 'string' || !getChannelProfile(id)) {
+      return [`${path}[${i}]: expected one of ${ids}, got ${describe(id)}`];
+    }
+    return value.indexOf(id) !== i ? [`${path}[${i}]: duplicate channel "${id}"`] : [];
+  });
+}
+
+/**
+ * Parse Channels
+ *
+ * @param value - The channels of a stored flow, if it has any
+ * @returns The channels, or none if they are missing or invalid
+ */
+export function parseChannels(value: unknown): ChannelId[] {
+  return checkChannels(value).length === 0 ? (value as ChannelId[]) : [];
+}
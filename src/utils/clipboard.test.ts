@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppEdge, AppNode } from '../types/flow';
+import { CLIPBOARD_FORMAT, copySelection, parseClipboard, preparePaste, serializeClipboard } from './clipboard';
+import { FLOW_SCHEMA_VERSION, migrateFlowFile } from './flowMigrations';
+
+// Spy on the migration chain while keeping its behavior
+vi.mock('./flowMigrations', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./flowMigrations')>();
+  return { ...actual, migrateFlowFile: vi.fn(actual.migrateFlowFile) };
+});
+
+const textNode = (id: string, selected = false): AppNode => ({
+  id,
+  type: 'text',
+  position: { x: 10, y: 20 },
+  data: { text: id, type: 'text' },
+  selected,
+});
+
+const edge = (source: string, target: string): AppEdge => ({ id: `${source}-${target}`, source, target });
+
+const payloadText = (fields: Record<string, unknown>) =>
+  JSON.stringify({ format: CLIPBOARD_FORMAT, schemaVersion: FLOW_SCHEMA_VERSION, nodes: [], edges: [], ...fields });
+
+describe('copySelection', () => {
+  it('copies the selected nodes and the edges between them', () => {
+    const payload = copySelection(
+      [textNode('a', true), textNode('b', true), textNode('c')],
+      [edge('a', 'b'), edge('b', 'c')]
+    );
+    expect(payload?.nodes.map((n) => n.id)).toEqual(['a', 'b']);
+    expect(payload?.nodes[0]).not.toHaveProperty('selected');
+    expect(payload?.edges.map((e) => e.id)).toEqual(['a-b']);
+  });
+
+  it('copies nothing without a selection', () => {
+    expect(copySelection([textNode('a')], [])).toBeNull();
+  });
+});
+
+describe('parseClipboard', () => {
+  it('round-trips a copied selection', () => {
+    const payload = copySelection([textNode('a', true), textNode('b', true)], [edge('a', 'b')]);
+    const result = parseClipboard(serializeClipboard(payload!));
+    expect(result).toMatchObject({ ok: true, payload: { edges: [{ id: 'a-b' }] }, warnings: [] });
+  });
+
+  it('ignores text that is not a flow builder payload', () => {
+    expect(parseClipboard('Hello')).toBeNull();
+    expect(parseClipboard('{"nodes": []}')).toBeNull();
+  });
+
+  it('runs payloads copied before a schema bump through the migration chain', () => {
+    vi.mocked(migrateFlowFile).mockClear();
+    const result = parseClipboard(payloadText({ schemaVersion: 1, nodes: [textNode('a')] }));
+
+    expect(migrateFlowFile).toHaveBeenCalledWith(expect.objectContaining({ schemaVersion: 1 }));
+    expect(result).toMatchObject({ ok: true, payload: { schemaVersion: FLOW_SCHEMA_VERSION } });
+  });
+
+  it('rejects payloads without a valid schema version', () => {
+    expect(parseClipboard(payloadText({ schemaVersion: undefined, nodes: [textNode('a')] }))).toEqual({
+      ok: false,
+      errors: ['The copied nodes have no valid schema version'],
+    });
+    expect(parseClipboard(payloadText({ schemaVersion: '4', nodes: [textNode('a')] }))).toMatchObject({ ok: false });
+  });
+
+  it('rejects payloads from a newer version of the app', () => {
+    expect(parseClipboard(payloadText({ schemaVersion: FLOW_SCHEMA_VERSION + 1 }))).toEqual({
+      ok: false,
+      errors: [`Copied from a newer version of the app (schema version ${FLOW_SCHEMA_VERSION + 1})`],
+    });
+  });
+
+  it('leaves out invalid nodes with their edges and reports them', () => {
+    const result = parseClipboard(
+      payloadText({ nodes: [textNode('a'), { id: 'b', type: 'unknown' }], edges: [edge('a', 'b')] })
+    );
+    expect(result).toMatchObject({ ok: true, payload: { edges: [] } });
+    if (!result?.ok) return;
+    expect(result.payload.nodes.map((n) => n.id)).toEqual(['a']);
+    expect(result.warnings).toEqual(['nodes[1].type: unknown node type "unknown"', 'edges[0]: node "b" does not exist']);
+  });
+
+  it('fails when no node is left', () => {
+    expect(parseClipboard(payloadText({}))).toEqual({ ok: false, errors: ['The clipboard contains no nodes'] });
+  });
+});
+
+describe('preparePaste', () => {
+  it('gives the nodes and edges fresh IDs and moves them', () => {
+    const payload = copySelection([textNode('a', true), textNode('b', true)], [edge('a', 'b')])!;
+    const { nodes, edges } = preparePaste(payload, [textNode('a'), textNode('b')], [edge('a', 'b')], 40);
+
+    expect(nodes.map((n) => n.id)).not.toContain('a');
+    expect(nodes[0]).toMatchObject({ position: { x: 50, y: 60 }, selected: true });
+    expect(edges[0]).toMatchObject({ source: nodes[0].id, target: nodes[1].id });
+    expect(edges[0].id).not.toBe('a-b');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Flow Clipboard Utility
+ *
+ * This module converts selections of nodes to and from the JSON payload
+ * used by copy, cut, paste and duplicate. The payload travels through the
+ * system clipboard as plain text, so nodes can be pasted into another flow
+ * or another browser tab.
+ *
+ * Payload Format:
+ * ```json
+ * {
+ *   "format": "bitespeed-flow-clipboard",
+ *   "schemaVersion": 4,
+ *   "nodes": [{ "id": "text-1", "type": "text", "position": { "x": 0, "y": 0 }, "data": { "text": "Hi", "type": "text" } }],
+ *   "edges": []
+ * }
+ * ```
+ *
+ * A copied selection contains the selected nodes, the members of selected
+ * groups and the edges between them; members copied without their group
+ * become top-level nodes. Pasting upgrades payloads copied by an older
+ * version of the app through the flow file migration chain (see
+ * flowMigrations.ts), checks them against the runtime schemas (see
+ * schemaChecks.ts), gives every node and edge a fresh ID,
+ * rewrites the edge ends and group memberships to the new node IDs and
+ * offsets the positions.
+ */
+
+import { nanoid } from 'nanoid';
+import type { AppNode, AppEdge } from '../types/flow';
+import { createEdgeId } from './edges';
+import { stripTransient } from './flowFile';
+import { FLOW_SCHEMA_VERSION, migrateFlowFile } from './flowMigrations';
+import { getAbsolutePosition, getSelectionWithMembers } from './groups';
+import { sanitizeGraph } from './schemaChecks';
+import { isObject } from './valueChecks';
+
+/** Marks clipboard text written by the flow builder */
+export const CLIPBOARD_FORMAT = 'bitespeed-flow-clipboard';
+
+/** Distance (px) pasted nodes are moved from the copied ones, per paste */
+export const PASTE_OFFSET = 40;
+
+/**
+ * Clipboard Payload Interface
+ *
+ * @property format - Always CLIPBOARD_FORMAT
+ * @property schemaVersion - Flow schema version of the nodes and edges
+ * @property nodes - The copied nodes
+ * @property edges - The edges between the copied nodes
+ */
+export interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  schemaVersion: number;
+  nodes: AppNode[];
+  edges: AppEdge[];
+}
+
+/**
+ * Clipboard Parse Result Type
+ *
+ * `null` for clipboard text that is not a flow builder payload at all
+ * (e.g. ordinary text), so callers can ignore it silently.
+ */
+export type ClipboardParseResult =
+  | { ok: true; payload: ClipboardPayload; warnings: string[] }
+  | { ok: false; errors: string[] }
+  | null;
+
+/**
+ * Copy Selection
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges in the flow
+ * @returns The payload of the selected nodes, or null if nothing is selected
+ */
+export function copySelection(nodes: AppNode[], edges: AppEdge[]): ClipboardPayload | null {
+  const selected = getSelectionWithMembers(nodes);
+  if (selected.length === 0) return null;
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const ids = new Set(selected.map((n) => n.id));
+  return {
+    format: CLIPBOARD_FORMAT,
+    schemaVersion: FLOW_SCHEMA_VERSION,
+    nodes: selected.map((n) => {
+      const node = stripTransient(n);
+      if (!node.parentId || ids.has(node.parentId)) return node;
+      // Members copied without their group are pasted where they are on the canvas
+      node.position = getAbsolutePosition(n, byId);
+      delete node.parentId;
+      delete node.extent;
+      return node;
+    }),
+    edges: edges.filter((e) => ids.has(e.source) && ids.has(e.target)).map(stripTransient),
+  };
+}
+
+/**
+ * Serialize Clipboard Payload
+ *
+ * @param payload - The payload to write
+ * @returns The clipboard text
+ */
+export function serializeClipboard(payload: ClipboardPayload): string {
+  return JSON.stringify(payload);
+}
+
+/**
+ * Parse Clipboard Text
+ *
+ * Checks pasted text. Payloads of older schema versions are migrated
+ * first, like imported flow files. Nodes and edges are checked against the runtime
+ * schemas with missing fields repaired; invalid ones are left out, as are
+ * edges whose ends were left out (see sanitizeGraph).
+ *
+ * @param text - The clipboard text
+ * @returns The checked payload, the problems found, or null for foreign text
+ */
+export function parseClipboard(text: string): ClipboardParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(raw) || raw.format !== CLIPBOARD_FORMAT) return null;
+
+  const version = raw.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    return { ok: false, errors: ['The copied nodes have no valid schema version'] };
+  }
+  if (version > FLOW_SCHEMA_VERSION) {
+    return { ok: false, errors: [`Copied from a newer version of the app (schema version ${version})`] };
+  }
+
+  // The nodes and edges are upgraded the same way as those of a flow file
+  const migration = migrateFlowFile({ schemaVersion: version, nodes: raw.nodes, edges: raw.edges });
+  if (!migration.ok || !migration.file) {
+    return { ok: false, errors: [migration.message ?? 'The copied nodes could not be upgraded'] };
+  }
+
+  const { nodes, edges, dropped, repairs } = sanitizeGraph(migration.file.nodes, migration.file.edges);
+  if (nodes.length === 0) {
+    return { ok: false, errors: dropped.length > 0 ? dropped : ['The clipboard contains no nodes'] };
+  }
+
+  return {
+    ok: true,
+    payload: { format: CLIPBOARD_FORMAT, schemaVersion: FLOW_SCHEMA_VERSION, nodes, edges },
+    warnings: [...dropped, ...repairs],
+  };
+}
+
+/**
+ * Fresh ID Helper
+ *
+ * @param prefix - Prefix of the ID (e.g. the node type)
+ * @param taken - IDs already in use; the new ID is added to it
+ * @returns An ID that is not in `taken`
+ */
+function freshId(prefix: string, taken: Set<string>): string {
+  let id: string;
+  do {
+    id = `${prefix}-${nanoid(8)}`;
+  } while (taken.has(id));
+  taken.add(id);
+  return id;
+}
+
+/**
+ * Prepare Paste
+ *
+ * Gives the payload's nodes and edges fresh IDs that do not collide with
+ * the flow, rewrites the edge ends and group memberships to the new node
+ * IDs and moves the nodes by `offset` (group members move with their
+ * group). The pasted nodes are selected.
+ *
+ * @param payload - The payload to paste
+ * @param existingNodes - Nodes already in the flow
+ * @param existingEdges - Edges already in the flow
+ * @param offset - Distance to move the pasted nodes by, in both directions
+ * @returns The nodes and edges to add to the flow
+ */
+export function preparePaste(
+  payload: ClipboardPayload,
+  existingNodes: AppNode[],
+  existingEdges: AppEdge[],
+  offset: number
+): { nodes: AppNode[]; edges: AppEdge[] } {
+  const takenNodeIds = new Set(existingNodes.map((n) => n.id));
+  const takenEdgeIds = new Set(existingEdges.map((e) => e.id));
+  const idMap = new Map<string, string>();
+
+  // Groups come before their members, so a member's group is mapped first
+  const nodes = payload.nodes.map((node) => {
+    const id = freshId(node.type, takenNodeIds);
+    idMap.set(node.id, id);
+    if (node.parentId) {
+      return { ...node, id, parentId: idMap.get(node.parentId) ?? node.parentId, selected: true };
+    }
+    return {
+      ...node,
+      id,
+      position: { x: node.position.x + offset, y: node.position.y + offset },
+      selected: true,
+    };
+  });
+
+  const edges = payload.edges.map((edge) => {
+    const source = idMap.get(edge.source) ?? edge.source;
+    const target = idMap.get(edge.target) ?? edge.target;
+    let id = createEdgeId(source, edge.sourceHandle, target);
+    if (takenEdgeIds.has(id)) id = freshId(id, takenEdgeIds);
+    takenEdgeIds.add(id);
+    return { ...edge, id, source, target };
+  });
+
+  return { nodes, edges };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { ConditionGroup, ConditionOperator, ConditionRule } from '../types/flow';
+import { ELSE_HANDLE_ID, evaluateCondition, evaluateGroup, evaluateRule, summarizeGroup, summarizeRule } from './conditions';
+
+const rule = (operator: ConditionOperator, value = '', variable = 'city'): ConditionRule => ({
+  id: `${variable}-${operator}`,
+  variable,
+  operator,
+  value,
+});
+
+const group = (id: string, combinator: 'and' | 'or', rules: ConditionRule[]): ConditionGroup => ({ id, combinator, rules });
+
+describe('evaluateRule', () => {
+  it.each([
+    ['equals', 'Pune', 'Pune', true],
+    ['equals', 'Pune', 'pune', false],
+    ['notEquals', 'Pune', 'Delhi', true],
+    ['contains', 'PUN', 'Pune', true],
+    ['greaterThan', '10', '11', true],
+    ['greaterThan', '10', '', false],
+    ['lessThan', '10', '9', true],
+    ['isEmpty', '', '  ', true],
+    ['isNotEmpty', '', 'x', true],
+    ['matchesRegex', '^P\\w+$', 'Pune', true],
+    ['matchesRegex', '(', 'Pune', false],
+  ] as const)('%s "%s" against "%s" is %s', (operator, value, actual, expected) => {
+    expect(evaluateRule(rule(operator, value), { city: actual })).toBe(expected);
+  });
+
+  it('treats missing variables as empty', () => {
+    expect(evaluateRule(rule('isEmpty'), {})).toBe(true);
+    expect(evaluateRule(rule('equals', ''), {})).toBe(true);
+  });
+});
+
+describe('evaluateGroup', () => {
+  const rules = [rule('equals', 'Pune'), rule('isNotEmpty', '', 'name')];
+
+  it('needs every rule of an "and" group and any rule of an "or" group', () => {
+    expect(evaluateGroup(group('g', 'and', rules), { city: 'Pune' })).toBe(false);
+    expect(evaluateGroup(group('g', 'or', rules), { city: 'Pune' })).toBe(true);
+  });
+
+  it('never matches a group without rules', () => {
+    expect(evaluateGroup(group('g', 'or', []), {})).toBe(false);
+  });
+});
+
+describe('evaluateCondition', () => {
+  const data = {
+    groups: [group('pune', 'and', [rule('equals', 'Pune')]), group('any', 'or', [rule('isNotEmpty')])],
+    type: 'condition' as const,
+  };
+
+  it('continues from the first matching group', () => {
+    expect(evaluateCondition(data, { city: 'Pune' })).toBe('pune');
+    expect(evaluateCondition(data, { city: 'Delhi' })).toBe('any');
+  });
+
+  it('continues from the else handle when no group matches', () => {
+    expect(evaluateCondition(data, {})).toBe(ELSE_HANDLE_ID);
+  });
+});
+
+describe('summaries', () => {
+  it('describes rules and groups', () => {
+    expect(summarizeRule(rule('equals', 'Pune'))).toBe('city equals "Pune"');
+    expect(summarizeRule(rule('isEmpty', '', ''))).toBe('? is empty');
+    expect(summarizeGroup(group('g', 'and', [rule('equals', 'Pune'), rule('isNotEmpty', '', 'name')]))).toBe(
+      'city equals "Pune" AND name is not empty'
+    );
+    expect(summarizeGroup(group('g', 'or', []))).toBe('No rules');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Condition Evaluation Utility
+ *
+ * This module evaluates the rules of condition nodes against conversation
+ * variables and produces the readable summaries shown on the canvas.
+ *
+ * Evaluation Rules:
+ * - Groups are checked in order; the first group that matches wins.
+ * - An "and" group matches when all of its rules match; an "or" group when
+ *   any rule matches. A group without rules never matches.
+ * - If no group matches, the flow continues from the "else" handle.
+ * - Missing variables are treated as empty strings.
+ */
+
+import type { ConditionGroup, ConditionNodeData, ConditionOperator, ConditionRule } from '../types/flow';
+import type { VariableValues } from './variables';
+
+/** Source handle ID used when no condition group matches */
+export const ELSE_HANDLE_ID = 'else';
+
+/**
+ * Operator Metadata
+ *
+ * Display label and whether the operator compares against a value.
+ */
+export const CONDITION_OPERATORS: Record<ConditionOperator, { label: string; needsValue: boolean }> = {
+  equals: { label: 'equals', needsValue: true },
+  notEquals: { label: 'does not equal', needsValue: true },
+  contains: { label: 'contains', needsValue: true },
+  greaterThan: { label: 'is greater than', needsValue: true },
+  lessThan: { label: 'is less than', needsValue: true },
+  isEmpty: { label: 'is empty', needsValue: false },
+  isNotEmpty: { label: 'is not empty', needsValue: false },
+  matchesRegex: { label: 'matches regex', needsValue: true },
+};
+
+/**
+ * Is Valid Regex Helper
+ *
+ * @param pattern - A regular expression source
+ * @returns True if the pattern compiles
+ */
+export function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Evaluate Rule
+ *
+ * @param rule - The rule to evaluate
+ * @param values - Current variable values
+ * @returns True if the rule matches
+ */
+export function evaluateRule(rule: ConditionRule, values: VariableValues): boolean {
+  const actual = values[rule.variable] ?? '';
+
+  switch (rule.operator) {
+    case 'equals':
+      return actual === rule.value;
+    case 'notEquals':
+      return actual !== rule.value;
+    case 'contains':
+      return actual.toLowerCase().includes(rule.value.toLowerCase());
+    case 'greaterThan':
+      return actual.trim() !== '' && Number(actual) > Number(rule.value);
+    case 'lessThan':
+      return actual.trim() !== '' && Number(actual) < Number(rule.value);
+    case 'isEmpty':
+      return actual.trim() === '';
+    case 'isNotEmpty':
+      return actual.trim() !== '';
+    case 'matchesRegex':
+      return isValidRegex(rule.value) && new RegExp(rule.value).test(actual);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate Group
+ *
+ * @param group - The group to evaluate
+ * @param values - Current variable values
+ * @returns True if the group matches
+ */
+export function evaluateGroup(group: ConditionGroup, values: VariableValues): boolean {
+  if (group.rules.length === 0) return false;
+  return group.combinator === 'and'
+    ? group.rules.every((r) => evaluateRule(r, values))
+    : group.rules.some((r) => evaluateRule(r, values));
+}
+
+/**
+ * Evaluate Condition
+ *
+ * @param data - The condition node's data
+ * @param values - Current variable values
+ * @returns ID of the source handle to continue from (a group ID or ELSE_HANDLE_ID)
+ */
+export function evaluateCondition(data: ConditionNodeData, values: VariableValues): string {
+  return data.groups.find((g) => evaluateGroup(g, values))?.id ?? ELSE_HANDLE_ID;
+}
+
+/**
+ * Summarize Rule
+ *
+ * @param rule - A condition rule
+ * @returns Readable text such as `selected_button equals "Yes"`
+ */
+export function summarizeRule(rule: ConditionRule): string {
+  const { label, needsValue } = CONDITION_OPERATORS[rule.operator];
+  const variable = rule.variable || '?';
+  return needsValue ? `${variable} ${label} "${rule.value}"` : `${variable} ${label}`;
+}
+
+/**
+ * Summarize Group
+ *
+ * @param group - A condition group
+ * @returns The group's rules joined with AND/OR
+ */
+export function summarizeGroup(group: ConditionGroup): string {
+  if (group.rules.length === 0) return 'No rules';
+  return group.rules.map(summarizeRule).join(group.combinator === 'and' ? ' AND ' : ' OR ');
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppEdge, AppNode } from '../types/flow';
+import { checkConnection, resolveSourceHandle } from './connectionRules';
+import { createEdgeId, uniqueEdgeId } from './edges';
+import { createNode } from './nodeRegistry';
+
+const textNode = (id: string): AppNode => ({
+  id,
+  type: 'text',
+  position: { x: 0, y: 0 },
+  data: { text: id, type: 'text' },
+});
+
+const menu: AppNode = {
+  id: 'menu',
+  type: 'buttons',
+  position: { x: 0, y: 0 },
+  data: {
+    text: 'Pick',
+    buttons: [
+      { id: 'yes', label: 'Yes' },
+      { id: 'no', label: 'No' },
+    ],
+    maxButtons: 3,
+    type: 'buttons',
+  },
+};
+
+const note = { ...createNode('note', { x: 0, y: 0 })!, id: 'note' } as AppNode;
+
+const nodes = [textNode('a'), textNode('b'), textNode('c'), menu, note];
+
+const edge = (source: string, target: string, sourceHandle?: string): AppEdge => ({
+  id: createEdgeId(source, sourceHandle, target),
+  source,
+  target,
+  sourceHandle,
+});
+
+describe('resolveSourceHandle', () => {
+  it('uses the only handle of nodes that have one', () => {
+    expect(resolveSourceHandle(textNode('a'), null)).toBe('right');
+    expect(resolveSourceHandle(menu, null)).toBeNull();
+    expect(resolveSourceHandle(menu, 'no')).toBe('no');
+  });
+});
+
+describe('checkConnection', () => {
+  it('allows a connection between two free handles', () => {
+    expect(checkConnection({ source: 'a', target: 'b' }, nodes, [])).toEqual({ ok: true });
+  });
+
+  it('rejects missing nodes, self connections and unknown handles', () => {
+    expect(checkConnection({ source: 'a', target: 'gone' }, nodes, [])).toMatchObject({ ok: false });
+    expect(checkConnection({ source: 'a', target: 'a' }, nodes, [])).toEqual({
+      ok: false,
+      reason: 'A node cannot connect to itself.',
+    });
+    expect(checkConnection({ source: 'menu', target: 'a', sourceHandle: 'maybe' }, nodes, [])).toEqual({
+      ok: false,
+      reason: 'That handle does not exist on the source node.',
+    });
+  });
+
+  it('rejects connections into nodes that accept none', () => {
+    expect(checkConnection({ source: 'a', target: 'note' }, nodes, [])).toMatchObject({ ok: false });
+  });
+
+  it('allows one connection per handle, except for the edge being reconnected', () => {
+    const edges = [edge('a', 'b')];
+    expect(checkConnection({ source: 'a', target: 'c' }, nodes, edges)).toEqual({
+      ok: false,
+      reason: 'This handle is already connected. Drag the existing connection to move it.',
+    });
+    expect(checkConnection({ source: 'a', target: 'c' }, nodes, edges, edges[0].id)).toEqual({ ok: true });
+  });
+
+  it('lets every button of a node lead somewhere of its own', () => {
+    const edges = [edge('menu', 'a', 'yes')];
+    expect(checkConnection({ source: 'menu', target: 'a', sourceHandle: 'no' }, nodes, edges)).toEqual({ ok: true });
+    expect(checkConnection({ source: 'menu', target: 'b', sourceHandle: 'yes' }, nodes, edges)).toMatchObject({
+      ok: false,
+    });
+  });
+});
+
+describe('edge IDs', () => {
+  it('include the source handle, except the default one', () => {
+    expect(createEdgeId('a', 'right', 'b')).toBe('edge-a-b');
+    expect(createEdgeId('menu', 'yes', 'b')).toBe('edge-menu-yes-b');
+  });
+
+  it('get a numeric suffix when taken', () => {
+    expect(uniqueEdgeId({ source: 'a', target: 'b' }, [edge('a', 'b')])).toBe('edge-a-b-2');
+  });
+});
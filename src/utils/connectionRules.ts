@@ -0,0 +1,115 @@
+/**
+ * Connection Rules Utility
+ *
+ * This module decides which connections may be drawn on the canvas. The
+ * canvas asks it while the user drags a connection (to highlight valid
+ * handles), when a connection is dropped and when an existing edge is
+ * dragged to a new node.
+ *
+ * Rules:
+ * - Both ends must be existing nodes, and a node cannot connect to itself
+ * - Both handles must exist on their nodes
+ * - The target's node type must accept incoming connections
+ * - The same handle cannot be connected to the same node twice
+ * - A source handle carries at most `maxOutgoingPerHandle` edges (default 1)
+ * - The source's node type may add its own check (`canConnectTo`)
+ *
+ * The per-type limits come from the `connections` field of the node type
+ * definitions (see nodeRegistry.ts).
+ */
+
+import type { AppNode, AppEdge } from '../types/flow';
+import { getNodeType, getSourceHandleIds } from './nodeRegistry';
+
+/** Default maximum number of edges leaving one source handle */
+export const DEFAULT_MAX_OUTGOING_PER_HANDLE = 1;
+
+/**
+ * Connection Candidate Interface
+ *
+ * The ends of a connection being drawn or an edge being reconnected.
+ */
+export interface ConnectionCandidate {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+/**
+ * Connection Check Result Type
+ *
+ * Either the connection is allowed, or the reason it is not.
+ */
+export type ConnectionCheckResult = { ok: true } | { ok: false; reason: string };
+
+/**
+ * Resolve Source Handle
+ *
+ * Edges without a source handle attach to the node's only handle, if it has
+ * just one.
+ *
+ * @param node - Source node of an edge
+ * @param handle - The edge's source handle
+ * @returns The handle the edge leaves from, or null if it cannot be told
+ */
+export function resolveSourceHandle(node: AppNode, handle: string | null | undefined): string | null {
+  if (handle) return handle;
+  const handles = getSourceHandleIds(node);
+  return handles?.length === 1 ? handles[0] : null;
+}
+
+/**
+ * Check Connection
+ *
+ * @param connection - The connection to check
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges in the flow
+ * @param ignoreEdgeId - Edge being reconnected, which does not count against the limits
+ * @returns Whether the connection is allowed, and why not
+ */
+export function checkConnection(
+  connection: ConnectionCandidate,
+  nodes: AppNode[],
+  edges: AppEdge[],
+  ignoreEdgeId?: string | null
+): ConnectionCheckResult {
+  const source = nodes.find((n) => n.id === connection.source);
+  const target = nodes.find((n) => n.id === connection.target);
+  if (!source || !target) return { ok: false, reason: 'Connections must join two existing nodes.' };
+  if (source.id === target.id) return { ok: false, reason: 'A node cannot connect to itself.' };
+
+  const sourceType = getNodeType(source.type);
+  const targetType = getNodeType(target.type);
+  const handle = resolveSourceHandle(source, connection.sourceHandle);
+  if (!handle || !getSourceHandleIds(source)?.includes(handle)) {
+    return { ok: false, reason: 'That handle does not exist on the source node.' };
+  }
+  if (connection.targetHandle && !targetType?.targetHandles.includes(connection.targetHandle)) {
+    return { ok: false, reason: 'That handle does not exist on the target node.' };
+  }
+  if (targetType?.connections?.acceptsIncoming === false) {
+    return { ok: false, reason: `${targetType.palette.label} nodes cannot have incoming connections.` };
+  }
+
+  // Edges already leaving the same handle
+  const siblings = edges.filter(
+    (e) => e.id !== ignoreEdgeId && e.source === source.id && resolveSourceHandle(source, e.sourceHandle) === handle
+  );
+  if (siblings.some((e) => e.target === target.id)) {
+    return { ok: false, reason: 'These nodes are already connected from this handle.' };
+  }
+  const max = sourceType?.connections?.maxOutgoingPerHandle ?? DEFAULT_MAX_OUTGOING_PER_HANDLE;
+  if (siblings.length >= max) {
+    return {
+      ok: false,
+      reason:
+        max === 1
+          ? 'This handle is already connected. Drag the existing connection to move it.'
+          : `This handle already has the maximum of ${max} connections.`,
+    };
+  }
+
+  const reason = sourceType?.connections?.canConnectTo?.(source, target) ?? null;
+  return reason ? { ok: false, reason } : { ok: true };
+}
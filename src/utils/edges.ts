@@ -0,0 +1,72 @@
+/**
+ * Edge Utility
+ *
+ * Helpers shared by the code that creates edges: connecting handles on the
+ * canvas, reconnecting edges, pasting nodes and repairing edges without an
+ * ID.
+ */
+
+import { MarkerType } from '@xyflow/react';
+import type { AppEdge } from '../types/flow';
+import type { ConnectionCandidate } from './connectionRules';
+
+/** Color of the edges drawn on the canvas */
+export const EDGE_COLOR = '#3B82F6';
+
+/**
+ * Create Edge ID
+ *
+ * Builds the ID of an edge from its ends. Nodes with several source handles
+ * (quick replies, conditions) include the handle in the ID so that two
+ * handles of one node can lead to the same target.
+ *
+ * @param source - ID of the source node
+ * @param sourceHandle - ID of the source handle (null for the default handle)
+ * @param target - ID of the target node
+ * @returns The edge ID, e.g. "edge-text-1-text-2"
+ */
+export function createEdgeId(source: string, sourceHandle: string | null | undefined, target: string): string {
+  const handleSuffix = sourceHandle && sourceHandle !== 'right' ? `-${sourceHandle}` : '';
+  return `edge-${source}${handleSuffix}-${target}`;
+}
+
+/**
+ * Unique Edge ID
+ *
+ * @param connection - Ends of the edge
+ * @param edges - Edges already in the flow
+ * @returns The edge ID from createEdgeId, with a numeric suffix if it is taken
+ */
+export function uniqueEdgeId(connection: ConnectionCandidate, edges: AppEdge[]): string {
+  const base = createEdgeId(connection.source, connection.sourceHandle, connection.target);
+  const taken = new Set(edges.map((e) => e.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/**
+ * Create Edge
+ *
+ * @param connection - Ends of the new edge
+ * @param edges - Edges already in the flow, used to keep the ID unique
+ * @returns A new edge with the canvas edge style (blue line with an arrow)
+ */
+export function createEdge(connection: ConnectionCandidate, edges: AppEdge[]): AppEdge {
+  return {
+    id: uniqueEdgeId(connection, edges),
+    source: connection.source,
+    target: connection.target,
+    sourceHandle: connection.sourceHandle || null,
+    targetHandle: connection.targetHandle || null,
+    type: 'default',
+    style: { stroke: EDGE_COLOR, strokeWidth: 2 },
+    markerEnd: {
+      type: MarkerType.ArrowClosed,
+      color: EDGE_COLOR,
+      width: 20,
+      height: 20,
+    },
+    animated: false,
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppNode } from '../types/flow';
+import { createFlowApi, formatETag, parseETag } from './flowApi';
+import { createFlowRecord } from './flowStorage';
+import { createMockFlowServer, MOCK_API_BASE_URL } from './mockFlowServer';
+
+const textNode = (id: string): AppNode => ({
+  id,
+  type: 'text',
+  position: { x: 0, y: 0 },
+  data: { text: id, type: 'text' },
+});
+
+const setup = (retries = 0) => {
+  const server = createMockFlowServer({ latencyMs: 0, persist: false });
+  const api = createFlowApi({ baseUrl: MOCK_API_BASE_URL, fetch: server.fetch, retries, retryDelayMs: 0 });
+  return { server, api };
+};
+
+const flow = createFlowRecord('Welcome', [textNode('a'), textNode('b')], []);
+
+describe('ETags', () => {
+  it('carry the flow version', () => {
+    expect(formatETag(3)).toBe('"3"');
+    expect(parseETag('"3"')).toBe(3);
+    expect(parseETag('W/"12"')).toBe(12);
+    expect(parseETag('"abc"')).toBeNull();
+    expect(parseETag(null)).toBeNull();
+  });
+});
+
+describe('createFlowApi', () => {
+  it('creates, lists, loads, updates and deletes flows', async () => {
+    const { api } = setup();
+
+    const created = await api.createFlow({ ...flow, nodes: [{ ...flow.nodes[0], selected: true }] });
+    expect(created).toMatchObject({ ok: true, value: { id: flow.id, version: 1 }, warnings: [] });
+    if (created.ok) expect(created.value.nodes[0]).not.toHaveProperty('selected');
+
+    expect(await api.listFlows()).toMatchObject({ ok: true, value: [{ id: flow.id, name: 'Welcome', version: 1 }] });
+    expect(await api.getFlow(flow.id)).toMatchObject({ ok: true, value: { nodes: [{ id: 'a' }] } });
+    expect(await api.updateFlow({ ...flow, name: 'Renamed' }, 1)).toMatchObject({
+      ok: true,
+      value: { name: 'Renamed', version: 2 },
+    });
+    expect(await api.deleteFlow(flow.id, 2)).toEqual({ ok: true, value: null, warnings: [] });
+    expect(await api.getFlow(flow.id)).toMatchObject({ ok: false, error: { kind: 'not-found' } });
+  });
+
+  it('returns the server copy when the flow was changed elsewhere', async () => {
+    const { server, api } = setup();
+    await api.createFlow(flow);
+    server.editRemotely(flow.id);
+
+    const result = await api.updateFlow({ ...flow, name: 'Mine' }, 1);
+    expect(result).toMatchObject({
+      ok: false,
+      error: { kind: 'conflict', current: { name: 'Welcome (edited elsewhere)', version: 2 } },
+    });
+    expect(await api.deleteFlow(flow.id, 1)).toMatchObject({ ok: false, error: { kind: 'conflict' } });
+    expect(await api.createFlow(flow)).toMatchObject({ ok: false, error: { kind: 'conflict' } });
+  });
+
+  it('reports what had to be dropped from a flow response', async () => {
+    const { server, api } = setup();
+    await api.createFlow(flow);
+    server.editRemotely(flow.id, (f) => ({ ...f, edges: [{ id: 'e', source: 'a', target: 'gone' }] }));
+
+    const result = await api.getFlow(flow.id);
+    expect(result).toMatchObject({ ok: true, value: { edges: [] }, warnings: ['edges[0]: node "gone" does not exist'] });
+  });
+
+  it('retries server and network failures', async () => {
+    const { server, api } = setup(2);
+    server.failNext(1, 503);
+    server.failNext(1, 0);
+    expect(await api.listFlows()).toMatchObject({ ok: true, value: [] });
+  });
+
+  it('gives up once the retries are used up', async () => {
+    const { server, api } = setup(1);
+    server.failNext(2, 503);
+    expect(await api.listFlows()).toMatchObject({ ok: false, error: { kind: 'server', status: 503 } });
+
+    server.failNext(2, 0);
+    expect(await api.listFlows()).toMatchObject({ ok: false, error: { kind: 'network' } });
+  });
+
+  it('does not retry client errors', async () => {
+    const { server, api } = setup(3);
+    server.failNext(1, 400);
+    expect(await api.listFlows()).toMatchObject({ ok: false, error: { kind: 'server', status: 400 } });
+  });
+
+  it('rejects responses that are not what the API promises', async () => {
+    const api = createFlowApi({
+      baseUrl: '',
+      retries: 0,
+      fetch: async () => new Response(JSON.stringify({ items: [] }), { status: 200 }),
+    });
+    expect(await api.listFlows()).toMatchObject({ ok: false, error: { kind: 'invalid' } });
+  });
+});
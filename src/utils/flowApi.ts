@@ -0,0 +1,415 @@
+/**
+ * Flow API Client
+ *
+ * This module is the typed REST client for the flow backend. It lists,
+ * loads, creates, updates and deletes flows, and never throws: every call
+ * resolves to a result object describing the response or what went wrong.
+ *
+ * Endpoints (relative to the base URL):
+ * - `GET    /flows`     -> `{ flows: RemoteFlowSummary[] }`
+ * - `GET    /flows/:id` -> RemoteFlow
+ * - `POST   /flows`     -> RemoteFlow (201), 409 if the ID is taken
+ * - `PUT    /flows/:id` -> RemoteFlow, 412 if `If-Match` is out of date
+ * - `DELETE /flows/:id` -> 204, 412 if `If-Match` is out of date
+ *
+ * Optimistic Concurrency:
+ * Every stored flow has a version that the server increments on each write
+ * and also sends as the `ETag` header (`"3"`). Updates and deletes send the
+ * version they are based on as `If-Match`; if someone else saved in the
+ * meantime the server answers 409/412 with the current flow in the body,
+ * which is returned as a `conflict` error.
+ *
+ * Flows in responses are checked against the runtime schemas like flows
+ * loaded from browser storage. What had to be dropped or repaired comes back
+ * as the result's `warnings` (or the conflict's), so callers can tell the user.
+ *
+ * Retries:
+ * Network failures, timeouts and 408/429/5xx responses are retried with
+ * exponential backoff and jitter (honouring `Retry-After`). Writes are safe
+ * to retry because they are conditional: a repeated write whose first
+ * attempt already landed comes back as a conflict instead of a double save.
+ */
+
+import type { FlowVariable, SavedFlow } from '../types/flow';
+import { stripTransient } from './flowFile';
+import { sanitizeGraph } from './schemaChecks';
+import { parseLocalization } from './localization';
+import { parseChannels } from './channels';
+import { isObject } from './valueChecks';
+
+/**
+ * Remote Flow Summary Interface
+ *
+ * A flow summary as listed by the server.
+ *
+ * @property version - Server version of the flow, incremented on every write
+ */
+export interface RemoteFlowSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  version: number;
+}
+
+/**
+ * Remote Flow Interface
+ *
+ * A complete flow as stored by the server.
+ */
+export interface RemoteFlow extends SavedFlow {
+  version: number;
+}
+
+/**
+ * API Error Type
+ *
+ * Why a request failed:
+ * - `conflict` - the flow changed on the server; `current` is the server copy
+ *   and `warnings` what had to be repaired in it
+ * - `not-found` - the flow does not exist on the server
+ * - `network` - the server could not be reached (after all retries)
+ * - `server` - the server answered with an unexpected status
+ * - `invalid` - the response body was not what the API promises
+ */
+export type ApiError =
+  | { kind: 'conflict'; message: string; current: RemoteFlow; warnings: string[] }
+  | { kind: 'not-found'; message: string }
+  | { kind: 'network'; message: string }
+  | { kind: 'server'; status: number; message: string }
+  | { kind: 'invalid'; message: string };
+
+/**
+ * API Result Type
+ *
+ * The response value, or the reason the request failed. `warnings` lists
+ * what had to be dropped or repaired in a flow response (empty otherwise).
+ */
+export type ApiResult<T> = { ok: true; value: T; warnings: string[] } | { ok: false; error: ApiError };
+
+/**
+ * Parsed Response Type
+ *
+ * A response value with what had to be dropped or repaired in it.
+ */
+type Parsed<T> = { value: T; warnings: string[] };
+
+/**
+ * Flow API Options Interface
+ *
+ * @property baseUrl - URL the endpoint paths are appended to, e.g. "/api"
+ * @property fetch - Fetch implementation (the mock server's in development)
+ * @property retries - How many times a failed request is retried
+ * @property retryDelayMs - Delay before the first retry; doubled for every further one
+ * @property timeoutMs - Time after which a request counts as a network failure
+ */
+export interface FlowApiOptions {
+  baseUrl: string;
+  fetch?: typeof fetch;
+  retries?: number;
+  retryDelayMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Flow API Interface
+ *
+ * The operations of the flow backend.
+ */
+export interface FlowApi {
+  /** Lists the summaries of all flows on the server */
+  listFlows: () => Promise<ApiResult<RemoteFlowSummary[]>>;
+  /** Loads a flow */
+  getFlow: (id: string) => Promise<ApiResult<RemoteFlow>>;
+  /** Stores a flow the server does not have yet */
+  createFlow: (flow: SavedFlow) => Promise<ApiResult<RemoteFlow>>;
+  /** Overwrites a flow, provided the server still has version `version` */
+  updateFlow: (flow: SavedFlow, version: number) => Promise<ApiResult<RemoteFlow>>;
+  /** Deletes a flow, provided the server still has version `version` (if given) */
+  deleteFlow: (id: string, version?: number) => Promise<ApiResult<null>>;
+}
+
+/** Defaults of the retry and timeout options */
+export const FLOW_API_DEFAULTS = { retries: 3, retryDelayMs: 500, timeoutMs: 10000 };
+
+/** Longest delay (ms) between two attempts */
+const MAX_RETRY_DELAY_MS = 8000;
+
+/** Statuses worth retrying: timeouts, rate limiting and server errors */
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+/**
+ * Format Version Helper
+ *
+ * @param version - A flow version
+ * @returns The version as an entity tag, e.g. `"3"`
+ */
+export const formatETag = (version: number) => `"${version}"`;
+
+/**
+ * Parse ETag Helper
+ *
+ * @param etag - An `ETag` or `If-Match` header value
+ * @returns The version it names, or null for a missing or foreign tag
+ */
+export function parseETag(etag: string | null): number | null {
+  const match = etag?.match(/^(?:W\/)?"(\d+)"$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Delay Helper
+ *
+ * @param ms - Time to wait
+ * @returns A promise resolved after the time has passed
+ */
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Retry Delay Helper
+ *
+ * @param attempt - Number of the retry (0 for the first)
+ * @param baseMs - Delay before the first retry
+ * @param retryAfter - The response's `Retry-After` header, if any
+ * @returns Time to wait before the retry: the server's wish, or exponential
+ * backoff with jitter so that clients do not retry in lockstep
+ */
+function retryDelay(attempt: number, baseMs: number, retryAfter: string | null): number {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds)) return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS);
+  const backoff = Math.min(baseMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Parse Variables Helper
+ *
+ * @param value - The untrusted variable registry of a response
+ * @returns The entries that look like variables
+ */
+const parseVariables = (value: unknown): FlowVariable[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (v): v is FlowVariable =>
+          isObject(v) && typeof v.name === 'string' && typeof v.type === 'string' && typeof v.defaultValue === 'string'
+      )
+    : [];
+
+/**
+ * Parse Summary Helper
+ *
+ * @param value - An untrusted response value
+ * @returns The flow summary it describes, or null if it is malformed
+ */
+function parseSummary(value: unknown): RemoteFlowSummary | null {
+  if (!isObject(value)) return null;
+  const { id, name, createdAt, updatedAt, version } = value;
+  if (typeof id !== 'string' || typeof name !== 'string' || typeof version !== 'number') return null;
+  if (typeof createdAt !== 'number' || typeof updatedAt !== 'number') return null;
+  return { id, name, createdAt, updatedAt, version };
+}
+
+/**
+ * Parse Flow Helper
+ *
+ * Nodes and edges are checked like flows loaded from browser storage:
+ * anything invalid is dropped rather than failing the whole response.
+ *
+ * @param value - An untrusted response value
+ * @returns The flow it describes with what was dropped or repaired, or null if it is malformed
+ */
+function parseFlow(value: unknown): Parsed<RemoteFlow> | null {
+  const summary = parseSummary(value);
+  if (!summary || !isObject(value)) return null;
+
+  const { nodes, edges, dropped, repairs } = sanitizeGraph(value.nodes, value.edges);
+  return {
+    value: {
+      ...summary,
+      nodes,
+      edges,
+      variables: parseVariables(value.variables),
+      localization: parseLocalization(value.localization),
+      channels: parseChannels(value.channels),
+    },
+    warnings: [...dropped, ...repairs],
+  };
+}
+
+/**
+ * Request Body Helper
+ *
+ * @param flow - A flow to send
+ * @returns The JSON body, without UI-only node and edge properties
+ */
+const toBody = ({ id, name, createdAt, updatedAt, nodes, edges, variables, localization, channels }: SavedFlow) =>
+  JSON.stringify({
+    id,
+    name,
+    createdAt,
+    updatedAt,
+    nodes: nodes.map(stripTransient),
+    edges: edges.map(stripTransient),
+    variables,
+    localization,
+    channels,
+  });
+
+/**
+ * Create Flow API
+ *
+ * @param options - Where the server is and how requests are retried
+ * @returns A client for the flow backend
+ */
+export function createFlowApi(options: FlowApiOptions): FlowApi {
+  const {
+    baseUrl,
+    retries = FLOW_API_DEFAULTS.retries,
+    retryDelayMs = FLOW_API_DEFAULTS.retryDelayMs,
+    timeoutMs = FLOW_API_DEFAULTS.timeoutMs,
+  } = options;
+  // Resolved on every call, so a fetch replaced after creation is still used
+  const doFetch: typeof fetch = (input, init) => (options.fetch ?? fetch)(input, init);
+
+  /**
+   * Send Helper
+   *
+   * Sends a request, retrying network failures and retryable statuses.
+   *
+   * @param path - Endpoint path, e.g. "/flows/abc"
+   * @param init - Method, headers and body
+   * @returns The final response, or the network error of the last attempt
+   */
+  const send = async (path: string, init: RequestInit): Promise<Response | { error: string }> => {
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      let outcome: Response | { error: string };
+      try {
+        outcome = await doFetch(`${baseUrl}${path}`, {
+          ...init,
+          headers: { Accept: 'application/json', 'Content-Type': 'application/json', ...init.headers },
+          signal: controller.signal,
+        });
+      } catch (e) {
+        outcome = { error: controller.signal.aborted ? 'The server did not respond in time.' : String(e) };
+      } finally {
+        clearTimeout(timer);
+      }
+
+      const retryable = !(outcome instanceof Response) || isRetryableStatus(outcome.status);
+      if (!retryable || attempt >= retries) return outcome;
+      await delay(retryDelay(attempt, retryDelayMs, outcome instanceof Response ? outcome.headers.get('Retry-After') : null));
+    }
+  };
+
+  /**
+   * Read JSON Helper
+   *
+   * @param response - A response
+   * @returns Its parsed body, or undefined if it is not JSON
+   */
+  const readJson = async (response: Response): Promise<unknown> => {
+    try {
+      return await response.json();
+    } catch {
+      return undefined;
+    }
+  };
+
+  /**
+   * Request Helper
+   *
+   * Sends a request and turns the response into a result.
+   *
+   * @param path - Endpoint path
+   * @param init - Method, headers and body
+   * @param parse - Reads the value of a successful response (undefined if malformed)
+   * @returns The parsed value, or what went wrong
+   */
+  const request = async <T>(
+    path: string,
+    init: RequestInit,
+    parse: (body: unknown, response: Response) => Parsed<T> | undefined
+  ): Promise<ApiResult<T>> => {
+    const response = await send(path, init);
+    if (!(response instanceof Response)) {
+      return { ok: false, error: { kind: 'network', message: `Could not reach the server: ${response.error}` } };
+    }
+
+    const body = response.status === 204 ? undefined : await readJson(response);
+    if (response.ok) {
+      const parsed = parse(body, response);
+      if (parsed === undefined) return { ok: false, error: { kind: 'invalid', message: 'The server sent an unexpected response.' } };
+      return { ok: true, ...parsed };
+    }
+
+    const serverMessage = isObject(body) && typeof body.error === 'string' ? body.error : response.statusText;
+    if (response.status === 404) {
+      return { ok: false, error: { kind: 'not-found', message: serverMessage || 'The flow does not exist on the server.' } };
+    }
+    if (response.status === 409 || response.status === 412) {
+      const current = isObject(body) ? parseFlow(body.current) : null;
+      if (current) {
+        return {
+          ok: false,
+          error: {
+            kind: 'conflict',
+            message: 'The flow was changed on the server since it was last synced.',
+            current: current.value,
+            warnings: current.warnings,
+          },
+        };
+      }
+    }
+    return {
+      ok: false,
+      error: { kind: 'server', status: response.status, message: `The server answered ${response.status}: ${serverMessage}` },
+    };
+  };
+
+  /**
+   * Parse Flow Response Helper
+   *
+   * The `ETag` header, when present, is authoritative for the version.
+   *
+   * @param body - The response body
+   * @param response - The response
+   * @returns The flow with what was repaired in it, or undefined if it is malformed
+   */
+  const flowResponse = (body: unknown, response: Response): Parsed<RemoteFlow> | undefined => {
+    const parsed = parseFlow(body);
+    if (!parsed) return undefined;
+    const version = parseETag(response.headers.get('ETag'));
+    return version === null ? parsed : { ...parsed, value: { ...parsed.value, version } };
+  };
+
+  /** Path of a single flow's endpoint */
+  const flowPath = (id: string) => `/flows/${encodeURIComponent(id)}`;
+
+  return {
+    listFlows: () =>
+      request('/flows', { method: 'GET' }, (body) => {
+        if (!isObject(body) || !Array.isArray(body.flows)) return undefined;
+        return { value: body.flows.map(parseSummary).filter((s): s is RemoteFlowSummary => s !== null), warnings: [] };
+      }),
+
+    getFlow: (id) => request(flowPath(id), { method: 'GET' }, flowResponse),
+
+    createFlow: (flow) => request('/flows', { method: 'POST', body: toBody(flow) }, flowResponse),
+
+    updateFlow: (flow, version) =>
+      request(
+        flowPath(flow.id),
+        { method: 'PUT', body: toBody(flow), headers: { 'If-Match': formatETag(version) } },
+        flowResponse
+      ),
+
+    deleteFlow: (id, version) =>
+      request(
+        flowPath(id),
+        { method: 'DELETE', headers: version === undefined ? {} : { 'If-Match': formatETag(version) } },
+        () => ({ value: null, warnings: [] })
+      ),
+  };
+}
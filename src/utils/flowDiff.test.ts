@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { AppEdge, AppNode } from '../types/flow';
+import { countChanges, diffFlows, diffValues, overlayDiff, type DiffableFlow } from './flowDiff';
+import { DEFAULT_LOCALIZATION } from './localization';
+
+const textNode = (id: string, text = id): AppNode => ({
+  id,
+  type: 'text',
+  position: { x: 0, y: 0 },
+  data: { text, type: 'text' },
+});
+
+const edge = (source: string, target: string): AppEdge => ({ id: `${source}-${target}`, source, target });
+
+const flow = (fields: Partial<DiffableFlow> = {}): DiffableFlow => ({
+  name: 'Welcome',
+  nodes: [textNode('a'), textNode('b')],
+  edges: [edge('a', 'b')],
+  variables: [],
+  localization: DEFAULT_LOCALIZATION,
+  channels: [],
+  ...fields,
+});
+
+describe('diffValues', () => {
+  it('reports every differing leaf field by its path', () => {
+    expect(diffValues({ a: 1, b: { c: [1, 2] } }, { a: 1, b: { c: [1, 3] }, d: true })).toEqual([
+      { path: 'b.c.1', before: 2, after: 3 },
+      { path: 'd', before: undefined, after: true },
+    ]);
+  });
+
+  it('compares an object and an array as values', () => {
+    expect(diffValues({ a: {} }, { a: [] })).toEqual([{ path: 'a', before: {}, after: [] }]);
+  });
+});
+
+describe('diffFlows', () => {
+  it('finds nothing between equal versions', () => {
+    expect(countChanges(diffFlows(flow(), flow()))).toBe(0);
+  });
+
+  it('ignores selection and measured sizes', () => {
+    const after = flow({ nodes: [{ ...textNode('a'), selected: true, measured: { width: 10, height: 10 } }, textNode('b')] });
+    expect(countChanges(diffFlows(flow(), after))).toBe(0);
+  });
+
+  it('finds added, removed and modified nodes and edges', () => {
+    const after = flow({ nodes: [textNode('a', 'Hello'), textNode('c')], edges: [edge('a', 'c')] });
+    const diff = diffFlows(flow(), after);
+
+    expect(diff.nodes.added.map((n) => n.id)).toEqual(['c']);
+    expect(diff.nodes.removed.map((n) => n.id)).toEqual(['b']);
+    expect(diff.nodes.modified[0].changes).toEqual([{ path: 'data.text', before: 'a', after: 'Hello' }]);
+    expect(diff.edges).toMatchObject({ added: [{ id: 'a-c' }], removed: [{ id: 'a-b' }] });
+    expect(countChanges(diff)).toBe(5);
+  });
+
+  it('finds a rename, new channels and a new default locale, ignoring channel order', () => {
+    const before = flow({ channels: ['web', 'whatsapp'] });
+    expect(diffFlows(before, flow({ channels: ['whatsapp', 'web'] })).channels).toBeUndefined();
+
+    const after = flow({
+      name: 'Hello',
+      channels: ['web'],
+      localization: { defaultLocale: 'es', locales: [...DEFAULT_LOCALIZATION.locales, { code: 'es', required: true }] },
+    });
+    const diff = diffFlows(before, after);
+    expect(diff).toMatchObject({
+      name: { before: 'Welcome', after: 'Hello' },
+      defaultLocale: { before: 'en', after: 'es' },
+      channels: { before: ['web', 'whatsapp'], after: ['web'] },
+      locales: { added: [{ code: 'es' }] },
+    });
+    expect(countChanges(diff)).toBe(4);
+  });
+
+  it('matches variables by name', () => {
+    const before = flow({ variables: [{ name: 'city', type: 'string', defaultValue: '', description: '' }] });
+    const after = flow({ variables: [{ name: 'city', type: 'string', defaultValue: 'Paris', description: '' }] });
+    expect(diffFlows(before, after).variables.modified[0].changes).toEqual([
+      { path: 'defaultValue', before: '', after: 'Paris' },
+    ]);
+  });
+});
+
+describe('overlayDiff', () => {
+  it('shows the newer version plus what was removed, marked by kind', () => {
+    const overlay = overlayDiff(flow(), flow({ nodes: [textNode('a', 'Hello'), textNode('c')], edges: [] }));
+    expect(overlay.nodes.map((n) => n.id)).toEqual(['a', 'c', 'b']);
+    expect(overlay.edges.map((e) => e.id)).toEqual(['a-b']);
+    expect(Object.fromEntries(overlay.nodeChanges)).toEqual({ a: 'modified', b: 'removed', c: 'added' });
+    expect(overlay.edgeChanges.get('a-b')).toBe('removed');
+  });
+});
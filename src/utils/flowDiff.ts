@@ -0,0 +1,231 @@
+/**
+ * Flow Diff Utility
+ *
+ * This module compares two versions of a flow and describes what changed
+ * between them: nodes added, removed or modified (down to the individual
+ * data fields), edges added, removed or modified, variables added, removed
+ * or modified, locales added, removed or modified, a changed default locale,
+ * changed target channels and a renamed flow.
+ *
+ * Nodes, edges, variables and locales are matched by their ID (variables by
+ * name, locales by code),
+ * so a node that was deleted and re-created counts as removed and added.
+ * UI-only properties (selection, measured size) are ignored.
+ */
+
+import type { AppEdge, AppNode, ChannelId, FlowLocale, FlowState, FlowVariable } from '../types/flow';
+import { stripTransient } from './flowFile';
+import { isObject } from './valueChecks';
+
+/**
+ * Field Change Interface
+ *
+ * @property path - Dotted path of the field, e.g. "data.buttons.0.label"
+ * @property before - Value in the older version (undefined if absent)
+ * @property after - Value in the newer version (undefined if absent)
+ */
+export interface FieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Item Change Interface
+ *
+ * A node, edge or variable present in both versions with different fields.
+ */
+export interface ItemChange<T> {
+  before: T;
+  after: T;
+  changes: FieldChange[];
+}
+
+/**
+ * Collection Diff Interface
+ *
+ * Differences between two versions of a list of items.
+ */
+export interface CollectionDiff<T> {
+  added: T[];
+  removed: T[];
+  modified: ItemChange<T>[];
+}
+
+/** Kind of difference of an item */
+export type ChangeKind = 'added' | 'removed' | 'modified';
+
+/**
+ * Flow Diff Interface
+ *
+ * @property name - The old and new name, if the flow was renamed
+ * @property defaultLocale - The old and new default locale, if it changed
+ * @property channels - The old and new target channels, if they changed
+ */
+export interface FlowDiff {
+  name?: { before: string; after: string };
+  defaultLocale?: { before: string; after: string };
+  channels?: { before: ChannelId[]; after: ChannelId[] };
+  nodes: CollectionDiff<AppNode>;
+  edges: CollectionDiff<AppEdge>;
+  variables: CollectionDiff<FlowVariable>;
+  locales: CollectionDiff<FlowLocale>;
+}
+
+/**
+ * Diffable Flow Type
+ *
+ * A flow version to compare, optionally with its name.
+ */
+export type DiffableFlow = FlowState & { name?: string };
+
+/**
+ * Diff Values
+ *
+ * Compares two JSON-like values field by field. Objects and arrays are
+ * descended into; anything else is compared by value.
+ *
+ * @param before - The older value
+ * @param after - The newer value
+ * @param path - Path of the values, prefixed to the reported paths
+ * @returns One change per differing leaf field
+ */
+export function diffValues(before: unknown, after: unknown, path = ''): FieldChange[] {
+  const container = (value: unknown) => isObject(value) || Array.isArray(value);
+  if (!container(before) || !container(after) || Array.isArray(before) !== Array.isArray(after)) {
+    return Object.is(before, after) ? [] : [{ path, before, after }];
+  }
+
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+  return keys.flatMap((key) => diffValues(a[key], b[key], path ? `${path}.${key}` : key));
+}
+
+/**
+ * Diff Collection Helper
+ *
+ * @param before - Items of the older version
+ * @param after - Items of the newer version
+ * @param keyOf - Identifies an item across versions
+ * @returns The added, removed and modified items
+ */
+function diffCollection<T extends object>(before: T[], after: T[], keyOf: (item: T) => string): CollectionDiff<T> {
+  const old = new Map(before.map((item) => [keyOf(item), item]));
+  const next = new Map(after.map((item) => [keyOf(item), item]));
+
+  const modified = after.flatMap((item): ItemChange<T>[] => {
+    const previous = old.get(keyOf(item));
+    if (!previous) return [];
+    const changes = diffValues(stripTransient(previous), stripTransient(item));
+    return changes.length > 0 ? [{ before: previous, after: item, changes }] : [];
+  });
+
+  return {
+    added: after.filter((item) => !old.has(keyOf(item))),
+    removed: before.filter((item) => !next.has(keyOf(item))),
+    modified,
+  };
+}
+
+/**
+ * Diff Flows
+ *
+ * @param before - The older version of the flow
+ * @param after - The newer version of the flow
+ * @returns What changed from `before` to `after`
+ */
+export function diffFlows(before: DiffableFlow, after: DiffableFlow): FlowDiff {
+  const name =
+    before.name !== undefined && after.name !== undefined && before.name !== after.name
+      ? { before: before.name, after: after.name }
+      : undefined;
+  const defaultLocale =
+    before.localization.defaultLocale !== after.localization.defaultLocale
+      ? { before: before.localization.defaultLocale, after: after.localization.defaultLocale }
+      : undefined;
+  // Channels are a set; their order carries no meaning
+  const channels =
+    [...before.channels].sort().join() !== [...after.channels].sort().join()
+      ? { before: before.channels, after: after.channels }
+      : undefined;
+  return {
+    ...(name && { name }),
+    ...(defaultLocale && { defaultLocale }),
+    ...(channels && { channels }),
+    nodes: diffCollection(before.nodes, after.nodes, (n) => n.id),
+    edges: diffCollection(before.edges, after.edges, (e) => e.id),
+    variables: diffCollection(before.variables, after.variables, (v) => v.name),
+    locales: diffCollection(before.localization.locales, after.localization.locales, (l) => l.code),
+  };
+}
+
+/**
+ * Count Changes
+ *
+ * @param diff - A flow diff
+ * @returns Number of changed items (a rename, a new default locale or new channels count as one)
+ */
+export function countChanges(diff: FlowDiff): number {
+  const size = ({ added, removed, modified }: CollectionDiff<unknown>) =>
+    added.length + removed.length + modified.length;
+  return (
+    (diff.name ? 1 : 0) +
+    (diff.defaultLocale ? 1 : 0) +
+    (diff.channels ? 1 : 0) +
+    size(diff.nodes) +
+    size(diff.edges) +
+    size(diff.variables) +
+    size(diff.locales)
+  );
+}
+
+/**
+ * Diff Overlay Interface
+ *
+ * Both versions of a flow merged into one graph for display: everything in
+ * the newer version plus what was removed from the older one.
+ *
+ * @property nodeChanges - Kind of difference per node ID (unchanged nodes are absent)
+ * @property edgeChanges - Kind of difference per edge ID (unchanged edges are absent)
+ */
+export interface DiffOverlay {
+  nodes: AppNode[];
+  edges: AppEdge[];
+  nodeChanges: Map<string, ChangeKind>;
+  edgeChanges: Map<string, ChangeKind>;
+}
+
+/**
+ * Change Kinds Helper
+ *
+ * @param diff - Differences of one kind of item
+ * @param keyOf - Identifies an item
+ * @returns Kind of difference per item key
+ */
+function changeKinds<T>(diff: CollectionDiff<T>, keyOf: (item: T) => string): Map<string, ChangeKind> {
+  return new Map([
+    ...diff.added.map((item) => [keyOf(item), 'added'] as const),
+    ...diff.removed.map((item) => [keyOf(item), 'removed'] as const),
+    ...diff.modified.map(({ after }) => [keyOf(after), 'modified'] as const),
+  ]);
+}
+
+/**
+ * Overlay Diff
+ *
+ * Removed nodes keep their old position, changed nodes take the new one.
+ *
+ * @param before - The older version of the flow
+ * @param after - The newer version of the flow
+ * @returns Both versions merged into one graph, with the kind of every difference
+ */
+export function overlayDiff(before: DiffableFlow, after: DiffableFlow): DiffOverlay {
+  const diff = diffFlows(before, after);
+  return {
+    nodes: [...after.nodes, ...diff.nodes.removed],
+    edges: [...after.edges, ...diff.edges.removed],
+    nodeChanges: changeKinds(diff.nodes, (n) => n.id),
+    edgeChanges: changeKinds(diff.edges, (e) => e.id),
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppNode } from '../types/flow';
+import { parseFlowFile, serializeFlow } from './flowFile';
+import { FLOW_SCHEMA_VERSION } from './flowMigrations';
+import { DEFAULT_LOCALIZATION } from './localization';
+
+const textNode = (id: string): AppNode => ({
+  id,
+  type: 'text',
+  position: { x: 0, y: 0 },
+  data: { text: id, type: 'text' },
+  selected: true,
+});
+
+describe('serializeFlow and parseFlowFile', () => {
+  it('round-trips a flow without its UI state', () => {
+    const text = serializeFlow(
+      'Greeting',
+      [textNode('a'), textNode('b')],
+      [{ id: 'a-b', source: 'a', target: 'b' }],
+      [],
+      DEFAULT_LOCALIZATION,
+      ['whatsapp']
+    );
+    const result = parseFlowFile(text);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.file.schemaVersion).toBe(FLOW_SCHEMA_VERSION);
+    expect(result.file.meta.name).toBe('Greeting');
+    expect(result.file.nodes.map((n) => n.id)).toEqual(['a', 'b']);
+    expect(result.file.nodes[0]).not.toHaveProperty('selected');
+    expect(result.file.channels).toEqual(['whatsapp']);
+    expect(result.warnings).toEqual([]);
+  });
+});
+
+describe('parseFlowFile', () => {
+  it('upgrades old files and says so', () => {
+    const result = parseFlowFile(JSON.stringify({ nodes: [textNode('a')], edges: [] }));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.warnings).toEqual([`Upgraded from schema version 0 to ${FLOW_SCHEMA_VERSION}.`]);
+  });
+
+  it('rejects files that are not JSON objects', () => {
+    expect(parseFlowFile('{').ok).toBe(false);
+    expect(parseFlowFile('[]')).toMatchObject({ ok: false, errors: ['File root: expected an object, got an array'] });
+  });
+
+  it('reports edges that reference missing nodes', () => {
+    const result = parseFlowFile(JSON.stringify({ nodes: [textNode('a')], edges: [{ id: 'e', source: 'a', target: 'b' }] }));
+    expect(result).toMatchObject({ ok: false, errors: ['edges[0].target: references missing node "b"'] });
+  });
+
+  it('offers to repair missing fields and fills them in when asked', () => {
+    const text = JSON.stringify({ nodes: [{ id: 'a', type: 'text', data: { text: 'Hi', type: 'text' } }], edges: [] });
+
+    expect(parseFlowFile(text)).toMatchObject({ ok: false, repairable: true });
+
+    const repaired = parseFlowFile(text, { repair: true });
+    expect(repaired.ok).toBe(true);
+    if (!repaired.ok) return;
+    expect(repaired.file.nodes[0].position).toEqual({ x: 0, y: 0 });
+    expect(repaired.warnings).toContain('Filled in 1 missing field with defaults.');
+  });
+});
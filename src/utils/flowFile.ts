@@ -0,0 +1,276 @@
+/**
+ * Flow File Utility
+ *
+ * This module converts flows to and from the versioned JSON file format used
+ * by the Export and Import actions.
+ *
+ * File Format (schema version 4):
+ * ```json
+ * {
+ *   "schemaVersion": 4,
+ *   "meta": { "name": "Support bot", "exportedAt": "2025-01-01T00:00:00.000Z", "generator": "bitespeed-flow-builder" },
+ *   "nodes": [{ "id": "text-1", "type": "text", "position": { "x": 0, "y": 0 }, "data": { "text": "Hi", "type": "text" } }],
+ *   "edges": [{ "id": "edge-1", "source": "text-1", "target": "text-2", "sourceHandle": "right", "targetHandle": "left" }],
+ *   "variables": [{ "name": "customer_name", "type": "string", "defaultValue": "there", "description": "First name" }],
+ *   "localization": { "defaultLocale": "en", "locales": [{ "code": "en", "required": true }, { "code": "hi", "required": true }] },
+ *   "channels": ["whatsapp", "web"]
+ * }
+ * ```
+ *
+ * Importing parses the JSON, runs it through the migration chain and then
+ * validates every node, edge and variable, the localization and the
+ * channels; nodes and edges are checked against their runtime schemas (see schemaChecks.ts). Nothing reaches the
+ * store unless the whole file is valid; otherwise a list of readable,
+ * path-based errors is returned. Files whose only problems are missing
+ * fields can be repaired by filling in defaults.
+ */
+
+import type { AppNode, AppEdge, ChannelId, FlowFile, FlowLocalization, FlowVariable } from '../types/flow';
+import { FLOW_SCHEMA_VERSION, migrateFlowFile, type RawFlowFile } from './flowMigrations';
+import { checkLocalization } from './localization';
+import { checkChannels } from './channels';
+import { checkEdge, checkNode, type SchemaCheckOptions } from './schemaChecks';
+import { describe, isObject } from './valueChecks';
+import { VARIABLE_NAME_PATTERN } from './variables';
+
+/** Identifies files written by this application */
+const GENERATOR = 'bitespeed-flow-builder';
+
+/** Node and edge properties that only describe UI state and are not exported */
+const TRANSIENT_KEYS = ['selected', 'dragging', 'measured', 'resizing'];
+
+/**
+ * Flow Import Result Type
+ *
+ * Defines the structure of the result returned by parseFlowFile.
+ */
+export type FlowImportResult =
+  | { ok: true; file: FlowFile; warnings: string[] }
+  | { ok: false; errors: string[]; repairable: boolean };
+
+/**
+ * Strip Transient
+ *
+ * @param item - A node or edge
+ * @returns A copy without UI-only properties (selection, measured size)
+ */
+export function stripTransient<T extends object>(item: T): T {
+  const copy = { ...item } as Record<string, unknown>;
+  TRANSIENT_KEYS.forEach((key) => delete copy[key]);
+  return copy as T;
+}
+
+/**
+ * Create Flow File
+ *
+ * Wraps a flow in the current versioned envelope.
+ *
+ * @param name - Name of the flow
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges connecting the nodes
+ * @param variables - The flow's variable registry
+ * @param localization - The flow's languages
+ * @param channels - The channels the flow targets
+ * @returns The flow file object
+ */
+export function createFlowFile(
+  name: string,
+  nodes: AppNode[],
+  edges: AppEdge[],
+  variables: FlowVariable[],
+  localization: FlowLocalization,
+  channels: ChannelId[]
+): FlowFile {
+  return {
+    schemaVersion: FLOW_SCHEMA_VERSION,
+    meta: { name, exportedAt: new Date().toISOString(), generator: GENERATOR },
+    nodes: nodes.map(stripTransient),
+    edges: edges.map(stripTransient),
+    variables,
+    localization,
+    channels,
+  };
+}
+
+/**
+ * Serialize Flow
+ *
+ * @param name - Name of the flow
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges connecting the nodes
+ * @param variables - The flow's variable registry
+ * @param localization - The flow's languages
+ * @param channels - The channels the flow targets
+ * @returns Pretty-printed JSON suitable for checking into git
+ */
+export function serializeFlow(
+  name: string,
+  nodes: AppNode[],
+  edges: AppEdge[],
+  variables: FlowVariable[],
+  localization: FlowLocalization,
+  channels: ChannelId[]
+): string {
+  return JSON.stringify(createFlowFile(name, nodes, edges, variables, localization, channels), null, 2) + '\n';
+}
+
+/**
+ * Checked Flow File Interface
+ *
+ * Result of checking a migrated file against the current schema.
+ */
+interface CheckedFlowFile {
+  /** Problems found (empty if the file is valid) */
+  errors: string[];
+  /** Fields that were filled in with defaults */
+  repairs: string[];
+  /** The parsed nodes (only complete if there are no errors) */
+  nodes: AppNode[];
+  /** The parsed edges (only complete if there are no errors) */
+  edges: AppEdge[];
+}
+
+/**
+ * Check Flow File Helper
+ *
+ * Checks a migrated file against the current schema: every node and edge
+ * against its runtime schema, plus the references between them, the
+ * variable registry, the localization and the channels.
+ *
+ * @param file - Raw flow file at the current schema version
+ * @param options - Whether to fill in missing node and edge fields with defaults
+ * @returns The problems found, the repairs made and the parsed nodes and edges
+ */
+function checkFlowFile(file: RawFlowFile, options: SchemaCheckOptions): CheckedFlowFile {
+  const result: CheckedFlowFile = { errors: [], repairs: [], nodes: [], edges: [] };
+  const { errors } = result;
+
+  if (!isObject(file.meta) || typeof file.meta.name !== 'string') {
+    errors.push(`meta.name: expected a string, got ${describe(isObject(file.meta) ? file.meta.name : file.meta)}`);
+  }
+  if (!Array.isArray(file.nodes)) errors.push(`nodes: expected an array, got ${describe(file.nodes)}`);
+  if (!Array.isArray(file.edges)) errors.push(`edges: expected an array, got ${describe(file.edges)}`);
+  if (!Array.isArray(file.variables)) errors.push(`variables: expected an array, got ${describe(file.variables)}`);
+  if (errors.length > 0) return result;
+
+  // Check nodes and collect their IDs for the edge checks
+  const nodeIds = new Set<string>();
+  (file.nodes as unknown[]).forEach((value, i) => {
+    const checked = checkNode(value, `nodes[${i}]`, options);
+    if (!checked.ok) {
+      errors.push(...checked.errors);
+      return;
+    }
+    const node = checked.value;
+    if (nodeIds.has(node.id)) {
+      errors.push(`nodes[${i}].id: duplicate node ID "${node.id}"`);
+    }
+    nodeIds.add(node.id);
+    result.nodes.push(node);
+    result.repairs.push(...checked.repairs);
+  });
+
+  // Check edges, including that they point at existing nodes
+  const edgeIds = new Set<string>();
+  (file.edges as unknown[]).forEach((value, i) => {
+    const path = `edges[${i}]`;
+    const checked = checkEdge(value, path, options);
+    if (!checked.ok) {
+      errors.push(...checked.errors);
+      return;
+    }
+    const edge = checked.value;
+    if (edgeIds.has(edge.id)) {
+      errors.push(`${path}.id: duplicate edge ID "${edge.id}"`);
+    }
+    edgeIds.add(edge.id);
+    (['source', 'target'] as const).forEach((end) => {
+      if (!nodeIds.has(edge[end])) errors.push(`${path}.${end}: references missing node "${edge[end]}"`);
+    });
+    result.edges.push(edge);
+    result.repairs.push(...checked.repairs);
+  });
+
+  // Validate the variable registry
+  const variableNames = new Set<string>();
+  (file.variables as unknown[]).forEach((variable, i) => {
+    const path = `variables[${i}]`;
+    if (!isObject(variable)) {
+      errors.push(`${path}: expected an object, got ${describe(variable)}`);
+      return;
+    }
+    if (typeof variable.name !== 'string' || !VARIABLE_NAME_PATTERN.test(variable.name)) {
+      errors.push(`${path}.name: expected a variable name like "order_id", got ${describe(variable.name)}`);
+    } else if (variableNames.has(variable.name)) {
+      errors.push(`${path}.name: duplicate variable "${variable.name}"`);
+    } else {
+      variableNames.add(variable.name);
+    }
+    if (!['string', 'number', 'boolean'].includes(variable.type as string)) {
+      errors.push(`${path}.type: expected "string", "number" or "boolean", got ${describe(variable.type)}`);
+    }
+    (['defaultValue', 'description'] as const).forEach((key) => {
+      if (typeof variable[key] !== 'string') {
+        errors.push(`${path}.${key}: expected a string, got ${describe(variable[key])}`);
+      }
+    });
+  });
+
+  errors.push(...checkLocalization(file.localization));
+  errors.push(...checkChannels(file.channels));
+
+  return result;
+}
+
+/**
+ * Parse Flow File
+ *
+ * Parses, migrates and validates the contents of an imported flow file.
+ *
+ * With `repair`, nodes and edges with missing fields are filled in with
+ * defaults before they are checked, and the warnings say how many fields
+ * were filled in. Without it, a failed result reports whether importing with
+ * `repair` would succeed, so the user can be offered that option.
+ *
+ * @param text - The file contents
+ * @param options - Whether to repair missing node and edge fields
+ * @returns FlowImportResult with the flow file or a list of errors
+ */
+export function parseFlowFile(text: string, options: SchemaCheckOptions = {}): FlowImportResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, errors: [`File is not valid JSON: ${(err as Error).message}`], repairable: false };
+  }
+
+  if (!isObject(raw)) {
+    return { ok: false, errors: [`File root: expected an object, got ${describe(raw)}`], repairable: false };
+  }
+
+  const migration = migrateFlowFile(raw);
+  if (!migration.ok || !migration.file) {
+    return { ok: false, errors: [migration.message ?? 'Migration failed.'], repairable: false };
+  }
+
+  const checked = checkFlowFile(migration.file, options);
+  if (checked.errors.length > 0) {
+    const repairable = !options.repair && checkFlowFile(migration.file, { repair: true }).errors.length === 0;
+    return { ok: false, errors: checked.errors, repairable };
+  }
+
+  const warnings =
+    migration.fromVersion < FLOW_SCHEMA_VERSION
+      ? [`Upgraded from schema version ${migration.fromVersion} to ${FLOW_SCHEMA_VERSION}.`]
+      : [];
+  if (checked.repairs.length > 0) {
+    warnings.push(`Filled in ${checked.repairs.length} missing ${checked.repairs.length === 1 ? 'field' : 'fields'} with defaults.`);
+  }
+
+  const file = migration.file as unknown as FlowFile;
+  return {
+    ok: true,
+    file: { ...file, nodes: checked.nodes.map(stripTransient), edges: checked.edges.map(stripTransient) },
+    warnings,
+  };
+}
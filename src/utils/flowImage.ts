@@ -0,0 +1,592 @@
+/**
+ * Flow Image Utility
+ *
+ * This module draws a flow as a standalone SVG image, and turns that image
+ * into a PNG, for pasting flows into design docs and PR descriptions.
+ *
+ * The image is drawn from the flow data rather than copied from the page,
+ * so it needs no fonts or styles from the app and never depends on what is
+ * scrolled into view. Nodes keep the look they have on the canvas:
+ * - Text and file upload nodes are drawn like TextNode and FileUploadNode
+ *   (white card, colored border, icon, title, message or upload details)
+ * - Other node types are drawn as cards in their palette color, with their
+ *   message and the names of their outgoing handles
+ * - Groups are dashed frames (or compact cards while collapsed), sticky
+ *   notes are colored paper with their text
+ * - Edges are the canvas' blue bezier curves with arrows and labels
+ *
+ * Collapsed groups are drawn as on the canvas: their members are hidden and
+ * the edges crossing their border start or end at the group.
+ *
+ * Text is wrapped by estimating character widths, since SVG has no text
+ * layout; every node clips its content to its own box.
+ */
+
+import { getBezierPath, Position } from '@xyflow/react';
+import type { AppEdge, AppNode } from '../types/flow';
+import { DEFAULT_NODE_SIZE } from './autoLayout';
+import { EDGE_COLOR } from './edges';
+import { COLLAPSED_GROUP_SIZE, GROUP_HEADER_HEIGHT, getAbsolutePosition, getGroupOwners, isGroupNode, liftEdge } from './groups';
+import { parseMarkdown, type MarkdownInline } from './markdown';
+import { getNodeType, getSourceHandleIds, getSourceHandleLabel, isAnnotationNode } from './nodeRegistry';
+import { NOTE_COLOR_STYLES } from './noteColors';
+
+/** Space (px) around the drawn nodes */
+const IMAGE_PADDING = 40;
+
+/** Distance (px) between the dots of the background grid, as on the canvas */
+const GRID_GAP = 20;
+
+/** Font of all text in the image */
+const FONT_FAMILY = 'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, sans-serif';
+
+/** Average character width, as a share of the font size, used to wrap text */
+const CHAR_WIDTH = 0.56;
+
+/**
+ * Image Handle Interface
+ *
+ * A connection handle of a node, as measured on the canvas.
+ *
+ * @property type - Whether edges start (source) or end (target) here
+ * @property id - ID of the handle
+ * @property x - Horizontal center of the handle, relative to the node
+ * @property y - Vertical center of the handle, relative to the node
+ */
+export interface ImageHandle {
+  type: 'source' | 'target';
+  id: string | null;
+  x: number;
+  y: number;
+}
+
+/**
+ * Flow Image Options Interface
+ *
+ * @property nodeIds - Only draw these nodes and the edges between them (all nodes if omitted)
+ * @property scale - Size of the image relative to the canvas at 100% zoom
+ * @property background - Whether to draw the dotted background grid
+ * @property notes - Whether to draw sticky notes
+ * @property getHandles - Handles of a node as measured on the canvas; handles of
+ *   nodes it knows nothing about are placed on the left and right borders
+ */
+export interface FlowImageOptions {
+  nodeIds?: ReadonlySet<string>;
+  scale: number;
+  background: boolean;
+  notes: boolean;
+  getHandles?: (nodeId: string) => ImageHandle[] | undefined;
+}
+
+/**
+ * Flow Image Interface
+ *
+ * @property svg - The SVG document
+ * @property width - Width of the image in pixels
+ * @property height - Height of the image in pixels
+ */
+export interface FlowImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+/** A node as it is drawn: its place on the image and its handles */
+type Box = { node: AppNode; x: number; y: number; width: number; height: number; handles: ImageHandle[] };
+
+/**
+ * Escape Helper
+ *
+ * @param text - Text to put into the SVG
+ * @returns The text with XML special characters escaped
+ */
+const esc = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Wrap Text Helper
+ *
+ * @param text - Text to wrap; line breaks are kept
+ * @param width - Width (px) available for the text
+ * @param fontSize - Font size (px) of the text
+ * @returns The text split into lines that fit the width
+ */
+export function wrapText(text: string, width: number, fontSize: number): string[] {
+  const perLine = Math.max(1, Math.floor(width / (fontSize * CHAR_WIDTH)));
+  return text.split('\n').flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).forEach((word) => {
+      // Words longer than a line are broken up
+      while (word.length > perLine) {
+        if (line) lines.push(line);
+        lines.push(word.slice(0, perLine));
+        word = word.slice(perLine);
+        line = '';
+      }
+      if (!line) line = word;
+      else if (line.length + 1 + word.length <= perLine) line += ` ${word}`;
+      else {
+        lines.push(line);
+        line = word;
+      }
+    });
+    lines.push(line);
+    return lines;
+  });
+}
+
+/**
+ * Text Helper
+ *
+ * @param lines - Lines of text
+ * @param x - Left edge of the text
+ * @param y - Top of the first line
+ * @param attrs - Font size, line height, color and other text attributes
+ * @returns An SVG text element with one line per tspan
+ */
+function textBlock(
+  lines: string[],
+  x: number,
+  y: number,
+  attrs: { size: number; lineHeight: number; color: string; weight?: number; anchor?: 'start' | 'middle' | 'end' }
+): string {
+  const baseline = y + (attrs.lineHeight + attrs.size * 0.7) / 2;
+  const tspans = lines
+    .map((line, i) => `<tspan x="${x}" y="${baseline + i * attrs.lineHeight}">${esc(line)}</tspan>`)
+    .join('');
+  return `<text font-size="${attrs.size}" fill="${attrs.color}" font-weight="${attrs.weight ?? 400}" text-anchor="${
+    attrs.anchor ?? 'start'
+  }">${tspans}</text>`;
+}
+
+/**
+ * Header Helper
+ *
+ * Draws the icon and title row that every card starts with.
+ *
+ * @param x - Left edge of the card's content
+ * @param y - Top of the card's content
+ * @param iconPath - SVG path of the icon (24×24)
+ * @param background - Color of the icon circle
+ * @param color - Color of the icon and title
+ * @param title - Title of the card
+ * @param backgroundOpacity - Opacity of the icon circle
+ * @returns The header's SVG elements
+ */
+function header(
+  x: number,
+  y: number,
+  iconPath: string,
+  background: string,
+  color: string,
+  title: string,
+  backgroundOpacity = 1
+): string {
+  return [
+    `<circle cx="${x + 12}" cy="${y + 12}" r="12" fill="${background}" fill-opacity="${backgroundOpacity}"/>`,
+    `<path d="${iconPath}" transform="translate(${x + 4} ${y + 4}) scale(${16 / 24})" fill="none" stroke="${color}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>`,
+    textBlock([title], x + 32, y + 2, { size: 14, lineHeight: 20, color, weight: 600 }),
+  ].join('');
+}
+
+/**
+ * Card Helper
+ *
+ * @param box - The node's place on the image
+ * @param border - Border color
+ * @param fill - Background color
+ * @returns A rounded card with the canvas' node shadow
+ */
+const card = (box: Box, border: string, fill = '#FFFFFF') =>
+  `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="8" fill="${fill}" stroke="${border}" stroke-width="2" filter="url(#node-shadow)"/>`;
+
+/**
+ * Message Box Helper
+ *
+ * Draws the gray box text nodes show their message in.
+ *
+ * @param text - The message
+ * @param x - Left edge of the box
+ * @param y - Top of the box
+ * @param width - Width of the box
+ * @param maxHeight - Height (px) the box may take at most
+ * @returns The box's SVG elements and its height
+ */
+function messageBox(text: string, x: number, y: number, width: number, maxHeight: number): [string, number] {
+  const fits = Math.max(1, Math.floor((maxHeight - 16) / 16));
+  const lines = wrapText(text || 'Empty message', width - 16, 12).slice(0, fits);
+  const height = lines.length * 16 + 16;
+  return [
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="4" fill="#F9FAFB" stroke="#E5E7EB"/>` +
+      textBlock(lines, x + 8, y + 8, { size: 12, lineHeight: 16, color: '#374151' }),
+    height,
+  ];
+}
+
+/**
+ * Draw Text Node Helper
+ *
+ * @param box - A text node's place on the image
+ * @returns The node drawn like TextNode
+ */
+function drawTextNode(box: Box): string {
+  if (box.node.type !== 'text') return '';
+  const { x, y, width } = box;
+  const palette = getNodeType('text')?.palette;
+  const [message] = messageBox(box.node.data.text, x + 12, y + 68, width - 24, box.height - 80);
+  return [
+    card(box, '#93C5FD'),
+    header(x + 12, y + 12, palette?.iconPath ?? '', '#DBEAFE', '#2563EB', 'Text Message'),
+    textBlock(['Message:'], x + 12, y + 44, { size: 12, lineHeight: 16, color: '#4B5563', weight: 500 }),
+    message,
+  ].join('');
+}
+
+/**
+ * Draw File Upload Node Helper
+ *
+ * @param box - A file upload node's place on the image
+ * @returns The node drawn like FileUploadNode
+ */
+function drawFileUploadNode(box: Box): string {
+  if (box.node.type !== 'fileUpload') return '';
+  const { x, y, width } = box;
+  const { label, allowedTypes, maxSize, multiple } = box.node.data;
+  const palette = getNodeType('fileUpload')?.palette;
+  const details: [string, string][] = [
+    ['Label:', label || 'Upload Files'],
+    ['Types:', allowedTypes.length === 0 ? 'All files' : allowedTypes.map((t) => t.toUpperCase()).join(', ')],
+    ['Max Size:', `${maxSize}MB`],
+    ['Multiple:', multiple ? 'Yes' : 'No'],
+  ];
+  const perLine = Math.floor((width - 24) / (12 * CHAR_WIDTH));
+  const rows = details
+    .map(([name, value], i) => {
+      const text = `${name} ${value}`;
+      const shown = text.length > perLine ? `${text.slice(0, perLine - 1)}…` : text;
+      return `<text font-size="12" fill="#4B5563" x="${x + 12}" y="${y + 56 + i * 20}"><tspan font-weight="500">${esc(
+        name
+      )}</tspan>${esc(shown.slice(name.length))}</text>`;
+    })
+    .join('');
+  const areaY = y + 128;
+  return [
+    card(box, '#86EFAC'),
+    header(x + 12, y + 12, palette?.iconPath ?? '', '#DCFCE7', '#16A34A', 'File Upload'),
+    rows,
+    `<rect x="${x + 12}" y="${areaY}" width="${width - 24}" height="32" rx="4" fill="#F9FAFB" stroke="#D1D5DB" stroke-dasharray="4 3"/>`,
+    textBlock([label || 'Click to upload files'], x + width / 2, areaY + 8, {
+      size: 12,
+      lineHeight: 16,
+      color: '#6B7280',
+      anchor: 'middle',
+    }),
+  ].join('');
+}
+
+/**
+ * Draw Group Helper
+ *
+ * @param box - A group's place on the image
+ * @param hiddenCount - Number of members hidden inside it, if it is collapsed
+ * @returns The group as a dashed frame, or as a compact card while collapsed
+ */
+function drawGroup(box: Box, hiddenCount: number): string {
+  if (!isGroupNode(box.node)) return '';
+  const { x, y, width, height } = box;
+  const title = box.node.data.label || 'Untitled group';
+  if (box.node.data.collapsed) {
+    return [
+      card(box, '#94A3B8', '#F8FAFC'),
+      textBlock([title], x + 32, y + 12, { size: 14, lineHeight: 20, color: '#334155', weight: 600 }),
+      textBlock([`${hiddenCount} ${hiddenCount === 1 ? 'node' : 'nodes'} hidden`], x + 32, y + 36, {
+        size: 12,
+        lineHeight: 16,
+        color: '#64748B',
+      }),
+    ].join('');
+  }
+  return [
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="8" fill="#F1F5F9" fill-opacity="0.4" stroke="#94A3B8" stroke-width="2" stroke-dasharray="6 4"/>`,
+    textBlock([title], x + 28, y + (GROUP_HEADER_HEIGHT - 20) / 2, { size: 14, lineHeight: 20, color: '#334155', weight: 600 }),
+  ].join('');
+}
+
+/**
+ * Plain Text Helper
+ *
+ * @param runs - Runs of a markdown block
+ * @returns The runs' text without formatting
+ */
+const plain = (runs: MarkdownInline[]): string =>
+  runs.map((run) => (run.kind === 'text' || run.kind === 'code' ? run.text : plain(run.children))).join('');
+
+/**
+ * Draw Note Helper
+ *
+ * @param box - A sticky note's place on the image
+ * @returns The note as colored paper with its text (headings in bold)
+ */
+function drawNote(box: Box): string {
+  if (box.node.type !== 'note') return '';
+  const { x, y, width, height } = box;
+  const { background, border } = NOTE_COLOR_STYLES[box.node.data.color];
+  let top = y + 12;
+  const blocks = parseMarkdown(box.node.data.text).map((block) => {
+    const items =
+      block.kind === 'list'
+        ? block.items.map((item, i) => `${block.ordered ? `${i + 1}.` : '•'} ${plain(item)}`)
+        : [plain(block.content)];
+    const lines = items.flatMap((item) => wrapText(item, width - 24, 14));
+    const svg = textBlock(lines, x + 12, top, {
+      size: 14,
+      lineHeight: 20,
+      color: '#1F2937',
+      weight: block.kind === 'heading' ? 700 : 400,
+    });
+    top += lines.length * 20 + 4;
+    return svg;
+  });
+  return [
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="4" fill="${background}" filter="url(#node-shadow)"/>`,
+    `<rect x="${x}" y="${y}" width="${width}" height="4" fill="${border}"/>`,
+    ...blocks,
+  ].join('');
+}
+
+/**
+ * Draw Other Node Helper
+ *
+ * @param box - The place on the image of a node of any other type
+ * @returns The node as a card in its palette color, with its message and the names of its outgoing handles
+ */
+function drawOtherNode(box: Box): string {
+  const { node, x, y, width } = box;
+  const palette = getNodeType(node.type)?.palette;
+  const color = palette?.color ?? '#9CA3AF';
+  const data: Record<string, unknown> = node.data;
+  const parts = [
+    card(box, color),
+    header(x + 12, y + 12, palette?.iconPath ?? '', color, color, palette?.label ?? node.type, 0.15),
+  ];
+  let top = y + 44;
+  if (typeof data.text === 'string') {
+    const [message, height] = messageBox(data.text, x + 12, top, width - 24, Math.min(80, box.height - 56));
+    parts.push(message);
+    top += height + 8;
+  }
+  // Names of the outgoing handles, next to the handles where the canvas measured them
+  (getSourceHandleIds(node) ?? []).forEach((handle, i) => {
+    const label = getSourceHandleLabel(node, handle);
+    if (!label) return;
+    const measured = box.handles.find((h) => h.type === 'source' && h.id === handle);
+    const rowY = measured ? y + measured.y - 8 : top + i * 20;
+    const perLine = Math.floor((width - 24) / (12 * CHAR_WIDTH));
+    const text = label.length > perLine ? `${label.slice(0, perLine - 1)}…` : label;
+    parts.push(textBlock([text], x + width - 12, rowY, { size: 12, lineHeight: 16, color: '#4B5563', anchor: 'end' }));
+  });
+  return parts.join('');
+}
+
+/**
+ * Natural Height Helper
+ *
+ * @param node - A node the canvas has not measured
+ * @param width - Width of the node
+ * @returns The height the node's content needs, as laid out by the draw helpers
+ */
+function naturalHeight(node: AppNode, width: number): number {
+  if (node.type === 'text') return 96 + wrapText(node.data.text || 'Empty message', width - 40, 12).length * 16;
+  if (node.type === 'fileUpload') return 172;
+  return DEFAULT_NODE_SIZE.height;
+}
+
+/**
+ * Fallback Handles Helper
+ *
+ * @param node - A node the canvas has not measured
+ * @param width - Width of the node
+ * @param height - Height of the node
+ * @returns The node's handles: targets in the middle of the left border,
+ *   sources spread along the right border
+ */
+function fallbackHandles(node: AppNode, width: number, height: number): ImageHandle[] {
+  const sources = getSourceHandleIds(node) ?? [];
+  return [
+    ...(getNodeType(node.type)?.targetHandles ?? []).map((id): ImageHandle => ({ type: 'target', id, x: 0, y: height / 2 })),
+    ...sources.map((id, i): ImageHandle => ({ type: 'source', id, x: width, y: (height * (i + 1)) / (sources.length + 1) })),
+  ];
+}
+
+/**
+ * Render Flow SVG
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges in the flow
+ * @param options - What to draw and at which size
+ * @returns The image, or null if there is nothing to draw
+ */
+export function renderFlowSvg(nodes: AppNode[], edges: AppEdge[], options: FlowImageOptions): FlowImage | null {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const owners = getGroupOwners(nodes, true);
+  const drawn = nodes.filter(
+    (n) =>
+      (!options.nodeIds || options.nodeIds.has(n.id)) &&
+      !owners.has(n.id) &&
+      (options.notes || !isAnnotationNode(n))
+  );
+  if (drawn.length === 0) return null;
+
+  // Place every node; collapsed groups take their compact size
+  const boxes = new Map<string, Box>();
+  drawn.forEach((node) => {
+    const collapsed = isGroupNode(node) && node.data.collapsed;
+    const width = collapsed ? COLLAPSED_GROUP_SIZE.width : node.measured?.width ?? node.width ?? DEFAULT_NODE_SIZE.width;
+    const height = collapsed
+      ? COLLAPSED_GROUP_SIZE.height
+      : node.measured?.height ?? node.height ?? naturalHeight(node, width);
+    const { x, y } = getAbsolutePosition(node, byId);
+    const handles = options.getHandles?.(node.id) ?? fallbackHandles(node, width, height);
+    boxes.set(node.id, { node, x, y, width, height, handles });
+  });
+
+  // Bounds of the drawing, in canvas coordinates
+  const all = [...boxes.values()];
+  const left = Math.min(...all.map((b) => b.x)) - IMAGE_PADDING;
+  const top = Math.min(...all.map((b) => b.y)) - IMAGE_PADDING;
+  const width = Math.max(...all.map((b) => b.x + b.width)) + IMAGE_PADDING - left;
+  const height = Math.max(...all.map((b) => b.y + b.height)) + IMAGE_PADDING - top;
+
+  /**
+   * Handle Position Helper
+   *
+   * @param box - A drawn node
+   * @param type - Type of the handle
+   * @param id - ID of the handle (the node's first handle of the type if null or unknown)
+   * @returns Position of the handle's center on the image
+   */
+  const handleAt = (box: Box, type: ImageHandle['type'], id: string | null | undefined) => {
+    const handle =
+      box.handles.find((h) => h.type === type && h.id === id) ?? box.handles.find((h) => h.type === type);
+    if (handle) return { x: box.x + handle.x, y: box.y + handle.y };
+    return { x: box.x + (type === 'source' ? box.width : 0), y: box.y + box.height / 2 };
+  };
+
+  // Edges as the canvas draws them, lifted to collapsed groups
+  const edgeSvg = edges.flatMap((original) => {
+    const edge = liftEdge(original, owners);
+    const source = edge && boxes.get(edge.source);
+    const target = edge && boxes.get(edge.target);
+    if (!edge || !source || !target) return [];
+    const from = handleAt(source, 'source', edge.sourceHandle);
+    const to = handleAt(target, 'target', edge.targetHandle);
+    const [path, labelX, labelY] = getBezierPath({
+      sourceX: from.x,
+      sourceY: from.y,
+      sourcePosition: Position.Right,
+      targetX: to.x,
+      targetY: to.y,
+      targetPosition: Position.Left,
+    });
+    const parts = [`<path d="${path}" fill="none" stroke="${EDGE_COLOR}" stroke-width="2" marker-end="url(#edge-arrow)"/>`];
+    if (typeof edge.label === 'string' && edge.label.trim()) {
+      const labelWidth = edge.label.length * 12 * CHAR_WIDTH + 8;
+      parts.push(
+        `<rect x="${labelX - labelWidth / 2}" y="${labelY - 10}" width="${labelWidth}" height="20" rx="2" fill="#FFFFFF"/>`,
+        textBlock([edge.label], labelX, labelY - 8, { size: 12, lineHeight: 16, color: EDGE_COLOR, anchor: 'middle' })
+      );
+    }
+    return [parts.join('')];
+  });
+
+  /**
+   * Draw Node Helper
+   *
+   * @param box - A drawn node
+   * @param index - Position of the node in the drawing, used for its clip path ID
+   * @returns The node clipped to its box, with its handles
+   */
+  const drawNode = (box: Box, index: number) => {
+    const { node } = box;
+    let body: string;
+    if (isGroupNode(node)) body = drawGroup(box, nodes.filter((n) => n.parentId === node.id).length);
+    else if (node.type === 'text') body = drawTextNode(box);
+    else if (node.type === 'fileUpload') body = drawFileUploadNode(box);
+    else if (node.type === 'note') body = drawNote(box);
+    else body = drawOtherNode(box);
+
+    // Groups only show handles while collapsed; notes have none
+    const showHandles = isGroupNode(node) ? node.data.collapsed : !isAnnotationNode(node);
+    const handles = showHandles
+      ? box.handles
+          .map(
+            (h) =>
+              `<circle cx="${box.x + h.x}" cy="${box.y + h.y}" r="4" fill="${
+                h.type === 'source' ? EDGE_COLOR : '#9CA3AF'
+              }" stroke="#FFFFFF"/>`
+          )
+          .join('')
+      : '';
+    return [
+      `<clipPath id="node-clip-${index}"><rect x="${box.x - 8}" y="${box.y - 8}" width="${box.width + 16}" height="${
+        box.height + 16
+      }"/></clipPath>`,
+      `<g clip-path="url(#node-clip-${index})">${body}</g>`,
+      handles,
+    ].join('');
+  };
+
+  // Expanded groups go behind the edges, everything else in front of them
+  const behind = all.filter((b) => isGroupNode(b.node) && !b.node.data.collapsed);
+  const front = all.filter((b) => !behind.includes(b));
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(width * options.scale)}" height="${Math.ceil(
+      height * options.scale
+    )}" viewBox="${left} ${top} ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    '<defs>',
+    '<filter id="node-shadow" x="-10%" y="-10%" width="120%" height="130%"><feDropShadow dx="0" dy="4" stdDeviation="4" flood-color="#000000" flood-opacity="0.12"/></filter>',
+    `<marker id="edge-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="20" markerHeight="20" markerUnits="userSpaceOnUse" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="${EDGE_COLOR}"/></marker>`,
+    options.background
+      ? `<pattern id="grid" width="${GRID_GAP}" height="${GRID_GAP}" patternUnits="userSpaceOnUse"><circle cx="1" cy="1" r="1" fill="#91919A"/></pattern>`
+      : '',
+    '</defs>',
+    `<rect x="${left}" y="${top}" width="${width}" height="${height}" fill="#FFFFFF"/>`,
+    options.background ? `<rect x="${left}" y="${top}" width="${width}" height="${height}" fill="url(#grid)"/>` : '',
+    ...behind.map(drawNode),
+    ...edgeSvg,
+    ...front.map((box, i) => drawNode(box, behind.length + i)),
+    '</svg>',
+  ].join('');
+
+  return { svg, width: Math.ceil(width * options.scale), height: Math.ceil(height * options.scale) };
+}
+
+/**
+ * Render Flow PNG
+ *
+ * Rasterizes an image drawn by renderFlowSvg in the browser.
+ *
+ * @param image - The SVG image
+ * @returns The PNG file, or null if the browser could not draw it (e.g. it is too large)
+ */
+export function renderFlowPng(image: FlowImage): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width;
+      canvas.height = image.height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(null);
+        return;
+      }
+      context.drawImage(img, 0, 0, image.width, image.height);
+      canvas.toBlob(resolve, 'image/png');
+    };
+    img.onerror = () => resolve(null);
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+  });
+}
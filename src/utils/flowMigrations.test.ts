@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { detectSchemaVersion, FLOW_SCHEMA_VERSION, migrateFlowFile } from './flowMigrations';
+
+describe('detectSchemaVersion', () => {
+  it('treats files without a version as version 0', () => {
+    expect(detectSchemaVersion({ nodes: [], edges: [] })).toBe(0);
+  });
+
+  it('rejects versions that are not non-negative integers', () => {
+    expect(detectSchemaVersion({ schemaVersion: '2' })).toBeNaN();
+    expect(detectSchemaVersion({ schemaVersion: -1 })).toBeNaN();
+    expect(detectSchemaVersion({ schemaVersion: 1.5 })).toBeNaN();
+  });
+});
+
+describe('migrateFlowFile', () => {
+  it('upgrades a bare version 0 payload through every step', () => {
+    const result = migrateFlowFile({ nodes: [], edges: [] });
+    expect(result.ok).toBe(true);
+    expect(result.fromVersion).toBe(0);
+    expect(result.file).toMatchObject({
+      schemaVersion: FLOW_SCHEMA_VERSION,
+      meta: { name: 'Imported flow' },
+      variables: [],
+      localization: { defaultLocale: 'en', locales: [{ code: 'en', required: true }] },
+      channels: [],
+    });
+  });
+
+  it('keeps the fields an older file already has', () => {
+    const variables = [{ name: 'city', type: 'string', defaultValue: '', description: '' }];
+    const result = migrateFlowFile({ schemaVersion: 2, meta: { name: 'Mine' }, nodes: [], edges: [], variables });
+    expect(result.file).toMatchObject({ meta: { name: 'Mine' }, variables });
+  });
+
+  it('leaves current files untouched', () => {
+    const file = { schemaVersion: FLOW_SCHEMA_VERSION, nodes: [] };
+    expect(migrateFlowFile(file).file).toBe(file);
+  });
+
+  it('rejects files from a newer version of the app', () => {
+    const result = migrateFlowFile({ schemaVersion: FLOW_SCHEMA_VERSION + 1 });
+    expect(result.ok).toBe(false);
+    expect(result.message).toContain('Please update the app');
+  });
+
+  it('rejects invalid versions', () => {
+    expect(migrateFlowFile({ schemaVersion: 'latest' }).ok).toBe(false);
+  });
+});
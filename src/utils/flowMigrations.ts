@@ -0,0 +1,135 @@
+/**
+ * Flow File Migration Utility
+ *
+ * This module upgrades exported flow files from older schema versions to the
+ * current one, so that files checked into git keep loading after node data
+ * shapes change.
+ *
+ * Migrations form a chain: `migrations[n]` turns a version `n` file into a
+ * version `n + 1` file. A file is upgraded by applying every step from its
+ * own version up to FLOW_SCHEMA_VERSION, one after another.
+ *
+ * Adding a Schema Change:
+ * 1. Bump FLOW_SCHEMA_VERSION
+ * 2. Add a migration from the previous version that rewrites old data
+ * 3. Update the schemas in types/schemas.ts (and the checks in flowFile.ts) to the new shape
+ *
+ * Version History:
+ * - 0: Bare `{ nodes, edges }` payload (what the Save button used to log)
+ * - 1: `{ schemaVersion, meta, nodes, edges }` envelope
+ * - 2: Adds the `variables` registry
+ * - 3: Adds the `localization` settings and per-node `translations`
+ * - 4: Adds the target `channels`
+ */
+
+/** Current version of the flow file schema written by exports */
+export const FLOW_SCHEMA_VERSION = 4;
+
+/**
+ * Raw Flow File Type
+ *
+ * A parsed but not yet validated flow file. Migrations only rely on the
+ * fields they rewrite and pass everything else through untouched.
+ */
+export type RawFlowFile = Record<string, unknown>;
+
+/**
+ * Migration Function Type
+ *
+ * Upgrades a raw flow file by exactly one schema version.
+ */
+type Migration = (file: RawFlowFile) => RawFlowFile;
+
+/**
+ * Migration Chain
+ *
+ * Maps each schema version to the migration that upgrades it to the next version.
+ */
+const migrations: Record<number, Migration> = {
+  // 0 -> 1: wrap the bare nodes/edges payload in the versioned envelope
+  0: (file) => ({
+    schemaVersion: 1,
+    meta: {
+      name: 'Imported flow',
+      exportedAt: new Date().toISOString(),
+      generator: 'legacy',
+    },
+    nodes: file.nodes,
+    edges: file.edges,
+  }),
+  // 1 -> 2: flows without a variable registry start with an empty one
+  1: (file) => ({ ...file, schemaVersion: 2, variables: [] }),
+  // 2 -> 3: flows without localization are written in a single, required English locale
+  2: (file) => ({
+    ...file,
+    schemaVersion: 3,
+    localization: { defaultLocale: 'en', locales: [{ code: 'en', required: true }] },
+  }),
+  // 3 -> 4: flows without channels target no channel in particular
+  3: (file) => ({ ...file, schemaVersion: 4, channels: [] }),
+};
+
+/**
+ * Migration Result Interface
+ *
+ * Defines the structure of the result returned by migrateFlowFile.
+ */
+interface MigrationResult {
+  /** Whether the file could be brought to the current version */
+  ok: boolean;
+  /** The upgraded file (when ok) */
+  file?: RawFlowFile;
+  /** Schema version the file was written with */
+  fromVersion: number;
+  /** Error message if migration failed */
+  message?: string;
+}
+
+/**
+ * Detect Schema Version
+ *
+ * Files without a `schemaVersion` field predate the envelope and are
+ * treated as version 0.
+ *
+ * @param file - Raw flow file
+ * @returns The file's schema version, or NaN if the field is not a valid version
+ */
+export function detectSchemaVersion(file: RawFlowFile): number {
+  if (!('schemaVersion' in file)) return 0;
+  const version = file.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : NaN;
+}
+
+/**
+ * Migrate Flow File
+ *
+ * Runs a raw flow file through the migration chain up to FLOW_SCHEMA_VERSION.
+ *
+ * @param file - Raw flow file of any supported version
+ * @returns MigrationResult with the upgraded file or the reason it failed
+ */
+export function migrateFlowFile(file: RawFlowFile): MigrationResult {
+  const fromVersion = detectSchemaVersion(file);
+
+  if (Number.isNaN(fromVersion)) {
+    return { ok: false, fromVersion, message: 'schemaVersion must be a non-negative integer.' };
+  }
+  if (fromVersion > FLOW_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      fromVersion,
+      message: `File uses schema version ${fromVersion}, but this app only supports up to version ${FLOW_SCHEMA_VERSION}. Please update the app.`,
+    };
+  }
+
+  let current = file;
+  for (let version = fromVersion; version < FLOW_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      return { ok: false, fromVersion, message: `No migration available from schema version ${version}.` };
+    }
+    current = migrate(current);
+  }
+
+  return { ok: true, file: current, fromVersion };
+}
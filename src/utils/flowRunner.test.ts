@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppEdge, AppNode, FileUploadNodeData } from '../types/flow';
+import {
+  advanceSimulation,
+  collectVariables,
+  findEntryNode,
+  getAcceptAttribute,
+  startSimulation,
+  stepBackSimulation,
+  validateFiles,
+} from './flowRunner';
+
+const textNode = (id: string, x = 0, y = 0): AppNode => ({
+  id,
+  type: 'text',
+  position: { x, y },
+  data: { text: id, type: 'text' },
+});
+
+const edge = (source: string, target: string, sourceHandle?: string): AppEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  sourceHandle,
+});
+
+const upload: FileUploadNodeData = {
+  label: 'Upload',
+  allowedTypes: ['pdf', '.PNG'],
+  maxSize: 1,
+  multiple: false,
+  type: 'fileUpload',
+};
+
+describe('findEntryNode', () => {
+  it('picks the left-most node without incoming edges', () => {
+    const nodes = [textNode('b', 200), textNode('a', 0), textNode('c', -100)];
+    expect(findEntryNode(nodes, [edge('b', 'c')])?.id).toBe('a');
+  });
+
+  it('falls back to the left-most node in a cycle', () => {
+    const nodes = [textNode('a', 100), textNode('b', 0)];
+    expect(findEntryNode(nodes, [edge('a', 'b'), edge('b', 'a')])?.id).toBe('b');
+  });
+
+  it('returns undefined for an empty flow', () => {
+    expect(findEntryNode([], [])).toBeUndefined();
+  });
+});
+
+describe('simulation', () => {
+  const nodes = [textNode('a'), textNode('b', 100), textNode('c', 200)];
+  const edges = [edge('a', 'b'), edge('b', 'c')];
+
+  it('walks the flow one node at a time', () => {
+    let steps = startSimulation(nodes, edges);
+    expect(steps).toEqual([{ nodeId: 'a' }]);
+
+    steps = advanceSimulation(steps, nodes, edges);
+    steps = advanceSimulation(steps, nodes, edges);
+    expect(steps.map((s) => s.nodeId)).toEqual(['a', 'b', 'c']);
+
+    // At the end of the conversation only the response is recorded
+    expect(advanceSimulation(steps, nodes, edges).map((s) => s.nodeId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('steps back to the previous node and forgets its response', () => {
+    const steps = advanceSimulation(startSimulation(nodes, edges), nodes, edges);
+    expect(stepBackSimulation(steps)).toEqual([{ nodeId: 'a' }]);
+    expect(stepBackSimulation([{ nodeId: 'a' }])).toEqual([{ nodeId: 'a' }]);
+  });
+});
+
+describe('quick-reply buttons', () => {
+  const buttons: AppNode = {
+    id: 'menu',
+    type: 'buttons',
+    position: { x: 0, y: 0 },
+    data: {
+      text: 'Pick one',
+      buttons: [
+        { id: 'yes', label: 'Yes' },
+        { id: 'no', label: 'No' },
+      ],
+      maxButtons: 3,
+      type: 'buttons',
+    },
+  };
+  const nodes = [buttons, textNode('yes-reply', 100), textNode('no-reply', 100, 100)];
+  const edges = [edge('menu', 'yes-reply', 'yes'), edge('menu', 'no-reply', 'no')];
+
+  it('follows the edge leaving the picked button', () => {
+    const steps = advanceSimulation(startSimulation(nodes, edges), nodes, edges, {
+      kind: 'button',
+      buttonId: 'no',
+      label: 'No',
+    });
+    expect(steps.map((s) => s.nodeId)).toEqual(['menu', 'no-reply']);
+    expect(collectVariables(steps).selected_button).toBe('No');
+  });
+
+  it('ends the conversation at a button without an edge', () => {
+    const steps = advanceSimulation(startSimulation(nodes, [edges[0]]), nodes, [edges[0]], {
+      kind: 'button',
+      buttonId: 'no',
+      label: 'No',
+    });
+    expect(steps.map((s) => s.nodeId)).toEqual(['menu']);
+  });
+});
+
+describe('condition nodes', () => {
+  const condition: AppNode = {
+    id: 'check',
+    type: 'condition',
+    position: { x: 100, y: 0 },
+    data: {
+      groups: [{ id: 'yes', combinator: 'and', rules: [{ id: 'r', variable: 'selected_button', operator: 'equals', value: 'Yes' }] }],
+      type: 'condition',
+    },
+  };
+  const nodes = [textNode('ask'), condition, textNode('yes-reply', 200), textNode('else-reply', 200, 100)];
+  const edges = [edge('ask', 'check'), edge('check', 'yes-reply', 'yes'), edge('check', 'else-reply', 'else')];
+
+  it('are resolved right away along the matching branch', () => {
+    const steps = advanceSimulation(startSimulation(nodes, edges), nodes, edges);
+    expect(steps.map((s) => s.nodeId)).toEqual(['ask', 'check', 'else-reply']);
+    expect(steps[1].response).toEqual({ kind: 'branch', handleId: 'else' });
+  });
+
+  it('are skipped when stepping back', () => {
+    const steps = advanceSimulation(startSimulation(nodes, edges), nodes, edges);
+    expect(stepBackSimulation(steps)).toEqual([{ nodeId: 'ask' }]);
+  });
+});
+
+describe('API nodes', () => {
+  const lookup: AppNode = {
+    id: 'lookup',
+    type: 'api',
+    position: { x: 100, y: 0 },
+    data: {
+      method: 'GET',
+      url: 'https://api.example.com/orders',
+      headers: [],
+      body: '',
+      timeout: 5,
+      mappings: [{ id: 'm', path: '$.status', variable: 'status' }],
+      mock: { status: 200, body: '{"status": "shipped"}', delay: 0 },
+      type: 'api',
+    },
+  };
+  const nodes = [textNode('ask'), lookup, textNode('found', 200), textNode('failed', 200, 100)];
+  const edges = [edge('ask', 'lookup'), edge('lookup', 'found', 'success'), edge('lookup', 'failed', 'error')];
+
+  it('are answered right away and store the mapped values', () => {
+    const steps = advanceSimulation(startSimulation(nodes, edges), nodes, edges);
+    expect(steps.map((s) => s.nodeId)).toEqual(['ask', 'lookup', 'found']);
+    expect(collectVariables(steps)).toMatchObject({ status: 'shipped' });
+  });
+
+  it('continue on the error handle when the request fails', () => {
+    const failing = { ...lookup, data: { ...lookup.data, mock: { status: 500, body: '', delay: 0 } } } as AppNode;
+    const withFailure = [nodes[0], failing, ...nodes.slice(2)];
+    const steps = advanceSimulation(startSimulation(withFailure, edges), withFailure, edges);
+    expect(steps.map((s) => s.nodeId)).toEqual(['ask', 'lookup', 'failed']);
+    expect(stepBackSimulation(steps)).toEqual([{ nodeId: 'ask' }]);
+  });
+});
+
+describe('validateFiles', () => {
+  it('accepts allowed files within the size limit', () => {
+    expect(validateFiles([{ name: 'scan.PDF', size: 1024 }], upload)).toBeNull();
+  });
+
+  it('reports missing, extra, disallowed and oversized files', () => {
+    expect(validateFiles([], upload)).toBe('Please choose a file.');
+    expect(validateFiles([{ name: 'a.pdf', size: 1 }, { name: 'b.pdf', size: 1 }], upload)).toBe(
+      'Only one file may be uploaded.'
+    );
+    expect(validateFiles([{ name: 'notes.txt', size: 1 }], upload)).toBe(
+      '"notes.txt" is not an allowed file type (pdf, png).'
+    );
+    expect(validateFiles([{ name: 'big.png', size: 2 * 1024 * 1024 }], upload)).toBe('"big.png" is larger than 1MB.');
+  });
+});
+
+describe('getAcceptAttribute', () => {
+  it('lists the allowed extensions, or nothing if any file is allowed', () => {
+    expect(getAcceptAttribute(['pdf', '.PNG'])).toBe('.pdf,.png');
+    expect(getAcceptAttribute([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Flow Runner Utility
+ *
+ * This module walks a flow graph the way the chatbot would at runtime.
+ * It powers the chat preview: finding the entry node, following outgoing
+ * edges from node to node and checking user responses against the
+ * configuration of the node that asked for them.
+ *
+ * A simulation is represented as a list of steps. Each step is a visited
+ * node plus the user's response to it (if the node asked for one). The last
+ * step is the node that is currently executing. All functions are pure and
+ * return new step arrays, which makes restarting and stepping back trivial.
+ *
+ * Condition nodes never wait for the user: as soon as one becomes the
+ * current node it is evaluated against the conversation variables collected
+ * so far, and the simulation moves on along the matching branch. API nodes
+ * do not wait either: their request is answered by the node's mock
+ * responder, the values mapped from the response are stored, and the
+ * simulation moves on along the success or error handle.
+ *
+ * Variables declared in the flow's registry start out with their default
+ * values; system variables are derived from the user's responses.
+ */
+
+import type { AppNode, AppEdge, FileUploadNodeData, FlowVariable } from '../types/flow';
+import { runMockRequest } from './apiRequest';
+import { ELSE_HANDLE_ID, evaluateCondition } from './conditions';
+import { isStepNode } from './nodeRegistry';
+import { getDefaultValues, type VariableValues } from './variables';
+
+/** Upper bound on consecutive automatic steps, guarding against cycles without interactive nodes */
+const MAX_AUTOMATIC_STEPS = 100;
+
+/**
+ * Uploaded File Summary
+ *
+ * The parts of a picked file that are kept in the simulation transcript.
+ */
+export type SimulatedFile = {
+  name: string;
+  size: number;
+};
+
+/**
+ * Simulation Response Type
+ *
+ * A user's response to the node that asked for it.
+ */
+export type SimulationResponse =
+  | { kind: 'files'; files: SimulatedFile[] }
+  | { kind: 'button'; buttonId: string; label: string }
+  | { kind: 'branch'; handleId: string }
+  | { kind: 'request'; handleId: string; status: number | null; error: string | null; values: VariableValues };
+
+/**
+ * Simulation Step Type
+ *
+ * A visited node and the user's response to it.
+ */
+export type SimulationStep = {
+  nodeId: string;
+  response?: SimulationResponse;
+};
+
+/**
+ * Find Entry Node
+ *
+ * The entry node is the node without incoming edges. If several nodes
+ * qualify, the left-most (then top-most) one wins, matching how flows are
+ * read on the canvas. If every node has an incoming edge (a cycle), the
+ * left-most node is used. Containers (groups) and notes are never the entry node.
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges connecting the nodes
+ * @returns The entry node, or undefined for an empty flow
+ */
+export function findEntryNode(nodes: AppNode[], edges: AppEdge[]): AppNode | undefined {
+  const targets = new Set(edges.map((e) => e.target));
+  const byPosition = (a: AppNode, b: AppNode) => a.position.x - b.position.x || a.position.y - b.position.y;
+  const steps = nodes.filter(isStepNode);
+  const roots = steps.filter((n) => !targets.has(n.id)).sort(byPosition);
+
+  return roots[0] ?? steps.sort(byPosition)[0];
+}
+
+/**
+ * Get Next Node ID
+ *
+ * Follows the outgoing edge of a node.
+ *
+ * @param nodeId - ID of the current node
+ * @param edges - Array of all edges connecting the nodes
+ * @param sourceHandle - Only follow edges leaving this handle, if given
+ * @returns ID of the next node, or null at the end of the conversation
+ */
+export function getNextNodeId(nodeId: string, edges: AppEdge[], sourceHandle?: string): string | null {
+  const edge = edges.find(
+    (e) => e.source === nodeId && (sourceHandle === undefined || e.sourceHandle === sourceHandle)
+  );
+  return edge?.target ?? null;
+}
+
+/**
+ * Collect Variables
+ *
+ * Derives the conversation variables from the user's responses so far.
+ * Later responses overwrite earlier ones.
+ *
+ * @param steps - Simulation steps
+ * @param variables - The flow's variable registry, providing default values
+ * @returns Current variable values
+ */
+export function collectVariables(steps: SimulationStep[], variables: FlowVariable[] = []): VariableValues {
+  const values: VariableValues = getDefaultValues(variables);
+
+  steps.forEach(({ response }) => {
+    if (response?.kind === 'button') {
+      values.selected_button = response.label;
+    } else if (response?.kind === 'files') {
+      values.uploaded_file_count = String(response.files.length);
+      values.uploaded_file_name = response.files[0]?.name ?? '';
+    } else if (response?.kind === 'request') {
+      Object.assign(values, response.values);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Resolve Automatic Steps Helper
+ *
+ * Evaluates condition nodes and answers API requests at the end of the step
+ * list until the current node is one that waits for the user (or the
+ * conversation ends).
+ *
+ * @param steps - Simulation steps
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges connecting the nodes
+ * @param variables - The flow's variable registry
+ * @returns Steps ending at a node that is neither a condition nor an API request
+ */
+function resolveAutomaticSteps(
+  steps: SimulationStep[],
+  nodes: AppNode[],
+  edges: AppEdge[],
+  variables: FlowVariable[]
+): SimulationStep[] {
+  let result = steps;
+
+  for (let i = 0; i < MAX_AUTOMATIC_STEPS; i++) {
+    const current = result[result.length - 1];
+    const node = current && !current.response ? nodes.find((n) => n.id === current.nodeId) : undefined;
+    let response: SimulationResponse;
+    if (node?.type === 'condition') {
+      response = { kind: 'branch', handleId: evaluateCondition(node.data, collectVariables(result, variables)) };
+    } else if (node?.type === 'api') {
+      const { handleId, status, error, values } = runMockRequest(node.data, collectVariables(result, variables));
+      response = { kind: 'request', handleId, status, error, values };
+    } else {
+      break;
+    }
+
+    const answered = [...result.slice(0, -1), { ...current, response }];
+    const nextId = getNextNodeId(node.id, edges, response.handleId);
+    result = nextId ? [...answered, { nodeId: nextId }] : answered;
+  }
+
+  return result;
+}
+
+/**
+ * Start Simulation
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges connecting the nodes
+ * @param variables - The flow's variable registry
+ * @returns The initial steps (the entry node and any conditions or API requests after it), or no steps for an empty flow
+ */
+export function startSimulation(nodes: AppNode[], edges: AppEdge[], variables: FlowVariable[] = []): SimulationStep[] {
+  const entry = findEntryNode(nodes, edges);
+  return entry ? resolveAutomaticSteps([{ nodeId: entry.id }], nodes, edges, variables) : [];
+}
+
+/**
+ * Advance Simulation
+ *
+ * Records the response to the current node (if any) and moves to the next one.
+ * A quick-reply response follows the edge leaving the picked button's handle.
+ * Condition and API nodes reached this way are resolved immediately.
+ *
+ * @param steps - Current simulation steps
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges connecting the nodes
+ * @param response - The user's response to the current node
+ * @param variables - The flow's variable registry
+ * @returns The new steps (only the response is recorded at the end of the conversation)
+ */
+export function advanceSimulation(
+  steps: SimulationStep[],
+  nodes: AppNode[],
+  edges: AppEdge[],
+  response?: SimulationResponse,
+  variables: FlowVariable[] = []
+): SimulationStep[] {
+  const current = steps[steps.length - 1];
+  if (!current) return steps;
+
+  const answered = [...steps.slice(0, -1), { ...current, response }];
+  const handle = response?.kind === 'button' ? response.buttonId : undefined;
+  const nextId = getNextNodeId(current.nodeId, edges, handle);
+
+  return resolveAutomaticSteps(nextId ? [...answered, { nodeId: nextId }] : answered, nodes, edges, variables);
+}
+
+/**
+ * Step Back Simulation
+ *
+ * Returns to the previous node that waited for the user and discards the
+ * response given to it, so the user can answer it again. Automatically
+ * resolved condition and API steps in between are skipped.
+ *
+ * @param steps - Current simulation steps
+ * @returns The new steps (unchanged if there is no earlier interactive node)
+ */
+export function stepBackSimulation(steps: SimulationStep[]): SimulationStep[] {
+  let end = steps.length - 1;
+  while (end > 0 && (steps[end - 1].response?.kind === 'branch' || steps[end - 1].response?.kind === 'request')) end--;
+  if (end <= 0) return steps;
+
+  const previous = steps[end - 1];
+  return [...steps.slice(0, end - 1), { nodeId: previous.nodeId }];
+}
+
+/**
+ * Describe Branch
+ *
+ * @param node - A condition node
+ * @param handleId - The handle the simulation continued from
+ * @returns Human readable name of the branch, e.g. "branch 2" or "else"
+ */
+export function describeBranch(node: AppNode, handleId: string): string {
+  if (handleId === ELSE_HANDLE_ID || node.type !== 'condition') return 'else';
+  const index = node.data.groups.findIndex((g) => g.id === handleId);
+  return `branch ${index + 1}`;
+}
+
+/**
+ * Normalize Extension Helper
+ *
+ * Allowed types may be written as "pdf", ".pdf" or ".PDF".
+ *
+ * @param type - An allowed type or file extension
+ * @returns The lower-case extension without leading dot
+ */
+const normalizeExtension = (type: string) => type.trim().replace(/^\./, '').toLowerCase();
+
+/**
+ * Get Accept Attribute
+ *
+ * @param allowedTypes - Allowed file types of a file upload node
+ * @returns Value for an `<input type="file">` accept attribute
+ */
+export function getAcceptAttribute(allowedTypes: string[]): string | undefined {
+  if (allowedTypes.length === 0) return undefined;
+  return allowedTypes.map((t) => `.${normalizeExtension(t)}`).join(',');
+}
+
+/**
+ * Validate Files
+ *
+ * Checks picked files against a file upload node's settings.
+ *
+ * @param files - The files the user picked
+ * @param data - The file upload node's data
+ * @returns Error message for the first violated setting, or null if all files are accepted
+ */
+export function validateFiles(files: SimulatedFile[], data: FileUploadNodeData): string | null {
+  if (files.length === 0) return 'Please choose a file.';
+  if (!data.multiple && files.length > 1) return 'Only one file may be uploaded.';
+
+  const allowed = data.allowedTypes.map(normalizeExtension);
+  for (const file of files) {
+    const extension = file.name.includes('.') ? normalizeExtension(file.name.split('.').pop() ?? '') : '';
+    if (allowed.length > 0 && !allowed.includes(extension)) {
+      return `"${file.name}" is not an allowed file type (${allowed.join(', ')}).`;
+    }
+    if (file.size > data.maxSize * 1024 * 1024) {
+      return `"${file.name}" is larger than ${data.maxSize}MB.`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppNode, SavedFlow } from '../types/flow';
+import { installMemoryStorage, type MemoryStorage } from '../test/memoryStorage';
+import {
+  createFlowRecord,
+  deleteFlow,
+  getLastOpenFlowId,
+  listFlows,
+  loadFlow,
+  loadInitialFlow,
+  saveFlow,
+  setLastOpenFlowId,
+} from './flowStorage';
+
+const textNode = (id: string): AppNode => ({
+  id,
+  type: 'text',
+  position: { x: 0, y: 0 },
+  data: { text: id, type: 'text' },
+});
+
+const flow = (name: string, updatedAt: number): SavedFlow => ({
+  ...createFlowRecord(name, [textNode('a')], []),
+  updatedAt,
+});
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = installMemoryStorage();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('saveFlow and loadFlow', () => {
+  it('stores a flow and lists it, most recently updated first', () => {
+    const older = flow('Older', 1);
+    const newer = flow('Newer', 2);
+    expect(saveFlow(older)).toBe(true);
+    expect(saveFlow(newer)).toBe(true);
+
+    expect(listFlows().map((f) => f.name)).toEqual(['Newer', 'Older']);
+    expect(loadFlow(older.id)?.flow.nodes.map((n) => n.id)).toEqual(['a']);
+  });
+
+  it('clears transient flags and fills in fields added after the flow was saved', () => {
+    const saved = flow('Old', 1);
+    storage.setItem(
+      `bitespeed.flows.${saved.id}`,
+      JSON.stringify({ ...saved, nodes: [{ ...textNode('a'), selected: true }], variables: undefined })
+    );
+
+    const loaded = loadFlow(saved.id);
+    expect(loaded?.flow.nodes[0].selected).toBe(false);
+    expect(loaded?.flow.variables).toEqual([]);
+  });
+
+  it('drops invalid nodes with their edges and reports them', () => {
+    const saved = flow('Broken', 1);
+    storage.setItem(
+      `bitespeed.flows.${saved.id}`,
+      JSON.stringify({
+        ...saved,
+        nodes: [textNode('a'), { id: 'b', type: 'unknown', position: { x: 0, y: 0 }, data: {} }],
+        edges: [{ source: 'a', target: 'b' }],
+      })
+    );
+
+    const loaded = loadFlow(saved.id);
+    expect(loaded?.flow.nodes.map((n) => n.id)).toEqual(['a']);
+    expect(loaded?.flow.edges).toEqual([]);
+    expect(loaded?.dropped).toEqual(['nodes[1].type: unknown node type "unknown"', 'edges[0]: node "b" does not exist']);
+  });
+
+  it('returns null for flows that do not exist', () => {
+    expect(loadFlow('missing')).toBeNull();
+  });
+
+  it('reports a full storage and keeps the index as it was', () => {
+    const saved = flow('Saved', 1);
+    saveFlow(saved);
+    storage.quota = storage.used;
+
+    expect(saveFlow({ ...saved, name: 'Renamed', updatedAt: 2 })).toBe(false);
+    expect(listFlows().map((f) => f.name)).toEqual(['Saved']);
+  });
+});
+
+describe('deleteFlow', () => {
+  it('removes the flow, its index entry and the last open marker', () => {
+    const saved = flow('Gone', 1);
+    saveFlow(saved);
+    setLastOpenFlowId(saved.id);
+
+    deleteFlow(saved.id);
+    expect(loadFlow(saved.id)).toBeNull();
+    expect(listFlows()).toEqual([]);
+    expect(getLastOpenFlowId()).toBeNull();
+  });
+});
+
+describe('loadInitialFlow', () => {
+  it('opens the last open flow', () => {
+    const first = flow('First', 2);
+    const last = flow('Last', 1);
+    saveFlow(first);
+    saveFlow(last);
+    setLastOpenFlowId(last.id);
+
+    expect(loadInitialFlow().flow.id).toBe(last.id);
+  });
+
+  it('creates and stores a starter flow for first-time users', () => {
+    const initial = loadInitialFlow();
+    expect(initial.stored).toBe(true);
+    expect(listFlows().map((f) => f.id)).toEqual([initial.flow.id]);
+    expect(getLastOpenFlowId()).toBe(initial.flow.id);
+  });
+
+  it('reports a starter flow that storage refused', () => {
+    storage.quota = 0;
+    const initial = loadInitialFlow();
+    expect(initial.stored).toBe(false);
+    expect(getLastOpenFlowId()).toBeNull();
+  });
+});
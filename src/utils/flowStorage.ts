@@ -0,0 +1,347 @@
+/**
+ * Flow Storage Utility
+ *
+ * This module persists flows in the browser's localStorage so that work
+ * survives page refreshes. It stores a small index of flow summaries plus
+ * one entry per flow, and remembers which flow was open last.
+ *
+ * Storage Layout:
+ * - `bitespeed.flows.index`    -> FlowSummary[] of all saved flows
+ * - `bitespeed.flows.<id>`     -> SavedFlow with the full nodes, edges, variables, localization and channels
+ * - `bitespeed.flows.lastOpen` -> ID of the flow that was open last
+ * - `bitespeed.sync`           -> Record of flow ID to FlowSyncRecord, for flows
+ *   that were saved to or loaded from the server
+ *
+ * All reads are defensive: missing or unparsable entries are treated as
+ * absent rather than throwing, so a corrupted entry never blocks startup.
+ * Writes are defensive too: when storage refuses a write (typically because
+ * its quota is full), the write reports failure instead of throwing, so
+ * callers can tell the user the flow was not saved.
+ */
+
+import { nanoid } from 'nanoid';
+import type { AppNode, AppEdge, ChannelId, FlowLocalization, FlowSummary, FlowVariable, SavedFlow } from '../types/flow';
+import { sanitizeGraph } from './schemaChecks';
+import { DEFAULT_LOCALIZATION, parseLocalization } from './localization';
+import { parseChannels } from './channels';
+import { isObject } from './valueChecks';
+
+/** Prefix shared by all storage keys written by the flow builder */
+const STORAGE_PREFIX = 'bitespeed.flows';
+const INDEX_KEY = `${STORAGE_PREFIX}.index`;
+const LAST_OPEN_KEY = `${STORAGE_PREFIX}.lastOpen`;
+const SYNC_KEY = 'bitespeed.sync';
+
+/** Name given to newly created flows */
+export const DEFAULT_FLOW_NAME = 'Untitled flow';
+
+/**
+ * Flow Sync Record Interface
+ *
+ * What the local copy of a flow was last synced with.
+ *
+ * @property version - Server version the local copy is based on
+ * @property updatedAt - Local `updatedAt` at the time of the sync; a newer
+ * local copy has changes the server does not have yet
+ */
+export interface FlowSyncRecord {
+  version: number;
+  updatedAt: number;
+}
+
+/**
+ * Flow Key Helper
+ *
+ * @param id - ID of the flow
+ * @returns The storage key holding the flow's data
+ */
+const flowKey = (id: string) => `${STORAGE_PREFIX}.${id}`;
+
+/**
+ * Read JSON Helper
+ *
+ * Reads and parses a JSON value from localStorage.
+ *
+ * @param key - Storage key to read
+ * @returns The parsed value, or null if missing or unparsable
+ */
+function readJson<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write Item Helper
+ *
+ * Writes a value to localStorage.
+ *
+ * @param key - Storage key to write
+ * @param value - The value to store
+ * @returns True if the value was stored, false if storage refused it (e.g. quota exceeded)
+ */
+function writeItem(key: string, value: string): boolean {
+  try {
+    localStorage.setItem(key, value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Write Index Helper
+ *
+ * Persists the list of flow summaries, most recently updated first.
+ *
+ * @param flows - Flow summaries to store
+ * @returns True if the index was stored
+ */
+function writeIndex(flows: FlowSummary[]): boolean {
+  const sorted = [...flows].sort((a, b) => b.updatedAt - a.updatedAt);
+  return writeItem(INDEX_KEY, JSON.stringify(sorted));
+}
+
+/**
+ * Summarize Helper
+ *
+ * @param flow - A saved flow
+ * @returns The flow's summary without nodes and edges
+ */
+const summarize = ({ id, name, createdAt, updatedAt }: SavedFlow): FlowSummary => ({
+  id,
+  name,
+  createdAt,
+  updatedAt,
+});
+
+/**
+ * List Flows
+ *
+ * @returns Summaries of all saved flows, most recently updated first
+ */
+export function listFlows(): FlowSummary[] {
+  return readJson<FlowSummary[]>(INDEX_KEY) ?? [];
+}
+
+/**
+ * Loaded Flow Interface
+ *
+ * A stored flow together with what had to change for it to match the
+ * current schemas, so callers can tell the user.
+ *
+ * @property flow - The flow
+ * @property dropped - Problems of the nodes and edges that were left out
+ * @property repairs - Fields that were filled in with defaults
+ */
+export interface LoadedFlow {
+  flow: SavedFlow;
+  dropped: string[];
+  repairs: string[];
+}
+
+/**
+ * Load Flow
+ *
+ * Loads a saved flow. Nodes and edges are checked against their runtime
+ * schemas: missing fields are filled in with defaults and anything still
+ * invalid is dropped rather than blocking the flow; both are reported to
+ * the caller.
+ * Transient UI flags (selection, dragging) that may have been captured
+ * during autosave are cleared, flows saved before the variable registry
+ * existed get an empty one, flows saved before localization existed (or
+ * with an invalid one) get the default localization, and flows saved before
+ * channel profiles existed target no channel.
+ *
+ * Reads the node registry, so node types must be registered before flows
+ * are loaded.
+ *
+ * @param id - ID of the flow to load
+ * @returns The saved flow and what was dropped or repaired, or null if it does not exist
+ */
+export function loadFlow(id: string): LoadedFlow | null {
+  const flow = readJson<SavedFlow>(flowKey(id));
+  if (!flow) return null;
+
+  const { nodes, edges, dropped, repairs } = sanitizeGraph(flow.nodes, flow.edges);
+  return {
+    flow: {
+      ...flow,
+      nodes: nodes.map((n) => ({ ...n, selected: false, dragging: false })),
+      edges: edges.map((e) => ({ ...e, selected: false })),
+      variables: flow.variables ?? [],
+      localization: parseLocalization(flow.localization),
+      channels: parseChannels(flow.channels),
+    },
+    dropped,
+    repairs,
+  };
+}
+
+/**
+ * Save Flow
+ *
+ * Writes a flow and updates the index entry for it. If storage refuses the
+ * flow, the index is left as it was, so it never lists an unsaved version.
+ *
+ * @param flow - The flow to persist
+ * @returns True if the flow and its index entry were stored
+ */
+export function saveFlow(flow: SavedFlow): boolean {
+  if (!writeItem(flowKey(flow.id), JSON.stringify(flow))) return false;
+  return writeIndex([...listFlows().filter((f) => f.id !== flow.id), summarize(flow)]);
+}
+
+/**
+ * Delete Flow
+ *
+ * Removes a flow and its index entry.
+ *
+ * @param id - ID of the flow to delete
+ */
+export function deleteFlow(id: string) {
+  localStorage.removeItem(flowKey(id));
+  writeIndex(listFlows().filter((f) => f.id !== id));
+  if (getLastOpenFlowId() === id) {
+    localStorage.removeItem(LAST_OPEN_KEY);
+  }
+}
+
+/**
+ * Get Last Open Flow ID
+ *
+ * @returns ID of the flow that was open last, or null
+ */
+export function getLastOpenFlowId(): string | null {
+  return localStorage.getItem(LAST_OPEN_KEY);
+}
+
+/**
+ * Set Last Open Flow ID
+ *
+ * @param id - ID of the flow that is now open
+ */
+export function setLastOpenFlowId(id: string) {
+  // Only a convenience for the next startup, so a failed write is ignored
+  writeItem(LAST_OPEN_KEY, id);
+}
+
+/**
+ * Create Flow Record
+ *
+ * Builds a new (unsaved) flow record with a fresh ID.
+ *
+ * @param name - Name of the new flow
+ * @param nodes - Initial nodes
+ * @param edges - Initial edges
+ * @param variables - Initial variable registry
+ * @param localization - Initial languages
+ * @param channels - Initial target channels
+ * @returns The new flow record
+ */
+export function createFlowRecord(
+  name: string,
+  nodes: AppNode[],
+  edges: AppEdge[],
+  variables: FlowVariable[] = [],
+  localization: FlowLocalization = DEFAULT_LOCALIZATION,
+  channels: ChannelId[] = []
+): SavedFlow {
+  const now = Date.now();
+  return { id: nanoid(10), name, createdAt: now, updatedAt: now, nodes, edges, variables, localization, channels };
+}
+
+/**
+ * Create Starter Flow
+ *
+ * Builds the flow shown to first-time users: a single "Hello World"
+ * text node in the middle of the canvas.
+ *
+ * @param name - Name of the new flow
+ * @returns The new flow record
+ */
+export function createStarterFlow(name = DEFAULT_FLOW_NAME): SavedFlow {
+  return createFlowRecord(
+    name,
+    [
+      {
+        id: 'text-1',
+        type: 'text',
+        position: { x: 400, y: 200 }, // Centered position on canvas
+        data: { text: 'Hello World', type: 'text' },
+      },
+    ],
+    []
+  );
+}
+
+/**
+ * Initial Flow Interface
+ *
+ * The flow to open on startup, with what was dropped or repaired when it
+ * was loaded.
+ *
+ * @property stored - Whether the flow is in storage; false for a starter
+ * flow that storage refused
+ */
+export interface InitialFlow extends LoadedFlow {
+  stored: boolean;
+}
+
+/**
+ * Load Initial Flow
+ *
+ * Picks the flow to open on startup: the last open flow, otherwise the most
+ * recently updated one, otherwise a newly created (and saved) starter flow.
+ *
+ * @returns The flow to open, and whether it is stored
+ */
+export function loadInitialFlow(): InitialFlow {
+  const lastOpenId = getLastOpenFlowId();
+  const candidates = [lastOpenId, ...listFlows().map((f) => f.id)];
+
+  for (const id of candidates) {
+    const loaded = id ? loadFlow(id) : null;
+    if (loaded) {
+      setLastOpenFlowId(loaded.flow.id);
+      return { ...loaded, stored: true };
+    }
+  }
+
+  const starter = createStarterFlow();
+  const stored = saveFlow(starter);
+  if (stored) setLastOpenFlowId(starter.id);
+  return { flow: starter, dropped: [], repairs: [], stored };
+}
+
+/**
+ * Load Sync Records
+ *
+ * Reads the sync records of all flows. Malformed entries are ignored.
+ *
+ * @returns Sync record per flow ID
+ */
+export function loadSyncRecords(): Record<string, FlowSyncRecord> {
+  const raw = readJson<unknown>(SYNC_KEY);
+  if (!isObject(raw)) return {};
+
+  return Object.fromEntries(
+    Object.entries(raw).filter(
+      (entry): entry is [string, FlowSyncRecord] =>
+        isObject(entry[1]) && typeof entry[1].version === 'number' && typeof entry[1].updatedAt === 'number'
+    )
+  );
+}
+
+/**
+ * Save Sync Records
+ *
+ * @param records - Sync record per flow ID
+ * @returns True if the records were stored
+ */
+export function saveSyncRecords(records: Record<string, FlowSyncRecord>): boolean {
+  return writeItem(SYNC_KEY, JSON.stringify(records));
+}
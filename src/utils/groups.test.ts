@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppNode } from '../types/flow';
+import {
+  GROUP_HEADER_HEIGHT,
+  GROUP_PADDING,
+  GROUP_SOURCE_HANDLE,
+  GROUP_TARGET_HANDLE,
+  getGroupMembers,
+  getGroupOwners,
+  groupNodes,
+  liftEdge,
+  normalizeGroups,
+  ungroupNodes,
+} from './groups';
+
+const textNode = (id: string, x = 0, y = 0): AppNode => ({
+  id,
+  type: 'text',
+  position: { x, y },
+  data: { text: id, type: 'text' },
+  selected: true,
+});
+
+const group = () => {
+  const result = groupNodes([textNode('a', 100, 100), textNode('b', 400, 100), textNode('c')], ['a', 'b'], 'Intro');
+  if (!result.ok) throw new Error(result.reason);
+  return result;
+};
+
+describe('groupNodes', () => {
+  it('frames the nodes in a selected group that comes before them', () => {
+    const { nodes, groupId } = group();
+    const [frame] = nodes;
+
+    expect(frame).toMatchObject({ id: groupId, type: 'nodeGroup', data: { label: 'Intro' }, selected: true });
+    expect(frame.position).toEqual({ x: 100 - GROUP_PADDING, y: 100 - GROUP_PADDING - GROUP_HEADER_HEIGHT });
+    expect(getGroupMembers(nodes, groupId).map((n) => n.id)).toEqual(['a', 'b']);
+    expect(nodes.find((n) => n.id === 'a')).toMatchObject({
+      parentId: groupId,
+      position: { x: GROUP_PADDING, y: GROUP_PADDING + GROUP_HEADER_HEIGHT },
+      selected: false,
+    });
+  });
+
+  it('refuses empty selections and nested groups', () => {
+    expect(groupNodes([textNode('a')], [])).toMatchObject({ ok: false });
+    const { nodes, groupId } = group();
+    expect(groupNodes(nodes, [groupId, 'c'])).toMatchObject({ ok: false });
+    expect(groupNodes(nodes, ['a'])).toMatchObject({ ok: false });
+  });
+});
+
+describe('ungroupNodes', () => {
+  it('keeps the members where they are on the canvas', () => {
+    const { nodes, groupId } = group();
+    const ungrouped = ungroupNodes(nodes, groupId);
+    expect(ungrouped.map((n) => n.id)).toEqual(['a', 'b', 'c']);
+    expect(ungrouped[0].position).toEqual({ x: 100, y: 100 });
+    expect(ungrouped[0]).not.toHaveProperty('parentId');
+  });
+});
+
+describe('liftEdge', () => {
+  it('moves edge ends from members of collapsed groups to the group', () => {
+    const { nodes, groupId } = group();
+    const collapsed = nodes.map((n) =>
+      n.type === 'nodeGroup' ? { ...n, data: { ...n.data, collapsed: true } } : n
+    ) as AppNode[];
+    const owners = getGroupOwners(collapsed, true);
+
+    expect(liftEdge({ id: 'e', source: 'a', target: 'c' }, owners)).toMatchObject({
+      source: groupId,
+      sourceHandle: GROUP_SOURCE_HANDLE,
+      target: 'c',
+    });
+    expect(liftEdge({ id: 'e', source: 'c', target: 'b' }, owners)).toMatchObject({
+      target: groupId,
+      targetHandle: GROUP_TARGET_HANDLE,
+    });
+    expect(liftEdge({ id: 'e', source: 'a', target: 'b' }, owners)).toBeNull();
+    expect(getGroupOwners(nodes, true).size).toBe(0);
+  });
+});
+
+describe('normalizeGroups', () => {
+  it('moves nodes out of missing groups and groups before their members', () => {
+    const { nodes, groupId } = group();
+    const { nodes: repaired, repairs } = normalizeGroups([
+      ...nodes.slice(1),
+      nodes[0],
+      { ...textNode('d'), parentId: 'gone' },
+    ]);
+
+    expect(repaired[0].id).toBe(groupId);
+    expect(repaired.find((n) => n.id === 'd')).not.toHaveProperty('parentId');
+    expect(repairs).toEqual(['nodes: "d" was moved out of the missing group "gone"']);
+  });
+});
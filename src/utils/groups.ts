@@ -0,0 +1,245 @@
+/**
+ * Node Groups Utility
+ *
+ * This module implements groups: frames around a set of nodes that can be
+ * moved as one and collapsed into a single compact node. A group is a node
+ * of the `nodeGroup` container type; its members are ordinary nodes with the
+ * group as their React Flow `parentId`, positioned relative to the group.
+ *
+ * Rules:
+ * - Only top-level nodes can be grouped (groups are not nested)
+ * - Groups come before their members in the node list, as React Flow requires
+ * - Edges always connect the members themselves; while a group is collapsed
+ *   the canvas draws the edges crossing its border from the group instead
+ *   (see liftEdge), and hides the edges inside it
+ *
+ * All functions are pure and return new node arrays.
+ */
+
+import type { AppNode, AppEdge, GroupNode } from '../types/flow';
+import { DEFAULT_NODE_SIZE } from './autoLayout';
+import { createNode, isContainerNode } from './nodeRegistry';
+
+/** Space (px) between the members and the border of a new group */
+export const GROUP_PADDING = 24;
+
+/** Height (px) of a group's header, above its members */
+export const GROUP_HEADER_HEIGHT = 40;
+
+/** Size (px) of a collapsed group on the canvas */
+export const COLLAPSED_GROUP_SIZE = { width: 240, height: 72 };
+
+/** Handles a collapsed group draws the edges crossing its border from */
+export const GROUP_TARGET_HANDLE = 'left';
+export const GROUP_SOURCE_HANDLE = 'right';
+
+/** Title of new groups */
+const DEFAULT_GROUP_LABEL = 'Group';
+
+/**
+ * Group Result Type
+ *
+ * The nodes after grouping, or the reason the nodes cannot be grouped.
+ */
+export type GroupResult = { ok: true; nodes: AppNode[]; groupId: string } | { ok: false; reason: string };
+
+/**
+ * Is Group Node
+ *
+ * @param node - A node
+ * @returns True if the node is a group
+ */
+export const isGroupNode = (node: AppNode | null | undefined): node is GroupNode => node?.type === 'nodeGroup';
+
+/**
+ * Get Group Members
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param groupId - ID of a group
+ * @returns The group's members, in flow order
+ */
+export function getGroupMembers(nodes: AppNode[], groupId: string): AppNode[] {
+  return nodes.filter((n) => n.parentId === groupId);
+}
+
+/**
+ * Get Group Owners
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param collapsedOnly - Only include members of collapsed groups
+ * @returns ID of the group of every member, keyed by member ID
+ */
+export function getGroupOwners(nodes: AppNode[], collapsedOnly = false): Map<string, string> {
+  const groups = new Map(nodes.filter(isGroupNode).map((g) => [g.id, g]));
+  const owners = new Map<string, string>();
+  nodes.forEach((n) => {
+    const group = n.parentId ? groups.get(n.parentId) : undefined;
+    if (group && (!collapsedOnly || group.data.collapsed)) owners.set(n.id, group.id);
+  });
+  return owners;
+}
+
+/**
+ * Get Selection With Members
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @returns The selected nodes and the members of selected groups, in flow order
+ */
+export function getSelectionWithMembers(nodes: AppNode[]): AppNode[] {
+  const groupIds = new Set(nodes.filter((n) => n.selected && isGroupNode(n)).map((n) => n.id));
+  return nodes.filter((n) => n.selected || (n.parentId && groupIds.has(n.parentId)));
+}
+
+/**
+ * Absolute Position Helper
+ *
+ * @param node - A node
+ * @param byId - All nodes of the flow by ID
+ * @returns The node's position on the canvas (members are stored relative to their group)
+ */
+export function getAbsolutePosition(node: AppNode, byId: Map<string, AppNode>): { x: number; y: number } {
+  const parent = node.parentId ? byId.get(node.parentId) : undefined;
+  return parent
+    ? { x: parent.position.x + node.position.x, y: parent.position.y + node.position.y }
+    : node.position;
+}
+
+/**
+ * Detach Helper
+ *
+ * @param node - A member of a group
+ * @param position - The member's position on the canvas
+ * @returns The node as a top-level node at the same place
+ */
+function detach(node: AppNode, position: { x: number; y: number }): AppNode {
+  const copy = { ...node, position };
+  delete copy.parentId;
+  delete copy.extent;
+  return copy;
+}
+
+/**
+ * Group Nodes
+ *
+ * Wraps nodes in a new group sized to fit them. The group is selected and
+ * its members are deselected.
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param ids - IDs of the nodes to group
+ * @param label - Title of the new group
+ * @returns The new nodes and the group's ID, or the reason the nodes cannot be grouped
+ */
+export function groupNodes(nodes: AppNode[], ids: string[], label = DEFAULT_GROUP_LABEL): GroupResult {
+  const picked = new Set(ids);
+  const members = nodes.filter((n) => picked.has(n.id));
+  if (members.length === 0) return { ok: false, reason: 'Select the nodes to group first.' };
+  if (members.some((n) => isContainerNode(n) || n.parentId)) {
+    return { ok: false, reason: 'Groups cannot contain other groups or nodes that are already grouped.' };
+  }
+
+  const width = (n: AppNode) => n.measured?.width ?? n.width ?? DEFAULT_NODE_SIZE.width;
+  const height = (n: AppNode) => n.measured?.height ?? n.height ?? DEFAULT_NODE_SIZE.height;
+  const left = Math.min(...members.map((n) => n.position.x)) - GROUP_PADDING;
+  const top = Math.min(...members.map((n) => n.position.y)) - GROUP_PADDING - GROUP_HEADER_HEIGHT;
+  const right = Math.max(...members.map((n) => n.position.x + width(n))) + GROUP_PADDING;
+  const bottom = Math.max(...members.map((n) => n.position.y + height(n))) + GROUP_PADDING;
+
+  const group = createNode('nodeGroup', { x: left, y: top });
+  if (!isGroupNode(group)) return { ok: false, reason: 'Groups are not available.' };
+
+  const framed: GroupNode = {
+    ...group,
+    data: { ...group.data, label },
+    width: right - left,
+    height: bottom - top,
+    selected: true,
+  };
+  const updated = nodes.map((n): AppNode => {
+    if (!picked.has(n.id)) return n.selected ? { ...n, selected: false } : n;
+    return {
+      ...n,
+      parentId: framed.id,
+      extent: 'parent',
+      position: { x: n.position.x - left, y: n.position.y - top },
+      selected: false,
+    };
+  });
+
+  // Groups must come before their members
+  return { ok: true, nodes: [framed, ...updated], groupId: framed.id };
+}
+
+/**
+ * Ungroup Nodes
+ *
+ * Removes a group, keeping its members where they are on the canvas.
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param groupId - ID of the group to remove
+ * @returns The new nodes (unchanged if the group does not exist)
+ */
+export function ungroupNodes(nodes: AppNode[], groupId: string): AppNode[] {
+  const group = nodes.find((n) => n.id === groupId);
+  if (!isGroupNode(group)) return nodes;
+
+  return nodes
+    .filter((n) => n.id !== groupId)
+    .map((n) =>
+      n.parentId === groupId
+        ? detach(n, { x: group.position.x + n.position.x, y: group.position.y + n.position.y })
+        : n
+    );
+}
+
+/**
+ * Lift Edge
+ *
+ * Moves the ends of an edge that touch a member of a group to the group
+ * itself. Used to draw edges from collapsed groups and to lay out groups
+ * as single nodes.
+ *
+ * @param edge - An edge of the flow
+ * @param owners - ID of the group of every member to lift (see getGroupOwners)
+ * @returns The lifted edge, the edge itself if it touches no such member,
+ * or null if both ends are inside the same group
+ */
+export function liftEdge(edge: AppEdge, owners: Map<string, string>): AppEdge | null {
+  const source = owners.get(edge.source);
+  const target = owners.get(edge.target);
+  if (!source && !target) return edge;
+  if (source && source === target) return null;
+
+  return {
+    ...edge,
+    source: source ?? edge.source,
+    sourceHandle: source ? GROUP_SOURCE_HANDLE : edge.sourceHandle,
+    target: target ?? edge.target,
+    targetHandle: target ? GROUP_TARGET_HANDLE : edge.targetHandle,
+  };
+}
+
+/**
+ * Normalize Groups
+ *
+ * Repairs group membership in nodes loaded from outside the editor: nodes
+ * whose group is missing (and nested groups) become top-level nodes, and
+ * groups are moved before their members.
+ *
+ * @param nodes - Checked nodes
+ * @returns The repaired nodes and a message per repair
+ */
+export function normalizeGroups(nodes: AppNode[]): { nodes: AppNode[]; repairs: string[] } {
+  const groupIds = new Set(nodes.filter(isGroupNode).map((g) => g.id));
+  const repairs: string[] = [];
+
+  const repaired = nodes.map((n) => {
+    if (!n.parentId || (groupIds.has(n.parentId) && !isGroupNode(n))) return n;
+    repairs.push(`nodes: "${n.id}" was moved out of the missing group "${n.parentId}"`);
+    return detach(n, n.position);
+  });
+
+  return {
+    nodes: [...repaired.filter(isGroupNode), ...repaired.filter((n) => !isGroupNode(n))],
+    repairs,
+  };
+}
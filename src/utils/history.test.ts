@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LOCALIZATION } from './localization';
+import { HISTORY_COALESCE_MS, HISTORY_LIMIT, pushCapped, shouldCoalesce, type FlowSnapshot } from './history';
+
+const snapshot = (id: string): FlowSnapshot => ({
+  nodes: [{ id, type: 'text', position: { x: 0, y: 0 }, data: { text: id, type: 'text' } }],
+  edges: [],
+  variables: [],
+  localization: DEFAULT_LOCALIZATION,
+  channels: [],
+});
+
+describe('shouldCoalesce', () => {
+  it('merges changes with the same key inside the window', () => {
+    expect(shouldCoalesce({ key: 'text:1', at: 1000 }, 'text:1', 1000 + HISTORY_COALESCE_MS)).toBe(true);
+  });
+
+  it('starts a new step after the window', () => {
+    expect(shouldCoalesce({ key: 'text:1', at: 1000 }, 'text:1', 1001 + HISTORY_COALESCE_MS)).toBe(false);
+  });
+
+  it('starts a new step for another key, no key or no previous change', () => {
+    expect(shouldCoalesce({ key: 'text:1', at: 1000 }, 'text:2', 1100)).toBe(false);
+    expect(shouldCoalesce({ key: 'text:1', at: 1000 }, undefined, 1100)).toBe(false);
+    expect(shouldCoalesce(null, 'text:1', 1100)).toBe(false);
+  });
+});
+
+describe('pushCapped', () => {
+  it('appends without changing the original stack', () => {
+    const stack = [snapshot('a')];
+    const next = pushCapped(stack, snapshot('b'));
+    expect(next.map((s) => s.nodes[0].id)).toEqual(['a', 'b']);
+    expect(stack).toHaveLength(1);
+  });
+
+  it('drops the oldest snapshots beyond the limit', () => {
+    let stack: FlowSnapshot[] = [];
+    for (let i = 0; i <= HISTORY_LIMIT; i++) stack = pushCapped(stack, snapshot(String(i)));
+    expect(stack).toHaveLength(HISTORY_LIMIT);
+    expect(stack[0].nodes[0].id).toBe('1');
+  });
+});
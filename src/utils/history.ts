@@ -0,0 +1,92 @@
+/**
+ * Undo/Redo History Utility
+ *
+ * This module contains the pure helpers behind the flow store's undo/redo
+ * subsystem. The store keeps two stacks of flow snapshots (past and future)
+ * and uses these helpers to decide when a new snapshot should be recorded
+ * and to keep the stacks within a fixed size.
+ *
+ * Coalescing Rules:
+ * - Every recorded change may carry a coalesce key (e.g. "text:text-1").
+ * - If a change has the same key as the previous recorded change and arrives
+ *   within HISTORY_COALESCE_MS of it, no new snapshot is pushed.
+ * - The window slides with every coalesced change, so a continuous typing
+ *   burst or node drag always collapses into a single undo step.
+ */
+
+import type { AppNode, AppEdge, ChannelId, FlowLocalization, FlowVariable } from '../types/flow';
+
+/** Maximum number of undo steps kept in memory */
+export const HISTORY_LIMIT = 100;
+
+/** Time window (ms) in which changes with the same coalesce key are merged */
+export const HISTORY_COALESCE_MS = 1000;
+
+/**
+ * Flow Snapshot Type
+ *
+ * The part of the flow state that is captured by undo/redo.
+ * UI-only state such as the selected node is intentionally excluded.
+ */
+export type FlowSnapshot = {
+  nodes: AppNode[];
+  edges: AppEdge[];
+  variables: FlowVariable[];
+  localization: FlowLocalization;
+  channels: ChannelId[];
+};
+
+/**
+ * History Options
+ *
+ * Optional settings that callers pass along with a state update to control
+ * how the update is recorded in the undo history.
+ */
+export type HistoryOptions = {
+  /** Set to false for changes that must not create an undo step (selection, measuring) */
+  record?: boolean;
+  /** Changes sharing this key within the coalesce window count as one step */
+  coalesceKey?: string;
+};
+
+/**
+ * Last Commit Marker
+ *
+ * Remembers the key and time of the most recent recorded change so that
+ * the next change can be coalesced with it.
+ */
+export type LastCommit = {
+  key: string;
+  at: number;
+};
+
+/**
+ * Should Coalesce
+ *
+ * Determines whether a change should be merged into the previous undo step
+ * instead of creating a new one.
+ *
+ * @param last - Marker of the previous recorded change, if any
+ * @param key - Coalesce key of the incoming change, if any
+ * @param now - Current timestamp in milliseconds
+ * @returns True if the change belongs to the previous step
+ */
+export function shouldCoalesce(last: LastCommit | null, key: string | undefined, now: number): boolean {
+  if (!last || !key) return false;
+  return last.key === key && now - last.at <= HISTORY_COALESCE_MS;
+}
+
+/**
+ * Push Capped
+ *
+ * Appends a snapshot to a history stack, dropping the oldest entries
+ * once the stack grows past HISTORY_LIMIT.
+ *
+ * @param stack - Existing history stack (oldest first)
+ * @param snapshot - Snapshot to append
+ * @returns New history stack
+ */
+export function pushCapped(stack: FlowSnapshot[], snapshot: FlowSnapshot): FlowSnapshot[] {
+  const next = [...stack, snapshot];
+  return next.length > HISTORY_LIMIT ? next.slice(next.length - HISTORY_LIMIT) : next;
+}
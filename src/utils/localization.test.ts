@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppNode, FlowLocalization, Translations } from '../types/flow';
+import {
+  changeDefaultLocale,
+  checkLocalization,
+  DEFAULT_LOCALIZATION,
+  findTranslationGaps,
+  getLocalizedValue,
+  getTranslationCoverage,
+  localizeNode,
+  parseLocalization,
+  removeLocale,
+  removeTranslationKey,
+  setTranslation,
+  validateLocaleCode,
+} from './localization';
+
+const localization: FlowLocalization = {
+  defaultLocale: 'en',
+  locales: [
+    { code: 'en', required: true },
+    { code: 'hi', required: true },
+    { code: 'es', required: false },
+  ],
+};
+
+const textNode = (id: string, text: string, translations?: Translations): AppNode => ({
+  id,
+  type: 'text',
+  position: { x: 0, y: 0 },
+  data: { text, type: 'text', translations },
+});
+
+const menu: AppNode = {
+  id: 'menu',
+  type: 'buttons',
+  position: { x: 0, y: 0 },
+  data: {
+    text: 'Pick one',
+    buttons: [{ id: 'yes', label: 'Yes' }],
+    maxButtons: 3,
+    type: 'buttons',
+    translations: { hi: { text: 'Ek chuniye' } },
+  },
+};
+
+describe('validateLocaleCode', () => {
+  it('accepts new language codes only', () => {
+    expect(validateLocaleCode('es-MX', localization)).toBeNull();
+    expect(validateLocaleCode('Spanish', localization)).toBe('Use a language code like "hi" or "es-MX".');
+    expect(validateLocaleCode('hi', localization)).toBe('"hi" is already a locale of this flow.');
+  });
+});
+
+describe('translations', () => {
+  it('are added and removed string by string', () => {
+    const added = setTranslation(undefined, 'hi', 'text', 'Namaste');
+    expect(added).toEqual({ hi: { text: 'Namaste' } });
+    expect(setTranslation(added, 'hi', 'text', '')).toBeUndefined();
+    expect(removeTranslationKey({ hi: { text: 'a', 'button:yes': 'b' }, es: { text: 'c' } }, 'text')).toEqual({
+      hi: { 'button:yes': 'b' },
+    });
+  });
+
+  it('are read per locale, with the node fields as the default locale', () => {
+    const node = textNode('a', 'Hello', { hi: { text: 'Namaste' } });
+    expect(getLocalizedValue(node, 'text', 'en', localization)).toBe('Hello');
+    expect(getLocalizedValue(node, 'text', 'hi', localization)).toBe('Namaste');
+    expect(getLocalizedValue(node, 'text', 'es', localization)).toBe('');
+  });
+});
+
+describe('localizeNode', () => {
+  it('shows the translated strings and keeps the default for the rest', () => {
+    const localized = localizeNode(menu, 'hi', localization);
+    expect(localized.data).toMatchObject({ text: 'Ek chuniye', buttons: [{ id: 'yes', label: 'Yes' }] });
+    expect(localizeNode(menu, 'es', localization)).toBe(menu);
+    expect(localizeNode(menu, 'en', localization)).toBe(menu);
+  });
+});
+
+describe('findTranslationGaps and getTranslationCoverage', () => {
+  it('list the strings missing per node and locale, ignoring empty ones', () => {
+    const nodes = [menu, textNode('empty', '  ')];
+    expect(findTranslationGaps(nodes, localization)).toEqual([
+      { nodeId: 'menu', locale: 'hi', required: true, strings: [expect.objectContaining({ key: 'button:yes' })] },
+      { nodeId: 'menu', locale: 'es', required: false, strings: [expect.anything(), expect.anything()] },
+    ]);
+    expect(getTranslationCoverage(nodes, localization)).toEqual([
+      { locale: 'en', translated: 2, total: 2 },
+      { locale: 'hi', translated: 1, total: 2 },
+      { locale: 'es', translated: 0, total: 2 },
+    ]);
+  });
+});
+
+describe('changeDefaultLocale', () => {
+  it('swaps the translations with the node fields', () => {
+    const untouched = textNode('b', 'Bye');
+    const { nodes, localization: updated } = changeDefaultLocale([menu, untouched], localization, 'hi');
+
+    expect(updated.defaultLocale).toBe('hi');
+    expect(nodes[0].data).toMatchObject({ text: 'Ek chuniye', translations: { en: { text: 'Pick one' } } });
+    expect(nodes[1]).toBe(untouched);
+  });
+
+  it('ignores locales the flow does not have', () => {
+    const result = changeDefaultLocale([menu], localization, 'fr');
+    expect(result.localization).toBe(localization);
+  });
+});
+
+describe('removeLocale', () => {
+  it('drops the locale and its translations, but never the default locale', () => {
+    const { nodes, localization: updated } = removeLocale([menu], localization, 'hi');
+    expect(updated.locales.map((l) => l.code)).toEqual(['en', 'es']);
+    expect(nodes[0].data).toMatchObject({ translations: undefined });
+    expect(removeLocale([menu], localization, 'en').localization).toBe(localization);
+  });
+});
+
+describe('checkLocalization', () => {
+  it('accepts valid localizations', () => {
+    expect(checkLocalization(localization)).toEqual([]);
+  });
+
+  it('reports invalid codes, duplicates and a missing default locale', () => {
+    expect(
+      checkLocalization({
+        defaultLocale: 'fr',
+        locales: [{ code: 'en', required: true }, { code: 'en', required: true }, { code: 'English', required: 'yes' }],
+      })
+    ).toEqual([
+      'localization.locales[1].code: duplicate locale "en"',
+      'localization.locales[2].code: expected a language code like "hi" or "es-MX", got string "English"',
+      'localization.locales[2].required: expected a boolean, got string "yes"',
+      'localization.defaultLocale: expected one of the flow\'s locales, got string "fr"',
+    ]);
+  });
+
+  it('falls back to the default localization when parsing an invalid one', () => {
+    expect(parseLocalization(undefined)).toBe(DEFAULT_LOCALIZATION);
+    expect(parseLocalization(localization)).toBe(localization);
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Localization Utility
+ *
+ * This module contains the helpers behind multi-language flows. A flow lists
+ * its locales and names one of them the default locale (see
+ * FlowLocalization). The fields of a node hold its user-facing strings in
+ * the default locale; the values in the other locales are stored in the
+ * node's `translations`, keyed by locale code and by the string's key:
+ * ```json
+ * { "text": "Hello!", "translations": { "hi": { "text": "नमस्ते!" }, "es": { "text": "¡Hola!" } } }
+ * ```
+ *
+ * Which strings a node has, and their keys, is declared by its node type
+ * (localizedStrings in the node registry).
+ *
+ * Features:
+ * - Reading and writing translations
+ * - Localizing nodes for a locale, falling back to the default locale
+ * - Translation coverage: which nodes are missing which locales
+ * - Changing the default locale and removing locales
+ * - Checking the localization of stored and imported flows
+ */
+
+import type { AppNode, FlowLocalization, Translations } from '../types/flow';
+import { applyLocalizedStrings, getLocalizedStrings, isStepNode, type LocalizedString } from './nodeRegistry';
+import { describe, isObject } from './valueChecks';
+
+/** Localization of flows that never configured one */
+export const DEFAULT_LOCALIZATION: FlowLocalization = {
+  defaultLocale: 'en',
+  locales: [{ code: 'en', required: true }],
+};
+
+/** Shape of a locale code: a language, optionally followed by a region or script ("en", "es-MX") */
+export const LOCALE_CODE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+/** Readable names of locale codes, if the browser provides them */
+const displayNames = typeof Intl.DisplayNames === 'function' ? new Intl.DisplayNames(['en'], { type: 'language' }) : null;
+
+/**
+ * Get Locale Name
+ *
+ * @param code - A locale code
+ * @returns The locale's English name (e.g. "Hindi"), or the code if it is unknown
+ */
+export function getLocaleName(code: string): string {
+  try {
+    return displayNames?.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Validate Locale Code
+ *
+ * @param code - Proposed locale code
+ * @param localization - The flow's localization
+ * @returns Error message, or null if the locale can be added
+ */
+export function validateLocaleCode(code: string, localization: FlowLocalization): string | null {
+  if (!LOCALE_CODE_PATTERN.test(code)) {
+    return 'Use a language code like "hi" or "es-MX".';
+  }
+  if (localization.locales.some((l) => l.code === code)) {
+    return `"${code}" is already a locale of this flow.`;
+  }
+  return null;
+}
+
+/**
+ * Get Translations
+ *
+ * @param node - A node
+ * @returns The node's translations (empty for nodes without any)
+ */
+export function getTranslations(node: AppNode): Translations {
+  return ('translations' in node.data && node.data.translations) || {};
+}
+
+/**
+ * Get Localized Value
+ *
+ * @param node - A node
+ * @param key - Key of one of the node's strings
+ * @param locale - The locale to read
+ * @param localization - The flow's localization
+ * @returns The string in the locale: the node field for the default locale,
+ * otherwise the translation (empty if there is none)
+ */
+export function getLocalizedValue(node: AppNode, key: string, locale: string, localization: FlowLocalization): string {
+  if (locale === localization.defaultLocale) {
+    return getLocalizedStrings(node).find((s) => s.key === key)?.value ?? '';
+  }
+  return getTranslations(node)[locale]?.[key] ?? '';
+}
+
+/**
+ * Set Translation
+ *
+ * Empty values remove the translation, and locales left without any
+ * translation are dropped.
+ *
+ * @param translations - A node's translations, if it has any
+ * @param locale - The locale of the value
+ * @param key - Key of the string
+ * @param value - The translated string
+ * @returns The updated translations, or undefined if none are left
+ */
+export function setTranslation(
+  translations: Translations | undefined,
+  locale: string,
+  key: string,
+  value: string
+): Translations | undefined {
+  const strings = { ...translations?.[locale], [key]: value };
+  if (value === '') delete strings[key];
+
+  const updated = { ...translations, [locale]: strings };
+  if (Object.keys(strings).length === 0) delete updated[locale];
+  return Object.keys(updated).length > 0 ? updated : undefined;
+}
+
+/**
+ * Remove Translation Key
+ *
+ * @param translations - A node's translations, if it has any
+ * @param key - Key of a string the node no longer has (e.g. a removed button)
+ * @returns The translations without the string in any locale, or undefined if none are left
+ */
+export function removeTranslationKey(translations: Translations | undefined, key: string): Translations | undefined {
+  return Object.keys(translations ?? {}).reduce<Translations | undefined>(
+    (updated, locale) => setTranslation(updated, locale, key, ''),
+    translations
+  );
+}
+
+/**
+ * Get Missing Strings
+ *
+ * Strings that are empty in the default locale have nothing to translate
+ * and are never missing.
+ *
+ * @param node - A node
+ * @param locale - A locale other than the default one
+ * @returns The node's strings that have no translation into the locale
+ */
+export function getMissingStrings(node: AppNode, locale: string): LocalizedString[] {
+  const translated = getTranslations(node)[locale] ?? {};
+  return getLocalizedStrings(node).filter((s) => s.value.trim() !== '' && !translated[s.key]?.trim());
+}
+
+/**
+ * Localize Node
+ *
+ * @param node - A node
+ * @param locale - The locale to show
+ * @param localization - The flow's localization
+ * @returns The node with its strings in the locale; strings without a
+ * translation keep their default-locale value (the node itself for the
+ * default locale and for nodes without strings)
+ */
+export function localizeNode(node: AppNode, locale: string, localization: FlowLocalization): AppNode {
+  if (locale === localization.defaultLocale) return node;
+  const translated = getTranslations(node)[locale];
+  if (!translated) return node;
+
+  const values = Object.fromEntries(
+    getLocalizedStrings(node)
+      .filter((s) => translated[s.key]?.trim())
+      .map((s) => [s.key, translated[s.key]])
+  );
+  return Object.keys(values).length > 0 ? applyLocalizedStrings(node, values) : node;
+}
+
+/**
+ * Translation Gap Interface
+ *
+ * @property nodeId - ID of the node
+ * @property locale - The locale the node is missing
+ * @property required - Whether the locale is required
+ * @property strings - The node's strings without a translation into the locale
+ */
+export interface TranslationGap {
+  nodeId: string;
+  locale: string;
+  required: boolean;
+  strings: LocalizedString[];
+}
+
+/**
+ * Find Translation Gaps
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param localization - The flow's localization
+ * @returns Every node/locale pair with missing translations, by node and then
+ * in the order of the flow's locales
+ */
+export function findTranslationGaps(nodes: AppNode[], localization: FlowLocalization): TranslationGap[] {
+  const locales = localization.locales.filter((l) => l.code !== localization.defaultLocale);
+  return nodes.filter(isStepNode).flatMap((node) =>
+    locales.flatMap((locale) => {
+      const strings = getMissingStrings(node, locale.code);
+      return strings.length > 0 ? [{ nodeId: node.id, locale: locale.code, required: locale.required, strings }] : [];
+    })
+  );
+}
+
+/**
+ * Translation Coverage Interface
+ *
+ * @property locale - A locale of the flow
+ * @property translated - Number of strings that have a value in the locale
+ * @property total - Number of strings that need a value in the locale
+ */
+export interface TranslationCoverage {
+  locale: string;
+  translated: number;
+  total: number;
+}
+
+/**
+ * Get Translation Coverage
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param localization - The flow's localization
+ * @returns The coverage of every locale of the flow, in the flow's order (the
+ * default locale is always complete)
+ */
+export function getTranslationCoverage(nodes: AppNode[], localization: FlowLocalization): TranslationCoverage[] {
+  const strings = nodes.filter(isStepNode).map((node) => ({
+    node,
+    count: getLocalizedStrings(node).filter((s) => s.value.trim() !== '').length,
+  }));
+  const total = strings.reduce((sum, s) => sum + s.count, 0);
+
+  return localization.locales.map(({ code }) => ({
+    locale: code,
+    total,
+    translated:
+      code === localization.defaultLocale
+        ? total
+        : strings.reduce((sum, s) => sum + s.count - getMissingStrings(s.node, code).length, 0),
+  }));
+}
+
+/**
+ * Change Default Locale
+ *
+ * Makes another locale the default: its translations move into the node
+ * fields and the old default values become translations. Strings without a
+ * translation into the new default keep their value in the fields.
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param localization - The flow's localization
+ * @param code - Code of the new default locale (one of the flow's locales)
+ * @returns The updated nodes and localization (unchanged nodes keep their identity)
+ */
+export function changeDefaultLocale(
+  nodes: AppNode[],
+  localization: FlowLocalization,
+  code: string
+): { nodes: AppNode[]; localization: FlowLocalization } {
+  const from = localization.defaultLocale;
+  if (code === from || !localization.locales.some((l) => l.code === code)) return { nodes, localization };
+
+  const updated = nodes.map((node) => {
+    const strings = getLocalizedStrings(node);
+    if (strings.length === 0) return node;
+
+    const translations = { ...getTranslations(node) };
+    const incoming = translations[code] ?? {};
+    delete translations[code];
+
+    const values: Record<string, string> = {};
+    let old: Translations | undefined = translations;
+    strings.forEach((s) => {
+      if (!incoming[s.key]) return;
+      values[s.key] = incoming[s.key];
+      old = setTranslation(old, from, s.key, s.value);
+    });
+    if (Object.keys(values).length === 0 && !getTranslations(node)[code]) return node;
+
+    const localized = applyLocalizedStrings(node, values);
+    return { ...localized, data: { ...localized.data, translations: old } } as AppNode;
+  });
+
+  return { nodes: updated, localization: { ...localization, defaultLocale: code } };
+}
+
+/**
+ * Remove Locale
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param localization - The flow's localization
+ * @param code - Code of a locale other than the default one
+ * @returns The nodes without translations into the locale, and the
+ * localization without the locale (unchanged nodes keep their identity)
+ */
+export function removeLocale(
+  nodes: AppNode[],
+  localization: FlowLocalization,
+  code: string
+): { nodes: AppNode[]; localization: FlowLocalization } {
+  if (code === localization.defaultLocale) return { nodes, localization };
+
+  const updated = nodes.map((node) => {
+    const translations = getTranslations(node);
+    if (!(code in translations)) return node;
+    const rest = { ...translations };
+    delete rest[code];
+    const data = { ...node.data, translations: Object.keys(rest).length > 0 ? rest : undefined };
+    return { ...node, data } as AppNode;
+  });
+
+  return {
+    nodes: updated,
+    localization: { ...localization, locales: localization.locales.filter((l) => l.code !== code) },
+  };
+}
+
+/**
+ * Check Localization
+ *
+ * Checks the localization of a stored or imported flow.
+ *
+ * @param value - The untrusted localization
+ * @param path - Path of the value, used as the prefix of error messages
+ * @returns Readable, path-based problems (empty if the localization is valid)
+ */
+export function checkLocalization(value: unknown, path = 'localization'): string[] {
+  if (!isObject(value)) return [`${path}: expected an object, got ${describe(value)}`];
+  const errors: string[] = [];
+
+  if (!Array.isArray(value.locales) || value.locales.length === 0) {
+    return [`${path}.locales: expected a non-empty array, got ${describe(value.locales)}`];
+  }
+  const codes = new Set<string>();
+  (value.locales as unknown[]).forEach((locale, i) => {
+    const localePath = `${path}.locales[${i}]`;
+    if (!isObject(locale)) {
+      errors.push(`${localePath}: expected an object, got ${describe(locale)}`);
+      return;
+    }
+    if (typeof locale.code !== 'string' || !LOCALE_CODE_PATTERN.test(locale.code)) {
+      errors.push(`${localePath}.code: expected a language code like "hi" or "es-MX", got ${describe(locale.code)}`);
+    } else if (codes.has(locale.code)) {
+      errors.push(`${localePath}.code: duplicate locale "${locale.code}"`);
+    } else {
+      codes.add(locale.code);
+    }
+    if (typeof locale.required !== 'boolean') {
+      errors.push(`${localePath}.required: expected a boolean, got ${describe(locale.required)}`);
+    }
+  });
+
+  if (typeof value.defaultLocale !== 'string' || !codes.has(value.defaultLocale)) {
+    errors.push(`${path}.defaultLocale: expected one of the flow's locales, got ${describe(value.defaultLocale)}`);
+  }
+  return errors;
+}
+
+/**
+ * Parse Localization
+ *
+ * @param value - The localization of a stored flow, if it has one
+ * @returns The localization, or DEFAULT_LOCALIZATION if it is missing or invalid
+ */
+export function parseLocalization(value: unknown): FlowLocalization {
+  return checkLocalization(value).length === 0 ? (value as FlowLocalization) : DEFAULT_LOCALIZATION;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown } from './markdown';
+
+describe('parseInline', () => {
+  it('splits text into plain, code, bold and italic runs', () => {
+    expect(parseInline('Use `{{name}}` for **the _user_** or *them*')).toEqual([
+      { kind: 'text', text: 'Use ' },
+      { kind: 'code', text: '{{name}}' },
+      { kind: 'text', text: ' for ' },
+      { kind: 'bold', children: [{ kind: 'text', text: 'the ' }, { kind: 'italic', children: [{ kind: 'text', text: 'user' }] }] },
+      { kind: 'text', text: ' or ' },
+      { kind: 'italic', children: [{ kind: 'text', text: 'them' }] },
+    ]);
+  });
+
+  it('keeps http(s) and mailto links only', () => {
+    expect(parseInline('[Docs](https://example.com)')).toEqual([
+      { kind: 'link', href: 'https://example.com', children: [{ kind: 'text', text: 'Docs' }] },
+    ]);
+    expect(parseInline('[Run](javascript:alert(1))')).toEqual([
+      { kind: 'text', text: 'Run' },
+      { kind: 'text', text: ')' },
+    ]);
+  });
+
+  it('leaves lone markers as text', () => {
+    expect(parseInline('2 * 3 = 6')).toEqual([{ kind: 'text', text: '2 * 3 = 6' }]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('reads headings, paragraphs and lists', () => {
+    const blocks = parseMarkdown('# Title\nFirst line\nsecond line\n\n- one\n- two\ncontinued\n1. first\n2) second');
+    expect(blocks).toEqual([
+      { kind: 'heading', level: 1, content: [{ kind: 'text', text: 'Title' }] },
+      { kind: 'paragraph', content: [{ kind: 'text', text: 'First line\nsecond line' }] },
+      {
+        kind: 'list',
+        ordered: false,
+        items: [[{ kind: 'text', text: 'one' }], [{ kind: 'text', text: 'two continued' }]],
+      },
+      {
+        kind: 'list',
+        ordered: true,
+        items: [[{ kind: 'text', text: 'first' }], [{ kind: 'text', text: 'second' }]],
+      },
+    ]);
+  });
+
+  it('needs a space after heading and list markers', () => {
+    expect(parseMarkdown('#hashtag\n-5 degrees')).toEqual([
+      { kind: 'paragraph', content: [{ kind: 'text', text: '#hashtag\n-5 degrees' }] },
+    ]);
+  });
+
+  it('parses an empty note to nothing', () => {
+    expect(parseMarkdown('\n  \n')).toEqual([]);
+  });
+});
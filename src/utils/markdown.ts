@@ -0,0 +1,128 @@
+/**
+ * Markdown Utility
+ *
+ * This module parses the small subset of Markdown that sticky notes
+ * support into a tree the note component renders as React elements, so
+ * note content is never injected as HTML.
+ *
+ * Supported syntax:
+ * - Headings: `# `, `## ` and `### ` at the start of a line
+ * - Bullet lists (`- ` or `* `) and numbered lists (`1. ` or `1) `)
+ * - Paragraphs, separated by blank lines; single line breaks are kept
+ * - `**bold**`, `*italic*` or `_italic_`, and `` `code` ``
+ * - `[links](https://example.com)`; only http(s) and mailto links are kept,
+ *   other links are shown as their text
+ */
+
+/**
+ * Markdown Inline Type
+ *
+ * A run of text inside a block.
+ */
+export type MarkdownInline =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'bold' | 'italic'; children: MarkdownInline[] }
+  | { kind: 'link'; href: string; children: MarkdownInline[] };
+
+/**
+ * Markdown Block Type
+ *
+ * A heading, paragraph or list of a note.
+ */
+export type MarkdownBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3; content: MarkdownInline[] }
+  | { kind: 'paragraph'; content: MarkdownInline[] }
+  | { kind: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+/** Inline syntax: code, bold, italic (two forms) and links */
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s][^*]*)\*|_([^_\s][^_]*)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+/** Link targets that are kept */
+const SAFE_LINK_PATTERN = /^(https?:\/\/|mailto:)/i;
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const BULLET_PATTERN = /^[-*]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\d+[.)]\s+(.*)$/;
+
+/**
+ * Parse Inline
+ *
+ * @param text - Text of a block
+ * @returns The text split into plain, code, bold, italic and link runs
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const result: MarkdownInline[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) result.push({ kind: 'text', text: text.slice(last, index) });
+    last = index + match[0].length;
+
+    const [, code, bold, star, underscore, label, href] = match;
+    if (code !== undefined) result.push({ kind: 'code', text: code });
+    else if (bold !== undefined) result.push({ kind: 'bold', children: parseInline(bold) });
+    else if (star !== undefined || underscore !== undefined) {
+      result.push({ kind: 'italic', children: parseInline(star ?? underscore) });
+    } else if (SAFE_LINK_PATTERN.test(href)) {
+      result.push({ kind: 'link', href, children: parseInline(label) });
+    } else {
+      result.push(...parseInline(label));
+    }
+  }
+
+  if (last < text.length) result.push({ kind: 'text', text: text.slice(last) });
+  return result;
+}
+
+/**
+ * Parse Markdown
+ *
+ * @param source - Markdown text of a note
+ * @returns The note's blocks, top to bottom
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  /** Closes the open paragraph or list, if any */
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ kind: 'paragraph', content: parseInline(paragraph.join('\n')) });
+    if (list) blocks.push({ kind: 'list', ordered: list.ordered, items: list.items.map(parseInline) });
+    paragraph = [];
+    list = null;
+  };
+
+  source.split(/\r?\n/).forEach((raw) => {
+    const line = raw.trim();
+    const heading = HEADING_PATTERN.exec(line);
+    const bullet = BULLET_PATTERN.exec(line);
+    const numbered = NUMBERED_PATTERN.exec(line);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({
+        kind: 'heading',
+        level: heading[1].length as 1 | 2 | 3,
+        content: parseInline(heading[2]),
+      });
+    } else if (bullet || numbered) {
+      const ordered = !bullet;
+      if (paragraph.length > 0 || (list && list.ordered !== ordered)) flush();
+      list ??= { ordered, items: [] };
+      list.items.push((bullet ?? numbered)?.[1] ?? '');
+    } else if (list) {
+      // A line under a list item continues that item
+      list.items[list.items.length - 1] += ` ${line}`;
+    } else {
+      paragraph.push(line);
+    }
+  });
+
+  flush();
+  return blocks;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { MediaNodeData } from '../types/flow';
+import {
+  checkAttachment,
+  findMediaProblems,
+  formatFileSize,
+  getFileExtension,
+  getMediaFileName,
+  MAX_ATTACHMENT_SIZE,
+} from './media';
+
+const media = (fields: Partial<MediaNodeData> = {}): MediaNodeData => ({
+  mediaType: 'image',
+  source: 'url',
+  url: 'https://example.com/images/cat.png',
+  fileName: '',
+  caption: '',
+  type: 'media',
+  ...fields,
+});
+
+describe('file names', () => {
+  it('give the lowercase extension, ignoring query and hash', () => {
+    expect(getFileExtension('Report.PDF')).toBe('.pdf');
+    expect(getFileExtension('https://example.com/a.b/cat.jpg?size=2#top')).toBe('.jpg');
+    expect(getFileExtension('https://example.com/download')).toBe('');
+  });
+
+  it('fall back to the last part of the URL', () => {
+    expect(getMediaFileName(media({ url: 'https://example.com/my%20cat.png?x=1' }))).toBe('my cat.png');
+    expect(getMediaFileName(media({ fileName: ' cat.png ' }))).toBe('cat.png');
+    expect(getMediaFileName(media({ source: 'file', url: 'data:image/png;base64,AA' }))).toBe('');
+  });
+});
+
+describe('formatFileSize', () => {
+  it('shows KB below a megabyte and MB above', () => {
+    expect(formatFileSize(10)).toBe('1 KB');
+    expect(formatFileSize(340 * 1024)).toBe('340 KB');
+    expect(formatFileSize(2.5 * 1024 * 1024)).toBe('2.5 MB');
+    expect(formatFileSize(3 * 1024 * 1024)).toBe('3 MB');
+  });
+});
+
+describe('checkAttachment', () => {
+  it('accepts small files of the node kind', () => {
+    expect(checkAttachment({ name: 'cat.PNG', size: MAX_ATTACHMENT_SIZE }, 'image')).toBeNull();
+  });
+
+  it('refuses other file types and files over the attachment limit', () => {
+    expect(checkAttachment({ name: 'song.mp3', size: 10 }, 'image')).toBe(
+      '"song.mp3" is not a supported image (.jpg, .jpeg, .png, .gif, .webp).'
+    );
+    expect(checkAttachment({ name: 'cat.png', size: 150 * 1024 }, 'image')).toBe(
+      '"cat.png" is 150 KB; files up to 100 KB can be attached. Host larger files and link them instead.'
+    );
+  });
+});
+
+describe('findMediaProblems', () => {
+  it('finds nothing wrong with a linked image', () => {
+    expect(findMediaProblems(media())).toEqual([]);
+    expect(findMediaProblems(media({ url: 'https://example.com/download?id=4' }))).toEqual([]);
+  });
+
+  it('reports missing media', () => {
+    expect(findMediaProblems(media({ url: ' ' }))).toEqual(['Media has no URL.']);
+    expect(findMediaProblems(media({ source: 'file', url: '' }))).toEqual(['No file is attached.']);
+    expect(findMediaProblems(media({ source: 'file', url: 'blob:x', fileName: 'cat.png' }))).toEqual([
+      'The attached file is missing; attach it again.',
+    ]);
+  });
+
+  it('reports invalid URLs, file types and sizes', () => {
+    expect(findMediaProblems(media({ url: 'ftp://example.com/cat.png' }))).toEqual([
+      'Media URL must be a web address starting with http:// or https://.',
+    ]);
+    expect(
+      findMediaProblems(media({ url: 'https://example.com/clip.mov', fileSize: 6 * 1024 * 1024 }))
+    ).toEqual([
+      '.mov is not a supported image type (.jpg, .jpeg, .png, .gif, .webp).',
+      'Images can be at most 5 MB; this file is 6 MB.',
+    ]);
+  });
+});
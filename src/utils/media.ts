@@ -0,0 +1,194 @@
+/**
+ * Media Utility
+ *
+ * This module describes the kinds of media a media node can send (images,
+ * videos, audio and documents): the file types and the largest files each
+ * kind accepts, and the checks the settings panel and the validation rules
+ * run on a node's media.
+ *
+ * Media is either linked by URL, so the channel fetches it when the message
+ * is sent, or attached to the flow as a data URL. Flows (attached files
+ * included) are kept in browser storage, which only holds a few MB, and
+ * every flow is stored several times over: in the library, on the mock
+ * server and in each of its revisions. Attachments are therefore limited to
+ * MAX_ATTACHMENT_SIZE, meant for small images and documents; larger files
+ * should be hosted and linked.
+ */
+
+import type { MediaKind, MediaNodeData } from '../types/flow';
+
+/**
+ * Media Kind Info Interface
+ *
+ * @property kind - The media kind
+ * @property label - User-facing name of the kind
+ * @property extensions - File extensions of the kind, lowercase with a leading dot
+ * @property maxSize - Largest file the channels deliver for the kind, in MB
+ * @property iconPath - SVG path data of the kind's 24x24 outline icon
+ */
+export interface MediaKindInfo {
+  kind: MediaKind;
+  label: string;
+  extensions: string[];
+  maxSize: number;
+  iconPath: string;
+}
+
+/**
+ * Media Kinds
+ *
+ * The size limits are those of WhatsApp, the strictest of the supported
+ * channels for outgoing media.
+ */
+export const MEDIA_KINDS: MediaKindInfo[] = [
+  {
+    kind: 'image',
+    label: 'Image',
+    extensions: ['.jpg', '.jpeg', '.png', '.gif', '.webp'],
+    maxSize: 5,
+    iconPath: 'M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z',
+  },
+  {
+    kind: 'video',
+    label: 'Video',
+    extensions: ['.mp4', '.3gp', '.mov', '.webm'],
+    maxSize: 16,
+    iconPath: 'M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z',
+  },
+  {
+    kind: 'audio',
+    label: 'Audio',
+    extensions: ['.mp3', '.ogg', '.aac', '.amr', '.m4a', '.wav'],
+    maxSize: 16,
+    iconPath: 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3',
+  },
+  {
+    kind: 'document',
+    label: 'Document',
+    extensions: ['.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.txt', '.csv'],
+    maxSize: 100,
+    iconPath: 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z',
+  },
+];
+
+/** Largest file that can be attached to a flow, in bytes */
+export const MAX_ATTACHMENT_SIZE = 100 * 1024;
+
+/** Bytes per MB */
+const MB = 1024 * 1024;
+
+/**
+ * Get Media Kind Info
+ *
+ * @param kind - A media kind
+ * @returns The kind's file types and limits
+ */
+export function getMediaKindInfo(kind: MediaKind): MediaKindInfo {
+  return MEDIA_KINDS.find((k) => k.kind === kind) ?? MEDIA_KINDS[MEDIA_KINDS.length - 1];
+}
+
+/**
+ * Get File Extension
+ *
+ * @param name - A file name or URL
+ * @returns The lowercase extension with a leading dot, or an empty string if there is none
+ */
+export function getFileExtension(name: string): string {
+  const path = name.split(/[?#]/)[0];
+  const match = /\.([A-Za-z0-9]+)$/.exec(path.slice(path.lastIndexOf('/') + 1));
+  return match ? `.${match[1].toLowerCase()}` : '';
+}
+
+/**
+ * Get Media File Name
+ *
+ * @param data - A media node's data
+ * @returns The node's file name, or the last part of its URL if it has none
+ */
+export function getMediaFileName(data: MediaNodeData): string {
+  if (data.fileName.trim()) return data.fileName.trim();
+  if (data.source !== 'url') return '';
+  const path = data.url.split(/[?#]/)[0];
+  try {
+    return decodeURIComponent(path.slice(path.lastIndexOf('/') + 1));
+  } catch {
+    return path.slice(path.lastIndexOf('/') + 1);
+  }
+}
+
+/**
+ * Format File Size
+ *
+ * @param bytes - A size in bytes
+ * @returns The size in KB or MB, e.g. "340 KB" or "2.5 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < MB) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / MB).toFixed(1).replace(/\.0$/, '')} MB`;
+}
+
+/**
+ * Check Attachment
+ *
+ * Checks a file before it is attached to a media node.
+ *
+ * @param file - Name and size (bytes) of the file
+ * @param kind - The kind of media the node sends
+ * @returns Error message, or null if the file can be attached
+ */
+export function checkAttachment(file: { name: string; size: number }, kind: MediaKind): string | null {
+  const info = getMediaKindInfo(kind);
+  const extension = getFileExtension(file.name);
+  if (!info.extensions.includes(extension)) {
+    return `"${file.name}" is not a supported ${info.label.toLowerCase()} (${info.extensions.join(', ')}).`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `"${file.name}" is ${formatFileSize(file.size)}; files up to ${formatFileSize(MAX_ATTACHMENT_SIZE)} can be attached. Host larger files and link them instead.`;
+  }
+  return null;
+}
+
+/**
+ * Find Media Problems
+ *
+ * @param data - A media node's data
+ * @returns Readable problems with the node's media (empty if it can be sent)
+ */
+export function findMediaProblems(data: MediaNodeData): string[] {
+  const info = getMediaKindInfo(data.mediaType);
+  const url = data.url.trim();
+  if (!url) return [data.source === 'file' ? 'No file is attached.' : 'Media has no URL.'];
+
+  const problems: string[] = [];
+  if (data.source === 'url' && !/^https?:\/\/[^\s/]+\.[^\s]+$/i.test(url)) {
+    problems.push('Media URL must be a web address starting with http:// or https://.');
+  }
+  if (data.source === 'file' && !url.startsWith('data:')) {
+    problems.push('The attached file is missing; attach it again.');
+  }
+
+  // Links without a file name or extension (e.g. generated download links) cannot be checked
+  const extension = getFileExtension(getMediaFileName(data));
+  if (extension && !info.extensions.includes(extension)) {
+    problems.push(`${extension} is not a supported ${info.label.toLowerCase()} type (${info.extensions.join(', ')}).`);
+  }
+  if (data.fileSize !== undefined && data.fileSize > info.maxSize * MB) {
+    problems.push(`${info.label}s can be at most ${info.maxSize} MB; this file is ${formatFileSize(data.fileSize)}.`);
+  }
+  return problems;
+}
+
+/**
+ * Read File As Data URL
+ *
+ * @param file - A file picked by the user
+ * @returns A promise of the file's contents as a data URL
+ */
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('The file could not be read.'));
+    reader.readAsDataURL(file);
+  });
+}
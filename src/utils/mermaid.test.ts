@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppEdge, AppNode } from '../types/flow';
+import { groupNodes } from './groups';
+import { escapeMermaidLabel, MERMAID_LABEL_LENGTH, toMermaid } from './mermaid';
+import { createNode } from './nodeRegistry';
+
+const textNode = (id: string, text = id, x = 0): AppNode => ({
+  id,
+  type: 'text',
+  position: { x, y: 0 },
+  data: { text, type: 'text' },
+});
+
+const menu: AppNode = {
+  id: 'menu',
+  type: 'buttons',
+  position: { x: 300, y: 0 },
+  data: {
+    text: 'Pick one',
+    buttons: [
+      { id: 'sales', label: 'Sales' },
+      { id: 'support', label: 'Support' },
+    ],
+    maxButtons: 3,
+    type: 'buttons',
+  },
+};
+
+const edge = (source: string, target: string, sourceHandle?: string): AppEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  sourceHandle,
+});
+
+/** The diagram without its classDef/class styling lines */
+const structure = (diagram: string) =>
+  diagram
+    .split('\n')
+    .filter((line) => !/^\s*class(Def)? /.test(line))
+    .join('\n');
+
+describe('escapeMermaidLabel', () => {
+  it('replaces the characters that break quoted labels', () => {
+    expect(escapeMermaidLabel('Say "hi" | <b>#1</b> `x`')).toBe(
+      'Say #quot;hi#quot; #124; #lt;b#gt;#35;1#lt;/b#gt; #96;x#96;'
+    );
+  });
+
+  it('collapses whitespace and truncates long labels', () => {
+    expect(escapeMermaidLabel(' a\n\n b ')).toBe('a b');
+    const label = escapeMermaidLabel('x'.repeat(100));
+    expect(label).toHaveLength(MERMAID_LABEL_LENGTH);
+    expect(label.endsWith('…')).toBe(true);
+  });
+});
+
+describe('toMermaid', () => {
+  it('writes nodes, edges labeled with their quick reply, and type colors', () => {
+    const diagram = toMermaid(
+      [textNode('welcome', 'Hello!'), menu, textNode('sales-1', 'Sales team')],
+      [edge('welcome', 'menu'), edge('menu', 'sales-1', 'sales')]
+    );
+
+    expect(structure(diagram)).toBe(
+      [
+        'flowchart LR',
+        '    welcome["Hello!"]',
+        '    menu["Pick one"]',
+        '    sales_1["Sales team"]',
+        '    welcome --> menu',
+        '    menu -->|"Sales"| sales_1',
+        '',
+      ].join('\n')
+    );
+    expect(diagram).toContain('    class welcome,sales_1 text\n');
+  });
+
+  it('writes groups as subgraphs and leaves notes out', () => {
+    const note = { ...createNode('note', { x: 0, y: 300 })!, id: 'note' } as AppNode;
+    const grouped = groupNodes([textNode('a'), textNode('b', 'b', 300), note], ['a']);
+    if (!grouped.ok) throw new Error(grouped.reason);
+
+    const diagram = structure(toMermaid(grouped.nodes, []));
+    expect(diagram).toContain(`    subgraph ${grouped.groupId.replace(/[^A-Za-z0-9_]/g, '_')} ["Group"]\n        a["a"]\n    end`);
+    expect(diagram).toContain('\n    b["b"]');
+    expect(diagram).not.toContain('note');
+  });
+
+  it('makes node IDs safe and unique', () => {
+    const diagram = structure(toMermaid([textNode('end'), textNode('1'), textNode('a-b'), textNode('a_b')], []));
+    expect(diagram.split('\n').slice(1, 5)).toEqual(['    n_end["end"]', '    n_1["1"]', '    a_b["a-b"]', '    a_b_2["a_b"]']);
+  });
+
+  it('writes only the given nodes and the edges between them', () => {
+    const diagram = structure(toMermaid([textNode('a'), textNode('b')], [edge('a', 'b')], new Set(['a'])));
+    expect(diagram).toBe('flowchart LR\n    a["a"]\n');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Mermaid Export Utility
+ *
+ * This module writes a flow as a Mermaid `flowchart LR` diagram, so flows
+ * can live in markdown files, design docs and PR descriptions.
+ *
+ * Diagram Format:
+ * ```mermaid
+ * flowchart LR
+ *     text_1["Hello! How can we help?"]
+ *     buttons_2["Pick one"]
+ *     text_1 --> buttons_2
+ *     buttons_2 -->|"Sales"| text_3
+ * ```
+ *
+ * - Every node is labeled with the start of its message (or its upload
+ *   label, the name of the subflow it calls, or the request it sends),
+ *   shaped by its type
+ * - Edges are labeled with their own label, or with the quick reply or
+ *   branch they leave from
+ * - Groups become subgraphs around their members
+ * - Sticky notes are left out: they have no connections to draw
+ * - Labels are truncated and escaped with Mermaid entity codes, so quotes,
+ *   brackets and pipes in messages cannot break the diagram
+ */
+
+import type { AppEdge, AppNode } from '../types/flow';
+import { isGroupNode } from './groups';
+import { getNodeType, getSourceHandleLabel, isAnnotationNode } from './nodeRegistry';
+import { getSubflowInterface } from './subflows';
+
+/** Number of characters kept of node and edge labels */
+export const MERMAID_LABEL_LENGTH = 40;
+
+/** Opening and closing brackets of the node shapes, by node type */
+const SHAPES: Record<string, [string, string]> = {
+  condition: ['{', '}'],
+  api: ['[(', ')]'],
+  fileUpload: ['[/', '/]'],
+  subflow: ['[[', ']]'],
+};
+
+/** Shape of node types without an entry in SHAPES */
+const DEFAULT_SHAPE: [string, string] = ['[', ']'];
+
+/** Words Mermaid reads as keywords rather than node IDs */
+const RESERVED_IDS = new Set(['end', 'graph', 'flowchart', 'subgraph', 'direction', 'style', 'class', 'classdef', 'click']);
+
+/**
+ * Escape Mermaid Label
+ *
+ * Collapses whitespace, truncates the text and replaces the characters that
+ * end or break a quoted Mermaid label with entity codes.
+ *
+ * @param text - A node or edge label
+ * @returns The label, safe to put between double quotes
+ */
+export function escapeMermaidLabel(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const short = flat.length > MERMAID_LABEL_LENGTH ? `${flat.slice(0, MERMAID_LABEL_LENGTH - 1).trimEnd()}…` : flat;
+  return short
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+    .replace(/\|/g, '#124;')
+    .replace(/`/g, '#96;');
+}
+
+/**
+ * Node Label Helper
+ *
+ * @param node - A node
+ * @returns What the node says or does, or its type's name if that is empty
+ */
+function nodeLabel(node: AppNode): string {
+  const data: Record<string, unknown> = node.data;
+  let label = '';
+  if (node.type === 'subflow') label = getSubflowInterface(node.data.subflowId)?.flow.name ?? '';
+  else if (node.type === 'media') label = node.data.caption || node.data.fileName;
+  else if (node.type === 'api') label = node.data.url.trim() && `${node.data.method} ${node.data.url.trim()}`;
+  else if (typeof data.text === 'string') label = data.text;
+  else if (typeof data.label === 'string') label = data.label;
+  return label.trim() || (getNodeType(node.type)?.palette.label ?? node.type);
+}
+
+/**
+ * Mermaid IDs Helper
+ *
+ * @param nodes - The nodes in the diagram
+ * @returns A Mermaid-safe, unique ID for every node, keyed by node ID
+ */
+function mermaidIds(nodes: AppNode[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const taken = new Set<string>();
+  nodes.forEach((node) => {
+    let base = node.id.replace(/[^A-Za-z0-9_]/g, '_');
+    if (!/^[A-Za-z]/.test(base) || RESERVED_IDS.has(base.toLowerCase())) base = `n_${base}`;
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}_${n}`;
+    taken.add(id);
+    ids.set(node.id, id);
+  });
+  return ids;
+}
+
+/**
+ * To Mermaid
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges in the flow
+ * @param nodeIds - Only write these nodes and the edges between them (all nodes if omitted)
+ * @returns The flow as a Mermaid flowchart, ending with a newline
+ */
+export function toMermaid(nodes: AppNode[], edges: AppEdge[], nodeIds?: ReadonlySet<string>): string {
+  const included = nodes.filter((n) => (!nodeIds || nodeIds.has(n.id)) && !isAnnotationNode(n));
+  const byId = new Map(included.map((n) => [n.id, n]));
+  const ids = mermaidIds(included);
+  const lines = ['flowchart LR'];
+
+  /**
+   * Write Node Helper
+   *
+   * @param node - A node to declare
+   * @param indent - Indentation of the line
+   */
+  const writeNode = (node: AppNode, indent: string) => {
+    const [open, close] = SHAPES[node.type] ?? DEFAULT_SHAPE;
+    lines.push(`${indent}${ids.get(node.id)}${open}"${escapeMermaidLabel(nodeLabel(node))}"${close}`);
+  };
+
+  // Groups are subgraphs; members whose group is left out are written on their own
+  const groups = included.filter(isGroupNode);
+  const grouped = new Set<string>();
+  groups.forEach((group) => {
+    const members = included.filter((n) => n.parentId === group.id);
+    lines.push(`    subgraph ${ids.get(group.id)} ["${escapeMermaidLabel(group.data.label || 'Group')}"]`);
+    members.forEach((member) => {
+      writeNode(member, '        ');
+      grouped.add(member.id);
+    });
+    lines.push('    end');
+  });
+  included.filter((n) => !isGroupNode(n) && !grouped.has(n.id)).forEach((n) => writeNode(n, '    '));
+
+  edges.forEach((edge) => {
+    const source = byId.get(edge.source);
+    if (!source || !byId.has(edge.target)) return;
+    const label =
+      (typeof edge.label === 'string' && edge.label.trim()) ||
+      (edge.sourceHandle ? getSourceHandleLabel(source, edge.sourceHandle) : undefined);
+    const arrow = label ? `-->|"${escapeMermaidLabel(label)}"|` : '-->';
+    lines.push(`    ${ids.get(edge.source)} ${arrow} ${ids.get(edge.target)}`);
+  });
+
+  // Borders in the colors of the node types, as on the canvas
+  const byType = new Map<string, string[]>();
+  included
+    .filter((n) => !isGroupNode(n))
+    .forEach((n) => byType.set(n.type, [...(byType.get(n.type) ?? []), ids.get(n.id) ?? '']));
+  byType.forEach((members, type) => {
+    const color = getNodeType(type)?.palette.color;
+    if (!color) return;
+    lines.push(`    classDef ${type} fill:#fff,stroke:${color},stroke-width:2px`);
+    lines.push(`    class ${members.join(',')} ${type}`);
+  });
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import { installMemoryStorage, type MemoryStorage } from '../test/memoryStorage';
+import { createFlowApi } from './flowApi';
+import { createFlowRecord } from './flowStorage';
+import { createMockFlowServer, MOCK_API_BASE_URL } from './mockFlowServer';
+
+const flow = createFlowRecord('Welcome', [], []);
+
+const connect = () => {
+  const server = createMockFlowServer({ latencyMs: 0 });
+  return createFlowApi({ baseUrl: MOCK_API_BASE_URL, fetch: server.fetch, retries: 0 });
+};
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = installMemoryStorage();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createMockFlowServer', () => {
+  it('keeps its flows across page loads', async () => {
+    await connect().createFlow(flow);
+    expect(await connect().getFlow(flow.id)).toMatchObject({ ok: true, value: { name: 'Welcome', version: 1 } });
+  });
+
+  it('rolls back writes that browser storage refuses', async () => {
+    const api = connect();
+    await api.createFlow(flow);
+    storage.quota = storage.used;
+
+    expect(await api.updateFlow({ ...flow, name: 'A much longer name' }, 1)).toMatchObject({
+      ok: false,
+      error: { kind: 'server', status: 507 },
+    });
+    expect(await api.getFlow(flow.id)).toMatchObject({ ok: true, value: { name: 'Welcome', version: 1 } });
+  });
+
+  it('requires updates to name the version they are based on', async () => {
+    const api = connect();
+    await api.createFlow(flow);
+    const response = await createMockFlowServer({ latencyMs: 0 }).fetch(`${MOCK_API_BASE_URL}/flows/${flow.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(flow),
+    });
+    expect(response.status).toBe(428);
+  });
+});
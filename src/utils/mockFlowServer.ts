@@ -0,0 +1,296 @@
+/**
+ * Mock Flow Server
+ *
+ * This module implements the flow backend (see flowApi.ts) inside the
+ * browser, so the save/load integration can be developed and tried offline.
+ * It is a drop-in `fetch` that answers the API's endpoints from an
+ * in-memory store, with the same status codes, `ETag` headers and version
+ * checks as the real server.
+ *
+ * The store is mirrored to browser storage so flows survive a page refresh,
+ * as they would on a real server. Changes only take effect once they are
+ * stored: if browser storage refuses a write (e.g. because it is full), the
+ * change is rolled back and the request fails with 507 Insufficient Storage,
+ * so a retry is checked against the version that was actually kept.
+ *
+ * Network latency is simulated, and helpers make the server fail or change
+ * a flow "behind the user's back" to try out retries and conflict
+ * resolution. In development the server is exposed as
+ * `window.mockFlowServer` for that purpose.
+ *
+ * Storage Layout:
+ * - `bitespeed.mockServer` -> Record of flow ID to the stored RemoteFlow
+ */
+
+import type { RemoteFlow } from './flowApi';
+import { formatETag, parseETag } from './flowApi';
+import { isObject } from './valueChecks';
+
+/** Storage key of the server's flows */
+const STORAGE_KEY = 'bitespeed.mockServer';
+
+/** Base URL the mock server answers on */
+export const MOCK_API_BASE_URL = '/mock-api';
+
+/**
+ * Mock Flow Server Options Interface
+ *
+ * @property latencyMs - Simulated response time of every request
+ * @property persist - Whether the flows are mirrored to browser storage
+ */
+export interface MockFlowServerOptions {
+  latencyMs?: number;
+  persist?: boolean;
+}
+
+/**
+ * Mock Flow Server Interface
+ *
+ * The server's fetch function plus helpers for simulating trouble.
+ */
+export interface MockFlowServer {
+  /** Answers a request to the flow API */
+  fetch: typeof fetch;
+  /** Makes the next `count` requests fail with `status` (or a network error for 0) */
+  failNext: (count: number, status?: number) => void;
+  /**
+   * Saves a new version of a flow as if another user had edited it: the
+   * flow is renamed (or changed by `edit`) and its version incremented
+   */
+  editRemotely: (id: string, edit?: (flow: RemoteFlow) => RemoteFlow) => RemoteFlow | null;
+  /** Removes every flow from the server */
+  reset: () => void;
+}
+
+/**
+ * JSON Response Helper
+ *
+ * @param status - HTTP status
+ * @param body - Value to send as JSON
+ * @param version - Version to send as the `ETag` header, if any
+ * @returns The response
+ */
+function json(status: number, body: unknown, version?: number): Response {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (version !== undefined) headers.ETag = formatETag(version);
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+/**
+ * Error Response Helper
+ *
+ * @param status - HTTP status
+ * @param error - Readable reason
+ * @param current - The stored flow, sent along with conflicts
+ * @returns The response
+ */
+const failure = (status: number, error: string, current?: RemoteFlow) =>
+  json(status, current ? { error, current } : { error });
+
+/**
+ * Load Flows Helper
+ *
+ * @returns The flows stored in browser storage, skipping malformed entries
+ */
+function loadFlows(): Map<string, RemoteFlow> {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    if (!isObject(raw)) return new Map();
+    return new Map(
+      Object.entries(raw).filter(
+        (entry): entry is [string, RemoteFlow] => isObject(entry[1]) && typeof entry[1].version === 'number'
+      )
+    );
+  } catch {
+    return new Map();
+  }
+}
+
+/**
+ * Wait Helper
+ *
+ * @param ms - Time to wait
+ * @param signal - Aborts the wait
+ * @returns A promise resolved after the time, or rejected when aborted
+ */
+const wait = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was aborted.', 'AbortError'));
+    });
+  });
+
+/**
+ * Create Mock Flow Server
+ *
+ * @param options - Latency and persistence
+ * @returns A new server
+ */
+export function createMockFlowServer(options: MockFlowServerOptions = {}): MockFlowServer {
+  const { latencyMs = 300, persist = true } = options;
+  const flows = persist ? loadFlows() : new Map<string, RemoteFlow>();
+  // Failures queued by failNext, as statuses (0 for a network error)
+  const failures: number[] = [];
+
+  /**
+   * Save Helper
+   *
+   * Mirrors the flows to browser storage.
+   *
+   * @returns True if the flows were stored (or are not persisted)
+   */
+  const save = (): boolean => {
+    if (!persist) return true;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(flows)));
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  /**
+   * Commit Helper
+   *
+   * Applies a change to the flows and stores them, undoing the change if
+   * they cannot be stored.
+   *
+   * @param change - Changes the flows in place
+   * @returns True if the change was stored
+   */
+  const commit = (change: () => void): boolean => {
+    const previous = new Map(flows);
+    change();
+    if (save()) return true;
+    flows.clear();
+    previous.forEach((flow, id) => flows.set(id, flow));
+    return false;
+  };
+
+  /** Answer to a write that could not be stored */
+  const storageFailure = () => failure(507, 'The server could not store the change.');
+
+  /**
+   * Store Helper
+   *
+   * @param body - The request body of a write
+   * @param id - ID of the flow being written
+   * @param version - Version of the new copy
+   * @param status - Status of the response when the flow is stored
+   * @returns The response: the stored flow, or why it was not stored
+   */
+  const store = (body: unknown, id: string, version: number, status: number): Response => {
+    if (!isObject(body) || typeof body.name !== 'string') return failure(400, 'The body is not a flow.');
+    if (!Array.isArray(body.nodes) || !Array.isArray(body.edges)) return failure(400, 'The body is not a flow.');
+    const now = Date.now();
+    const flow = {
+      ...body,
+      id,
+      createdAt: flows.get(id)?.createdAt ?? (typeof body.createdAt === 'number' ? body.createdAt : now),
+      updatedAt: typeof body.updatedAt === 'number' ? body.updatedAt : now,
+      variables: Array.isArray(body.variables) ? body.variables : [],
+      version,
+    } as RemoteFlow;
+    if (!commit(() => flows.set(id, flow))) return storageFailure();
+    return json(status, flow, flow.version);
+  };
+
+  /**
+   * Handle Helper
+   *
+   * Answers a request that got through the simulated network.
+   *
+   * @param method - HTTP method
+   * @param path - Path below the base URL
+   * @param headers - Request headers
+   * @param body - Parsed request body, if any
+   * @returns The response
+   */
+  const handle = (method: string, path: string, headers: Headers, body: unknown): Response => {
+    if (path === '/flows') {
+      if (method === 'GET') {
+        const summaries = [...flows.values()].map(({ id, name, createdAt, updatedAt, version }) => ({
+          id,
+          name,
+          createdAt,
+          updatedAt,
+          version,
+        }));
+        return json(200, { flows: summaries });
+      }
+      if (method === 'POST') {
+        const id = isObject(body) && typeof body.id === 'string' ? body.id : '';
+        if (!id) return failure(400, 'The flow has no ID.');
+        const existing = flows.get(id);
+        if (existing) return failure(409, 'A flow with this ID already exists.', existing);
+        return store(body, id, 1, 201);
+      }
+      return failure(405, `${method} is not allowed here.`);
+    }
+
+    const match = path.match(/^\/flows\/([^/]+)$/);
+    if (!match) return failure(404, 'Unknown endpoint.');
+    const id = decodeURIComponent(match[1]);
+    const existing = flows.get(id);
+    if (!existing) return failure(404, 'The flow does not exist.');
+
+    // Writes must be based on the stored version
+    const ifMatch = headers.get('If-Match');
+    const stale = ifMatch !== null && ifMatch !== '*' && parseETag(ifMatch) !== existing.version;
+
+    switch (method) {
+      case 'GET':
+        return json(200, existing, existing.version);
+      case 'PUT': {
+        if (ifMatch === null) return failure(428, 'Updates need an If-Match header.');
+        if (stale) return failure(412, 'The flow was changed by someone else.', existing);
+        return store(body, id, existing.version + 1, 200);
+      }
+      case 'DELETE':
+        if (stale) return failure(412, 'The flow was changed by someone else.', existing);
+        if (!commit(() => flows.delete(id))) return storageFailure();
+        return new Response(null, { status: 204 });
+      default:
+        return failure(405, `${method} is not allowed here.`);
+    }
+  };
+
+  return {
+    fetch: async (input, init = {}) => {
+      const request = new Request(new URL(String(input instanceof Request ? input.url : input), 'http://localhost'), init);
+      await wait(latencyMs, init.signal);
+
+      const queued = failures.shift();
+      if (queued === 0) throw new TypeError('Failed to fetch');
+      if (queued !== undefined) return failure(queued, 'Simulated server failure.');
+
+      const url = new URL(request.url);
+      const path = url.pathname.startsWith(MOCK_API_BASE_URL) ? url.pathname.slice(MOCK_API_BASE_URL.length) : url.pathname;
+      const text = await request.text();
+      let body: unknown;
+      try {
+        body = text ? JSON.parse(text) : undefined;
+      } catch {
+        return json(400, { error: 'The body is not valid JSON.' });
+      }
+      return handle(request.method, path, request.headers, body);
+    },
+
+    failNext: (count, status = 503) => {
+      for (let i = 0; i < count; i++) failures.push(status);
+    },
+
+    editRemotely: (id, edit = (flow) => ({ ...flow, name: `${flow.name} (edited elsewhere)` })) => {
+      const existing = flows.get(id);
+      if (!existing) return null;
+      const flow = { ...edit(existing), id, version: existing.version + 1, updatedAt: Date.now() };
+      return commit(() => flows.set(id, flow)) ? flow : null;
+    },
+
+    reset: () => {
+      commit(() => flows.clear());
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppNode } from '../types/flow';
+import {
+  createNode,
+  getNodeTypes,
+  getPaletteNodeTypes,
+  getSourceHandleIds,
+  isNodeOfType,
+  isStepNode,
+} from './nodeRegistry';
+import { checkNodeData } from './schemaChecks';
+
+describe('built-in node types', () => {
+  it('are registered in palette order', () => {
+    expect(getNodeTypes().map((d) => d.type)).toEqual([
+      'text',
+      'buttons',
+      'media',
+      'fileUpload',
+      'condition',
+      'api',
+      'subflow',
+      'nodeGroup',
+      'note',
+    ]);
+  });
+
+  it('keep containers out of the palette', () => {
+    expect(getPaletteNodeTypes().map((d) => d.type)).not.toContain('nodeGroup');
+  });
+
+  it.each(getNodeTypes().map((d) => d.type))('create %s nodes whose data matches their schema', (type) => {
+    const node = createNode(type, { x: 10, y: 20 });
+    expect(node).toMatchObject({ type, position: { x: 10, y: 20 } });
+    expect(checkNodeData(type, node?.data)).toMatchObject({ ok: true });
+  });
+});
+
+describe('createNode', () => {
+  it('returns null for unknown types', () => {
+    expect(createNode('unknown', { x: 0, y: 0 })).toBeNull();
+  });
+});
+
+describe('node helpers', () => {
+  const buttons = createNode('buttons', { x: 0, y: 0 }) as AppNode;
+  const group = createNode('nodeGroup', { x: 0, y: 0 }) as AppNode;
+  const note = createNode('note', { x: 0, y: 0 }) as AppNode;
+
+  it('tell conversation steps from containers and annotations', () => {
+    expect(isStepNode(buttons)).toBe(true);
+    expect(isStepNode(group)).toBe(false);
+    expect(isStepNode(note)).toBe(false);
+  });
+
+  it('list one source handle per quick-reply button', () => {
+    const menu: AppNode = {
+      id: 'menu',
+      type: 'buttons',
+      position: { x: 0, y: 0 },
+      data: {
+        text: 'Pick',
+        buttons: [
+          { id: 'yes', label: 'Yes' },
+          { id: 'no', label: 'No' },
+        ],
+        maxButtons: 3,
+        type: 'buttons',
+      },
+    };
+    expect(getSourceHandleIds(menu)).toEqual(['yes', 'no']);
+  });
+
+  it('narrow nodes by type', () => {
+    expect([buttons, group, note].filter(isNodeOfType('note'))).toEqual([note]);
+  });
+});
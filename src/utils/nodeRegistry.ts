@@ -0,0 +1,288 @@
+/**
+ * Node Registry Utility
+ *
+ * This module holds the registry of node types. Each node type is described
+ * by a single definition that declares everything the rest of the app needs
+ * to know about it:
+ * - The component that renders it on the canvas
+ * - A factory for the data of newly created nodes
+ * - Palette metadata (label, icon, color, category)
+ * - The settings editor shown while a node of the type is selected
+ * - The schema its node data is checked against
+ * - Its handle layout and connection rules
+ * - Its user-facing strings, which can be translated (see localization.ts)
+ *
+ * The canvas, the nodes palette, the settings panel switch and the schema
+ * checks are all derived from the registry, so a node type can be added as a
+ * single module that registers its definition (see NodeTypes/index.ts).
+ *
+ * Container types (groups) only frame other nodes: they are not offered in
+ * the palette and are ignored by validation, the flow runner and the auto
+ * layout. Annotation types (notes) only document the flow: they are ignored
+ * by validation, the flow runner and the auto layout, and left out of
+ * runtime exports. Only the other types are steps of the conversation.
+ */
+
+import type { ComponentType } from 'react';
+import type { NodeProps, NodeTypes } from '@xyflow/react';
+import type { z } from 'zod';
+import type { AppNode, NodeDataMap, NodeType } from '../types/flow';
+
+/**
+ * Node Category Type
+ *
+ * Section of the nodes palette a node type is listed under.
+ */
+export type NodeCategory = 'Messages' | 'Input' | 'Logic' | 'Annotations';
+
+/** Order of the palette sections */
+export const NODE_CATEGORIES: NodeCategory[] = ['Messages', 'Input', 'Logic', 'Annotations'];
+
+/**
+ * Palette Metadata Interface
+ *
+ * @property label - Name of the node type shown in the palette
+ * @property category - Palette section the node type is listed under
+ * @property iconPath - SVG path data of the node type's 24x24 outline icon
+ * @property iconClassName - Tailwind classes coloring the icon and its background
+ * @property color - Theme color (hex), used e.g. by the minimap
+ */
+export interface NodePaletteInfo {
+  label: string;
+  category: NodeCategory;
+  iconPath: string;
+  iconClassName: string;
+  color: string;
+}
+
+/**
+ * Connection Rules Interface
+ *
+ * Limits on the connections of a node type, enforced while drawing and
+ * reconnecting edges (see connectionRules.ts).
+ *
+ * @property maxOutgoingPerHandle - Maximum number of edges leaving each source handle (default 1)
+ * @property acceptsIncoming - Whether other nodes may connect to nodes of this type (default true)
+ * @property canConnectTo - Extra check of a connection leaving a node of this type;
+ *   returns the reason it is not allowed, or null to allow it
+ */
+export interface ConnectionRules {
+  maxOutgoingPerHandle?: number;
+  acceptsIncoming?: boolean;
+  canConnectTo?(source: AppNode, target: AppNode): string | null;
+}
+
+/**
+ * Localized String Interface
+ *
+ * A user-facing string of a node that can be translated.
+ *
+ * @property key - Identifies the string within the node, e.g. "text" or "button:<id>"
+ * @property label - Readable name of the string, e.g. "Message" or "Button 2"
+ * @property value - The string in the flow's default locale
+ */
+export interface LocalizedString {
+  key: string;
+  label: string;
+  value: string;
+}
+
+/**
+ * Node Type Definition Interface
+ *
+ * Everything the application knows about one node type.
+ */
+export interface NodeTypeDefinition<K extends NodeType = NodeType> {
+  /** The node type, used as `node.type` */
+  type: K;
+  /** Renders nodes of this type on the canvas */
+  component: ComponentType<NodeProps<Extract<AppNode, { type: K }>>>;
+  /** Settings editor shown while a node of this type is selected */
+  SettingsPanel: ComponentType;
+  /** Palette metadata */
+  palette: NodePaletteInfo;
+  /** IDs of the target handles nodes of this type render */
+  targetHandles: string[];
+  /**
+   * Runtime schema of the node data, checked when nodes enter the store
+   * (load, import, paste) and when their data is edited
+   */
+  schema: z.ZodType<NodeDataMap[K]>;
+  /**
+   * Creates the data of a newly added node. Also supplies the defaults used
+   * to repair node data with missing fields.
+   */
+  createData(): NodeDataMap[K];
+  /** IDs of the source handles a node with the given data renders */
+  sourceHandles(data: NodeDataMap[K]): string[];
+  /** Readable name of a source handle (e.g. the button label), if it has one */
+  sourceHandleLabel?(data: NodeDataMap[K], handle: string): string | undefined;
+  /** User-facing strings of a node with the given data; omitted for types without any */
+  localizedStrings?(data: NodeDataMap[K]): LocalizedString[];
+  /** Replaces strings of the data with the given values, keyed like localizedStrings */
+  applyLocalizedStrings?(data: NodeDataMap[K], values: Record<string, string>): NodeDataMap[K];
+  /** Connection rules; the defaults apply if omitted */
+  connections?: ConnectionRules;
+  /** Whether nodes of this type are containers of other nodes rather than steps of the conversation */
+  container?: boolean;
+  /** Whether nodes of this type document the flow rather than being steps of the conversation */
+  annotation?: boolean;
+}
+
+/** Registered node types, in registration order */
+const registry = new Map<string, NodeTypeDefinition>();
+
+/**
+ * Register Node Type
+ *
+ * Adds a node type to the registry. Registering a type again replaces it.
+ *
+ * @param definition - The node type definition
+ */
+export function registerNodeType<K extends NodeType>(definition: NodeTypeDefinition<K>) {
+  registry.set(definition.type, definition as unknown as NodeTypeDefinition);
+}
+
+/**
+ * Get Node Type
+ *
+ * @param type - A node type
+ * @returns The type's definition, or undefined if the type is not registered
+ */
+export function getNodeType(type: string | undefined): NodeTypeDefinition | undefined {
+  return type ? registry.get(type) : undefined;
+}
+
+/**
+ * Get Node Types
+ *
+ * @returns All registered node type definitions, in registration order
+ */
+export function getNodeTypes(): NodeTypeDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * Get Palette Node Types
+ *
+ * @returns The node types users can add to a flow (all but containers), in registration order
+ */
+export function getPaletteNodeTypes(): NodeTypeDefinition[] {
+  return getNodeTypes().filter((d) => !d.container);
+}
+
+/**
+ * Get Node Components
+ *
+ * @returns The `nodeTypes` map React Flow renders nodes with
+ */
+export function getNodeComponents(): NodeTypes {
+  return Object.fromEntries(getNodeTypes().map((d) => [d.type, d.component]));
+}
+
+/**
+ * Create Node
+ *
+ * @param type - Type of the node to create
+ * @param position - Position of the node on the canvas
+ * @returns The new node with default data, or null if the type is not registered
+ */
+export function createNode(type: string, position: { x: number; y: number }): AppNode | null {
+  const definition = getNodeType(type);
+  if (!definition) return null;
+  return { id: `${type}-${Date.now()}`, type, position, data: definition.createData() } as AppNode;
+}
+
+/**
+ * Node Of Type
+ *
+ * The node of one node type, e.g. `NodeOfType<'buttons'>` is a ButtonsNode.
+ */
+export type NodeOfType<K extends NodeType> = Extract<AppNode, { type?: K }>;
+
+/**
+ * Is Node Of Type
+ *
+ * Creates a type guard for one node type, so that filtering a list of nodes
+ * by type narrows their data as well.
+ *
+ * @param type - A node type
+ * @returns A function that is true for nodes of the type
+ */
+export const isNodeOfType =
+  <K extends NodeType>(type: K) =>
+  (node: AppNode): node is NodeOfType<K> =>
+    node.type === type;
+
+/**
+ * Is Container Node
+ *
+ * @param node - A node
+ * @returns True if the node is a container (e.g. a group) rather than a step of the conversation
+ */
+export function isContainerNode(node: AppNode): boolean {
+  return getNodeType(node.type)?.container === true;
+}
+
+/**
+ * Is Annotation Node
+ *
+ * @param node - A node
+ * @returns True if the node documents the flow (e.g. a note) rather than being a step of the conversation
+ */
+export function isAnnotationNode(node: AppNode): boolean {
+  return getNodeType(node.type)?.annotation === true;
+}
+
+/**
+ * Is Step Node
+ *
+ * @param node - A node
+ * @returns True if the node is a step of the conversation (neither a container nor an annotation)
+ */
+export function isStepNode(node: AppNode): boolean {
+  return !isContainerNode(node) && !isAnnotationNode(node);
+}
+
+/**
+ * Get Source Handle IDs
+ *
+ * @param node - A node
+ * @returns IDs of the node's source handles, or null if its type is not registered
+ */
+export function getSourceHandleIds(node: AppNode): string[] | null {
+  return getNodeType(node.type)?.sourceHandles(node.data) ?? null;
+}
+
+/**
+ * Get Source Handle Label
+ *
+ * @param node - A node
+ * @param handle - ID of one of the node's source handles
+ * @returns Readable name of the handle, or undefined if it has none
+ */
+export function getSourceHandleLabel(node: AppNode, handle: string): string | undefined {
+  return getNodeType(node.type)?.sourceHandleLabel?.(node.data, handle);
+}
+
+/**
+ * Get Localized Strings
+ *
+ * @param node - A node
+ * @returns The node's user-facing strings in the default locale (empty if it has none)
+ */
+export function getLocalizedStrings(node: AppNode): LocalizedString[] {
+  return getNodeType(node.type)?.localizedStrings?.(node.data) ?? [];
+}
+
+/**
+ * Apply Localized Strings
+ *
+ * @param node - A node
+ * @param values - New values of some of the node's strings, keyed like getLocalizedStrings
+ * @returns The node with the strings replaced (the node itself if its type has no strings)
+ */
+export function applyLocalizedStrings(node: AppNode, values: Record<string, string>): AppNode {
+  const apply = getNodeType(node.type)?.applyLocalizedStrings;
+  return apply ? ({ ...node, data: apply(node.data, values) } as AppNode) : node;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppNode } from '../types/flow';
+import { createNode } from './nodeRegistry';
+import { searchNodes } from './nodeSearch';
+
+const textNode = (id: string, text: string, x = 0, y = 0): AppNode => ({
+  id,
+  type: 'text',
+  position: { x, y },
+  data: { text, type: 'text' },
+});
+
+const created = createNode('fileUpload', { x: 0, y: 500 })!;
+const upload = { ...created, id: 'upload', data: { ...created.data, allowedTypes: ['.pdf', 'image/*'] } } as AppNode;
+
+describe('searchNodes', () => {
+  it('matches case-insensitively and lists the results in reading order', () => {
+    const nodes = [textNode('b', 'Say HELLO', 300, 0), textNode('c', 'Bye', 0, 200), textNode('a', 'hello there', 0, 0)];
+    expect(searchNodes(nodes, ' hello ').map((r) => r.nodeId)).toEqual(['a', 'b']);
+  });
+
+  it('reports the first matching field', () => {
+    expect(searchNodes([textNode('welcome', 'Hi')], 'welcome')).toEqual([
+      { nodeId: 'welcome', type: 'text', field: 'id', snippet: 'welcome' },
+    ]);
+    expect(searchNodes([upload], 'pdf')[0]).toMatchObject({ field: 'allowedTypes' });
+  });
+
+  it('shortens long fields to the match and some context on one line', () => {
+    const text = `${'a'.repeat(50)}\n\nneedle${'b'.repeat(50)}`;
+    const [result] = searchNodes([textNode('n', text)], 'needle');
+    expect(result.snippet).toBe(`…${'a'.repeat(28)} needle${'b'.repeat(30)}…`);
+  });
+
+  it('lists every node of a type for an empty query, and nothing without a type', () => {
+    const nodes = [textNode('a', 'Hi'), upload];
+    expect(searchNodes(nodes, '', 'fileUpload').map((r) => r.nodeId)).toEqual(['upload']);
+    expect(searchNodes(nodes, 'hi', 'fileUpload')).toEqual([]);
+    expect(searchNodes(nodes, '  ')).toEqual([]);
+  });
+});
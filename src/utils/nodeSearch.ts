@@ -0,0 +1,130 @@
+/**
+ * Node Search Utility
+ *
+ * This module finds the nodes of a flow whose content matches a search
+ * query, for the canvas search box. Matching is case-insensitive and looks
+ * at, in this order:
+ * - The message text (text and quick-reply nodes)
+ * - The caption and file name (media nodes)
+ * - The URL (API nodes)
+ * - The label (file upload nodes and groups)
+ * - The allowed file types (file upload nodes)
+ * - The node ID
+ *
+ * Every node is listed at most once, with the first field it matched.
+ * Results are in reading order: top to bottom, then left to right.
+ */
+
+import type { AppNode } from '../types/flow';
+import { getAbsolutePosition } from './groups';
+
+/** Number of characters shown on each side of the match in a snippet */
+const SNIPPET_CONTEXT = 30;
+
+/**
+ * Node Search Field Type
+ *
+ * The part of a node a result matched.
+ */
+export type NodeSearchField = 'text' | 'caption' | 'fileName' | 'url' | 'label' | 'allowedTypes' | 'id';
+
+/** Readable names of the searched fields */
+export const NODE_SEARCH_FIELD_LABELS: Record<NodeSearchField, string> = {
+  text: 'Message',
+  caption: 'Caption',
+  fileName: 'File name',
+  url: 'URL',
+  label: 'Label',
+  allowedTypes: 'File types',
+  id: 'ID',
+};
+
+/**
+ * Node Search Result Interface
+ *
+ * @property nodeId - ID of the matching node
+ * @property type - Type of the matching node
+ * @property field - The field that matched
+ * @property snippet - The matching part of the field with some context
+ */
+export interface NodeSearchResult {
+  nodeId: string;
+  type: string;
+  field: NodeSearchField;
+  snippet: string;
+}
+
+/**
+ * Searchable Fields Helper
+ *
+ * @param node - A node
+ * @returns The node's searchable values, in matching order
+ */
+function getSearchableFields(node: AppNode): [NodeSearchField, string][] {
+  const data: Record<string, unknown> = node.data;
+  const fields: [NodeSearchField, string][] = [];
+  if (typeof data.text === 'string') fields.push(['text', data.text]);
+  if (typeof data.caption === 'string') fields.push(['caption', data.caption]);
+  if (typeof data.fileName === 'string') fields.push(['fileName', data.fileName]);
+  // Media URLs are left out: attached files are stored as long data URLs
+  if (node.type === 'api') fields.push(['url', node.data.url]);
+  if (typeof data.label === 'string') fields.push(['label', data.label]);
+  if (Array.isArray(data.allowedTypes)) fields.push(['allowedTypes', data.allowedTypes.join(', ')]);
+  fields.push(['id', node.id]);
+  return fields;
+}
+
+/**
+ * Snippet Helper
+ *
+ * @param value - The matching value
+ * @param index - Where the match starts
+ * @param length - Length of the match
+ * @returns The match with up to SNIPPET_CONTEXT characters around it, on one line
+ */
+function snippetAround(value: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(value.length, index + length + SNIPPET_CONTEXT);
+  const text = value.slice(start, end).replace(/\s+/g, ' ');
+  return `${start > 0 ? '…' : ''}${text}${end < value.length ? '…' : ''}`;
+}
+
+/**
+ * Search Nodes
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param query - The search text; an empty query lists every node of `type`
+ * @param type - Only search nodes of this type (all types if omitted)
+ * @returns The matching nodes in reading order, or no results for an empty
+ * query without a type
+ */
+export function searchNodes(nodes: AppNode[], query: string, type?: string): NodeSearchResult[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle && !type) return [];
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const results: { result: NodeSearchResult; x: number; y: number }[] = [];
+
+  nodes.forEach((node) => {
+    if (type && node.type !== type) return;
+    const fields = getSearchableFields(node);
+    const match = needle
+      ? fields.map(([field, value]) => ({ field, value, index: value.toLowerCase().indexOf(needle) })).find((m) => m.index >= 0)
+      : { field: fields[0][0], value: fields[0][1], index: 0 };
+    if (!match) return;
+
+    const { x, y } = getAbsolutePosition(node, byId);
+    results.push({
+      result: {
+        nodeId: node.id,
+        type: node.type,
+        field: match.field,
+        snippet: snippetAround(match.value, match.index, needle.length),
+      },
+      x,
+      y,
+    });
+  });
+
+  return results.sort((a, b) => a.y - b.y || a.x - b.x).map((r) => r.result);
+}
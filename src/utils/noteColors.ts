@@ -0,0 +1,30 @@
+/**
+ * Note Colors
+ *
+ * Styles of the background colors sticky notes can have, shared by the
+ * note on the canvas, its settings panel and the image export.
+ */
+
+import type { NoteColor } from '../types/flow';
+
+/**
+ * Note Color Style Interface
+ *
+ * @property label - Readable name of the color
+ * @property background - Background color of the note
+ * @property border - Border color of the note
+ */
+export interface NoteColorStyle {
+  label: string;
+  background: string;
+  border: string;
+}
+
+/** Styles of the note colors, in the order the settings panel offers them */
+export const NOTE_COLOR_STYLES: Record<NoteColor, NoteColorStyle> = {
+  yellow: { label: 'Yellow', background: '#FEF9C3', border: '#EAB308' },
+  pink: { label: 'Pink', background: '#FCE7F3', border: '#EC4899' },
+  blue: { label: 'Blue', background: '#DBEAFE', border: '#3B82F6' },
+  green: { label: 'Green', background: '#DCFCE7', border: '#22C55E' },
+  purple: { label: 'Purple', background: '#F3E8FF', border: '#A855F7' },
+};
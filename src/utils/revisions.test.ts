@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppNode } from '../types/flow';
+import { installMemoryStorage, type MemoryStorage } from '../test/memoryStorage';
+import { createFlowRecord } from './flowStorage';
+import { addRevision, deleteRevisions, listRevisions, MAX_REVISIONS } from './revisions';
+
+const textNode = (id: string): AppNode => ({
+  id,
+  type: 'text',
+  position: { x: 0, y: 0 },
+  data: { text: id, type: 'text' },
+});
+
+const flow = createFlowRecord('Welcome', [{ ...textNode('a'), selected: true }, textNode('b')], []);
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = installMemoryStorage();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('addRevision', () => {
+  it('records a snapshot with its note, without UI-only properties', () => {
+    const added = addRevision(flow, '  First draft ');
+    expect(added).toMatchObject({ revision: { flowId: flow.id, name: 'Welcome', note: 'First draft' }, pruned: 0 });
+    expect(added?.revision.nodes[0]).not.toHaveProperty('selected');
+  });
+
+  it('keeps the most recent revisions and counts the pruned ones', () => {
+    for (let i = 0; i < MAX_REVISIONS; i++) addRevision(flow, `Save ${i}`);
+
+    expect(addRevision(flow, 'Latest')?.pruned).toBe(1);
+    const revisions = listRevisions(flow.id);
+    expect(revisions).toHaveLength(MAX_REVISIONS);
+    expect(revisions[0].note).toBe('Latest');
+    expect(revisions.at(-1)?.note).toBe('Save 1');
+  });
+
+  it('returns null and prunes nothing when storage is full', () => {
+    addRevision(flow, 'Kept');
+    storage.quota = storage.used;
+
+    expect(addRevision(flow, 'Refused')).toBeNull();
+    expect(listRevisions(flow.id).map((r) => r.note)).toEqual(['Kept']);
+  });
+});
+
+describe('listRevisions', () => {
+  it('lists newest first and repairs malformed entries', () => {
+    storage.setItem(
+      `bitespeed.revisions.${flow.id}`,
+      JSON.stringify([
+        { id: 'r1', flowId: flow.id, name: 'Old', createdAt: 1, nodes: [textNode('a')], edges: [{ id: 'e', source: 'a', target: 'gone' }] },
+        { id: 'r2', flowId: flow.id, name: 'New', createdAt: 2, note: 'Hi', nodes: [], edges: [] },
+        'garbage',
+      ])
+    );
+
+    const revisions = listRevisions(flow.id);
+    expect(revisions.map((r) => r.id)).toEqual(['r2', 'r1']);
+    expect(revisions[1]).toMatchObject({ note: '', edges: [], variables: [], channels: [] });
+  });
+
+  it('lists nothing once the history is deleted', () => {
+    addRevision(flow);
+    deleteRevisions(flow.id);
+    expect(listRevisions(flow.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Flow Revisions Utility
+ *
+ * This module persists the revision history of flows in browser storage.
+ * A revision is an immutable snapshot of a flow taken when it is saved with
+ * the Save button; revisions are only ever added, never changed, and are
+ * removed together with their flow. Every revision is a full copy of the
+ * flow, so only the MAX_REVISIONS most recent ones are kept; older ones are
+ * pruned when a new one is added, and the caller is told how many were.
+ *
+ * Storage Layout:
+ * - `bitespeed.revisions.<flowId>` -> FlowRevision[] of the flow, oldest first
+ *
+ * Reads are defensive like the flow storage: malformed entries are skipped,
+ * and nodes and edges are checked against their schemas, so an old revision
+ * never blocks the history panel.
+ */
+
+import { nanoid } from 'nanoid';
+import type { FlowRevision, SavedFlow } from '../types/flow';
+import { stripTransient } from './flowFile';
+import { parseLocalization } from './localization';
+import { parseChannels } from './channels';
+import { sanitizeGraph } from './schemaChecks';
+import { isObject } from './valueChecks';
+
+/** Prefix of the storage keys holding revisions */
+const STORAGE_PREFIX = 'bitespeed.revisions';
+
+/** Number of revisions kept per flow */
+export const MAX_REVISIONS = 20;
+
+/**
+ * Added Revision Interface
+ *
+ * Result of addRevision.
+ *
+ * @property revision - The new revision
+ * @property pruned - Number of old revisions removed to stay within MAX_REVISIONS
+ */
+export interface AddedRevision {
+  revision: FlowRevision;
+  pruned: number;
+}
+
+/**
+ * Revisions Key Helper
+ *
+ * @param flowId - ID of a flow
+ * @returns The storage key holding the flow's revisions
+ */
+const revisionsKey = (flowId: string) => `${STORAGE_PREFIX}.${flowId}`;
+
+/**
+ * Read Revisions Helper
+ *
+ * @param flowId - ID of a flow
+ * @returns The stored revisions of the flow as written, oldest first
+ */
+function readRevisions(flowId: string): FlowRevision[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(revisionsKey(flowId)) ?? '[]');
+    return Array.isArray(raw) ? raw.filter((r): r is FlowRevision => isObject(r) && typeof r.id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List Revisions
+ *
+ * @param flowId - ID of a flow
+ * @returns The flow's revisions, newest first
+ */
+export function listRevisions(flowId: string): FlowRevision[] {
+  return readRevisions(flowId)
+    .map((revision) => {
+      const { nodes, edges } = sanitizeGraph(revision.nodes, revision.edges);
+      return {
+        ...revision,
+        note: typeof revision.note === 'string' ? revision.note : '',
+        nodes,
+        edges,
+        variables: Array.isArray(revision.variables) ? revision.variables : [],
+        localization: parseLocalization(revision.localization),
+        channels: parseChannels(revision.channels),
+      };
+    })
+    .reverse();
+}
+
+/**
+ * Add Revision
+ *
+ * Records a snapshot of a flow, pruning the oldest revisions beyond
+ * MAX_REVISIONS.
+ *
+ * @param flow - The flow as it was saved
+ * @param note - Optional note describing the change
+ * @returns The new revision and the number of pruned ones, or null if storage
+ * refused it (e.g. quota exceeded); nothing is pruned then
+ */
+export function addRevision(flow: SavedFlow, note = ''): AddedRevision | null {
+  const revision: FlowRevision = {
+    id: nanoid(10),
+    flowId: flow.id,
+    name: flow.name,
+    createdAt: Date.now(),
+    note: note.trim(),
+    nodes: flow.nodes.map(stripTransient),
+    edges: flow.edges.map(stripTransient),
+    variables: flow.variables,
+    localization: flow.localization,
+    channels: flow.channels,
+  };
+  const all = [...readRevisions(flow.id), revision];
+  const kept = all.slice(-MAX_REVISIONS);
+  try {
+    localStorage.setItem(revisionsKey(flow.id), JSON.stringify(kept));
+  } catch {
+    return null;
+  }
+  return { revision, pruned: all.length - kept.length };
+}
+
+/**
+ * Delete Revisions
+ *
+ * Removes the whole history of a flow.
+ *
+ * @param flowId - ID of the flow
+ */
+export function deleteRevisions(flowId: string) {
+  localStorage.removeItem(revisionsKey(flowId));
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { findLinks, getLinkHost, insertText, parseRichText, toggleFormat } from './richText';
+
+const text = (value: string) => ({ kind: 'text', text: value });
+
+describe('parseRichText', () => {
+  it('parses nested bold, italic and strikethrough', () => {
+    expect(parseRichText('*Hi* _there_ ~old~ *_both_*')).toEqual([
+      { kind: 'bold', children: [text('Hi')] },
+      text(' '),
+      { kind: 'italic', children: [text('there')] },
+      text(' '),
+      { kind: 'strike', children: [text('old')] },
+      text(' '),
+      { kind: 'bold', children: [{ kind: 'italic', children: [text('both')] }] },
+    ]);
+  });
+
+  it('only reads markers at word boundaries and within a line', () => {
+    expect(parseRichText('2*3*4 snake_case_name')).toEqual([text('2*3*4 snake_case_name')]);
+    expect(parseRichText('*not\nbold*')).toEqual([text('*not\nbold*')]);
+    expect(parseRichText('* spaced *')).toEqual([text('* spaced *')]);
+  });
+
+  it('keeps monospace text and placeholders unformatted', () => {
+    expect(parseRichText('```*a*\nb``` `_c_` {{ name }}')).toEqual([
+      { kind: 'monospace', text: '*a*\nb' },
+      text(' '),
+      { kind: 'monospace', text: '_c_' },
+      text(' '),
+      { kind: 'placeholder', text: '{{ name }}', name: 'name' },
+    ]);
+  });
+
+  it('detects links without their trailing punctuation', () => {
+    expect(parseRichText('See www.example.com/help.')).toEqual([
+      text('See '),
+      { kind: 'link', text: 'www.example.com/help', href: 'https://www.example.com/help' },
+      text('.'),
+    ]);
+  });
+});
+
+describe('links', () => {
+  it('are listed in order, also inside formatting but not in monospace', () => {
+    expect(findLinks('*http://a.com* `https://b.com` https://c.com/x?y=1!')).toEqual([
+      'http://a.com',
+      'https://c.com/x?y=1',
+    ]);
+  });
+
+  it('are shown by their host', () => {
+    expect(getLinkHost('https://www.example.com/help')).toBe('example.com');
+    expect(getLinkHost('not a url')).toBe('not a url');
+  });
+});
+
+describe('toggleFormat', () => {
+  it('wraps the words of the selection in markers', () => {
+    expect(toggleFormat('say hello now', 3, 10, 'bold')).toEqual({
+      text: 'say *hello* now',
+      selectionStart: 5,
+      selectionEnd: 10,
+    });
+  });
+
+  it('removes markers around or inside the selection', () => {
+    expect(toggleFormat('say *hello* now', 5, 10, 'bold')).toEqual({
+      text: 'say hello now',
+      selectionStart: 4,
+      selectionEnd: 9,
+    });
+    expect(toggleFormat('say ```hello``` now', 4, 15, 'monospace')).toEqual({
+      text: 'say hello now',
+      selectionStart: 4,
+      selectionEnd: 9,
+    });
+  });
+
+  it('inserts an empty pair without a selection', () => {
+    expect(toggleFormat('ab', 1, 1, 'strike')).toEqual({ text: 'a~~b', selectionStart: 2, selectionEnd: 2 });
+  });
+});
+
+describe('insertText', () => {
+  it('replaces the selection and puts the caret after it', () => {
+    expect(insertText('Hi there', 3, 8, '👋')).toEqual({ text: 'Hi 👋', selectionStart: 5, selectionEnd: 5 });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Rich Text Utility
+ *
+ * This module parses the WhatsApp-style formatting of message text into runs
+ * that the canvas and the chat preview render as React elements, so message
+ * text is never injected as HTML. Messenger and the web widget understand
+ * the same syntax, so messages look alike on every channel.
+ *
+ * Supported syntax:
+ * - `*bold*`, `_italic_` and `~strikethrough~`; markers only count at word
+ *   boundaries (`2*3*4` and `snake_case_name` stay plain) and never span
+ *   line breaks, and they can be nested (`*_bold italic_*`)
+ * - ```` ```monospace``` ```` (may span lines) and `` `inline code` ``
+ * - Links starting with `http://`, `https://` or `www.` are detected in the
+ *   text; trailing punctuation is not part of the link
+ * - `{{placeholders}}` are kept as their own runs (see templating.ts)
+ * - Line breaks and emoji are plain text
+ *
+ * It also contains the editing helpers of the formatting toolbar.
+ */
+
+import { PLACEHOLDER_PATTERN } from './templating';
+
+/**
+ * Rich Text Run Type
+ *
+ * A piece of formatted message text.
+ */
+export type RichTextRun =
+  | { kind: 'text'; text: string }
+  | { kind: 'monospace'; text: string }
+  | { kind: 'placeholder'; text: string; name: string }
+  | { kind: 'link'; text: string; href: string }
+  | { kind: 'bold' | 'italic' | 'strike'; children: RichTextRun[] };
+
+/** Formatting markers and the style they apply */
+export const FORMAT_MARKERS = { bold: '*', italic: '_', strike: '~', monospace: '```' } as const;
+
+/** A style the formatting toolbar can apply */
+export type TextFormat = keyof typeof FORMAT_MARKERS;
+
+/** Links: a scheme or `www.`, up to whitespace, not ending in punctuation */
+const LINK_SOURCE = String.raw`(?:https?:\/\/|www\.)[^\s<>]*[^\s<>.,:;!?'")\]*_~]`;
+
+/**
+ * Inline syntax, in order of precedence: monospace block, inline code,
+ * placeholder, link, and a bold/italic/strike marker pair at word boundaries.
+ */
+const INLINE_PATTERN = new RegExp(
+  [
+    '```([\\s\\S]+?)```',
+    '`([^`\\n]+)`',
+    `(${PLACEHOLDER_PATTERN.source})`,
+    `(${LINK_SOURCE})`,
+    String.raw`(?<![\p{L}\p{N}*_~])([*_~])(?=\S)(.+?)(?<=\S)\6(?![\p{L}\p{N}])`,
+  ].join('|'),
+  'gu'
+);
+
+/** Name of the style of each marker */
+const MARKER_KINDS: Record<string, 'bold' | 'italic' | 'strike'> = { '*': 'bold', _: 'italic', '~': 'strike' };
+
+/**
+ * To Href Helper
+ *
+ * @param link - A link as written in a message
+ * @returns The link's URL (`www.` links get an https scheme)
+ */
+const toHref = (link: string) => (/^https?:\/\//i.test(link) ? link : `https://${link}`);
+
+/**
+ * Parse Rich Text
+ *
+ * @param text - Message text
+ * @returns The text split into plain, formatted, placeholder and link runs
+ */
+export function parseRichText(text: string): RichTextRun[] {
+  const runs: RichTextRun[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) runs.push({ kind: 'text', text: text.slice(last, index) });
+    last = index + match[0].length;
+
+    const [whole, block, code, placeholder, placeholderName, link, marker, content] = match;
+    if (block !== undefined || code !== undefined) {
+      runs.push({ kind: 'monospace', text: block ?? code });
+    } else if (placeholder !== undefined) {
+      runs.push({ kind: 'placeholder', text: whole, name: placeholderName });
+    } else if (link !== undefined) {
+      runs.push({ kind: 'link', text: link, href: toHref(link) });
+    } else {
+      runs.push({ kind: MARKER_KINDS[marker], children: parseRichText(content) });
+    }
+  }
+
+  if (last < text.length) runs.push({ kind: 'text', text: text.slice(last) });
+  return runs;
+}
+
+/**
+ * Find Links
+ *
+ * @param text - Message text
+ * @returns The URLs of the links in the text, in order (monospace text is skipped)
+ */
+export function findLinks(text: string): string[] {
+  const collect = (runs: RichTextRun[]): string[] =>
+    runs.flatMap((run) => {
+      if (run.kind === 'link') return [run.href];
+      return 'children' in run ? collect(run.children) : [];
+    });
+  return collect(parseRichText(text));
+}
+
+/**
+ * Get Link Host
+ *
+ * @param url - A URL
+ * @returns The URL's host without `www.`, or the URL itself if it cannot be parsed
+ */
+export function getLinkHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Text Edit Interface
+ *
+ * The result of an editing helper.
+ *
+ * @property text - The new text
+ * @property selectionStart - Start of the selection to restore
+ * @property selectionEnd - End of the selection to restore
+ */
+export interface TextEdit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/**
+ * Toggle Format
+ *
+ * Wraps the selection in the markers of a style, or removes the markers if
+ * the selection is already wrapped in them (inside or just outside the
+ * selection). Without a selection, an empty pair of markers is inserted with
+ * the caret between them. Whitespace at the edges of the selection stays
+ * outside the markers, since WhatsApp ignores markers next to spaces.
+ *
+ * @param text - Message text
+ * @param start - Start of the selection
+ * @param end - End of the selection
+ * @param format - The style to toggle
+ * @returns The edited text and the selection around the same words
+ */
+export function toggleFormat(text: string, start: number, end: number, format: TextFormat): TextEdit {
+  const marker = FORMAT_MARKERS[format];
+  const size = marker.length;
+
+  // Shrink the selection to its words
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  const selected = text.slice(start, end);
+
+  if (selected.length >= 2 * size && selected.startsWith(marker) && selected.endsWith(marker)) {
+    const inner = selected.slice(size, -size);
+    return { text: text.slice(0, start) + inner + text.slice(end), selectionStart: start, selectionEnd: start + inner.length };
+  }
+  if (text.slice(start - size, start) === marker && text.slice(end, end + size) === marker) {
+    return {
+      text: text.slice(0, start - size) + selected + text.slice(end + size),
+      selectionStart: start - size,
+      selectionEnd: end - size,
+    };
+  }
+  return {
+    text: text.slice(0, start) + marker + selected + marker + text.slice(end),
+    selectionStart: start + size,
+    selectionEnd: end + size,
+  };
+}
+
+/**
+ * Insert Text
+ *
+ * @param text - Message text
+ * @param start - Start of the selection
+ * @param end - End of the selection
+ * @param insert - Text replacing the selection (e.g. an emoji)
+ * @returns The edited text with the caret after the inserted text
+ */
+export function insertText(text: string, start: number, end: number, insert: string): TextEdit {
+  const caret = start + insert.length;
+  return { text: text.slice(0, start) + insert + text.slice(end), selectionStart: caret, selectionEnd: caret };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppEdge, AppNode } from '../types/flow';
+import { createFlowRecord } from './flowStorage';
+import { groupNodes } from './groups';
+import { createNode } from './nodeRegistry';
+import { toRuntimeFlow } from './runtimeFlow';
+
+const textNode = (id: string, x = 0): AppNode => ({
+  id,
+  type: 'text',
+  position: { x, y: 0 },
+  data: { text: id, type: 'text' },
+});
+
+const edge = (source: string, target: string): AppEdge => ({ id: `${source}-${target}`, source, target });
+
+describe('toRuntimeFlow', () => {
+  it('leaves out notes, groups and the edges touching them', () => {
+    const note = { ...createNode('note', { x: 0, y: 300 })!, id: 'note' } as AppNode;
+    const grouped = groupNodes([textNode('a'), textNode('b', 300), note], ['a', 'b']);
+    if (!grouped.ok) throw new Error(grouped.reason);
+
+    const flow = createFlowRecord('Main', grouped.nodes, [edge('a', 'b'), edge(grouped.groupId, 'b'), edge('a', 'note')]);
+    const runtime = toRuntimeFlow(flow);
+    expect(runtime.nodes.map((n) => n.id)).toEqual(['a', 'b']);
+    expect(runtime.edges.map((e) => e.id)).toEqual(['a-b']);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Runtime Flow Utility
+ *
+ * This module turns the flow on the canvas into the flow the chatbot runs.
+ * The canvas holds more than the conversation: groups frame nodes, notes
+ * document them, and call nodes point at subflows of the library. None of
+ * that exists at runtime. The messages are put in one of the flow's
+ * locales, since the chatbot talks to each user in a single language.
+ *
+ * Everything that runs or exports a flow for the chatbot (the chat preview
+ * today, runtime exports later) reads it through toRuntimeFlow, so editing
+ * aids never leak into what the chatbot sees.
+ */
+
+import type { FlowState } from '../types/flow';
+import { isStepNode } from './nodeRegistry';
+import { inlineSubflows } from './subflows';
+
+/**
+ * To Runtime Flow
+ *
+ * Inlines the flow's subflows, then keeps only the steps of the
+ * conversation: containers (groups) and annotations (notes) are left out,
+ * together with any edge that touches them. Messages without a translation
+ * into the locale keep their default-locale text.
+ *
+ * @param flow - A flow as edited on the canvas
+ * @param flowId - ID of the flow, if it is a library flow
+ * @param locale - Locale to run the flow in (the default locale if omitted)
+ * @returns The flow as the chatbot runs it
+ */
+export function toRuntimeFlow(flow: FlowState, flowId?: string, locale?: string): FlowState {
+  const { nodes, edges, variables, localization, channels } = inlineSubflows(flow, flowId, locale);
+  const steps = nodes.filter(isStepNode);
+  const ids = new Set(steps.map((n) => n.id));
+  return {
+    nodes: steps,
+    edges: edges.filter((e) => ids.has(e.source) && ids.has(e.target)),
+    variables,
+    localization,
+    channels,
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import { checkEdge, checkNode, checkNodeData, formatPath, sanitizeGraph, summarizeProblems } from './schemaChecks';
+
+const textNode = (id: string) => ({ id, type: 'text', position: { x: 0, y: 0 }, data: { text: id, type: 'text' } });
+
+describe('formatPath', () => {
+  it('joins keys and indexes', () => {
+    expect(formatPath('nodes[2]', ['data', 'buttons', 0, 'label'])).toBe('nodes[2].data.buttons[0].label');
+    expect(formatPath('', ['data'])).toBe('data');
+  });
+});
+
+describe('checkNodeData', () => {
+  it('reports problems with their path', () => {
+    const result = checkNodeData('fileUpload', { label: 'Upload', allowedTypes: [], maxSize: 0, multiple: false, type: 'fileUpload' });
+    expect(result).toEqual({ ok: false, errors: ['data.maxSize: Too small: expected number to be >0'] });
+  });
+
+  it('reports unknown node types', () => {
+    expect(checkNodeData('unknown', {})).toEqual({ ok: false, errors: ['data: unknown node type "unknown"'] });
+  });
+
+  it('fills in missing fields with defaults only when repairing', () => {
+    expect(checkNodeData('text', { type: 'text' }).ok).toBe(false);
+
+    const repaired = checkNodeData('text', { type: 'text' }, 'data', { repair: true });
+    expect(repaired).toMatchObject({ ok: true, repairs: ['data.text: missing, filled in "New message"'] });
+  });
+
+  it('never changes fields that are present but invalid', () => {
+    expect(checkNodeData('text', { text: 42, type: 'text' }, 'data', { repair: true }).ok).toBe(false);
+  });
+});
+
+describe('checkNode', () => {
+  it('reports problems of the shared fields and of the data together', () => {
+    const result = checkNode({ id: '', type: 'text', position: { x: 0, y: 0 }, data: { type: 'text' } }, 'nodes[0]');
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toMatch(/^nodes\[0\]\.id: /);
+    expect(result.errors[1]).toMatch(/^nodes\[0\]\.data\.text: /);
+  });
+});
+
+describe('checkEdge', () => {
+  it('repairs a missing ID from the connected nodes', () => {
+    const result = checkEdge({ source: 'a', target: 'b' }, 'edges[0]', { repair: true });
+    expect(result).toMatchObject({ ok: true, value: { source: 'a', target: 'b' } });
+    if (result.ok) expect(result.value.id).toEqual(expect.any(String));
+  });
+});
+
+describe('sanitizeGraph', () => {
+  it('keeps valid items and drops invalid ones', () => {
+    const result = sanitizeGraph([textNode('a'), { id: 'b', type: 'unknown' }], [{ id: 'e', source: 'a', target: 'a' }]);
+    expect(result.nodes.map((n) => n.id)).toEqual(['a']);
+    expect(result.edges.map((e) => e.id)).toEqual(['e']);
+    expect(result.dropped).toEqual(['nodes[1].type: unknown node type "unknown"']);
+  });
+
+  it('drops edges whose source or target node was dropped or never existed', () => {
+    const result = sanitizeGraph(
+      [textNode('a'), { id: 'b', type: 'unknown' }],
+      [
+        { id: 'to-dropped', source: 'a', target: 'b' },
+        { id: 'from-missing', source: 'gone', target: 'a' },
+      ]
+    );
+    expect(result.edges).toEqual([]);
+    expect(result.dropped).toEqual([
+      'nodes[1].type: unknown node type "unknown"',
+      'edges[0]: node "b" does not exist',
+      'edges[1]: node "gone" does not exist',
+    ]);
+  });
+
+  it('reports repairs of the items it keeps', () => {
+    const { nodes, repairs } = sanitizeGraph([{ id: 'a', type: 'text', data: { text: 'Hi', type: 'text' } }], []);
+    expect(nodes[0].position).toEqual({ x: 0, y: 0 });
+    expect(repairs).toEqual(['nodes[0].position: missing, filled in the default']);
+  });
+
+  it('treats lists that are not arrays as empty', () => {
+    expect(sanitizeGraph(undefined, 'edges')).toEqual({ nodes: [], edges: [], dropped: ['edges: expected an array'], repairs: [] });
+  });
+});
+
+describe('summarizeProblems', () => {
+  it('shows the first problem and counts the rest', () => {
+    expect(summarizeProblems(['a'])).toBe('a');
+    expect(summarizeProblems(['a', 'b', 'c'])).toBe('a (and 2 more)');
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Schema Checks Utility
+ *
+ * This module checks untrusted flow data against the runtime schemas in
+ * types/schemas.ts before it enters the store: flows loaded from browser
+ * storage, imported flow files and pasted nodes, as well as node data edits.
+ *
+ * Problems are reported as readable, path-based messages, e.g.
+ * `nodes[2].data.maxSize: Too small: expected number to be >0`.
+ *
+ * Data with missing fields can optionally be repaired: every absent field is
+ * filled in with its default (for node data, the value a new node of the
+ * type starts with) and the result is checked again. Fields that are present
+ * but invalid are never changed, so a repair cannot hide a real problem.
+ */
+
+import type { z } from 'zod';
+import type { AppNode, AppEdge } from '../types/flow';
+import { edgeSchema, nodeSchema } from '../types/schemas';
+import { createEdgeId } from './edges';
+import { normalizeGroups } from './groups';
+import { getNodeType } from './nodeRegistry';
+import { isObject } from './valueChecks';
+
+/**
+ * Schema Check Result Type
+ *
+ * The checked (and possibly repaired) value, or the problems found.
+ * `repairs` describes every field that was filled in with a default.
+ */
+export type SchemaCheckResult<T> =
+  | { ok: true; value: T; repairs: string[] }
+  | { ok: false; errors: string[] };
+
+/**
+ * Schema Check Options Interface
+ *
+ * @property repair - Fill in missing fields with defaults before checking
+ */
+export interface SchemaCheckOptions {
+  repair?: boolean;
+}
+
+/**
+ * Sanitized Graph Interface
+ *
+ * Result of sanitizeGraph: the nodes and edges that passed the checks.
+ */
+export interface SanitizedGraph {
+  nodes: AppNode[];
+  edges: AppEdge[];
+  /** Problems of the nodes and edges that were dropped */
+  dropped: string[];
+  /** Fields that were filled in with defaults */
+  repairs: string[];
+}
+
+/** Defaults for the fields shared by all nodes; the data is filled in per type */
+const NODE_DEFAULTS = { position: { x: 0, y: 0 }, data: {} };
+
+/**
+ * Format Path
+ *
+ * @param base - Path of the checked value, e.g. "nodes[2]"
+ * @param path - Path below the checked value as reported by zod
+ * @returns The combined path, e.g. "nodes[2].data.buttons[0].label"
+ */
+export function formatPath(base: string, path: readonly PropertyKey[]): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === 'number') return `${result}[${key}]`;
+    return result ? `${result}.${String(key)}` : String(key);
+  }, base);
+}
+
+/**
+ * Format Schema Issues
+ *
+ * @param error - The error returned by a failed safeParse
+ * @param base - Path of the checked value
+ * @returns One readable message per issue
+ */
+export function formatSchemaIssues(error: z.ZodError, base: string): string[] {
+  return error.issues.map((issue) => `${formatPath(base, issue.path) || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Describe Default Helper
+ *
+ * @param value - A default value
+ * @returns Short description of the value for repair messages
+ */
+const describeDefault = (value: unknown): string =>
+  typeof value === 'object' && value !== null ? 'the default' : JSON.stringify(value);
+
+/**
+ * Fill Defaults Helper
+ *
+ * Copies every field of `defaults` that is missing from `value`, descending
+ * into nested objects present on both sides. Arrays are never merged.
+ *
+ * @param value - The object to repair
+ * @param defaults - Default field values
+ * @param path - Path of the object for repair messages
+ * @param repairs - Array collecting repair messages
+ * @returns The repaired copy
+ */
+function fillDefaults(
+  value: Record<string, unknown>,
+  defaults: Record<string, unknown>,
+  path: string,
+  repairs: string[]
+): Record<string, unknown> {
+  const result = { ...value };
+  Object.entries(defaults).forEach(([key, fallback]) => {
+    const fieldPath = formatPath(path, [key]);
+    const current = result[key];
+    if (current === undefined) {
+      result[key] = fallback;
+      repairs.push(`${fieldPath}: missing, filled in ${describeDefault(fallback)}`);
+    } else if (isObject(current) && isObject(fallback)) {
+      result[key] = fillDefaults(current, fallback, fieldPath, repairs);
+    }
+  });
+  return result;
+}
+
+/**
+ * Check Helper
+ *
+ * Checks a value against a schema, repairing missing fields first if asked to.
+ *
+ * @param schema - The schema to check against
+ * @param value - The untrusted value
+ * @param path - Path of the value for messages
+ * @param defaults - Creates the defaults for the value (only called when repairing)
+ * @param options - Check options
+ * @returns The parsed value or the problems found
+ */
+function check<T>(
+  schema: z.ZodType<T>,
+  value: unknown,
+  path: string,
+  defaults: (value: Record<string, unknown>) => Record<string, unknown>,
+  options: SchemaCheckOptions
+): SchemaCheckResult<T> {
+  const repairs: string[] = [];
+  const input = options.repair && isObject(value) ? fillDefaults(value, defaults(value), path, repairs) : value;
+  const result = schema.safeParse(input);
+  return result.success
+    ? { ok: true, value: result.data, repairs }
+    : { ok: false, errors: formatSchemaIssues(result.error, path) };
+}
+
+/**
+ * Check Node Data
+ *
+ * Checks node data against the schema of its node type.
+ *
+ * @param type - The node type
+ * @param data - The untrusted node data
+ * @param path - Path of the data for messages
+ * @param options - Check options
+ * @returns The parsed node data or the problems found
+ */
+export function checkNodeData(
+  type: string,
+  data: unknown,
+  path = 'data',
+  options: SchemaCheckOptions = {}
+): SchemaCheckResult<AppNode['data']> {
+  const definition = getNodeType(type);
+  if (!definition) {
+    return { ok: false, errors: [`${path}: unknown node type "${type}"`] };
+  }
+  return check(definition.schema, data, path, () => definition.createData(), options);
+}
+
+/**
+ * Check Node
+ *
+ * Checks a node: the fields shared by all nodes, and its data against the
+ * schema of its type. Data problems are reported even if shared fields are
+ * invalid, so a single pass lists everything that needs fixing.
+ *
+ * @param value - The untrusted node
+ * @param path - Path of the node for messages, e.g. "nodes[2]"
+ * @param options - Check options
+ * @returns The parsed node or the problems found
+ */
+export function checkNode(value: unknown, path: string, options: SchemaCheckOptions = {}): SchemaCheckResult<AppNode> {
+  const node = check(nodeSchema, value, path, () => NODE_DEFAULTS, options);
+  const raw = node.ok ? node.value : isObject(value) ? value : {};
+  const errors = node.ok ? [] : node.errors;
+
+  let data: SchemaCheckResult<AppNode['data']> | null = null;
+  if (typeof raw.type === 'string' && raw.type && !getNodeType(raw.type)) {
+    errors.push(`${path}.type: unknown node type "${raw.type}"`);
+  } else if (typeof raw.type === 'string' && isObject(raw.data)) {
+    data = checkNodeData(raw.type, raw.data, `${path}.data`, options);
+    if (!data.ok) errors.push(...data.errors);
+  }
+
+  if (!node.ok || !data?.ok) return { ok: false, errors };
+
+  // The data was checked against the schema of the node's own type
+  return {
+    ok: true,
+    value: { ...node.value, data: data.value } as AppNode,
+    repairs: [...node.repairs, ...data.repairs],
+  };
+}
+
+/**
+ * Check Edge
+ *
+ * A missing edge ID is repaired with one derived from the connected nodes.
+ *
+ * @param value - The untrusted edge
+ * @param path - Path of the edge for messages, e.g. "edges[0]"
+ * @param options - Check options
+ * @returns The parsed edge or the problems found
+ */
+export function checkEdge(value: unknown, path: string, options: SchemaCheckOptions = {}): SchemaCheckResult<AppEdge> {
+  const defaults = (edge: Record<string, unknown>) =>
+    typeof edge.source === 'string' && typeof edge.target === 'string'
+      ? { id: createEdgeId(edge.source, typeof edge.sourceHandle === 'string' ? edge.sourceHandle : null, edge.target) }
+      : {};
+  return check(edgeSchema, value, path, defaults, options);
+}
+
+/**
+ * Check Items Helper
+ *
+ * Checks and repairs a list of items, keeping the ones that pass.
+ *
+ * @param items - The untrusted list
+ * @param name - Name of the list for messages, e.g. "nodes"
+ * @param checkItem - Checks a single item
+ * @param dropped - Array collecting the problems of dropped items
+ * @param repairs - Array collecting repair messages
+ * @returns The items that passed
+ */
+function checkItems<T>(
+  items: unknown,
+  name: string,
+  checkItem: (value: unknown, path: string, options: SchemaCheckOptions) => SchemaCheckResult<T>,
+  dropped: string[],
+  repairs: string[]
+): T[] {
+  if (!Array.isArray(items)) {
+    if (items !== undefined) dropped.push(`${name}: expected an array`);
+    return [];
+  }
+  return items.flatMap((item, i) => {
+    const checked = checkItem(item, `${name}[${i}]`, { repair: true });
+    if (!checked.ok) {
+      dropped.push(...checked.errors);
+      return [];
+    }
+    repairs.push(...checked.repairs);
+    return [checked.value];
+  });
+}
+
+/**
+ * Summarize Problems
+ *
+ * @param problems - Problems or repairs reported by the checks (at least one)
+ * @returns The first one, with the number of further ones, for short notices
+ */
+export const summarizeProblems = (problems: string[]): string =>
+  problems.length > 1 ? `${problems[0]} (and ${problems.length - 1} more)` : problems[0];
+
+/**
+ * Sanitize Graph
+ *
+ * Checks and repairs every node and edge, keeping the ones that pass and
+ * dropping the rest. Edges whose source or target node is not kept are
+ * dropped too, and group membership is repaired (see normalizeGroups).
+ * Used where invalid items must not block the whole flow,
+ * such as loading a flow saved by an older version of the app.
+ *
+ * @param nodes - The untrusted nodes
+ * @param edges - The untrusted edges
+ * @returns The valid nodes and edges together with what was dropped or repaired
+ */
+export function sanitizeGraph(nodes: unknown, edges: unknown): SanitizedGraph {
+  const dropped: string[] = [];
+  const repairs: string[] = [];
+  const grouped = normalizeGroups(checkItems(nodes, 'nodes', checkNode, dropped, repairs));
+  repairs.push(...grouped.repairs);
+
+  // An edge is only kept if both of its ends are
+  const ids = new Set(grouped.nodes.map((n) => n.id));
+  const checkConnectedEdge = (value: unknown, path: string, options: SchemaCheckOptions): SchemaCheckResult<AppEdge> => {
+    const checked = checkEdge(value, path, options);
+    if (!checked.ok) return checked;
+    const missing = [checked.value.source, checked.value.target].filter((id) => !ids.has(id));
+    if (missing.length === 0) return checked;
+    return { ok: false, errors: missing.map((id) => `${path}: node "${id}" does not exist`) };
+  };
+
+  return {
+    nodes: grouped.nodes,
+    edges: checkItems(edges, 'edges', checkConnectedEdge, dropped, repairs),
+    dropped,
+    repairs,
+  };
+}
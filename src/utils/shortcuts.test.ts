@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import { installMemoryStorage, type MemoryStorage } from '../test/memoryStorage';
+import {
+  addNodeActionId,
+  assignBinding,
+  eventToBinding,
+  findAction,
+  formatBinding,
+  getShortcutActions,
+  loadShortcutOverrides,
+  saveShortcutOverrides,
+} from './shortcuts';
+
+const key = (key: string, code: string, modifiers: { ctrl?: boolean; alt?: boolean; shift?: boolean } = {}) => ({
+  key,
+  code,
+  ctrlKey: modifiers.ctrl ?? false,
+  metaKey: false,
+  altKey: modifiers.alt ?? false,
+  shiftKey: modifiers.shift ?? false,
+});
+
+describe('eventToBinding', () => {
+  it('names letters and digits by their position on the keyboard', () => {
+    expect(eventToBinding(key('z', 'KeyZ', { ctrl: true }))).toBe('Mod+Z');
+    expect(eventToBinding(key('Z', 'KeyZ', { ctrl: true, shift: true }))).toBe('Mod+Shift+Z');
+    expect(eventToBinding(key('¡', 'Digit1', { alt: true }))).toBe('Alt+1');
+  });
+
+  it('names other printable keys by their character, which includes Shift', () => {
+    expect(eventToBinding(key('?', 'Slash', { shift: true }))).toBe('?');
+    expect(eventToBinding(key(' ', 'Space'))).toBe('Space');
+    expect(eventToBinding(key('ArrowUp', 'ArrowUp', { shift: true }))).toBe('Shift+ArrowUp');
+  });
+
+  it('ignores lone modifier keys', () => {
+    expect(eventToBinding(key('Shift', 'ShiftLeft', { shift: true }))).toBeNull();
+  });
+});
+
+describe('formatBinding', () => {
+  it('shows key caps for modifiers and named keys', () => {
+    expect(formatBinding('Mod+Shift+Z')).toEqual(['Ctrl', 'Shift', 'Z']);
+    expect(formatBinding('Escape')).toEqual(['Esc']);
+    expect(formatBinding('+')).toEqual(['+']);
+  });
+});
+
+describe('actions', () => {
+  it('bind the palette node types to 1-9', () => {
+    expect(findAction('1', {})?.id).toBe(addNodeActionId('text'));
+    expect(getShortcutActions().find((a) => a.id === addNodeActionId('nodeGroup'))).toBeUndefined();
+  });
+
+  it('follow the user bindings', () => {
+    expect(findAction('Mod+Z', { undo: ['Mod+U'] })).toBeUndefined();
+    expect(findAction('Mod+U', { undo: ['Mod+U'] })?.id).toBe('undo');
+  });
+});
+
+describe('assignBinding', () => {
+  it('takes the binding from the actions that used it', () => {
+    const result = assignBinding({}, 'fit-view', 'Mod+Z');
+    expect(result).toMatchObject({ ok: true, overrides: { 'fit-view': ['Mod+Z'], undo: [] } });
+    if (result.ok) expect(result.displaced.map((a) => a.id)).toEqual(['undo']);
+  });
+
+  it('keeps the other bindings of a displaced action', () => {
+    const result = assignBinding({}, 'fit-view', 'Mod+Y');
+    expect(result).toMatchObject({ ok: true, overrides: { redo: ['Mod+Shift+Z'] } });
+  });
+
+  it('refuses the clipboard shortcuts', () => {
+    expect(assignBinding({}, 'undo', 'Mod+C')).toEqual({ ok: false, reason: 'Ctrl+C is reserved for "Copy selection".' });
+  });
+});
+
+describe('stored bindings', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = installMemoryStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('are saved and loaded, skipping malformed entries', () => {
+    expect(saveShortcutOverrides({ undo: ['Mod+U'] })).toBe(true);
+    storage.setItem('bitespeed.shortcuts', JSON.stringify({ undo: ['Mod+U'], redo: 'Mod+R', help: [1] }));
+    expect(loadShortcutOverrides()).toEqual({ undo: ['Mod+U'] });
+  });
+
+  it('report a full storage', () => {
+    storage.quota = 0;
+    expect(saveShortcutOverrides({ undo: ['Mod+U'] })).toBe(false);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Keyboard Shortcuts Utility
+ *
+ * This module describes the keyboard shortcuts of the flow builder and the
+ * pure helpers behind the shortcut manager (see useShortcuts.ts): turning
+ * key events into bindings, showing bindings, reassigning them and
+ * persisting the user's bindings.
+ *
+ * Binding Format:
+ * - Modifiers in the order `Mod`, `Alt`, `Shift`, then the key, joined with `+`
+ * - `Mod` is Ctrl, or Cmd on a Mac
+ * - Letters and digits are named by their position on the keyboard (`Mod+Z`,
+ *   `1`), so bindings work with any layout and with Alt held
+ * - Other printable keys are named by the character they type, which already
+ *   includes Shift (`?`, `+`); named keys keep their name (`ArrowUp`, `Delete`)
+ *
+ * Storage Layout:
+ * - `bitespeed.shortcuts` -> Record of action ID to bindings, for the actions
+ *   the user has remapped
+ */
+
+import { getPaletteNodeTypes } from './nodeRegistry';
+import { isObject } from './valueChecks';
+
+/** Storage key of the user's bindings */
+const STORAGE_KEY = 'bitespeed.shortcuts';
+
+/** Keys that only modify other keys and never form a binding on their own */
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Shift', 'Alt', 'AltGraph', 'CapsLock']);
+
+/** Whether the app runs on a Mac (Cmd instead of Ctrl, symbol key caps) */
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/** Distance (px) the arrow keys move the selection, and with Shift held */
+export const NUDGE_STEP = 10;
+export const NUDGE_STEP_LARGE = 50;
+
+/**
+ * Shortcut Group Type
+ *
+ * Section of the cheat sheet an action is listed under.
+ */
+export type ShortcutGroup = 'Edit' | 'Selection' | 'Move selection' | 'View' | 'Add nodes' | 'Help';
+
+/** Order of the cheat sheet sections */
+export const SHORTCUT_GROUPS: ShortcutGroup[] = ['Edit', 'Selection', 'Move selection', 'View', 'Add nodes', 'Help'];
+
+/**
+ * Shortcut Action Interface
+ *
+ * @property id - Unique ID of the action, used to store its bindings
+ * @property label - Name of the action shown in the cheat sheet
+ * @property group - Cheat sheet section the action is listed under
+ * @property defaultBindings - Bindings used until the user remaps the action
+ * @property allowInInputs - Whether the action also runs while typing in a text field
+ */
+export interface ShortcutAction {
+  id: string;
+  label: string;
+  group: ShortcutGroup;
+  defaultBindings: string[];
+  allowInInputs?: boolean;
+}
+
+/**
+ * Fixed Shortcut Interface
+ *
+ * A shortcut handled by the browser itself (clipboard), listed in the cheat
+ * sheet but not remappable.
+ */
+export interface FixedShortcut {
+  label: string;
+  group: ShortcutGroup;
+  binding: string;
+}
+
+/** Shortcut bindings the user has changed, by action ID */
+export type ShortcutOverrides = Record<string, string[]>;
+
+/** Shortcuts of the browser's clipboard events (see useFlowClipboard.ts) */
+export const FIXED_SHORTCUTS: FixedShortcut[] = [
+  { label: 'Copy selection', group: 'Edit', binding: 'Mod+C' },
+  { label: 'Cut selection', group: 'Edit', binding: 'Mod+X' },
+  { label: 'Paste', group: 'Edit', binding: 'Mod+V' },
+];
+
+/** Actions that do not depend on the registered node types */
+const BUILT_IN_ACTIONS: ShortcutAction[] = [
+  { id: 'undo', label: 'Undo', group: 'Edit', defaultBindings: ['Mod+Z'], allowInInputs: true },
+  { id: 'redo', label: 'Redo', group: 'Edit', defaultBindings: ['Mod+Shift+Z', 'Mod+Y'], allowInInputs: true },
+  { id: 'duplicate', label: 'Duplicate selection', group: 'Edit', defaultBindings: ['Mod+D'] },
+  { id: 'delete', label: 'Delete selection', group: 'Edit', defaultBindings: ['Delete', 'Backspace'] },
+  { id: 'group', label: 'Group selection', group: 'Edit', defaultBindings: ['Mod+G'] },
+  { id: 'ungroup', label: 'Ungroup selection', group: 'Edit', defaultBindings: ['Mod+Shift+G'] },
+  { id: 'select-all', label: 'Select all nodes', group: 'Selection', defaultBindings: ['Mod+A'] },
+  { id: 'deselect', label: 'Clear selection', group: 'Selection', defaultBindings: ['Escape'] },
+  { id: 'nudge-up', label: 'Move up', group: 'Move selection', defaultBindings: ['ArrowUp'] },
+  { id: 'nudge-down', label: 'Move down', group: 'Move selection', defaultBindings: ['ArrowDown'] },
+  { id: 'nudge-left', label: 'Move left', group: 'Move selection', defaultBindings: ['ArrowLeft'] },
+  { id: 'nudge-right', label: 'Move right', group: 'Move selection', defaultBindings: ['ArrowRight'] },
+  { id: 'nudge-up-far', label: 'Move up further', group: 'Move selection', defaultBindings: ['Shift+ArrowUp'] },
+  { id: 'nudge-down-far', label: 'Move down further', group: 'Move selection', defaultBindings: ['Shift+ArrowDown'] },
+  { id: 'nudge-left-far', label: 'Move left further', group: 'Move selection', defaultBindings: ['Shift+ArrowLeft'] },
+  { id: 'nudge-right-far', label: 'Move right further', group: 'Move selection', defaultBindings: ['Shift+ArrowRight'] },
+  { id: 'fit-view', label: 'Zoom to fit', group: 'View', defaultBindings: ['F'] },
+  { id: 'zoom-in', label: 'Zoom in', group: 'View', defaultBindings: ['=', '+'] },
+  { id: 'zoom-out', label: 'Zoom out', group: 'View', defaultBindings: ['-'] },
+  { id: 'find-node', label: 'Find nodes on the canvas', group: 'View', defaultBindings: ['Mod+F'], allowInInputs: true },
+  { id: 'focus-search', label: 'Search the node palette', group: 'View', defaultBindings: ['/'] },
+  { id: 'help', label: 'Show keyboard shortcuts', group: 'Help', defaultBindings: ['?'] },
+];
+
+/**
+ * Add Node Action ID
+ *
+ * @param type - A node type
+ * @returns ID of the action that adds a node of the type
+ */
+export const addNodeActionId = (type: string) => `add-node:${type}`;
+
+/**
+ * Get Shortcut Actions
+ *
+ * @returns All actions: the built-in ones plus one "add node" action per
+ * node type of the palette (bound to 1-9 in registration order)
+ */
+export function getShortcutActions(): ShortcutAction[] {
+  const addNode = getPaletteNodeTypes().map(
+    (definition, i): ShortcutAction => ({
+      id: addNodeActionId(definition.type),
+      label: `Add ${definition.palette.label}`,
+      group: 'Add nodes',
+      defaultBindings: i < 9 ? [String(i + 1)] : [],
+    })
+  );
+  return [...BUILT_IN_ACTIONS, ...addNode];
+}
+
+/**
+ * Get Bindings
+ *
+ * @param action - A shortcut action
+ * @param overrides - The user's bindings
+ * @returns The bindings currently in effect for the action
+ */
+export function getBindings(action: ShortcutAction, overrides: ShortcutOverrides): string[] {
+  return overrides[action.id] ?? action.defaultBindings;
+}
+
+/**
+ * Find Action
+ *
+ * @param binding - A binding
+ * @param overrides - The user's bindings
+ * @returns The action bound to it, if any
+ */
+export function findAction(binding: string, overrides: ShortcutOverrides): ShortcutAction | undefined {
+  return getShortcutActions().find((action) => getBindings(action, overrides).includes(binding));
+}
+
+/**
+ * Event To Binding
+ *
+ * @param event - A keyboard event
+ * @returns The binding the event matches, or null for a lone modifier key
+ */
+export function eventToBinding(
+  event: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  let key = event.key;
+  let shift = event.shiftKey;
+  if (/^Key[A-Z]$/.test(event.code)) {
+    key = event.code.slice(3);
+  } else if (/^Digit[0-9]$/.test(event.code)) {
+    key = event.code.slice(5);
+  } else if (key === ' ') {
+    key = 'Space';
+  } else if (key.length === 1) {
+    // The character already tells whether Shift was held ("?" vs "/")
+    shift = false;
+  }
+
+  const modifiers = [event.ctrlKey || event.metaKey ? 'Mod' : '', event.altKey ? 'Alt' : '', shift ? 'Shift' : ''];
+  return [...modifiers.filter(Boolean), key].join('+');
+}
+
+/** Key caps of modifiers and named keys, on a Mac and elsewhere */
+const KEY_CAPS: Record<string, [mac: string, other: string]> = {
+  Mod: ['⌘', 'Ctrl'],
+  Alt: ['⌥', 'Alt'],
+  Shift: ['⇧', 'Shift'],
+  ArrowUp: ['↑', '↑'],
+  ArrowDown: ['↓', '↓'],
+  ArrowLeft: ['←', '←'],
+  ArrowRight: ['→', '→'],
+  Escape: ['Esc', 'Esc'],
+  Delete: ['Del', 'Del'],
+  Backspace: ['⌫', 'Backspace'],
+  Enter: ['↵', 'Enter'],
+};
+
+/**
+ * Format Binding
+ *
+ * @param binding - A binding, e.g. "Mod+Shift+Z"
+ * @returns The key caps to show for it, e.g. ["Ctrl", "Shift", "Z"]
+ */
+export function formatBinding(binding: string): string[] {
+  const modifiers = binding.match(/^((Mod|Alt|Shift)\+)*/)?.[0] ?? '';
+  const key = binding.slice(modifiers.length);
+  const parts = [...modifiers.split('+').filter(Boolean), key];
+  return parts.map((part) => KEY_CAPS[part]?.[IS_MAC ? 0 : 1] ?? part);
+}
+
+/**
+ * Describe Binding
+ *
+ * @param binding - A binding
+ * @returns The binding as text, e.g. "Ctrl+Shift+Z", for tooltips
+ */
+export const describeBinding = (binding: string) => formatBinding(binding).join(IS_MAC ? '' : '+');
+
+/**
+ * Assign Binding Result Type
+ *
+ * Either the new bindings, with the actions the binding was taken from, or
+ * the reason the binding cannot be used.
+ */
+export type AssignBindingResult =
+  | { ok: true; overrides: ShortcutOverrides; displaced: ShortcutAction[] }
+  | { ok: false; reason: string };
+
+/**
+ * Assign Binding
+ *
+ * Makes `binding` the only binding of an action. Other actions using the
+ * same binding lose it.
+ *
+ * @param overrides - The user's bindings
+ * @param actionId - ID of the action to bind
+ * @param binding - The new binding
+ * @returns The updated bindings, or why the binding cannot be used
+ */
+export function assignBinding(overrides: ShortcutOverrides, actionId: string, binding: string): AssignBindingResult {
+  const fixed = FIXED_SHORTCUTS.find((s) => s.binding === binding);
+  if (fixed) return { ok: false, reason: `${describeBinding(binding)} is reserved for "${fixed.label}".` };
+
+  const next: ShortcutOverrides = { ...overrides, [actionId]: [binding] };
+  const displaced = getShortcutActions().filter(
+    (action) => action.id !== actionId && getBindings(action, overrides).includes(binding)
+  );
+  displaced.forEach((action) => {
+    next[action.id] = getBindings(action, overrides).filter((b) => b !== binding);
+  });
+  return { ok: true, overrides: next, displaced };
+}
+
+/**
+ * Load Shortcut Overrides
+ *
+ * Reads the user's bindings. Missing or malformed entries are ignored.
+ *
+ * @returns The stored bindings
+ */
+export function loadShortcutOverrides(): ShortcutOverrides {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+  if (!isObject(raw)) return {};
+
+  return Object.fromEntries(
+    Object.entries(raw).filter(
+      (entry): entry is [string, string[]] =>
+        Array.isArray(entry[1]) && entry[1].every((binding) => typeof binding === 'string')
+    )
+  );
+}
+
+/**
+ * Save Shortcut Overrides
+ *
+ * @param overrides - The user's bindings
+ * @returns True if the bindings were stored, false if storage refused them (e.g. quota exceeded)
+ */
+export function saveShortcutOverrides(overrides: ShortcutOverrides): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Is Text Input
+ *
+ * @param target - The target of a keyboard event
+ * @returns True if the event belongs to a text field rather than the canvas
+ */
+export function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
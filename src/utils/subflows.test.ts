@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppEdge, AppNode, SavedFlow } from '../types/flow';
+import { installMemoryStorage } from '../test/memoryStorage';
+import { createFlowRecord, saveFlow } from './flowStorage';
+import { groupNodes } from './groups';
+import {
+  extractSubflow,
+  findSubflowRecursion,
+  getCallerNodeId,
+  getSubflowInterface,
+  inlineSubflows,
+} from './subflows';
+
+const textNode = (id: string, x = 0): AppNode => ({
+  id,
+  type: 'text',
+  position: { x, y: 0 },
+  data: { text: id, type: 'text' },
+});
+
+const menu = (id: string, x = 0): AppNode => ({
+  id,
+  type: 'buttons',
+  position: { x, y: 0 },
+  data: {
+    text: 'Pick',
+    buttons: [
+      { id: 'yes', label: 'Yes' },
+      { id: 'no', label: 'No' },
+    ],
+    maxButtons: 3,
+    type: 'buttons',
+  },
+});
+
+const call = (id: string, subflowId: string, x = 0): AppNode => ({
+  id,
+  type: 'subflow',
+  position: { x, y: 0 },
+  data: { subflowId, type: 'subflow' },
+});
+
+const edge = (source: string, target: string, sourceHandle?: string): AppEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  sourceHandle,
+});
+
+/** Stores a flow in the library under a fixed ID */
+const library = (id: string, nodes: AppNode[], edges: AppEdge[]): SavedFlow => {
+  const flow = { ...createFlowRecord(id, nodes, edges), id };
+  saveFlow(flow);
+  return flow;
+};
+
+beforeEach(() => {
+  installMemoryStorage();
+  // Asks: a text message followed by a yes/no question
+  library('ask', [textNode('s1'), menu('s2', 300)], [edge('s1', 's2')]);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('getSubflowInterface', () => {
+  it('starts at the entry node and ends at every unconnected source handle', () => {
+    expect(getSubflowInterface('ask')).toMatchObject({
+      entryId: 's1',
+      exits: [
+        { id: 's2:yes', label: 'Quick Replies: "Pick" → Yes' },
+        { id: 's2:no', label: 'Quick Replies: "Pick" → No' },
+      ],
+    });
+  });
+
+  it('is null for flows that are not in the library', () => {
+    expect(getSubflowInterface('gone')).toBeNull();
+  });
+});
+
+describe('inlineSubflows', () => {
+  it('replaces call nodes with the subflow and rewires its entry and exits', () => {
+    const flow = createFlowRecord(
+      'Main',
+      [textNode('a'), call('c', 'ask', 300), textNode('b', 600)],
+      [edge('a', 'c'), edge('c', 'b', 's2:yes')]
+    );
+
+    const inlined = inlineSubflows(flow);
+    expect(inlined.nodes.map((n) => n.id)).toEqual(['a', 'b', 'c/s1', 'c/s2']);
+    expect(inlined.edges).toEqual([
+      expect.objectContaining({ source: 'a', target: 'c/s1' }),
+      expect.objectContaining({ source: 'c/s2', sourceHandle: 'yes', target: 'b' }),
+      expect.objectContaining({ source: 'c/s1', target: 'c/s2' }),
+    ]);
+    expect(getCallerNodeId('c/s2')).toBe('c');
+  });
+
+  it('inlines subflows called by subflows', () => {
+    library('outer', [call('inner', 'ask')], []);
+    const inlined = inlineSubflows(createFlowRecord('Main', [call('c', 'outer')], []));
+    expect(inlined.nodes.map((n) => n.id)).toEqual(['c/inner/s1', 'c/inner/s2']);
+  });
+
+  it('keeps call nodes of missing and self-calling subflows', () => {
+    library('loop', [textNode('x'), call('again', 'loop', 300)], [edge('x', 'again')]);
+    const inlined = inlineSubflows(createFlowRecord('Main', [call('c', 'loop'), call('m', 'gone', 300)], []));
+    expect(inlined.nodes.map((n) => n.id)).toEqual(['m', 'c/x', 'c/again']);
+  });
+});
+
+describe('findSubflowRecursion', () => {
+  it('finds the chain of calls that comes back to a running flow', () => {
+    library('ping', [call('c', 'pong')], []);
+    library('pong', [call('c', 'ping')], []);
+    expect(findSubflowRecursion('pong', 'ping')).toEqual(['ping', 'pong', 'ping']);
+    expect(findSubflowRecursion('ask', 'ping')).toBeNull();
+  });
+});
+
+describe('extractSubflow', () => {
+  const grouped = () => {
+    const nodes = [textNode('a'), textNode('b', 300), menu('c', 600), textNode('d', 900)];
+    const result = groupNodes(nodes, ['b', 'c']);
+    if (!result.ok) throw new Error(result.reason);
+    return { nodes: result.nodes, groupId: result.groupId };
+  };
+
+  it('moves the members to the subflow and calls it in place of the group', () => {
+    const { nodes, groupId } = grouped();
+    const result = extractSubflow(nodes, [edge('a', 'b'), edge('b', 'c'), edge('c', 'd', 'no')], groupId, 'sub');
+    if (!result.ok) throw new Error(result.reason);
+
+    expect(result.subflow.nodes.map((n) => n.id)).toEqual(['b', 'c']);
+    expect(result.subflow.nodes[0]).not.toHaveProperty('parentId');
+    expect(result.subflow.edges.map((e) => e.id)).toEqual(['b-c']);
+    expect(result.nodes.map((n) => n.id)).toEqual(['a', 'd', result.callNodeId]);
+    expect(result.edges).toEqual([
+      expect.objectContaining({ source: 'a', target: result.callNodeId }),
+      expect.objectContaining({ source: result.callNodeId, sourceHandle: 'c:no', target: 'd' }),
+    ]);
+  });
+
+  it('refuses groups entered at more than one node, or not at their first node', () => {
+    const { nodes, groupId } = grouped();
+    expect(extractSubflow(nodes, [edge('a', 'b'), edge('d', 'c')], groupId, 'sub')).toMatchObject({ ok: false });
+    expect(extractSubflow(nodes, [edge('b', 'c'), edge('a', 'c', 'right')], groupId, 'sub')).toMatchObject({
+      ok: false,
+      reason: expect.stringContaining('must lead to its first node'),
+    });
+  });
+
+  it('refuses nodes that are not groups', () => {
+    expect(extractSubflow([textNode('a')], [], 'a', 'sub')).toEqual({
+      ok: false,
+      reason: 'Only groups can be extracted into a subflow.',
+    });
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Subflows Utility
+ *
+ * This module implements subflows: flows of the library that other flows
+ * call through a "call subflow" node. Call nodes only store the ID of the
+ * flow they call, so every edit of a subflow applies wherever it is used.
+ *
+ * Interface of a subflow:
+ * - Entry: the subflow's entry node (see findEntryNode); edges into the call
+ *   node continue there
+ * - Exits: every source handle inside the subflow that has no outgoing edge.
+ *   Each exit is a source handle of the call node, with the ID
+ *   `<node ID>:<handle ID>`, so the calling flow decides where the
+ *   conversation continues after each way the subflow can end
+ *
+ * Interfaces are read from browser storage and cached until any flow of the
+ * library is saved again. A subflow that calls itself (directly or through
+ * other subflows) is never expanded; validation reports it instead.
+ *
+ * The chat preview runs calling flows with their subflows inlined (see
+ * inlineSubflows); inlined node IDs start with the ID of their call node.
+ */
+
+import type { AppNode, AppEdge, FlowState, SavedFlow, SubflowNode } from '../types/flow';
+import { resolveSourceHandle } from './connectionRules';
+import { uniqueEdgeId } from './edges';
+import { stripTransient } from './flowFile';
+import { findEntryNode } from './flowRunner';
+import { listFlows, loadFlow } from './flowStorage';
+import { getAbsolutePosition, getGroupMembers, isGroupNode } from './groups';
+import { localizeNode } from './localization';
+import { createNode, getNodeType, getSourceHandleIds, getSourceHandleLabel, isStepNode } from './nodeRegistry';
+
+/** Separates the ID of a call node from the IDs of the nodes inlined for it */
+export const SUBFLOW_ID_SEPARATOR = '/';
+
+/** ID of the target handle of call subflow nodes */
+export const SUBFLOW_ENTRY_HANDLE = 'left';
+
+/** Number of message characters shown in exit labels */
+const SNIPPET_LENGTH = 30;
+
+/**
+ * Subflow Exit Interface
+ *
+ * @property id - ID of the exit, and of the call node's source handle
+ * @property label - Readable name of the exit, e.g. `Quick Replies: "Pick one" → Yes`
+ */
+export interface SubflowExit {
+  id: string;
+  label: string;
+}
+
+/**
+ * Subflow Interface
+ *
+ * @property flow - The called flow, as stored in the library
+ * @property entryId - ID of the node the subflow starts at (undefined if it is empty)
+ * @property exits - Ways the subflow can end, top to bottom on its canvas
+ */
+export interface SubflowInterface {
+  flow: SavedFlow;
+  entryId?: string;
+  exits: SubflowExit[];
+}
+
+/**
+ * Extract Subflow Result Type
+ *
+ * The subflow cut out of the open flow and the open flow with a call node in
+ * its place, or the reason the group cannot be extracted.
+ */
+export type ExtractSubflowResult =
+  | { ok: true; subflow: Pick<FlowState, 'nodes' | 'edges'>; nodes: AppNode[]; edges: AppEdge[]; callNodeId: string }
+  | { ok: false; reason: string };
+
+/** Cached interfaces by flow ID, valid while the library is unchanged */
+const cache = new Map<string, SubflowInterface | null>();
+
+/** Library state the cache was filled for (IDs and save times of all flows) */
+let cacheKey = '';
+
+/** Subflows whose interface is being computed, guarding against self-calling subflows */
+const resolving = new Set<string>();
+
+/**
+ * Exit Handle ID
+ *
+ * @param nodeId - ID of a node inside the subflow
+ * @param handle - ID of one of the node's source handles
+ * @returns ID of the matching exit handle of call nodes
+ */
+export const exitHandleId = (nodeId: string, handle: string) => `${nodeId}:${handle}`;
+
+/**
+ * Split Exit Handle ID
+ *
+ * @param id - ID of an exit handle
+ * @returns The node ID and source handle ID it is made of
+ */
+const splitExitHandle = (id: string): [string, string] => {
+  const index = id.indexOf(':');
+  return index < 0 ? [id, ''] : [id.slice(0, index), id.slice(index + 1)];
+};
+
+/**
+ * Get Caller Node ID
+ *
+ * @param id - ID of a node of a flow with inlined subflows
+ * @returns ID of the node of the open flow it belongs to (itself, or the call node it was inlined for)
+ */
+export const getCallerNodeId = (id: string) => id.split(SUBFLOW_ID_SEPARATOR)[0];
+
+/**
+ * Node Title Helper
+ *
+ * @param node - A node
+ * @returns The node type's name and the start of its message, if any
+ */
+const nodeTitle = (node: AppNode) => {
+  const type = getNodeType(node.type)?.palette.label ?? node.type;
+  const text = 'text' in node.data && typeof node.data.text === 'string' ? node.data.text.trim() : '';
+  if (!text) return type;
+  return `${type}: "${text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text}"`;
+};
+
+/**
+ * Compute Interface Helper
+ *
+ * @param flow - A flow of the library
+ * @returns The flow's entry and exits
+ */
+function computeInterface(flow: SavedFlow): SubflowInterface {
+  const byId = new Map(flow.nodes.map((n) => [n.id, n]));
+  const steps = flow.nodes.filter(isStepNode);
+
+  // Handles with an outgoing edge continue inside the subflow
+  const connected = new Set(
+    flow.edges.flatMap((e) => {
+      const source = byId.get(e.source);
+      const handle = source ? resolveSourceHandle(source, e.sourceHandle) : null;
+      return handle ? [exitHandleId(e.source, handle)] : [];
+    })
+  );
+
+  const position = (n: AppNode) => getAbsolutePosition(n, byId);
+  const exits = [...steps]
+    .sort((a, b) => position(a).y - position(b).y || position(a).x - position(b).x)
+    .flatMap((node) =>
+      (getSourceHandleIds(node) ?? [])
+        .filter((handle) => !connected.has(exitHandleId(node.id, handle)))
+        .map((handle) => {
+          const handleLabel = getSourceHandleLabel(node, handle);
+          return {
+            id: exitHandleId(node.id, handle),
+            label: handleLabel ? `${nodeTitle(node)} → ${handleLabel}` : nodeTitle(node),
+          };
+        })
+    );
+
+  return { flow, entryId: findEntryNode(steps, flow.edges)?.id, exits };
+}
+
+/**
+ * Get Subflow Interface
+ *
+ * @param flowId - ID of a flow of the library
+ * @returns The flow with its entry and exits, or null if there is no such flow
+ */
+export function getSubflowInterface(flowId: string): SubflowInterface | null {
+  const key = listFlows()
+    .map((f) => `${f.id}@${f.updatedAt}`)
+    .join(',');
+  if (key !== cacheKey) {
+    cache.clear();
+    cacheKey = key;
+  }
+
+  const cached = cache.get(flowId);
+  if (cached !== undefined) return cached;
+  // A subflow calling itself has no exits while its own interface is computed
+  if (resolving.has(flowId)) return null;
+
+  resolving.add(flowId);
+  try {
+    const flow = loadFlow(flowId)?.flow;
+    const result = flow ? computeInterface(flow) : null;
+    cache.set(flowId, result);
+    return result;
+  } finally {
+    resolving.delete(flowId);
+  }
+}
+
+/**
+ * Get Called Subflow IDs
+ *
+ * @param nodes - Nodes of a flow
+ * @returns IDs of the subflows the flow's call nodes refer to (without duplicates)
+ */
+export function getCalledSubflowIds(nodes: AppNode[]): string[] {
+  return [
+    ...new Set(
+      nodes.filter((n): n is SubflowNode => n.type === 'subflow').map((n) => n.data.subflowId).filter(Boolean)
+    ),
+  ];
+}
+
+/**
+ * Find Subflow Recursion
+ *
+ * @param subflowId - ID of a called subflow
+ * @param flowId - ID of the calling flow, if it is a library flow
+ * @returns The chain of flow IDs through which the call ends up calling a
+ * flow it is already running (first and last entries are the same flow),
+ * or null if the call always ends
+ */
+export function findSubflowRecursion(subflowId: string, flowId?: string): string[] | null {
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (path.includes(id)) return [...path.slice(path.indexOf(id)), id];
+    const called = getSubflowInterface(id);
+    if (!called) return null;
+    for (const next of getCalledSubflowIds(called.flow.nodes)) {
+      const cycle = visit(next, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+  return visit(subflowId, flowId ? [flowId] : []);
+}
+
+/**
+ * Inlined Flow Type
+ *
+ * A flow with its subflows inlined, plus where its entry and exits ended up.
+ */
+type InlinedFlow = FlowState & {
+  /** ID of the inlined node the flow starts at */
+  entryId?: string;
+  /** Maps a source handle of the flow to the inlined node and handle it leaves from */
+  resolveSource: (nodeId: string, handle: string | null) => { source: string; sourceHandle: string | null };
+};
+
+/**
+ * Inline Helper
+ *
+ * @param flow - The flow to inline subflows into
+ * @param stack - IDs of the flows being inlined (the callers of this flow)
+ * @param prefix - Prefix of the IDs of the flow's inlined nodes and edges
+ * @param locale - Locale to put the messages in, each flow falling back to its own default locale
+ * @returns The flow with every call node replaced by the subflow it calls
+ */
+function inline(flow: FlowState, stack: string[], prefix: string, locale?: string): InlinedFlow {
+  const byId = new Map(flow.nodes.map((n) => [n.id, n]));
+
+  // Subflows of the call nodes that can be expanded
+  const calls = new Map<string, InlinedFlow>();
+  flow.nodes.forEach((node) => {
+    if (node.type !== 'subflow' || !node.data.subflowId || stack.includes(node.data.subflowId)) return;
+    const called = getSubflowInterface(node.data.subflowId);
+    if (!called) return;
+    calls.set(
+      node.id,
+      inline(called.flow, [...stack, node.data.subflowId], `${prefix}${node.id}${SUBFLOW_ID_SEPARATOR}`, locale)
+    );
+  });
+
+  const resolveSource = (nodeId: string, handle: string | null) => {
+    const inner = calls.get(nodeId);
+    if (!inner) return { source: `${prefix}${nodeId}`, sourceHandle: handle };
+    return inner.resolveSource(...splitExitHandle(handle ?? ''));
+  };
+  const entryOf = (nodeId: string) => (calls.has(nodeId) ? calls.get(nodeId)?.entryId : `${prefix}${nodeId}`);
+
+  const nodes = flow.nodes
+    .filter((n) => !calls.has(n.id))
+    .map((n) => (locale ? localizeNode(n, locale, flow.localization) : n))
+    .map((n) => (prefix ? { ...n, id: `${prefix}${n.id}` } : n));
+  const edges = flow.edges.flatMap((e): AppEdge[] => {
+    const target = entryOf(e.target);
+    if (!target) return [];
+    // Edges leaving a call node leave from the handle inside its subflow the exit stands for
+    const source = byId.get(e.source);
+    const ends = calls.has(e.source)
+      ? resolveSource(e.source, source ? resolveSourceHandle(source, e.sourceHandle) : null)
+      : { source: `${prefix}${e.source}`, sourceHandle: e.sourceHandle };
+    return [{ ...e, ...ends, id: `${prefix}${e.id}`, target }];
+  });
+
+  // Variables of the subflows are added unless the caller declares them too
+  const variables = [...flow.variables];
+  calls.forEach((inner) =>
+    inner.variables.forEach((v) => {
+      if (!variables.some((existing) => existing.name === v.name)) variables.push(v);
+    })
+  );
+
+  const entry = findEntryNode(flow.nodes, flow.edges);
+  return {
+    nodes: [...nodes, ...[...calls.values()].flatMap((inner) => inner.nodes)],
+    edges: [...edges, ...[...calls.values()].flatMap((inner) => inner.edges)],
+    variables,
+    localization: flow.localization,
+    channels: flow.channels,
+    entryId: entry && entryOf(entry.id),
+    resolveSource,
+  };
+}
+
+/**
+ * Inline Subflows
+ *
+ * Replaces every call node with the nodes of the subflow it calls, as deep
+ * as subflows call other subflows. Edges into a call node lead to the entry
+ * of its subflow, and edges from an exit handle leave from the matching
+ * handle inside it. Call nodes of missing or self-calling subflows stay as
+ * they are.
+ *
+ * @param flow - A flow
+ * @param flowId - ID of the flow, if it is a library flow
+ * @param locale - Locale to put the messages in (the flows' own fields if omitted)
+ * @returns The flow as the chatbot runs it
+ */
+export function inlineSubflows(flow: FlowState, flowId?: string, locale?: string): FlowState {
+  const { nodes, edges, variables, localization, channels } = inline(flow, flowId ? [flowId] : [], '', locale);
+  return { nodes, edges, variables, localization, channels };
+}
+
+/**
+ * Extract Subflow
+ *
+ * Moves the members of a group into a new subflow and puts a call node in
+ * place of the group. Edges into the group must all lead to the node the
+ * subflow will start at; edges leaving the group leave from the matching
+ * exit handles of the call node.
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges in the flow
+ * @param groupId - ID of the group to extract
+ * @param subflowId - ID of the library flow the members are moved to
+ * @returns The subflow's content and the changed flow, or the reason the group cannot be extracted
+ */
+export function extractSubflow(
+  nodes: AppNode[],
+  edges: AppEdge[],
+  groupId: string,
+  subflowId: string
+): ExtractSubflowResult {
+  const group = nodes.find((n) => n.id === groupId);
+  if (!isGroupNode(group)) return { ok: false, reason: 'Only groups can be extracted into a subflow.' };
+  const members = getGroupMembers(nodes, groupId);
+  if (members.length === 0) return { ok: false, reason: 'The group is empty.' };
+
+  const ids = new Set(members.map((n) => n.id));
+  const incoming = edges.filter((e) => !ids.has(e.source) && ids.has(e.target));
+  const internal = edges.filter((e) => ids.has(e.source) && ids.has(e.target));
+  const outgoing = edges.filter((e) => ids.has(e.source) && !ids.has(e.target));
+
+  // Members keep their place relative to the group
+  const subflowNodes = members.map((member) => {
+    const node = stripTransient(member);
+    delete node.parentId;
+    delete node.extent;
+    return node;
+  });
+  const entry = findEntryNode(subflowNodes, internal);
+  const entryTargets = new Set(incoming.map((e) => e.target));
+  if (entryTargets.size > 1) {
+    return {
+      ok: false,
+      reason: `Connections enter the group at ${entryTargets.size} different nodes. A subflow can only have one entry.`,
+    };
+  }
+  if (entry && entryTargets.size === 1 && !entryTargets.has(entry.id)) {
+    return {
+      ok: false,
+      reason: 'Connections into the group must lead to its first node (the one no connection inside the group leads to).',
+    };
+  }
+
+  const created = createNode('subflow', group.position);
+  if (created?.type !== 'subflow') return { ok: false, reason: 'Call subflow nodes are not available.' };
+  const call: SubflowNode = { ...created, data: { ...created.data, subflowId }, selected: true };
+
+  // Rewire the edges crossing the group's border to the call node
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const rewired = edges.filter((e) => !ids.has(e.source) && !ids.has(e.target));
+  incoming.forEach((e) => {
+    const ends = { source: e.source, sourceHandle: e.sourceHandle, target: call.id, targetHandle: SUBFLOW_ENTRY_HANDLE };
+    rewired.push({ ...e, ...ends, id: uniqueEdgeId(ends, rewired) });
+  });
+  outgoing.forEach((e) => {
+    const source = byId.get(e.source);
+    const handle = source ? resolveSourceHandle(source, e.sourceHandle) : null;
+    const ends = {
+      source: call.id,
+      sourceHandle: exitHandleId(e.source, handle ?? ''),
+      target: e.target,
+      targetHandle: e.targetHandle,
+    };
+    rewired.push({ ...e, ...ends, id: uniqueEdgeId(ends, rewired) });
+  });
+
+  return {
+    ok: true,
+    subflow: { nodes: subflowNodes, edges: internal.map(stripTransient) },
+    nodes: [
+      ...nodes.filter((n) => n.id !== groupId && !ids.has(n.id)).map((n) => (n.selected ? { ...n, selected: false } : n)),
+      call,
+    ],
+    edges: rewired,
+    callNodeId: call.id,
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractPlaceholders,
+  getOpenPlaceholder,
+  interpolate,
+  renamePlaceholder,
+  splitTemplate,
+} from './templating';
+
+describe('splitTemplate', () => {
+  it('splits text into literal text and placeholders', () => {
+    expect(splitTemplate('Hi {{ name }}, order {{order_id}}!')).toEqual([
+      { kind: 'text', text: 'Hi ' },
+      { kind: 'placeholder', text: '{{ name }}', name: 'name' },
+      { kind: 'text', text: ', order ' },
+      { kind: 'placeholder', text: '{{order_id}}', name: 'order_id' },
+      { kind: 'text', text: '!' },
+    ]);
+  });
+
+  it('keeps text without placeholders, and malformed ones, as literal text', () => {
+    expect(splitTemplate('{{1st}} and {name}')).toEqual([{ kind: 'text', text: '{{1st}} and {name}' }]);
+    expect(splitTemplate('')).toEqual([]);
+  });
+});
+
+describe('extractPlaceholders', () => {
+  it('lists every referenced variable once', () => {
+    expect(extractPlaceholders('{{a}} {{ b }} {{a}}')).toEqual(['a', 'b']);
+  });
+});
+
+describe('interpolate', () => {
+  it('replaces placeholders with their values, and unknown ones with nothing', () => {
+    expect(interpolate('Hi {{name}}{{ missing }}!', { name: 'Asha' })).toBe('Hi Asha!');
+  });
+});
+
+describe('getOpenPlaceholder', () => {
+  it('finds the placeholder being typed at the caret', () => {
+    expect(getOpenPlaceholder('Hi {{ na', 8)).toEqual({ start: 3, partial: 'na' });
+    expect(getOpenPlaceholder('Hi {{', 5)).toEqual({ start: 3, partial: '' });
+  });
+
+  it('ignores closed placeholders and text after the caret', () => {
+    expect(getOpenPlaceholder('Hi {{name}}', 11)).toBeNull();
+    expect(getOpenPlaceholder('Hi {{name', 2)).toBeNull();
+  });
+});
+
+describe('renamePlaceholder', () => {
+  it('renames only the placeholders of the variable', () => {
+    expect(renamePlaceholder('{{ name }} {{name_2}}', 'name', 'first_name')).toBe('{{first_name}} {{name_2}}');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Message Templating Utility
+ *
+ * This module implements `{{variable}}` placeholders in message text.
+ * Placeholders are replaced with the current value of the variable when the
+ * message is sent, which lets flows personalize messages with values such
+ * as the customer's name or order ID.
+ *
+ * Syntax:
+ * - `{{name}}` or `{{ name }}` inserts the value of the variable `name`
+ * - Unknown or unset variables are replaced with an empty string at runtime
+ *   and are reported by save-time validation
+ */
+
+import type { VariableValues } from './variables';
+
+/** Matches a single `{{variable}}` placeholder and captures the variable name */
+export const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Template Segment Type
+ *
+ * A piece of message text: either literal text or a placeholder.
+ */
+export type TemplateSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'placeholder'; text: string; name: string };
+
+/**
+ * Split Template
+ *
+ * Splits message text into literal text and placeholders, e.g. for
+ * highlighting placeholders in a preview.
+ *
+ * @param text - Message text
+ * @returns The text's segments in order
+ */
+export function splitTemplate(text: string): TemplateSegment[] {
+  const segments: TemplateSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ kind: 'text', text: text.slice(lastIndex, index) });
+    segments.push({ kind: 'placeholder', text: match[0], name: match[1] });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ kind: 'text', text: text.slice(lastIndex) });
+
+  return segments;
+}
+
+/**
+ * Extract Placeholders
+ *
+ * @param text - Message text
+ * @returns Names of all variables referenced in the text (without duplicates)
+ */
+export function extractPlaceholders(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), (m) => m[1]))];
+}
+
+/**
+ * Interpolate
+ *
+ * @param text - Message text
+ * @param values - Current variable values
+ * @returns The text with every placeholder replaced by its value
+ */
+export function interpolate(text: string, values: VariableValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name] ?? '');
+}
+
+/**
+ * Get Open Placeholder
+ *
+ * Finds a placeholder that is being typed at the caret, for autocompletion.
+ *
+ * @param text - Message text
+ * @param caret - Caret position in the text
+ * @returns Start index of the `{{` and the partial name typed so far, or null
+ */
+export function getOpenPlaceholder(text: string, caret: number): { start: number; partial: string } | null {
+  const match = /\{\{\s*([A-Za-z0-9_]*)$/.exec(text.slice(0, caret));
+  return match ? { start: match.index, partial: match[1] } : null;
+}
+
+/**
+ * Rename Placeholder
+ *
+ * @param text - Message text
+ * @param from - Current variable name
+ * @param to - New variable name
+ * @returns The text with every placeholder for `from` pointing at `to`
+ */
+export function renamePlaceholder(text: string, from: string, to: string): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => (name === from ? `{{${to}}}` : placeholder));
+}
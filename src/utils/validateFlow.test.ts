@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import '../components/FlowBuilder/NodeTypes';
+import type { AppEdge, AppNode } from '../types/flow';
+import { DEFAULT_LOCALIZATION } from './localization';
+import {
+  getHighestSeverities,
+  getValidationRules,
+  registerValidationRule,
+  validateBeforeSave,
+  validateFlow,
+  type ValidationContext,
+  type ValidationRule,
+} from './validateFlow';
+
+const textNode = (id: string, text = id, x = 0): AppNode => ({
+  id,
+  type: 'text',
+  position: { x, y: 0 },
+  data: { text, type: 'text' },
+});
+
+const edge = (source: string, target: string): AppEdge => ({ id: `${source}-${target}`, source, target });
+
+const context = (nodes: AppNode[], edges: AppEdge[]): ValidationContext => ({
+  nodes,
+  edges,
+  variables: [],
+  localization: DEFAULT_LOCALIZATION,
+  channels: [],
+  flows: [],
+});
+
+const ruleIds = (nodes: AppNode[], edges: AppEdge[]) => validateFlow(context(nodes, edges)).map((i) => i.ruleId);
+
+describe('validateFlow', () => {
+  it('finds nothing wrong with a connected flow', () => {
+    expect(validateFlow(context([textNode('a'), textNode('b', 'b', 100)], [edge('a', 'b')]))).toEqual([]);
+  });
+
+  it('reports connections to deleted nodes', () => {
+    expect(ruleIds([textNode('a')], [edge('a', 'gone')])).toContain('dangling-edge');
+  });
+
+  it('reports empty messages on the affected node', () => {
+    const issues = validateFlow(context([textNode('a', ' ')], []));
+    expect(issues).toContainEqual(
+      expect.objectContaining({ ruleId: 'empty-message', severity: 'error', nodeIds: ['a'] })
+    );
+  });
+
+  it('reports loops', () => {
+    expect(ruleIds([textNode('a'), textNode('b', 'b', 100)], [edge('a', 'b'), edge('b', 'a')])).toContain('cycle');
+  });
+
+  it('lists errors before warnings and info', () => {
+    const issues = validateFlow(context([textNode('a', ''), textNode('b'), textNode('c')], []));
+    const order = { error: 0, warning: 1, info: 2 };
+    const severities = issues.map((i) => order[i.severity]);
+    expect(severities).toEqual([...severities].sort());
+  });
+});
+
+describe('registerValidationRule', () => {
+  const rule: ValidationRule = {
+    id: 'test-rule',
+    description: 'Reports every node',
+    severity: 'info',
+    check: ({ nodes }) => nodes.map((n) => ({ message: 'Seen', nodeIds: [n.id] })),
+  };
+
+  it('adds a rule until it is removed again', () => {
+    const remove = registerValidationRule(rule);
+    expect(ruleIds([textNode('a')], [])).toContain('test-rule');
+
+    remove();
+    expect(getValidationRules()).not.toContain(rule);
+  });
+
+  it('replaces a rule with the same ID', () => {
+    const count = getValidationRules().length;
+    const removeFirst = registerValidationRule(rule);
+    const removeSecond = registerValidationRule({ ...rule, severity: 'warning' });
+    expect(getValidationRules()).toHaveLength(count + 1);
+    removeFirst();
+    removeSecond();
+    expect(getValidationRules()).toHaveLength(count);
+  });
+});
+
+describe('getHighestSeverities', () => {
+  it('keeps the most serious severity per node', () => {
+    const issues = validateFlow(context([textNode('a', '')], []), [
+      { id: 'info', description: '', severity: 'info', check: () => [{ message: 'i', nodeIds: ['a'] }] },
+      { id: 'error', description: '', severity: 'error', check: () => [{ message: 'e', nodeIds: ['a'] }] },
+    ]);
+    expect(getHighestSeverities(issues, 'nodeIds').get('a')).toBe('error');
+  });
+});
+
+describe('validateBeforeSave', () => {
+  it('blocks saving on errors and points at the rest', () => {
+    const result = validateBeforeSave([textNode('a', ''), textNode('b', '', 100)], [edge('a', 'b')]);
+    expect(result.ok).toBe(false);
+    expect(result.message).toBe('Message is empty. (+1 more in Problems)');
+  });
+
+  it('allows saving with warnings only', () => {
+    // A loop is only a warning
+    const result = validateBeforeSave([textNode('a'), textNode('b', 'b', 100)], [edge('a', 'b'), edge('b', 'a')]);
+    expect(result.issues.map((i) => i.severity)).toContain('warning');
+    expect(result.ok).toBe(true);
+  });
+});
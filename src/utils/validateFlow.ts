@@ -1,73 +1,225 @@
 /**
  * Flow Validation Utility
- * 
- * This module provides validation logic for the flow builder to ensure
- * that flows have a proper structure before they can be saved.
- * 
- * The validation ensures that flows follow a logical structure where
- * there is a clear flow direction and no disconnected endpoints.
- * 
- * Validation Rules:
- * - If there's more than 1 node, show error if there exists more than one node
- *   that has empty target handles (i.e., no outgoing edges from their source handle).
- * - We interpret "empty target handles" as nodes that have NO outgoing edges.
- * - If there's >1 such node when total nodes > 1 -> error.
- * 
- * This prevents flows with multiple disconnected endpoints, ensuring
- * a single, coherent flow structure.
+ *
+ * This module provides the validation engine for the flow builder. It runs
+ * a set of rules against the flow and collects the problems they find as a
+ * list of issues, which power the canvas outlines, the problems panel and
+ * the check performed before saving.
+ *
+ * Every issue has:
+ * - A severity: "error" blocks saving, "warning" and "info" do not
+ * - The ID of the rule that reported it
+ * - A readable message
+ * - The IDs of the affected nodes and edges
+ *
+ * Rules are pluggable: the built-in rules live in validationRules.ts and
+ * additional rules can be added at runtime with registerValidationRule.
  */
 
-import type { AppNode, AppEdge } from '../types/flow';
+import type { AppNode, AppEdge, ChannelId, FlowLocalization, FlowSummary, FlowVariable } from '../types/flow';
+import { DEFAULT_LOCALIZATION } from './localization';
+import { isStepNode } from './nodeRegistry';
+import { BUILT_IN_RULES } from './validationRules';
+
+/**
+ * Validation Severity Type
+ *
+ * How serious an issue is. Only errors prevent the flow from being saved.
+ */
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Validation Context Type
+ *
+ * The flow data a rule checks. Rules that look at other flows of the library
+ * also get the ID of the checked flow (if it is a library flow) and the
+ * library's flows (read from storage when omitted).
+ */
+export type ValidationContext = {
+  nodes: AppNode[];
+  edges: AppEdge[];
+  variables: FlowVariable[];
+  localization: FlowLocalization;
+  channels: ChannelId[];
+  flowId?: string;
+  flows?: FlowSummary[];
+};
+
+/**
+ * Validation Finding Type
+ *
+ * A single problem reported by a rule. The severity defaults to the rule's own.
+ */
+export type ValidationFinding = {
+  message: string;
+  nodeIds?: string[];
+  edgeIds?: string[];
+  severity?: ValidationSeverity;
+};
+
+/**
+ * Validation Rule Interface
+ *
+ * @property id - Unique, stable identifier of the rule (e.g. "cycle")
+ * @property description - What the rule checks
+ * @property severity - Default severity of the rule's findings
+ * @property check - Inspects the flow and returns its findings (empty if none)
+ */
+export interface ValidationRule {
+  id: string;
+  description: string;
+  severity: ValidationSeverity;
+  check: (context: ValidationContext) => ValidationFinding[];
+}
+
+/**
+ * Validation Issue Interface
+ *
+ * A finding together with the rule that produced it.
+ */
+export interface ValidationIssue {
+  /** Unique ID of the issue within one validation run */
+  id: string;
+  /** ID of the rule that reported the issue */
+  ruleId: string;
+  severity: ValidationSeverity;
+  message: string;
+  /** IDs of the nodes the issue is about */
+  nodeIds: string[];
+  /** IDs of the edges the issue is about */
+  edgeIds: string[];
+}
 
 /**
  * Validation Result Interface
- * 
+ *
  * Defines the structure of the validation result returned by validateBeforeSave.
  */
 interface ValidationResult {
-  /** Whether the validation passed */
+  /** Whether the validation passed (no errors) */
   ok: boolean;
-  /** Error message if validation failed */
+  /** Summary message if validation failed */
   message?: string;
-  /** IDs of nodes with no outgoing edges (for debugging) */
-  nodesWithNoOutgoing?: string[];
+  /** All issues found, including warnings and info */
+  issues: ValidationIssue[];
+}
+
+/** Sort order of severities, most serious first */
+const SEVERITY_ORDER: Record<ValidationSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/** Rules run by validateFlow, in order */
+const rules: ValidationRule[] = [...BUILT_IN_RULES];
+
+/**
+ * Register Validation Rule
+ *
+ * Adds a rule to the engine. A rule with the same ID replaces the existing one.
+ *
+ * @param rule - The rule to add
+ * @returns A function that removes the rule again
+ */
+export function registerValidationRule(rule: ValidationRule): () => void {
+  const index = rules.findIndex((r) => r.id === rule.id);
+  if (index >= 0) {
+    rules[index] = rule;
+  } else {
+    rules.push(rule);
+  }
+
+  return () => {
+    const current = rules.indexOf(rule);
+    if (current >= 0) rules.splice(current, 1);
+  };
+}
+
+/**
+ * Get Validation Rules
+ *
+ * @returns The rules currently run by validateFlow
+ */
+export function getValidationRules(): readonly ValidationRule[] {
+  return rules;
+}
+
+/**
+ * Validate Flow
+ *
+ * Runs every rule against the flow. Container nodes (groups) and
+ * annotations (notes) are no steps of the conversation, so rules never see
+ * them.
+ *
+ * @param context - The flow to check
+ * @param ruleSet - Rules to run (defaults to all registered rules)
+ * @returns All issues found, errors first
+ */
+export function validateFlow(context: ValidationContext, ruleSet: readonly ValidationRule[] = rules): ValidationIssue[] {
+  const steps = { ...context, nodes: context.nodes.filter(isStepNode) };
+  const issues = ruleSet.flatMap((rule) =>
+    rule.check(steps).map((finding, index) => ({
+      id: `${rule.id}:${index}`,
+      ruleId: rule.id,
+      severity: finding.severity ?? rule.severity,
+      message: finding.message,
+      nodeIds: finding.nodeIds ?? [],
+      edgeIds: finding.edgeIds ?? [],
+    }))
+  );
+
+  // Array.prototype.sort is stable, so rule order is kept within a severity
+  return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Get Highest Severities
+ *
+ * @param issues - Issues found by validateFlow
+ * @param key - Whether to collect node or edge IDs
+ * @returns The most serious severity reported for each affected node or edge
+ */
+export function getHighestSeverities(
+  issues: ValidationIssue[],
+  key: 'nodeIds' | 'edgeIds'
+): Map<string, ValidationSeverity> {
+  const result = new Map<string, ValidationSeverity>();
+  issues.forEach((issue) => {
+    issue[key].forEach((id) => {
+      const current = result.get(id);
+      if (!current || SEVERITY_ORDER[issue.severity] < SEVERITY_ORDER[current]) {
+        result.set(id, issue.severity);
+      }
+    });
+  });
+  return result;
 }
 
 /**
  * Validate Flow Before Save
- * 
+ *
  * Validates the flow structure to ensure it meets the required criteria
  * before allowing it to be saved. This prevents invalid flow configurations.
- * 
+ * Notes are ignored, whatever they contain.
+ *
  * @param nodes - Array of all nodes in the flow
  * @param edges - Array of all edges connecting the nodes
+ * @param variables - The flow's variable registry
+ * @param flowId - ID of the flow in the library
+ * @param localization - The flow's languages
+ * @param channels - The channels the flow targets, whose limits it must respect
  * @returns ValidationResult object indicating if the flow is valid
  */
-export function validateBeforeSave(nodes: AppNode[], edges: AppEdge[]): ValidationResult {
-  // If there's only one node or no nodes, the flow is always valid
-  if (nodes.length <= 1) return { ok: true };
-
-  // Build a map of outgoing edge counts per node
-  // This tracks how many edges originate from each node
-  const outCount = new Map<string, number>();
-  edges.forEach((e) => {
-    outCount.set(e.source, (outCount.get(e.source) ?? 0) + 1);
-  });
+export function validateBeforeSave(
+  nodes: AppNode[],
+  edges: AppEdge[],
+  variables: FlowVariable[] = [],
+  flowId?: string,
+  localization: FlowLocalization = DEFAULT_LOCALIZATION,
+  channels: ChannelId[] = []
+): ValidationResult {
+  const issues = validateFlow({ nodes, edges, variables, localization, channels, flowId });
+  const errors = issues.filter((issue) => issue.severity === 'error');
 
-  // Find nodes that have no outgoing edges (endpoints)
-  // These are nodes that don't connect to any other nodes
-  const nodesWithNoOutgoing = nodes.filter((n) => (outCount.get(n.id) ?? 0) === 0);
-  
-  // If there are more than 1 nodes with no outgoing edges, the flow is invalid
-  // This indicates multiple disconnected endpoints, which is not allowed
-  if (nodesWithNoOutgoing.length > 1) {
-    return {
-      ok: false,
-      message: `There are ${nodesWithNoOutgoing.length} nodes with empty target handles. At most 1 is allowed.`,
-      nodesWithNoOutgoing: nodesWithNoOutgoing.map((n) => n.id),
-    };
-  }
+  if (errors.length === 0) return { ok: true, issues };
 
-  // If we reach here, the flow is valid
-  return { ok: true };
+  const more = errors.length > 1 ? ` (+${errors.length - 1} more in Problems)` : '';
+  return { ok: false, message: `${errors[0].message}${more}`, issues };
 }
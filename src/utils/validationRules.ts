@@ -0,0 +1,676 @@
+/**
+ * Built-in Validation Rules
+ *
+ * This module contains the rules the validation engine (validateFlow.ts)
+ * runs by default. Each rule checks one aspect of the flow and reports its
+ * findings with the IDs of the affected nodes and edges.
+ *
+ * Structure Rules:
+ * - dangling-edge (error): edges pointing at deleted nodes or handles
+ * - duplicate-edge (warning): the same connection drawn more than once
+ * - disconnected-island (error): groups of nodes not connected to the entry node
+ * - unreachable-node (warning): nodes the conversation can never reach
+ * - cycle (warning): loops that may repeat forever
+ * - multiple-endpoints (warning): more than one node without outgoing edges
+ *
+ * Content Rules:
+ * - empty-message (error): messages or button labels without text
+ * - file-upload-config (error): invalid file upload settings
+ * - media-config (error): media nodes without usable media (see media.ts)
+ * - buttons-count / buttons-unconnected (error): quick-reply buttons setup
+ * - condition-* (error): condition rules and branches
+ * - api-config (error): API requests with an invalid URL template, headers,
+ *   timeout or response mappings (see apiRequest.ts)
+ * - api-unconnected (error): API requests without both their success and
+ *   error handles connected
+ * - subflow-reference (error): call subflow nodes without a subflow, calling
+ *   a missing flow, or calling a flow that ends up calling itself
+ * - unknown-placeholder (error): `{{placeholders}}` in messages, media
+ *   captions and API requests for undefined variables
+ * - unused-variable (info): declared variables that are never referenced
+ * - missing-translation (error, info for optional locales): messages, labels
+ *   and buttons without a translation into one of the flow's locales
+ *
+ * Channel Rules:
+ * - channel-limits (error): messages, buttons and file uploads over the
+ *   limits of a channel the flow targets (see channels.ts)
+ */
+
+import type { AppNode, AppEdge } from '../types/flow';
+import { API_ERROR_HANDLE_ID, API_SUCCESS_HANDLE_ID, findApiProblems } from './apiRequest';
+import { findUnsupportedFileTypes, getChannelLimit, type ChannelLimit, type NumericChannelLimit } from './channels';
+import { ELSE_HANDLE_ID, isValidRegex } from './conditions';
+import { findEntryNode } from './flowRunner';
+import { listFlows } from './flowStorage';
+import { findTranslationGaps, getLocaleName, getTranslations, localizeNode } from './localization';
+import { findMediaProblems } from './media';
+import { getSourceHandleIds, isNodeOfType } from './nodeRegistry';
+import { findSubflowRecursion, getSubflowInterface } from './subflows';
+import { extractPlaceholders } from './templating';
+import { getKnownVariableNames } from './variables';
+import type { ValidationFinding, ValidationRule } from './validateFlow';
+
+/**
+ * Live Edges Helper
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Array of all edges connecting the nodes
+ * @returns Edges whose source and target both exist
+ */
+function getLiveEdges(nodes: AppNode[], edges: AppEdge[]): AppEdge[] {
+  const ids = new Set(nodes.map((n) => n.id));
+  return edges.filter((e) => ids.has(e.source) && ids.has(e.target));
+}
+
+/**
+ * Reachable Helper
+ *
+ * @param startIds - IDs of the nodes to start from
+ * @param neighbours - Adjacency list of the graph to walk
+ * @returns IDs of all nodes reachable from the start nodes (including them)
+ */
+function reachableFrom(startIds: string[], neighbours: Map<string, string[]>): Set<string> {
+  const seen = new Set(startIds);
+  const queue = [...startIds];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    (neighbours.get(id) ?? []).forEach((next) => {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    });
+  }
+  return seen;
+}
+
+/**
+ * Adjacency Helper
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param edges - Edges to include
+ * @param directed - Whether edges are only followed from source to target
+ * @returns Adjacency list keyed by node ID
+ */
+function buildAdjacency(nodes: AppNode[], edges: AppEdge[], directed: boolean): Map<string, string[]> {
+  const neighbours = new Map<string, string[]>(nodes.map((n) => [n.id, []]));
+  edges.forEach((e) => {
+    neighbours.get(e.source)?.push(e.target);
+    if (!directed) neighbours.get(e.target)?.push(e.source);
+  });
+  return neighbours;
+}
+
+/**
+ * Strongly Connected Components Helper
+ *
+ * Tarjan's algorithm.
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param neighbours - Directed adjacency list
+ * @returns The strongly connected components, as lists of node IDs
+ */
+function stronglyConnectedComponents(nodes: AppNode[], neighbours: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    (neighbours.get(id) ?? []).forEach((next) => {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    });
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop() as string;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  nodes.forEach((n) => {
+    if (!index.has(n.id)) visit(n.id);
+  });
+  return components;
+}
+
+/**
+ * Message Text Helper
+ *
+ * @param node - A node
+ * @returns The message the node sends, or null for nodes without a message
+ */
+const getMessageText = (node: AppNode): string | null =>
+  node.type === 'text' || node.type === 'buttons' ? node.data.text : null;
+
+/**
+ * Message Texts Helper
+ *
+ * @param node - A node
+ * @returns The message (or media caption) the node sends in every locale it
+ * is written in (empty for nodes without one)
+ */
+const getMessageTexts = (node: AppNode): string[] => {
+  const key = node.type === 'media' ? 'caption' : 'text';
+  const text = node.type === 'media' ? node.data.caption : getMessageText(node);
+  if (text === null) return [];
+  return [text, ...Object.values(getTranslations(node)).map((strings) => strings[key] ?? '')];
+};
+
+/**
+ * Template Texts Helper
+ *
+ * @param node - A node
+ * @returns Every text of the node that may use placeholders: its messages,
+ * or the URL, header values and body of an API request
+ */
+const getTemplateTexts = (node: AppNode): string[] => {
+  if (node.type !== 'api') return getMessageTexts(node);
+  const { url, headers, body } = node.data;
+  return [url, ...headers.map((h) => h.value), body];
+};
+
+/** Edges that point at a missing node or leave from a handle that no longer exists */
+const danglingEdgeRule: ValidationRule = {
+  id: 'dangling-edge',
+  description: 'Edges must connect existing nodes and handles',
+  severity: 'error',
+  check: ({ nodes, edges }) => {
+    const byId = new Map(nodes.map((n) => [n.id, n]));
+    return edges.flatMap((edge): ValidationFinding[] => {
+      const source = byId.get(edge.source);
+      const target = byId.get(edge.target);
+      if (!source || !target) {
+        return [{
+          message: `A connection points at a deleted node (${!source ? edge.source : edge.target}).`,
+          nodeIds: [source?.id, target?.id].filter((id): id is string => !!id),
+          edgeIds: [edge.id],
+        }];
+      }
+      // Edges without a source handle attach to the node's only handle, if it has just one
+      const handles = getSourceHandleIds(source);
+      const handle = edge.sourceHandle ?? (handles?.length === 1 ? handles[0] : '');
+      if (handles && !handles.includes(handle)) {
+        return [{
+          message: 'A connection leaves from a handle that no longer exists (e.g. a removed button or branch).',
+          nodeIds: [source.id],
+          edgeIds: [edge.id],
+        }];
+      }
+      return [];
+    });
+  },
+};
+
+/** The same source handle connected to the same target more than once */
+const duplicateEdgeRule: ValidationRule = {
+  id: 'duplicate-edge',
+  description: 'Each connection should only be drawn once',
+  severity: 'warning',
+  check: ({ edges }) => {
+    const seen = new Set<string>();
+    return edges.flatMap((edge): ValidationFinding[] => {
+      const key = `${edge.source}:${edge.sourceHandle ?? ''}->${edge.target}:${edge.targetHandle ?? ''}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        return [];
+      }
+      return [{
+        message: 'The same connection is drawn more than once.',
+        nodeIds: [edge.source, edge.target],
+        edgeIds: [edge.id],
+      }];
+    });
+  },
+};
+
+/** Groups of nodes that are not connected to the entry node at all */
+const disconnectedIslandRule: ValidationRule = {
+  id: 'disconnected-island',
+  description: 'All nodes must be connected to the entry node',
+  severity: 'error',
+  check: ({ nodes, edges }) => {
+    if (nodes.length <= 1) return [];
+    const liveEdges = getLiveEdges(nodes, edges);
+    const entry = findEntryNode(nodes, liveEdges);
+    if (!entry) return [];
+
+    const undirected = buildAdjacency(nodes, liveEdges, false);
+    const assigned = reachableFrom([entry.id], undirected);
+    const findings: ValidationFinding[] = [];
+
+    nodes.forEach((node) => {
+      if (assigned.has(node.id)) return;
+      const island = reachableFrom([node.id], undirected);
+      island.forEach((id) => assigned.add(id));
+      findings.push({
+        message:
+          island.size === 1
+            ? 'This node is not connected to the rest of the flow.'
+            : `${island.size} nodes form a group that is not connected to the rest of the flow.`,
+        nodeIds: [...island],
+      });
+    });
+    return findings;
+  },
+};
+
+/** Nodes connected to the flow that the conversation can never get to */
+const unreachableNodeRule: ValidationRule = {
+  id: 'unreachable-node',
+  description: 'Every node should be reachable from the entry node',
+  severity: 'warning',
+  check: ({ nodes, edges }) => {
+    const liveEdges = getLiveEdges(nodes, edges);
+    const entry = findEntryNode(nodes, liveEdges);
+    if (!entry) return [];
+
+    // Islands are reported separately; only look at the entry node's group
+    const connected = reachableFrom([entry.id], buildAdjacency(nodes, liveEdges, false));
+    const reachable = reachableFrom([entry.id], buildAdjacency(nodes, liveEdges, true));
+    const unreachable = nodes.filter((n) => connected.has(n.id) && !reachable.has(n.id));
+
+    return unreachable.length > 0
+      ? [{
+          message: `${unreachable.length} node(s) can never be reached from the start of the flow.`,
+          nodeIds: unreachable.map((n) => n.id),
+        }]
+      : [];
+  },
+};
+
+/** Loops in the flow (these may be intentional, e.g. "back to menu") */
+const cycleRule: ValidationRule = {
+  id: 'cycle',
+  description: 'Loops may make the conversation repeat forever',
+  severity: 'warning',
+  check: ({ nodes, edges }) => {
+    const liveEdges = getLiveEdges(nodes, edges);
+    const components = stronglyConnectedComponents(nodes, buildAdjacency(nodes, liveEdges, true));
+
+    return components
+      .filter((ids) => ids.length > 1 || liveEdges.some((e) => e.source === ids[0] && e.target === ids[0]))
+      .map((ids) => {
+        const members = new Set(ids);
+        return {
+          message: `${ids.length} node(s) form a loop. Make sure the conversation can leave it.`,
+          nodeIds: ids,
+          edgeIds: liveEdges.filter((e) => members.has(e.source) && members.has(e.target)).map((e) => e.id),
+        };
+      });
+  },
+};
+
+/** The original structure rule: a flow should end in a single place */
+const multipleEndpointsRule: ValidationRule = {
+  id: 'multiple-endpoints',
+  description: 'At most one node should have no outgoing edges',
+  severity: 'warning',
+  check: ({ nodes, edges }) => {
+    if (nodes.length <= 1) return [];
+
+    // Count outgoing edges per node
+    const outCount = new Map<string, number>();
+    getLiveEdges(nodes, edges).forEach((e) => outCount.set(e.source, (outCount.get(e.source) ?? 0) + 1));
+
+    const endpoints = nodes.filter((n) => (outCount.get(n.id) ?? 0) === 0);
+    return endpoints.length > 1
+      ? [{
+          message: `There are ${endpoints.length} nodes with empty target handles. At most 1 is recommended.`,
+          nodeIds: endpoints.map((n) => n.id),
+        }]
+      : [];
+  },
+};
+
+/** Messages and button labels must contain text */
+const emptyMessageRule: ValidationRule = {
+  id: 'empty-message',
+  description: 'Messages and button labels must not be empty',
+  severity: 'error',
+  check: ({ nodes }) =>
+    nodes.flatMap((node): ValidationFinding[] => {
+      const findings: ValidationFinding[] = [];
+      const text = getMessageText(node);
+      if (text !== null && !text.trim()) {
+        findings.push({ message: 'Message is empty.', nodeIds: [node.id] });
+      }
+      if (node.type === 'buttons' && node.data.buttons.some((b) => !b.label.trim())) {
+        findings.push({ message: 'A quick-reply button has no label.', nodeIds: [node.id] });
+      }
+      return findings;
+    }),
+};
+
+/** File upload nodes need a label, a positive size limit and usable file types */
+const fileUploadConfigRule: ValidationRule = {
+  id: 'file-upload-config',
+  description: 'File upload settings must be valid',
+  severity: 'error',
+  check: ({ nodes }) =>
+    nodes
+      .filter(isNodeOfType('fileUpload'))
+      .flatMap((node): ValidationFinding[] => {
+        const { label, maxSize, allowedTypes } = node.data;
+        const findings: ValidationFinding[] = [];
+        if (!label.trim()) {
+          findings.push({ message: 'File upload has no label.', nodeIds: [node.id] });
+        }
+        if (!Number.isFinite(maxSize) || maxSize <= 0) {
+          findings.push({ message: 'File upload size limit must be a positive number of MB.', nodeIds: [node.id] });
+        }
+        const invalid = allowedTypes.filter((t) => !/^\.?[A-Za-z0-9]+$/.test(t.trim()));
+        if (invalid.length > 0) {
+          findings.push({
+            message: `File upload has invalid file types: ${invalid.map((t) => `"${t}"`).join(', ')}.`,
+            nodeIds: [node.id],
+          });
+        }
+        return findings;
+      }),
+};
+
+/** Media nodes need a link or an attached file of their media type */
+const mediaConfigRule: ValidationRule = {
+  id: 'media-config',
+  description: 'Media nodes must have media of a supported type and size',
+  severity: 'error',
+  check: ({ nodes }) =>
+    nodes
+      .filter(isNodeOfType('media'))
+      .flatMap((node) =>
+        findMediaProblems(node.data).map((problem) => ({ message: problem, nodeIds: [node.id] }))
+      ),
+};
+
+/** Quick-reply nodes need between 1 and maxButtons buttons */
+const buttonsCountRule: ValidationRule = {
+  id: 'buttons-count',
+  description: 'Quick-reply nodes need between one and their maximum number of buttons',
+  severity: 'error',
+  check: ({ nodes }) =>
+    nodes
+      .filter(isNodeOfType('buttons'))
+      .filter((n) => {
+        const { buttons, maxButtons } = n.data;
+        return buttons.length === 0 || buttons.length > maxButtons;
+      })
+      .map((n) => ({ message: 'Quick-reply node has no buttons or more buttons than its maximum.', nodeIds: [n.id] })),
+};
+
+/** Every quick-reply button is its own branch and must be connected */
+const buttonsUnconnectedRule: ValidationRule = {
+  id: 'buttons-unconnected',
+  description: 'Every quick-reply button must be connected',
+  severity: 'error',
+  check: ({ nodes, edges }) => {
+    const connectedHandles = new Set(edges.map((e) => `${e.source}:${e.sourceHandle}`));
+    return nodes
+      .filter(isNodeOfType('buttons'))
+      .flatMap((n) => {
+        const unconnected = n.data.buttons.filter((b) => !connectedHandles.has(`${n.id}:${b.id}`));
+        if (unconnected.length === 0) return [];
+        const labels = unconnected.map((b) => `"${b.label || 'Untitled button'}"`).join(', ');
+        return [{ message: `Every quick-reply button must be connected. Unconnected: ${labels}.`, nodeIds: [n.id] }];
+      });
+  },
+};
+
+/** Condition branches need rules that can be evaluated */
+const conditionRulesRule: ValidationRule = {
+  id: 'condition-rules',
+  description: 'Condition branches need rules on known variables with valid regular expressions',
+  severity: 'error',
+  check: ({ nodes, variables }) => {
+    const known = new Set(getKnownVariableNames(variables));
+    return nodes
+      .filter(isNodeOfType('condition'))
+      .flatMap((node): ValidationFinding[] => {
+        const { groups } = node.data;
+        const rules = groups.flatMap((g) => g.rules);
+        const findings: ValidationFinding[] = [];
+
+        if (groups.some((g) => g.rules.length === 0)) {
+          findings.push({ message: 'Every condition branch needs at least one rule.', nodeIds: [node.id] });
+        }
+        const unknown = [...new Set(rules.map((r) => r.variable).filter((v) => !known.has(v)))];
+        if (unknown.length > 0) {
+          const names = unknown.map((v) => `"${v || '(empty)'}"`).join(', ');
+          findings.push({ message: `Condition references unknown variable(s): ${names}.`, nodeIds: [node.id] });
+        }
+        rules
+          .filter((r) => r.operator === 'matchesRegex' && !isValidRegex(r.value))
+          .forEach((r) => findings.push({ message: `Invalid regular expression "${r.value}" in a condition.`, nodeIds: [node.id] }));
+        return findings;
+      });
+  },
+};
+
+/** The else branch is taken whenever no rule matches, so it must lead somewhere */
+const conditionElseRule: ValidationRule = {
+  id: 'condition-else-unconnected',
+  description: 'Every condition needs its Else branch connected',
+  severity: 'error',
+  check: ({ nodes, edges }) =>
+    nodes
+      .filter((n) => n.type === 'condition')
+      .filter((n) => !edges.some((e) => e.source === n.id && e.sourceHandle === ELSE_HANDLE_ID))
+      .map((n) => ({ message: 'Every condition needs its Else branch connected.', nodeIds: [n.id] })),
+};
+
+/** API requests must be sendable and their response mappings must store into declared variables */
+const apiConfigRule: ValidationRule = {
+  id: 'api-config',
+  description: 'API requests need a valid URL, headers, timeout and response mappings',
+  severity: 'error',
+  check: ({ nodes, variables }) =>
+    nodes
+      .filter(isNodeOfType('api'))
+      .flatMap((node) =>
+        findApiProblems(node.data, variables).map((problem) => ({ message: problem, nodeIds: [node.id] }))
+      ),
+};
+
+/** A request can fail at runtime, so both of its outcomes must lead somewhere */
+const apiUnconnectedRule: ValidationRule = {
+  id: 'api-unconnected',
+  description: 'Every API request needs its Success and Error handles connected',
+  severity: 'error',
+  check: ({ nodes, edges }) => {
+    const connectedHandles = new Set(edges.map((e) => `${e.source}:${e.sourceHandle}`));
+    return nodes
+      .filter((n) => n.type === 'api')
+      .flatMap((n) => {
+        const unconnected = [
+          [API_SUCCESS_HANDLE_ID, 'Success'],
+          [API_ERROR_HANDLE_ID, 'Error'],
+        ].filter(([handle]) => !connectedHandles.has(`${n.id}:${handle}`));
+        if (unconnected.length === 0) return [];
+        const labels = unconnected.map(([, label]) => label).join(' and ');
+        return [{ message: `API request needs its ${labels} handle${unconnected.length > 1 ? 's' : ''} connected.`, nodeIds: [n.id] }];
+      });
+  },
+};
+
+/** Call nodes must call a library flow that can finish */
+const subflowReferenceRule: ValidationRule = {
+  id: 'subflow-reference',
+  description: 'Call subflow nodes must call an existing flow that does not call itself',
+  severity: 'error',
+  check: ({ nodes, flowId, flows = listFlows() }) =>
+    nodes
+      .filter(isNodeOfType('subflow'))
+      .flatMap((node): ValidationFinding[] => {
+        const { subflowId } = node.data;
+        if (!subflowId) return [{ message: 'Choose the subflow this node calls.', nodeIds: [node.id] }];
+        if (!flows.some((f) => f.id === subflowId)) {
+          return [{ message: 'This node calls a subflow that no longer exists.', nodeIds: [node.id] }];
+        }
+        const cycle = findSubflowRecursion(subflowId, flowId);
+        if (!cycle) return [];
+        const names = cycle.map((id) => `"${getSubflowInterface(id)?.flow.name ?? 'this flow'}"`).join(' → ');
+        return [{ message: `Subflows call each other in a loop that never ends: ${names}.`, nodeIds: [node.id] }];
+      }),
+};
+
+/** Message and request placeholders may only use system or declared variables */
+const unknownPlaceholderRule: ValidationRule = {
+  id: 'unknown-placeholder',
+  description: 'Message and request placeholders must reference defined variables',
+  severity: 'error',
+  check: ({ nodes, variables }) => {
+    const known = new Set(getKnownVariableNames(variables));
+    return nodes.flatMap((node): ValidationFinding[] => {
+      const referenced = new Set(getTemplateTexts(node).flatMap((text) => extractPlaceholders(text)));
+      const unknown = [...referenced].filter((name) => !known.has(name));
+      if (unknown.length === 0) return [];
+      const names = unknown.map((name) => `"{{${name}}}"`).join(', ');
+      return [{
+        message: `${node.type === 'api' ? 'Request' : 'Message'} references undefined variable(s): ${names}. Declare them in the Variables panel.`,
+        nodeIds: [node.id],
+      }];
+    });
+  },
+};
+
+/** Declared variables that nothing refers to */
+const unusedVariableRule: ValidationRule = {
+  id: 'unused-variable',
+  description: 'Declared variables should be used',
+  severity: 'info',
+  check: ({ nodes, variables }) => {
+    const used = new Set(
+      nodes.flatMap((node) => {
+        if (node.type === 'condition') {
+          return node.data.groups.flatMap((g) => g.rules.map((r) => r.variable));
+        }
+        const referenced = getTemplateTexts(node).flatMap((text) => extractPlaceholders(text));
+        // Variables an API response is stored into count as used
+        return node.type === 'api' ? [...referenced, ...node.data.mappings.map((m) => m.variable)] : referenced;
+      })
+    );
+    return variables
+      .filter((v) => !used.has(v.name))
+      .map((v) => ({ message: `Variable "${v.name}" is declared but never used.` }));
+  },
+};
+
+/** Messages must be translated into the flow's required locales; optional locales are only reported */
+const missingTranslationRule: ValidationRule = {
+  id: 'missing-translation',
+  description: 'Messages must be translated into every required locale',
+  severity: 'error',
+  check: ({ nodes, localization }) =>
+    findTranslationGaps(nodes, localization).map((gap) => ({
+      message: `Not translated into ${getLocaleName(gap.locale)} (${gap.locale}): ${gap.strings
+        .map((s) => s.label.toLowerCase())
+        .join(', ')}.`,
+      nodeIds: [gap.nodeId],
+      severity: gap.required ? 'error' : 'info',
+    })),
+};
+
+/** Messages, buttons and file uploads must fit every channel the flow targets, in every locale */
+const channelLimitsRule: ValidationRule = {
+  id: 'channel-limits',
+  description: 'Messages, buttons and file uploads must fit the limits of the targeted channels',
+  severity: 'error',
+  check: ({ nodes, localization, channels }) => {
+    if (channels.length === 0) return [];
+    // Channels are targeted, so every limit has a strictest value
+    const limit = (name: NumericChannelLimit) => getChannelLimit(channels, name) as ChannelLimit;
+
+    return nodes.flatMap((node): ValidationFinding[] => {
+      const findings: ValidationFinding[] = [];
+      const report = (message: string) => findings.push({ message, nodeIds: [node.id] });
+      const versions = localization.locales.map((l) => localizeNode(node, l.code, localization));
+
+      if (node.type === 'text' || node.type === 'buttons') {
+        const max = limit(node.type === 'buttons' ? 'maxButtonsTextLength' : 'maxTextLength');
+        const longest = Math.max(...versions.map((v) => getMessageText(v)?.length ?? 0));
+        if (longest > max.value) {
+          const context = node.type === 'buttons' ? ' with quick replies' : '';
+          report(`Message is ${longest} characters long; ${max.channel.name} allows ${max.value}${context}.`);
+        }
+      }
+
+      if (node.type === 'buttons') {
+        const { buttons } = node.data;
+        const maxButtons = limit('maxButtons');
+        if (buttons.length > maxButtons.value) {
+          report(`Quick-reply node has ${buttons.length} buttons; ${maxButtons.channel.name} allows ${maxButtons.value}.`);
+        }
+        const maxLabel = limit('maxButtonLabelLength');
+        const labels = versions.flatMap((v) => (v.type === 'buttons' ? v.data.buttons.map((b) => b.label) : []));
+        const long = [...new Set(labels.filter((label) => label.length > maxLabel.value))];
+        if (long.length > 0) {
+          report(
+            `Button labels over the ${maxLabel.value} characters ${maxLabel.channel.name} allows: ${long
+              .map((label) => `"${label}"`)
+              .join(', ')}.`
+          );
+        }
+      }
+
+      if (node.type === 'fileUpload') {
+        const { maxSize, allowedTypes } = node.data;
+        const maxFile = limit('maxFileSize');
+        if (maxSize > maxFile.value) {
+          report(`File size limit of ${maxSize} MB is over the ${maxFile.value} MB ${maxFile.channel.name} accepts.`);
+        }
+        const rejected = new Map<string, string[]>();
+        findUnsupportedFileTypes(allowedTypes, channels).forEach(({ type, channels: rejecting }) =>
+          rejecting.forEach((c) => rejected.set(c.name, [...(rejected.get(c.name) ?? []), type]))
+        );
+        rejected.forEach((types, name) => report(`${name} does not accept these file types: ${types.join(', ')}.`));
+      }
+      return findings;
+    });
+  },
+};
+
+/**
+ * Built-in Rules
+ *
+ * The rules the validation engine starts with, in the order they run.
+ */
+export const BUILT_IN_RULES: ValidationRule[] = [
+  danglingEdgeRule,
+  duplicateEdgeRule,
+  disconnectedIslandRule,
+  unreachableNodeRule,
+  cycleRule,
+  multipleEndpointsRule,
+  emptyMessageRule,
+  fileUploadConfigRule,
+  mediaConfigRule,
+  buttonsCountRule,
+  buttonsUnconnectedRule,
+  conditionRulesRule,
+  conditionElseRule,
+  apiConfigRule,
+  apiUnconnectedRule,
+  subflowReferenceRule,
+  unknownPlaceholderRule,
+  unusedVariableRule,
+  missingTranslationRule,
+  channelLimitsRule,
+];
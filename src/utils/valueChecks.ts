@@ -0,0 +1,28 @@
+/**
+ * Value Check Utility
+ *
+ * Small helpers shared by the code that checks untrusted data, such as
+ * imported flow files, and reports readable errors about it.
+ */
+
+/**
+ * Is Object Helper
+ *
+ * @param value - Any value
+ * @returns True for plain (non-array, non-null) objects
+ */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Describe Helper
+ *
+ * @param value - Any value
+ * @returns Short description of the value's type for error messages
+ */
+export const describe = (value: unknown): string => {
+  if (value === undefined) return 'nothing (field is missing)';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { AppNode, FlowVariable } from '../types/flow';
+import { getDefaultValues, getKnownVariableNames, renameVariableReferences, validateVariableName } from './variables';
+
+const variables: FlowVariable[] = [
+  { name: 'city', type: 'string', defaultValue: 'Pune', description: '' },
+  { name: 'count', type: 'number', defaultValue: '0', description: '' },
+];
+
+describe('variable registry', () => {
+  it('knows the system and declared variables', () => {
+    expect(getKnownVariableNames(variables)).toEqual(expect.arrayContaining(['selected_button', 'city', 'count']));
+  });
+
+  it('starts declared variables with their default values', () => {
+    expect(getDefaultValues(variables)).toEqual({ city: 'Pune', count: '0' });
+  });
+});
+
+describe('validateVariableName', () => {
+  it('accepts a new, well-formed name, and an unchanged one', () => {
+    expect(validateVariableName('order_id', variables, -1)).toBeNull();
+    expect(validateVariableName('city', variables, 0)).toBeNull();
+  });
+
+  it('rejects malformed, system and duplicate names', () => {
+    expect(validateVariableName('1st', variables, -1)).toContain('letters, digits and underscores');
+    expect(validateVariableName('selected_button', variables, -1)).toBe('"selected_button" is a system variable.');
+    expect(validateVariableName('city', variables, 1)).toBe('"city" is already declared.');
+  });
+});
+
+describe('renameVariableReferences', () => {
+  const text: AppNode = {
+    id: 'text',
+    type: 'text',
+    position: { x: 0, y: 0 },
+    data: { text: 'In {{city}}', translations: { hi: { text: 'में {{ city }}' } }, type: 'text' },
+  };
+  const condition: AppNode = {
+    id: 'condition',
+    type: 'condition',
+    position: { x: 0, y: 0 },
+    data: {
+      groups: [{ id: 'g', combinator: 'and', rules: [{ id: 'r', variable: 'city', operator: 'isEmpty', value: '' }] }],
+      type: 'condition',
+    },
+  };
+  const other: AppNode = {
+    id: 'other',
+    type: 'text',
+    position: { x: 0, y: 0 },
+    data: { text: 'No variables', type: 'text' },
+  };
+
+  it('renames placeholders, translations and condition rules', () => {
+    const [renamedText, renamedCondition] = renameVariableReferences([text, condition], 'city', 'town');
+    expect(renamedText.data).toMatchObject({ text: 'In {{town}}', translations: { hi: { text: 'में {{town}}' } } });
+    expect(renamedCondition.data).toMatchObject({ groups: [{ rules: [{ variable: 'town' }] }] });
+  });
+
+  it('keeps the identity of nodes that do not use the variable', () => {
+    expect(renameVariableReferences([other], 'city', 'town')[0]).toBe(other);
+  });
+});
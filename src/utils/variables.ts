@@ -0,0 +1,166 @@
+/**
+ * Conversation Variables Utility
+ *
+ * This module defines the conversation variables a flow can route on.
+ * Variables hold values collected while the conversation runs, such as the
+ * button the user picked or the files they uploaded.
+ *
+ * System variables are set automatically by the chatbot runtime (and by the
+ * chat preview) from the user's responses. Flows can declare additional
+ * variables in their variable registry; those start out with their default
+ * value and can be referenced the same way.
+ */
+
+import type { AppNode, FlowVariable, Translations } from '../types/flow';
+import { renamePlaceholder } from './templating';
+
+/** Allowed variable names: a letter or underscore followed by letters, digits or underscores */
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Variable Definition Interface
+ *
+ * @property name - Variable name as referenced in conditions
+ * @property description - What the variable holds
+ */
+export interface VariableDefinition {
+  name: string;
+  description: string;
+}
+
+/**
+ * System Variables
+ *
+ * Variables maintained by the runtime from the user's responses.
+ */
+export const SYSTEM_VARIABLES: VariableDefinition[] = [
+  { name: 'selected_button', description: 'Label of the last quick-reply button the user picked' },
+  { name: 'uploaded_file_count', description: 'Number of files in the last upload' },
+  { name: 'uploaded_file_name', description: 'Name of the first file in the last upload' },
+];
+
+/**
+ * Variable Values Type
+ *
+ * Current values of conversation variables, keyed by variable name.
+ */
+export type VariableValues = Record<string, string>;
+
+/**
+ * Get Known Variable Names
+ *
+ * @param variables - The flow's variable registry
+ * @returns Names of all variables that conditions and placeholders may reference
+ */
+export function getKnownVariableNames(variables: FlowVariable[] = []): string[] {
+  return [...SYSTEM_VARIABLES.map((v) => v.name), ...variables.map((v) => v.name)];
+}
+
+/**
+ * Get Default Values
+ *
+ * @param variables - The flow's variable registry
+ * @returns The starting values of all declared variables
+ */
+export function getDefaultValues(variables: FlowVariable[]): VariableValues {
+  return Object.fromEntries(variables.map((v) => [v.name, v.defaultValue]));
+}
+
+/**
+ * Validate Variable Name
+ *
+ * @param name - Proposed variable name
+ * @param variables - The flow's variable registry
+ * @param index - Index of the variable being edited (so it doesn't clash with itself)
+ * @returns Error message, or null if the name is valid
+ */
+export function validateVariableName(name: string, variables: FlowVariable[], index: number): string | null {
+  if (!VARIABLE_NAME_PATTERN.test(name)) {
+    return 'Use letters, digits and underscores, starting with a letter or underscore.';
+  }
+  if (SYSTEM_VARIABLES.some((v) => v.name === name)) {
+    return `"${name}" is a system variable.`;
+  }
+  if (variables.some((v, i) => i !== index && v.name === name)) {
+    return `"${name}" is already declared.`;
+  }
+  return null;
+}
+
+/**
+ * Rename In Translations Helper
+ *
+ * @param translations - A node's translations
+ * @param key - Key of the translated string that may contain placeholders
+ * @param from - Current variable name
+ * @param to - New variable name
+ * @returns The translations with renamed placeholders (the same object if nothing changed)
+ */
+function renameInTranslations(translations: Translations, key: string, from: string, to: string): Translations {
+  let changed = false;
+  const renamed = Object.fromEntries(
+    Object.entries(translations).map(([locale, strings]) => {
+      if (strings[key] === undefined) return [locale, strings];
+      const value = renamePlaceholder(strings[key], from, to);
+      if (value === strings[key]) return [locale, strings];
+      changed = true;
+      return [locale, { ...strings, [key]: value }];
+    })
+  );
+  return changed ? renamed : translations;
+}
+
+/**
+ * Rename Variable References
+ *
+ * Points message, caption and API request placeholders, condition rules and
+ * API response mappings at a renamed variable.
+ *
+ * @param nodes - Array of all nodes in the flow
+ * @param from - Current variable name
+ * @param to - New variable name
+ * @returns The updated nodes (unchanged nodes keep their identity)
+ */
+export function renameVariableReferences(nodes: AppNode[], from: string, to: string): AppNode[] {
+  return nodes.map((node) => {
+    if (node.type === 'text' || node.type === 'buttons') {
+      const { data } = node;
+      const text = renamePlaceholder(data.text, from, to);
+      // Translated messages use the same placeholders
+      const translations = data.translations && renameInTranslations(data.translations, 'text', from, to);
+      if (text === data.text && translations === data.translations) return node;
+      return { ...node, data: { ...data, text, translations } } as AppNode;
+    }
+    if (node.type === 'media') {
+      const { data } = node;
+      const caption = renamePlaceholder(data.caption, from, to);
+      const translations = data.translations && renameInTranslations(data.translations, 'caption', from, to);
+      if (caption === data.caption && translations === data.translations) return node;
+      return { ...node, data: { ...data, caption, translations } } as AppNode;
+    }
+    if (node.type === 'api') {
+      const { data } = node;
+      const url = renamePlaceholder(data.url, from, to);
+      const body = renamePlaceholder(data.body, from, to);
+      const headers = data.headers.map((h) => {
+        const value = renamePlaceholder(h.value, from, to);
+        return value === h.value ? h : { ...h, value };
+      });
+      const mappings = data.mappings.map((m) => (m.variable === from ? { ...m, variable: to } : m));
+      const headersChanged = headers.some((h, i) => h !== data.headers[i]);
+      const mappingsChanged = mappings.some((m, i) => m !== data.mappings[i]);
+      if (url === data.url && body === data.body && !headersChanged && !mappingsChanged) return node;
+      return { ...node, data: { ...data, url, body, headers, mappings } } as AppNode;
+    }
+    if (node.type === 'condition') {
+      const { data } = node;
+      if (!data.groups.some((g) => g.rules.some((r) => r.variable === from))) return node;
+      const groups = data.groups.map((g) => ({
+        ...g,
+        rules: g.rules.map((r) => (r.variable === from ? { ...r, variable: to } : r)),
+      }));
+      return { ...node, data: { ...data, groups } } as AppNode;
+    }
+    return node;
+  });
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** URL of the flow backend, e.g. "https://api.example.com/v1"; the in-browser mock server is used when unset */
+  readonly VITE_FLOW_API_URL?: string;
+}